@@ -5,6 +5,8 @@ import { FirestoreService } from "../src/services/firestore.service";
 /**
  * Script para corrigir o streak de um usuário específico
  *
+ * Preferir PUT /api/admin/users/:userId/streak, que registra a correção na auditoria.
+ *
  * Uso: npx tsx scripts/fix-user-streak.ts <userId> [streakValue]
  *
  * Exemplos:
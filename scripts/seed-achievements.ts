@@ -1,8 +1,8 @@
 import "dotenv/config";
 import admin from "firebase-admin";
 import {
-  firebaseApp,
   firestoreCollections,
+  getFirebaseApp,
 } from "../src/config/firebase.config";
 import {
   AchievementTier,
@@ -180,6 +180,18 @@ const ACHIEVEMENTS: SeedAchievement[] = [
       params: { metric: "deck_reviews_submitted" },
     },
   },
+  {
+    id: "group_goal_first",
+    name: "Trabalho em Equipe",
+    description: "Bata a meta semanal de um grupo de estudo.",
+    tier: AchievementTier.BRONZE,
+    xpReward: 75,
+    icon: "bronze_group_goal",
+    condition: {
+      type: AchievementType.GROUP_GOAL,
+      target: 1,
+    },
+  },
   {
     id: "twenty_cards_in_day",
     name: "Velocista",
@@ -375,6 +387,18 @@ const ACHIEVEMENTS: SeedAchievement[] = [
       params: { metric: "marketplace_decks_added" },
     },
   },
+  {
+    id: "group_goal_ten_weeks",
+    name: "Turma Unida",
+    description: "Bata a meta semanal de grupos de estudo 10 vezes.",
+    tier: AchievementTier.SILVER,
+    xpReward: 250,
+    icon: "silver_group_goal_ten",
+    condition: {
+      type: AchievementType.GROUP_GOAL,
+      target: 10,
+    },
+  },
   {
     id: "review_ten_decks",
     name: "Crítico",
@@ -947,5 +971,5 @@ seedAchievements()
     process.exitCode = 1;
   })
   .finally(async () => {
-    await firebaseApp.delete().catch(() => undefined);
+    await getFirebaseApp().delete().catch(() => undefined);
   });
@@ -0,0 +1,60 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const API_TOKEN = "token-de-teste";
+
+describe("app com STORAGE_BACKEND=memory", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const request = (path: string, init: RequestInit = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        "content-type": "application/json",
+        "x-api-token": API_TOKEN,
+        ...init.headers,
+      },
+    });
+
+  beforeAll(async () => {
+    process.env.STORAGE_BACKEND = "memory";
+    process.env.GAMIFICATION_API_TOKEN = API_TOKEN;
+
+    const { default: app } = await import("./app");
+
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("processa uma revisão e expõe o progresso diário sem credenciais do Firebase", async () => {
+    const review = await request("/api/gamification/process-review", {
+      method: "POST",
+      body: JSON.stringify({
+        userId: "offline-user",
+        cardId: "card-1",
+        deckId: "deck-1",
+        difficulty: "good",
+      }),
+    });
+
+    const reviewBody = (await review.json()) as { totalXP: number };
+
+    expect(review.status).toBe(200);
+    expect(reviewBody.totalXP).toBeGreaterThan(0);
+
+    const daily = await request(
+      "/api/gamification/daily-progress/offline-user"
+    );
+    const dailyBody = (await daily.json()) as { cardsReviewed: number };
+
+    expect(daily.status).toBe(200);
+    expect(dailyBody.cardsReviewed).toBe(1);
+  });
+});
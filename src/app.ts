@@ -3,9 +3,14 @@ import dotenv from "dotenv";
 import express from "express";
 import helmet from "helmet";
 import swaggerUi from "swagger-ui-express";
-import "./config/firebase.config";
+import { getFirebaseApp } from "./config/firebase.config";
+import { getStorageBackend } from "./config/storage.config";
 import { swaggerSpec } from "./config/swagger.config";
+import scheduleCheckGroupGoals from "./jobs/check-group-goals.job";
+import scheduleCleanupNotifications from "./jobs/cleanup-notifications.job";
 import scheduleKeepAlive from "./jobs/keep-alive.job";
+import scheduleSendReminders from "./jobs/send-reminders.job";
+import scheduleUpdateRankings from "./jobs/update-rankings.job";
 import scheduleUpdateStreaks from "./jobs/update-streaks.job";
 import { authMiddleware } from "./middlewares/auth.middleware";
 import {
@@ -13,12 +18,18 @@ import {
   notFoundMiddleware,
 } from "./middlewares/error.middleware";
 import { rateLimiter } from "./middlewares/rate-limit.middleware";
+import { requestContextMiddleware } from "./middlewares/request-context.middleware";
 import routes from "./routes";
 import pingRoutes from "./routes/ping.routes";
 import { logger } from "./utils/logger";
 
 dotenv.config();
 
+// Firebase só é inicializado quando os dados ficam no Firestore (STORAGE_BACKEND)
+if (getStorageBackend() === "firestore") {
+  getFirebaseApp();
+}
+
 const app = express();
 
 // Segurança
@@ -30,6 +41,9 @@ app.use(cors());
 // Parse JSON
 app.use(express.json());
 
+// Request id e endpoint para a trilha de auditoria (depois do express.json)
+app.use(requestContextMiddleware);
+
 // Logger de requisições
 app.use((req, _res, next) => {
   logger.info(`${req.method} ${req.path}`, {
@@ -69,6 +83,7 @@ app.use("/api", rateLimiter, authMiddleware, routes);
 // - /api/statistics/* (getDeckStatistics, getUserStatistics, updateSession)
 // - /api/rankings/* (getMonthlyRanking, getYearlyRanking, getUserPosition)
 // - /api/gamification/* (rotas de gamificação existentes)
+// - /api/admin/* (catálogo de conquistas e operações sobre usuários; exige x-admin-token ou role=admin)
 
 // Middleware de rota não encontrada (404)
 app.use(notFoundMiddleware);
@@ -91,6 +106,10 @@ if (require.main === module) {
 
     // Inicializar cron jobs
     scheduleUpdateStreaks();
+    scheduleUpdateRankings();
+    scheduleSendReminders();
+    scheduleCleanupNotifications();
+    scheduleCheckGroupGoals();
     scheduleKeepAlive();
   });
 }
@@ -0,0 +1,12 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export const achievementConfig = {
+  // true: o XP da conquista é concedido no desbloqueio (comportamento antigo).
+  // ACHIEVEMENT_AUTO_CLAIM=false exige o resgate em POST /achievements/:userId/:achievementId/claim
+  autoClaim:
+    process.env.ACHIEVEMENT_AUTO_CLAIM?.trim().toLowerCase() !== "false",
+} as const;
+
+export type AchievementConfig = typeof achievementConfig;
@@ -0,0 +1,95 @@
+import dotenv from "dotenv";
+import { XPSource } from "../models/XPTransaction";
+
+dotenv.config();
+
+export type DailyXPCaps = Partial<Record<XPSource, number>>;
+
+// Fontes sem limite aqui (conquistas, meta diária, streak, ajustes) não são limitadas
+const DEFAULT_DAILY_XP_CAPS: DailyXPCaps = {
+  [XPSource.REVIEW]: 2000,
+  [XPSource.CARD_CREATION]: 1000,
+  [XPSource.DECK_CREATION]: 500,
+};
+
+const readNumber = (name: string, fallback: number, min = 0): number => {
+  const raw = process.env[name]?.trim();
+
+  if (!raw) {
+    return fallback;
+  }
+
+  const value = Number(raw);
+
+  if (!Number.isFinite(value) || value < min) {
+    throw new Error(
+      `${name} inválido: "${raw}". Informe um número maior ou igual a ${min}.`
+    );
+  }
+
+  return value;
+};
+
+/**
+ * ANTI_ABUSE_DAILY_XP_CAPS no formato "review=2000,card_creation=1000".
+ * Substitui apenas as fontes informadas; 0 remove o limite da fonte.
+ */
+const readDailyXPCaps = (): DailyXPCaps => {
+  const raw = process.env.ANTI_ABUSE_DAILY_XP_CAPS?.trim();
+  const caps: DailyXPCaps = { ...DEFAULT_DAILY_XP_CAPS };
+
+  if (!raw) {
+    return caps;
+  }
+
+  const sources = Object.values(XPSource) as string[];
+
+  for (const entry of raw.split(",")) {
+    const [source = "", value = ""] = entry.split("=").map((s) => s.trim());
+    const cap = Number(value);
+
+    if (!sources.includes(source) || !Number.isFinite(cap) || cap < 0) {
+      throw new Error(
+        `ANTI_ABUSE_DAILY_XP_CAPS inválido: "${entry}". Use <fonte>=<xp>, com fonte em: ${sources.join(", ")}`
+      );
+    }
+
+    if (cap === 0) {
+      delete caps[source as XPSource];
+    } else {
+      caps[source as XPSource] = cap;
+    }
+  }
+
+  return caps;
+};
+
+export interface AntiAbuseConfig {
+  // ANTI_ABUSE_ENABLED=false desliga todas as verificações
+  enabled: boolean;
+  // Revisões do mesmo card dentro deste intervalo são ignoradas (sem XP e sem progresso)
+  minReviewIntervalSeconds: number;
+  // Revisões do mesmo card nas últimas 24h com XP integral
+  fullXPReviewsPerCard: number;
+  // Multiplicador aplicado a cada revisão extra do card (0.5 = metade, um quarto...)
+  diminishingReturnsFactor: number;
+  // XP máximo por fonte nas últimas 24h
+  dailyXPCaps: DailyXPCaps;
+  // Violações no período a partir das quais o usuário entra no relatório
+  flagThreshold: number;
+}
+
+export const antiAbuseConfig: AntiAbuseConfig = {
+  enabled: process.env.ANTI_ABUSE_ENABLED?.trim().toLowerCase() !== "false",
+  minReviewIntervalSeconds: readNumber(
+    "ANTI_ABUSE_MIN_REVIEW_INTERVAL_SECONDS",
+    60
+  ),
+  fullXPReviewsPerCard: readNumber("ANTI_ABUSE_FULL_XP_REVIEWS_PER_CARD", 3),
+  diminishingReturnsFactor: Math.min(
+    1,
+    readNumber("ANTI_ABUSE_DIMINISHING_FACTOR", 0.5)
+  ),
+  dailyXPCaps: readDailyXPCaps(),
+  flagThreshold: readNumber("ANTI_ABUSE_FLAG_THRESHOLD", 10, 1),
+};
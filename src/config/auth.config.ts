@@ -13,11 +13,37 @@ if (!apiToken) {
   );
 }
 
+export type AuthMode = "token" | "firebase";
+
+export const AUTH_MODES: readonly AuthMode[] = ["token", "firebase"];
+
+/**
+ * AUTH_MODE=token (padrão): apenas o token compartilhado, com acesso a qualquer usuário.
+ * AUTH_MODE=firebase: clientes enviam o ID token do Firebase Auth e só acessam o
+ * próprio userId; o token compartilhado continua valendo como credencial de serviço.
+ */
+const mode = (process.env.AUTH_MODE?.trim().toLowerCase() ||
+  "token") as AuthMode;
+
+if (!AUTH_MODES.includes(mode)) {
+  throw new Error(
+    `AUTH_MODE inválido: "${mode}". Valores permitidos: ${AUTH_MODES.join(", ")}`
+  );
+}
+
+// Credencial separada para as rotas /api/admin (sem ela, as rotas ficam bloqueadas)
+const adminToken = process.env.ADMIN_API_TOKEN?.trim() || null;
+
 export const authConfig = {
+  mode,
   token: apiToken,
   headerName: "x-api-token",
+  adminToken,
+  adminHeaderName: "x-admin-token",
   authorizationHeader: "authorization",
   bearerPrefix: "Bearer ",
+  // Custom claim do Firebase Auth que libera acesso a outros usuários ("admin" ou "service")
+  roleClaim: "role",
 } as const;
 
 export type AuthConfig = typeof authConfig;
@@ -1,4 +1,5 @@
 import { AchievementTier } from "../models/Achievement";
+import { QuestMetric, QuestPeriod, type QuestTemplate } from "../models/Quest";
 
 export const XP_VALUES = {
   REVIEW_AGAIN: 5,
@@ -14,6 +15,220 @@ export const XP_VALUES = {
 
 export const DAILY_GOAL_TARGET = 20;
 
+export const DAILY_GOAL_CONFIG = {
+  MAX_CARDS: 500,
+  MAX_MINUTES: 600,
+} as const;
+
+export const STREAK_FREEZE_CONFIG = {
+  // Limite de freezes por usuário (estoque + equipados)
+  MAX_INVENTORY: 5,
+  // Freezes equipados ao mesmo tempo (consumidos automaticamente)
+  MAX_EQUIPPED: 2,
+  XP_COST: 500,
+  // Um freeze é ganho a cada N dias consecutivos de streak
+  EARN_EVERY_DAYS: 7,
+} as const;
+
+export const RANKING_CONFIG = {
+  // Entradas por documento de página do snapshot (limite de 1 MiB por documento)
+  SNAPSHOT_PAGE_SIZE: 1000,
+  DEFAULT_LIMIT: 50,
+  MAX_LIMIT: 100,
+  // Quantidade de vizinhos acima/abaixo retornados na posição do usuário
+  NEIGHBORS: 2,
+} as const;
+
+export const IDEMPOTENCY_CONFIG = {
+  // Janela em que um eventId repetido devolve a resposta original
+  RETENTION_MS: 7 * 24 * 60 * 60 * 1000,
+  // Após esse tempo um evento preso em "processing" pode ser reprocessado
+  PROCESSING_TIMEOUT_MS: 60 * 1000,
+  HEADER: "Idempotency-Key",
+} as const;
+
+export const REVIEW_BATCH_CONFIG = {
+  MAX_REVIEWS: 200,
+  // Tolerância para relógios de dispositivos adiantados
+  MAX_FUTURE_SKEW_MS: 5 * 60 * 1000,
+  // Revisões offline mais antigas que isso são rejeitadas no lote
+  MAX_PAST_AGE_MS: 48 * 60 * 60 * 1000,
+} as const;
+
+export const ACHIEVEMENT_ADMIN_CONFIG = {
+  // Quantidade de usuários listados como exemplo no dry-run
+  DRY_RUN_SAMPLE_SIZE: 20,
+} as const;
+
+export const LEVEL_TABLE_CONFIG = {
+  // Níveis retornados por GET /levels (limitados pelo LEVEL_CAP)
+  DEFAULT_LEVELS: 50,
+  MAX_LEVELS: 500,
+} as const;
+
+export const ANTI_ABUSE_REPORT_CONFIG = {
+  // Usuários retornados pelo relatório de sinalizados
+  DEFAULT_LIMIT: 50,
+  MAX_LIMIT: 500,
+  // Período padrão (em dias, incluindo hoje) quando "from" não é informado
+  DEFAULT_PERIOD_DAYS: 7,
+} as const;
+
+export const XP_BOOST_CONFIG = {
+  // Multiplicador máximo de um boost (boosts não se acumulam: vale o maior)
+  MAX_MULTIPLIER: 5,
+  // Duração máxima de um evento criado pelo admin
+  MAX_EVENT_DURATION_DAYS: 31,
+  // Duração máxima de um boost pessoal concedido por conquista
+  MAX_ACHIEVEMENT_BOOST_MINUTES: 24 * 60,
+  // GET /boosts/:userId também lista os boosts que começam neste período
+  UPCOMING_DAYS: 7,
+} as const;
+
+export const FRIENDS_CONFIG = {
+  // Amizades aceitas por usuário (pedidos pendentes não contam)
+  MAX_FRIENDS: 200,
+} as const;
+
+export const STUDY_GROUP_CONFIG = {
+  MAX_MEMBERS: 20,
+  // Grupos em que o usuário é membro (convites pendentes não contam)
+  MAX_GROUPS_PER_USER: 10,
+  DEFAULT_WEEKLY_XP_GOAL: 2000,
+  // Bônus concedido a cada membro quando o grupo bate a meta da semana
+  GOAL_BONUS_XP: 100,
+} as const;
+
+export const REMINDER_CONFIG = {
+  // Janela de sessões de estudo usada para descobrir a hora habitual
+  HISTORY_DAYS: 14,
+  // Hora local usada enquanto o usuário não tem sessões na janela
+  DEFAULT_STUDY_HOUR: 19,
+  // Hora local do aviso de streak em risco
+  STREAK_AT_RISK_HOUR: 20,
+  // Limites de frequência (todos os tipos somados)
+  MAX_PER_WEEK: 5,
+  MIN_HOURS_BETWEEN: 3,
+} as const;
+
+export const INBOX_CONFIG = {
+  // Dias até a notificação expirar e ser apagada pelo job de limpeza
+  TTL_DAYS: 90,
+  DEFAULT_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100,
+} as const;
+
+export const QUEST_CONFIG = {
+  // Missões sorteadas por usuário em cada período
+  DAILY_QUESTS: 3,
+  WEEKLY_QUESTS: 3,
+} as const;
+
+/**
+ * Pool de missões. O sorteio é determinístico por usuário e período, e evita
+ * duas missões da mesma métrica no mesmo período.
+ */
+export const QUEST_TEMPLATES: readonly QuestTemplate[] = [
+  {
+    id: "daily_review_20",
+    period: QuestPeriod.DAILY,
+    metric: QuestMetric.CARDS_REVIEWED,
+    target: 20,
+    xpReward: 30,
+    title: "Aquecimento",
+    description: "Revise 20 cards hoje",
+  },
+  {
+    id: "daily_review_50",
+    period: QuestPeriod.DAILY,
+    metric: QuestMetric.CARDS_REVIEWED,
+    target: 50,
+    xpReward: 60,
+    title: "Maratona do dia",
+    description: "Revise 50 cards hoje",
+  },
+  {
+    id: "daily_hard_10",
+    period: QuestPeriod.DAILY,
+    metric: QuestMetric.HARD_CARDS_REVIEWED,
+    target: 10,
+    xpReward: 40,
+    title: "Encarando o difícil",
+    description: "Revise 10 cards difíceis hoje",
+  },
+  {
+    id: "daily_decks_3",
+    period: QuestPeriod.DAILY,
+    metric: QuestMetric.DECKS_STUDIED,
+    target: 3,
+    xpReward: 40,
+    title: "Variando os estudos",
+    description: "Estude 3 decks diferentes hoje",
+  },
+  {
+    id: "daily_create_5",
+    period: QuestPeriod.DAILY,
+    metric: QuestMetric.CARDS_CREATED,
+    target: 5,
+    xpReward: 30,
+    title: "Mão na massa",
+    description: "Crie 5 cards hoje",
+  },
+  {
+    id: "weekly_review_300",
+    period: QuestPeriod.WEEKLY,
+    metric: QuestMetric.CARDS_REVIEWED,
+    target: 300,
+    xpReward: 200,
+    title: "Semana produtiva",
+    description: "Revise 300 cards nesta semana",
+  },
+  {
+    id: "weekly_hard_50",
+    period: QuestPeriod.WEEKLY,
+    metric: QuestMetric.HARD_CARDS_REVIEWED,
+    target: 50,
+    xpReward: 150,
+    title: "Sem medo do difícil",
+    description: "Revise 50 cards difíceis nesta semana",
+  },
+  {
+    id: "weekly_decks_5",
+    period: QuestPeriod.WEEKLY,
+    metric: QuestMetric.DECKS_STUDIED,
+    target: 5,
+    xpReward: 150,
+    title: "Explorador",
+    description: "Estude 5 decks diferentes nesta semana",
+  },
+  {
+    id: "weekly_create_10",
+    period: QuestPeriod.WEEKLY,
+    metric: QuestMetric.CARDS_CREATED,
+    target: 10,
+    xpReward: 100,
+    title: "Construtor",
+    description: "Crie 10 cards nesta semana",
+  },
+  {
+    id: "weekly_deck_1",
+    period: QuestPeriod.WEEKLY,
+    metric: QuestMetric.DECKS_CREATED,
+    target: 1,
+    xpReward: 80,
+    title: "Novo assunto",
+    description: "Crie um deck nesta semana",
+  },
+];
+
+export const AUDIT_CONFIG = {
+  // Registros retornados por consulta da linha do tempo de auditoria
+  DEFAULT_LIMIT: 100,
+  MAX_LIMIT: 500,
+  // Período padrão da consulta quando "from" não é informado
+  DEFAULT_PERIOD_DAYS: 7,
+} as const;
+
 export type AchievementTierMetadata = {
   label: string;
   color: string;
@@ -68,54 +68,121 @@ function initializeFirebase() {
   }
 }
 
-const firebaseApp = initializeFirebase();
+// Inicialização sob demanda: com STORAGE_BACKEND=memory o Firebase nunca é carregado
+let firebaseApp: admin.app.App | null = null;
+let firestore: FirebaseFirestore.Firestore | null = null;
 
-const firestore = admin.firestore(firebaseApp);
-firestore.settings({ ignoreUndefinedProperties: true });
+export function getFirebaseApp(): admin.app.App {
+  firebaseApp ??= initializeFirebase();
+  return firebaseApp;
+}
+
+export function getFirestore(): FirebaseFirestore.Firestore {
+  if (!firestore) {
+    firestore = admin.firestore(getFirebaseApp());
+    firestore.settings({ ignoreUndefinedProperties: true });
+  }
+
+  return firestore;
+}
+
+const collection = (name: string) => getFirestore().collection(name);
 
-const usersCollection = firestore.collection("users");
-const achievementsCollection = firestore.collection("achievements");
-const userAchievementsCollection = firestore.collection("userAchievements");
-const dailyProgressCollection = firestore.collection("dailyProgress");
-const xpTransactionsCollection = firestore.collection("xpTransactions");
-const streaksCollection = firestore.collection("streaks");
-const userMetricsCollection = firestore.collection("userMetrics");
+const usersCollection = () => collection("users");
+const achievementsCollection = () => collection("achievements");
+const userAchievementsCollection = () => collection("userAchievements");
+const dailyProgressCollection = () => collection("dailyProgress");
+const xpTransactionsCollection = () => collection("xpTransactions");
+const streaksCollection = () => collection("streaks");
+const userMetricsCollection = () => collection("userMetrics");
+const rankingsCollection = () => collection("rankings");
+const studySessionsCollection = () => collection("studySessions");
+const processedEventsCollection = () => collection("processedEvents");
+const dailyGoalSettingsCollection = () => collection("dailyGoalSettings");
+const auditLogsCollection = () => collection("auditLogs");
+const antiAbuseFlagsCollection = () => collection("antiAbuseFlags");
+const xpBoostsCollection = () => collection("xpBoosts");
+const questsCollection = () => collection("quests");
+const friendshipsCollection = () => collection("friendships");
+const studyGroupsCollection = () => collection("studyGroups");
+const reminderLogsCollection = () => collection("reminderLogs");
+const notificationPreferencesCollection = () =>
+  collection("notificationPreferences");
+const notificationInboxCollection = () => collection("notificationInbox");
 
 export const firestoreCollections = {
-  users: () => usersCollection,
-  userDoc: (userId: string) => usersCollection.doc(userId),
+  users: () => usersCollection(),
+  userDoc: (userId: string) => usersCollection().doc(userId),
   userProfileCollection: (userId: string) =>
-    usersCollection.doc(userId).collection("profile"),
+    usersCollection().doc(userId).collection("profile"),
   userProfileDoc: (userId: string) =>
-    usersCollection.doc(userId).collection("profile").doc("profile"),
-  achievements: () => achievementsCollection,
+    usersCollection().doc(userId).collection("profile").doc("profile"),
+  achievements: () => achievementsCollection(),
   achievementDoc: (achievementId: string) =>
-    achievementsCollection.doc(achievementId),
-  userAchievementsRoot: () => userAchievementsCollection,
+    achievementsCollection().doc(achievementId),
+  userAchievementsRoot: () => userAchievementsCollection(),
   userAchievementsDoc: (userId: string) =>
-    userAchievementsCollection.doc(userId),
+    userAchievementsCollection().doc(userId),
   userAchievementEntry: (userId: string, entryId: string) =>
-    userAchievementsCollection
+    userAchievementsCollection()
       .doc(userId)
       .collection("achievements")
       .doc(entryId),
   userAchievementEntries: (userId: string) =>
-    userAchievementsCollection.doc(userId).collection("achievements"),
-  dailyProgressDoc: (userId: string) => dailyProgressCollection.doc(userId),
+    userAchievementsCollection().doc(userId).collection("achievements"),
+  dailyProgressDoc: (userId: string) => dailyProgressCollection().doc(userId),
   dailyProgressEntries: (userId: string) =>
-    dailyProgressCollection.doc(userId).collection("days"),
+    dailyProgressCollection().doc(userId).collection("days"),
   dailyProgressEntry: (userId: string, date: string) =>
-    dailyProgressCollection.doc(userId).collection("days").doc(date),
-  xpTransactionsDoc: (userId: string) => xpTransactionsCollection.doc(userId),
+    dailyProgressCollection().doc(userId).collection("days").doc(date),
+  dailyGoalSettingsDoc: (userId: string) =>
+    dailyGoalSettingsCollection().doc(userId),
+  xpTransactionsDoc: (userId: string) => xpTransactionsCollection().doc(userId),
   xpTransactionEntries: (userId: string) =>
-    xpTransactionsCollection.doc(userId).collection("transactions"),
+    xpTransactionsCollection().doc(userId).collection("transactions"),
   xpTransactionEntry: (userId: string, entryId: string) =>
-    xpTransactionsCollection
+    xpTransactionsCollection()
       .doc(userId)
       .collection("transactions")
       .doc(entryId),
-  streaksDoc: (userId: string) => streaksCollection.doc(userId),
-  userMetricsDoc: (userId: string) => userMetricsCollection.doc(userId),
+  streaks: () => streaksCollection(),
+  streaksDoc: (userId: string) => streaksCollection().doc(userId),
+  userMetricsDoc: (userId: string) => userMetricsCollection().doc(userId),
+  rankings: () => rankingsCollection(),
+  rankingDoc: (rankingId: string) => rankingsCollection().doc(rankingId),
+  rankingPages: (rankingId: string) =>
+    rankingsCollection().doc(rankingId).collection("pages"),
+  studySessions: () => studySessionsCollection(),
+  studySessionDoc: (sessionId: string) =>
+    studySessionsCollection().doc(sessionId),
+  processedEventDoc: (recordId: string) =>
+    processedEventsCollection().doc(recordId),
+  auditLogEntries: (scopeId: string) =>
+    auditLogsCollection().doc(scopeId).collection("entries"),
+  auditLogEntry: (scopeId: string, recordId: string) =>
+    auditLogsCollection().doc(scopeId).collection("entries").doc(recordId),
+  antiAbuseFlags: () => antiAbuseFlagsCollection(),
+  antiAbuseFlagDoc: (flagId: string) => antiAbuseFlagsCollection().doc(flagId),
+  xpBoosts: () => xpBoostsCollection(),
+  xpBoostDoc: (boostId: string) => xpBoostsCollection().doc(boostId),
+  userQuestEntries: (userId: string) =>
+    questsCollection().doc(userId).collection("entries"),
+  userQuestEntry: (userId: string, questId: string) =>
+    questsCollection().doc(userId).collection("entries").doc(questId),
+  friendships: () => friendshipsCollection(),
+  friendshipDoc: (friendshipId: string) =>
+    friendshipsCollection().doc(friendshipId),
+  studyGroups: () => studyGroupsCollection(),
+  studyGroupDoc: (groupId: string) => studyGroupsCollection().doc(groupId),
+  reminderLogDoc: (userId: string) => reminderLogsCollection().doc(userId),
+  notificationPreferences: () => notificationPreferencesCollection(),
+  notificationPreferencesDoc: (userId: string) =>
+    notificationPreferencesCollection().doc(userId),
+  inboxNotificationEntries: (userId: string) =>
+    notificationInboxCollection().doc(userId).collection("notifications"),
+  inboxNotificationEntry: (userId: string, notificationId: string) =>
+    notificationInboxCollection()
+      .doc(userId)
+      .collection("notifications")
+      .doc(notificationId),
 } as const;
-
-export { firebaseApp, firestore };
@@ -0,0 +1,130 @@
+import dotenv from "dotenv";
+import { z } from "zod";
+import type { LevelCurveConfig } from "../utils/level-curve";
+
+dotenv.config();
+
+export interface LevelTitle {
+  // Primeiro nível com este título
+  minLevel: number;
+  title: string;
+  // Identificador do ícone exibido pelo app
+  badge: string;
+}
+
+export interface LevelConfig {
+  curve: LevelCurveConfig;
+  // Nível máximo (null: sem limite)
+  cap: number | null;
+  // Após o nível máximo, cada prestigeXP de XP soma um nível de prestígio
+  prestigeXP: number | null;
+  // Ordenados por minLevel
+  titles: LevelTitle[];
+}
+
+// 100 * nível² (curva original)
+const DEFAULT_CURVE: LevelCurveConfig = {
+  type: "polynomial",
+  base: 100,
+  exponent: 2,
+};
+
+const DEFAULT_TITLES: LevelTitle[] = [
+  { minLevel: 0, title: "Iniciante", badge: "seed" },
+  { minLevel: 5, title: "Aprendiz", badge: "sprout" },
+  { minLevel: 10, title: "Estudante", badge: "book" },
+  { minLevel: 20, title: "Dedicado", badge: "star" },
+  { minLevel: 35, title: "Especialista", badge: "medal" },
+  { minLevel: 50, title: "Mestre", badge: "crown" },
+  { minLevel: 75, title: "Lenda", badge: "trophy" },
+];
+
+const PositiveNumberSchema = z.number().positive();
+
+const LevelCurveSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("polynomial"),
+    base: PositiveNumberSchema,
+    exponent: PositiveNumberSchema,
+  }),
+  z.object({
+    type: z.literal("piecewise"),
+    segments: z
+      .array(
+        z.object({
+          fromLevel: z.number().int().min(1),
+          xpPerLevel: PositiveNumberSchema,
+        })
+      )
+      .min(1)
+      .refine(
+        (segments) => segments.some((segment) => segment.fromLevel === 1),
+        "O primeiro trecho da curva deve começar no nível 1"
+      ),
+  }),
+]);
+
+const LevelTitlesSchema = z
+  .array(
+    z.object({
+      minLevel: z.number().int().min(0),
+      title: z.string().trim().min(1),
+      badge: z.string().trim().min(1),
+    })
+  )
+  .min(1);
+
+const readJSON = <T>(name: string, schema: z.ZodType<T>, fallback: T): T => {
+  const raw = process.env[name]?.trim();
+
+  if (!raw) {
+    return fallback;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    throw new Error(`${name} inválido: o valor deve ser um JSON.`);
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new Error(
+      `${name} inválido: ${result.error.issues.map((issue) => issue.message).join(", ")}`
+    );
+  }
+
+  return result.data;
+};
+
+const readPositiveInteger = (name: string): number | null => {
+  const raw = process.env[name]?.trim();
+
+  if (!raw) {
+    return null;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} inválido: "${raw}". Informe um inteiro positivo.`);
+  }
+
+  return value;
+};
+
+/**
+ * LEVEL_CURVE (JSON), por exemplo:
+ * {"type":"polynomial","base":100,"exponent":2}
+ * {"type":"piecewise","segments":[{"fromLevel":1,"xpPerLevel":100},{"fromLevel":10,"xpPerLevel":500}]}
+ *
+ * Ao trocar a curva, rode o job recompute-levels para atualizar level/currentXP dos usuários.
+ */
+export const levelConfig: LevelConfig = {
+  curve: readJSON("LEVEL_CURVE", LevelCurveSchema, DEFAULT_CURVE),
+  cap: readPositiveInteger("LEVEL_CAP"),
+  prestigeXP: readPositiveInteger("LEVEL_PRESTIGE_XP"),
+  titles: [...readJSON("LEVEL_TITLES", LevelTitlesSchema, DEFAULT_TITLES)].sort(
+    (a, b) => a.minLevel - b.minLevel
+  ),
+};
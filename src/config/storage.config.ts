@@ -0,0 +1,27 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export type StorageBackend = "firestore" | "memory";
+
+export const STORAGE_BACKENDS: readonly StorageBackend[] = [
+  "firestore",
+  "memory",
+];
+
+/**
+ * Backend de persistência configurado em STORAGE_BACKEND (padrão: firestore).
+ * "memory" permite subir a API sem credenciais do Firebase (dados não persistem).
+ */
+export function getStorageBackend(): StorageBackend {
+  const value =
+    process.env.STORAGE_BACKEND?.trim().toLowerCase() || "firestore";
+
+  if (!STORAGE_BACKENDS.includes(value as StorageBackend)) {
+    throw new Error(
+      `STORAGE_BACKEND inválido: "${value}". Valores permitidos: ${STORAGE_BACKENDS.join(", ")}`
+    );
+  }
+
+  return value as StorageBackend;
+}
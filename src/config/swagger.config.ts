@@ -28,7 +28,21 @@ const options: swaggerJsdoc.Options = {
           type: "http",
           scheme: "bearer",
           bearerFormat: "JWT",
-          description: "Token JWT do Firebase Authentication",
+          description:
+            "ID token do Firebase Authentication (AUTH_MODE=firebase) ou token compartilhado",
+        },
+        apiToken: {
+          type: "apiKey",
+          in: "header",
+          name: "x-api-token",
+          description:
+            "Token compartilhado (GAMIFICATION_API_TOKEN), credencial de serviço com acesso a qualquer usuário",
+        },
+        adminToken: {
+          type: "apiKey",
+          in: "header",
+          name: "x-admin-token",
+          description: "Token das rotas administrativas (ADMIN_API_TOKEN)",
         },
       },
       schemas: {
@@ -40,6 +54,9 @@ const options: swaggerJsdoc.Options = {
             currentLevel: { type: "number" },
             currentLevelXP: { type: "number" },
             xpForNextLevel: { type: "number" },
+            levelTitle: { type: "string" },
+            levelBadge: { type: "string" },
+            prestige: { type: "number" },
             totalCardsReviewed: { type: "number" },
             totalDecksCreated: { type: "number" },
             totalCardsCreated: { type: "number" },
@@ -50,18 +67,208 @@ const options: swaggerJsdoc.Options = {
             updatedAt: { type: "string", format: "date-time" },
           },
         },
+        XPBoost: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            description: { type: "string" },
+            multiplier: { type: "number" },
+            startsAt: { type: "string", format: "date-time" },
+            endsAt: { type: "string", format: "date-time" },
+            origin: { type: "string", enum: ["event", "achievement"] },
+            sources: { type: "array", items: { type: "string" } },
+            userId: { type: "string" },
+            deckId: { type: "string" },
+            difficulties: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: ["again", "hard", "good", "easy"],
+              },
+            },
+            achievementId: { type: "string" },
+          },
+        },
+        UserQuest: {
+          type: "object",
+          properties: {
+            id: { type: "string", example: "daily_2025-03-05_daily_hard_10" },
+            templateId: { type: "string" },
+            period: { type: "string", enum: ["daily", "weekly"] },
+            periodKey: { type: "string", format: "date" },
+            metric: {
+              type: "string",
+              enum: [
+                "cards_reviewed",
+                "hard_cards_reviewed",
+                "decks_studied",
+                "cards_created",
+                "decks_created",
+              ],
+            },
+            title: { type: "string" },
+            description: { type: "string" },
+            target: { type: "number" },
+            progress: { type: "number" },
+            xpReward: { type: "number" },
+            completedAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+            },
+            claimedAt: { type: "string", format: "date-time", nullable: true },
+          },
+        },
+        Friend: {
+          type: "object",
+          properties: {
+            userId: { type: "string" },
+            since: { type: "string", format: "date-time", nullable: true },
+            level: { type: "number" },
+            totalXP: { type: "number" },
+            currentStreak: { type: "number" },
+          },
+        },
+        FriendRequest: {
+          type: "object",
+          properties: {
+            userId: { type: "string" },
+            sentAt: { type: "string", format: "date-time" },
+          },
+        },
+        FriendLeaderboardEntry: {
+          type: "object",
+          properties: {
+            userId: { type: "string" },
+            rank: { type: "number" },
+            score: {
+              type: "number",
+              description: "XP ganho no período ou streak atual",
+            },
+            level: { type: "number" },
+            currentStreak: { type: "number" },
+            isCurrentUser: { type: "boolean" },
+          },
+        },
+        StudyGroup: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            description: { type: "string", nullable: true },
+            ownerId: { type: "string" },
+            memberIds: { type: "array", items: { type: "string" } },
+            invitedIds: { type: "array", items: { type: "string" } },
+            weeklyXPGoal: { type: "number" },
+            completedGoalWeeks: {
+              type: "array",
+              items: { type: "string", format: "date" },
+            },
+            createdAt: { type: "string", format: "date-time" },
+            updatedAt: { type: "string", format: "date-time" },
+          },
+        },
+        StudyGroupLeaderboardEntry: {
+          type: "object",
+          properties: {
+            userId: { type: "string" },
+            rank: { type: "number" },
+            weeklyXP: { type: "number" },
+            level: { type: "number" },
+            currentStreak: { type: "number" },
+            isOwner: { type: "boolean" },
+            isCurrentUser: { type: "boolean" },
+          },
+        },
+        InboxNotification: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            userId: { type: "string" },
+            type: {
+              type: "string",
+              enum: [
+                "achievement",
+                "level_up",
+                "streak_milestone",
+                "broadcast",
+                "social",
+              ],
+            },
+            title: { type: "string" },
+            body: { type: "string" },
+            data: {
+              type: "object",
+              additionalProperties: { type: "string" },
+            },
+            read: { type: "boolean" },
+            readAt: { type: "string", format: "date-time", nullable: true },
+            createdAt: { type: "string", format: "date-time" },
+            expiresAt: { type: "string", format: "date-time" },
+          },
+        },
+        NotificationPreferences: {
+          type: "object",
+          properties: {
+            userId: { type: "string" },
+            muted: {
+              type: "boolean",
+              description: "Silencia todas as notificações push",
+            },
+            categories: {
+              type: "object",
+              properties: {
+                achievements: { type: "boolean" },
+                reminders: { type: "boolean" },
+                news: { type: "boolean" },
+                social: { type: "boolean" },
+              },
+            },
+            quietHours: {
+              type: "object",
+              nullable: true,
+              description:
+                "Horário de silêncio no fuso do usuário [startHour, endHour); pode atravessar a meia-noite",
+              properties: {
+                startHour: { type: "number", minimum: 0, maximum: 23 },
+                endHour: { type: "number", minimum: 0, maximum: 23 },
+              },
+            },
+            updatedAt: { type: "string", format: "date-time" },
+          },
+        },
+        LevelTableEntry: {
+          type: "object",
+          properties: {
+            level: { type: "number" },
+            totalXP: { type: "number" },
+            xpFromPreviousLevel: { type: "number" },
+            title: { type: "string" },
+            badge: { type: "string" },
+          },
+        },
         DailyProgress: {
           type: "object",
           properties: {
             userId: { type: "string" },
             date: { type: "string", format: "date" },
             cardsReviewed: { type: "number" },
+            minutesStudied: { type: "number" },
             xpEarned: { type: "number" },
             goalMet: { type: "boolean" },
+            goal: { $ref: "#/components/schemas/DailyGoal" },
             createdAt: { type: "string", format: "date-time" },
             updatedAt: { type: "string", format: "date-time" },
           },
         },
+        DailyGoal: {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: ["cards", "minutes"] },
+            target: { type: "number" },
+          },
+        },
         Achievement: {
           type: "object",
           properties: {
@@ -83,9 +290,166 @@ const options: swaggerJsdoc.Options = {
             userId: { type: "string" },
             achievementId: { type: "string" },
             unlockedAt: { type: "string", format: "date-time" },
+            claimed: { type: "boolean" },
+            claimedAt: { type: "string", format: "date-time", nullable: true },
+            rewardPending: { type: "boolean" },
             achievement: { $ref: "#/components/schemas/Achievement" },
           },
         },
+        AchievementDefinition: {
+          type: "object",
+          required: ["id", "name", "tier", "xpReward", "condition"],
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            description: { type: "string" },
+            tier: {
+              type: "string",
+              enum: ["bronze", "silver", "gold", "platinum", "diamond"],
+            },
+            xpReward: { type: "number" },
+            icon: { type: "string" },
+            isActive: { type: "boolean", default: true },
+            hidden: {
+              type: "boolean",
+              default: false,
+              description: "Conquista secreta (oculta até o desbloqueio)",
+            },
+            boostReward: {
+              type: "object",
+              nullable: true,
+              description:
+                "Boost de XP pessoal concedido no resgate da recompensa",
+              required: ["multiplier", "durationMinutes"],
+              properties: {
+                multiplier: { type: "number", example: 2 },
+                durationMinutes: { type: "integer", example: 60 },
+                sources: { type: "array", items: { type: "string" } },
+              },
+            },
+            condition: {
+              type: "object",
+              required: ["type", "target"],
+              properties: {
+                type: {
+                  type: "string",
+                  enum: [
+                    "streak",
+                    "daily_goal",
+                    "reviews_completed",
+                    "cards_created",
+                    "deck_created",
+                    "xp_total",
+                    "level_reached",
+                    "group_goal",
+                    "custom",
+                  ],
+                },
+                target: { type: "number" },
+                params: {
+                  type: "object",
+                  description:
+                    "Obrigatório para CUSTOM: metric (e consecutiveDays/minimumCardsPerDay para minimum_cards_consecutive_days)",
+                },
+              },
+            },
+          },
+        },
+        AchievementCatalogEntry: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            description: { type: "string" },
+            icon: { type: "string" },
+            tier: { type: "string" },
+            xpReward: { type: "number" },
+            hidden: { type: "boolean" },
+            state: {
+              type: "string",
+              enum: ["locked", "in_progress", "unlocked"],
+            },
+            unlockedAt: { type: "string", format: "date-time", nullable: true },
+            claimed: { type: "boolean" },
+            rewardPending: { type: "boolean" },
+            currentValue: { type: "number", nullable: true },
+            target: { type: "number" },
+            percentage: { type: "number", nullable: true },
+          },
+        },
+        AchievementDryRun: {
+          type: "object",
+          properties: {
+            totalUsers: { type: "number" },
+            qualifyingUsers: { type: "number" },
+            alreadyUnlocked: { type: "number" },
+            sampleUserIds: { type: "array", items: { type: "string" } },
+          },
+        },
+        AuditRecord: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            action: { type: "string", example: "xp_change" },
+            actor: {
+              type: "string",
+              description:
+                'uid do Firebase Auth, "service", "admin-token" ou "system"',
+            },
+            targetUserId: { type: "string", nullable: true },
+            reason: { type: "string", nullable: true },
+            endpoint: {
+              type: "string",
+              nullable: true,
+              example: "POST /api/gamification/process-review",
+            },
+            requestId: { type: "string", nullable: true },
+            before: { type: "object", nullable: true },
+            after: { type: "object", nullable: true },
+            details: { type: "object" },
+            createdAt: { type: "string", format: "date-time" },
+          },
+        },
+        AntiAbuseDecision: {
+          type: "object",
+          description:
+            "Avaliação anti-abuso do XP. allowed=false: revisão ignorada (sem XP, meta, streak e métricas)",
+          properties: {
+            allowed: { type: "boolean" },
+            requestedXP: { type: "integer" },
+            awardedXP: { type: "integer" },
+            reasons: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: [
+                  "review_too_soon",
+                  "diminishing_returns",
+                  "daily_cap_reached",
+                ],
+              },
+            },
+          },
+        },
+        FlaggedUser: {
+          type: "object",
+          properties: {
+            userId: { type: "string" },
+            violations: {
+              type: "integer",
+              description: "Eventos bloqueados ou com XP reduzido no período",
+            },
+            reasons: {
+              type: "object",
+              additionalProperties: { type: "integer" },
+              example: { review_too_soon: 12, daily_cap_reached: 3 },
+            },
+            reviewsBlocked: { type: "integer" },
+            xpWithheld: { type: "integer" },
+            days: { type: "integer", description: "Dias com violações" },
+            lastViolationAt: { type: "string", format: "date-time" },
+          },
+        },
         Error: {
           type: "object",
           properties: {
@@ -100,6 +464,9 @@ const options: swaggerJsdoc.Options = {
       {
         bearerAuth: [],
       },
+      {
+        apiToken: [],
+      },
     ],
   },
   apis: ["./src/routes/*.ts", "./src/controllers/*.ts"],
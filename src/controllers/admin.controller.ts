@@ -0,0 +1,660 @@
+import type { Request, Response } from "express";
+import { getAdminActor } from "../middlewares/auth.middleware";
+import { AppError } from "../middlewares/error.middleware";
+import { AchievementAdminService } from "../services/achievement-admin.service";
+import { AdminService } from "../services/admin.service";
+import { AntiAbuseService } from "../services/anti-abuse.service";
+import { AuditService } from "../services/audit.service";
+import { XPBoostService } from "../services/xp-boost.service";
+import { logger } from "../utils/logger";
+import {
+  AchievementCreateSchema,
+  AchievementIdParamSchema,
+  AchievementUpdateSchema,
+  AdminAchievementGrantSchema,
+  AdminAchievementRevokeSchema,
+  AdminBroadcastSchema,
+  AdminStreakRepairSchema,
+  AdminXPAdjustmentSchema,
+  AuditTimelineQuerySchema,
+  DryRunQuerySchema,
+  FlaggedUsersQuerySchema,
+  UserAchievementParamsSchema,
+  UserIdParamSchema,
+  validateSchema,
+  XPBoostCreateSchema,
+  XPBoostEndSchema,
+  XPBoostIdParamSchema,
+} from "../utils/validators";
+
+/**
+ * Admin Controller
+ *
+ * Rotas administrativas (/api/admin), protegidas pelo ADMIN_API_TOKEN.
+ */
+export class AdminController {
+  private readonly achievementAdminService: AchievementAdminService;
+  private readonly adminService: AdminService;
+  private readonly auditService: AuditService;
+  private readonly antiAbuseService: AntiAbuseService;
+  private readonly xpBoostService: XPBoostService;
+
+  constructor() {
+    this.achievementAdminService = new AchievementAdminService();
+    this.adminService = new AdminService();
+    this.auditService = new AuditService();
+    this.antiAbuseService = new AntiAbuseService();
+    this.xpBoostService = new XPBoostService();
+  }
+
+  /**
+   * GET /admin/achievements
+   * Listar todo o catálogo de conquistas (inclusive desativadas)
+   */
+  listAchievements = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const achievements =
+        await this.achievementAdminService.listAchievements();
+
+      res.status(200).json({
+        success: true,
+        data: achievements,
+        count: achievements.length,
+      });
+    } catch (error) {
+      this.sendError(res, "Erro ao listar conquistas", error);
+    }
+  };
+
+  /**
+   * GET /admin/achievements/:achievementId
+   * Obter uma conquista do catálogo
+   */
+  getAchievement = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(
+        AchievementIdParamSchema,
+        req.params
+      );
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const achievement = await this.achievementAdminService.getAchievement(
+        paramValidation.data.achievementId
+      );
+
+      res.status(200).json({ success: true, data: achievement });
+    } catch (error) {
+      this.sendError(res, "Erro ao buscar conquista", error);
+    }
+  };
+
+  /**
+   * POST /admin/achievements?dryRun=true|false
+   * Criar conquista no catálogo
+   */
+  createAchievement = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const bodyValidation = validateSchema(AchievementCreateSchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const queryValidation = validateSchema(DryRunQuerySchema, req.query);
+      if (!queryValidation.success) {
+        res.status(400).json({
+          error: "Query params inválidos",
+          details: queryValidation.error,
+        });
+        return;
+      }
+
+      const { dryRun } = queryValidation.data;
+      const result = await this.achievementAdminService.createAchievement(
+        bodyValidation.data,
+        { dryRun }
+      );
+
+      logger.info(
+        dryRun ? "Dry-run de criação de conquista" : "Conquista criada",
+        { achievementId: result.achievement.id, dryRun: result.dryRun }
+      );
+
+      res.status(dryRun ? 200 : 201).json({ success: true, ...result });
+    } catch (error) {
+      this.sendError(res, "Erro ao criar conquista", error);
+    }
+  };
+
+  /**
+   * PATCH /admin/achievements/:achievementId?dryRun=true|false
+   * Atualizar conquista (inclusive ativar/desativar via isActive)
+   */
+  updateAchievement = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(
+        AchievementIdParamSchema,
+        req.params
+      );
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(AchievementUpdateSchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const queryValidation = validateSchema(DryRunQuerySchema, req.query);
+      if (!queryValidation.success) {
+        res.status(400).json({
+          error: "Query params inválidos",
+          details: queryValidation.error,
+        });
+        return;
+      }
+
+      const { dryRun } = queryValidation.data;
+      const result = await this.achievementAdminService.updateAchievement(
+        paramValidation.data.achievementId,
+        bodyValidation.data,
+        { dryRun }
+      );
+
+      logger.info(
+        dryRun ? "Dry-run de atualização de conquista" : "Conquista atualizada",
+        {
+          achievementId: result.achievement.id,
+          fields: Object.keys(bodyValidation.data),
+          dryRun: result.dryRun,
+        }
+      );
+
+      res.status(200).json({ success: true, ...result });
+    } catch (error) {
+      this.sendError(res, "Erro ao atualizar conquista", error);
+    }
+  };
+
+  /**
+   * DELETE /admin/achievements/:achievementId
+   * Remover conquista do catálogo
+   */
+  deleteAchievement = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(
+        AchievementIdParamSchema,
+        req.params
+      );
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const { achievementId } = paramValidation.data;
+      await this.achievementAdminService.deleteAchievement(achievementId);
+
+      logger.info("Conquista removida", { achievementId });
+
+      res.status(200).json({ success: true, achievementId });
+    } catch (error) {
+      this.sendError(res, "Erro ao remover conquista", error);
+    }
+  };
+
+  /**
+   * POST /admin/achievements/:achievementId/dry-run
+   * Quantos usuários desbloqueariam a conquista atual na próxima verificação
+   */
+  dryRunAchievement = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(
+        AchievementIdParamSchema,
+        req.params
+      );
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const achievement = await this.achievementAdminService.getAchievement(
+        paramValidation.data.achievementId
+      );
+      const report = await this.achievementAdminService.dryRun(achievement);
+
+      res.status(200).json({ success: true, achievement, dryRun: report });
+    } catch (error) {
+      this.sendError(res, "Erro ao simular conquista", error);
+    }
+  };
+
+  /**
+   * POST /admin/broadcast
+   * Enviar notificação para todos os usuários
+   */
+  sendBroadcast = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const bodyValidation = validateSchema(AdminBroadcastSchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const actor = getAdminActor(req);
+      const result = await this.adminService.broadcast(
+        actor,
+        bodyValidation.data
+      );
+
+      logger.info("Broadcast administrativo enviado", { actor, ...result });
+
+      res.status(200).json({ success: true, data: result });
+    } catch (error) {
+      this.sendError(res, "Erro ao enviar broadcast", error);
+    }
+  };
+
+  /**
+   * POST /admin/users/:userId/xp
+   * Conceder (amount > 0) ou debitar (amount < 0) XP manualmente
+   */
+  adjustUserXP = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(AdminXPAdjustmentSchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { userId } = paramValidation.data;
+      const { amount, reason } = bodyValidation.data;
+      const actor = getAdminActor(req);
+      const result = await this.adminService.adjustXP(
+        actor,
+        userId,
+        amount,
+        reason
+      );
+
+      logger.info("XP ajustado manualmente", {
+        actor,
+        userId,
+        amount,
+        auditId: result.auditId,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          auditId: result.auditId,
+          amount: result.amount,
+          appliedAmount: result.appliedAmount,
+          previousTotalXP: result.previousTotalXP,
+          totalXP: result.userProgress.totalXP,
+          level: result.userProgress.level,
+          levelUpInfo: result.levelUpInfo,
+        },
+      });
+    } catch (error) {
+      this.sendError(res, "Erro ao ajustar XP", error);
+    }
+  };
+
+  /**
+   * POST /admin/users/:userId/achievements/:achievementId/grant
+   * Conceder uma conquista manualmente
+   */
+  grantUserAchievement = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(
+        UserAchievementParamsSchema,
+        req.params
+      );
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(
+        AdminAchievementGrantSchema,
+        req.body
+      );
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { userId, achievementId } = paramValidation.data;
+      const actor = getAdminActor(req);
+      const result = await this.adminService.grantAchievement(
+        actor,
+        userId,
+        achievementId,
+        bodyValidation.data.reason
+      );
+
+      logger.info("Conquista concedida manualmente", {
+        actor,
+        userId,
+        achievementId,
+        auditId: result.auditId,
+      });
+
+      res.status(200).json({ success: true, data: result });
+    } catch (error) {
+      this.sendError(res, "Erro ao conceder conquista", error);
+    }
+  };
+
+  /**
+   * POST /admin/users/:userId/achievements/:achievementId/revoke
+   * Revogar uma conquista (opcionalmente debitando o XP da recompensa)
+   */
+  revokeUserAchievement = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(
+        UserAchievementParamsSchema,
+        req.params
+      );
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(
+        AdminAchievementRevokeSchema,
+        req.body
+      );
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { userId, achievementId } = paramValidation.data;
+      const actor = getAdminActor(req);
+      const result = await this.adminService.revokeAchievement(
+        actor,
+        userId,
+        achievementId,
+        bodyValidation.data
+      );
+
+      logger.info("Conquista revogada", {
+        actor,
+        userId,
+        achievementId,
+        xpDeducted: result.xpDeducted,
+        auditId: result.auditId,
+      });
+
+      res.status(200).json({ success: true, data: result });
+    } catch (error) {
+      this.sendError(res, "Erro ao revogar conquista", error);
+    }
+  };
+
+  /**
+   * PUT /admin/users/:userId/streak
+   * Corrigir o streak do usuário
+   */
+  repairUserStreak = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(AdminStreakRepairSchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { userId } = paramValidation.data;
+      const { current, reason, date } = bodyValidation.data;
+      const actor = getAdminActor(req);
+      const result = await this.adminService.repairStreak(
+        actor,
+        userId,
+        current,
+        reason,
+        date
+      );
+
+      logger.info("Streak corrigido manualmente", {
+        actor,
+        userId,
+        current,
+        auditId: result.auditId,
+      });
+
+      res.status(200).json({ success: true, data: result });
+    } catch (error) {
+      this.sendError(res, "Erro ao corrigir streak", error);
+    }
+  };
+
+  /**
+   * GET /admin/users/:userId/audit
+   * Linha do tempo de auditoria do usuário no período
+   */
+  getUserAuditTimeline = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const queryValidation = validateSchema(
+        AuditTimelineQuerySchema,
+        req.query
+      );
+      if (!queryValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: queryValidation.error,
+        });
+        return;
+      }
+
+      const { userId } = paramValidation.data;
+      const records = await this.auditService.getUserTimeline(
+        userId,
+        queryValidation.data
+      );
+
+      res.status(200).json({ success: true, data: records });
+    } catch (error) {
+      this.sendError(res, "Erro ao buscar auditoria do usuário", error);
+    }
+  };
+
+  /**
+   * GET /admin/anti-abuse/flagged
+   * Relatório de usuários sinalizados pelas heurísticas anti-abuso
+   */
+  getFlaggedUsers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(FlaggedUsersQuerySchema, req.query);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const users = await this.antiAbuseService.getFlaggedUsers(
+        validation.data
+      );
+
+      res.status(200).json({ success: true, data: users });
+    } catch (error) {
+      this.sendError(res, "Erro ao buscar usuários sinalizados", error);
+    }
+  };
+
+  /**
+   * GET /admin/xp-boosts
+   * Listar boosts de XP em vigor e agendados
+   */
+  listXPBoosts = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const boosts = await this.xpBoostService.listBoosts();
+
+      res.status(200).json({
+        success: true,
+        data: boosts,
+        count: boosts.length,
+      });
+    } catch (error) {
+      this.sendError(res, "Erro ao listar boosts de XP", error);
+    }
+  };
+
+  /**
+   * POST /admin/xp-boosts
+   * Criar evento de boost de XP
+   */
+  createXPBoost = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const bodyValidation = validateSchema(XPBoostCreateSchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const boost = await this.xpBoostService.createBoost(bodyValidation.data);
+
+      logger.info("Boost de XP criado", {
+        actor: getAdminActor(req),
+        boostId: boost.id,
+        multiplier: boost.multiplier,
+      });
+
+      res.status(201).json({ success: true, data: boost });
+    } catch (error) {
+      this.sendError(res, "Erro ao criar boost de XP", error);
+    }
+  };
+
+  /**
+   * POST /admin/xp-boosts/:boostId/end
+   * Encerrar um boost de XP antes do fim
+   */
+  endXPBoost = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(XPBoostIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(XPBoostEndSchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { boostId } = paramValidation.data;
+      const boost = await this.xpBoostService.endBoost(
+        boostId,
+        bodyValidation.data.reason
+      );
+
+      logger.info("Boost de XP encerrado", {
+        actor: getAdminActor(req),
+        boostId,
+      });
+
+      res.status(200).json({ success: true, data: boost });
+    } catch (error) {
+      this.sendError(res, "Erro ao encerrar boost de XP", error);
+    }
+  };
+
+  private sendError(res: Response, message: string, error: unknown): void {
+    logger.error(message, {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      error: message,
+      details: error instanceof Error ? error.message : "Erro desconhecido",
+    });
+  }
+}
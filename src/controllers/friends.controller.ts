@@ -0,0 +1,243 @@
+import type { Request, Response } from "express";
+import { AppError } from "../middlewares/error.middleware";
+import { FriendService } from "../services/friend.service";
+import { logger } from "../utils/logger";
+import {
+  FriendLeaderboardQuerySchema,
+  FriendParamsSchema,
+  FriendRequestSchema,
+  UserIdParamSchema,
+  validateSchema,
+} from "../utils/validators";
+
+/**
+ * Friends Controller
+ *
+ * Endpoints da camada social: pedidos de amizade, lista de amigos e
+ * leaderboard restrito aos amigos (XP da semana/mês ou streak atual).
+ */
+export class FriendsController {
+  private readonly friendService: FriendService;
+
+  constructor() {
+    this.friendService = new FriendService();
+  }
+
+  /**
+   * GET /friends/:userId
+   * Amigos e pedidos pendentes (recebidos e enviados)
+   */
+  getFriends = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(UserIdParamSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const friends = await this.friendService.getFriends(
+        validation.data.userId
+      );
+
+      res.status(200).json({ success: true, data: friends });
+    } catch (error) {
+      logger.error("Erro ao buscar amigos do usuário", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: "Erro ao buscar amigos do usuário",
+      });
+    }
+  };
+
+  /**
+   * POST /friends/:userId/requests
+   * Enviar pedido de amizade
+   */
+  sendRequest = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(FriendRequestSchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { userId } = paramValidation.data;
+      const { friendId } = bodyValidation.data;
+      const result = await this.friendService.sendRequest(userId, friendId);
+
+      logger.info("Pedido de amizade enviado", {
+        userId,
+        friendId,
+        autoAccepted: result.autoAccepted,
+      });
+
+      res.status(result.autoAccepted ? 200 : 201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      this.sendError(res, "Erro ao enviar pedido de amizade", error);
+    }
+  };
+
+  /**
+   * POST /friends/:userId/requests/:friendId/accept
+   * Aceitar pedido de amizade recebido
+   */
+  acceptRequest = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(FriendParamsSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, friendId } = validation.data;
+      const friendship = await this.friendService.acceptRequest(
+        userId,
+        friendId
+      );
+
+      logger.info("Pedido de amizade aceito", { userId, friendId });
+
+      res.status(200).json({ success: true, data: friendship });
+    } catch (error) {
+      this.sendError(res, "Erro ao aceitar pedido de amizade", error);
+    }
+  };
+
+  /**
+   * POST /friends/:userId/requests/:friendId/decline
+   * Recusar pedido de amizade recebido
+   */
+  declineRequest = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(FriendParamsSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, friendId } = validation.data;
+      await this.friendService.declineRequest(userId, friendId);
+
+      logger.info("Pedido de amizade recusado", { userId, friendId });
+
+      res.status(200).json({
+        success: true,
+        message: "Pedido de amizade recusado",
+      });
+    } catch (error) {
+      this.sendError(res, "Erro ao recusar pedido de amizade", error);
+    }
+  };
+
+  /**
+   * DELETE /friends/:userId/:friendId
+   * Desfazer amizade ou cancelar pedido enviado
+   */
+  removeFriend = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(FriendParamsSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, friendId } = validation.data;
+      await this.friendService.removeFriend(userId, friendId);
+
+      logger.info("Amizade removida", { userId, friendId });
+
+      res.status(200).json({
+        success: true,
+        message: "Amizade removida",
+      });
+    } catch (error) {
+      this.sendError(res, "Erro ao remover amizade", error);
+    }
+  };
+
+  /**
+   * GET /friends/:userId/leaderboard?metric=weekly_xp
+   * Leaderboard do usuário e seus amigos
+   */
+  getLeaderboard = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const queryValidation = validateSchema(
+        FriendLeaderboardQuerySchema,
+        req.query
+      );
+      if (!queryValidation.success) {
+        res.status(400).json({
+          error: "Query params inválidos",
+          details: queryValidation.error,
+        });
+        return;
+      }
+
+      const leaderboard = await this.friendService.getLeaderboard(
+        paramValidation.data.userId,
+        queryValidation.data.metric
+      );
+
+      res.status(200).json({ success: true, data: leaderboard });
+    } catch (error) {
+      logger.error("Erro ao buscar leaderboard de amigos", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao buscar leaderboard de amigos",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  private sendError(res: Response, message: string, error: unknown): void {
+    logger.error(message, {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      error: message,
+      details: error instanceof Error ? error.message : "Erro desconhecido",
+    });
+  }
+}
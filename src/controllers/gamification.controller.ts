@@ -1,11 +1,25 @@
 import type { Request, Response } from "express";
+import { AppError } from "../middlewares/error.middleware";
 import { AchievementType } from "../models/Achievement";
+import { InboxNotificationType } from "../models/InboxNotification";
+import { hasPendingReward } from "../models/UserAchievement";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { AchievementCatalogService } from "../services/achievement-catalog.service";
 import { AchievementService } from "../services/achievement.service";
+import { AuditService } from "../services/audit.service";
 import { DailyGoalService } from "../services/daily-goal.service";
-import { FirestoreService } from "../services/firestore.service";
+import { IdempotencyService } from "../services/idempotency.service";
 import { LevelService } from "../services/level.service";
+import { QuestService } from "../services/quest.service";
+import { ReviewBatchService } from "../services/review-batch.service";
 import { StreakService } from "../services/streak.service";
-import { XPService } from "../services/xp.service";
+import { XPBoostService } from "../services/xp-boost.service";
+import {
+  XPService,
+  type XPResult,
+  type XPReversalResult,
+} from "../services/xp.service";
+import { NotificationInboxService } from "../services/notification-inbox.service";
 import {
   NotificationService,
   PushType,
@@ -13,15 +27,32 @@ import {
 import { logger } from "../utils/logger";
 import {
   CardCreatedSchema,
+  CardDeletedSchema,
   CheckAchievementsSchema,
+  DailyGoalSettingsSchema,
   DailyProgressQuerySchema,
   DeckCreatedSchema,
+  DeckDeletedSchema,
+  EventIdSchema,
+  LevelTableQuerySchema,
   ProcessReviewSchema,
+  ProcessReviewsSchema,
+  StreakFreezeQuantitySchema,
+  TimezoneBodySchema,
+  UserAchievementParamsSchema,
   UserIdParamSchema,
+  UserQuestParamsSchema,
   validateSchema,
-  getLocalDateString,
+  XPReversalSchema,
 } from "../utils/validators";
-import { XP_VALUES } from "../config/constants";
+import {
+  DEFAULT_TIMEZONE,
+  getDateStringInTimeZone,
+  getHourInTimeZone,
+} from "../utils/timezone";
+import { IDEMPOTENCY_CONFIG, XP_VALUES } from "../config/constants";
+import type { ProcessedEventScope } from "../models/ProcessedEvent";
+import { QuestMetric, type UserQuest } from "../models/Quest";
 import { XPSource } from "../models/XPTransaction";
 
 // Schemas de validação adicionais para métricas customizadas
@@ -73,22 +104,36 @@ const StudySessionSchema = z.object({
  * Todos os endpoints validam parâmetros usando Zod e incluem error handling completo.
  */
 export class GamificationController {
-  private readonly firestoreService: FirestoreService;
+  private readonly firestoreService: GamificationRepository;
   private readonly xpService: XPService;
   private readonly achievementService: AchievementService;
   private readonly dailyGoalService: DailyGoalService;
   private readonly levelService: LevelService;
   private readonly streakService: StreakService;
   private readonly notificationService: NotificationService;
+  private readonly inboxService: NotificationInboxService;
+  private readonly idempotencyService: IdempotencyService;
+  private readonly reviewBatchService: ReviewBatchService;
+  private readonly achievementCatalogService: AchievementCatalogService;
+  private readonly auditService: AuditService;
+  private readonly xpBoostService: XPBoostService;
+  private readonly questService: QuestService;
 
   constructor() {
-    this.firestoreService = new FirestoreService();
+    this.firestoreService = getRepository();
     this.xpService = new XPService();
     this.achievementService = new AchievementService();
     this.dailyGoalService = new DailyGoalService();
     this.levelService = new LevelService();
     this.streakService = new StreakService();
     this.notificationService = new NotificationService();
+    this.inboxService = new NotificationInboxService();
+    this.idempotencyService = new IdempotencyService();
+    this.reviewBatchService = new ReviewBatchService();
+    this.achievementCatalogService = new AchievementCatalogService();
+    this.auditService = new AuditService();
+    this.xpBoostService = new XPBoostService();
+    this.questService = new QuestService();
   }
 
   /**
@@ -96,6 +141,8 @@ export class GamificationController {
    * Processar revisão de card - Adiciona XP baseado na dificuldade
    */
   processCardReview = async (req: Request, res: Response): Promise<void> => {
+    let idempotencyRecordId: string | null = null;
+
     try {
       logger.debug("POST /process-review - Iniciando processamento", {
         body: req.body,
@@ -115,17 +162,66 @@ export class GamificationController {
       }
 
       const { userId, cardId, difficulty, deckId } = validation.data;
-      const reviewDate = validation.data.date || getLocalDateString();
+
+      // Data e hora da revisão no fuso do usuário
+      const reviewedAt = new Date();
+      const timezone = await this.firestoreService.getUserTimezone(userId);
+      const reviewDate =
+        validation.data.date || getDateStringInTimeZone(reviewedAt, timezone);
+
+      const idempotency = await this.beginIdempotentEvent(
+        req,
+        res,
+        "process-review",
+        userId,
+        validation.data.eventId
+      );
+      if (idempotency.handled) {
+        return;
+      }
+      idempotencyRecordId = idempotency.recordId;
 
       // Processar revisão através do XP Service
       const xpResult = await this.xpService.processCardReview(
         userId,
         cardId,
-        difficulty
+        difficulty,
+        { deckId, eventId: idempotency.eventId }
       );
 
+      // Evento já aplicado anteriormente: não repetir progresso, métricas e conquistas
+      if (xpResult.duplicate) {
+        await this.sendIdempotentResponse(
+          res,
+          idempotencyRecordId,
+          200,
+          this.buildDuplicateEventResponse(xpResult)
+        );
+        return;
+      }
+
       const { userProgress, levelUpInfo } = xpResult;
 
+      // Revisão repetida rápido demais: não conta para meta, streak, métricas e conquistas
+      if (xpResult.antiAbuse && !xpResult.antiAbuse.allowed) {
+        logger.warn("Revisão ignorada pelo anti-abuso", {
+          userId,
+          cardId,
+          reasons: xpResult.antiAbuse.reasons,
+        });
+
+        await this.sendIdempotentResponse(res, idempotencyRecordId, 200, {
+          success: true,
+          ignored: true,
+          xpGained: 0,
+          totalXP: userProgress.totalXP,
+          level: userProgress.level,
+          currentXP: userProgress.currentXP,
+          antiAbuse: xpResult.antiAbuse,
+        });
+        return;
+      }
+
       // Registrar no progresso diário
       const dailyProgress = await this.dailyGoalService.recordCardReview(
         userId,
@@ -140,58 +236,82 @@ export class GamificationController {
 
       // ====== ATUALIZAR MÉTRICAS CUSTOMIZADAS ======
 
-      // Registrar nível de dificuldade usado
-      await this.firestoreService.addDifficultyLevelUsed(userId, difficulty);
+      await this.auditService.trackMetrics(
+        userId,
+        "process_review",
+        async () => {
+          // Registrar nível de dificuldade usado
+          await this.firestoreService.addDifficultyLevelUsed(
+            userId,
+            difficulty
+          );
 
-      // Registrar deck estudado (se fornecido)
-      if (deckId) {
-        await this.firestoreService.addStudiedDeck(userId, deckId);
-        // Registrar também para a métrica de decks estudados no mesmo dia
-        await this.firestoreService.addDeckStudiedToday(userId, deckId);
-      }
+          // Registrar deck estudado (se fornecido)
+          if (deckId) {
+            await this.firestoreService.addStudiedDeck(userId, deckId);
+            // Registrar também para a métrica de decks estudados no mesmo dia
+            await this.firestoreService.addDeckStudiedToday(
+              userId,
+              deckId,
+              reviewDate
+            );
+          }
 
-      // Registrar horário da sessão de estudo
-      const currentHour = new Date().getHours();
-      await this.firestoreService.recordStudySessionTime(
-        userId,
-        reviewDate,
-        currentHour
-      );
+          // Registrar horário da sessão de estudo
+          const currentHour = getHourInTimeZone(reviewedAt, timezone);
+          await this.firestoreService.recordStudySessionTime(
+            userId,
+            reviewDate,
+            currentHour
+          );
 
-      // Atualizar contagem de cards no dia
-      await this.firestoreService.updateCardsPerDay(
-        userId,
-        reviewDate,
-        dailyProgress.cardsReviewed
-      );
+          // Atualizar contagem de cards no dia
+          await this.firestoreService.updateCardsPerDay(
+            userId,
+            reviewDate,
+            dailyProgress.cardsReviewed
+          );
 
-      // Atualizar streak de cards "fácil"
-      if (difficulty === "easy") {
-        const metrics = await this.firestoreService.getUserMetrics(userId);
-        await this.firestoreService.updateEasyCardsStreak(
-          userId,
-          metrics.easyCardsStreak + 1
-        );
-      } else {
-        // Resetar streak de cards fácil se não foi "easy"
-        await this.firestoreService.updateEasyCardsStreak(userId, 0);
-      }
+          // Atualizar streak de cards "fácil"
+          if (difficulty === "easy") {
+            const metrics = await this.firestoreService.getUserMetrics(userId);
+            await this.firestoreService.updateEasyCardsStreak(
+              userId,
+              metrics.easyCardsStreak + 1
+            );
+          } else {
+            // Resetar streak de cards fácil se não foi "easy"
+            await this.firestoreService.updateEasyCardsStreak(userId, 0);
+          }
 
-      // Incrementar contadores de dificuldade
-      if (difficulty === "hard") {
-        await this.firestoreService.incrementHardCardsCompleted(userId);
-      }
+          // Incrementar contadores de dificuldade
+          if (difficulty === "hard") {
+            await this.firestoreService.incrementHardCardsCompleted(userId);
+          }
+        }
+      );
 
       // ====== FIM DAS MÉTRICAS CUSTOMIZADAS ======
 
+      const completedQuests = await this.questService.trackProgress(userId, {
+        date: reviewDate,
+        increments: {
+          [QuestMetric.CARDS_REVIEWED]: 1,
+          [QuestMetric.HARD_CARDS_REVIEWED]: difficulty === "hard" ? 1 : 0,
+        },
+        deckIds: deckId ? [deckId] : [],
+      });
+
       // Verificar conquistas relacionadas a reviews E customizadas
       const newAchievements = await this.achievementService.checkAchievements(
         userId,
         [AchievementType.REVIEWS_COMPLETED, AchievementType.CUSTOM]
       );
 
-      // Calcular XP ganho nesta revisão (baseado na dificuldade)
-      const xpGained = this.xpService.calculateXPForReview(difficulty);
+      // XP ganho nesta revisão (dificuldade, após o anti-abuso)
+      const xpGained =
+        xpResult.antiAbuse?.awardedXP ??
+        this.xpService.calculateXPForReview(difficulty);
 
       // Calcular informações do próximo nível
       const xpForNextLevel = this.levelService.xpForNextLevel(
@@ -214,7 +334,10 @@ export class GamificationController {
           streakResult?.streakData.current ?? userProgress.currentStreak,
       });
 
-      res.status(200).json({
+      // Etapas concluídas: reenvios do eventId passam a ser duplicados
+      await this.xpService.completeEvent(userId, xpResult);
+
+      await this.sendIdempotentResponse(res, idempotencyRecordId, 200, {
         success: true,
         xpGained,
         totalXP: userProgress.totalXP,
@@ -246,8 +369,15 @@ export class GamificationController {
           tier: a.tier,
           xpReward: a.xpReward,
         })),
+        completedQuests: this.buildCompletedQuestsResponse(completedQuests),
+        antiAbuse: xpResult.antiAbuse,
+        boost: xpResult.boost ?? null,
       });
     } catch (error) {
+      if (idempotencyRecordId) {
+        await this.idempotencyService.release(idempotencyRecordId);
+      }
+
       logger.error("Erro ao processar revisão de card", {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
@@ -260,11 +390,139 @@ export class GamificationController {
     }
   };
 
+  /**
+   * POST /process-reviews
+   * Processar lote de revisões (estudo offline) em uma única requisição
+   */
+  processCardReviews = async (req: Request, res: Response): Promise<void> => {
+    let idempotencyRecordId: string | null = null;
+    // Com o XP gravado, o eventId não é liberado: o reenvio retoma o lote
+    // (após o timeout de processamento) em vez de aplicar o XP de novo
+    let xpApplied = false;
+
+    try {
+      logger.debug("POST /process-reviews - Iniciando processamento do lote", {
+        userId: req.body?.userId,
+        reviews: Array.isArray(req.body?.reviews) ? req.body.reviews.length : 0,
+      });
+
+      // Validar parâmetros
+      const validation = validateSchema(ProcessReviewsSchema, req.body);
+      if (!validation.success) {
+        logger.warn("Validação falhou em /process-reviews", {
+          error: validation.error,
+        });
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, reviews } = validation.data;
+
+      const idempotency = await this.beginIdempotentEvent(
+        req,
+        res,
+        "process-reviews",
+        userId,
+        validation.data.eventId
+      );
+      if (idempotency.handled) {
+        return;
+      }
+      idempotencyRecordId = idempotency.recordId;
+
+      const result = await this.reviewBatchService.processReviews(
+        userId,
+        reviews,
+        new Date(),
+        {
+          eventId: idempotency.eventId,
+          onXPApplied: () => {
+            xpApplied = true;
+          },
+        }
+      );
+
+      if (result.duplicate) {
+        await this.sendIdempotentResponse(
+          res,
+          idempotencyRecordId,
+          200,
+          this.buildDuplicateEventResponse(result)
+        );
+        return;
+      }
+
+      const { userProgress, levelUpInfo } = result;
+
+      logger.info("Lote de revisões processado com sucesso", {
+        userId,
+        processed: result.processed,
+        xpGained: result.xpGained,
+        days: result.days.length,
+        leveledUp: levelUpInfo.leveledUp,
+        achievementsUnlocked: result.newAchievements.length,
+      });
+
+      await this.sendIdempotentResponse(res, idempotencyRecordId, 200, {
+        success: true,
+        processed: result.processed,
+        ignored: result.ignored,
+        xpGained: result.xpGained,
+        totalXP: userProgress.totalXP,
+        level: userProgress.level,
+        currentXP: userProgress.currentXP,
+        levelUp: {
+          leveledUp: levelUpInfo.leveledUp,
+          oldLevel: levelUpInfo.oldLevel,
+          newLevel: levelUpInfo.newLevel,
+          levelsGained: levelUpInfo.levelsGained,
+          xpForNextLevel: this.levelService.xpForNextLevel(userProgress.level),
+          xpToNextLevel: this.levelService.xpToNextLevel(
+            userProgress.totalXP,
+            userProgress.level
+          ),
+        },
+        dailyProgress: result.days,
+        streak: result.streak,
+        newAchievements: result.newAchievements.map((a) => ({
+          id: a.id,
+          name: a.name,
+          description: a.description,
+          tier: a.tier,
+          xpReward: a.xpReward,
+        })),
+        completedQuests: this.buildCompletedQuestsResponse(
+          result.completedQuests
+        ),
+        antiAbuse: result.antiAbuse,
+      });
+    } catch (error) {
+      if (idempotencyRecordId && !xpApplied) {
+        await this.idempotencyService.release(idempotencyRecordId);
+      }
+
+      logger.error("Erro ao processar lote de revisões", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao processar lote de revisões",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
   /**
    * POST /card-created
    * Registrar criação de card - Adiciona 25 XP
    */
   onCardCreated = async (req: Request, res: Response): Promise<void> => {
+    let idempotencyRecordId: string | null = null;
+
     try {
       logger.debug("POST /card-created - Registrando criação de card", {
         body: req.body,
@@ -283,17 +541,43 @@ export class GamificationController {
         return;
       }
 
-      const { userId, cardId } = validation.data;
+      const { userId, cardId, deckId } = validation.data;
+
+      const idempotency = await this.beginIdempotentEvent(
+        req,
+        res,
+        "card-created",
+        userId,
+        validation.data.eventId
+      );
+      if (idempotency.handled) {
+        return;
+      }
+      idempotencyRecordId = idempotency.recordId;
 
       // Adicionar XP pela criação do card
       const xpResult = await this.xpService.addXP(
         userId,
         XP_VALUES.CARD_CREATION,
         XPSource.CARD_CREATION,
-        cardId
+        cardId,
+        { deckId, eventId: idempotency.eventId }
       );
 
+      // Evento já aplicado anteriormente: não repetir a verificação de conquistas
+      if (xpResult.duplicate) {
+        await this.sendIdempotentResponse(
+          res,
+          idempotencyRecordId,
+          200,
+          this.buildDuplicateEventResponse(xpResult)
+        );
+        return;
+      }
+
       const { userProgress, levelUpInfo } = xpResult;
+      // Pode ser menor que o valor padrão se o limite diário da fonte foi atingido
+      const xpGained = xpResult.antiAbuse?.awardedXP ?? XP_VALUES.CARD_CREATION;
 
       // Verificar conquistas relacionadas a criação de cards
       const newAchievements = await this.achievementService.checkAchievements(
@@ -301,6 +585,10 @@ export class GamificationController {
         [AchievementType.CARDS_CREATED]
       );
 
+      const completedQuests = await this.questService.trackProgress(userId, {
+        increments: { [QuestMetric.CARDS_CREATED]: 1 },
+      });
+
       // Calcular informações do próximo nível
       const xpForNextLevel = this.levelService.xpForNextLevel(
         userProgress.level
@@ -313,15 +601,17 @@ export class GamificationController {
       logger.info("Criação de card registrada com sucesso", {
         userId,
         cardId,
-        xpGained: XP_VALUES.CARD_CREATION,
+        xpGained,
         newLevel: userProgress.level,
         leveledUp: levelUpInfo.leveledUp,
         achievementsUnlocked: newAchievements.length,
       });
 
-      res.status(200).json({
+      await this.xpService.completeEvent(userId, xpResult);
+
+      await this.sendIdempotentResponse(res, idempotencyRecordId, 200, {
         success: true,
-        xpGained: XP_VALUES.CARD_CREATION,
+        xpGained,
         totalXP: userProgress.totalXP,
         level: userProgress.level,
         currentXP: userProgress.currentXP,
@@ -339,8 +629,15 @@ export class GamificationController {
           tier: a.tier,
           xpReward: a.xpReward,
         })),
+        completedQuests: this.buildCompletedQuestsResponse(completedQuests),
+        antiAbuse: xpResult.antiAbuse,
+        boost: xpResult.boost ?? null,
       });
     } catch (error) {
+      if (idempotencyRecordId) {
+        await this.idempotencyService.release(idempotencyRecordId);
+      }
+
       logger.error("Erro ao registrar criação de card", {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
@@ -358,6 +655,8 @@ export class GamificationController {
    * Registrar criação de deck - Adiciona 50 XP
    */
   onDeckCreated = async (req: Request, res: Response): Promise<void> => {
+    let idempotencyRecordId: string | null = null;
+
     try {
       logger.debug("POST /deck-created - Registrando criação de deck", {
         body: req.body,
@@ -378,15 +677,41 @@ export class GamificationController {
 
       const { userId, deckId } = validation.data;
 
+      const idempotency = await this.beginIdempotentEvent(
+        req,
+        res,
+        "deck-created",
+        userId,
+        validation.data.eventId
+      );
+      if (idempotency.handled) {
+        return;
+      }
+      idempotencyRecordId = idempotency.recordId;
+
       // Adicionar XP pela criação do deck
       const xpResult = await this.xpService.addXP(
         userId,
         XP_VALUES.DECK_CREATION,
         XPSource.DECK_CREATION,
-        deckId
+        deckId,
+        { deckId, eventId: idempotency.eventId }
       );
 
+      // Evento já aplicado anteriormente: não repetir a verificação de conquistas
+      if (xpResult.duplicate) {
+        await this.sendIdempotentResponse(
+          res,
+          idempotencyRecordId,
+          200,
+          this.buildDuplicateEventResponse(xpResult)
+        );
+        return;
+      }
+
       const { userProgress, levelUpInfo } = xpResult;
+      // Pode ser menor que o valor padrão se o limite diário da fonte foi atingido
+      const xpGained = xpResult.antiAbuse?.awardedXP ?? XP_VALUES.DECK_CREATION;
 
       // Verificar conquistas relacionadas a criação de decks
       const newAchievements = await this.achievementService.checkAchievements(
@@ -394,6 +719,10 @@ export class GamificationController {
         [AchievementType.DECK_CREATED]
       );
 
+      const completedQuests = await this.questService.trackProgress(userId, {
+        increments: { [QuestMetric.DECKS_CREATED]: 1 },
+      });
+
       // Calcular informações do próximo nível
       const xpForNextLevel = this.levelService.xpForNextLevel(
         userProgress.level
@@ -406,15 +735,17 @@ export class GamificationController {
       logger.info("Criação de deck registrada com sucesso", {
         userId,
         deckId,
-        xpGained: XP_VALUES.DECK_CREATION,
+        xpGained,
         newLevel: userProgress.level,
         leveledUp: levelUpInfo.leveledUp,
         achievementsUnlocked: newAchievements.length,
       });
 
-      res.status(200).json({
+      await this.xpService.completeEvent(userId, xpResult);
+
+      await this.sendIdempotentResponse(res, idempotencyRecordId, 200, {
         success: true,
-        xpGained: XP_VALUES.DECK_CREATION,
+        xpGained,
         totalXP: userProgress.totalXP,
         level: userProgress.level,
         currentXP: userProgress.currentXP,
@@ -432,8 +763,15 @@ export class GamificationController {
           tier: a.tier,
           xpReward: a.xpReward,
         })),
+        completedQuests: this.buildCompletedQuestsResponse(completedQuests),
+        antiAbuse: xpResult.antiAbuse,
+        boost: xpResult.boost ?? null,
       });
     } catch (error) {
+      if (idempotencyRecordId) {
+        await this.idempotencyService.release(idempotencyRecordId);
+      }
+
       logger.error("Erro ao registrar criação de deck", {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
@@ -447,19 +785,20 @@ export class GamificationController {
   };
 
   /**
-   * GET /progress/:userId
-   * Obter progresso completo do usuário
+   * POST /card-deleted
+   * Registrar exclusão de card - Estorna o XP de criação do card
    */
-  getUserProgress = async (req: Request, res: Response): Promise<void> => {
+  onCardDeleted = async (req: Request, res: Response): Promise<void> => {
+    let idempotencyRecordId: string | null = null;
+
     try {
-      logger.debug("GET /progress/:userId - Buscando progresso do usuário", {
-        params: req.params,
+      logger.debug("POST /card-deleted - Registrando exclusão de card", {
+        body: req.body,
       });
 
-      // Validar parâmetro userId
-      const validation = validateSchema(UserIdParamSchema, req.params);
+      const validation = validateSchema(CardDeletedSchema, req.body);
       if (!validation.success) {
-        logger.warn("Validação falhou em /progress/:userId", {
+        logger.warn("Validação falhou em /card-deleted", {
           error: validation.error,
         });
         res.status(400).json({
@@ -469,129 +808,710 @@ export class GamificationController {
         return;
       }
 
-      const { userId } = validation.data;
+      const { userId, cardId } = validation.data;
 
-      // Buscar progresso do usuário
-      const userProgress = await this.firestoreService.getUserProgress(userId);
+      const idempotency = await this.beginIdempotentEvent(
+        req,
+        res,
+        "card-deleted",
+        userId,
+        validation.data.eventId
+      );
+      if (idempotency.handled) {
+        return;
+      }
+      idempotencyRecordId = idempotency.recordId;
 
-      // Buscar streak data
-      const streakData = await this.firestoreService.getStreakData(userId);
+      // Reenvios sem eventId são seguros: transações já estornadas são ignoradas
+      const result = await this.xpService.reverseTransactionsBySource(
+        userId,
+        XPSource.CARD_CREATION,
+        cardId,
+        `card ${cardId} excluído`
+      );
 
-      logger.info("Progresso do usuário recuperado com sucesso", {
+      logger.info("Exclusão de card registrada", {
         userId,
-        level: userProgress.level,
-        totalXP: userProgress.totalXP,
+        cardId,
+        xpReversed: result.xpReversed,
+        leveledDown: result.levelDownInfo.leveledDown,
       });
 
-      res.status(200).json({
-        success: true,
-        userId: userProgress.userId,
-        level: userProgress.level,
-        totalXP: userProgress.totalXP,
-        currentXP: userProgress.currentXP,
-        achievements: userProgress.achievements,
-        currentStreak: streakData.current,
-        longestStreak: streakData.longest,
-        lastActivityDate: userProgress.lastActivityDate,
-        createdAt: userProgress.createdAt,
-      });
+      await this.sendIdempotentResponse(
+        res,
+        idempotencyRecordId,
+        200,
+        this.buildReversalResponse(result)
+      );
     } catch (error) {
-      logger.error("Erro ao buscar progresso do usuário", {
+      if (idempotencyRecordId) {
+        await this.idempotencyService.release(idempotencyRecordId);
+      }
+
+      logger.error("Erro ao registrar exclusão de card", {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
       });
 
       res.status(500).json({
-        error: "Erro ao buscar progresso do usuário",
+        error: "Erro ao registrar exclusão de card",
         details: error instanceof Error ? error.message : "Erro desconhecido",
       });
     }
   };
 
   /**
-   * GET /daily-progress/:userId
-   * Obter progresso diário do usuário
+   * POST /deck-deleted
+   * Registrar exclusão de deck - Estorna o XP de criação do deck e dos seus
+   * cards e remove o deck das métricas de decks ativos, estudados e completados
    */
-  getDailyProgress = async (req: Request, res: Response): Promise<void> => {
+  onDeckDeleted = async (req: Request, res: Response): Promise<void> => {
+    let idempotencyRecordId: string | null = null;
+
     try {
-      logger.debug("GET /daily-progress/:userId - Buscando progresso diário", {
-        params: req.params,
-        query: req.query,
+      logger.debug("POST /deck-deleted - Registrando exclusão de deck", {
+        body: req.body,
       });
 
-      // Validar parâmetro userId
-      const paramValidation = validateSchema(UserIdParamSchema, req.params);
-      if (!paramValidation.success) {
-        logger.warn("Validação de params falhou em /daily-progress/:userId", {
-          error: paramValidation.error,
+      const validation = validateSchema(DeckDeletedSchema, req.body);
+      if (!validation.success) {
+        logger.warn("Validação falhou em /deck-deleted", {
+          error: validation.error,
         });
         res.status(400).json({
           error: "Parâmetros inválidos",
-          details: paramValidation.error,
+          details: validation.error,
         });
         return;
       }
 
-      // Validar query params (opcional)
-      const queryValidation = validateSchema(
-        DailyProgressQuerySchema,
-        req.query
+      const { userId, deckId } = validation.data;
+
+      const idempotency = await this.beginIdempotentEvent(
+        req,
+        res,
+        "deck-deleted",
+        userId,
+        validation.data.eventId
       );
-      if (!queryValidation.success) {
-        logger.warn("Validação de query falhou em /daily-progress/:userId", {
-          error: queryValidation.error,
-        });
-        res.status(400).json({
-          error: "Query params inválidos",
-          details: queryValidation.error,
-        });
+      if (idempotency.handled) {
         return;
       }
+      idempotencyRecordId = idempotency.recordId;
 
-      const { userId } = paramValidation.data;
-      const { date } = queryValidation.data;
+      const result = await this.xpService.reverseDeckCreation(
+        userId,
+        deckId,
+        `deck ${deckId} excluído`
+      );
 
-      // Usar data de hoje se não fornecida (no fuso horário local)
-      const targetDate = date || getLocalDateString();
+      await this.auditService.trackMetrics(userId, "deck_deleted", () =>
+        this.firestoreService.removeDeckFromMetrics(userId, deckId)
+      );
 
-      // Buscar progresso diário
-      const dailyProgress = await this.firestoreService.getDailyProgress(
+      logger.info("Exclusão de deck registrada", {
         userId,
-        targetDate as string
+        deckId,
+        xpReversed: result.xpReversed,
+        reversals: result.reversals.length,
+        leveledDown: result.levelDownInfo.leveledDown,
+      });
+
+      await this.sendIdempotentResponse(
+        res,
+        idempotencyRecordId,
+        200,
+        this.buildReversalResponse(result)
       );
+    } catch (error) {
+      if (idempotencyRecordId) {
+        await this.idempotencyService.release(idempotencyRecordId);
+      }
+
+      logger.error("Erro ao registrar exclusão de deck", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao registrar exclusão de deck",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * POST /xp/reverse
+   * Estornar XP (card/deck excluído, revisões fraudulentas, conquista por engano)
+   */
+  reverseXP = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(XPReversalSchema, req.body);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, transactionId, source, sourceId, reason } =
+        validation.data;
+
+      const result = transactionId
+        ? await this.xpService.reverseTransaction(userId, transactionId, reason)
+        : await this.xpService.reverseTransactionsBySource(
+            userId,
+            source as XPSource,
+            sourceId as string,
+            reason
+          );
+
+      logger.info("XP estornado", {
+        userId,
+        transactionId,
+        source,
+        sourceId,
+        xpReversed: result.xpReversed,
+        reversals: result.reversals.length,
+        leveledDown: result.levelDownInfo.leveledDown,
+      });
+
+      res.status(200).json(this.buildReversalResponse(result));
+    } catch (error) {
+      logger.error("Erro ao estornar XP", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: "Erro ao estornar XP",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * GET /progress/:userId
+   * Obter progresso completo do usuário
+   */
+  getUserProgress = async (req: Request, res: Response): Promise<void> => {
+    try {
+      logger.debug("GET /progress/:userId - Buscando progresso do usuário", {
+        params: req.params,
+      });
+
+      // Validar parâmetro userId
+      const validation = validateSchema(UserIdParamSchema, req.params);
+      if (!validation.success) {
+        logger.warn("Validação falhou em /progress/:userId", {
+          error: validation.error,
+        });
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId } = validation.data;
+
+      // Buscar progresso do usuário
+      const userProgress = await this.firestoreService.getUserProgress(userId);
+
+      // Buscar streak data
+      const streakData = await this.firestoreService.getStreakData(userId);
+
+      const levelInfo = this.levelService.getLevelInfo(userProgress.totalXP);
+
+      logger.info("Progresso do usuário recuperado com sucesso", {
+        userId,
+        level: userProgress.level,
+        totalXP: userProgress.totalXP,
+      });
+
+      res.status(200).json({
+        success: true,
+        userId: userProgress.userId,
+        level: userProgress.level,
+        totalXP: userProgress.totalXP,
+        currentXP: userProgress.currentXP,
+        levelTitle: levelInfo.title,
+        levelBadge: levelInfo.badge,
+        prestige: levelInfo.prestige,
+        achievements: userProgress.achievements,
+        currentStreak: streakData.current,
+        longestStreak: streakData.longest,
+        streakFreezes: {
+          available: streakData.freezesAvailable ?? 0,
+          equipped: streakData.freezesEquipped ?? 0,
+          remaining:
+            (streakData.freezesAvailable ?? 0) +
+            (streakData.freezesEquipped ?? 0),
+        },
+        lastActivityDate: userProgress.lastActivityDate,
+        timezone: userProgress.timezone ?? null,
+        createdAt: userProgress.createdAt,
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar progresso do usuário", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao buscar progresso do usuário",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * GET /levels
+   * Tabela de níveis da curva configurada (XP acumulado, título e badge)
+   */
+  getLevelTable = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(LevelTableQuerySchema, req.query);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      // A tabela para no LEVEL_CAP, se configurado
+      res.status(200).json({
+        success: true,
+        data: {
+          curve: this.levelService.curveType,
+          maxLevel: this.levelService.maxLevel,
+          prestigeXP: this.levelService.prestigeXP,
+          levels: this.levelService.getLevelTable(validation.data.to),
+        },
+      });
+    } catch (error) {
+      logger.error("Erro ao montar tabela de níveis", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: "Erro ao montar tabela de níveis",
+      });
+    }
+  };
+
+  /**
+   * GET /daily-progress/:userId
+   * Obter progresso diário do usuário
+   */
+  getDailyProgress = async (req: Request, res: Response): Promise<void> => {
+    try {
+      logger.debug("GET /daily-progress/:userId - Buscando progresso diário", {
+        params: req.params,
+        query: req.query,
+      });
+
+      // Validar parâmetro userId
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        logger.warn("Validação de params falhou em /daily-progress/:userId", {
+          error: paramValidation.error,
+        });
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      // Validar query params (opcional)
+      const queryValidation = validateSchema(
+        DailyProgressQuerySchema,
+        req.query
+      );
+      if (!queryValidation.success) {
+        logger.warn("Validação de query falhou em /daily-progress/:userId", {
+          error: queryValidation.error,
+        });
+        res.status(400).json({
+          error: "Query params inválidos",
+          details: queryValidation.error,
+        });
+        return;
+      }
+
+      const { userId } = paramValidation.data;
+      const { date } = queryValidation.data;
+
+      // Usar data de hoje se não fornecida (no fuso horário do usuário)
+      const targetDate =
+        date ||
+        getDateStringInTimeZone(
+          new Date(),
+          await this.firestoreService.getUserTimezone(userId)
+        );
+
+      // Buscar progresso diário
+      const dailyProgress = await this.firestoreService.getDailyProgress(
+        userId,
+        targetDate as string
+      );
+
+      // Verificar se atingiu a meta em vigor nesta data
+      const goalCheckResult = await this.dailyGoalService.checkDailyGoal(
+        userId,
+        targetDate as string
+      );
+
+      logger.info("Progresso diário recuperado com sucesso", {
+        userId,
+        date: dailyProgress.date,
+        cardsReviewed: dailyProgress.cardsReviewed,
+        goalMet: dailyProgress.goalMet,
+        goal: goalCheckResult.goal,
+      });
+
+      res.status(200).json({
+        success: true,
+        userId: dailyProgress.userId,
+        date: dailyProgress.date,
+        cardsReviewed: dailyProgress.cardsReviewed,
+        minutesStudied: goalCheckResult.minutesStudied,
+        goalMet: dailyProgress.goalMet,
+        goal: goalCheckResult.goal,
+        goalTarget: goalCheckResult.goal.target,
+        remaining: goalCheckResult.remaining,
+        cardsRemaining: goalCheckResult.cardsRemaining,
+        xpEarned: dailyProgress.xpEarned,
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar progresso diário", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao buscar progresso diário",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * GET /daily-goal/:userId
+   * Obter a meta diária do usuário
+   */
+  getDailyGoal = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const settings = await this.dailyGoalService.getGoalSettings(
+        paramValidation.data.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: settings,
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar meta diária", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao buscar meta diária",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * PUT /daily-goal/:userId
+   * Atualizar a meta diária do usuário (vale a partir de hoje)
+   */
+  updateDailyGoal = async (req: Request, res: Response): Promise<void> => {
+    try {
+      logger.debug("PUT /daily-goal/:userId - Atualizando meta diária", {
+        params: req.params,
+        body: req.body,
+      });
+
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(DailyGoalSettingsSchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { userId } = paramValidation.data;
+      const settings = await this.dailyGoalService.updateGoalSettings(
+        userId,
+        bodyValidation.data
+      );
+
+      logger.info("Meta diária atualizada", {
+        userId,
+        goal: settings.goal,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: settings,
+      });
+    } catch (error) {
+      logger.error("Erro ao atualizar meta diária", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao atualizar meta diária",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * GET /timezone/:userId
+   * Obter o fuso horário do usuário e a data atual nesse fuso
+   */
+  getTimezone = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const { userId } = paramValidation.data;
+      const timezone = await this.firestoreService.getUserTimezone(userId);
+
+      res.status(200).json({
+        success: true,
+        data: this.buildTimezoneResponse(userId, timezone),
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar fuso horário", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao buscar fuso horário",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * PUT /timezone/:userId
+   * Definir o fuso horário (IANA) usado no progresso diário e nos streaks
+   */
+  updateTimezone = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(TimezoneBodySchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { userId } = paramValidation.data;
+      const { timezone } = bodyValidation.data;
+      await this.firestoreService.setUserTimezone(userId, timezone);
+
+      logger.info("Fuso horário do usuário atualizado", { userId, timezone });
+
+      res.status(200).json({
+        success: true,
+        data: this.buildTimezoneResponse(userId, timezone),
+      });
+    } catch (error) {
+      logger.error("Erro ao atualizar fuso horário", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao atualizar fuso horário",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * GET /streak-freezes/:userId
+   * Obter o inventário de streak freezes do usuário
+   */
+  getStreakFreezes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const freezes = await this.streakService.getStreakFreezes(
+        paramValidation.data.userId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: freezes,
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar streak freezes", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao buscar streak freezes",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * POST /streak-freezes/:userId/purchase
+   * Comprar streak freezes com XP
+   */
+  purchaseStreakFreezes = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(
+        StreakFreezeQuantitySchema,
+        req.body ?? {}
+      );
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { userId } = paramValidation.data;
+      const result = await this.streakService.purchaseStreakFreezes(
+        userId,
+        bodyValidation.data.quantity
+      );
+
+      logger.info("Streak freezes comprados", {
+        userId,
+        quantity: bodyValidation.data.quantity,
+        xpSpent: result.xpSpent,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.error("Erro ao comprar streak freezes", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: "Erro ao comprar streak freezes",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * POST /streak-freezes/:userId/equip
+   * Equipar streak freezes do estoque
+   */
+  equipStreakFreezes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
 
-      // Verificar se atingiu a meta
-      const goalCheckResult = await this.dailyGoalService.checkDailyGoal(
-        userId,
-        targetDate as string
+      const bodyValidation = validateSchema(
+        StreakFreezeQuantitySchema,
+        req.body ?? {}
       );
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
 
-      logger.info("Progresso diário recuperado com sucesso", {
-        userId,
-        date: dailyProgress.date,
-        cardsReviewed: dailyProgress.cardsReviewed,
-        goalMet: dailyProgress.goalMet,
-      });
+      const freezes = await this.streakService.equipStreakFreezes(
+        paramValidation.data.userId,
+        bodyValidation.data.quantity
+      );
 
       res.status(200).json({
         success: true,
-        userId: dailyProgress.userId,
-        date: dailyProgress.date,
-        cardsReviewed: dailyProgress.cardsReviewed,
-        goalMet: dailyProgress.goalMet,
-        goalTarget:
-          goalCheckResult.cardsRemaining + goalCheckResult.cardsReviewed,
-        cardsRemaining: goalCheckResult.cardsRemaining,
-        xpEarned: dailyProgress.xpEarned,
+        data: freezes,
       });
     } catch (error) {
-      logger.error("Erro ao buscar progresso diário", {
+      logger.error("Erro ao equipar streak freezes", {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
       });
 
-      res.status(500).json({
-        error: "Erro ao buscar progresso diário",
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: "Erro ao equipar streak freezes",
         details: error instanceof Error ? error.message : "Erro desconhecido",
       });
     }
@@ -625,36 +1545,43 @@ export class GamificationController {
 
       const { userId } = validation.data;
 
-      // Buscar conquistas do usuário
-      const userAchievements =
-        await this.firestoreService.getUserAchievements(userId);
-
-      // Filtrar apenas conquistas desbloqueadas
-      const unlocked = userAchievements.filter((ua) => ua.unlockedAt !== null);
+      // Buscar conquistas do usuário e o catálogo (uma leitura para todos os detalhes)
+      const [userAchievements, catalog] = await Promise.all([
+        this.firestoreService.getUserAchievements(userId),
+        this.firestoreService.getAllAchievements(),
+      ]);
+      const catalogById = new Map(catalog.map((a) => [a.id, a]));
 
-      // Buscar detalhes completos das conquistas
-      const achievementsDetails = await Promise.all(
-        unlocked.map(async (ua) => {
-          const achievement = await this.firestoreService.getAchievement(
-            ua.achievementId
-          );
-          return {
-            ...achievement,
-            unlockedAt: ua.unlockedAt,
-            progress: ua.progress,
-          };
-        })
+      // Filtrar apenas conquistas desbloqueadas (ignorando as removidas do catálogo)
+      const unlocked = userAchievements.filter(
+        (ua) => ua.unlockedAt !== null && catalogById.has(ua.achievementId)
       );
 
+      const achievementsDetails = unlocked.map((ua) => ({
+        ...catalogById.get(ua.achievementId),
+        unlockedAt: ua.unlockedAt,
+        progress: ua.progress,
+        claimed: ua.claimed,
+        claimedAt: ua.claimedAt ?? null,
+        rewardPending: hasPendingReward(ua),
+      }));
+
+      const pendingClaims = achievementsDetails
+        .filter((a) => a.rewardPending)
+        .map((a) => a.id);
+
       logger.info("Conquistas do usuário recuperadas com sucesso", {
         userId,
         totalUnlocked: unlocked.length,
+        pendingClaims: pendingClaims.length,
       });
 
       res.status(200).json({
         success: true,
         userId,
         totalUnlocked: unlocked.length,
+        totalPendingClaims: pendingClaims.length,
+        pendingClaims,
         achievements: achievementsDetails,
       });
     } catch (error) {
@@ -670,6 +1597,111 @@ export class GamificationController {
     }
   };
 
+  /**
+   * GET /achievements/:userId/catalog
+   * Sala de troféus: todas as conquistas ativas com o estado do usuário
+   */
+  getAchievementCatalog = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const validation = validateSchema(UserIdParamSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId } = validation.data;
+      const catalog = await this.achievementCatalogService.getCatalog(userId);
+
+      logger.info("Catálogo de conquistas recuperado com sucesso", {
+        userId,
+        total: catalog.total,
+        unlocked: catalog.unlocked,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: catalog,
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar catálogo de conquistas", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao buscar catálogo de conquistas",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * POST /achievements/:userId/:achievementId/claim
+   * Resgatar o XP de uma conquista desbloqueada
+   */
+  claimAchievementReward = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const validation = validateSchema(
+        UserAchievementParamsSchema,
+        req.params
+      );
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, achievementId } = validation.data;
+      const result = await this.achievementService.claimAchievementReward(
+        userId,
+        achievementId
+      );
+
+      logger.info("Recompensa de conquista resgatada", {
+        userId,
+        achievementId,
+        xpGained: result.xpGained,
+      });
+
+      const userProgress =
+        result.xpResult?.userProgress ??
+        (await this.firestoreService.getUserProgress(userId));
+
+      res.status(200).json({
+        success: true,
+        achievementId,
+        xpGained: result.xpGained,
+        totalXP: userProgress.totalXP,
+        level: userProgress.level,
+        currentXP: userProgress.currentXP,
+        levelUp: result.xpResult?.levelUpInfo ?? null,
+        claimedAt: result.progress.claimedAt ?? null,
+        boost: result.boost,
+      });
+    } catch (error) {
+      logger.error("Erro ao resgatar recompensa da conquista", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: "Erro ao resgatar recompensa da conquista",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
   /**
    * POST /check-achievements/:userId
    * Forçar verificação de conquistas do usuário
@@ -773,7 +1805,10 @@ export class GamificationController {
         return;
       }
 
-      await this.achievementService.markAllAsSeen(String(user_id));
+      await Promise.all([
+        this.achievementService.markAllAsSeen(String(user_id)),
+        this.inboxService.markAllAsRead(String(user_id)),
+      ]);
 
       logger.info("Notificações limpas com sucesso", { userId: user_id });
 
@@ -855,6 +1890,14 @@ export class GamificationController {
         return;
       }
 
+      // Todos os usuários recebem na caixa de entrada, com ou sem token FCM
+      await this.inboxService.recordForAllUsers({
+        type: InboxNotificationType.BROADCAST,
+        title,
+        body,
+        data: additionalData || {},
+      });
+
       const tokens = await this.firestoreService.getAllFcmTokens();
 
       if (tokens.length === 0) {
@@ -886,6 +1929,7 @@ export class GamificationController {
         stats: {
           success: result.successCount,
           failure: result.failureCount,
+          skipped: result.skippedCount,
           totalTokens: tokens.length,
         },
       });
@@ -930,11 +1974,17 @@ export class GamificationController {
 
       const { userId, deckId } = validation.data;
 
-      // Registrar deck do marketplace
-      await this.firestoreService.addMarketplaceDeck(userId, deckId);
+      await this.auditService.trackMetrics(
+        userId,
+        "marketplace_deck_added",
+        async () => {
+          // Registrar deck do marketplace
+          await this.firestoreService.addMarketplaceDeck(userId, deckId);
 
-      // Também adicionar como deck ativo
-      await this.firestoreService.addActiveDeck(userId, deckId);
+          // Também adicionar como deck ativo
+          await this.firestoreService.addActiveDeck(userId, deckId);
+        }
+      );
 
       // Verificar conquistas customizadas
       const newAchievements = await this.achievementService.checkAchievements(
@@ -986,8 +2036,14 @@ export class GamificationController {
 
       const { userId, completed } = validation.data;
 
-      // Atualizar status do perfil
-      await this.firestoreService.setProfileCompleted(userId, completed);
+      await this.auditService.trackMetrics(
+        userId,
+        "profile_completed",
+        async () => {
+          // Atualizar status do perfil
+          await this.firestoreService.setProfileCompleted(userId, completed);
+        }
+      );
 
       // Verificar conquistas customizadas
       const newAchievements = await this.achievementService.checkAchievements(
@@ -1039,8 +2095,10 @@ export class GamificationController {
 
       const { userId, deckId } = validation.data;
 
-      // Registrar deck compartilhado
-      await this.firestoreService.addSharedDeck(userId, deckId);
+      await this.auditService.trackMetrics(userId, "deck_shared", async () => {
+        // Registrar deck compartilhado
+        await this.firestoreService.addSharedDeck(userId, deckId);
+      });
 
       // Verificar conquistas customizadas
       const newAchievements = await this.achievementService.checkAchievements(
@@ -1092,8 +2150,10 @@ export class GamificationController {
 
       const { userId } = validation.data;
 
-      // Incrementar contador de avaliações
-      await this.firestoreService.incrementDeckReviews(userId);
+      await this.auditService.trackMetrics(userId, "deck_rated", async () => {
+        // Incrementar contador de avaliações
+        await this.firestoreService.incrementDeckReviews(userId);
+      });
 
       // Verificar conquistas customizadas
       const newAchievements = await this.achievementService.checkAchievements(
@@ -1145,8 +2205,14 @@ export class GamificationController {
 
       const { userId, deckId } = validation.data;
 
-      // Registrar deck completado
-      await this.firestoreService.addCompletedDeck(userId, deckId);
+      await this.auditService.trackMetrics(
+        userId,
+        "deck_completed",
+        async () => {
+          // Registrar deck completado
+          await this.firestoreService.addCompletedDeck(userId, deckId);
+        }
+      );
 
       // Verificar conquistas customizadas
       const newAchievements = await this.achievementService.checkAchievements(
@@ -1198,8 +2264,14 @@ export class GamificationController {
 
       const { userId, deckIds } = validation.data;
 
-      // Atualizar lista de decks ativos
-      await this.firestoreService.setActiveDecks(userId, deckIds);
+      await this.auditService.trackMetrics(
+        userId,
+        "active_decks_updated",
+        async () => {
+          // Atualizar lista de decks ativos
+          await this.firestoreService.setActiveDecks(userId, deckIds);
+        }
+      );
 
       // Verificar conquistas customizadas
       const newAchievements = await this.achievementService.checkAchievements(
@@ -1254,20 +2326,30 @@ export class GamificationController {
 
       const { userId, deckId, date, hour, cardsReviewed } = validation.data;
 
-      // Registrar horário da sessão
-      await this.firestoreService.recordStudySessionTime(userId, date, hour);
+      await this.auditService.trackMetrics(
+        userId,
+        "study_session",
+        async () => {
+          // Registrar horário da sessão
+          await this.firestoreService.recordStudySessionTime(
+            userId,
+            date,
+            hour
+          );
 
-      // Registrar deck estudado
-      await this.firestoreService.addStudiedDeck(userId, deckId);
+          // Registrar deck estudado
+          await this.firestoreService.addStudiedDeck(userId, deckId);
 
-      // Atualizar cards por dia se fornecido
-      if (cardsReviewed !== undefined) {
-        await this.firestoreService.updateCardsPerDay(
-          userId,
-          date,
-          cardsReviewed
-        );
-      }
+          // Atualizar cards por dia se fornecido
+          if (cardsReviewed !== undefined) {
+            await this.firestoreService.updateCardsPerDay(
+              userId,
+              date,
+              cardsReviewed
+            );
+          }
+        }
+      );
 
       // Verificar conquistas customizadas
       const newAchievements = await this.achievementService.checkAchievements(
@@ -1275,6 +2357,13 @@ export class GamificationController {
         [AchievementType.CUSTOM]
       );
 
+      // Revisões já são contadas por /process-review: a sessão conta apenas o deck
+      const completedQuests = await this.questService.trackProgress(userId, {
+        date,
+        increments: {},
+        deckIds: [deckId],
+      });
+
       logger.info("Sessão de estudo registrada", { userId, deckId, hour });
 
       res.status(200).json({
@@ -1287,6 +2376,7 @@ export class GamificationController {
           tier: a.tier,
           xpReward: a.xpReward,
         })),
+        completedQuests: this.buildCompletedQuestsResponse(completedQuests),
       });
     } catch (error) {
       logger.error("Erro ao registrar sessão de estudo", {
@@ -1298,6 +2388,116 @@ export class GamificationController {
     }
   };
 
+  /**
+   * GET /boosts/:userId
+   * Boosts de XP em vigor e próximos que valem para o usuário
+   */
+  getUserBoosts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(UserIdParamSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const boosts = await this.xpBoostService.getUserBoosts(
+        validation.data.userId
+      );
+
+      res.status(200).json({ success: true, data: boosts });
+    } catch (error) {
+      logger.error("Erro ao buscar boosts de XP do usuário", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: "Erro ao buscar boosts de XP do usuário",
+      });
+    }
+  };
+
+  /**
+   * GET /quests/:userId
+   * Missões diárias e semanais do usuário (geradas no primeiro acesso do período)
+   */
+  getUserQuests = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(UserIdParamSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const quests = await this.questService.getQuests(validation.data.userId);
+
+      res.status(200).json({ success: true, data: quests });
+    } catch (error) {
+      logger.error("Erro ao buscar missões do usuário", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        error: "Erro ao buscar missões do usuário",
+      });
+    }
+  };
+
+  /**
+   * POST /quests/:userId/:questId/claim
+   * Resgatar a recompensa de uma missão concluída
+   */
+  claimQuestReward = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(UserQuestParamsSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, questId } = validation.data;
+      const result = await this.questService.claimQuest(userId, questId);
+
+      logger.info("Recompensa de missão resgatada", {
+        userId,
+        questId,
+        xpGained: result.xpGained,
+      });
+
+      const userProgress =
+        result.xpResult?.userProgress ??
+        (await this.firestoreService.getUserProgress(userId));
+
+      res.status(200).json({
+        success: true,
+        questId,
+        xpGained: result.xpGained,
+        totalXP: userProgress.totalXP,
+        level: userProgress.level,
+        currentXP: userProgress.currentXP,
+        levelUp: result.xpResult?.levelUpInfo ?? null,
+        claimedAt: result.quest.claimedAt,
+        boost: result.xpResult?.boost ?? null,
+      });
+    } catch (error) {
+      logger.error("Erro ao resgatar recompensa da missão", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: "Erro ao resgatar recompensa da missão",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
   /**
    * GET /metrics/:userId
    * Obter métricas customizadas do usuário
@@ -1336,4 +2536,176 @@ export class GamificationController {
       });
     }
   };
+
+  // ========== IDEMPOTÊNCIA ==========
+
+  /**
+   * Resolve o eventId (corpo ou header Idempotency-Key) e reserva o evento.
+   * Retorna `handled: true` quando a resposta já foi enviada
+   * (replay da resposta original, evento em andamento ou eventId inválido).
+   */
+  private async beginIdempotentEvent(
+    req: Request,
+    res: Response,
+    scope: ProcessedEventScope,
+    userId: string,
+    bodyEventId: string | undefined
+  ): Promise<
+    | { handled: true }
+    | { handled: false; recordId: string | null; eventId: string | undefined }
+  > {
+    let eventId = bodyEventId;
+    const headerValue = req.get(IDEMPOTENCY_CONFIG.HEADER);
+
+    if (headerValue !== undefined) {
+      const headerValidation = validateSchema(EventIdSchema, headerValue);
+      if (!headerValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: headerValidation.error,
+        });
+        return { handled: true };
+      }
+
+      if (bodyEventId && bodyEventId !== headerValidation.data) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: `eventId do corpo difere do header ${IDEMPOTENCY_CONFIG.HEADER}`,
+        });
+        return { handled: true };
+      }
+
+      eventId = headerValidation.data;
+    }
+
+    if (!eventId) {
+      return { handled: false, recordId: null, eventId: undefined };
+    }
+
+    const result = await this.idempotencyService.begin(scope, userId, eventId);
+
+    if (result.status === "replay") {
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(result.statusCode).json(result.response);
+      return { handled: true };
+    }
+
+    if (result.status === "in_progress") {
+      res.status(409).json({
+        error: "Evento ainda em processamento",
+        details: `O evento ${eventId} já está sendo processado. Tente novamente em instantes.`,
+      });
+      return { handled: true };
+    }
+
+    return { handled: false, recordId: result.recordId, eventId };
+  }
+
+  /**
+   * Guarda a resposta do evento (quando idempotente) e a envia ao cliente
+   */
+  private async sendIdempotentResponse(
+    res: Response,
+    recordId: string | null,
+    statusCode: number,
+    body: Record<string, unknown>
+  ): Promise<void> {
+    if (recordId) {
+      try {
+        await this.idempotencyService.complete(recordId, statusCode, body);
+      } catch (error) {
+        // O XP já foi aplicado; a transação determinística ainda evita duplicidade
+        logger.error("Erro ao salvar resposta do evento idempotente", {
+          recordId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    res.status(statusCode).json(body);
+  }
+
+  /**
+   * Resposta para um evento cujo XP já foi aplicado, mas sem resposta salva
+   * (ex: registro de dedupe expirado). Reflete o progresso atual sem novo XP.
+   */
+  private buildDuplicateEventResponse({
+    userProgress,
+  }: Pick<XPResult, "userProgress">): Record<string, unknown> {
+    return {
+      success: true,
+      duplicate: true,
+      xpGained: 0,
+      totalXP: userProgress.totalXP,
+      level: userProgress.level,
+      currentXP: userProgress.currentXP,
+      levelUp: {
+        leveledUp: false,
+        oldLevel: userProgress.level,
+        newLevel: userProgress.level,
+        xpForNextLevel: this.levelService.xpForNextLevel(userProgress.level),
+        xpToNextLevel: this.levelService.xpToNextLevel(
+          userProgress.totalXP,
+          userProgress.level
+        ),
+      },
+      newAchievements: [],
+    };
+  }
+
+  /**
+   * Resposta dos estornos de XP (xp/reverse, card-deleted e deck-deleted)
+   */
+  private buildReversalResponse(
+    result: XPReversalResult
+  ): Record<string, unknown> {
+    const { userProgress } = result;
+
+    return {
+      success: true,
+      xpReversed: result.xpReversed,
+      totalXP: userProgress.totalXP,
+      level: userProgress.level,
+      currentXP: userProgress.currentXP,
+      levelDown: result.levelDownInfo,
+      reversals: result.reversals.map((reversal) => ({
+        id: reversal.id,
+        reversalOf: reversal.reversalOf,
+        source: reversal.reversedSource,
+        amount: reversal.amount,
+      })),
+      alreadyReversed: result.alreadyReversed,
+    };
+  }
+
+  /**
+   * Resumo das missões concluídas pelo evento (recompensa resgatável)
+   */
+  private buildCompletedQuestsResponse(
+    quests: UserQuest[]
+  ): Array<Record<string, unknown>> {
+    return quests.map((quest) => ({
+      id: quest.id,
+      period: quest.period,
+      title: quest.title,
+      xpReward: quest.xpReward,
+    }));
+  }
+
+  /**
+   * Fuso configurado, fuso efetivo (com fallback) e a data atual do usuário
+   */
+  private buildTimezoneResponse(
+    userId: string,
+    timezone: string | null
+  ): Record<string, unknown> {
+    const effectiveTimezone = timezone ?? DEFAULT_TIMEZONE;
+
+    return {
+      userId,
+      timezone,
+      effectiveTimezone,
+      today: getDateStringInTimeZone(new Date(), effectiveTimezone),
+    };
+  }
 }
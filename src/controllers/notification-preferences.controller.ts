@@ -0,0 +1,109 @@
+import type { Request, Response } from "express";
+import { AppError } from "../middlewares/error.middleware";
+import { NotificationPreferencesService } from "../services/notification-preferences.service";
+import { logger } from "../utils/logger";
+import {
+  NotificationPreferencesUpdateSchema,
+  UserIdBodySchema,
+  validateSchema,
+} from "../utils/validators";
+
+/**
+ * Notification Preferences Controller
+ *
+ * Preferências de notificação do usuário: categorias, horário de silêncio e
+ * mute global. O usuário vem de user_id (query ou corpo) ou do token.
+ */
+export class NotificationPreferencesController {
+  private readonly preferencesService: NotificationPreferencesService;
+
+  constructor() {
+    this.preferencesService = new NotificationPreferencesService();
+  }
+
+  /**
+   * GET /user/notification-preferences
+   * Buscar preferências de notificação
+   */
+  getPreferences = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(UserIdBodySchema, req.query);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const userId = validation.data.user_id ?? req.auth?.uid;
+      if (!userId) {
+        res.status(400).json({ error: "user_id é obrigatório" });
+        return;
+      }
+
+      const preferences = await this.preferencesService.getPreferences(userId);
+
+      res.status(200).json({ success: true, data: preferences });
+    } catch (error) {
+      this.sendError(res, "Erro ao buscar preferências de notificação", error);
+    }
+  };
+
+  /**
+   * PUT /user/notification-preferences
+   * Atualizar preferências de notificação (parcial)
+   */
+  updatePreferences = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(
+        NotificationPreferencesUpdateSchema,
+        req.body
+      );
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { user_id, ...update } = validation.data;
+      const userId = user_id ?? req.auth?.uid;
+      if (!userId) {
+        res.status(400).json({ error: "user_id é obrigatório" });
+        return;
+      }
+
+      const preferences = await this.preferencesService.updatePreferences(
+        userId,
+        update
+      );
+
+      logger.info("Preferências de notificação atualizadas", {
+        userId,
+        muted: preferences.muted,
+      });
+
+      res.status(200).json({ success: true, data: preferences });
+    } catch (error) {
+      this.sendError(
+        res,
+        "Erro ao atualizar preferências de notificação",
+        error
+      );
+    }
+  };
+
+  private sendError(res: Response, message: string, error: unknown): void {
+    logger.error(message, {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      error: message,
+      details: error instanceof Error ? error.message : "Erro desconhecido",
+    });
+  }
+}
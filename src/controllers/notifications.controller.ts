@@ -0,0 +1,152 @@
+import type { Request, Response } from "express";
+import { AppError } from "../middlewares/error.middleware";
+import { NotificationInboxService } from "../services/notification-inbox.service";
+import { logger } from "../utils/logger";
+import {
+  InboxNotificationParamsSchema,
+  InboxQuerySchema,
+  UserIdParamSchema,
+  validateSchema,
+} from "../utils/validators";
+
+/**
+ * Notifications Controller
+ *
+ * Caixa de entrada de notificações: histórico paginado, contador de não
+ * lidas e marcação de leitura.
+ */
+export class NotificationsController {
+  private readonly inboxService: NotificationInboxService;
+
+  constructor() {
+    this.inboxService = new NotificationInboxService();
+  }
+
+  /**
+   * GET /notifications/:userId
+   * Notificações do usuário (mais recentes primeiro)
+   */
+  getInbox = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const queryValidation = validateSchema(InboxQuerySchema, req.query);
+      if (!queryValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: queryValidation.error,
+        });
+        return;
+      }
+
+      const inbox = await this.inboxService.getInbox(
+        paramValidation.data.userId,
+        queryValidation.data
+      );
+
+      res.status(200).json({ success: true, data: inbox });
+    } catch (error) {
+      this.sendError(res, "Erro ao buscar notificações", error);
+    }
+  };
+
+  /**
+   * GET /notifications/:userId/unread-count
+   * Total de notificações não lidas (badge)
+   */
+  getUnreadCount = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(UserIdParamSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const unreadCount = await this.inboxService.getUnreadCount(
+        validation.data.userId
+      );
+
+      res.status(200).json({ success: true, data: { unreadCount } });
+    } catch (error) {
+      this.sendError(res, "Erro ao contar notificações não lidas", error);
+    }
+  };
+
+  /**
+   * POST /notifications/:userId/read-all
+   * Marcar todas as notificações como lidas
+   */
+  markAllAsRead = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(UserIdParamSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId } = validation.data;
+      const updated = await this.inboxService.markAllAsRead(userId);
+
+      logger.info("Notificações marcadas como lidas", { userId, updated });
+
+      res.status(200).json({ success: true, data: { updated } });
+    } catch (error) {
+      this.sendError(res, "Erro ao marcar notificações como lidas", error);
+    }
+  };
+
+  /**
+   * POST /notifications/:userId/:notificationId/read
+   * Marcar uma notificação como lida
+   */
+  markAsRead = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(
+        InboxNotificationParamsSchema,
+        req.params
+      );
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, notificationId } = validation.data;
+      await this.inboxService.markAsRead(userId, notificationId);
+
+      res.status(200).json({
+        success: true,
+        message: "Notificação marcada como lida",
+      });
+    } catch (error) {
+      this.sendError(res, "Erro ao marcar notificação como lida", error);
+    }
+  };
+
+  private sendError(res: Response, message: string, error: unknown): void {
+    logger.error(message, {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      error: message,
+      details: error instanceof Error ? error.message : "Erro desconhecido",
+    });
+  }
+}
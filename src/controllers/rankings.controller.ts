@@ -0,0 +1,239 @@
+import type { Request, Response } from "express";
+import { isValidRankingPeriodKey, type RankingPeriod } from "../models/Ranking";
+import { RankingService } from "../services/ranking.service";
+import { logger } from "../utils/logger";
+import {
+  MonthlyRankingParamsSchema,
+  RankingQuerySchema,
+  UserRankPositionParamsSchema,
+  UserRankPositionQuerySchema,
+  YearlyRankingParamsSchema,
+  validateSchema,
+} from "../utils/validators";
+
+/**
+ * Rankings Controller
+ *
+ * Endpoints de leaderboard mensal e anual baseados no XP ganho no período.
+ * As leituras usam o snapshot salvo em `rankings/{period}_{periodKey}`.
+ */
+export class RankingsController {
+  private readonly rankingService: RankingService;
+
+  constructor() {
+    this.rankingService = new RankingService();
+  }
+
+  /**
+   * GET /rankings/monthly/:date?
+   * Ranking mensal (padrão: mês atual)
+   */
+  getMonthlyRanking = async (req: Request, res: Response): Promise<void> => {
+    try {
+      logger.debug("GET /rankings/monthly - Buscando ranking mensal", {
+        params: req.params,
+        query: req.query,
+      });
+
+      const paramValidation = validateSchema(
+        MonthlyRankingParamsSchema,
+        req.params
+      );
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const queryValidation = validateSchema(RankingQuerySchema, req.query);
+      if (!queryValidation.success) {
+        res.status(400).json({
+          error: "Query params inválidos",
+          details: queryValidation.error,
+        });
+        return;
+      }
+
+      await this.sendRankingPage(
+        res,
+        "monthly",
+        paramValidation.data.date,
+        queryValidation.data.limit,
+        queryValidation.data.offset
+      );
+    } catch (error) {
+      logger.error("Erro ao buscar ranking mensal", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao buscar ranking mensal",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * GET /rankings/yearly/:year?
+   * Ranking anual (padrão: ano atual)
+   */
+  getYearlyRanking = async (req: Request, res: Response): Promise<void> => {
+    try {
+      logger.debug("GET /rankings/yearly - Buscando ranking anual", {
+        params: req.params,
+        query: req.query,
+      });
+
+      const paramValidation = validateSchema(
+        YearlyRankingParamsSchema,
+        req.params
+      );
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const queryValidation = validateSchema(RankingQuerySchema, req.query);
+      if (!queryValidation.success) {
+        res.status(400).json({
+          error: "Query params inválidos",
+          details: queryValidation.error,
+        });
+        return;
+      }
+
+      await this.sendRankingPage(
+        res,
+        "yearly",
+        paramValidation.data.year,
+        queryValidation.data.limit,
+        queryValidation.data.offset
+      );
+    } catch (error) {
+      logger.error("Erro ao buscar ranking anual", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao buscar ranking anual",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * GET /rankings/user/:userId/position/:period
+   * Posição do usuário no ranking do período e seus vizinhos
+   */
+  getUserPosition = async (req: Request, res: Response): Promise<void> => {
+    try {
+      logger.debug("GET /rankings/user/:userId/position/:period", {
+        params: req.params,
+        query: req.query,
+      });
+
+      const paramValidation = validateSchema(
+        UserRankPositionParamsSchema,
+        req.params
+      );
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const queryValidation = validateSchema(
+        UserRankPositionQuerySchema,
+        req.query
+      );
+      if (!queryValidation.success) {
+        res.status(400).json({
+          error: "Query params inválidos",
+          details: queryValidation.error,
+        });
+        return;
+      }
+
+      const { userId, period } = paramValidation.data;
+      const { periodKey } = queryValidation.data;
+
+      if (periodKey && !isValidRankingPeriodKey(period, periodKey)) {
+        res.status(400).json({
+          error: "Query params inválidos",
+          details: `periodKey "${periodKey}" não corresponde ao período ${period}`,
+        });
+        return;
+      }
+
+      const position = await this.rankingService.getUserRankPosition(
+        userId,
+        period,
+        periodKey
+      );
+
+      logger.info("Posição do usuário no ranking recuperada", {
+        userId,
+        period,
+        periodKey: position.periodKey,
+        position: position.position,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: position,
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar posição do usuário no ranking", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao buscar posição do usuário no ranking",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  private async sendRankingPage(
+    res: Response,
+    period: RankingPeriod,
+    periodKey: string | undefined,
+    limit: number | undefined,
+    offset: number | undefined
+  ): Promise<void> {
+    const page = await this.rankingService.getRankingPage(
+      period,
+      periodKey,
+      limit,
+      offset
+    );
+
+    logger.info("Ranking recuperado com sucesso", {
+      rankingId: page.ranking.id,
+      totalParticipants: page.ranking.totalParticipants,
+      returned: page.entries.length,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        period: page.ranking.periodKey,
+        type: page.ranking.period,
+        entries: page.entries,
+        totalParticipants: page.ranking.totalParticipants,
+        lastUpdated: page.ranking.lastUpdated,
+        hasMore: page.hasMore,
+      },
+    });
+  }
+}
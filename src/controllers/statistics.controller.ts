@@ -0,0 +1,228 @@
+import type { Request, Response } from "express";
+import { AppError } from "../middlewares/error.middleware";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { DailyGoalService } from "../services/daily-goal.service";
+import { StatisticsService } from "../services/statistics.service";
+import { StreakService } from "../services/streak.service";
+import { logger } from "../utils/logger";
+import { getDateStringInTimeZone } from "../utils/timezone";
+import {
+  DeckStatisticsParamsSchema,
+  StatisticsQuerySchema,
+  StudySessionBodySchema,
+  UserIdParamSchema,
+  validateSchema,
+} from "../utils/validators";
+
+/**
+ * Statistics Controller
+ *
+ * Endpoints de estatísticas de estudo por usuário e por deck,
+ * agregadas a partir de `studySessions` e das transações de XP.
+ */
+export class StatisticsController {
+  private readonly statisticsService: StatisticsService;
+  private readonly dailyGoalService: DailyGoalService;
+  private readonly streakService: StreakService;
+  private readonly firestoreService: GamificationRepository;
+
+  constructor() {
+    this.statisticsService = new StatisticsService();
+    this.dailyGoalService = new DailyGoalService();
+    this.streakService = new StreakService();
+    this.firestoreService = getRepository();
+  }
+
+  /**
+   * GET /statistics/deck/:userId/:deckId?
+   * Estatísticas de um deck ou de todos os decks estudados no período
+   */
+  getDeckStatistics = async (req: Request, res: Response): Promise<void> => {
+    try {
+      logger.debug("GET /statistics/deck - Buscando estatísticas de deck", {
+        params: req.params,
+        query: req.query,
+      });
+
+      const paramValidation = validateSchema(
+        DeckStatisticsParamsSchema,
+        req.params
+      );
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const queryValidation = validateSchema(StatisticsQuerySchema, req.query);
+      if (!queryValidation.success) {
+        res.status(400).json({
+          error: "Query params inválidos",
+          details: queryValidation.error,
+        });
+        return;
+      }
+
+      const { userId, deckId } = paramValidation.data;
+      const { period } = queryValidation.data;
+
+      const data = deckId
+        ? await this.statisticsService.getDeckStatistics(userId, deckId, period)
+        : await this.statisticsService.getAllDecksStatistics(userId, period);
+
+      logger.info("Estatísticas de deck recuperadas", {
+        userId,
+        deckId: deckId ?? "all",
+        period: period ?? "month",
+      });
+
+      res.status(200).json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar estatísticas de deck", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao buscar estatísticas de deck",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * GET /statistics/user/:userId
+   * Estatísticas gerais do usuário no período
+   */
+  getUserStatistics = async (req: Request, res: Response): Promise<void> => {
+    try {
+      logger.debug("GET /statistics/user - Buscando estatísticas do usuário", {
+        params: req.params,
+        query: req.query,
+      });
+
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const queryValidation = validateSchema(StatisticsQuerySchema, req.query);
+      if (!queryValidation.success) {
+        res.status(400).json({
+          error: "Query params inválidos",
+          details: queryValidation.error,
+        });
+        return;
+      }
+
+      const { userId } = paramValidation.data;
+      const statistics = await this.statisticsService.getUserStatistics(
+        userId,
+        queryValidation.data.period
+      );
+
+      logger.info("Estatísticas do usuário recuperadas", {
+        userId,
+        period: statistics.period,
+        totalSessions: statistics.totalSessions,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: statistics,
+      });
+    } catch (error) {
+      logger.error("Erro ao buscar estatísticas do usuário", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(500).json({
+        error: "Erro ao buscar estatísticas do usuário",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+
+  /**
+   * PUT /statistics/session/:userId
+   * Registra uma sessão de estudo
+   */
+  updateSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      logger.debug("PUT /statistics/session - Registrando sessão de estudo", {
+        params: req.params,
+        body: req.body,
+      });
+
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(StudySessionBodySchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { userId } = paramValidation.data;
+      const session = await this.statisticsService.recordSession(
+        userId,
+        bodyValidation.data
+      );
+
+      // Minutos estudados alimentam metas diárias em minutos (dia no fuso do usuário)
+      const sessionDate = getDateStringInTimeZone(
+        bodyValidation.data.startedAt ?? new Date(),
+        await this.firestoreService.getUserTimezone(userId)
+      );
+      const dailyProgress = await this.dailyGoalService.syncStudyMinutes(
+        userId,
+        sessionDate
+      );
+      const streakResult = await this.streakService.checkAndUpdateDailyStreak(
+        userId,
+        sessionDate
+      );
+
+      res.status(200).json({
+        success: true,
+        data: session,
+        dailyProgress: {
+          date: dailyProgress.date,
+          cardsReviewed: dailyProgress.cardsReviewed,
+          minutesStudied: dailyProgress.minutesStudied ?? 0,
+          goalMet: dailyProgress.goalMet,
+        },
+        streak: streakResult?.streakData.current ?? null,
+      });
+    } catch (error) {
+      logger.error("Erro ao registrar sessão de estudo", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        error: "Erro ao registrar sessão de estudo",
+        details: error instanceof Error ? error.message : "Erro desconhecido",
+      });
+    }
+  };
+}
@@ -0,0 +1,349 @@
+import type { Request, Response } from "express";
+import { AppError } from "../middlewares/error.middleware";
+import { StudyGroupService } from "../services/study-group.service";
+import { logger } from "../utils/logger";
+import {
+  CreateStudyGroupSchema,
+  StudyGroupInviteSchema,
+  StudyGroupMemberParamsSchema,
+  StudyGroupParamsSchema,
+  UpdateStudyGroupSchema,
+  UserIdParamSchema,
+  validateSchema,
+} from "../utils/validators";
+
+/**
+ * Study Groups Controller
+ *
+ * Endpoints de grupos de estudo: criação, convites, membros, meta semanal
+ * de XP e leaderboard do grupo.
+ */
+export class StudyGroupsController {
+  private readonly studyGroupService: StudyGroupService;
+
+  constructor() {
+    this.studyGroupService = new StudyGroupService();
+  }
+
+  /**
+   * GET /groups/:userId
+   * Grupos do usuário e convites pendentes
+   */
+  getUserGroups = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(UserIdParamSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const groups = await this.studyGroupService.getUserGroups(
+        validation.data.userId
+      );
+
+      res.status(200).json({ success: true, data: groups });
+    } catch (error) {
+      this.sendError(res, "Erro ao buscar grupos de estudo", error);
+    }
+  };
+
+  /**
+   * POST /groups/:userId
+   * Criar grupo de estudo (o usuário é o dono)
+   */
+  createGroup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(UserIdParamSchema, req.params);
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(CreateStudyGroupSchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { userId } = paramValidation.data;
+      const group = await this.studyGroupService.createGroup(
+        userId,
+        bodyValidation.data
+      );
+
+      logger.info("Grupo de estudo criado", { userId, groupId: group.id });
+
+      res.status(201).json({ success: true, data: group });
+    } catch (error) {
+      this.sendError(res, "Erro ao criar grupo de estudo", error);
+    }
+  };
+
+  /**
+   * GET /groups/:userId/:groupId
+   * Meta semanal e leaderboard do grupo
+   */
+  getGroupProgress = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(StudyGroupParamsSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, groupId } = validation.data;
+      const progress = await this.studyGroupService.getGroupProgress(
+        userId,
+        groupId
+      );
+
+      res.status(200).json({ success: true, data: progress });
+    } catch (error) {
+      this.sendError(res, "Erro ao buscar progresso do grupo", error);
+    }
+  };
+
+  /**
+   * PATCH /groups/:userId/:groupId
+   * Atualizar nome, descrição ou meta semanal (apenas o dono)
+   */
+  updateGroup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(
+        StudyGroupParamsSchema,
+        req.params
+      );
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(UpdateStudyGroupSchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { userId, groupId } = paramValidation.data;
+      const group = await this.studyGroupService.updateGroup(
+        userId,
+        groupId,
+        bodyValidation.data
+      );
+
+      logger.info("Grupo de estudo atualizado", { userId, groupId });
+
+      res.status(200).json({ success: true, data: group });
+    } catch (error) {
+      this.sendError(res, "Erro ao atualizar grupo de estudo", error);
+    }
+  };
+
+  /**
+   * POST /groups/:userId/:groupId/invites
+   * Convidar usuário para o grupo
+   */
+  inviteMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paramValidation = validateSchema(
+        StudyGroupParamsSchema,
+        req.params
+      );
+      if (!paramValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: paramValidation.error,
+        });
+        return;
+      }
+
+      const bodyValidation = validateSchema(StudyGroupInviteSchema, req.body);
+      if (!bodyValidation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: bodyValidation.error,
+        });
+        return;
+      }
+
+      const { userId, groupId } = paramValidation.data;
+      const { inviteeId } = bodyValidation.data;
+      const group = await this.studyGroupService.inviteMember(
+        userId,
+        groupId,
+        inviteeId
+      );
+
+      logger.info("Convite para grupo de estudo enviado", {
+        userId,
+        groupId,
+        inviteeId,
+      });
+
+      res.status(201).json({ success: true, data: group });
+    } catch (error) {
+      this.sendError(res, "Erro ao convidar para o grupo", error);
+    }
+  };
+
+  /**
+   * POST /groups/:userId/:groupId/join
+   * Aceitar convite e entrar no grupo
+   */
+  joinGroup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(StudyGroupParamsSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, groupId } = validation.data;
+      const group = await this.studyGroupService.joinGroup(userId, groupId);
+
+      logger.info("Usuário entrou no grupo de estudo", { userId, groupId });
+
+      res.status(200).json({ success: true, data: group });
+    } catch (error) {
+      this.sendError(res, "Erro ao entrar no grupo", error);
+    }
+  };
+
+  /**
+   * POST /groups/:userId/:groupId/decline
+   * Recusar convite
+   */
+  declineInvite = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(StudyGroupParamsSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, groupId } = validation.data;
+      await this.studyGroupService.declineInvite(userId, groupId);
+
+      logger.info("Convite para grupo de estudo recusado", {
+        userId,
+        groupId,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Convite recusado",
+      });
+    } catch (error) {
+      this.sendError(res, "Erro ao recusar convite do grupo", error);
+    }
+  };
+
+  /**
+   * POST /groups/:userId/:groupId/leave
+   * Sair do grupo
+   */
+  leaveGroup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(StudyGroupParamsSchema, req.params);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, groupId } = validation.data;
+      const group = await this.studyGroupService.leaveGroup(userId, groupId);
+
+      logger.info("Usuário saiu do grupo de estudo", {
+        userId,
+        groupId,
+        groupDeleted: group === null,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: group
+          ? "Você saiu do grupo"
+          : "Você saiu e o grupo foi apagado",
+        data: group,
+      });
+    } catch (error) {
+      this.sendError(res, "Erro ao sair do grupo", error);
+    }
+  };
+
+  /**
+   * DELETE /groups/:userId/:groupId/members/:memberId
+   * Remover membro ou cancelar convite (apenas o dono)
+   */
+  removeMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchema(
+        StudyGroupMemberParamsSchema,
+        req.params
+      );
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Parâmetros inválidos",
+          details: validation.error,
+        });
+        return;
+      }
+
+      const { userId, groupId, memberId } = validation.data;
+      const group = await this.studyGroupService.removeMember(
+        userId,
+        groupId,
+        memberId
+      );
+
+      logger.info("Membro removido do grupo de estudo", {
+        userId,
+        groupId,
+        memberId,
+      });
+
+      res.status(200).json({ success: true, data: group });
+    } catch (error) {
+      this.sendError(res, "Erro ao remover membro do grupo", error);
+    }
+  };
+
+  private sendError(res: Response, message: string, error: unknown): void {
+    logger.error(message, {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      error: message,
+      details: error instanceof Error ? error.message : "Erro desconhecido",
+    });
+  }
+}
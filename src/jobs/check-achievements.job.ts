@@ -1,7 +1,8 @@
 import cron from "node-cron";
 import { AchievementService } from "../services/achievement.service";
-import { FirestoreService } from "../services/firestore.service";
+import { getRepository } from "../repositories";
 import { logger } from "../utils/logger";
+import { runWithRequestContext, SYSTEM_ACTOR } from "../utils/request-context";
 
 /**
  * Cron Job: Check Achievements
@@ -18,7 +19,7 @@ import { logger } from "../utils/logger";
  */
 
 const achievementService = new AchievementService();
-const firestoreService = new FirestoreService();
+const firestoreService = getRepository();
 
 /**
  * Executa a verificação de conquistas para todos os usuários
@@ -106,7 +107,10 @@ export const scheduleCheckAchievementsJob = (): void => {
     "0 * * * *",
     async () => {
       try {
-        await executeCheckAchievements();
+        await runWithRequestContext(
+          { actor: SYSTEM_ACTOR, endpoint: "job:check-achievements" },
+          executeCheckAchievements
+        );
       } catch (err) {
         logger.error("❌ [CRON] Falha na execução do check achievements job:", {
           error: err instanceof Error ? err.message : String(err),
@@ -0,0 +1,103 @@
+import cron from "node-cron";
+import { StudyGroupService } from "../services/study-group.service";
+import { logger } from "../utils/logger";
+import { runWithRequestContext, SYSTEM_ACTOR } from "../utils/request-context";
+
+/**
+ * Cron Job: Check Group Goals
+ *
+ * Execução: A cada 15 minutos - Horário de Brasília
+ * Timezone: America/Sao_Paulo
+ *
+ * Responsabilidades:
+ * 1. Somar o XP semanal dos membros de cada grupo de estudo
+ * 2. Conceder o bônus de meta (XPSource.GROUP_GOAL) aos membros dos grupos
+ *    que atingiram a meta e verificar as conquistas de grupo
+ * 3. Registrar a meta da semana apenas depois de todos os bônus concedidos
+ *    (falhas ficam pendentes e são tentadas de novo na execução seguinte)
+ * 4. No primeiro dia da semana, fechar também a semana anterior
+ */
+
+const studyGroupService = new StudyGroupService();
+
+// Evita duas execuções simultâneas sobre as mesmas metas pendentes
+let isRunning = false;
+
+/**
+ * Verifica as metas semanais de todos os grupos
+ */
+export const executeCheckGroupGoals = async (): Promise<void> => {
+  if (isRunning) {
+    logger.warn(
+      "⚠️ [CRON] Verificação de metas de grupo anterior ainda em andamento, execução ignorada"
+    );
+    return;
+  }
+
+  isRunning = true;
+  const startTime = Date.now();
+  logger.info("👥 [CRON] Iniciando verificação de metas dos grupos...");
+
+  try {
+    const result = await studyGroupService.checkWeeklyGoals();
+
+    logger.info("✅ [CRON] Verificação de metas dos grupos concluída", {
+      groupsChecked: result.groupsChecked,
+      completed: result.completed,
+      pending: result.pending.length,
+      duration: `${Date.now() - startTime}ms`,
+    });
+
+    if (result.pending.length > 0) {
+      logger.warn(
+        `⚠️ [CRON] ${result.pending.length} meta(s) com bônus pendente serão tentadas na próxima execução`,
+        { pending: result.pending.slice(0, 10) }
+      );
+    }
+  } catch (error) {
+    logger.error("❌ [CRON] Erro crítico ao verificar metas dos grupos", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      duration: `${Date.now() - startTime}ms`,
+    });
+
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+};
+
+/**
+ * Agenda o cron job para executar a cada 15 minutos
+ */
+export const scheduleCheckGroupGoals = (): void => {
+  cron.schedule(
+    "*/15 * * * *",
+    async () => {
+      try {
+        await runWithRequestContext(
+          { actor: SYSTEM_ACTOR, endpoint: "job:check-group-goals" },
+          executeCheckGroupGoals
+        );
+      } catch (error) {
+        logger.error(
+          "[CRON] Falha na execução do cron job de metas dos grupos",
+          {
+            error: error instanceof Error ? error.message : String(error),
+          }
+        );
+      }
+    },
+    {
+      timezone: "America/Sao_Paulo",
+    }
+  );
+
+  logger.info("⏰ [CRON] Job de metas dos grupos agendado", {
+    pattern: "*/15 * * * *",
+    timezone: "America/Sao_Paulo",
+    description: "Executa a cada 15 minutos",
+  });
+};
+
+export default scheduleCheckGroupGoals;
@@ -0,0 +1,77 @@
+import cron from "node-cron";
+import { INBOX_CONFIG } from "../config/constants";
+import { NotificationInboxService } from "../services/notification-inbox.service";
+import { logger } from "../utils/logger";
+import { runWithRequestContext, SYSTEM_ACTOR } from "../utils/request-context";
+
+/**
+ * Cron Job: Cleanup Notifications
+ *
+ * Execução: Diariamente às 03:45 UTC
+ *
+ * Responsabilidades:
+ * 1. Apagar da caixa de entrada as notificações expiradas
+ *    (criadas há mais de INBOX_CONFIG.TTL_DAYS dias)
+ */
+
+const inboxService = new NotificationInboxService();
+
+/**
+ * Apaga as notificações expiradas de todos os usuários
+ */
+export const executeCleanupNotifications = async (): Promise<void> => {
+  const startTime = Date.now();
+  logger.info("🧹 [CRON] Iniciando limpeza da caixa de entrada...");
+
+  try {
+    const deleted = await inboxService.cleanupExpired();
+
+    logger.info("✅ [CRON] Limpeza da caixa de entrada concluída", {
+      deleted,
+      ttlDays: INBOX_CONFIG.TTL_DAYS,
+      duration: `${Date.now() - startTime}ms`,
+    });
+  } catch (error) {
+    logger.error("❌ [CRON] Erro crítico ao limpar a caixa de entrada", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      duration: `${Date.now() - startTime}ms`,
+    });
+
+    throw error;
+  }
+};
+
+/**
+ * Configuração do Cron Job
+ *
+ * Pattern: '45 3 * * *' (03:45 UTC, fora dos minutos usados pelos outros jobs)
+ */
+export const scheduleCleanupNotifications = (): void => {
+  cron.schedule(
+    "45 3 * * *",
+    async () => {
+      try {
+        await runWithRequestContext(
+          { actor: SYSTEM_ACTOR, endpoint: "job:cleanup-notifications" },
+          executeCleanupNotifications
+        );
+      } catch (error) {
+        logger.error("[CRON] Falha na execução do cron job de limpeza", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+    {
+      timezone: "UTC",
+    }
+  );
+
+  logger.info("⏰ [CRON] Job de limpeza da caixa de entrada agendado", {
+    pattern: "45 3 * * *",
+    timezone: "UTC",
+    description: "Apaga notificações expiradas",
+  });
+};
+
+export default scheduleCleanupNotifications;
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { executeRecomputeLevels } from "./recompute-levels.job";
+import { XPService } from "../services/xp.service";
+import { FirestoreService } from "../services/firestore.service";
+
+// Mock do logger
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// Mock do XPService
+vi.mock("../services/xp.service", () => {
+  const XPService = vi.fn();
+  XPService.prototype.recalculateLevel = vi.fn();
+  return { XPService };
+});
+
+// Mock do FirestoreService
+vi.mock("../services/firestore.service", () => {
+  const FirestoreService = vi.fn();
+  FirestoreService.prototype.getAllUserIds = vi.fn();
+  return { FirestoreService };
+});
+
+const recalculation = (userId: string, changed: boolean) => ({
+  userId,
+  changed,
+  before: { level: 3, currentXP: 100 },
+  after: changed ? { level: 2, currentXP: 600 } : { level: 3, currentXP: 100 },
+});
+
+describe("Recompute Levels Job", () => {
+  let mockRecalculateLevel: ReturnType<typeof vi.fn>;
+  let mockGetAllUserIds: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRecalculateLevel = vi.fn();
+    mockGetAllUserIds = vi.fn();
+    (XPService as any).prototype.recalculateLevel = mockRecalculateLevel;
+    (FirestoreService as any).prototype.getAllUserIds = mockGetAllUserIds;
+  });
+
+  it("deve recalcular todos os usuários e contar as mudanças", async () => {
+    mockGetAllUserIds.mockResolvedValue(["user1", "user2", "user3"]);
+    mockRecalculateLevel.mockImplementation(async (userId: string) =>
+      recalculation(userId, userId !== "user2")
+    );
+
+    const result = await executeRecomputeLevels();
+
+    expect(mockRecalculateLevel).toHaveBeenCalledWith("user1", {
+      dryRun: false,
+    });
+    expect(result).toMatchObject({
+      dryRun: false,
+      totalProcessed: 3,
+      updated: 2,
+      unchanged: 1,
+      errors: [],
+    });
+    expect(result.sample.map((item) => item.userId)).toEqual([
+      "user1",
+      "user3",
+    ]);
+  });
+
+  it("deve repassar o dry-run e continuar após erros", async () => {
+    mockGetAllUserIds.mockResolvedValue(["user1", "user2"]);
+    mockRecalculateLevel
+      .mockRejectedValueOnce(new Error("Falha de leitura"))
+      .mockResolvedValueOnce(recalculation("user2", true));
+
+    const result = await executeRecomputeLevels({ dryRun: true });
+
+    expect(mockRecalculateLevel).toHaveBeenLastCalledWith("user2", {
+      dryRun: true,
+    });
+    expect(result.totalProcessed).toBe(1);
+    expect(result.updated).toBe(1);
+    expect(result.errors).toEqual([
+      "Erro ao recalcular nível do usuário user1: Falha de leitura",
+    ]);
+  });
+});
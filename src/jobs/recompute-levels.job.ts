@@ -0,0 +1,110 @@
+import { getRepository } from "../repositories";
+import {
+  XPService,
+  type LevelRecalculationResult,
+} from "../services/xp.service";
+import { logger } from "../utils/logger";
+import { runWithRequestContext, SYSTEM_ACTOR } from "../utils/request-context";
+
+/**
+ * Job de migração: Recompute Levels
+ *
+ * Execução: manual, depois de alterar LEVEL_CURVE, LEVEL_CAP ou LEVEL_PRESTIGE_XP
+ *   npm run levels:recompute
+ *   npm run levels:recompute -- --dry-run   (apenas relatório)
+ *
+ * Responsabilidades:
+ * 1. Buscar todos os usuários
+ * 2. Recalcular level/currentXP a partir do totalXP com a curva atual
+ * 3. Gravar (e auditar) apenas os usuários cujo nível ou XP atual mudou
+ */
+
+const xpService = new XPService();
+const firestoreService = getRepository();
+
+// Quantidade de mudanças incluídas no resultado (amostra para conferência)
+const SAMPLE_SIZE = 20;
+
+export interface RecomputeLevelsResult {
+  dryRun: boolean;
+  totalProcessed: number;
+  updated: number;
+  unchanged: number;
+  errors: string[];
+  sample: LevelRecalculationResult[];
+}
+
+/**
+ * Recalcula o nível de todos os usuários
+ */
+export const executeRecomputeLevels = async ({
+  dryRun = false,
+}: { dryRun?: boolean } = {}): Promise<RecomputeLevelsResult> => {
+  const startTime = Date.now();
+  logger.info("📈 [JOB] Iniciando recálculo de níveis...", { dryRun });
+
+  const result: RecomputeLevelsResult = {
+    dryRun,
+    totalProcessed: 0,
+    updated: 0,
+    unchanged: 0,
+    errors: [],
+    sample: [],
+  };
+
+  const allUserIds = await firestoreService.getAllUserIds();
+
+  for (const userId of allUserIds) {
+    try {
+      const recalculation = await xpService.recalculateLevel(userId, {
+        dryRun,
+      });
+      result.totalProcessed++;
+
+      if (!recalculation.changed) {
+        result.unchanged++;
+        continue;
+      }
+
+      result.updated++;
+      if (result.sample.length < SAMPLE_SIZE) {
+        result.sample.push(recalculation);
+      }
+    } catch (err) {
+      const errorMsg = `Erro ao recalcular nível do usuário ${userId}: ${
+        err instanceof Error ? err.message : String(err)
+      }`;
+      result.errors.push(errorMsg);
+      logger.error(`❌ [JOB] ${errorMsg}`);
+    }
+  }
+
+  logger.info("✅ [JOB] Recálculo de níveis concluído", {
+    dryRun,
+    totalProcessed: result.totalProcessed,
+    updated: result.updated,
+    unchanged: result.unchanged,
+    errors: result.errors.length,
+    duration: `${Date.now() - startTime}ms`,
+  });
+
+  return result;
+};
+
+if (require.main === module) {
+  runWithRequestContext(
+    { actor: SYSTEM_ACTOR, endpoint: "job:recompute-levels" },
+    () => executeRecomputeLevels({ dryRun: process.argv.includes("--dry-run") })
+  )
+    .then((result) => {
+      logger.info("📋 [JOB] Resultado do recálculo de níveis", { ...result });
+      process.exit(result.errors.length ? 1 : 0);
+    })
+    .catch((error) => {
+      logger.error("🔥 [JOB] Falha no recálculo de níveis", {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      process.exit(1);
+    });
+}
@@ -0,0 +1,98 @@
+import cron from "node-cron";
+import { ReminderService } from "../services/reminder.service";
+import { logger } from "../utils/logger";
+import { runWithRequestContext, SYSTEM_ACTOR } from "../utils/request-context";
+
+/**
+ * Cron Job: Send Reminders
+ *
+ * Execução: De hora em hora (minuto 30)
+ * Timezone: fuso de cada usuário (sem fuso configurado: DEFAULT_TIMEZONE)
+ *
+ * Responsabilidades:
+ * 1. Lembrete de estudo na hora habitual do usuário (sessões dos últimos
+ *    14 dias), se a meta diária de hoje ainda não foi batida
+ * 2. Aviso de streak em risco às 20h locais, se o streak atual é maior que
+ *    zero e a meta de hoje ainda não foi batida
+ * 3. Limites de frequência: um envio por tipo por dia, no máximo 5 por
+ *    semana e 3 horas entre lembretes
+ */
+
+const reminderService = new ReminderService();
+
+const BATCH_SIZE = 20; // Usuários por batch
+const BATCH_DELAY_MS = 1000; // 1 segundo entre batches
+
+/**
+ * Envia os lembretes devidos na hora atual
+ */
+export const executeSendReminders = async (): Promise<void> => {
+  const startTime = Date.now();
+  logger.info("🔔 [CRON] Iniciando envio de lembretes de estudo...");
+
+  try {
+    const result = await reminderService.processReminders({
+      batchSize: BATCH_SIZE,
+      batchDelayMs: BATCH_DELAY_MS,
+    });
+
+    logger.info("✅ [CRON] Envio de lembretes concluído", {
+      totalProcessed: result.totalProcessed,
+      studyReminders: result.studyReminders,
+      streakReminders: result.streakReminders,
+      capped: result.capped,
+      errors: result.errors.length,
+      duration: `${Date.now() - startTime}ms`,
+    });
+
+    if (result.errors.length > 0) {
+      logger.warn(
+        `⚠️ [CRON] Envio de lembretes concluído com ${result.errors.length} erro(s)`,
+        { errors: result.errors }
+      );
+    }
+  } catch (error) {
+    logger.error("❌ [CRON] Erro crítico ao enviar lembretes", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      duration: `${Date.now() - startTime}ms`,
+    });
+
+    throw error;
+  }
+};
+
+/**
+ * Configuração do Cron Job
+ *
+ * Pattern: '30 * * * *' (minuto 30 de cada hora, fora do minuto 0 usado
+ * pelo job de streaks). A hora local de cada usuário decide o que é enviado.
+ */
+export const scheduleSendReminders = (): void => {
+  cron.schedule(
+    "30 * * * *",
+    async () => {
+      try {
+        await runWithRequestContext(
+          { actor: SYSTEM_ACTOR, endpoint: "job:send-reminders" },
+          executeSendReminders
+        );
+      } catch (error) {
+        logger.error("[CRON] Falha na execução do cron job de lembretes", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+    {
+      timezone: "UTC",
+    }
+  );
+
+  logger.info("⏰ [CRON] Job de lembretes de estudo agendado de hora em hora", {
+    pattern: "30 * * * *",
+    timezone: "UTC",
+    description: "Lembrete na hora habitual e aviso de streak em risco",
+  });
+};
+
+export default scheduleSendReminders;
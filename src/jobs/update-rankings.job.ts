@@ -0,0 +1,92 @@
+import cron from "node-cron";
+import { RankingService } from "../services/ranking.service";
+import { logger } from "../utils/logger";
+
+/**
+ * Cron Job: Update Rankings
+ *
+ * Execução: A cada 15 minutos - Horário de Brasília
+ * Timezone: America/Sao_Paulo
+ *
+ * Responsabilidades:
+ * 1. Recalcular o ranking do mês atual
+ * 2. Recalcular o ranking do ano atual
+ * 3. Fechar o mês e o ano anteriores, se o último snapshot deles foi
+ *    calculado antes da virada do período
+ * 4. Salvar os snapshots em `rankings/{period}_{periodKey}`
+ *
+ * As leituras de leaderboard usam apenas esses snapshots e nunca varrem
+ * as transações de XP.
+ */
+
+const rankingService = new RankingService();
+
+/**
+ * Recalcula os rankings do mês e do ano atuais
+ */
+export const executeUpdateRankings = async (): Promise<void> => {
+  const startTime = Date.now();
+  logger.info("🏅 [CRON] Iniciando atualização de rankings...");
+
+  try {
+    const monthly = await rankingService.updateMonthlyRanking();
+    const yearly = await rankingService.updateYearlyRanking();
+    const finalized = [
+      await rankingService.finalizePreviousRanking("monthly"),
+      await rankingService.finalizePreviousRanking("yearly"),
+    ].filter((ranking) => ranking !== null);
+
+    logger.info("✅ [CRON] Atualização de rankings concluída com sucesso", {
+      monthly: {
+        period: monthly.periodKey,
+        totalParticipants: monthly.totalParticipants,
+      },
+      yearly: {
+        period: yearly.periodKey,
+        totalParticipants: yearly.totalParticipants,
+      },
+      finalized: finalized.map((ranking) => ranking.id),
+      duration: `${Date.now() - startTime}ms`,
+    });
+  } catch (error) {
+    logger.error("❌ [CRON] Erro crítico ao atualizar rankings", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+      duration: `${Date.now() - startTime}ms`,
+    });
+
+    throw error;
+  }
+};
+
+/**
+ * Agenda o cron job para executar a cada 15 minutos
+ */
+export const scheduleUpdateRankings = (): void => {
+  cron.schedule(
+    "*/15 * * * *",
+    async () => {
+      try {
+        await executeUpdateRankings();
+      } catch (error) {
+        logger.error(
+          "[CRON] Falha na execução do cron job de atualização de rankings",
+          {
+            error: error instanceof Error ? error.message : String(error),
+          }
+        );
+      }
+    },
+    {
+      timezone: "America/Sao_Paulo",
+    }
+  );
+
+  logger.info("⏰ [CRON] Job de atualização de rankings agendado", {
+    pattern: "*/15 * * * *",
+    timezone: "America/Sao_Paulo",
+    description: "Executa a cada 15 minutos",
+  });
+};
+
+export default scheduleUpdateRankings;
@@ -198,6 +198,40 @@ describe("Update Streaks Job", () => {
       );
     });
 
+    it("deve processar os usuários cujo dia local mudou, sem limite por execução", async () => {
+      mockUpdateAllStreaks.mockResolvedValue({
+        totalProcessed: 0,
+        incremented: 0,
+        reset: 0,
+        errors: [],
+      });
+
+      await executeUpdateStreaks();
+
+      expect(mockUpdateAllStreaks).toHaveBeenCalledWith(
+        expect.objectContaining({ onlyDayChanged: true })
+      );
+      expect(mockUpdateAllStreaks.mock.calls[0]?.[0]).not.toHaveProperty(
+        "maxUsers"
+      );
+    });
+
+    it("deve ignorar uma execução enquanto a anterior não terminou", async () => {
+      let finish: (value: unknown) => void = () => {};
+      mockUpdateAllStreaks.mockReturnValue(
+        new Promise((resolve) => {
+          finish = resolve;
+        })
+      );
+
+      const first = executeUpdateStreaks();
+      await executeUpdateStreaks();
+      finish({ totalProcessed: 0, incremented: 0, reset: 0, errors: [] });
+      await first;
+
+      expect(mockUpdateAllStreaks).toHaveBeenCalledTimes(1);
+    });
+
     it("deve registrar duração da execução", async () => {
       // Arrange
       const mockResult = {
@@ -1,25 +1,27 @@
 import cron from "node-cron";
 import { StreakService } from "../services/streak.service";
 import { logger } from "../utils/logger";
+import { runWithRequestContext, SYSTEM_ACTOR } from "../utils/request-context";
 
 /**
  * Cron Job: Update Streaks
  *
- * Execução: Diariamente à meia-noite (00:00) - Horário de Brasília
- * Timezone: America/Sao_Paulo
+ * Execução: De hora em hora (minuto 0)
+ * Timezone: fuso de cada usuário (sem fuso configurado: DEFAULT_TIMEZONE)
  *
  * Responsabilidades:
- * 1. Buscar todos os usuários com progresso
- * 2. Verificar meta diária de ontem (20 cards revisados)
+ * 1. Buscar os usuários cujo dia local mudou desde o último processamento
+ * 2. Verificar meta diária de ontem no fuso do usuário (meta em vigor para o usuário)
  * 3. Incrementar streak se meta foi atingida
- * 4. Resetar streak se meta não foi atingida
+ * 4. Resetar streak se meta não foi atingida (ou consumir um streak freeze equipado)
  * 5. Aplicar bônus de streak (7 dias = 200 XP, 30 dias = 300 XP)
  * 6. Registrar logs de execução
  *
  * OTIMIZAÇÃO PARA PLANO GRATUITO:
  * - Processa em batches de 10 usuários
  * - Aguarda 2 segundos entre batches
- * - Limite máximo de 100 usuários por execução
+ * - Percorre todos os usuários pendentes; se a execução for interrompida
+ *   (ex: cota esgotada), os restantes continuam pendentes na hora seguinte
  */
 
 const streakService = new StreakService();
@@ -27,7 +29,10 @@ const streakService = new StreakService();
 // Configurações para evitar estouro de cota
 const BATCH_SIZE = 10; // Usuários por batch
 const BATCH_DELAY_MS = 2000; // 2 segundos entre batches
-const MAX_USERS_PER_RUN = 100; // Limite máximo por execução
+
+// Evita duas execuções simultâneas: usuários ainda não marcados como
+// processados seriam selecionados pelas duas
+let isRunning = false;
 
 /**
  * Função para aguardar um tempo
@@ -35,14 +40,22 @@ const MAX_USERS_PER_RUN = 100; // Limite máximo por execução
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 /**
- * Executa a atualização de streaks de todos os usuários
- * Chamado pelo cron job à meia-noite
+ * Executa a atualização de streaks dos usuários cujo dia local terminou
+ * Chamado pelo cron job a cada hora
  */
 export const executeUpdateStreaks = async (): Promise<void> => {
+  if (isRunning) {
+    logger.warn(
+      "⚠️ [CRON] Atualização de streaks anterior ainda em andamento, execução ignorada"
+    );
+    return;
+  }
+
+  isRunning = true;
   const startTime = Date.now();
   logger.info("🔥 [CRON] Iniciando atualização de streaks...");
   logger.info(
-    `📊 [CRON] Configuração: batch=${BATCH_SIZE}, delay=${BATCH_DELAY_MS}ms, maxUsers=${MAX_USERS_PER_RUN}`
+    `📊 [CRON] Configuração: batch=${BATCH_SIZE}, delay=${BATCH_DELAY_MS}ms`
   );
 
   try {
@@ -51,7 +64,7 @@ export const executeUpdateStreaks = async (): Promise<void> => {
     const result = await streakService.updateAllStreaks({
       batchSize: BATCH_SIZE,
       batchDelayMs: BATCH_DELAY_MS,
-      maxUsers: MAX_USERS_PER_RUN,
+      onlyDayChanged: true,
     });
 
     const duration = Date.now() - startTime;
@@ -62,6 +75,7 @@ export const executeUpdateStreaks = async (): Promise<void> => {
       incremented: result.incremented,
       reset: result.reset,
       started: result.started,
+      frozen: result.frozen,
       skipped: result.skipped,
       errors: result.errors.length,
       duration: `${duration}ms`,
@@ -70,7 +84,7 @@ export const executeUpdateStreaks = async (): Promise<void> => {
     // Se houver usuários pulados, avisar
     if (result.skipped > 0) {
       logger.warn(
-        `⚠️ [CRON] ${result.skipped} usuários foram pulados (limite de ${MAX_USERS_PER_RUN} por execução)`
+        `⚠️ [CRON] ${result.skipped} usuários foram pulados e serão processados na próxima execução`
       );
     }
 
@@ -111,28 +125,35 @@ export const executeUpdateStreaks = async (): Promise<void> => {
 
     // Re-lança o erro para que o sistema de monitoramento possa capturar
     throw error;
+  } finally {
+    isRunning = false;
   }
 };
 
 /**
  * Configuração do Cron Job
  *
- * Pattern: '0 0 * * *'
- * - Segundo: 0
+ * Pattern: '0 * * * *'
  * - Minuto: 0
- * - Hora: 0 (meia-noite)
+ * - Hora: * (todas as horas)
  * - Dia do mês: * (todos os dias)
  * - Mês: * (todos os meses)
  * - Dia da semana: * (todos os dias da semana)
  *
- * Timezone: America/Sao_Paulo (Horário de Brasília)
+ * Timezone: UTC. A cada execução são processados apenas os usuários cujo
+ * dia local mudou desde o último processamento (fusos com deslocamento de
+ * meia hora ou com horário de verão são processados na hora cheia seguinte
+ * à virada do dia).
  */
 export const scheduleUpdateStreaks = (): void => {
   cron.schedule(
-    "0 0 * * *",
+    "0 * * * *",
     async () => {
       try {
-        await executeUpdateStreaks();
+        await runWithRequestContext(
+          { actor: SYSTEM_ACTOR, endpoint: "job:update-streaks" },
+          executeUpdateStreaks
+        );
       } catch (error) {
         // Erro já foi logado em executeUpdateStreaks
         // Apenas garantir que não quebre o cron job
@@ -145,16 +166,16 @@ export const scheduleUpdateStreaks = (): void => {
       }
     },
     {
-      timezone: "America/Sao_Paulo",
+      timezone: "UTC",
     }
   );
 
   logger.info(
-    "⏰ [CRON] Job de atualização de streaks agendado para 00:00 (Brasília)",
+    "⏰ [CRON] Job de atualização de streaks agendado de hora em hora",
     {
-      pattern: "0 0 * * *",
-      timezone: "America/Sao_Paulo",
-      description: "Executa diariamente à meia-noite",
+      pattern: "0 * * * *",
+      timezone: "UTC",
+      description: "Processa usuários após a virada do dia no fuso de cada um",
     }
   );
 };
@@ -0,0 +1,180 @@
+import { generateKeyPairSync, sign, type KeyObject } from "node:crypto";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const API_TOKEN = "token-de-servico";
+const ISSUER = "https://securetoken.google.com/bmo-teste";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const createIdToken = (
+  claims: Record<string, unknown>,
+  key: KeyObject = privateKey
+) => {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode({
+    iss: ISSUER,
+    aud: "bmo-teste",
+    iat: nowSeconds,
+    exp: nowSeconds + 3600,
+    ...claims,
+  })}`;
+  const signature = sign("RSA-SHA256", Buffer.from(unsigned), key);
+
+  return `${unsigned}.${signature.toString("base64url")}`;
+};
+
+describe("authMiddleware com AUTH_MODE=firebase", () => {
+  const previousEnv = { ...process.env };
+  let server: Server;
+  let baseUrl: string;
+
+  const request = (path: string, token: string, init: RequestInit = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        "content-type": "application/json",
+        authorization: `Bearer ${token}`,
+        ...init.headers,
+      },
+    });
+
+  const reviewFor = (userId: string) => ({
+    method: "POST",
+    body: JSON.stringify({
+      userId,
+      cardId: "card-1",
+      deckId: "deck-1",
+      difficulty: "good",
+    }),
+  });
+
+  beforeAll(async () => {
+    process.env.STORAGE_BACKEND = "memory";
+    process.env.AUTH_MODE = "firebase";
+    process.env.GAMIFICATION_API_TOKEN = API_TOKEN;
+
+    const { KeyPairIdTokenVerifier, setIdTokenVerifier } = await import(
+      "../services/id-token.service"
+    );
+    setIdTokenVerifier(
+      new KeyPairIdTokenVerifier({
+        publicKey,
+        issuer: ISSUER,
+        audience: "bmo-teste",
+      })
+    );
+
+    const { default: app } = await import("../app");
+
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    process.env = previousEnv;
+  });
+
+  it("permite que o usuário acesse os próprios dados", async () => {
+    const token = createIdToken({ sub: "alice" });
+
+    const review = await request(
+      "/api/gamification/process-review",
+      token,
+      reviewFor("alice")
+    );
+    const daily = await request(
+      "/api/gamification/daily-progress/alice",
+      token
+    );
+
+    expect(review.status).toBe(200);
+    expect(daily.status).toBe(200);
+  });
+
+  it("rejeita userId de outro usuário no corpo e na rota", async () => {
+    const token = createIdToken({ sub: "alice" });
+
+    const review = await request(
+      "/api/gamification/process-review",
+      token,
+      reviewFor("bob")
+    );
+    const daily = await request("/api/gamification/daily-progress/bob", token);
+    const statistics = await request("/api/statistics/user/bob", token);
+
+    expect(review.status).toBe(403);
+    expect(daily.status).toBe(403);
+    expect(statistics.status).toBe(403);
+  });
+
+  it("permite acesso a outros usuários para admins e para o token de serviço", async () => {
+    const adminToken = createIdToken({ sub: "carol", role: "admin" });
+
+    const asService = await request(
+      "/api/gamification/process-review",
+      API_TOKEN,
+      reviewFor("bob")
+    );
+    const asAdmin = await request(
+      "/api/gamification/daily-progress/bob",
+      adminToken
+    );
+
+    expect(asService.status).toBe(200);
+    expect(asAdmin.status).toBe(200);
+  });
+
+  it("aplica o escopo do usuário ao user_id da query", async () => {
+    const token = createIdToken({ sub: "alice" });
+
+    const own = await request("/api/user/notification-preferences", token);
+    const other = await request(
+      "/api/user/notification-preferences?user_id=bob",
+      token
+    );
+
+    expect(own.status).toBe(200);
+    expect(
+      ((await own.json()) as { data: { userId: string } }).data.userId
+    ).toBe("alice");
+    expect(other.status).toBe(403);
+  });
+
+  it("restringe o broadcast a serviços e administradores", async () => {
+    const response = await request(
+      "/api/user/broadcast",
+      createIdToken({ sub: "alice" }),
+      {
+        method: "POST",
+        body: JSON.stringify({ title: "Oi", body: "Teste", pushType: 30 }),
+      }
+    );
+
+    expect(response.status).toBe(403);
+  });
+
+  it("rejeita tokens expirados ou assinados por outra chave", async () => {
+    const otherKey = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+    const expired = await request(
+      "/api/gamification/daily-progress/alice",
+      createIdToken({ sub: "alice", exp: Math.floor(Date.now() / 1000) - 60 })
+    );
+    const forged = await request(
+      "/api/gamification/daily-progress/alice",
+      createIdToken({ sub: "alice" }, otherKey.privateKey)
+    );
+
+    expect(expired.status).toBe(401);
+    expect(forged.status).toBe(401);
+  });
+});
@@ -1,5 +1,33 @@
-import type { Request, RequestHandler } from "express";
+import type { Request, RequestHandler, RequestParamHandler } from "express";
 import { authConfig } from "../config/auth.config";
+import { ADMIN_TOKEN_ACTOR } from "../models/AuditRecord";
+import { getIdTokenVerifier } from "../services/id-token.service";
+import { logger } from "../utils/logger";
+import { setRequestActor } from "../utils/request-context";
+
+/**
+ * service: token compartilhado (backend a backend)
+ * admin: usuário do Firebase com a custom claim role=admin
+ * user: usuário do Firebase, restrito ao próprio userId
+ */
+export type AuthRole = "service" | "admin" | "user";
+
+export interface AuthContext {
+  role: AuthRole;
+  // uid do Firebase Auth (null para o token de serviço)
+  uid: string | null;
+}
+
+// Actor registrado na auditoria para o token compartilhado
+const SERVICE_ACTOR = "service";
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
 
 function extractHeaderToken(request: Request): string | undefined {
   const headerToken = request.get(authConfig.headerName);
@@ -26,7 +54,31 @@ function extractHeaderToken(request: Request): string | undefined {
   return rawToken?.trim() || undefined;
 }
 
-export const authMiddleware: RequestHandler = (request, response, next) => {
+function resolveRole(claims: Record<string, unknown>): AuthRole {
+  const role = claims[authConfig.roleClaim];
+
+  if (role === "admin" || role === "service") {
+    return role;
+  }
+
+  return claims.admin === true ? "admin" : "user";
+}
+
+/**
+ * Identifica quem chama a API e guarda em request.auth.
+ * O token compartilhado vale como credencial de serviço; com AUTH_MODE=firebase,
+ * qualquer outro token é verificado como ID token do Firebase Auth.
+ */
+export const authMiddleware: RequestHandler = async (
+  request,
+  response,
+  next
+) => {
+  // Já autenticado por um middleware anterior (app e routers aplicam ambos)
+  if (request.auth) {
+    return next();
+  }
+
   const providedToken = extractHeaderToken(request);
 
   if (!providedToken) {
@@ -36,7 +88,29 @@ export const authMiddleware: RequestHandler = (request, response, next) => {
     });
   }
 
-  if (providedToken !== authConfig.token) {
+  if (providedToken === authConfig.token) {
+    request.auth = { role: "service", uid: null };
+    setRequestActor(SERVICE_ACTOR);
+    return next();
+  }
+
+  if (authConfig.mode !== "firebase") {
+    return response.status(401).json({
+      success: false,
+      error: "Token de autenticação inválido.",
+    });
+  }
+
+  try {
+    const { uid, claims } =
+      await getIdTokenVerifier().verifyIdToken(providedToken);
+    request.auth = { role: resolveRole(claims), uid };
+    setRequestActor(uid);
+  } catch (error) {
+    logger.warn("ID token rejeitado", {
+      path: request.path,
+      error: error instanceof Error ? error.message : String(error),
+    });
     return response.status(401).json({
       success: false,
       error: "Token de autenticação inválido.",
@@ -45,3 +119,123 @@ export const authMiddleware: RequestHandler = (request, response, next) => {
 
   return next();
 };
+
+/**
+ * Serviços e administradores podem agir em nome de qualquer usuário
+ */
+export function isPrivileged(auth: AuthContext | undefined): boolean {
+  return auth?.role === "service" || auth?.role === "admin";
+}
+
+function canAccessUser(request: Request, userId: unknown): boolean {
+  if (userId === undefined || userId === null || isPrivileged(request.auth)) {
+    return true;
+  }
+
+  return request.auth?.uid === String(userId).trim();
+}
+
+const forbiddenUserBody = {
+  success: false,
+  error: "Acesso negado aos dados de outro usuário.",
+} as const;
+
+/**
+ * Valida o parâmetro de rota :userId contra o usuário autenticado.
+ * Uso: router.param("userId", authorizeUserParam)
+ */
+export const authorizeUserParam: RequestParamHandler = (
+  request,
+  response,
+  next,
+  userId
+) => {
+  if (!canAccessUser(request, userId)) {
+    response.status(403).json(forbiddenUserBody);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Valida o userId (ou user_id) enviado no corpo ou na query contra o usuário
+ * autenticado
+ */
+export const userScopeMiddleware: RequestHandler = (
+  request,
+  response,
+  next
+) => {
+  const body = request.body as Record<string, unknown> | undefined;
+  const query = request.query as Record<string, unknown>;
+
+  if (
+    !canAccessUser(request, body?.userId ?? body?.user_id) ||
+    !canAccessUser(request, query.userId ?? query.user_id)
+  ) {
+    return response.status(403).json(forbiddenUserBody);
+  }
+
+  return next();
+};
+
+/**
+ * Restringe a rota a serviços e administradores (ex.: broadcast)
+ */
+export const privilegedOnlyMiddleware: RequestHandler = (
+  request,
+  response,
+  next
+) => {
+  if (!isPrivileged(request.auth)) {
+    return response.status(403).json({
+      success: false,
+      error: "Rota restrita a serviços e administradores.",
+    });
+  }
+
+  return next();
+};
+
+/**
+ * Protege as rotas administrativas (/api/admin). Aceita o header x-admin-token
+ * (ADMIN_API_TOKEN) ou um ID token do Firebase com role=admin — o token
+ * compartilhado de serviço não basta. Deve ser usado depois do authMiddleware.
+ */
+export const adminAuthMiddleware: RequestHandler = (
+  request,
+  response,
+  next
+) => {
+  if (request.auth?.role === "admin") {
+    return next();
+  }
+
+  if (!authConfig.adminToken) {
+    return response.status(403).json({
+      success: false,
+      error: "Acesso administrativo não configurado.",
+    });
+  }
+
+  const providedToken = request.get(authConfig.adminHeaderName)?.trim();
+
+  if (providedToken !== authConfig.adminToken) {
+    return response.status(403).json({
+      success: false,
+      error: "Token administrativo ausente ou inválido.",
+    });
+  }
+
+  setRequestActor(getAdminActor(request));
+  return next();
+};
+
+/**
+ * Identifica quem executou uma operação administrativa (registros de auditoria):
+ * uid do Firebase Auth ou "admin-token"
+ */
+export function getAdminActor(request: Request): string {
+  return request.auth?.uid ?? ADMIN_TOKEN_ACTOR;
+}
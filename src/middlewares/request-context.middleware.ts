@@ -0,0 +1,28 @@
+import { randomUUID } from "node:crypto";
+import type { RequestHandler } from "express";
+import { runWithRequestContext } from "../utils/request-context";
+
+const REQUEST_ID_HEADER = "x-request-id";
+
+/**
+ * Abre o contexto da requisição (request id + endpoint) usado pela auditoria.
+ * Reaproveita o header X-Request-Id do cliente/proxy e o devolve na resposta.
+ *
+ * Deve ser registrado depois do express.json(): callbacks de stream do body
+ * parser não preservam o contexto assíncrono.
+ */
+export const requestContextMiddleware: RequestHandler = (
+  request,
+  response,
+  next
+) => {
+  const requestId =
+    request.get(REQUEST_ID_HEADER)?.trim().slice(0, 128) || randomUUID();
+
+  response.setHeader(REQUEST_ID_HEADER, requestId);
+
+  runWithRequestContext(
+    { requestId, endpoint: `${request.method} ${request.path}` },
+    next
+  );
+};
@@ -1,4 +1,5 @@
 import type { Timestamp } from "firebase-admin/firestore";
+import type { XPSource } from "./XPTransaction";
 
 export enum AchievementTier {
   BRONZE = "bronze",
@@ -16,15 +17,55 @@ export enum AchievementType {
   DECK_CREATED = "deck_created",
   XP_TOTAL = "xp_total",
   LEVEL_REACHED = "level_reached",
+  // Metas semanais batidas em grupos de estudo
+  GROUP_GOAL = "group_goal",
   CUSTOM = "custom",
 }
 
+/**
+ * Métricas aceitas em `condition.params.metric` das conquistas CUSTOM
+ * (avaliadas por AchievementService.checkCustomAchievement)
+ */
+export const CUSTOM_ACHIEVEMENT_METRICS = [
+  "unique_decks_studied",
+  "difficulty_levels_used",
+  "marketplace_decks_added",
+  "profile_completed",
+  "cards_reviewed_single_day",
+  "study_sessions_before_hour",
+  "study_sessions_after_hour",
+  "decks_shared",
+  "deck_reviews_submitted",
+  "active_decks",
+  "easy_cards_streak",
+  "hard_cards_completed",
+  "expert_cards_completed",
+  "decks_completed",
+  "decks_studied_same_day",
+  "minimum_cards_consecutive_days",
+  "cards_created_in_week",
+  "card_review_iterations",
+] as const;
+
+export type CustomAchievementMetric =
+  (typeof CUSTOM_ACHIEVEMENT_METRICS)[number];
+
 export interface AchievementCondition {
   type: AchievementType;
   target: number;
   params?: Record<string, unknown>;
 }
 
+/**
+ * Boost de XP pessoal concedido junto com a recompensa da conquista
+ */
+export interface AchievementBoostReward {
+  multiplier: number;
+  durationMinutes: number;
+  // Ausente: todas as fontes de XP
+  sources?: XPSource[] | undefined;
+}
+
 export interface Achievement {
   id: string;
   name: string;
@@ -36,6 +77,9 @@ export interface Achievement {
   createdAt: Date | Timestamp;
   updatedAt?: Date | Timestamp;
   isActive?: boolean;
+  // Conquista secreta: nome, descrição e progresso ficam ocultos até o desbloqueio
+  hidden?: boolean;
+  boostReward?: AchievementBoostReward | undefined;
 }
 
 export const isValidAchievement = (achievement: Achievement): boolean => {
@@ -57,6 +101,12 @@ export const isValidAchievement = (achievement: Achievement): boolean => {
   return true;
 };
 
+/**
+ * Conquistas sem `isActive` são consideradas ativas
+ */
+export const isActiveAchievement = (achievement: Achievement): boolean =>
+  achievement.isActive !== false;
+
 export const normalizeAchievement = (
   achievement: Achievement
 ): Achievement => ({
@@ -0,0 +1,57 @@
+import type { Timestamp } from "firebase-admin/firestore";
+
+/**
+ * Motivos de bloqueio ou redução de XP pelas heurísticas anti-abuso
+ */
+export enum AntiAbuseReason {
+  // Revisão do mesmo card antes do intervalo mínimo (ignorada)
+  REVIEW_TOO_SOON = "review_too_soon",
+  // Revisão repetida do card nas últimas 24h (XP reduzido)
+  DIMINISHING_RETURNS = "diminishing_returns",
+  // Limite de XP da fonte nas últimas 24h atingido (XP reduzido)
+  DAILY_CAP_REACHED = "daily_cap_reached",
+}
+
+/**
+ * Resultado da avaliação de um ganho de XP, devolvido na resposta da revisão
+ */
+export interface AntiAbuseDecision {
+  // false: o evento foi ignorado (sem XP, progresso diário ou métricas)
+  allowed: boolean;
+  requestedXP: number;
+  awardedXP: number;
+  reasons: AntiAbuseReason[];
+}
+
+/**
+ * Violações de um usuário em um dia (UTC), base do relatório de usuários sinalizados.
+ * ID do documento: `${userId}_${date}`
+ */
+export interface AntiAbuseDailyFlag {
+  userId: string;
+  // YYYY-MM-DD (UTC)
+  date: string;
+  // Eventos bloqueados ou com XP reduzido
+  violations: number;
+  reasons: Partial<Record<AntiAbuseReason, number>>;
+  reviewsBlocked: number;
+  xpWithheld: number;
+  lastViolationAt: Date | Timestamp;
+}
+
+export type AntiAbuseViolation = Omit<
+  AntiAbuseDailyFlag,
+  "userId" | "date" | "lastViolationAt"
+>;
+
+/**
+ * Usuário no relatório de sinalizados (violações somadas no período)
+ */
+export interface FlaggedUser extends AntiAbuseViolation {
+  userId: string;
+  days: number;
+  lastViolationAt: Date;
+}
+
+export const getAntiAbuseFlagId = (userId: string, date: string): string =>
+  `${userId}_${date}`;
@@ -0,0 +1,57 @@
+import type { Timestamp } from "firebase-admin/firestore";
+
+/**
+ * Operações registradas na trilha de auditoria
+ */
+export enum AuditAction {
+  // Operações administrativas (/api/admin)
+  BROADCAST = "broadcast",
+  XP_ADJUSTMENT = "xp_adjustment",
+  ACHIEVEMENT_GRANT = "achievement_grant",
+  ACHIEVEMENT_REVOKE = "achievement_revoke",
+  STREAK_REPAIR = "streak_repair",
+  XP_BOOST_CREATE = "xp_boost_create",
+  XP_BOOST_END = "xp_boost_end",
+  // Mutações de estado feitas pelos services
+  XP_CHANGE = "xp_change",
+  STREAK_INCREMENT = "streak_increment",
+  STREAK_RESET = "streak_reset",
+  STREAK_START = "streak_start",
+  ACHIEVEMENT_UNLOCK = "achievement_unlock",
+  METRICS_UPDATE = "metrics_update",
+  // Boost pessoal concedido por conquista
+  XP_BOOST_GRANT = "xp_boost_grant",
+  // Nível recalculado após mudança da curva (job recompute-levels)
+  LEVEL_RECALCULATION = "level_recalculation",
+}
+
+/**
+ * Quem executou a operação quando autenticado pelo ADMIN_API_TOKEN
+ * (com ID token do Firebase, o actor é o uid)
+ */
+export const ADMIN_TOKEN_ACTOR = "admin-token";
+
+export type AuditValues = Record<string, unknown>;
+
+/**
+ * Registro imutável (append-only) de uma mutação de estado
+ */
+export interface AuditRecord {
+  id: string;
+  action: AuditAction;
+  // uid do Firebase Auth, "service", "admin-token" ou "system" (jobs)
+  actor: string;
+  // Usuário afetado (null em operações globais, como broadcast)
+  targetUserId: string | null;
+  reason: string | null;
+  // Ex: "POST /api/gamification/process-review" ou "job:update-streaks"
+  endpoint: string | null;
+  // Mesmo valor para todos os registros gerados por uma requisição (X-Request-Id)
+  requestId: string | null;
+  // Valores antes/depois da mutação (apenas os campos alterados)
+  before: AuditValues | null;
+  after: AuditValues | null;
+  // Parâmetros da operação (ex: origem do XP, conquista)
+  details: AuditValues;
+  createdAt: Date | Timestamp;
+}
@@ -0,0 +1,76 @@
+import type { Timestamp } from "firebase-admin/firestore";
+import { DAILY_GOAL_CONFIG, DAILY_GOAL_TARGET } from "../config/constants";
+
+/**
+ * Unidade da meta diária: cards revisados ou minutos estudados
+ */
+export type DailyGoalType = "cards" | "minutes";
+
+export const DAILY_GOAL_TYPES: readonly DailyGoalType[] = [
+  "cards",
+  "minutes",
+] as const;
+
+export interface DailyGoal {
+  type: DailyGoalType;
+  target: number;
+}
+
+/**
+ * Meta vigente a partir de uma data (YYYY-MM-DD, inclusive)
+ */
+export interface DailyGoalHistoryEntry extends DailyGoal {
+  effectiveFrom: string;
+}
+
+/**
+ * Configuração de meta diária do usuário.
+ * O histórico permite avaliar dias passados com a meta que valia naquele dia.
+ */
+export interface DailyGoalSettings {
+  userId: string;
+  history: DailyGoalHistoryEntry[];
+  updatedAt: Date | Timestamp;
+}
+
+export const DEFAULT_DAILY_GOAL: DailyGoal = {
+  type: "cards",
+  target: DAILY_GOAL_TARGET,
+};
+
+export const isValidDailyGoal = (goal: DailyGoal): boolean => {
+  if (!DAILY_GOAL_TYPES.includes(goal.type) || !Number.isInteger(goal.target)) {
+    return false;
+  }
+
+  const max =
+    goal.type === "cards"
+      ? DAILY_GOAL_CONFIG.MAX_CARDS
+      : DAILY_GOAL_CONFIG.MAX_MINUTES;
+
+  return goal.target >= 1 && goal.target <= max;
+};
+
+/**
+ * Retorna a meta em vigor na data informada.
+ * Datas anteriores à primeira configuração usam a meta padrão.
+ */
+export const resolveDailyGoal = (
+  settings: DailyGoalSettings | null | undefined,
+  date: string
+): DailyGoal => {
+  let resolved: DailyGoalHistoryEntry | undefined;
+
+  for (const entry of settings?.history ?? []) {
+    if (
+      entry.effectiveFrom <= date &&
+      (!resolved || entry.effectiveFrom >= resolved.effectiveFrom)
+    ) {
+      resolved = entry;
+    }
+  }
+
+  return resolved
+    ? { type: resolved.type, target: resolved.target }
+    : { ...DEFAULT_DAILY_GOAL };
+};
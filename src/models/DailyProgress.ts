@@ -1,4 +1,5 @@
 import type { Timestamp } from "firebase-admin/firestore";
+import { DEFAULT_DAILY_GOAL, type DailyGoal } from "./DailyGoal";
 
 export const DAILY_GOAL = 20;
 
@@ -6,6 +7,8 @@ export interface DailyProgress {
   userId: string;
   date: string;
   cardsReviewed: number;
+  // Soma das sessões de estudo do dia (usada por metas em minutos)
+  minutesStudied?: number;
   goalMet: boolean;
   xpEarned: number;
   timestamp: Date | Timestamp;
@@ -16,14 +19,29 @@ export const isValidDailyProgress = (progress: DailyProgress): boolean => {
     return false;
   }
 
-  if (progress.cardsReviewed < 0 || progress.xpEarned < 0) {
+  if (
+    progress.cardsReviewed < 0 ||
+    progress.xpEarned < 0 ||
+    (progress.minutesStudied ?? 0) < 0
+  ) {
     return false;
   }
 
   return true;
 };
 
+/**
+ * Valor do dia na unidade da meta (cards ou minutos)
+ */
+export const getDailyGoalProgress = (
+  progress: Pick<DailyProgress, "cardsReviewed" | "minutesStudied">,
+  goal: DailyGoal
+): number =>
+  goal.type === "minutes"
+    ? (progress.minutesStudied ?? 0)
+    : progress.cardsReviewed;
+
 export const hasMetDailyGoal = (
-  progress: DailyProgress,
-  goal: number = DAILY_GOAL
-): boolean => progress.cardsReviewed >= goal;
+  progress: Pick<DailyProgress, "cardsReviewed" | "minutesStudied">,
+  goal: DailyGoal = DEFAULT_DAILY_GOAL
+): boolean => getDailyGoalProgress(progress, goal) >= goal.target;
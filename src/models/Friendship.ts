@@ -0,0 +1,46 @@
+import type { Timestamp } from "firebase-admin/firestore";
+
+export enum FriendshipStatus {
+  // Pedido enviado por requesterId, aguardando addresseeId
+  PENDING = "pending",
+  ACCEPTED = "accepted",
+}
+
+/**
+ * Amizade (ou pedido de amizade) entre dois usuários.
+ * Um único documento por par: recusar ou remover apaga o documento.
+ */
+export interface Friendship {
+  id: string;
+  // Os dois usuários, em ordem alfabética (consulta por array-contains)
+  userIds: [string, string];
+  requesterId: string;
+  addresseeId: string;
+  status: FriendshipStatus;
+  createdAt: Date | Timestamp;
+  // Quando o pedido foi aceito
+  acceptedAt: Date | Timestamp | null;
+}
+
+export type FriendLeaderboardMetric = "weekly_xp" | "monthly_xp" | "streak";
+
+export interface FriendLeaderboardEntry {
+  userId: string;
+  rank: number;
+  // XP ganho no período ou streak atual, conforme a métrica
+  score: number;
+  level: number;
+  currentStreak: number;
+  isCurrentUser: boolean;
+}
+
+/**
+ * ID determinístico do par: o mesmo documento independe de quem enviou o pedido
+ */
+export const getFriendshipId = (userId: string, otherUserId: string): string =>
+  [userId, otherUserId].sort().join("__");
+
+export const getFriendId = (friendship: Friendship, userId: string): string =>
+  friendship.requesterId === userId
+    ? friendship.addresseeId
+    : friendship.requesterId;
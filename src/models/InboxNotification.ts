@@ -0,0 +1,44 @@
+import type { Timestamp } from "firebase-admin/firestore";
+
+/**
+ * Origem da notificação na caixa de entrada do app
+ */
+export enum InboxNotificationType {
+  ACHIEVEMENT = "achievement",
+  LEVEL_UP = "level_up",
+  STREAK_MILESTONE = "streak_milestone",
+  BROADCAST = "broadcast",
+  SOCIAL = "social",
+}
+
+/**
+ * Notificação guardada na caixa de entrada do usuário, independente do push
+ * ter sido entregue. Expira em expiresAt (limpeza pelo job diário).
+ */
+export interface InboxNotification {
+  id: string;
+  userId: string;
+  type: InboxNotificationType;
+  title: string;
+  body: string;
+  // Mesmos dados extras enviados no push (ex: achievementId, groupId)
+  data: Record<string, string>;
+  read: boolean;
+  readAt: Date | Timestamp | null;
+  createdAt: Date | Timestamp;
+  expiresAt: Date | Timestamp;
+}
+
+export interface InboxNotificationInput {
+  type: InboxNotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, string> | undefined;
+}
+
+export interface InboxPageOptions {
+  limit: number;
+  // ID da última notificação da página anterior
+  cursor?: string | undefined;
+  unreadOnly?: boolean | undefined;
+}
@@ -0,0 +1,97 @@
+import type { Timestamp } from "firebase-admin/firestore";
+
+/**
+ * Categorias de notificação que o usuário pode ativar/desativar
+ */
+export enum NotificationCategory {
+  ACHIEVEMENTS = "achievements",
+  REMINDERS = "reminders",
+  NEWS = "news",
+  SOCIAL = "social",
+}
+
+/**
+ * Horário de silêncio no fuso do usuário: [startHour, endHour).
+ * Pode atravessar a meia-noite (ex: 22h às 7h).
+ */
+export interface QuietHours {
+  startHour: number;
+  endHour: number;
+}
+
+export interface NotificationPreferences {
+  userId: string;
+  // Silencia todas as notificações push
+  muted: boolean;
+  categories: Record<NotificationCategory, boolean>;
+  quietHours: QuietHours | null;
+  updatedAt: Date | Timestamp;
+}
+
+export type NotificationBlockReason =
+  | "muted"
+  | "category_disabled"
+  | "quiet_hours";
+
+export const createDefaultNotificationPreferences = (
+  userId: string
+): NotificationPreferences => ({
+  userId,
+  muted: false,
+  categories: {
+    [NotificationCategory.ACHIEVEMENTS]: true,
+    [NotificationCategory.REMINDERS]: true,
+    [NotificationCategory.NEWS]: true,
+    [NotificationCategory.SOCIAL]: true,
+  },
+  quietHours: null,
+  updatedAt: new Date(),
+});
+
+/**
+ * Verifica se a hora local (0-23) está dentro do horário de silêncio.
+ * startHour === endHour significa silêncio o dia todo.
+ */
+export const isWithinQuietHours = (
+  quietHours: QuietHours | null,
+  hour: number
+): boolean => {
+  if (!quietHours) {
+    return false;
+  }
+
+  const { startHour, endHour } = quietHours;
+
+  if (startHour === endHour) {
+    return true;
+  }
+
+  return startHour < endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour;
+};
+
+/**
+ * Motivo pelo qual a notificação não deve ser entregue (null = pode entregar).
+ * Sem categoria (push types desconhecidos), só o mute global e o horário de
+ * silêncio se aplicam.
+ */
+export const getNotificationBlockReason = (
+  preferences: NotificationPreferences,
+  category: NotificationCategory | null,
+  localHour: number
+): NotificationBlockReason | null => {
+  if (preferences.muted) {
+    return "muted";
+  }
+
+  if (category && preferences.categories[category] === false) {
+    return "category_disabled";
+  }
+
+  if (isWithinQuietHours(preferences.quietHours, localHour)) {
+    return "quiet_hours";
+  }
+
+  return null;
+};
@@ -0,0 +1,31 @@
+import type { Timestamp } from "firebase-admin/firestore";
+
+/**
+ * Endpoints que aceitam eventId / Idempotency-Key
+ */
+export type ProcessedEventScope =
+  | "process-review"
+  | "process-reviews"
+  | "card-created"
+  | "deck-created"
+  | "card-deleted"
+  | "deck-deleted";
+
+export type ProcessedEventStatus = "processing" | "completed";
+
+/**
+ * Registro de dedupe de um evento já recebido.
+ * Guarda a resposta original para que reenvios recebam exatamente o mesmo corpo.
+ */
+export interface ProcessedEvent {
+  id: string;
+  scope: ProcessedEventScope;
+  userId: string;
+  eventId: string;
+  status: ProcessedEventStatus;
+  statusCode: number | null;
+  response: Record<string, unknown> | null;
+  createdAt: Date | Timestamp;
+  // Campo usado pela política de TTL do Firestore para remover o registro
+  expiresAt: Date | Timestamp;
+}
@@ -0,0 +1,113 @@
+import type { Timestamp } from "firebase-admin/firestore";
+
+export enum QuestPeriod {
+  DAILY = "daily",
+  WEEKLY = "weekly",
+}
+
+export enum QuestMetric {
+  CARDS_REVIEWED = "cards_reviewed",
+  // Revisões respondidas como "hard"
+  HARD_CARDS_REVIEWED = "hard_cards_reviewed",
+  // Decks distintos estudados no período
+  DECKS_STUDIED = "decks_studied",
+  CARDS_CREATED = "cards_created",
+  DECKS_CREATED = "decks_created",
+}
+
+/**
+ * Modelo do pool de missões (ex: "Revisar 50 cards difíceis")
+ */
+export interface QuestTemplate {
+  id: string;
+  period: QuestPeriod;
+  metric: QuestMetric;
+  target: number;
+  xpReward: number;
+  title: string;
+  description: string;
+}
+
+/**
+ * Missão sorteada para o usuário em um dia ou semana.
+ * Título, meta e recompensa são copiados do modelo na geração, para que
+ * mudanças no pool não alterem missões em andamento.
+ */
+export interface UserQuest {
+  id: string;
+  userId: string;
+  templateId: string;
+  period: QuestPeriod;
+  // Dia (YYYY-MM-DD) ou segunda-feira da semana, no fuso do usuário
+  periodKey: string;
+  metric: QuestMetric;
+  title: string;
+  description: string;
+  target: number;
+  progress: number;
+  xpReward: number;
+  // Decks já contados (apenas QuestMetric.DECKS_STUDIED)
+  deckIds: string[];
+  completedAt: Date | Timestamp | null;
+  claimedAt: Date | Timestamp | null;
+  createdAt: Date | Timestamp;
+}
+
+/**
+ * Evento recebido pelo GamificationController, convertido em progresso
+ */
+export interface QuestProgressEvent {
+  // Data do evento (YYYY-MM-DD) no fuso do usuário (ausente: hoje)
+  date?: string | undefined;
+  increments: Partial<Record<QuestMetric, number>>;
+  deckIds?: string[] | undefined;
+}
+
+/**
+ * ID determinístico: o mesmo modelo é sorteado no máximo uma vez por período
+ */
+export const getUserQuestId = (
+  period: QuestPeriod,
+  periodKey: string,
+  templateId: string
+): string => `${period}_${periodKey}_${templateId}`;
+
+export const isQuestClaimable = (quest: UserQuest): boolean =>
+  quest.completedAt !== null && quest.claimedAt === null;
+
+/**
+ * Aplica progresso à missão, limitado à meta. Em DECKS_STUDIED o progresso
+ * é a quantidade de decks distintos e amount é ignorado.
+ * Missões concluídas não mudam.
+ */
+export const advanceQuest = (
+  quest: UserQuest,
+  amount: number,
+  deckIds: string[] = [],
+  now: Date = new Date()
+): { quest: UserQuest; isNewCompletion: boolean } => {
+  if (quest.completedAt !== null) {
+    return { quest, isNewCompletion: false };
+  }
+
+  const questDeckIds =
+    quest.metric === QuestMetric.DECKS_STUDIED
+      ? [...new Set([...quest.deckIds, ...deckIds])]
+      : quest.deckIds;
+  const rawProgress =
+    quest.metric === QuestMetric.DECKS_STUDIED
+      ? questDeckIds.length
+      : quest.progress + Math.max(0, amount);
+  const progress = Math.min(quest.target, rawProgress);
+  const isNewCompletion = progress >= quest.target;
+
+  return {
+    quest: {
+      ...quest,
+      progress,
+      deckIds: questDeckIds,
+      completedAt: isNewCompletion ? now : null,
+    },
+    isNewCompletion,
+  };
+};
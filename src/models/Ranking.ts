@@ -0,0 +1,74 @@
+import type { Timestamp } from "firebase-admin/firestore";
+
+export type RankingPeriod = "monthly" | "yearly";
+
+export interface RankingEntry {
+  userId: string;
+  rank: number;
+  xpEarned: number;
+  cardsReviewed: number;
+  transactions: number;
+}
+
+export interface Ranking {
+  id: string;
+  period: RankingPeriod;
+  periodKey: string;
+  entries: RankingEntry[];
+  totalParticipants: number;
+  lastUpdated: Date | Timestamp;
+}
+
+export interface UserRankPosition {
+  userId: string;
+  period: RankingPeriod;
+  periodKey: string;
+  position: number | null;
+  entry: RankingEntry | null;
+  neighbors: {
+    above: RankingEntry[];
+    below: RankingEntry[];
+  };
+  totalParticipants: number;
+  lastUpdated: Date | Timestamp;
+}
+
+const MONTHLY_KEY_PATTERN = /^[0-9]{4}-(0[1-9]|1[0-2])$/;
+const YEARLY_KEY_PATTERN = /^[0-9]{4}$/;
+
+export const buildRankingId = (
+  period: RankingPeriod,
+  periodKey: string
+): string => `${period}_${periodKey}`;
+
+export const isValidRankingPeriodKey = (
+  period: RankingPeriod,
+  periodKey: string
+): boolean =>
+  period === "monthly"
+    ? MONTHLY_KEY_PATTERN.test(periodKey)
+    : YEARLY_KEY_PATTERN.test(periodKey);
+
+/**
+ * Ordena as entradas por XP (desc) e atribui posições no formato
+ * "competition ranking": empates compartilham a mesma posição e a
+ * posição seguinte pula a quantidade de empatados (1, 2, 2, 4).
+ */
+export const assignRanks = (
+  entries: Array<Omit<RankingEntry, "rank">>
+): RankingEntry[] => {
+  const sorted = [...entries].sort(
+    (a, b) => b.xpEarned - a.xpEarned || a.userId.localeCompare(b.userId)
+  );
+
+  let previousXP: number | null = null;
+  let previousRank = 0;
+
+  return sorted.map((entry, index) => {
+    const rank = entry.xpEarned === previousXP ? previousRank : index + 1;
+    previousXP = entry.xpEarned;
+    previousRank = rank;
+
+    return { ...entry, rank };
+  });
+};
@@ -0,0 +1,44 @@
+import type { Timestamp } from "firebase-admin/firestore";
+
+export enum ReminderType {
+  // Lembrete na hora habitual de estudo, se a meta do dia não foi batida
+  STUDY = "study_reminder",
+  // Aviso noturno de streak em risco
+  STREAK_AT_RISK = "streak_at_risk",
+}
+
+/**
+ * Histórico de lembretes enviados ao usuário (limites de frequência)
+ */
+export interface ReminderLog {
+  userId: string;
+  // Último dia local (YYYY-MM-DD) em que cada tipo foi enviado
+  lastSentDates: Partial<Record<ReminderType, string>>;
+  // Envios dos últimos 7 dias, de todos os tipos
+  recentSentAt: Array<Date | Timestamp>;
+}
+
+export const REMINDER_LOG_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const toMillis = (value: Date | Timestamp): number =>
+  value instanceof Date ? value.getTime() : value.toMillis();
+
+/**
+ * Registra um envio no histórico, descartando envios com mais de 7 dias
+ */
+export const appendReminderSent = (
+  log: ReminderLog | null,
+  userId: string,
+  type: ReminderType,
+  date: string,
+  sentAt: Date
+): ReminderLog => ({
+  userId,
+  lastSentDates: { ...log?.lastSentDates, [type]: date },
+  recentSentAt: [
+    ...(log?.recentSentAt ?? []).filter(
+      (value) => sentAt.getTime() - toMillis(value) < REMINDER_LOG_RETENTION_MS
+    ),
+    sentAt,
+  ],
+});
@@ -0,0 +1,38 @@
+import type { XPSource } from "./XPTransaction";
+import type { DifficultyBreakdown, StudyTimeOfDay } from "./StudySession";
+
+/**
+ * Janela de agregação das estatísticas, sempre terminando no dia atual
+ * week: últimos 7 dias, month: últimos 30 dias, year: últimos 365 dias
+ */
+export type StatisticsPeriod = "week" | "month" | "year" | "all";
+
+export const STATISTICS_PERIOD_DAYS: Record<
+  Exclude<StatisticsPeriod, "all">,
+  number
+> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+export interface StudyStatistics {
+  userId: string;
+  period: StatisticsPeriod;
+  startDate: string;
+  endDate: string;
+  totalSessions: number;
+  cardsReviewed: number;
+  minutesStudied: number;
+  averageSessionMinutes: number;
+  // Percentual de acertos (0-100) ou null quando não há respostas no período
+  accuracy: number | null;
+  timeOfDayDistribution: Record<StudyTimeOfDay, number>;
+  difficultyBreakdown: DifficultyBreakdown;
+  xpBySource: Record<XPSource, number>;
+  totalXP: number;
+}
+
+export interface DeckStatistics extends StudyStatistics {
+  deckId: string;
+}
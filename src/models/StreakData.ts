@@ -3,6 +3,8 @@ import type { Timestamp } from "firebase-admin/firestore";
 export interface StreakHistoryItem {
   date: string;
   count: number;
+  // Dia sem meta atingida coberto por um streak freeze
+  frozen?: boolean;
 }
 
 export interface StreakData {
@@ -11,6 +13,10 @@ export interface StreakData {
   longest: number;
   lastUpdate: Date | Timestamp;
   history: StreakHistoryItem[];
+  // Freezes em estoque (ainda não equipados)
+  freezesAvailable?: number;
+  // Freezes equipados, consumidos pelo job quando um dia é perdido
+  freezesEquipped?: number;
 }
 
 export const isValidStreakData = (streak: StreakData): boolean => {
@@ -22,6 +28,10 @@ export const isValidStreakData = (streak: StreakData): boolean => {
     return false;
   }
 
+  if ((streak.freezesAvailable ?? 0) < 0 || (streak.freezesEquipped ?? 0) < 0) {
+    return false;
+  }
+
   return streak.history.every(
     (item) => /^[0-9]{4}-[0-9]{2}-[0-9]{2}$/.test(item.date) && item.count >= 0
   );
@@ -31,3 +41,10 @@ export const sortStreakHistory = (
   history: StreakHistoryItem[]
 ): StreakHistoryItem[] =>
   [...history].sort((a, b) => a.date.localeCompare(b.date));
+
+export const isFrozenDay = (
+  history: StreakHistoryItem[] | undefined,
+  date: string
+): boolean =>
+  Array.isArray(history) &&
+  history.some((item) => item.date === date && item.frozen === true);
@@ -0,0 +1,42 @@
+import type { Timestamp } from "firebase-admin/firestore";
+
+/**
+ * Grupo de estudo com meta semanal de XP compartilhada entre os membros.
+ * Membros e convites pendentes ficam no próprio documento do grupo.
+ */
+export interface StudyGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  ownerId: string;
+  // Em ordem de entrada: o mais antigo assume o grupo quando o dono sai
+  memberIds: string[];
+  // Usuários convidados que ainda não entraram
+  invitedIds: string[];
+  weeklyXPGoal: number;
+  // Segunda-feira (YYYY-MM-DD) das semanas em que o grupo bateu a meta
+  completedGoalWeeks: string[];
+  createdAt: Date | Timestamp;
+  updatedAt: Date | Timestamp;
+}
+
+export interface StudyGroupLeaderboardEntry {
+  userId: string;
+  rank: number;
+  // XP ganho pelo membro na semana (contribuição para a meta)
+  weeklyXP: number;
+  level: number;
+  currentStreak: number;
+  isOwner: boolean;
+  isCurrentUser: boolean;
+}
+
+export const isStudyGroupMember = (
+  group: StudyGroup,
+  userId: string
+): boolean => group.memberIds.includes(userId);
+
+export const isStudyGroupInvitee = (
+  group: StudyGroup,
+  userId: string
+): boolean => group.invitedIds.includes(userId);
@@ -0,0 +1,86 @@
+import type { Timestamp } from "firebase-admin/firestore";
+
+export type StudyTimeOfDay = "morning" | "afternoon" | "evening" | "night";
+
+export const STUDY_TIMES_OF_DAY: StudyTimeOfDay[] = [
+  "morning",
+  "afternoon",
+  "evening",
+  "night",
+];
+
+export interface DifficultyBreakdown {
+  again: number;
+  hard: number;
+  good: number;
+  easy: number;
+}
+
+export interface StudySession {
+  id: string;
+  userId: string;
+  deckId: string | null;
+  sessionDurationMinutes: number;
+  cardsReviewed: number;
+  accuracyCount: number;
+  totalAnswers: number;
+  studyTime: StudyTimeOfDay;
+  difficultyBreakdown: DifficultyBreakdown;
+  timestamp: Date | Timestamp;
+}
+
+export const createEmptyDifficultyBreakdown = (): DifficultyBreakdown => ({
+  again: 0,
+  hard: 0,
+  good: 0,
+  easy: 0,
+});
+
+/**
+ * Período do dia a partir da hora local (0-23)
+ * morning: 05-11, afternoon: 12-17, evening: 18-22, night: 23-04
+ */
+export const getStudyTimeOfDay = (hour: number): StudyTimeOfDay => {
+  if (hour >= 5 && hour < 12) {
+    return "morning";
+  }
+
+  if (hour >= 12 && hour < 18) {
+    return "afternoon";
+  }
+
+  if (hour >= 18 && hour < 23) {
+    return "evening";
+  }
+
+  return "night";
+};
+
+export const isValidStudyTimeOfDay = (
+  value: unknown
+): value is StudyTimeOfDay =>
+  STUDY_TIMES_OF_DAY.includes(value as StudyTimeOfDay);
+
+export const isValidStudySession = (session: StudySession): boolean => {
+  if (!session.id.trim() || !session.userId.trim()) {
+    return false;
+  }
+
+  const counters = [
+    session.sessionDurationMinutes,
+    session.cardsReviewed,
+    session.accuracyCount,
+    session.totalAnswers,
+    ...Object.values(session.difficultyBreakdown),
+  ];
+
+  if (counters.some((value) => !Number.isFinite(value) || value < 0)) {
+    return false;
+  }
+
+  if (session.accuracyCount > session.totalAnswers) {
+    return false;
+  }
+
+  return isValidStudyTimeOfDay(session.studyTime);
+};
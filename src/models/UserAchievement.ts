@@ -6,10 +6,21 @@ export interface UserAchievementProgress {
   unlockedAt: Date | Timestamp | null;
   progress: number;
   claimed: boolean;
+  // true quando o XP aguarda resgate (desbloqueios anteriores ao resgate não têm o campo)
+  rewardPending?: boolean;
+  claimedAt?: Date | Timestamp | null;
   notificationSeen?: boolean;
   updatedAt: Date | Timestamp | null;
 }
 
+/**
+ * Conquista desbloqueada cujo XP ainda não foi resgatado
+ */
+export const hasPendingReward = (progress: UserAchievementProgress): boolean =>
+  progress.unlockedAt !== null &&
+  !progress.claimed &&
+  progress.rewardPending === true;
+
 export const isValidUserAchievementProgress = (
   progress: UserAchievementProgress
 ): boolean => {
@@ -11,6 +11,8 @@ export interface UserProgress {
   lastActivityDate: Date | Timestamp | null;
   achievements: string[];
   createdAt: Date | Timestamp;
+  // Fuso IANA do usuário (ex: America/Sao_Paulo); null usa o fuso padrão
+  timezone?: string | null;
 }
 
 export interface LevelProgressSnapshot {
@@ -0,0 +1,103 @@
+import type { Timestamp } from "firebase-admin/firestore";
+import type { DifficultyBreakdown } from "./StudySession";
+import { XPSource } from "./XPTransaction";
+
+export type XPBoostDifficulty = keyof DifficultyBreakdown;
+
+export enum XPBoostOrigin {
+  // Evento criado pelo admin (ex: "XP em dobro no fim de semana")
+  EVENT = "event",
+  // Boost pessoal concedido por uma conquista
+  ACHIEVEMENT = "achievement",
+}
+
+/**
+ * Multiplicador de XP por tempo limitado.
+ *
+ * Os campos de escopo são opcionais: ausentes, o boost vale para qualquer
+ * valor (ex: sem userId vale para todos os usuários).
+ */
+export interface XPBoost {
+  id: string;
+  name: string;
+  description?: string;
+  multiplier: number;
+  startsAt: Date | Timestamp;
+  endsAt: Date | Timestamp;
+  origin: XPBoostOrigin;
+  // Escopo
+  sources?: XPSource[];
+  userId?: string;
+  deckId?: string;
+  // Apenas revisões com estas dificuldades (ex: "2x em cards difíceis")
+  difficulties?: XPBoostDifficulty[];
+  // Conquista que concedeu o boost pessoal
+  achievementId?: string;
+  createdBy: string;
+  createdAt: Date | Timestamp;
+}
+
+/**
+ * Ganho de XP avaliado contra o escopo dos boosts
+ */
+export interface XPBoostTarget {
+  userId: string;
+  source: XPSource;
+  deckId?: string | undefined;
+  difficulty?: XPBoostDifficulty | undefined;
+  occurredAt: Date;
+}
+
+/**
+ * Fontes que podem ser multiplicadas (débitos, ajustes e estornos nunca)
+ */
+export const XP_BOOSTABLE_SOURCES: readonly XPSource[] = [
+  XPSource.REVIEW,
+  XPSource.CARD_CREATION,
+  XPSource.DECK_CREATION,
+  XPSource.DAILY_GOAL,
+  XPSource.STREAK_BONUS,
+  XPSource.ACHIEVEMENT,
+  XPSource.QUEST,
+];
+
+const toMillis = (value: Date | Timestamp): number =>
+  value instanceof Date ? value.getTime() : value.toMillis();
+
+export const isXPBoostActive = (boost: XPBoost, at: Date): boolean =>
+  toMillis(boost.startsAt) <= at.getTime() &&
+  at.getTime() < toMillis(boost.endsAt);
+
+export const isXPBoostApplicable = (
+  boost: XPBoost,
+  target: XPBoostTarget
+): boolean => {
+  if (!XP_BOOSTABLE_SOURCES.includes(target.source)) {
+    return false;
+  }
+
+  if (!isXPBoostActive(boost, target.occurredAt)) {
+    return false;
+  }
+
+  if (boost.userId && boost.userId !== target.userId) {
+    return false;
+  }
+
+  if (boost.sources?.length && !boost.sources.includes(target.source)) {
+    return false;
+  }
+
+  if (boost.deckId && boost.deckId !== target.deckId) {
+    return false;
+  }
+
+  if (
+    boost.difficulties?.length &&
+    (!target.difficulty || !boost.difficulties.includes(target.difficulty))
+  ) {
+    return false;
+  }
+
+  return true;
+};
@@ -7,9 +7,24 @@ export enum XPSource {
   STREAK_BONUS = "streak_bonus",
   CARD_CREATION = "card_creation",
   DECK_CREATION = "deck_creation",
+  QUEST = "quest",
+  GROUP_GOAL = "group_goal",
   MANUAL_ADJUSTMENT = "manual_adjustment",
+  STREAK_FREEZE_PURCHASE = "streak_freeze_purchase",
+  // Estorno de uma transação anterior (reversalOf)
+  REVERSAL = "reversal",
 }
 
+/**
+ * Fontes de débito de XP: geram transações com valor negativo
+ * (ajustes manuais também podem ser positivos). Estornos (REVERSAL) também
+ * são negativos, mas anulam XP ganho em vez de gastá-lo.
+ */
+export const XP_SPENDING_SOURCES: readonly XPSource[] = [
+  XPSource.STREAK_FREEZE_PURCHASE,
+  XPSource.MANUAL_ADJUSTMENT,
+];
+
 export interface XPTransaction {
   id: string;
   userId: string;
@@ -18,14 +33,73 @@ export interface XPTransaction {
   sourceId: string;
   description: string;
   timestamp: Date | Timestamp;
+  // Deck relacionado (revisões e criação de cards/decks), usado nas estatísticas por deck
+  deckId?: string;
+  // ID e origem da transação estornada (apenas em XPSource.REVERSAL)
+  reversalOf?: string;
+  reversedSource?: XPSource;
+  // Boost aplicado (apenas em transações multiplicadas): XP base e multiplicador
+  baseAmount?: number;
+  multiplier?: number;
+  boostId?: string;
+  // Evento idempotente (eventId) cujas etapas seguintes ao XP (progresso,
+  // métricas, conquistas) ainda não foram concluídas
+  eventPending?: boolean;
 }
 
+/**
+ * Conta como XP ganho (rankings): débitos (ex: compra de freeze, ajuste manual
+ * negativo) não reduzem o XP ganho; ajustes positivos contam normalmente e
+ * estornos (REVERSAL) descontam o XP anulado
+ */
+export const countsAsEarnedXP = (transaction: XPTransaction): boolean =>
+  !(transaction.amount < 0 && XP_SPENDING_SOURCES.includes(transaction.source));
+
+/**
+ * ID determinístico do estorno: cada transação só pode ser revertida uma vez
+ */
+export const getReversalTransactionId = (transactionId: string): string =>
+  `rev_${transactionId}`;
+
+/**
+ * Conta as transações da origem que não foram estornadas na mesma lista
+ * (ex: cards criados na semana, descontando os excluídos)
+ */
+export const countNetTransactions = (
+  transactions: XPTransaction[],
+  source: XPSource
+): number => {
+  const reversed = new Set(
+    transactions.flatMap((transaction) =>
+      transaction.source === XPSource.REVERSAL && transaction.reversalOf
+        ? [transaction.reversalOf]
+        : []
+    )
+  );
+
+  return transactions.filter(
+    (transaction) =>
+      transaction.source === source && !reversed.has(transaction.id)
+  ).length;
+};
+
 export const isValidXPTransaction = (transaction: XPTransaction): boolean => {
   if (!transaction.id.trim() || !transaction.userId.trim()) {
     return false;
   }
 
-  if (transaction.amount <= 0 || !Number.isFinite(transaction.amount)) {
+  if (transaction.amount === 0 || !Number.isFinite(transaction.amount)) {
+    return false;
+  }
+
+  if (transaction.source === XPSource.REVERSAL) {
+    return transaction.amount < 0 && Boolean(transaction.reversalOf?.trim());
+  }
+
+  if (
+    transaction.amount < 0 &&
+    !XP_SPENDING_SOURCES.includes(transaction.source)
+  ) {
     return false;
   }
 
@@ -0,0 +1,541 @@
+import type { Achievement } from "../models/Achievement";
+import type {
+  AntiAbuseDailyFlag,
+  AntiAbuseViolation,
+} from "../models/AntiAbuse";
+import type { AuditAction, AuditRecord } from "../models/AuditRecord";
+import type { DailyGoalSettings } from "../models/DailyGoal";
+import type { DailyProgress } from "../models/DailyProgress";
+import type { Friendship } from "../models/Friendship";
+import type {
+  InboxNotification,
+  InboxPageOptions,
+} from "../models/InboxNotification";
+import type { NotificationPreferences } from "../models/NotificationPreferences";
+import type { ProcessedEvent } from "../models/ProcessedEvent";
+import type { UserQuest } from "../models/Quest";
+import type { Ranking } from "../models/Ranking";
+import type { ReminderLog, ReminderType } from "../models/Reminder";
+import type { StudyGroup } from "../models/StudyGroup";
+import type { StreakData } from "../models/StreakData";
+import type { StudySession } from "../models/StudySession";
+import type { UserAchievementProgress } from "../models/UserAchievement";
+import type { UserProgress } from "../models/UserProgress";
+import type { XPBoost } from "../models/XPBoost";
+import type { XPSource, XPTransaction } from "../models/XPTransaction";
+
+export type UserProgressUpdate = Partial<
+  Omit<
+    UserProgress,
+    | "userId"
+    | "createdAt"
+    | "achievements"
+    | "lastActivityDate"
+    | "currentStreak"
+    | "longestStreak"
+  > & {
+    achievements?: string[];
+    lastActivityDate?: Date | FirebaseFirestore.Timestamp | null;
+    currentStreak?: number;
+    longestStreak?: number;
+  }
+>;
+
+export type DailyProgressUpdate = Partial<
+  Omit<DailyProgress, "userId" | "date"> & {
+    timestamp?: Date | FirebaseFirestore.Timestamp;
+  }
+>;
+
+export type UserAchievementProgressUpdate = Partial<
+  Pick<
+    UserAchievementProgress,
+    "progress" | "claimed" | "unlockedAt" | "notificationSeen"
+  >
+>;
+
+export type StreakUpdate = Partial<
+  Pick<
+    StreakData,
+    | "current"
+    | "longest"
+    | "history"
+    | "lastUpdate"
+    | "freezesAvailable"
+    | "freezesEquipped"
+  >
+>;
+
+export interface StreakFreezePurchase {
+  quantity: number;
+  maxInventory: number;
+  // Transação negativa de XP gravada no mesmo commit da compra
+  transaction: XPTransaction;
+  // Nível e XP no nível para o total após o débito
+  levelFor: (totalXP: number) => Pick<UserProgress, "level" | "currentXP">;
+}
+
+export interface XPReversalBatch {
+  // Estornos com ID derivado da original; os já gravados são ignorados
+  reversals: XPTransaction[];
+  // Nível e XP no nível para o total após o estorno
+  levelFor: (totalXP: number) => Pick<UserProgress, "level" | "currentXP">;
+}
+
+export interface XPReversalOutcome {
+  before: UserProgress;
+  after: UserProgress;
+  // Estornos gravados nesta chamada
+  reversals: XPTransaction[];
+  // IDs das transações originais que já haviam sido revertidas
+  alreadyReversed: string[];
+}
+
+export type StreakFreezePurchaseOutcome =
+  | {
+      status: "purchased";
+      before: UserProgress;
+      after: UserProgress;
+      streak: StreakData;
+    }
+  | { status: "inventory_full" }
+  | { status: "insufficient_xp"; totalXP: number };
+
+export interface StreakFreezeEquip {
+  quantity: number;
+  maxEquipped: number;
+}
+
+export type StreakFreezeEquipOutcome =
+  | { status: "equipped"; streak: StreakData }
+  | { status: "insufficient_stock" }
+  | { status: "equipped_full" };
+
+export type ClaimProcessedEventResult =
+  | { claimed: true }
+  | { claimed: false; existing: ProcessedEvent };
+
+export const DEFAULT_USER_PROGRESS: Omit<UserProgress, "userId"> = {
+  level: 1,
+  currentXP: 0,
+  totalXP: 0,
+  currentStreak: 0,
+  longestStreak: 0,
+  totalCardsReviewed: 0,
+  lastActivityDate: null,
+  achievements: [],
+  createdAt: new Date(0),
+};
+
+/**
+ * Interface para as métricas customizadas de um usuário
+ * Usada para rastrear conquistas do tipo CUSTOM
+ */
+export interface UserMetrics {
+  userId: string;
+  // Decks únicos estudados (IDs dos decks)
+  uniqueDecksStudied: string[];
+  // Níveis de dificuldade usados (again, hard, good, easy)
+  difficultyLevelsUsed: string[];
+  // Decks adicionados do marketplace (IDs dos decks)
+  marketplaceDecksAdded: string[];
+  // Perfil completado (true/false)
+  profileCompleted: boolean;
+  // Máximo de cards revisados em um único dia
+  maxCardsInSingleDay: number;
+  // Sessões de estudo antes das 8h (datas YYYY-MM-DD)
+  studySessionsBeforeHour: string[];
+  // Sessões de estudo depois das 22h (datas YYYY-MM-DD)
+  studySessionsAfterHour: string[];
+  // Decks compartilhados (IDs dos decks)
+  decksShared: string[];
+  // Avaliações de decks submetidas
+  deckReviewsSubmitted: number;
+  // Decks ativos na biblioteca (IDs dos decks)
+  activeDecks: string[];
+  // Cards "fácil" consecutivos (streak atual)
+  easyCardsStreak: number;
+  // Máximo de cards "fácil" consecutivos
+  maxEasyCardsStreak: number;
+  // Cards "difícil" completados
+  hardCardsCompleted: number;
+  // Cards "expert" completados
+  expertCardsCompleted: number;
+  // Decks completados 100% (IDs dos decks)
+  decksCompleted: string[];
+  // Histórico de cards por dia { "YYYY-MM-DD": count }
+  cardsPerDay: Record<string, number>;
+  // Histórico de decks estudados por dia { "YYYY-MM-DD": ["deckId1", "deckId2"] }
+  decksStudiedPerDay: Record<string, string[]>;
+  // Máximo de decks estudados no mesmo dia
+  maxDecksStudiedSameDay: number;
+  // Última atualização
+  updatedAt?: Date | FirebaseFirestore.Timestamp;
+}
+
+/**
+ * Retorna métricas padrão para um novo usuário
+ */
+export const createDefaultUserMetrics = (userId: string): UserMetrics => ({
+  userId,
+  uniqueDecksStudied: [],
+  difficultyLevelsUsed: [],
+  marketplaceDecksAdded: [],
+  profileCompleted: false,
+  maxCardsInSingleDay: 0,
+  studySessionsBeforeHour: [],
+  studySessionsAfterHour: [],
+  decksShared: [],
+  deckReviewsSubmitted: 0,
+  activeDecks: [],
+  easyCardsStreak: 0,
+  maxEasyCardsStreak: 0,
+  hardCardsCompleted: 0,
+  expertCardsCompleted: 0,
+  decksCompleted: [],
+  cardsPerDay: {},
+  decksStudiedPerDay: {},
+  maxDecksStudiedSameDay: 0,
+});
+
+/**
+ * Contrato de persistência do serviço de gamificação.
+ *
+ * Implementações:
+ * - FirestoreService: produção (Firebase)
+ * - InMemoryRepository: desenvolvimento local e testes de integração sem credenciais
+ *
+ * A implementação usada pelos services é escolhida por `STORAGE_BACKEND`
+ * (ver `getRepository`).
+ */
+export interface GamificationRepository {
+  // ===== PROGRESSO DO USUÁRIO =====
+  getUserProgress(userId: string): Promise<UserProgress>;
+  createUserProgress(userId: string): Promise<UserProgress>;
+  updateUserProgress(
+    userId: string,
+    partial: UserProgressUpdate
+  ): Promise<UserProgress>;
+  getUserTimezone(userId: string): Promise<string | null>;
+  setUserTimezone(userId: string, timezone: string | null): Promise<void>;
+  getUserTimezones(): Promise<Map<string, string>>;
+  getAllUserIds(): Promise<string[]>;
+
+  // ===== PROGRESSO DIÁRIO =====
+  getDailyProgress(userId: string, date: string): Promise<DailyProgress>;
+  updateDailyProgress(
+    userId: string,
+    date: string,
+    update: DailyProgressUpdate
+  ): Promise<DailyProgress>;
+  getDailyGoalSettings(userId: string): Promise<DailyGoalSettings | null>;
+  saveDailyGoalSettings(settings: DailyGoalSettings): Promise<void>;
+
+  // ===== TRANSAÇÕES DE XP =====
+  createXPTransaction(transaction: XPTransaction): Promise<void>;
+  createXPTransactions(transactions: XPTransaction[]): Promise<void>;
+  getUserXPTransactions(
+    userId: string,
+    limit?: number
+  ): Promise<XPTransaction[]>;
+  getXPTransaction(
+    userId: string,
+    transactionId: string
+  ): Promise<XPTransaction | null>;
+  /**
+   * Busca várias transações pelo ID em uma única leitura
+   * @returns Apenas as transações existentes
+   */
+  getXPTransactionsByIds(
+    userId: string,
+    transactionIds: string[]
+  ): Promise<XPTransaction[]>;
+  /**
+   * Remove a marca de evento pendente (eventPending) das transações
+   */
+  completeXPTransactionEvents(
+    userId: string,
+    transactionIds: string[]
+  ): Promise<void>;
+  /**
+   * Quantidade líquida de transações da origem (desconta as estornadas)
+   */
+  countXPTransactionsBySource(
+    userId: string,
+    source: XPSource
+  ): Promise<number>;
+  getUserXPTransactionsBySource(
+    userId: string,
+    source: XPSource,
+    sourceId: string
+  ): Promise<XPTransaction[]>;
+  getUserXPTransactionsByDeck(
+    userId: string,
+    deckId: string,
+    source: XPSource
+  ): Promise<XPTransaction[]>;
+  /**
+   * Grava os estornos e debita o XP do progresso em uma única transação.
+   * O total nunca fica negativo (o XP estornado pode já ter sido gasto)
+   */
+  applyXPReversals(
+    userId: string,
+    batch: XPReversalBatch
+  ): Promise<XPReversalOutcome>;
+  getXPTransactionsByPeriod(
+    startDate: Date,
+    endDate: Date,
+    source?: XPSource
+  ): Promise<XPTransaction[]>;
+  getUserXPTransactionsByPeriod(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<XPTransaction[]>;
+
+  // ===== CONQUISTAS =====
+  getAchievement(achievementId: string): Promise<Achievement>;
+  getAllAchievements(): Promise<Achievement[]>;
+  saveAchievement(achievement: Achievement): Promise<void>;
+  deleteAchievement(achievementId: string): Promise<void>;
+  getUserAchievements(userId: string): Promise<UserAchievementProgress[]>;
+  getUserAchievementProgress(
+    userId: string,
+    achievementId: string
+  ): Promise<UserAchievementProgress | null>;
+  unlockAchievement(
+    userId: string,
+    achievementId: string
+  ): Promise<{ progress: UserAchievementProgress; isNewUnlock: boolean }>;
+  claimAchievementReward(
+    userId: string,
+    achievementId: string
+  ): Promise<{ progress: UserAchievementProgress; isNewClaim: boolean }>;
+  // Desfaz o resgate (recompensa volta a ficar pendente) quando o XP falhou
+  releaseAchievementRewardClaim(
+    userId: string,
+    achievementId: string
+  ): Promise<void>;
+  // Remove o desbloqueio; retorna o registro removido (null se não estava desbloqueada)
+  revokeAchievement(
+    userId: string,
+    achievementId: string
+  ): Promise<UserAchievementProgress | null>;
+  markAllAchievementsAsSeen(userId: string): Promise<void>;
+  updateAchievementProgress(
+    userId: string,
+    achievementId: string,
+    update: UserAchievementProgressUpdate
+  ): Promise<UserAchievementProgress>;
+
+  // ===== STREAKS =====
+  getStreakData(userId: string): Promise<StreakData>;
+  updateStreak(userId: string, update: StreakUpdate): Promise<StreakData>;
+  /**
+   * Compra de streak freezes em uma única transação: confere o estoque e o
+   * saldo, debita o XP (com a transação negativa) e soma os freezes
+   */
+  purchaseStreakFreezes(
+    userId: string,
+    purchase: StreakFreezePurchase
+  ): Promise<StreakFreezePurchaseOutcome>;
+  /**
+   * Move freezes do estoque para equipados na mesma transação da leitura
+   */
+  equipStreakFreezes(
+    userId: string,
+    equip: StreakFreezeEquip
+  ): Promise<StreakFreezeEquipOutcome>;
+  /**
+   * Último dia local (YYYY-MM-DD) já avaliado pelo job de streaks
+   * @returns Map de userId para a data (usuários nunca processados não aparecem)
+   */
+  getStreakProcessedDates(): Promise<Map<string, string>>;
+  markStreakProcessed(userId: string, date: string): Promise<void>;
+
+  // ===== ESTATÍSTICAS E RANKINGS =====
+  getStudySessionsByPeriod(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<StudySession[]>;
+  /**
+   * Grava a sessão (sobrescreve a sessão de mesmo ID do mesmo usuário)
+   * @returns null se o ID já pertence a uma sessão de outro usuário
+   */
+  saveStudySession(session: StudySession): Promise<StudySession | null>;
+  getRankingSnapshot(rankingId: string): Promise<Ranking | null>;
+  saveRankingSnapshot(ranking: Ranking): Promise<void>;
+
+  // ===== IDEMPOTÊNCIA =====
+  claimProcessedEvent(
+    event: ProcessedEvent,
+    canReplace: (existing: ProcessedEvent) => boolean
+  ): Promise<ClaimProcessedEventResult>;
+  completeProcessedEvent(
+    recordId: string,
+    statusCode: number,
+    response: Record<string, unknown>
+  ): Promise<void>;
+  deleteProcessedEvent(recordId: string): Promise<void>;
+
+  // ===== AUDITORIA =====
+  createAuditRecord(record: AuditRecord): Promise<void>;
+  // Registros do usuário no período, do mais recente para o mais antigo
+  // (com actions, apenas registros dessas ações)
+  getUserAuditRecords(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    limit: number,
+    actions?: AuditAction[]
+  ): Promise<AuditRecord[]>;
+
+  // ===== ANTI-ABUSO =====
+  // Soma as violações ao registro do dia (YYYY-MM-DD, UTC)
+  recordAntiAbuseViolation(
+    userId: string,
+    date: string,
+    violation: AntiAbuseViolation,
+    occurredAt: Date
+  ): Promise<void>;
+  // Registros de todos os usuários entre as datas (inclusive)
+  getAntiAbuseFlags(
+    startDate: string,
+    endDate: string
+  ): Promise<AntiAbuseDailyFlag[]>;
+
+  // ===== BOOSTS DE XP =====
+  saveXPBoost(boost: XPBoost): Promise<void>;
+  getXPBoost(boostId: string): Promise<XPBoost | null>;
+  /**
+   * Boosts que terminam depois da data (ativos e futuros)
+   * @param userId Apenas os boosts globais e os pessoais deste usuário;
+   * ausente, os de todos os usuários
+   */
+  getXPBoostsEndingAfter(date: Date, userId?: string): Promise<XPBoost[]>;
+
+  // ===== MISSÕES =====
+  // Missões do usuário nos períodos informados (dia ou segunda-feira da semana)
+  getUserQuests(userId: string, periodKeys: string[]): Promise<UserQuest[]>;
+  getUserQuest(userId: string, questId: string): Promise<UserQuest | null>;
+  // Cria apenas as missões que ainda não existem; retorna as gravadas
+  createUserQuests(userId: string, quests: UserQuest[]): Promise<UserQuest[]>;
+  // Soma progresso (ou registra os decks, em DECKS_STUDIED) até a meta.
+  // null se a missão não existe.
+  updateQuestProgress(
+    userId: string,
+    questId: string,
+    amount: number,
+    deckIds?: string[]
+  ): Promise<{ quest: UserQuest; isNewCompletion: boolean } | null>;
+  // Marca a recompensa como resgatada (isNewClaim false se já resgatada
+  // ou ainda não concluída). null se a missão não existe.
+  claimQuestReward(
+    userId: string,
+    questId: string
+  ): Promise<{ quest: UserQuest; isNewClaim: boolean } | null>;
+  // Desfaz o resgate quando o XP da missão não pôde ser concedido
+  releaseQuestRewardClaim(userId: string, questId: string): Promise<void>;
+
+  // ===== AMIZADES =====
+  getFriendship(
+    userId: string,
+    otherUserId: string
+  ): Promise<Friendship | null>;
+  saveFriendship(friendship: Friendship): Promise<void>;
+  deleteFriendship(userId: string, otherUserId: string): Promise<void>;
+  // Amizades e pedidos (enviados e recebidos) do usuário
+  getUserFriendships(userId: string): Promise<Friendship[]>;
+
+  // ===== GRUPOS DE ESTUDO =====
+  getStudyGroup(groupId: string): Promise<StudyGroup | null>;
+  saveStudyGroup(group: StudyGroup): Promise<void>;
+  deleteStudyGroup(groupId: string): Promise<void>;
+  // Grupos em que o usuário é membro
+  getUserStudyGroups(userId: string): Promise<StudyGroup[]>;
+  // Grupos com convite pendente para o usuário
+  getStudyGroupInvites(userId: string): Promise<StudyGroup[]>;
+  // Todos os grupos (job de metas semanais)
+  getAllStudyGroups(): Promise<StudyGroup[]>;
+  // Registra a meta da semana uma única vez; false se já registrada
+  completeStudyGroupGoal(groupId: string, weekStart: string): Promise<boolean>;
+
+  // ===== LEMBRETES =====
+  getReminderLog(userId: string): Promise<ReminderLog | null>;
+  // Registra o envio (date: dia local YYYY-MM-DD) e retorna o histórico atualizado
+  recordReminderSent(
+    userId: string,
+    type: ReminderType,
+    date: string,
+    sentAt: Date
+  ): Promise<ReminderLog>;
+
+  // ===== PREFERÊNCIAS DE NOTIFICAÇÃO =====
+  getNotificationPreferences(
+    userId: string
+  ): Promise<NotificationPreferences | null>;
+  saveNotificationPreferences(
+    preferences: NotificationPreferences
+  ): Promise<void>;
+  // Apenas usuários que já salvaram preferências
+  getAllNotificationPreferences(): Promise<NotificationPreferences[]>;
+
+  // ===== CAIXA DE ENTRADA =====
+  addInboxNotifications(notifications: InboxNotification[]): Promise<void>;
+  // Mais recentes primeiro
+  getInboxNotifications(
+    userId: string,
+    options: InboxPageOptions
+  ): Promise<InboxNotification[]>;
+  countUnreadInboxNotifications(userId: string): Promise<number>;
+  // false se a notificação não existe
+  markInboxNotificationRead(
+    userId: string,
+    notificationId: string,
+    readAt: Date
+  ): Promise<boolean>;
+  // Retorna quantas notificações foram marcadas
+  markAllInboxNotificationsRead(userId: string, readAt: Date): Promise<number>;
+  // Apaga as notificações expiradas (expiresAt <= now) e retorna o total
+  deleteExpiredInboxNotifications(now: Date): Promise<number>;
+
+  // ===== TOKENS FCM =====
+  getUserFcmToken(userId: string): Promise<string | null>;
+  getAllFcmTokens(): Promise<string[]>;
+  // Dono do token (null se nenhum usuário usa o token)
+  getUserIdByFcmToken(fcmToken: string): Promise<string | null>;
+
+  // ===== MÉTRICAS CUSTOMIZADAS =====
+  getUserMetrics(userId: string): Promise<UserMetrics>;
+  updateUserMetrics(
+    userId: string,
+    update: Partial<Omit<UserMetrics, "userId">>
+  ): Promise<UserMetrics>;
+  addStudiedDeck(userId: string, deckId: string): Promise<void>;
+  addDeckStudiedToday(
+    userId: string,
+    deckId: string,
+    date?: string
+  ): Promise<void>;
+  addDifficultyLevelUsed(userId: string, difficulty: string): Promise<void>;
+  addMarketplaceDeck(userId: string, deckId: string): Promise<void>;
+  setProfileCompleted(userId: string, completed: boolean): Promise<void>;
+  recordStudySessionTime(
+    userId: string,
+    date: string,
+    hour: number
+  ): Promise<void>;
+  updateCardsPerDay(userId: string, date: string, count: number): Promise<void>;
+  addSharedDeck(userId: string, deckId: string): Promise<void>;
+  incrementDeckReviews(userId: string): Promise<void>;
+  setActiveDecks(userId: string, deckIds: string[]): Promise<void>;
+  addActiveDeck(userId: string, deckId: string): Promise<void>;
+  removeActiveDeck(userId: string, deckId: string): Promise<void>;
+  // Deck excluído: remove de activeDecks, uniqueDecksStudied e decksCompleted
+  removeDeckFromMetrics(userId: string, deckId: string): Promise<void>;
+  updateEasyCardsStreak(userId: string, currentStreak: number): Promise<void>;
+  incrementHardCardsCompleted(userId: string, amount?: number): Promise<void>;
+  incrementExpertCardsCompleted(userId: string): Promise<void>;
+  addCompletedDeck(userId: string, deckId: string): Promise<void>;
+}
@@ -0,0 +1,284 @@
+import { describe, expect, it } from "vitest";
+import { AchievementTier, AchievementType } from "../models/Achievement";
+import type { ProcessedEvent } from "../models/ProcessedEvent";
+import { XPSource, type XPTransaction } from "../models/XPTransaction";
+import { InMemoryRepository } from "./in-memory.repository";
+
+const createTransaction = (
+  id: string,
+  timestamp: Date,
+  overrides: Partial<XPTransaction> = {}
+): XPTransaction => ({
+  id,
+  userId: "user-1",
+  amount: 10,
+  source: XPSource.REVIEW,
+  sourceId: `card-${id}`,
+  description: "Revisão de card",
+  timestamp,
+  ...overrides,
+});
+
+const createProcessedEvent = (
+  overrides: Partial<ProcessedEvent> = {}
+): ProcessedEvent => ({
+  id: "user-1_event-1",
+  userId: "user-1",
+  scope: "process-review",
+  eventId: "event-1",
+  status: "processing",
+  statusCode: null,
+  response: null,
+  createdAt: new Date(),
+  expiresAt: new Date(Date.now() + 60_000),
+  ...overrides,
+});
+
+describe("InMemoryRepository", () => {
+  it("cria progresso com valores padrão e aplica atualizações parciais", async () => {
+    const repository = new InMemoryRepository();
+
+    await expect(repository.getUserProgress("user-1")).rejects.toThrow(
+      'Progresso do usuário "user-1" não encontrado.'
+    );
+
+    const created = await repository.createUserProgress("user-1");
+    expect(created).toMatchObject({
+      userId: "user-1",
+      level: 1,
+      totalXP: 0,
+      achievements: [],
+    });
+
+    const updated = await repository.updateUserProgress("user-1", {
+      totalXP: 120,
+      achievements: [" first ", "first", ""],
+      currentStreak: -3,
+    });
+
+    expect(updated.totalXP).toBe(120);
+    expect(updated.level).toBe(1);
+    expect(updated.achievements).toEqual(["first"]);
+    expect(updated.currentStreak).toBe(0);
+  });
+
+  it("retorna cópias para que alterações externas não afetem os dados", async () => {
+    const repository = new InMemoryRepository();
+    await repository.createUserProgress("user-1");
+
+    const progress = await repository.getUserProgress("user-1");
+    progress.achievements.push("mutated");
+
+    expect((await repository.getUserProgress("user-1")).achievements).toEqual(
+      []
+    );
+  });
+
+  it("mescla o progresso diário do dia", async () => {
+    const repository = new InMemoryRepository();
+
+    await repository.updateDailyProgress("user-1", "2025-01-10", {
+      cardsReviewed: 5,
+    });
+    const progress = await repository.updateDailyProgress(
+      "user-1",
+      "2025-01-10",
+      { xpEarned: 30 }
+    );
+
+    expect(progress).toMatchObject({
+      userId: "user-1",
+      date: "2025-01-10",
+      cardsReviewed: 5,
+      xpEarned: 30,
+      goalMet: false,
+    });
+    await expect(
+      repository.getDailyProgress("user-1", "2025-01-11")
+    ).rejects.toThrow("não encontrado");
+  });
+
+  it("ordena transações de XP e filtra por período e fonte", async () => {
+    const repository = new InMemoryRepository();
+
+    await repository.createXPTransactions([
+      createTransaction("tx-1", new Date("2025-01-01T10:00:00Z")),
+      createTransaction("tx-2", new Date("2025-01-03T10:00:00Z"), {
+        source: XPSource.DAILY_GOAL,
+      }),
+      createTransaction("tx-3", new Date("2025-01-02T10:00:00Z"), {
+        userId: "user-2",
+      }),
+    ]);
+
+    const latest = await repository.getUserXPTransactions("user-1");
+    expect(latest.map((transaction) => transaction.id)).toEqual([
+      "tx-2",
+      "tx-1",
+    ]);
+
+    const period = await repository.getXPTransactionsByPeriod(
+      new Date("2025-01-01T00:00:00Z"),
+      new Date("2025-01-02T23:59:59Z"),
+      XPSource.REVIEW
+    );
+    expect(period.map((transaction) => transaction.id).sort()).toEqual([
+      "tx-1",
+      "tx-3",
+    ]);
+
+    await expect(
+      repository.countXPTransactionsBySource("user-1", XPSource.DAILY_GOAL)
+    ).resolves.toBe(1);
+  });
+
+  it("rejeita transações de XP inválidas", async () => {
+    const repository = new InMemoryRepository();
+
+    await expect(
+      repository.createXPTransaction(
+        createTransaction("", new Date(), { amount: 0 })
+      )
+    ).rejects.toThrow("Transação de XP inválida.");
+  });
+
+  it("desbloqueia conquistas uma única vez", async () => {
+    const repository = new InMemoryRepository({
+      achievements: [
+        {
+          id: "first-review",
+          name: "Primeira revisão",
+          description: "Revise seu primeiro card",
+          tier: AchievementTier.BRONZE,
+          xpReward: 10,
+          icon: "star",
+          condition: { type: AchievementType.REVIEWS_COMPLETED, target: 1 },
+          createdAt: new Date(),
+        },
+      ],
+    });
+
+    await expect(repository.getAllAchievements()).resolves.toHaveLength(1);
+
+    const first = await repository.unlockAchievement("user-1", "first-review");
+    const second = await repository.unlockAchievement("user-1", "first-review");
+
+    expect(first.isNewUnlock).toBe(true);
+    expect(second.isNewUnlock).toBe(false);
+    expect(second.progress.unlockedAt).toEqual(first.progress.unlockedAt);
+
+    await repository.markAllAchievementsAsSeen("user-1");
+    const [progress] = await repository.getUserAchievements("user-1");
+    expect(progress?.notificationSeen).toBe(true);
+  });
+
+  it("reserva eventos processados respeitando canReplace", async () => {
+    const repository = new InMemoryRepository();
+    const event = createProcessedEvent();
+
+    await expect(
+      repository.claimProcessedEvent(event, () => false)
+    ).resolves.toEqual({ claimed: true });
+
+    await repository.completeProcessedEvent(event.id, 200, { success: true });
+
+    const duplicate = await repository.claimProcessedEvent(
+      createProcessedEvent({ createdAt: new Date() }),
+      (existing) => existing.status !== "completed"
+    );
+
+    expect(duplicate.claimed).toBe(false);
+    if (!duplicate.claimed) {
+      expect(duplicate.existing).toMatchObject({
+        status: "completed",
+        statusCode: 200,
+        response: { success: true },
+      });
+    }
+
+    await repository.deleteProcessedEvent(event.id);
+    await expect(
+      repository.claimProcessedEvent(event, () => false)
+    ).resolves.toEqual({ claimed: true });
+  });
+
+  it("acumula métricas customizadas sem duplicar valores", async () => {
+    const repository = new InMemoryRepository();
+
+    await repository.addStudiedDeck("user-1", "deck-1");
+    await repository.addStudiedDeck("user-1", "deck-1");
+    await repository.addDeckStudiedToday("user-1", "deck-1", "2025-01-10");
+    await repository.addDeckStudiedToday("user-1", "deck-2", "2025-01-10");
+    await repository.incrementHardCardsCompleted("user-1", 3);
+
+    const metrics = await repository.getUserMetrics("user-1");
+
+    expect(metrics.uniqueDecksStudied).toEqual(["deck-1"]);
+    expect(metrics.decksStudiedPerDay["2025-01-10"]).toEqual([
+      "deck-1",
+      "deck-2",
+    ]);
+    expect(metrics.maxDecksStudiedSameDay).toBe(2);
+    expect(metrics.hardCardsCompleted).toBe(3);
+
+    const untouched = await repository.getUserMetrics("user-2");
+    expect(untouched.uniqueDecksStudied).toEqual([]);
+  });
+
+  it("remove o deck excluído das métricas de decks", async () => {
+    const repository = new InMemoryRepository();
+
+    await repository.addStudiedDeck("user-1", "deck-1");
+    await repository.addStudiedDeck("user-1", "deck-2");
+    await repository.setActiveDecks("user-1", ["deck-1", "deck-2"]);
+    await repository.addCompletedDeck("user-1", "deck-1");
+    await repository.addSharedDeck("user-1", "deck-1");
+
+    await repository.removeDeckFromMetrics("user-1", "deck-1");
+
+    expect(await repository.getUserMetrics("user-1")).toMatchObject({
+      uniqueDecksStudied: ["deck-2"],
+      activeDecks: ["deck-2"],
+      decksCompleted: [],
+      decksShared: ["deck-1"],
+    });
+  });
+
+  it("conta transações por origem descontando os estornos", async () => {
+    const repository = new InMemoryRepository();
+    const timestamp = new Date("2025-01-10T10:00:00Z");
+
+    await repository.createXPTransactions([
+      createTransaction("1", timestamp, { source: XPSource.CARD_CREATION }),
+      createTransaction("2", timestamp, { source: XPSource.CARD_CREATION }),
+    ]);
+    await repository.updateUserProgress("user-1", { totalXP: 20 });
+    const reverse = () =>
+      repository.applyXPReversals("user-1", {
+        reversals: [
+          createTransaction("rev_1", timestamp, {
+            amount: -10,
+            source: XPSource.REVERSAL,
+            reversalOf: "1",
+            reversedSource: XPSource.CARD_CREATION,
+          }),
+        ],
+        levelFor: () => ({ level: 1, currentXP: 10 }),
+      });
+
+    await expect(reverse()).resolves.toMatchObject({
+      after: { totalXP: 10 },
+      reversals: [{ id: "rev_1" }],
+      alreadyReversed: [],
+    });
+    await expect(reverse()).resolves.toMatchObject({
+      after: { totalXP: 10 },
+      reversals: [],
+      alreadyReversed: ["1"],
+    });
+
+    await expect(
+      repository.countXPTransactionsBySource("user-1", XPSource.CARD_CREATION)
+    ).resolves.toBe(1);
+  });
+});
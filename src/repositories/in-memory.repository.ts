@@ -0,0 +1,1560 @@
+import type { Timestamp } from "firebase-admin/firestore";
+import {
+  isValidAchievement,
+  normalizeAchievement,
+  type Achievement,
+} from "../models/Achievement";
+import {
+  getAntiAbuseFlagId,
+  type AntiAbuseDailyFlag,
+  type AntiAbuseViolation,
+} from "../models/AntiAbuse";
+import type { AuditAction, AuditRecord } from "../models/AuditRecord";
+import type { DailyGoalSettings } from "../models/DailyGoal";
+import { getFriendshipId, type Friendship } from "../models/Friendship";
+import {
+  isValidDailyProgress,
+  type DailyProgress,
+} from "../models/DailyProgress";
+import type {
+  InboxNotification,
+  InboxPageOptions,
+} from "../models/InboxNotification";
+import type { NotificationPreferences } from "../models/NotificationPreferences";
+import type { ProcessedEvent } from "../models/ProcessedEvent";
+import type { Ranking } from "../models/Ranking";
+import {
+  appendReminderSent,
+  type ReminderLog,
+  type ReminderType,
+} from "../models/Reminder";
+import type { StudyGroup } from "../models/StudyGroup";
+import {
+  isValidStreakData,
+  sortStreakHistory,
+  type StreakData,
+} from "../models/StreakData";
+import { isValidStudySession, type StudySession } from "../models/StudySession";
+import {
+  isValidUserAchievementProgress,
+  normalizeUserAchievementProgress,
+  type UserAchievementProgress,
+} from "../models/UserAchievement";
+import {
+  isValidUserProgress,
+  UserProgressHelpers,
+  type UserProgress,
+} from "../models/UserProgress";
+import { advanceQuest, type UserQuest } from "../models/Quest";
+import type { XPBoost } from "../models/XPBoost";
+import {
+  isValidXPTransaction,
+  XPSource,
+  type XPTransaction,
+} from "../models/XPTransaction";
+import { getLocalDateString } from "../utils/validators";
+import {
+  createDefaultUserMetrics,
+  DEFAULT_USER_PROGRESS,
+  type ClaimProcessedEventResult,
+  type DailyProgressUpdate,
+  type GamificationRepository,
+  type StreakFreezeEquip,
+  type StreakFreezeEquipOutcome,
+  type StreakFreezePurchase,
+  type StreakFreezePurchaseOutcome,
+  type XPReversalBatch,
+  type XPReversalOutcome,
+  type StreakUpdate,
+  type UserAchievementProgressUpdate,
+  type UserMetrics,
+  type UserProgressUpdate,
+} from "./gamification.repository";
+
+export interface InMemoryRepositorySeed {
+  achievements?: Achievement[];
+}
+
+/**
+ * Implementação do GamificationRepository em memória.
+ *
+ * Reproduz o comportamento do FirestoreService (valores padrão, merges,
+ * validações e mensagens de erro) sem depender do Firebase, permitindo
+ * rodar a API localmente e nos testes de integração.
+ * Os dados são perdidos ao reiniciar o processo.
+ */
+export class InMemoryRepository implements GamificationRepository {
+  private readonly users = new Map<string, { fcmToken?: string | null }>();
+  private readonly profiles = new Map<string, UserProgress>();
+  private readonly dailyProgress = new Map<
+    string,
+    Map<string, DailyProgress>
+  >();
+  private readonly dailyGoalSettings = new Map<string, DailyGoalSettings>();
+  private readonly xpTransactions = new Map<
+    string,
+    Map<string, XPTransaction>
+  >();
+  private readonly achievements = new Map<string, Achievement>();
+  private readonly userAchievements = new Map<
+    string,
+    Map<string, UserAchievementProgress>
+  >();
+  private readonly streaks = new Map<string, StreakData>();
+  private readonly streakProcessedDates = new Map<string, string>();
+  private readonly userMetrics = new Map<string, UserMetrics>();
+  private readonly rankings = new Map<string, Ranking>();
+  private readonly studySessions = new Map<string, StudySession>();
+  private readonly processedEvents = new Map<string, ProcessedEvent>();
+  private readonly auditRecords: AuditRecord[] = [];
+  private readonly antiAbuseFlags = new Map<string, AntiAbuseDailyFlag>();
+  private readonly xpBoosts = new Map<string, XPBoost>();
+  private readonly quests = new Map<string, Map<string, UserQuest>>();
+  private readonly friendships = new Map<string, Friendship>();
+  private readonly studyGroups = new Map<string, StudyGroup>();
+  private readonly reminderLogs = new Map<string, ReminderLog>();
+  private readonly notificationPreferences = new Map<
+    string,
+    NotificationPreferences
+  >();
+  private readonly inboxNotifications = new Map<
+    string,
+    Map<string, InboxNotification>
+  >();
+
+  constructor(seed: InMemoryRepositorySeed = {}) {
+    for (const achievement of seed.achievements ?? []) {
+      this.achievements.set(achievement.id, clone(achievement));
+    }
+  }
+
+  // =============================================================================
+  // SEED (sem equivalente no Firestore: dados gravados fora deste serviço)
+  // =============================================================================
+
+  setUserFcmToken(userId: string, fcmToken: string | null): void {
+    this.users.set(userId, { ...this.users.get(userId), fcmToken });
+  }
+
+  // =============================================================================
+  // USER PROGRESS
+  // =============================================================================
+
+  async getUserProgress(userId: string): Promise<UserProgress> {
+    const progress = this.profiles.get(userId);
+
+    if (!progress) {
+      throw new Error(`Progresso do usuário "${userId}" não encontrado.`);
+    }
+
+    if (!isValidUserProgress(progress)) {
+      throw new Error(
+        `Documento de progresso do usuário "${userId}" possui dados inválidos.`
+      );
+    }
+
+    return UserProgressHelpers.sanitize(clone(progress));
+  }
+
+  async createUserProgress(userId: string): Promise<UserProgress> {
+    this.profiles.set(userId, {
+      ...clone(DEFAULT_USER_PROGRESS),
+      userId,
+      createdAt: new Date(),
+      lastActivityDate: null,
+    });
+
+    return this.getUserProgress(userId);
+  }
+
+  async updateUserProgress(
+    userId: string,
+    partial: UserProgressUpdate
+  ): Promise<UserProgress> {
+    const sanitized = removeUndefined({
+      ...partial,
+      achievements: Array.isArray(partial.achievements)
+        ? [
+            ...new Set(
+              partial.achievements.map((id) => id.trim()).filter(Boolean)
+            ),
+          ]
+        : undefined,
+      lastActivityDate: partial.lastActivityDate ?? undefined,
+      currentStreak:
+        typeof partial.currentStreak === "number"
+          ? Math.max(0, Math.floor(partial.currentStreak))
+          : undefined,
+      longestStreak:
+        typeof partial.longestStreak === "number"
+          ? Math.max(0, Math.floor(partial.longestStreak))
+          : undefined,
+    });
+
+    this.profiles.set(userId, {
+      ...this.getProfileOrDefault(userId),
+      ...clone(sanitized),
+    });
+
+    return this.getUserProgress(userId);
+  }
+
+  async getUserTimezone(userId: string): Promise<string | null> {
+    return this.profiles.get(userId)?.timezone || null;
+  }
+
+  async setUserTimezone(
+    userId: string,
+    timezone: string | null
+  ): Promise<void> {
+    this.profiles.set(userId, {
+      ...this.getProfileOrDefault(userId),
+      timezone,
+    });
+  }
+
+  async getUserTimezones(): Promise<Map<string, string>> {
+    const timezones = new Map<string, string>();
+
+    for (const [userId, progress] of this.profiles) {
+      if (progress.timezone) {
+        timezones.set(userId, progress.timezone);
+      }
+    }
+
+    return timezones;
+  }
+
+  async getAllUserIds(): Promise<string[]> {
+    return [...new Set([...this.users.keys(), ...this.profiles.keys()])];
+  }
+
+  // =============================================================================
+  // DAILY PROGRESS
+  // =============================================================================
+
+  async getDailyProgress(userId: string, date: string): Promise<DailyProgress> {
+    const progress = this.dailyProgress.get(userId)?.get(date);
+
+    if (!progress) {
+      throw new Error(
+        `Progresso diário do usuário "${userId}" para "${date}" não encontrado.`
+      );
+    }
+
+    if (!isValidDailyProgress(progress)) {
+      throw new Error(
+        `Documento de progresso diário do usuário "${userId}" está inválido.`
+      );
+    }
+
+    return clone(progress);
+  }
+
+  async updateDailyProgress(
+    userId: string,
+    date: string,
+    update: DailyProgressUpdate
+  ): Promise<DailyProgress> {
+    const days = getOrCreate(this.dailyProgress, userId, () => new Map());
+    const existing: DailyProgress = days.get(date) ?? {
+      userId,
+      date,
+      cardsReviewed: 0,
+      minutesStudied: 0,
+      goalMet: false,
+      xpEarned: 0,
+      timestamp: new Date(0),
+    };
+
+    days.set(date, {
+      ...existing,
+      ...clone(removeUndefined({ ...update })),
+      userId,
+      date,
+      timestamp: update.timestamp ?? new Date(),
+    });
+
+    return this.getDailyProgress(userId, date);
+  }
+
+  async getDailyGoalSettings(
+    userId: string
+  ): Promise<DailyGoalSettings | null> {
+    const settings = this.dailyGoalSettings.get(userId);
+
+    if (!settings) {
+      return null;
+    }
+
+    return {
+      ...clone(settings),
+      history: [...settings.history]
+        .map((entry) => ({ ...entry }))
+        .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)),
+    };
+  }
+
+  async saveDailyGoalSettings(settings: DailyGoalSettings): Promise<void> {
+    this.dailyGoalSettings.set(settings.userId, clone(settings));
+  }
+
+  // =============================================================================
+  // XP TRANSACTIONS
+  // =============================================================================
+
+  async createXPTransaction(transaction: XPTransaction): Promise<void> {
+    if (!isValidXPTransaction(transaction)) {
+      throw new Error("Transação de XP inválida.");
+    }
+
+    this.storeXPTransaction({
+      ...transaction,
+      timestamp: transaction.timestamp ?? new Date(),
+    });
+  }
+
+  async createXPTransactions(transactions: XPTransaction[]): Promise<void> {
+    if (
+      transactions.some((transaction) => !isValidXPTransaction(transaction))
+    ) {
+      throw new Error("Transação de XP inválida.");
+    }
+
+    transactions.forEach((transaction) => this.storeXPTransaction(transaction));
+  }
+
+  async getUserXPTransactions(
+    userId: string,
+    limit = 25
+  ): Promise<XPTransaction[]> {
+    const cappedLimit = Math.max(1, Math.min(200, Math.floor(limit)));
+
+    return this.listUserXPTransactions(userId)
+      .sort((a, b) => toMillis(b.timestamp) - toMillis(a.timestamp))
+      .slice(0, cappedLimit);
+  }
+
+  async getXPTransaction(
+    userId: string,
+    transactionId: string
+  ): Promise<XPTransaction | null> {
+    const transaction = this.xpTransactions.get(userId)?.get(transactionId);
+    return transaction ? clone(transaction) : null;
+  }
+
+  async getXPTransactionsByIds(
+    userId: string,
+    transactionIds: string[]
+  ): Promise<XPTransaction[]> {
+    const transactions = this.xpTransactions.get(userId);
+
+    return transactionIds.flatMap((transactionId) => {
+      const transaction = transactions?.get(transactionId);
+      return transaction ? [clone(transaction)] : [];
+    });
+  }
+
+  async completeXPTransactionEvents(
+    userId: string,
+    transactionIds: string[]
+  ): Promise<void> {
+    for (const transactionId of transactionIds) {
+      delete this.xpTransactions.get(userId)?.get(transactionId)?.eventPending;
+    }
+  }
+
+  async countXPTransactionsBySource(
+    userId: string,
+    source: XPSource
+  ): Promise<number> {
+    const transactions = this.listUserXPTransactions(userId);
+    const reversed = transactions.filter(
+      (transaction) =>
+        transaction.source === XPSource.REVERSAL &&
+        transaction.reversedSource === source
+    ).length;
+
+    return (
+      transactions.filter((transaction) => transaction.source === source)
+        .length - reversed
+    );
+  }
+
+  async getUserXPTransactionsBySource(
+    userId: string,
+    source: XPSource,
+    sourceId: string
+  ): Promise<XPTransaction[]> {
+    return this.listUserXPTransactions(userId).filter(
+      (transaction) =>
+        transaction.source === source && transaction.sourceId === sourceId
+    );
+  }
+
+  async getUserXPTransactionsByDeck(
+    userId: string,
+    deckId: string,
+    source: XPSource
+  ): Promise<XPTransaction[]> {
+    return this.listUserXPTransactions(userId).filter(
+      (transaction) =>
+        transaction.source === source && transaction.deckId === deckId
+    );
+  }
+
+  async applyXPReversals(
+    userId: string,
+    { reversals, levelFor }: XPReversalBatch
+  ): Promise<XPReversalOutcome> {
+    if (!reversals.every(isValidXPTransaction)) {
+      throw new Error("Transação de XP inválida.");
+    }
+
+    const before = UserProgressHelpers.sanitize(
+      clone(this.getProfileOrDefault(userId))
+    );
+    const existing = this.xpTransactions.get(userId);
+    const created = reversals.filter((reversal) => !existing?.has(reversal.id));
+    const alreadyReversed = reversals
+      .filter((reversal) => existing?.has(reversal.id))
+      .map((reversal) => reversal.reversalOf ?? reversal.id);
+
+    if (!created.length) {
+      return { before, after: before, reversals: [], alreadyReversed };
+    }
+
+    const totalXP = Math.max(
+      0,
+      created.reduce(
+        (total, reversal) => total + reversal.amount,
+        before.totalXP
+      )
+    );
+    const after: UserProgress = { ...before, ...levelFor(totalXP), totalXP };
+
+    this.profiles.set(userId, clone(after));
+    created.forEach((reversal) => this.storeXPTransaction(reversal));
+
+    return { before, after, reversals: created, alreadyReversed };
+  }
+
+  async getXPTransactionsByPeriod(
+    startDate: Date,
+    endDate: Date,
+    source?: XPSource
+  ): Promise<XPTransaction[]> {
+    return [...this.xpTransactions.keys()]
+      .flatMap((userId) => this.listUserXPTransactions(userId))
+      .filter(
+        (transaction) =>
+          isWithinPeriod(transaction.timestamp, startDate, endDate) &&
+          (!source || transaction.source === source)
+      );
+  }
+
+  async getUserXPTransactionsByPeriod(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<XPTransaction[]> {
+    return this.listUserXPTransactions(userId).filter((transaction) =>
+      isWithinPeriod(transaction.timestamp, startDate, endDate)
+    );
+  }
+
+  // =============================================================================
+  // ACHIEVEMENTS
+  // =============================================================================
+
+  async getAchievement(achievementId: string): Promise<Achievement> {
+    const achievement = this.achievements.get(achievementId);
+
+    if (!achievement) {
+      throw new Error(`Conquista "${achievementId}" não encontrada.`);
+    }
+
+    const normalized = this.mapAchievement(achievement);
+
+    if (!isValidAchievement(normalized)) {
+      throw new Error(
+        `Documento da conquista "${achievementId}" possui dados inválidos.`
+      );
+    }
+
+    return normalized;
+  }
+
+  async getAllAchievements(): Promise<Achievement[]> {
+    return [...this.achievements.values()]
+      .map((achievement) => this.mapAchievement(achievement))
+      .filter((achievement) => isValidAchievement(achievement));
+  }
+
+  async saveAchievement(achievement: Achievement): Promise<void> {
+    this.achievements.set(achievement.id, {
+      ...clone(achievement),
+      updatedAt: achievement.updatedAt ?? new Date(),
+    });
+  }
+
+  async deleteAchievement(achievementId: string): Promise<void> {
+    this.achievements.delete(achievementId);
+  }
+
+  async getUserAchievements(
+    userId: string
+  ): Promise<UserAchievementProgress[]> {
+    return [...(this.userAchievements.get(userId)?.values() ?? [])].map(
+      (entry) => this.mapUserAchievement(entry)
+    );
+  }
+
+  async getUserAchievementProgress(
+    userId: string,
+    achievementId: string
+  ): Promise<UserAchievementProgress | null> {
+    const entry = this.userAchievements.get(userId)?.get(achievementId);
+    return entry ? this.mapUserAchievement(entry) : null;
+  }
+
+  async unlockAchievement(
+    userId: string,
+    achievementId: string
+  ): Promise<{ progress: UserAchievementProgress; isNewUnlock: boolean }> {
+    const entries = getOrCreate(this.userAchievements, userId, () => new Map());
+    const existing = entries.get(achievementId);
+
+    // Se já está desbloqueada, não fazer nada (mesma regra da transação do Firestore)
+    if (existing && existing.unlockedAt !== null) {
+      return {
+        progress: this.mapUserAchievement(existing),
+        isNewUnlock: false,
+      };
+    }
+
+    const now = new Date();
+    const unlocked: UserAchievementProgress = {
+      ...existing,
+      userId,
+      achievementId,
+      progress: 100,
+      claimed: false,
+      rewardPending: true,
+      unlockedAt: now,
+      notificationSeen: false,
+      updatedAt: now,
+    };
+    entries.set(achievementId, unlocked);
+
+    return { progress: this.mapUserAchievement(unlocked), isNewUnlock: true };
+  }
+
+  async claimAchievementReward(
+    userId: string,
+    achievementId: string
+  ): Promise<{ progress: UserAchievementProgress; isNewClaim: boolean }> {
+    const entry = this.userAchievements.get(userId)?.get(achievementId);
+
+    if (!entry || entry.unlockedAt === null) {
+      throw new Error(
+        `Conquista "${achievementId}" ainda não foi desbloqueada por "${userId}".`
+      );
+    }
+
+    if (entry.claimed || entry.rewardPending !== true) {
+      return { progress: this.mapUserAchievement(entry), isNewClaim: false };
+    }
+
+    const now = new Date();
+    Object.assign(entry, {
+      claimed: true,
+      rewardPending: false,
+      claimedAt: now,
+      updatedAt: now,
+    });
+
+    return { progress: this.mapUserAchievement(entry), isNewClaim: true };
+  }
+
+  async releaseAchievementRewardClaim(
+    userId: string,
+    achievementId: string
+  ): Promise<void> {
+    const entry = this.userAchievements.get(userId)?.get(achievementId);
+
+    if (entry?.claimed) {
+      Object.assign(entry, {
+        claimed: false,
+        rewardPending: true,
+        claimedAt: null,
+        updatedAt: new Date(),
+      });
+    }
+  }
+
+  async revokeAchievement(
+    userId: string,
+    achievementId: string
+  ): Promise<UserAchievementProgress | null> {
+    const entries = this.userAchievements.get(userId);
+    const entry = entries?.get(achievementId);
+
+    if (!entry || entry.unlockedAt === null) {
+      return null;
+    }
+
+    entries?.delete(achievementId);
+    return this.mapUserAchievement(entry);
+  }
+
+  async markAllAchievementsAsSeen(userId: string): Promise<void> {
+    for (const entry of this.userAchievements.get(userId)?.values() ?? []) {
+      if (entry.unlockedAt !== null && entry.notificationSeen === false) {
+        entry.notificationSeen = true;
+        entry.updatedAt = new Date();
+      }
+    }
+  }
+
+  async updateAchievementProgress(
+    userId: string,
+    achievementId: string,
+    update: UserAchievementProgressUpdate
+  ): Promise<UserAchievementProgress> {
+    const entries = getOrCreate(this.userAchievements, userId, () => new Map());
+    const existing: UserAchievementProgress = entries.get(achievementId) ?? {
+      userId,
+      achievementId,
+      unlockedAt: null,
+      progress: 0,
+      claimed: false,
+      notificationSeen: false,
+      updatedAt: null,
+    };
+
+    const updated: UserAchievementProgress = {
+      ...existing,
+      ...clone(removeUndefined({ ...update })),
+      userId,
+      achievementId,
+      updatedAt: new Date(),
+    };
+    entries.set(achievementId, updated);
+
+    return this.mapUserAchievement(updated);
+  }
+
+  // =============================================================================
+  // STREAKS
+  // =============================================================================
+
+  async getStreakData(userId: string): Promise<StreakData> {
+    const streak = this.streaks.get(userId);
+
+    if (!streak) {
+      throw new Error(`Dados de streak para "${userId}" não encontrados.`);
+    }
+
+    const mapped: StreakData = {
+      ...clone(streak),
+      history: sortStreakHistory(clone(streak.history)),
+      freezesAvailable: streak.freezesAvailable ?? 0,
+      freezesEquipped: streak.freezesEquipped ?? 0,
+    };
+
+    if (!isValidStreakData(mapped)) {
+      throw new Error(`Documento de streak do usuário "${userId}" inválido.`);
+    }
+
+    return mapped;
+  }
+
+  async updateStreak(
+    userId: string,
+    update: StreakUpdate
+  ): Promise<StreakData> {
+    const existing: StreakData = this.streaks.get(userId) ?? {
+      userId,
+      current: 0,
+      longest: 0,
+      lastUpdate: new Date(0),
+      history: [],
+    };
+
+    this.streaks.set(userId, {
+      ...existing,
+      ...clone(removeUndefined({ ...update })),
+      userId,
+      history: update.history
+        ? sortStreakHistory(clone(update.history))
+        : existing.history,
+      lastUpdate: update.lastUpdate ?? new Date(),
+    });
+
+    return this.getStreakData(userId);
+  }
+
+  async purchaseStreakFreezes(
+    userId: string,
+    { quantity, maxInventory, transaction, levelFor }: StreakFreezePurchase
+  ): Promise<StreakFreezePurchaseOutcome> {
+    if (!isValidXPTransaction(transaction)) {
+      throw new Error("Transação de XP inválida.");
+    }
+
+    const streak = this.streaks.get(userId);
+    const freezesAvailable = streak?.freezesAvailable ?? 0;
+
+    if (
+      freezesAvailable + (streak?.freezesEquipped ?? 0) + quantity >
+      maxInventory
+    ) {
+      return { status: "inventory_full" };
+    }
+
+    const before = UserProgressHelpers.sanitize(
+      clone(this.getProfileOrDefault(userId))
+    );
+    const cost = -transaction.amount;
+
+    if (before.totalXP < cost) {
+      return { status: "insufficient_xp", totalXP: before.totalXP };
+    }
+
+    const totalXP = before.totalXP - cost;
+    const after: UserProgress = { ...before, ...levelFor(totalXP), totalXP };
+
+    this.profiles.set(userId, clone(after));
+    this.storeXPTransaction(transaction);
+
+    return {
+      status: "purchased",
+      before,
+      after,
+      streak: await this.updateStreak(userId, {
+        freezesAvailable: freezesAvailable + quantity,
+      }),
+    };
+  }
+
+  async equipStreakFreezes(
+    userId: string,
+    { quantity, maxEquipped }: StreakFreezeEquip
+  ): Promise<StreakFreezeEquipOutcome> {
+    const streak = this.streaks.get(userId);
+    const freezesAvailable = streak?.freezesAvailable ?? 0;
+    const freezesEquipped = streak?.freezesEquipped ?? 0;
+
+    if (freezesAvailable < quantity) {
+      return { status: "insufficient_stock" };
+    }
+
+    if (freezesEquipped + quantity > maxEquipped) {
+      return { status: "equipped_full" };
+    }
+
+    return {
+      status: "equipped",
+      streak: await this.updateStreak(userId, {
+        freezesAvailable: freezesAvailable - quantity,
+        freezesEquipped: freezesEquipped + quantity,
+      }),
+    };
+  }
+
+  async getStreakProcessedDates(): Promise<Map<string, string>> {
+    return new Map(this.streakProcessedDates);
+  }
+
+  async markStreakProcessed(userId: string, date: string): Promise<void> {
+    this.streakProcessedDates.set(userId, date);
+  }
+
+  // =============================================================================
+  // STATISTICS & RANKINGS
+  // =============================================================================
+
+  async getStudySessionsByPeriod(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<StudySession[]> {
+    return [...this.studySessions.values()]
+      .filter(
+        (session) =>
+          session.userId === userId &&
+          isWithinPeriod(session.timestamp, startDate, endDate)
+      )
+      .map((session) => clone(session));
+  }
+
+  async saveStudySession(session: StudySession): Promise<StudySession | null> {
+    if (!isValidStudySession(session)) {
+      throw new Error("Sessão de estudo inválida.");
+    }
+
+    const existing = this.studySessions.get(session.id);
+    if (existing && existing.userId !== session.userId) {
+      return null;
+    }
+
+    this.studySessions.set(session.id, clone(session));
+    return session;
+  }
+
+  async getRankingSnapshot(rankingId: string): Promise<Ranking | null> {
+    const ranking = this.rankings.get(rankingId);
+    return ranking ? clone(ranking) : null;
+  }
+
+  async saveRankingSnapshot(ranking: Ranking): Promise<void> {
+    this.rankings.set(ranking.id, clone(ranking));
+  }
+
+  // =============================================================================
+  // IDEMPOTENCY
+  // =============================================================================
+
+  async claimProcessedEvent(
+    event: ProcessedEvent,
+    canReplace: (existing: ProcessedEvent) => boolean
+  ): Promise<ClaimProcessedEventResult> {
+    // Verificação e escrita no mesmo tick: equivalente à transação do Firestore
+    const existing = this.processedEvents.get(event.id);
+
+    if (existing && !canReplace(clone(existing))) {
+      return { claimed: false, existing: clone(existing) };
+    }
+
+    this.processedEvents.set(event.id, clone(event));
+    return { claimed: true };
+  }
+
+  async completeProcessedEvent(
+    recordId: string,
+    statusCode: number,
+    response: Record<string, unknown>
+  ): Promise<void> {
+    const existing = this.processedEvents.get(recordId);
+
+    if (existing) {
+      this.processedEvents.set(recordId, {
+        ...existing,
+        status: "completed",
+        statusCode,
+        response: JSON.parse(JSON.stringify(response)),
+      });
+    }
+  }
+
+  async deleteProcessedEvent(recordId: string): Promise<void> {
+    this.processedEvents.delete(recordId);
+  }
+
+  // =============================================================================
+  // AUDIT
+  // =============================================================================
+
+  async createAuditRecord(record: AuditRecord): Promise<void> {
+    this.auditRecords.push(clone(record));
+  }
+
+  async getUserAuditRecords(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    limit: number,
+    actions?: AuditAction[]
+  ): Promise<AuditRecord[]> {
+    return this.auditRecords
+      .filter(
+        (record) =>
+          record.targetUserId === userId &&
+          isWithinPeriod(record.createdAt, startDate, endDate) &&
+          (!actions?.length || actions.includes(record.action))
+      )
+      .sort((a, b) => toMillis(b.createdAt) - toMillis(a.createdAt))
+      .slice(0, limit)
+      .map(clone);
+  }
+
+  // =============================================================================
+  // ANTI-ABUSE
+  // =============================================================================
+
+  async recordAntiAbuseViolation(
+    userId: string,
+    date: string,
+    violation: AntiAbuseViolation,
+    occurredAt: Date
+  ): Promise<void> {
+    const id = getAntiAbuseFlagId(userId, date);
+    const existing = this.antiAbuseFlags.get(id);
+    const reasons = { ...existing?.reasons };
+
+    for (const [reason, count] of Object.entries(violation.reasons)) {
+      const key = reason as keyof typeof reasons;
+      reasons[key] = (reasons[key] ?? 0) + (count ?? 0);
+    }
+
+    this.antiAbuseFlags.set(id, {
+      userId,
+      date,
+      violations: (existing?.violations ?? 0) + violation.violations,
+      reasons,
+      reviewsBlocked:
+        (existing?.reviewsBlocked ?? 0) + violation.reviewsBlocked,
+      xpWithheld: (existing?.xpWithheld ?? 0) + violation.xpWithheld,
+      lastViolationAt: new Date(occurredAt),
+    });
+  }
+
+  async getAntiAbuseFlags(
+    startDate: string,
+    endDate: string
+  ): Promise<AntiAbuseDailyFlag[]> {
+    return [...this.antiAbuseFlags.values()]
+      .filter((flag) => flag.date >= startDate && flag.date <= endDate)
+      .map(clone);
+  }
+
+  // =============================================================================
+  // XP BOOSTS
+  // =============================================================================
+
+  async saveXPBoost(boost: XPBoost): Promise<void> {
+    this.xpBoosts.set(boost.id, clone(boost));
+  }
+
+  async getXPBoost(boostId: string): Promise<XPBoost | null> {
+    const boost = this.xpBoosts.get(boostId);
+    return boost ? clone(boost) : null;
+  }
+
+  async getXPBoostsEndingAfter(
+    date: Date,
+    userId?: string
+  ): Promise<XPBoost[]> {
+    return [...this.xpBoosts.values()]
+      .filter((boost) => toMillis(boost.endsAt) > date.getTime())
+      .filter(
+        (boost) =>
+          userId === undefined || !boost.userId || boost.userId === userId
+      )
+      .map(clone);
+  }
+
+  // =============================================================================
+  // QUESTS
+  // =============================================================================
+
+  async getUserQuests(
+    userId: string,
+    periodKeys: string[]
+  ): Promise<UserQuest[]> {
+    return [...(this.quests.get(userId)?.values() ?? [])]
+      .filter((quest) => periodKeys.includes(quest.periodKey))
+      .map(clone);
+  }
+
+  async getUserQuest(
+    userId: string,
+    questId: string
+  ): Promise<UserQuest | null> {
+    const quest = this.quests.get(userId)?.get(questId);
+    return quest ? clone(quest) : null;
+  }
+
+  async createUserQuests(
+    userId: string,
+    quests: UserQuest[]
+  ): Promise<UserQuest[]> {
+    const entries = getOrCreate(this.quests, userId, () => new Map());
+
+    return quests.map((quest) => {
+      const existing = entries.get(quest.id);
+      if (existing) {
+        return clone(existing);
+      }
+
+      entries.set(quest.id, clone(quest));
+      return clone(quest);
+    });
+  }
+
+  async updateQuestProgress(
+    userId: string,
+    questId: string,
+    amount: number,
+    deckIds: string[] = []
+  ): Promise<{ quest: UserQuest; isNewCompletion: boolean } | null> {
+    const entries = this.quests.get(userId);
+    const quest = entries?.get(questId);
+
+    if (!entries || !quest) {
+      return null;
+    }
+
+    const result = advanceQuest(quest, amount, deckIds);
+    entries.set(questId, result.quest);
+
+    return {
+      quest: clone(result.quest),
+      isNewCompletion: result.isNewCompletion,
+    };
+  }
+
+  async claimQuestReward(
+    userId: string,
+    questId: string
+  ): Promise<{ quest: UserQuest; isNewClaim: boolean } | null> {
+    const quest = this.quests.get(userId)?.get(questId);
+
+    if (!quest) {
+      return null;
+    }
+
+    if (quest.completedAt === null || quest.claimedAt !== null) {
+      return { quest: clone(quest), isNewClaim: false };
+    }
+
+    quest.claimedAt = new Date();
+    return { quest: clone(quest), isNewClaim: true };
+  }
+
+  async releaseQuestRewardClaim(
+    userId: string,
+    questId: string
+  ): Promise<void> {
+    const quest = this.quests.get(userId)?.get(questId);
+
+    if (quest) {
+      quest.claimedAt = null;
+    }
+  }
+
+  // =============================================================================
+  // FRIENDSHIPS
+  // =============================================================================
+
+  async getFriendship(
+    userId: string,
+    otherUserId: string
+  ): Promise<Friendship | null> {
+    const friendship = this.friendships.get(
+      getFriendshipId(userId, otherUserId)
+    );
+    return friendship ? clone(friendship) : null;
+  }
+
+  async saveFriendship(friendship: Friendship): Promise<void> {
+    this.friendships.set(friendship.id, clone(friendship));
+  }
+
+  async deleteFriendship(userId: string, otherUserId: string): Promise<void> {
+    this.friendships.delete(getFriendshipId(userId, otherUserId));
+  }
+
+  async getUserFriendships(userId: string): Promise<Friendship[]> {
+    return [...this.friendships.values()]
+      .filter((friendship) => friendship.userIds.includes(userId))
+      .map(clone);
+  }
+
+  // =============================================================================
+  // STUDY GROUPS
+  // =============================================================================
+
+  async getStudyGroup(groupId: string): Promise<StudyGroup | null> {
+    const group = this.studyGroups.get(groupId);
+    return group ? clone(group) : null;
+  }
+
+  async saveStudyGroup(group: StudyGroup): Promise<void> {
+    this.studyGroups.set(group.id, clone(group));
+  }
+
+  async deleteStudyGroup(groupId: string): Promise<void> {
+    this.studyGroups.delete(groupId);
+  }
+
+  async getUserStudyGroups(userId: string): Promise<StudyGroup[]> {
+    return [...this.studyGroups.values()]
+      .filter((group) => group.memberIds.includes(userId))
+      .map(clone);
+  }
+
+  async getStudyGroupInvites(userId: string): Promise<StudyGroup[]> {
+    return [...this.studyGroups.values()]
+      .filter((group) => group.invitedIds.includes(userId))
+      .map(clone);
+  }
+
+  async getAllStudyGroups(): Promise<StudyGroup[]> {
+    return [...this.studyGroups.values()].map(clone);
+  }
+
+  async completeStudyGroupGoal(
+    groupId: string,
+    weekStart: string
+  ): Promise<boolean> {
+    const group = this.studyGroups.get(groupId);
+
+    if (!group || group.completedGoalWeeks.includes(weekStart)) {
+      return false;
+    }
+
+    group.completedGoalWeeks = [...group.completedGoalWeeks, weekStart];
+    return true;
+  }
+
+  // =============================================================================
+  // REMINDERS
+  // =============================================================================
+
+  async getReminderLog(userId: string): Promise<ReminderLog | null> {
+    const log = this.reminderLogs.get(userId);
+    return log ? clone(log) : null;
+  }
+
+  async recordReminderSent(
+    userId: string,
+    type: ReminderType,
+    date: string,
+    sentAt: Date
+  ): Promise<ReminderLog> {
+    const log = appendReminderSent(
+      this.reminderLogs.get(userId) ?? null,
+      userId,
+      type,
+      date,
+      sentAt
+    );
+
+    this.reminderLogs.set(userId, log);
+    return clone(log);
+  }
+
+  // =============================================================================
+  // NOTIFICATION PREFERENCES
+  // =============================================================================
+
+  async getNotificationPreferences(
+    userId: string
+  ): Promise<NotificationPreferences | null> {
+    const preferences = this.notificationPreferences.get(userId);
+    return preferences ? clone(preferences) : null;
+  }
+
+  async saveNotificationPreferences(
+    preferences: NotificationPreferences
+  ): Promise<void> {
+    this.notificationPreferences.set(preferences.userId, clone(preferences));
+  }
+
+  async getAllNotificationPreferences(): Promise<NotificationPreferences[]> {
+    return [...this.notificationPreferences.values()].map(clone);
+  }
+
+  // =============================================================================
+  // NOTIFICATION INBOX
+  // =============================================================================
+
+  async addInboxNotifications(
+    notifications: InboxNotification[]
+  ): Promise<void> {
+    for (const notification of notifications) {
+      getOrCreate(
+        this.inboxNotifications,
+        notification.userId,
+        () => new Map()
+      ).set(notification.id, clone(notification));
+    }
+  }
+
+  async getInboxNotifications(
+    userId: string,
+    options: InboxPageOptions
+  ): Promise<InboxNotification[]> {
+    const notifications = [
+      ...(this.inboxNotifications.get(userId)?.values() ?? []),
+    ]
+      .filter((notification) => !options.unreadOnly || !notification.read)
+      .sort(
+        (a, b) =>
+          toMillis(b.createdAt) - toMillis(a.createdAt) ||
+          b.id.localeCompare(a.id)
+      );
+
+    const start = options.cursor
+      ? notifications.findIndex(({ id }) => id === options.cursor) + 1
+      : 0;
+
+    return notifications.slice(start, start + options.limit).map(clone);
+  }
+
+  async countUnreadInboxNotifications(userId: string): Promise<number> {
+    return [...(this.inboxNotifications.get(userId)?.values() ?? [])].filter(
+      (notification) => !notification.read
+    ).length;
+  }
+
+  async markInboxNotificationRead(
+    userId: string,
+    notificationId: string,
+    readAt: Date
+  ): Promise<boolean> {
+    const notification = this.inboxNotifications
+      .get(userId)
+      ?.get(notificationId);
+
+    if (!notification) {
+      return false;
+    }
+
+    if (!notification.read) {
+      notification.read = true;
+      notification.readAt = readAt;
+    }
+
+    return true;
+  }
+
+  async markAllInboxNotificationsRead(
+    userId: string,
+    readAt: Date
+  ): Promise<number> {
+    let updated = 0;
+
+    for (const notification of this.inboxNotifications.get(userId)?.values() ??
+      []) {
+      if (!notification.read) {
+        notification.read = true;
+        notification.readAt = readAt;
+        updated++;
+      }
+    }
+
+    return updated;
+  }
+
+  async deleteExpiredInboxNotifications(now: Date): Promise<number> {
+    let deleted = 0;
+
+    for (const notifications of this.inboxNotifications.values()) {
+      for (const [id, notification] of notifications) {
+        if (toMillis(notification.expiresAt) <= now.getTime()) {
+          notifications.delete(id);
+          deleted++;
+        }
+      }
+    }
+
+    return deleted;
+  }
+
+  // =============================================================================
+  // FCM TOKENS
+  // =============================================================================
+
+  async getUserFcmToken(userId: string): Promise<string | null> {
+    return this.users.get(userId)?.fcmToken || null;
+  }
+
+  async getAllFcmTokens(): Promise<string[]> {
+    return [...this.users.values()].flatMap((user) =>
+      typeof user.fcmToken === "string" && user.fcmToken ? [user.fcmToken] : []
+    );
+  }
+
+  async getUserIdByFcmToken(fcmToken: string): Promise<string | null> {
+    for (const [userId, user] of this.users) {
+      if (user.fcmToken === fcmToken) {
+        return userId;
+      }
+    }
+
+    return null;
+  }
+
+  // =============================================================================
+  // USER METRICS
+  // =============================================================================
+
+  async getUserMetrics(userId: string): Promise<UserMetrics> {
+    const metrics = this.userMetrics.get(userId);
+    return metrics ? clone(metrics) : createDefaultUserMetrics(userId);
+  }
+
+  async updateUserMetrics(
+    userId: string,
+    update: Partial<Omit<UserMetrics, "userId">>
+  ): Promise<UserMetrics> {
+    this.patchMetrics(userId, (metrics) =>
+      Object.assign(metrics, clone(removeUndefined({ ...update })))
+    );
+    return this.getUserMetrics(userId);
+  }
+
+  async addStudiedDeck(userId: string, deckId: string): Promise<void> {
+    this.patchMetrics(userId, (metrics) =>
+      addUnique(metrics.uniqueDecksStudied, deckId)
+    );
+  }
+
+  async addDeckStudiedToday(
+    userId: string,
+    deckId: string,
+    date: string = getLocalDateString()
+  ): Promise<void> {
+    const todayDecks = (await this.getUserMetrics(userId)).decksStudiedPerDay[
+      date
+    ];
+
+    if (todayDecks?.includes(deckId)) {
+      return;
+    }
+
+    this.patchMetrics(userId, (metrics) => {
+      const decks = [...(metrics.decksStudiedPerDay[date] ?? []), deckId];
+      metrics.decksStudiedPerDay[date] = decks;
+      metrics.maxDecksStudiedSameDay = Math.max(
+        metrics.maxDecksStudiedSameDay || 0,
+        decks.length
+      );
+    });
+  }
+
+  async addDifficultyLevelUsed(
+    userId: string,
+    difficulty: string
+  ): Promise<void> {
+    this.patchMetrics(userId, (metrics) =>
+      addUnique(metrics.difficultyLevelsUsed, difficulty)
+    );
+  }
+
+  async addMarketplaceDeck(userId: string, deckId: string): Promise<void> {
+    this.patchMetrics(userId, (metrics) =>
+      addUnique(metrics.marketplaceDecksAdded, deckId)
+    );
+  }
+
+  async setProfileCompleted(userId: string, completed: boolean): Promise<void> {
+    this.patchMetrics(userId, (metrics) => {
+      metrics.profileCompleted = completed;
+    });
+  }
+
+  async recordStudySessionTime(
+    userId: string,
+    date: string,
+    hour: number
+  ): Promise<void> {
+    this.patchMetrics(userId, (metrics) => {
+      if (hour < 8) {
+        addUnique(metrics.studySessionsBeforeHour, date);
+      }
+
+      if (hour >= 22) {
+        addUnique(metrics.studySessionsAfterHour, date);
+      }
+    });
+  }
+
+  async updateCardsPerDay(
+    userId: string,
+    date: string,
+    count: number
+  ): Promise<void> {
+    this.patchMetrics(userId, (metrics) => {
+      metrics.cardsPerDay[date] = count;
+      metrics.maxCardsInSingleDay = Math.max(
+        metrics.maxCardsInSingleDay || 0,
+        count
+      );
+    });
+  }
+
+  async addSharedDeck(userId: string, deckId: string): Promise<void> {
+    this.patchMetrics(userId, (metrics) =>
+      addUnique(metrics.decksShared, deckId)
+    );
+  }
+
+  async incrementDeckReviews(userId: string): Promise<void> {
+    this.patchMetrics(userId, (metrics) => {
+      metrics.deckReviewsSubmitted += 1;
+    });
+  }
+
+  async setActiveDecks(userId: string, deckIds: string[]): Promise<void> {
+    this.patchMetrics(userId, (metrics) => {
+      metrics.activeDecks = [...deckIds];
+    });
+  }
+
+  async addActiveDeck(userId: string, deckId: string): Promise<void> {
+    this.patchMetrics(userId, (metrics) =>
+      addUnique(metrics.activeDecks, deckId)
+    );
+  }
+
+  async removeActiveDeck(userId: string, deckId: string): Promise<void> {
+    this.patchMetrics(userId, (metrics) => {
+      metrics.activeDecks = metrics.activeDecks.filter((id) => id !== deckId);
+    });
+  }
+
+  async removeDeckFromMetrics(userId: string, deckId: string): Promise<void> {
+    this.patchMetrics(userId, (metrics) => {
+      metrics.activeDecks = metrics.activeDecks.filter((id) => id !== deckId);
+      metrics.uniqueDecksStudied = metrics.uniqueDecksStudied.filter(
+        (id) => id !== deckId
+      );
+      metrics.decksCompleted = metrics.decksCompleted.filter(
+        (id) => id !== deckId
+      );
+    });
+  }
+
+  async updateEasyCardsStreak(
+    userId: string,
+    currentStreak: number
+  ): Promise<void> {
+    this.patchMetrics(userId, (metrics) => {
+      metrics.easyCardsStreak = currentStreak;
+      metrics.maxEasyCardsStreak = Math.max(
+        metrics.maxEasyCardsStreak || 0,
+        currentStreak
+      );
+    });
+  }
+
+  async incrementHardCardsCompleted(userId: string, amount = 1): Promise<void> {
+    this.patchMetrics(userId, (metrics) => {
+      metrics.hardCardsCompleted += amount;
+    });
+  }
+
+  async incrementExpertCardsCompleted(userId: string): Promise<void> {
+    this.patchMetrics(userId, (metrics) => {
+      metrics.expertCardsCompleted += 1;
+    });
+  }
+
+  async addCompletedDeck(userId: string, deckId: string): Promise<void> {
+    this.patchMetrics(userId, (metrics) =>
+      addUnique(metrics.decksCompleted, deckId)
+    );
+  }
+
+  // ========== HELPER METHODS ==========
+
+  /**
+   * Perfil salvo ou um perfil com valores padrão (como um merge no Firestore
+   * sobre um documento inexistente)
+   */
+  private getProfileOrDefault(userId: string): UserProgress {
+    return (
+      this.profiles.get(userId) ?? {
+        ...clone(DEFAULT_USER_PROGRESS),
+        userId,
+      }
+    );
+  }
+
+  private storeXPTransaction(transaction: XPTransaction): void {
+    getOrCreate(this.xpTransactions, transaction.userId, () => new Map()).set(
+      transaction.id,
+      clone(transaction)
+    );
+  }
+
+  private listUserXPTransactions(userId: string): XPTransaction[] {
+    return [...(this.xpTransactions.get(userId)?.values() ?? [])].map(
+      (transaction) => clone(transaction)
+    );
+  }
+
+  private mapAchievement(achievement: Achievement): Achievement {
+    return normalizeAchievement({
+      ...clone(achievement),
+      isActive: achievement.isActive ?? true,
+      hidden: achievement.hidden ?? false,
+    });
+  }
+
+  private mapUserAchievement(
+    entry: UserAchievementProgress
+  ): UserAchievementProgress {
+    const normalized = normalizeUserAchievementProgress({
+      rewardPending: false,
+      claimedAt: null,
+      ...clone(entry),
+    });
+
+    if (!isValidUserAchievementProgress(normalized)) {
+      throw new Error(
+        `Dados inválidos para conquista do usuário "${entry.userId}" (${entry.achievementId}).`
+      );
+    }
+
+    return normalized;
+  }
+
+  private patchMetrics(
+    userId: string,
+    mutate: (metrics: UserMetrics) => void
+  ): void {
+    const metrics = clone(
+      this.userMetrics.get(userId) ?? createDefaultUserMetrics(userId)
+    );
+
+    mutate(metrics);
+    metrics.updatedAt = new Date();
+
+    this.userMetrics.set(userId, metrics);
+  }
+}
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+const getOrCreate = <K, V>(map: Map<K, V>, key: K, create: () => V): V => {
+  let value = map.get(key);
+
+  if (value === undefined) {
+    value = create();
+    map.set(key, value);
+  }
+
+  return value;
+};
+
+const addUnique = (list: string[], value: string): void => {
+  if (!list.includes(value)) {
+    list.push(value);
+  }
+};
+
+const toMillis = (value: Date | Timestamp): number =>
+  value instanceof Date ? value.getTime() : value.toMillis();
+
+const isWithinPeriod = (
+  value: Date | Timestamp,
+  startDate: Date,
+  endDate: Date
+): boolean => {
+  const millis = toMillis(value);
+  return millis >= startDate.getTime() && millis <= endDate.getTime();
+};
+
+type Defined<T> = { [K in keyof T]?: Exclude<T[K], undefined> };
+
+const removeUndefined = <T extends Record<string, unknown>>(
+  object: T
+): Defined<T> =>
+  Object.fromEntries(
+    Object.entries(object).filter(([, value]) => value !== undefined)
+  ) as Defined<T>;
@@ -0,0 +1,39 @@
+import {
+  getStorageBackend,
+  type StorageBackend,
+} from "../config/storage.config";
+import { FirestoreService } from "../services/firestore.service";
+import type { GamificationRepository } from "./gamification.repository";
+import { InMemoryRepository } from "./in-memory.repository";
+
+export function createRepository(
+  backend: StorageBackend = getStorageBackend()
+): GamificationRepository {
+  return backend === "memory"
+    ? new InMemoryRepository()
+    : new FirestoreService();
+}
+
+let repository: GamificationRepository | null = null;
+
+/**
+ * Repositório compartilhado por todos os services.
+ * Uma única instância garante que o backend em memória seja visto por toda a aplicação.
+ */
+export function getRepository(): GamificationRepository {
+  repository ??= createRepository();
+  return repository;
+}
+
+/**
+ * Substitui o repositório compartilhado (null volta a criar a partir do ambiente)
+ */
+export function setRepository(next: GamificationRepository | null): void {
+  repository = next;
+}
+
+export type {
+  GamificationRepository,
+  UserMetrics,
+} from "./gamification.repository";
+export { InMemoryRepository } from "./in-memory.repository";
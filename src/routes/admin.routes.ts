@@ -0,0 +1,644 @@
+import { Router } from "express";
+import { AdminController } from "../controllers/admin.controller";
+import { adminAuthMiddleware } from "../middlewares/auth.middleware";
+
+/**
+ * Admin Routes
+ *
+ * Rotas administrativas: catálogo de conquistas e operações sobre usuários.
+ * Além do token da API, exigem o header x-admin-token (ADMIN_API_TOKEN)
+ * ou um ID token do Firebase com role=admin.
+ * As operações sobre usuários gravam um registro de auditoria.
+ */
+
+const router = Router();
+const controller = new AdminController();
+
+router.use(adminAuthMiddleware);
+
+/**
+ * @swagger
+ * /api/admin/achievements:
+ *   get:
+ *     summary: Listar catálogo de conquistas
+ *     description: Retorna todas as conquistas, inclusive as desativadas
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     responses:
+ *       200:
+ *         description: Catálogo de conquistas
+ *       403:
+ *         description: Token administrativo ausente ou inválido
+ *   post:
+ *     summary: Criar conquista
+ *     description: |
+ *       Cria uma conquista no catálogo. Com `dryRun=true` a conquista é apenas
+ *       validada e o relatório indica quantos usuários a desbloqueariam imediatamente.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AchievementDefinition'
+ *           example:
+ *             id: decks_studied_5_same_day
+ *             name: Maratonista
+ *             description: Estude 5 decks diferentes no mesmo dia
+ *             tier: gold
+ *             xpReward: 150
+ *             icon: marathon
+ *             condition:
+ *               type: custom
+ *               target: 5
+ *               params:
+ *                 metric: decks_studied_same_day
+ *     responses:
+ *       201:
+ *         description: Conquista criada
+ *       200:
+ *         description: Resultado do dry-run (nada foi gravado)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 achievement:
+ *                   $ref: '#/components/schemas/AchievementDefinition'
+ *                 dryRun:
+ *                   $ref: '#/components/schemas/AchievementDryRun'
+ *       400:
+ *         description: Dados inválidos
+ *       409:
+ *         description: Já existe uma conquista com este ID
+ */
+router.get("/achievements", controller.listAchievements);
+router.post("/achievements", controller.createAchievement);
+
+/**
+ * @swagger
+ * /api/admin/achievements/{achievementId}:
+ *   get:
+ *     summary: Buscar conquista
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: achievementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Conquista encontrada
+ *       404:
+ *         description: Conquista não encontrada
+ *   patch:
+ *     summary: Atualizar conquista
+ *     description: |
+ *       Atualiza os campos informados. Use `isActive: false` para desativar
+ *       a conquista sem removê-la (ela deixa de ser concedida).
+ *       Com `dryRun=true` nada é gravado e o relatório do dry-run é retornado.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: achievementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AchievementDefinition'
+ *           example:
+ *             isActive: false
+ *     responses:
+ *       200:
+ *         description: Conquista atualizada (ou resultado do dry-run)
+ *       400:
+ *         description: Dados inválidos
+ *       404:
+ *         description: Conquista não encontrada
+ *   delete:
+ *     summary: Remover conquista
+ *     description: Remove a conquista do catálogo. O progresso dos usuários é mantido.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: achievementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Conquista removida
+ *       404:
+ *         description: Conquista não encontrada
+ */
+router.get("/achievements/:achievementId", controller.getAchievement);
+router.patch("/achievements/:achievementId", controller.updateAchievement);
+router.delete("/achievements/:achievementId", controller.deleteAchievement);
+
+/**
+ * @swagger
+ * /api/admin/achievements/{achievementId}/dry-run:
+ *   post:
+ *     summary: Simular conquista existente
+ *     description: Informa quantos usuários desbloqueariam a conquista na próxima verificação
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: achievementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Relatório do dry-run
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 dryRun:
+ *                   $ref: '#/components/schemas/AchievementDryRun'
+ *       404:
+ *         description: Conquista não encontrada
+ */
+router.post(
+  "/achievements/:achievementId/dry-run",
+  controller.dryRunAchievement
+);
+
+/**
+ * @swagger
+ * /api/admin/broadcast:
+ *   post:
+ *     summary: Enviar notificação para todos os usuários
+ *     description: Envia uma notificação push para todos os usuários com token FCM e registra a operação na auditoria
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [title, body, pushType]
+ *             properties:
+ *               title:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *               pushType:
+ *                 type: number
+ *                 description: Código do tipo de notificação (ex. 30 para Estudos, 5 para News)
+ *               additionalData:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Broadcast processado
+ *       403:
+ *         description: Acesso administrativo negado
+ */
+router.post("/broadcast", controller.sendBroadcast);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/xp:
+ *   post:
+ *     summary: Ajustar XP manualmente
+ *     description: Concede (amount positivo) ou debita (amount negativo) XP com transação MANUAL_ADJUSTMENT. Débitos maiores que o saldo zeram o XP do usuário (appliedAmount traz o valor efetivamente debitado).
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, reason]
+ *             properties:
+ *               amount:
+ *                 type: integer
+ *                 example: -150
+ *               reason:
+ *                 type: string
+ *                 example: Revisões duplicadas por bug no app
+ *     responses:
+ *       200:
+ *         description: XP ajustado
+ *       400:
+ *         description: Dados inválidos
+ */
+router.post("/users/:userId/xp", controller.adjustUserXP);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/achievements/{achievementId}/grant:
+ *   post:
+ *     summary: Conceder conquista
+ *     description: Desbloqueia a conquista para o usuário (recompensa segue a regra de auto-claim)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: achievementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Conquista concedida
+ *       404:
+ *         description: Conquista não encontrada
+ *       409:
+ *         description: Usuário já possui a conquista
+ */
+router.post(
+  "/users/:userId/achievements/:achievementId/grant",
+  controller.grantUserAchievement
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/achievements/{achievementId}/revoke:
+ *   post:
+ *     summary: Revogar conquista
+ *     description: Remove o desbloqueio; com deductXP, debita o XP da recompensa já resgatada
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: achievementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *               deductXP:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Conquista revogada
+ *       404:
+ *         description: Usuário não possui a conquista
+ */
+router.post(
+  "/users/:userId/achievements/:achievementId/revoke",
+  controller.revokeUserAchievement
+);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/streak:
+ *   put:
+ *     summary: Corrigir streak
+ *     description: Define o streak atual, registra o dia no histórico e sincroniza o progresso do usuário
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [current, reason]
+ *             properties:
+ *               current:
+ *                 type: integer
+ *                 minimum: 0
+ *               date:
+ *                 type: string
+ *                 format: date
+ *                 description: Dia registrado no histórico (padrão hoje, no fuso do usuário)
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Streak corrigido
+ */
+router.put("/users/:userId/streak", controller.repairUserStreak);
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/audit:
+ *   get:
+ *     summary: Linha do tempo de auditoria
+ *     description: Mutações de estado do usuário (XP, streak, conquistas, métricas e operações administrativas), da mais recente para a mais antiga
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *         description: Início do período (YYYY-MM-DD ou ISO 8601). Padrão 7 dias antes de "to"
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *         description: Fim do período (padrão agora). Apenas a data inclui o dia inteiro (UTC)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 100
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: Filtra por ações, separadas por vírgula (ex. xp_change,streak_reset)
+ *     responses:
+ *       200:
+ *         description: Registros de auditoria do período
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AuditRecord'
+ */
+router.get("/users/:userId/audit", controller.getUserAuditTimeline);
+
+/**
+ * @swagger
+ * /api/admin/anti-abuse/flagged:
+ *   get:
+ *     summary: Usuários sinalizados pelo anti-abuso
+ *     description: Usuários com revisões bloqueadas ou XP reduzido (intervalo mínimo, retorno decrescente e limite diário por fonte) no período, do mais para o menos sinalizado
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Primeiro dia (YYYY-MM-DD, UTC). Padrão 6 dias antes de "to"
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Último dia (YYYY-MM-DD, UTC). Padrão hoje
+ *       - in: query
+ *         name: minViolations
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Mínimo de violações no período (padrão ANTI_ABUSE_FLAG_THRESHOLD)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Relatório de usuários sinalizados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/FlaggedUser'
+ */
+router.get("/anti-abuse/flagged", controller.getFlaggedUsers);
+
+/**
+ * @swagger
+ * /api/admin/xp-boosts:
+ *   get:
+ *     summary: Listar boosts de XP
+ *     description: Boosts em vigor e agendados (eventos e boosts pessoais de conquistas)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     responses:
+ *       200:
+ *         description: Boosts de XP
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/XPBoost'
+ *                 count:
+ *                   type: integer
+ *   post:
+ *     summary: Criar boost de XP
+ *     description: |
+ *       Cria um multiplicador de XP por tempo limitado. Os campos de escopo
+ *       (sources, userId, deckId, difficulties) são opcionais; ausentes, o boost
+ *       vale para todos. Boosts não se acumulam: vale o maior multiplicador.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, multiplier, startsAt, endsAt, reason]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               multiplier:
+ *                 type: number
+ *                 minimum: 1
+ *                 exclusiveMinimum: true
+ *                 maximum: 5
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *               sources:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [review, card_creation, deck_creation, daily_goal, streak_bonus, achievement]
+ *               userId:
+ *                 type: string
+ *               deckId:
+ *                 type: string
+ *               difficulties:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [again, hard, good, easy]
+ *               reason:
+ *                 type: string
+ *           example:
+ *             name: XP em dobro no fim de semana
+ *             multiplier: 2
+ *             startsAt: "2025-03-08T00:00:00-03:00"
+ *             endsAt: "2025-03-10T00:00:00-03:00"
+ *             sources: [review]
+ *             reason: Campanha de março
+ *     responses:
+ *       201:
+ *         description: Boost criado
+ *       400:
+ *         description: Dados inválidos
+ */
+router.get("/xp-boosts", controller.listXPBoosts);
+router.post("/xp-boosts", controller.createXPBoost);
+
+/**
+ * @swagger
+ * /api/admin/xp-boosts/{boostId}/end:
+ *   post:
+ *     summary: Encerrar boost de XP
+ *     description: Encerra o boost imediatamente (boosts agendados deixam de valer)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *         adminToken: []
+ *     parameters:
+ *       - in: path
+ *         name: boostId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Boost encerrado
+ *       404:
+ *         description: Boost não encontrado
+ *       409:
+ *         description: Boost já encerrado
+ */
+router.post("/xp-boosts/:boostId/end", controller.endXPBoost);
+
+export default router;
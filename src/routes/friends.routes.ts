@@ -0,0 +1,234 @@
+import { Router } from "express";
+import { FriendsController } from "../controllers/friends.controller";
+import {
+  authMiddleware,
+  authorizeUserParam,
+} from "../middlewares/auth.middleware";
+import { rateLimiter } from "../middlewares/rate-limit.middleware";
+
+/**
+ * Friends Routes
+ *
+ * Camada social:
+ * - Pedidos de amizade (enviar, aceitar, recusar) e remoção de amigos
+ * - Lista de amigos e pedidos pendentes
+ * - Leaderboard de amigos (XP da semana, do mês ou streak atual)
+ */
+
+const router = Router();
+const controller = new FriendsController();
+
+router.use(authMiddleware);
+router.use(rateLimiter);
+router.param("userId", authorizeUserParam);
+
+/**
+ * @swagger
+ * /api/friends/{userId}:
+ *   get:
+ *     summary: Amigos e pedidos de amizade pendentes
+ *     tags: [Friends]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Amigos (com nível e streak), pedidos recebidos e enviados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     friends:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Friend'
+ *                     incoming:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/FriendRequest'
+ *                     outgoing:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/FriendRequest'
+ */
+router.get("/:userId", controller.getFriends);
+
+/**
+ * @swagger
+ * /api/friends/{userId}/leaderboard:
+ *   get:
+ *     summary: Leaderboard de amigos
+ *     description: |
+ *       Posição do usuário entre seus amigos. weekly_xp e monthly_xp usam o XP
+ *       ganho desde segunda-feira ou desde o dia 1 (débitos não descontam,
+ *       estornos sim); streak usa o streak atual.
+ *     tags: [Friends]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: metric
+ *         schema:
+ *           type: string
+ *           enum: [weekly_xp, monthly_xp, streak]
+ *           default: weekly_xp
+ *     responses:
+ *       200:
+ *         description: Leaderboard (inclui o próprio usuário)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     metric:
+ *                       type: string
+ *                     since:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *                     entries:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/FriendLeaderboardEntry'
+ *       400:
+ *         description: Métrica inválida
+ */
+router.get("/:userId/leaderboard", controller.getLeaderboard);
+
+/**
+ * @swagger
+ * /api/friends/{userId}/requests:
+ *   post:
+ *     summary: Enviar pedido de amizade
+ *     description: |
+ *       Envia um pedido e notifica o destinatário por push. Se o destinatário
+ *       já havia enviado um pedido ao usuário, a amizade é aceita (200).
+ *     tags: [Friends]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - friendId
+ *             properties:
+ *               friendId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Pedido enviado
+ *       200:
+ *         description: Pedido recíproco, amizade aceita
+ *       400:
+ *         description: Parâmetros inválidos ou pedido para si mesmo
+ *       404:
+ *         description: Usuário não encontrado
+ *       409:
+ *         description: Já são amigos, pedido já enviado ou limite de amigos atingido
+ */
+router.post("/:userId/requests", controller.sendRequest);
+
+/**
+ * @swagger
+ * /api/friends/{userId}/requests/{friendId}/accept:
+ *   post:
+ *     summary: Aceitar pedido de amizade
+ *     tags: [Friends]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: friendId
+ *         required: true
+ *         description: Usuário que enviou o pedido
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Amizade aceita
+ *       404:
+ *         description: Pedido não encontrado
+ *       409:
+ *         description: Limite de amigos atingido
+ */
+router.post("/:userId/requests/:friendId/accept", controller.acceptRequest);
+
+/**
+ * @swagger
+ * /api/friends/{userId}/requests/{friendId}/decline:
+ *   post:
+ *     summary: Recusar pedido de amizade
+ *     tags: [Friends]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: friendId
+ *         required: true
+ *         description: Usuário que enviou o pedido
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pedido recusado
+ *       404:
+ *         description: Pedido não encontrado
+ */
+router.post("/:userId/requests/:friendId/decline", controller.declineRequest);
+
+/**
+ * @swagger
+ * /api/friends/{userId}/{friendId}:
+ *   delete:
+ *     summary: Remover amigo ou cancelar pedido enviado
+ *     tags: [Friends]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: friendId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Amizade removida
+ *       404:
+ *         description: Amizade não encontrada
+ */
+router.delete("/:userId/:friendId", controller.removeFriend);
+
+export default router;
@@ -1,6 +1,10 @@
 import { Router } from "express";
 import { GamificationController } from "../controllers/gamification.controller";
-import { authMiddleware } from "../middlewares/auth.middleware";
+import {
+  authMiddleware,
+  authorizeUserParam,
+  userScopeMiddleware,
+} from "../middlewares/auth.middleware";
 import { rateLimiter } from "../middlewares/rate-limit.middleware";
 
 /**
@@ -22,14 +26,23 @@ const controller = new GamificationController();
 // Aplicar middlewares globais a todas as rotas
 router.use(authMiddleware);
 router.use(rateLimiter);
+router.param("userId", authorizeUserParam);
+router.use(userScopeMiddleware);
 
 /**
  * @swagger
  * /api/gamification/process-review:
  *   post:
  *     summary: Processar revisão de card
- *     description: Adiciona XP baseado na dificuldade da revisão do card
+ *     description: Adiciona XP baseado na dificuldade da revisão do card. Revisões do mesmo card antes do intervalo mínimo são ignoradas (ignored=true); repetições do card nas últimas 24h e o limite diário de XP de revisões reduzem o XP. A decisão vem em antiAbuse.
  *     tags: [Gamification]
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Identificador único do evento (alternativa ao campo eventId)
  *     requestBody:
  *       required: true
  *       content:
@@ -48,14 +61,90 @@ router.use(rateLimiter);
  *               difficulty:
  *                 type: string
  *                 enum: [again, hard, good, easy]
+ *               eventId:
+ *                 type: string
+ *                 description: Identificador único do evento. Reenvios devolvem a resposta original sem aplicar XP novamente
  *     responses:
  *       200:
  *         description: Revisão processada com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ignored:
+ *                   type: boolean
+ *                   description: true quando a revisão foi bloqueada pelo anti-abuso
+ *                 xpGained:
+ *                   type: integer
+ *                 antiAbuse:
+ *                   $ref: '#/components/schemas/AntiAbuseDecision'
  *       401:
  *         description: Não autorizado
+ *       409:
+ *         description: Evento com o mesmo eventId ainda em processamento
  */
 router.post("/process-review", controller.processCardReview);
 
+/**
+ * @swagger
+ * /api/gamification/process-reviews:
+ *   post:
+ *     summary: Processar lote de revisões
+ *     description: Processa revisões feitas offline em uma única requisição. O XP é aplicado uma vez, o progresso diário e o streak são atualizados por dia da revisão e as conquistas são verificadas uma vez por lote.
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Identificador único do lote (alternativa ao campo eventId)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - reviews
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               eventId:
+ *                 type: string
+ *               reviews:
+ *                 type: array
+ *                 maxItems: 200
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - cardId
+ *                     - difficulty
+ *                     - reviewedAt
+ *                   properties:
+ *                     cardId:
+ *                       type: string
+ *                     deckId:
+ *                       type: string
+ *                     difficulty:
+ *                       type: string
+ *                       enum: [again, hard, good, easy]
+ *                     reviewedAt:
+ *                       type: string
+ *                       format: date-time
+ *                       description: Até 48h antes do envio. XP, boosts e limites anti-abuso usam o horário de recebimento do lote
+ *     responses:
+ *       200:
+ *         description: Lote processado com XP total, level-ups, meta por dia, streak e novas conquistas. "ignored" conta as revisões bloqueadas pelo anti-abuso e "antiAbuse" lista as revisões bloqueadas ou com XP reduzido (com cardId e reviewedAt)
+ *       400:
+ *         description: Parâmetros inválidos
+ *       409:
+ *         description: Lote com o mesmo eventId ainda em processamento
+ */
+router.post("/process-reviews", controller.processCardReviews);
+
 /**
  * @swagger
  * /api/gamification/card-created:
@@ -63,6 +152,13 @@ router.post("/process-review", controller.processCardReview);
  *     summary: Registrar criação de card
  *     description: Adiciona 25 XP pela criação de um card
  *     tags: [Gamification]
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Identificador único do evento (alternativa ao campo eventId)
  *     requestBody:
  *       required: true
  *       content:
@@ -77,9 +173,14 @@ router.post("/process-review", controller.processCardReview);
  *                 type: string
  *               cardId:
  *                 type: string
+ *               eventId:
+ *                 type: string
+ *                 description: Identificador único do evento. Reenvios devolvem a resposta original sem aplicar XP novamente
  *     responses:
  *       200:
  *         description: Card criado registrado com sucesso
+ *       409:
+ *         description: Evento com o mesmo eventId ainda em processamento
  */
 router.post("/card-created", controller.onCardCreated);
 
@@ -90,6 +191,13 @@ router.post("/card-created", controller.onCardCreated);
  *     summary: Registrar criação de deck
  *     description: Adiciona 50 XP pela criação de um deck
  *     tags: [Gamification]
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Identificador único do evento (alternativa ao campo eventId)
  *     requestBody:
  *       required: true
  *       content:
@@ -104,12 +212,136 @@ router.post("/card-created", controller.onCardCreated);
  *                 type: string
  *               deckId:
  *                 type: string
+ *               eventId:
+ *                 type: string
+ *                 description: Identificador único do evento. Reenvios devolvem a resposta original sem aplicar XP novamente
  *     responses:
  *       200:
  *         description: Deck criado registrado com sucesso
+ *       409:
+ *         description: Evento com o mesmo eventId ainda em processamento
  */
 router.post("/deck-created", controller.onDeckCreated);
 
+/**
+ * @swagger
+ * /api/gamification/card-deleted:
+ *   post:
+ *     summary: Registrar exclusão de card
+ *     description: Estorna o XP de criação do card (ver /xp/reverse). Conquistas de cards criados passam a contar apenas os cards não excluídos
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Identificador único do evento (alternativa ao campo eventId)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - cardId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               cardId:
+ *                 type: string
+ *               eventId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Exclusão registrada (reversals vazio se o XP já havia sido estornado)
+ *       409:
+ *         description: Evento com o mesmo eventId ainda em processamento
+ */
+router.post("/card-deleted", controller.onCardDeleted);
+
+/**
+ * @swagger
+ * /api/gamification/deck-deleted:
+ *   post:
+ *     summary: Registrar exclusão de deck
+ *     description: Estorna o XP de criação do deck e dos cards criados nele e remove o deck de activeDecks, uniqueDecksStudied e decksCompleted
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Identificador único do evento (alternativa ao campo eventId)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - deckId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               deckId:
+ *                 type: string
+ *               eventId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Exclusão registrada
+ *       409:
+ *         description: Evento com o mesmo eventId ainda em processamento
+ */
+router.post("/deck-deleted", controller.onDeckDeleted);
+
+/**
+ * @swagger
+ * /api/gamification/xp/reverse:
+ *   post:
+ *     summary: Estornar XP
+ *     description: |
+ *       Grava transações de estorno (source "reversal") que referenciam as originais e
+ *       recalcula XP total e nível, inclusive com perda de nível. Cada transação só pode
+ *       ser revertida uma vez. Informe transactionId ou source + sourceId (ex. card_creation
+ *       e o ID do card excluído); por origem, transações já revertidas são ignoradas.
+ *     tags: [Gamification]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               transactionId:
+ *                 type: string
+ *               source:
+ *                 type: string
+ *                 example: card_creation
+ *               sourceId:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: XP estornado (reversals vazio quando não havia XP a estornar)
+ *       400:
+ *         description: Parâmetros inválidos ou transação não reversível
+ *       404:
+ *         description: Transação não encontrada
+ *       409:
+ *         description: Transação já revertida
+ */
+router.post("/xp/reverse", controller.reverseXP);
+
 /**
  * @swagger
  * /api/gamification/progress/{userId}:
@@ -138,6 +370,55 @@ router.post("/deck-created", controller.onDeckCreated);
  */
 router.get("/progress/:userId", controller.getUserProgress);
 
+/**
+ * @swagger
+ * /api/gamification/levels:
+ *   get:
+ *     summary: Tabela de níveis
+ *     description: |
+ *       Retorna o XP acumulado necessário para cada nível na curva configurada
+ *       (LEVEL_CURVE), com título e badge. A tabela para no nível máximo (LEVEL_CAP), se houver.
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 50
+ *         description: Último nível da tabela
+ *     responses:
+ *       200:
+ *         description: Tabela de níveis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     curve:
+ *                       type: string
+ *                       enum: [polynomial, piecewise]
+ *                     maxLevel:
+ *                       type: integer
+ *                       nullable: true
+ *                     prestigeXP:
+ *                       type: integer
+ *                       nullable: true
+ *                     levels:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/LevelTableEntry'
+ *       400:
+ *         description: Parâmetros inválidos
+ */
+router.get("/levels", controller.getLevelTable);
+
 /**
  * @swagger
  * /api/gamification/daily-progress/{userId}:
@@ -172,12 +453,268 @@ router.get("/progress/:userId", controller.getUserProgress);
  */
 router.get("/daily-progress/:userId", controller.getDailyProgress);
 
+/**
+ * @swagger
+ * /api/gamification/daily-goal/{userId}:
+ *   get:
+ *     summary: Buscar meta diária do usuário
+ *     description: Retorna a meta diária em vigor e o histórico de alterações
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Meta diária do usuário
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     userId:
+ *                       type: string
+ *                     goal:
+ *                       $ref: '#/components/schemas/DailyGoal'
+ *                     history:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           type:
+ *                             type: string
+ *                           target:
+ *                             type: number
+ *                           effectiveFrom:
+ *                             type: string
+ *                             format: date
+ *   put:
+ *     summary: Atualizar meta diária do usuário
+ *     description: |
+ *       Define a meta diária em cards revisados ou minutos estudados.
+ *       A nova meta vale a partir de hoje; dias anteriores mantêm a meta da época.
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DailyGoal'
+ *           example:
+ *             type: cards
+ *             target: 50
+ *     responses:
+ *       200:
+ *         description: Meta diária atualizada
+ *       400:
+ *         description: Meta inválida
+ */
+router.get("/daily-goal/:userId", controller.getDailyGoal);
+router.put("/daily-goal/:userId", controller.updateDailyGoal);
+
+/**
+ * @swagger
+ * /api/gamification/timezone/{userId}:
+ *   get:
+ *     summary: Buscar fuso horário do usuário
+ *     description: |
+ *       Retorna o fuso IANA configurado (null se não configurado), o fuso efetivo
+ *       usado nos cálculos e a data de hoje nesse fuso.
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Fuso horário do usuário
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     userId:
+ *                       type: string
+ *                     timezone:
+ *                       type: string
+ *                       nullable: true
+ *                     effectiveTimezone:
+ *                       type: string
+ *                     today:
+ *                       type: string
+ *                       format: date
+ *   put:
+ *     summary: Atualizar fuso horário do usuário
+ *     description: |
+ *       Define o fuso IANA usado para calcular "hoje"/"ontem" no progresso diário,
+ *       nos streaks e nas métricas de horário. Envie null para voltar ao fuso padrão.
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - timezone
+ *             properties:
+ *               timezone:
+ *                 type: string
+ *                 nullable: true
+ *           example:
+ *             timezone: America/Sao_Paulo
+ *     responses:
+ *       200:
+ *         description: Fuso horário atualizado
+ *       400:
+ *         description: Fuso horário inválido
+ */
+router.get("/timezone/:userId", controller.getTimezone);
+router.put("/timezone/:userId", controller.updateTimezone);
+
+/**
+ * @swagger
+ * /api/gamification/streak-freezes/{userId}:
+ *   get:
+ *     summary: Buscar streak freezes do usuário
+ *     description: |
+ *       Retorna os freezes em estoque e equipados. Freezes equipados são consumidos
+ *       pelo job de streaks quando a meta do dia não é atingida, mantendo o streak.
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Inventário de streak freezes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     available:
+ *                       type: integer
+ *                     equipped:
+ *                       type: integer
+ *                     maxInventory:
+ *                       type: integer
+ *                     maxEquipped:
+ *                       type: integer
+ *                     xpCost:
+ *                       type: integer
+ *                     frozenDays:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                         format: date
+ */
+router.get("/streak-freezes/:userId", controller.getStreakFreezes);
+
+/**
+ * @swagger
+ * /api/gamification/streak-freezes/{userId}/purchase:
+ *   post:
+ *     summary: Comprar streak freezes com XP
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               quantity:
+ *                 type: integer
+ *                 default: 1
+ *     responses:
+ *       200:
+ *         description: Freezes comprados
+ *       400:
+ *         description: Quantidade inválida ou XP insuficiente
+ *       409:
+ *         description: Limite de freezes atingido
+ */
+router.post(
+  "/streak-freezes/:userId/purchase",
+  controller.purchaseStreakFreezes
+);
+
+/**
+ * @swagger
+ * /api/gamification/streak-freezes/{userId}/equip:
+ *   post:
+ *     summary: Equipar streak freezes do estoque
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               quantity:
+ *                 type: integer
+ *                 default: 1
+ *     responses:
+ *       200:
+ *         description: Freezes equipados
+ *       409:
+ *         description: Estoque insuficiente ou limite de equipados atingido
+ */
+router.post("/streak-freezes/:userId/equip", controller.equipStreakFreezes);
+
 /**
  * @swagger
  * /api/gamification/achievements/{userId}:
  *   get:
  *     summary: Buscar conquistas do usuário
- *     description: Retorna todas as conquistas desbloqueadas do usuário
+ *     description: |
+ *       Retorna todas as conquistas desbloqueadas do usuário.
+ *       `pendingClaims` lista as conquistas cujo XP ainda precisa ser resgatado.
  *     tags: [Gamification]
  *     parameters:
  *       - in: path
@@ -195,13 +732,121 @@ router.get("/daily-progress/:userId", controller.getDailyProgress);
  *               properties:
  *                 success:
  *                   type: boolean
- *                 data:
+ *                 totalUnlocked:
+ *                   type: number
+ *                 totalPendingClaims:
+ *                   type: number
+ *                 pendingClaims:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 achievements:
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/UserAchievement'
  */
 router.get("/achievements/:userId", controller.getUserAchievements);
 
+/**
+ * @swagger
+ * /api/gamification/achievements/{userId}/catalog:
+ *   get:
+ *     summary: Sala de troféus do usuário
+ *     description: |
+ *       Retorna todas as conquistas ativas agrupadas por tier, com estado
+ *       (locked, in_progress, unlocked), valor atual, alvo e porcentagem.
+ *       Conquistas secretas ainda bloqueadas têm nome, descrição e progresso ocultos.
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Catálogo de conquistas com o progresso do usuário
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     total:
+ *                       type: number
+ *                     unlocked:
+ *                       type: number
+ *                     pendingClaims:
+ *                       type: number
+ *                     tiers:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           tier:
+ *                             type: string
+ *                           label:
+ *                             type: string
+ *                           color:
+ *                             type: string
+ *                           achievements:
+ *                             type: array
+ *                             items:
+ *                               $ref: '#/components/schemas/AchievementCatalogEntry'
+ */
+router.get("/achievements/:userId/catalog", controller.getAchievementCatalog);
+
+/**
+ * @swagger
+ * /api/gamification/achievements/{userId}/{achievementId}/claim:
+ *   post:
+ *     summary: Resgatar recompensa de conquista
+ *     description: |
+ *       Concede o XP de uma conquista desbloqueada. Cada recompensa só pode ser
+ *       resgatada uma vez. Com ACHIEVEMENT_AUTO_CLAIM ativo (padrão) o XP já é
+ *       concedido no desbloqueio e não há recompensas pendentes.
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: achievementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recompensa resgatada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 xpGained:
+ *                   type: number
+ *                 totalXP:
+ *                   type: number
+ *                 level:
+ *                   type: number
+ *       404:
+ *         description: Conquista não desbloqueada ou inexistente
+ *       409:
+ *         description: Recompensa já resgatada
+ */
+router.post(
+  "/achievements/:userId/:achievementId/claim",
+  controller.claimAchievementReward
+);
+
 /**
  * @swagger
  * /api/gamification/check-achievements/{userId}:
@@ -415,6 +1060,142 @@ router.post("/active-decks", controller.updateActiveDecks);
  */
 router.post("/study-session", controller.onStudySession);
 
+/**
+ * @swagger
+ * /api/gamification/boosts/{userId}:
+ *   get:
+ *     summary: Boosts de XP do usuário
+ *     description: |
+ *       Boosts em vigor e os que começam nos próximos 7 dias: eventos globais
+ *       (ex: XP em dobro no fim de semana) e boosts pessoais de conquistas.
+ *       Boosts não se acumulam; cada ganho de XP usa o maior multiplicador aplicável.
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Boosts do usuário
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     active:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/XPBoost'
+ *                     upcoming:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/XPBoost'
+ */
+router.get("/boosts/:userId", controller.getUserBoosts);
+
+/**
+ * @swagger
+ * /api/gamification/quests/{userId}:
+ *   get:
+ *     summary: Missões diárias e semanais do usuário
+ *     description: |
+ *       Missões sorteadas por usuário a cada dia e semana (segunda a domingo),
+ *       no fuso do usuário. As missões do período são geradas no primeiro
+ *       acesso ou evento e avançam com as revisões, criação de cards e decks
+ *       e sessões de estudo. A recompensa é resgatada em /quests/{userId}/{questId}/claim.
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Missões do usuário
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     date:
+ *                       type: string
+ *                       example: "2025-03-05"
+ *                     weekStart:
+ *                       type: string
+ *                       example: "2025-03-03"
+ *                     dailyResetsOn:
+ *                       type: string
+ *                       example: "2025-03-06"
+ *                     weeklyResetsOn:
+ *                       type: string
+ *                       example: "2025-03-10"
+ *                     daily:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/UserQuest'
+ *                     weekly:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/UserQuest'
+ */
+router.get("/quests/:userId", controller.getUserQuests);
+
+/**
+ * @swagger
+ * /api/gamification/quests/{userId}/{questId}/claim:
+ *   post:
+ *     summary: Resgatar recompensa de missão
+ *     description: |
+ *       Concede o XP de uma missão concluída. Cada recompensa só pode ser
+ *       resgatada uma vez; missões de períodos encerrados continuam resgatáveis.
+ *     tags: [Gamification]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: questId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recompensa resgatada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 xpGained:
+ *                   type: number
+ *                 totalXP:
+ *                   type: number
+ *                 level:
+ *                   type: number
+ *       404:
+ *         description: Missão inexistente
+ *       409:
+ *         description: Missão não concluída ou recompensa já resgatada
+ */
+router.post("/quests/:userId/:questId/claim", controller.claimQuestReward);
+
 /**
  * @swagger
  * /api/gamification/metrics/{userId}:
@@ -0,0 +1,364 @@
+import { Router } from "express";
+import { StudyGroupsController } from "../controllers/study-groups.controller";
+import {
+  authMiddleware,
+  authorizeUserParam,
+} from "../middlewares/auth.middleware";
+import { rateLimiter } from "../middlewares/rate-limit.middleware";
+
+/**
+ * Study Groups Routes
+ *
+ * Grupos de estudo:
+ * - Criação, convites (push GROUP_INVITE), entrada e saída
+ * - Remoção de membros pelo dono (push GROUP_REMOVE)
+ * - Meta semanal de XP do grupo e leaderboard dos membros
+ */
+
+const router = Router();
+const controller = new StudyGroupsController();
+
+router.use(authMiddleware);
+router.use(rateLimiter);
+router.param("userId", authorizeUserParam);
+
+/**
+ * @swagger
+ * /api/groups/{userId}:
+ *   get:
+ *     summary: Grupos de estudo do usuário e convites pendentes
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Grupos e convites
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     groups:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/StudyGroup'
+ *                     invites:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/StudyGroup'
+ */
+router.get("/:userId", controller.getUserGroups);
+
+/**
+ * @swagger
+ * /api/groups/{userId}:
+ *   post:
+ *     summary: Criar grupo de estudo
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 60
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 280
+ *               weeklyXPGoal:
+ *                 type: integer
+ *                 minimum: 100
+ *                 maximum: 100000
+ *                 default: 2000
+ *     responses:
+ *       201:
+ *         description: Grupo criado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/StudyGroup'
+ *       400:
+ *         description: Parâmetros inválidos
+ *       409:
+ *         description: Limite de grupos atingido
+ */
+router.post("/:userId", controller.createGroup);
+
+/**
+ * @swagger
+ * /api/groups/{userId}/{groupId}:
+ *   get:
+ *     summary: Meta semanal e leaderboard do grupo
+ *     description: |
+ *       Soma o XP ganho pelos membros desde segunda-feira (débitos não
+ *       descontam). O bônus de XP da meta é concedido pelo job de metas dos
+ *       grupos (a cada 15 minutos); goalCompleted indica se já foi concedido.
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Progresso do grupo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     group:
+ *                       $ref: '#/components/schemas/StudyGroup'
+ *                     weekStart:
+ *                       type: string
+ *                       format: date
+ *                     weeklyXP:
+ *                       type: number
+ *                     weeklyXPGoal:
+ *                       type: number
+ *                     goalCompleted:
+ *                       type: boolean
+ *                     goalBonusXP:
+ *                       type: number
+ *                     leaderboard:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/StudyGroupLeaderboardEntry'
+ *       404:
+ *         description: Grupo não encontrado ou usuário não é membro
+ */
+router.get("/:userId/:groupId", controller.getGroupProgress);
+
+/**
+ * @swagger
+ * /api/groups/{userId}/{groupId}:
+ *   patch:
+ *     summary: Atualizar grupo de estudo (apenas o dono)
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               weeklyXPGoal:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Grupo atualizado
+ *       403:
+ *         description: Usuário não é o dono do grupo
+ *       404:
+ *         description: Grupo não encontrado
+ */
+router.patch("/:userId/:groupId", controller.updateGroup);
+
+/**
+ * @swagger
+ * /api/groups/{userId}/{groupId}/invites:
+ *   post:
+ *     summary: Convidar usuário para o grupo
+ *     description: Qualquer membro pode convidar; o convidado recebe um push.
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - inviteeId
+ *             properties:
+ *               inviteeId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Convite enviado
+ *       404:
+ *         description: Grupo ou usuário não encontrado
+ *       409:
+ *         description: Já é membro, já foi convidado ou grupo cheio
+ */
+router.post("/:userId/:groupId/invites", controller.inviteMember);
+
+/**
+ * @swagger
+ * /api/groups/{userId}/{groupId}/join:
+ *   post:
+ *     summary: Aceitar convite e entrar no grupo
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Usuário entrou no grupo
+ *       404:
+ *         description: Convite não encontrado
+ *       409:
+ *         description: Grupo cheio ou limite de grupos atingido
+ */
+router.post("/:userId/:groupId/join", controller.joinGroup);
+
+/**
+ * @swagger
+ * /api/groups/{userId}/{groupId}/decline:
+ *   post:
+ *     summary: Recusar convite
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Convite recusado
+ *       404:
+ *         description: Convite não encontrado
+ */
+router.post("/:userId/:groupId/decline", controller.declineInvite);
+
+/**
+ * @swagger
+ * /api/groups/{userId}/{groupId}/leave:
+ *   post:
+ *     summary: Sair do grupo
+ *     description: |
+ *       Se o dono sair, o membro mais antigo assume o grupo. O último membro
+ *       a sair apaga o grupo (data null).
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Usuário saiu do grupo
+ *       404:
+ *         description: Grupo não encontrado
+ */
+router.post("/:userId/:groupId/leave", controller.leaveGroup);
+
+/**
+ * @swagger
+ * /api/groups/{userId}/{groupId}/members/{memberId}:
+ *   delete:
+ *     summary: Remover membro ou cancelar convite (apenas o dono)
+ *     description: O membro removido recebe um push.
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Membro removido
+ *       400:
+ *         description: O dono não pode remover a si mesmo
+ *       403:
+ *         description: Usuário não é o dono do grupo
+ *       404:
+ *         description: Grupo ou membro não encontrado
+ */
+router.delete("/:userId/:groupId/members/:memberId", controller.removeMember);
+
+export default router;
@@ -1,5 +1,11 @@
 import { Router } from "express";
+import adminRoutes from "./admin.routes";
+import friendsRoutes from "./friends.routes";
 import gamificationRoutes from "./gamification.routes";
+import groupsRoutes from "./groups.routes";
+import notificationsRoutes from "./notifications.routes";
+import rankingsRoutes from "./rankings.routes";
+import statisticsRoutes from "./statistics.routes";
 import userRoutes from "./user.routes";
 
 /**
@@ -13,5 +19,11 @@ const router = Router();
 // Montar rotas de gamificação
 router.use("/gamification", gamificationRoutes);
 router.use("/user", userRoutes);
+router.use("/rankings", rankingsRoutes);
+router.use("/friends", friendsRoutes);
+router.use("/groups", groupsRoutes);
+router.use("/notifications", notificationsRoutes);
+router.use("/statistics", statisticsRoutes);
+router.use("/admin", adminRoutes);
 
 export default router;
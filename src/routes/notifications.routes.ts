@@ -0,0 +1,169 @@
+import { Router } from "express";
+import { NotificationsController } from "../controllers/notifications.controller";
+import {
+  authMiddleware,
+  authorizeUserParam,
+} from "../middlewares/auth.middleware";
+import { rateLimiter } from "../middlewares/rate-limit.middleware";
+
+/**
+ * Notifications Routes
+ *
+ * Caixa de entrada de notificações:
+ * - Conquistas, level-ups, marcos de streak, broadcasts e notificações sociais
+ * - Estado de leitura e contador de não lidas (badge)
+ * - As notificações expiram após INBOX_CONFIG.TTL_DAYS dias
+ */
+
+const router = Router();
+const controller = new NotificationsController();
+
+router.use(authMiddleware);
+router.use(rateLimiter);
+router.param("userId", authorizeUserParam);
+
+/**
+ * @swagger
+ * /api/notifications/{userId}:
+ *   get:
+ *     summary: Caixa de entrada de notificações
+ *     description: |
+ *       Notificações do usuário, mais recentes primeiro, com o total de não
+ *       lidas. Use nextCursor como cursor para buscar a próxima página.
+ *     tags: [Notifications]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         description: ID da última notificação da página anterior
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: unreadOnly
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Página de notificações
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     notifications:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/InboxNotification'
+ *                     unreadCount:
+ *                       type: number
+ *                     nextCursor:
+ *                       type: string
+ *                       nullable: true
+ *       400:
+ *         description: Parâmetros inválidos
+ */
+router.get("/:userId", controller.getInbox);
+
+/**
+ * @swagger
+ * /api/notifications/{userId}/unread-count:
+ *   get:
+ *     summary: Total de notificações não lidas
+ *     tags: [Notifications]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Contador de não lidas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     unreadCount:
+ *                       type: number
+ */
+router.get("/:userId/unread-count", controller.getUnreadCount);
+
+/**
+ * @swagger
+ * /api/notifications/{userId}/read-all:
+ *   post:
+ *     summary: Marcar todas as notificações como lidas
+ *     tags: [Notifications]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Quantidade de notificações marcadas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     updated:
+ *                       type: number
+ */
+router.post("/:userId/read-all", controller.markAllAsRead);
+
+/**
+ * @swagger
+ * /api/notifications/{userId}/{notificationId}/read:
+ *   post:
+ *     summary: Marcar uma notificação como lida
+ *     tags: [Notifications]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: notificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Notificação marcada como lida
+ *       404:
+ *         description: Notificação não encontrada
+ */
+router.post("/:userId/:notificationId/read", controller.markAsRead);
+
+export default router;
@@ -0,0 +1,126 @@
+import { Router } from "express";
+import { RankingsController } from "../controllers/rankings.controller";
+import {
+  authMiddleware,
+  authorizeUserParam,
+} from "../middlewares/auth.middleware";
+import { rateLimiter } from "../middlewares/rate-limit.middleware";
+
+/**
+ * Rankings Routes
+ *
+ * Leaderboards de XP por período:
+ * - Ranking mensal e anual (com paginação)
+ * - Posição de um usuário e seus vizinhos no ranking
+ */
+
+const router = Router();
+const controller = new RankingsController();
+
+router.use(authMiddleware);
+router.use(rateLimiter);
+router.param("userId", authorizeUserParam);
+
+/**
+ * @swagger
+ * /api/rankings/monthly/{date}:
+ *   get:
+ *     summary: Ranking mensal de XP
+ *     description: Retorna o ranking do mês informado (padrão, mês atual). O parâmetro date é opcional. Os dados vêm do snapshot atualizado pelo job a cada 15 minutos; um período ainda não calculado retorna vazio.
+ *     tags: [Rankings]
+ *     parameters:
+ *       - in: path
+ *         name: date
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: "2025-11"
+ *         description: Mês no formato YYYY-MM
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Ranking mensal
+ *       400:
+ *         description: Parâmetros inválidos
+ */
+router.get("/monthly{/:date}", controller.getMonthlyRanking);
+
+/**
+ * @swagger
+ * /api/rankings/yearly/{year}:
+ *   get:
+ *     summary: Ranking anual de XP
+ *     description: Retorna o ranking do ano informado (padrão, ano atual). O parâmetro year é opcional. Os dados vêm do snapshot atualizado pelo job a cada 15 minutos; um período ainda não calculado retorna vazio.
+ *     tags: [Rankings]
+ *     parameters:
+ *       - in: path
+ *         name: year
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: "2025"
+ *         description: Ano no formato YYYY (entre 2020 e o ano seguinte ao atual)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Ranking anual
+ *       400:
+ *         description: Parâmetros inválidos
+ */
+router.get("/yearly{/:year}", controller.getYearlyRanking);
+
+/**
+ * @swagger
+ * /api/rankings/user/{userId}/position/{period}:
+ *   get:
+ *     summary: Posição do usuário no ranking
+ *     description: Retorna a posição do usuário, sua entrada e os vizinhos imediatos no ranking do período
+ *     tags: [Rankings]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: period
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [monthly, yearly]
+ *       - in: query
+ *         name: periodKey
+ *         schema:
+ *           type: string
+ *         description: Período específico (YYYY-MM ou YYYY). Padrão, período atual
+ *     responses:
+ *       200:
+ *         description: Posição do usuário (position null se não participou no período)
+ */
+router.get("/user/:userId/position/:period", controller.getUserPosition);
+
+export default router;
@@ -0,0 +1,155 @@
+import { Router } from "express";
+import { StatisticsController } from "../controllers/statistics.controller";
+import {
+  authMiddleware,
+  authorizeUserParam,
+} from "../middlewares/auth.middleware";
+import { rateLimiter } from "../middlewares/rate-limit.middleware";
+
+/**
+ * Statistics Routes
+ *
+ * Estatísticas de estudo agregadas por período:
+ * - Estatísticas gerais do usuário
+ * - Estatísticas por deck (um deck ou todos)
+ * - Registro de sessões de estudo
+ */
+
+const router = Router();
+const controller = new StatisticsController();
+
+router.use(authMiddleware);
+router.use(rateLimiter);
+router.param("userId", authorizeUserParam);
+
+/**
+ * @swagger
+ * /api/statistics/deck/{userId}/{deckId}:
+ *   get:
+ *     summary: Estatísticas por deck
+ *     description: Retorna as estatísticas do deck informado ou, sem deckId, a lista de todos os decks estudados no período
+ *     tags: [Statistics]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: deckId
+ *         required: false
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [week, month, year, all]
+ *           default: month
+ *     responses:
+ *       200:
+ *         description: Estatísticas do deck (objeto) ou de todos os decks (array)
+ *       400:
+ *         description: Parâmetros inválidos
+ */
+router.get("/deck/:userId{/:deckId}", controller.getDeckStatistics);
+
+/**
+ * @swagger
+ * /api/statistics/user/{userId}:
+ *   get:
+ *     summary: Estatísticas do usuário
+ *     description: Cards revisados, precisão, minutos estudados, distribuição por período do dia, dificuldades e XP por fonte
+ *     tags: [Statistics]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [week, month, year, all]
+ *           default: month
+ *     responses:
+ *       200:
+ *         description: Estatísticas agregadas do período
+ *       400:
+ *         description: Parâmetros inválidos
+ */
+router.get("/user/:userId", controller.getUserStatistics);
+
+/**
+ * @swagger
+ * /api/statistics/session/{userId}:
+ *   put:
+ *     summary: Registrar sessão de estudo
+ *     description: |
+ *       Salva uma sessão de estudo. Reenviar o mesmo sessionId sobrescreve a sessão anterior do mesmo usuário.
+ *       Os minutos do dia são recalculados para a meta diária (metas em minutos) e o streak é verificado.
+ *     tags: [Statistics]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sessionDurationMinutes
+ *               - cardsReviewed
+ *               - accuracyCount
+ *               - totalAnswers
+ *             properties:
+ *               sessionId:
+ *                 type: string
+ *               deckId:
+ *                 type: string
+ *               sessionDurationMinutes:
+ *                 type: number
+ *                 example: 25
+ *               cardsReviewed:
+ *                 type: integer
+ *                 example: 40
+ *               accuracyCount:
+ *                 type: integer
+ *                 example: 34
+ *               totalAnswers:
+ *                 type: integer
+ *                 example: 40
+ *               studyTime:
+ *                 type: string
+ *                 enum: [morning, afternoon, evening, night]
+ *                 description: Padrão, calculado a partir de startedAt
+ *               difficultyBreakdown:
+ *                 type: object
+ *                 properties:
+ *                   again:
+ *                     type: integer
+ *                   hard:
+ *                     type: integer
+ *                   good:
+ *                     type: integer
+ *                   easy:
+ *                     type: integer
+ *               startedAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Sessão registrada, com o progresso diário atualizado
+ *       400:
+ *         description: Parâmetros inválidos
+ *       409:
+ *         description: O sessionId pertence a uma sessão de outro usuário
+ */
+router.put("/session/:userId", controller.updateSession);
+
+export default router;
@@ -1,13 +1,20 @@
 import { Router } from "express";
 import { GamificationController } from "../controllers/gamification.controller";
-import { authMiddleware } from "../middlewares/auth.middleware";
+import { NotificationPreferencesController } from "../controllers/notification-preferences.controller";
+import {
+  authMiddleware,
+  privilegedOnlyMiddleware,
+  userScopeMiddleware,
+} from "../middlewares/auth.middleware";
 import { rateLimiter } from "../middlewares/rate-limit.middleware";
 
 const router = Router();
 const controller = new GamificationController();
+const preferencesController = new NotificationPreferencesController();
 
 router.use(authMiddleware);
 router.use(rateLimiter);
+router.use(userScopeMiddleware);
 
 /**
  * @swagger
@@ -58,12 +65,89 @@ router.post("/clear_all_notifications", controller.clearAllNotifications);
  *         description: Token FCM não encontrado
  */
 router.post("/test_notification", controller.sendTestNotification);
+
+/**
+ * @swagger
+ * /api/user/notification-preferences:
+ *   get:
+ *     summary: Buscar preferências de notificação
+ *     description: |
+ *       Retorna as categorias ativas, o horário de silêncio e o mute global.
+ *       Sem preferências salvas, todas as categorias estão ativas.
+ *     tags: [User]
+ *     parameters:
+ *       - in: query
+ *         name: user_id
+ *         required: false
+ *         description: Obrigatório para serviços e administradores; padrão é o usuário do token
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Preferências de notificação
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/NotificationPreferences'
+ *   put:
+ *     summary: Atualizar preferências de notificação
+ *     description: |
+ *       Atualização parcial: categorias omitidas são mantidas e quietHours null
+ *       remove o horário de silêncio. Vale para todos os pushes, inclusive broadcast.
+ *     tags: [User]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               user_id:
+ *                 type: string
+ *               muted:
+ *                 type: boolean
+ *               categories:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: boolean
+ *               quietHours:
+ *                 type: object
+ *                 nullable: true
+ *                 properties:
+ *                   startHour:
+ *                     type: number
+ *                   endHour:
+ *                     type: number
+ *           example:
+ *             categories:
+ *               news: false
+ *             quietHours:
+ *               startHour: 22
+ *               endHour: 7
+ *     responses:
+ *       200:
+ *         description: Preferências atualizadas
+ *       400:
+ *         description: Preferências inválidas
+ */
+router.get("/notification-preferences", preferencesController.getPreferences);
+router.put(
+  "/notification-preferences",
+  preferencesController.updatePreferences
+);
+
 /**
  * @swagger
  * /api/user/broadcast:
  *   post:
  *     summary: Enviar notificação para todos os usuários
- *     description: Envia uma notificação push para todos os usuários que possuem token FCM cadastrado.
+ *     description: Obsoleto, use POST /api/admin/broadcast (registra auditoria). Envia uma notificação push para todos os usuários que possuem token FCM cadastrado.
+ *     deprecated: true
  *     tags: [User]
  *     requestBody:
  *       required: true
@@ -89,7 +173,9 @@ router.post("/test_notification", controller.sendTestNotification);
  *     responses:
  *       200:
  *         description: Broadcast enviado com sucesso
+ *       403:
+ *         description: Apenas serviços e administradores podem enviar broadcast
  */
-router.post("/broadcast", controller.sendBroadcast);
+router.post("/broadcast", privilegedOnlyMiddleware, controller.sendBroadcast);
 
 export default router;
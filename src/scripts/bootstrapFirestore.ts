@@ -1,5 +1,8 @@
 import admin from "firebase-admin";
-import { firebaseApp, firestoreCollections } from "../config/firebase.config";
+import {
+  firestoreCollections,
+  getFirebaseApp,
+} from "../config/firebase.config";
 
 const { FieldValue } = admin.firestore;
 
@@ -161,5 +164,7 @@ main()
     process.exitCode = 1;
   })
   .finally(async () => {
-    await firebaseApp.delete().catch(() => undefined);
+    await getFirebaseApp()
+      .delete()
+      .catch(() => undefined);
   });
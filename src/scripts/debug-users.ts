@@ -1,5 +1,4 @@
 import dotenv from "dotenv";
-import "../config/firebase.config";
 import { firestoreCollections } from "../config/firebase.config";
 
 dotenv.config();
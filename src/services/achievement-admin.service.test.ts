@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AchievementTier,
+  AchievementType,
+  type Achievement,
+} from "../models/Achievement";
+import { InMemoryRepository } from "../repositories";
+import {
+  AchievementCreateSchema,
+  type AchievementCreateInput,
+} from "../utils/validators";
+import { AchievementAdminService } from "./achievement-admin.service";
+import { AchievementService } from "./achievement.service";
+import type { XPService } from "./xp.service";
+
+const existingAchievement: Achievement = {
+  id: "level_5",
+  name: "Nível 5",
+  description: "Alcance o nível 5",
+  tier: AchievementTier.BRONZE,
+  xpReward: 50,
+  icon: "level",
+  condition: { type: AchievementType.LEVEL_REACHED, target: 5 },
+  createdAt: new Date("2025-01-01T00:00:00Z"),
+};
+
+const createInput = (
+  overrides: Partial<AchievementCreateInput> = {}
+): AchievementCreateInput => ({
+  id: "xp_1000",
+  name: "Mil XP",
+  description: "Acumule 1000 XP",
+  tier: AchievementTier.SILVER,
+  xpReward: 100,
+  icon: "xp",
+  isActive: true,
+  hidden: false,
+  condition: { type: AchievementType.XP_TOTAL, target: 1000 },
+  ...overrides,
+});
+
+describe("AchievementAdminService", () => {
+  let repository: InMemoryRepository;
+  let service: AchievementAdminService;
+
+  beforeEach(() => {
+    repository = new InMemoryRepository({
+      achievements: [existingAchievement],
+    });
+    service = new AchievementAdminService(
+      repository,
+      new AchievementService(repository, {
+        addXP: vi.fn(),
+      } as unknown as XPService)
+    );
+  });
+
+  it("cria uma conquista no catálogo", async () => {
+    const result = await service.createAchievement(createInput());
+
+    expect(result.dryRun).toBeNull();
+    expect(await repository.getAchievement("xp_1000")).toMatchObject({
+      name: "Mil XP",
+      isActive: true,
+      condition: { type: AchievementType.XP_TOTAL, target: 1000 },
+    });
+  });
+
+  it("rejeita IDs duplicados com 409", async () => {
+    await expect(
+      service.createAchievement(createInput({ id: "level_5" }))
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it("atualiza parcialmente e permite desativar", async () => {
+    const { achievement } = await service.updateAchievement("level_5", {
+      xpReward: 75,
+      isActive: false,
+    });
+
+    expect(achievement).toMatchObject({
+      name: "Nível 5",
+      xpReward: 75,
+      isActive: false,
+      createdAt: existingAchievement.createdAt,
+    });
+    expect((await repository.getAchievement("level_5")).isActive).toBe(false);
+  });
+
+  it("retorna 404 ao atualizar ou remover conquista inexistente", async () => {
+    await expect(
+      service.updateAchievement("missing", { xpReward: 10 })
+    ).rejects.toMatchObject({ statusCode: 404 });
+    await expect(service.deleteAchievement("missing")).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+
+  it("remove a conquista do catálogo", async () => {
+    await service.deleteAchievement("level_5");
+
+    await expect(service.listAchievements()).resolves.toEqual([]);
+  });
+
+  it("dry-run conta usuários elegíveis sem gravar", async () => {
+    await repository.createUserProgress("user-1");
+    await repository.updateUserProgress("user-1", { totalXP: 1500 });
+    await repository.createUserProgress("user-2");
+    await repository.updateUserProgress("user-2", { totalXP: 200 });
+    await repository.createUserProgress("user-3");
+    await repository.updateUserProgress("user-3", { totalXP: 3000 });
+    await repository.unlockAchievement("user-3", "xp_1000");
+
+    const result = await service.createAchievement(createInput(), {
+      dryRun: true,
+    });
+
+    expect(result.dryRun).toEqual({
+      totalUsers: 3,
+      qualifyingUsers: 1,
+      alreadyUnlocked: 1,
+      sampleUserIds: ["user-1"],
+    });
+    expect((await service.listAchievements()).map(({ id }) => id)).toEqual([
+      "level_5",
+    ]);
+  });
+
+  describe("AchievementCreateSchema", () => {
+    it("exige métrica conhecida para conquistas CUSTOM", () => {
+      const missingMetric = AchievementCreateSchema.safeParse(
+        createInput({
+          condition: { type: AchievementType.CUSTOM, target: 3 },
+        })
+      );
+      const unknownMetric = AchievementCreateSchema.safeParse({
+        ...createInput(),
+        condition: {
+          type: AchievementType.CUSTOM,
+          target: 3,
+          params: { metric: "unknown_metric" },
+        },
+      });
+
+      expect(missingMetric.success).toBe(false);
+      expect(unknownMetric.success).toBe(false);
+    });
+
+    it("exige parâmetros extras para minimum_cards_consecutive_days", () => {
+      const result = AchievementCreateSchema.safeParse(
+        createInput({
+          condition: {
+            type: AchievementType.CUSTOM,
+            target: 1,
+            params: {
+              metric: "minimum_cards_consecutive_days",
+              consecutiveDays: 7,
+            },
+          },
+        })
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.path).toEqual([
+        "condition",
+        "params",
+        "minimumCardsPerDay",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { ACHIEVEMENT_ADMIN_CONFIG } from "../config/constants";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  isValidAchievement,
+  normalizeAchievement,
+  type Achievement,
+  type AchievementCondition,
+} from "../models/Achievement";
+import { getRepository, type GamificationRepository } from "../repositories";
+import type {
+  AchievementCreateInput,
+  AchievementUpdateInput,
+} from "../utils/validators";
+import { AchievementService } from "./achievement.service";
+
+export interface AchievementDryRunReport {
+  // Usuários avaliados
+  totalUsers: number;
+  // Usuários que desbloqueariam a conquista na próxima verificação
+  qualifyingUsers: number;
+  // Usuários que já possuem a conquista desbloqueada
+  alreadyUnlocked: number;
+  sampleUserIds: string[];
+}
+
+export interface AchievementChangeResult {
+  achievement: Achievement;
+  dryRun: AchievementDryRunReport | null;
+}
+
+export interface AchievementChangeOptions {
+  // Valida e simula a alteração sem gravar no catálogo
+  dryRun?: boolean;
+}
+
+/**
+ * Administração do catálogo de conquistas (criação, edição, desativação e remoção).
+ *
+ * Conquistas desativadas (`isActive: false`) continuam no catálogo, mas não
+ * são mais concedidas. Remover uma conquista não apaga o progresso já
+ * registrado pelos usuários.
+ */
+export class AchievementAdminService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository(),
+    private readonly achievementService: AchievementService = new AchievementService()
+  ) {}
+
+  async listAchievements(): Promise<Achievement[]> {
+    const achievements = await this.firestore.getAllAchievements();
+    return achievements.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async getAchievement(achievementId: string): Promise<Achievement> {
+    const achievement = await this.findAchievement(achievementId);
+
+    if (!achievement) {
+      throw new AppError(`Conquista "${achievementId}" não encontrada.`, 404);
+    }
+
+    return achievement;
+  }
+
+  async createAchievement(
+    input: AchievementCreateInput,
+    options: AchievementChangeOptions = {}
+  ): Promise<AchievementChangeResult> {
+    if (await this.findAchievement(input.id)) {
+      throw new AppError(`Conquista "${input.id}" já existe.`, 409);
+    }
+
+    const now = new Date();
+    const achievement = this.buildAchievement({
+      ...input,
+      condition: this.toCondition(input.condition),
+      boostReward: input.boostReward ?? undefined,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return this.persist(achievement, options);
+  }
+
+  async updateAchievement(
+    achievementId: string,
+    input: AchievementUpdateInput,
+    options: AchievementChangeOptions = {}
+  ): Promise<AchievementChangeResult> {
+    const existing = await this.getAchievement(achievementId);
+
+    const achievement = this.buildAchievement({
+      ...existing,
+      name: input.name ?? existing.name,
+      description: input.description ?? existing.description,
+      tier: input.tier ?? existing.tier,
+      xpReward: input.xpReward ?? existing.xpReward,
+      icon: input.icon ?? existing.icon,
+      isActive: input.isActive ?? existing.isActive ?? true,
+      hidden: input.hidden ?? existing.hidden ?? false,
+      condition: input.condition
+        ? this.toCondition(input.condition)
+        : existing.condition,
+      boostReward:
+        input.boostReward === undefined
+          ? existing.boostReward
+          : (input.boostReward ?? undefined),
+      updatedAt: new Date(),
+    });
+
+    return this.persist(achievement, options);
+  }
+
+  async deleteAchievement(achievementId: string): Promise<void> {
+    await this.getAchievement(achievementId);
+    await this.firestore.deleteAchievement(achievementId);
+  }
+
+  /**
+   * Conta quantos usuários cumprem hoje a condição da conquista,
+   * ou seja, a desbloqueariam na próxima verificação caso ela esteja ativa.
+   */
+  async dryRun(achievement: Achievement): Promise<AchievementDryRunReport> {
+    const userIds = await this.firestore.getAllUserIds();
+    const report: AchievementDryRunReport = {
+      totalUsers: userIds.length,
+      qualifyingUsers: 0,
+      alreadyUnlocked: 0,
+      sampleUserIds: [],
+    };
+
+    for (const userId of userIds) {
+      const progress = await this.firestore.getUserAchievementProgress(
+        userId,
+        achievement.id
+      );
+
+      if (progress?.unlockedAt) {
+        report.alreadyUnlocked++;
+        continue;
+      }
+
+      if (await this.achievementService.checkAchievement(userId, achievement)) {
+        report.qualifyingUsers++;
+
+        if (
+          report.sampleUserIds.length <
+          ACHIEVEMENT_ADMIN_CONFIG.DRY_RUN_SAMPLE_SIZE
+        ) {
+          report.sampleUserIds.push(userId);
+        }
+      }
+    }
+
+    return report;
+  }
+
+  private async persist(
+    achievement: Achievement,
+    { dryRun = false }: AchievementChangeOptions
+  ): Promise<AchievementChangeResult> {
+    if (dryRun) {
+      return { achievement, dryRun: await this.dryRun(achievement) };
+    }
+
+    await this.firestore.saveAchievement(achievement);
+    return { achievement, dryRun: null };
+  }
+
+  private toCondition(
+    condition: AchievementCreateInput["condition"]
+  ): AchievementCondition {
+    const { params, ...rest } = condition;
+    return params ? { ...rest, params } : rest;
+  }
+
+  private buildAchievement(achievement: Achievement): Achievement {
+    const normalized = normalizeAchievement(achievement);
+
+    if (!isValidAchievement(normalized)) {
+      throw new AppError("Dados da conquista inválidos.", 400);
+    }
+
+    return normalized;
+  }
+
+  private async findAchievement(
+    achievementId: string
+  ): Promise<Achievement | null> {
+    const achievements = await this.firestore.getAllAchievements();
+    return achievements.find(({ id }) => id === achievementId) ?? null;
+  }
+}
@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AchievementTier,
+  AchievementType,
+  type Achievement,
+  type AchievementCondition,
+} from "../models/Achievement";
+import { XPSource } from "../models/XPTransaction";
+import { InMemoryRepository } from "../repositories";
+import { AchievementCatalogService } from "./achievement-catalog.service";
+
+const userId = "user-1";
+
+const createAchievement = (
+  id: string,
+  tier: AchievementTier,
+  condition: AchievementCondition,
+  overrides: Partial<Achievement> = {}
+): Achievement => ({
+  id,
+  name: `Conquista ${id}`,
+  description: `Descrição ${id}`,
+  tier,
+  xpReward: 50,
+  icon: `${id}.png`,
+  condition,
+  createdAt: new Date("2025-01-01T00:00:00Z"),
+  ...overrides,
+});
+
+describe("AchievementCatalogService", () => {
+  let repository: InMemoryRepository;
+  let service: AchievementCatalogService;
+
+  beforeEach(async () => {
+    repository = new InMemoryRepository({
+      achievements: [
+        createAchievement("reviews_10", AchievementTier.BRONZE, {
+          type: AchievementType.REVIEWS_COMPLETED,
+          target: 10,
+        }),
+        createAchievement("reviews_100", AchievementTier.SILVER, {
+          type: AchievementType.REVIEWS_COMPLETED,
+          target: 100,
+        }),
+        createAchievement("xp_50", AchievementTier.BRONZE, {
+          type: AchievementType.XP_TOTAL,
+          target: 50,
+        }),
+        createAchievement("decks_3", AchievementTier.GOLD, {
+          type: AchievementType.CUSTOM,
+          target: 3,
+          params: { metric: "unique_decks_studied" },
+        }),
+        createAchievement(
+          "secret_week",
+          AchievementTier.DIAMOND,
+          {
+            type: AchievementType.CUSTOM,
+            target: 1,
+            params: {
+              metric: "minimum_cards_consecutive_days",
+              consecutiveDays: 7,
+              minimumCardsPerDay: 5,
+            },
+          },
+          { hidden: true }
+        ),
+        createAchievement(
+          "retired",
+          AchievementTier.BRONZE,
+          { type: AchievementType.XP_TOTAL, target: 1 },
+          { isActive: false }
+        ),
+      ],
+    });
+    service = new AchievementCatalogService(repository);
+
+    await repository.createUserProgress(userId);
+    await repository.updateUserProgress(userId, { totalXP: 60 });
+    await repository.createXPTransactions(
+      Array.from({ length: 12 }, (_, index) => ({
+        id: `review-${index}`,
+        userId,
+        amount: 5,
+        source: XPSource.REVIEW,
+        sourceId: `card-${index}`,
+        description: "Revisão",
+        timestamp: new Date(),
+      }))
+    );
+    await repository.addStudiedDeck(userId, "deck-1");
+    await repository.unlockAchievement(userId, "reviews_10");
+    await repository.unlockAchievement(userId, "xp_50");
+    await repository.claimAchievementReward(userId, "xp_50");
+  });
+
+  it("agrupa as conquistas ativas por tier com o estado do usuário", async () => {
+    const catalog = await service.getCatalog(userId);
+
+    expect(catalog).toMatchObject({
+      userId,
+      total: 5,
+      unlocked: 2,
+      pendingClaims: 1,
+    });
+    expect(catalog.tiers.map(({ tier }) => tier)).toEqual([
+      AchievementTier.BRONZE,
+      AchievementTier.SILVER,
+      AchievementTier.GOLD,
+      AchievementTier.DIAMOND,
+    ]);
+
+    const entries = catalog.tiers.flatMap(({ achievements }) => achievements);
+    const byId = new Map(entries.map((entry) => [entry.id, entry]));
+
+    expect(byId.has("retired")).toBe(false);
+    expect(byId.get("reviews_10")).toMatchObject({
+      state: "unlocked",
+      currentValue: 12,
+      percentage: 100,
+      rewardPending: true,
+    });
+    expect(byId.get("xp_50")).toMatchObject({
+      state: "unlocked",
+      claimed: true,
+      rewardPending: false,
+    });
+    expect(byId.get("reviews_100")).toMatchObject({
+      state: "in_progress",
+      currentValue: 12,
+      target: 100,
+      percentage: 12,
+    });
+    expect(byId.get("decks_3")).toMatchObject({
+      state: "in_progress",
+      currentValue: 1,
+      percentage: 33,
+    });
+  });
+
+  it("oculta nome e progresso de conquistas secretas bloqueadas", async () => {
+    const catalog = await service.getCatalog(userId);
+    const secret = catalog.tiers
+      .flatMap(({ achievements }) => achievements)
+      .find(({ id }) => id === "secret_week");
+
+    expect(secret).toMatchObject({
+      name: "Conquista secreta",
+      hidden: true,
+      state: "locked",
+      currentValue: null,
+      percentage: null,
+      target: 7,
+    });
+  });
+
+  it("revela conquistas secretas após o desbloqueio", async () => {
+    await repository.unlockAchievement(userId, "secret_week");
+
+    const catalog = await service.getCatalog(userId);
+    const secret = catalog.tiers
+      .flatMap(({ achievements }) => achievements)
+      .find(({ id }) => id === "secret_week");
+
+    expect(secret).toMatchObject({
+      name: "Conquista secret_week",
+      state: "unlocked",
+      percentage: 100,
+    });
+  });
+
+  it("lê os dados do usuário uma única vez para todo o catálogo", async () => {
+    const countSpy = vi.spyOn(repository, "countXPTransactionsBySource");
+    const metricsSpy = vi.spyOn(repository, "getUserMetrics");
+    const achievementSpy = vi.spyOn(repository, "getAchievement");
+
+    await service.getCatalog(userId);
+
+    expect(countSpy).toHaveBeenCalledTimes(1);
+    expect(countSpy).toHaveBeenCalledWith(userId, XPSource.REVIEW);
+    expect(metricsSpy).toHaveBeenCalledTimes(1);
+    expect(achievementSpy).not.toHaveBeenCalled();
+  });
+});
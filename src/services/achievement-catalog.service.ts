@@ -0,0 +1,387 @@
+import { ACHIEVEMENT_TIER_METADATA } from "../config/constants";
+import {
+  AchievementTier,
+  AchievementType,
+  isActiveAchievement,
+  type Achievement,
+} from "../models/Achievement";
+import {
+  hasPendingReward,
+  type UserAchievementProgress,
+} from "../models/UserAchievement";
+import type { UserProgress } from "../models/UserProgress";
+import { countNetTransactions, XPSource } from "../models/XPTransaction";
+import {
+  getRepository,
+  type GamificationRepository,
+  type UserMetrics,
+} from "../repositories";
+
+export type AchievementState = "locked" | "in_progress" | "unlocked";
+
+export interface AchievementCatalogEntry {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  tier: AchievementTier;
+  xpReward: number;
+  hidden: boolean;
+  state: AchievementState;
+  unlockedAt: UserAchievementProgress["unlockedAt"];
+  claimed: boolean;
+  rewardPending: boolean;
+  // null em conquistas secretas ainda bloqueadas
+  currentValue: number | null;
+  target: number;
+  percentage: number | null;
+}
+
+export interface AchievementCatalogTier {
+  tier: AchievementTier;
+  label: string;
+  color: string;
+  total: number;
+  unlocked: number;
+  achievements: AchievementCatalogEntry[];
+}
+
+export interface AchievementCatalog {
+  userId: string;
+  total: number;
+  unlocked: number;
+  pendingClaims: number;
+  tiers: AchievementCatalogTier[];
+}
+
+/**
+ * Dados do usuário lidos uma única vez para avaliar todo o catálogo
+ */
+interface ProgressSnapshot {
+  userProgress: UserProgress | null;
+  metrics: UserMetrics;
+  currentStreak: number;
+  countsBySource: Partial<Record<XPSource, number>>;
+  cardsCreatedInWeek: number;
+  maxReviewsOfSingleCard: number;
+}
+
+const TIER_ORDER: readonly AchievementTier[] = [
+  AchievementTier.BRONZE,
+  AchievementTier.SILVER,
+  AchievementTier.GOLD,
+  AchievementTier.PLATINUM,
+  AchievementTier.DIAMOND,
+];
+
+// Tipos de conquista contados pelas transações de XP de cada fonte
+const SOURCE_BY_TYPE: Partial<Record<AchievementType, XPSource>> = {
+  [AchievementType.CARDS_CREATED]: XPSource.CARD_CREATION,
+  [AchievementType.REVIEWS_COMPLETED]: XPSource.REVIEW,
+  [AchievementType.DECK_CREATED]: XPSource.DECK_CREATION,
+  [AchievementType.DAILY_GOAL]: XPSource.DAILY_GOAL,
+  [AchievementType.GROUP_GOAL]: XPSource.GROUP_GOAL,
+};
+
+const SECRET_NAME = "Conquista secreta";
+const SECRET_DESCRIPTION = "Continue estudando para descobrir.";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sala de troféus: todas as conquistas ativas com o estado do usuário.
+ *
+ * Em vez de consultar o progresso conquista a conquista
+ * (AchievementService.getUserProgress), lê progresso, métricas, streak e
+ * contagens de XP uma vez e avalia o catálogo inteiro em memória.
+ */
+export class AchievementCatalogService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository()
+  ) {}
+
+  async getCatalog(userId: string): Promise<AchievementCatalog> {
+    const [achievements, userAchievements] = await Promise.all([
+      this.firestore.getAllAchievements(),
+      this.firestore.getUserAchievements(userId),
+    ]);
+    const active = achievements.filter(isActiveAchievement);
+    const progressById = new Map(
+      userAchievements.map((entry) => [entry.achievementId, entry])
+    );
+    const snapshot = await this.loadSnapshot(userId, active);
+
+    const entries = active.map((achievement) =>
+      this.buildEntry(
+        achievement,
+        progressById.get(achievement.id) ?? null,
+        snapshot
+      )
+    );
+
+    const tiers = TIER_ORDER.map((tier) => {
+      const tierEntries = entries
+        .filter((entry) => entry.tier === tier)
+        .sort((a, b) => a.target - b.target || a.id.localeCompare(b.id));
+
+      return {
+        tier,
+        label: ACHIEVEMENT_TIER_METADATA[tier].label,
+        color: ACHIEVEMENT_TIER_METADATA[tier].color,
+        total: tierEntries.length,
+        unlocked: tierEntries.filter((entry) => entry.state === "unlocked")
+          .length,
+        achievements: tierEntries,
+      };
+    }).filter((tier) => tier.total > 0);
+
+    return {
+      userId,
+      total: entries.length,
+      unlocked: entries.filter((entry) => entry.state === "unlocked").length,
+      pendingClaims: entries.filter((entry) => entry.rewardPending).length,
+      tiers,
+    };
+  }
+
+  private buildEntry(
+    achievement: Achievement,
+    progress: UserAchievementProgress | null,
+    snapshot: ProgressSnapshot
+  ): AchievementCatalogEntry {
+    const unlocked = Boolean(progress && progress.unlockedAt !== null);
+    const target = this.getTarget(achievement);
+    const currentValue = this.getCurrentValue(achievement, snapshot);
+    const state: AchievementState = unlocked
+      ? "unlocked"
+      : currentValue > 0
+        ? "in_progress"
+        : "locked";
+    const secret = Boolean(achievement.hidden) && !unlocked;
+
+    return {
+      id: achievement.id,
+      name: secret ? SECRET_NAME : achievement.name,
+      description: secret ? SECRET_DESCRIPTION : achievement.description,
+      icon: secret ? "" : achievement.icon,
+      tier: achievement.tier,
+      xpReward: achievement.xpReward,
+      hidden: Boolean(achievement.hidden),
+      state,
+      unlockedAt: progress?.unlockedAt ?? null,
+      claimed: progress?.claimed ?? false,
+      rewardPending: progress ? hasPendingReward(progress) : false,
+      currentValue: secret ? null : currentValue,
+      target,
+      percentage: secret
+        ? null
+        : unlocked
+          ? 100
+          : Math.min(100, Math.round((currentValue / target) * 100)),
+    };
+  }
+
+  /**
+   * Alvo exibido: "minimum_cards_consecutive_days" é medido em dias consecutivos
+   */
+  private getTarget(achievement: Achievement): number {
+    const { target, params } = achievement.condition;
+
+    if (params?.metric === "minimum_cards_consecutive_days") {
+      return Math.max(1, Number(params.consecutiveDays) || 1);
+    }
+
+    return target;
+  }
+
+  /**
+   * Valor atual da métrica da conquista (mesmas regras do AchievementService)
+   */
+  private getCurrentValue(
+    achievement: Achievement,
+    snapshot: ProgressSnapshot
+  ): number {
+    const { type, params } = achievement.condition;
+    const source = SOURCE_BY_TYPE[type];
+
+    if (source) {
+      return snapshot.countsBySource[source] ?? 0;
+    }
+
+    switch (type) {
+      case AchievementType.STREAK:
+        return snapshot.currentStreak;
+      case AchievementType.XP_TOTAL:
+        return snapshot.userProgress?.totalXP ?? 0;
+      case AchievementType.LEVEL_REACHED:
+        return snapshot.userProgress?.level ?? 0;
+      case AchievementType.CUSTOM:
+        return this.getCustomValue(params?.metric, params ?? {}, snapshot);
+      default:
+        return 0;
+    }
+  }
+
+  private getCustomValue(
+    metric: unknown,
+    params: Record<string, unknown>,
+    snapshot: ProgressSnapshot
+  ): number {
+    const { metrics } = snapshot;
+
+    switch (metric) {
+      case "unique_decks_studied":
+        return metrics.uniqueDecksStudied.length;
+      case "difficulty_levels_used":
+        return metrics.difficultyLevelsUsed.length;
+      case "marketplace_decks_added":
+        return metrics.marketplaceDecksAdded.length;
+      case "profile_completed":
+        return metrics.profileCompleted ? 1 : 0;
+      case "cards_reviewed_single_day":
+        return metrics.maxCardsInSingleDay;
+      case "study_sessions_before_hour":
+        return metrics.studySessionsBeforeHour.length;
+      case "study_sessions_after_hour":
+        return metrics.studySessionsAfterHour.length;
+      case "decks_shared":
+        return metrics.decksShared.length;
+      case "deck_reviews_submitted":
+        return metrics.deckReviewsSubmitted;
+      case "active_decks":
+        return metrics.activeDecks.length;
+      case "easy_cards_streak":
+        return metrics.maxEasyCardsStreak;
+      case "hard_cards_completed":
+        return metrics.hardCardsCompleted;
+      case "expert_cards_completed":
+        return metrics.expertCardsCompleted;
+      case "decks_completed":
+        return metrics.decksCompleted.length;
+      case "decks_studied_same_day":
+        return metrics.maxDecksStudiedSameDay || 0;
+      case "minimum_cards_consecutive_days":
+        return this.getLongestDayRun(
+          metrics.cardsPerDay,
+          Number(params.minimumCardsPerDay) || 0
+        );
+      case "cards_created_in_week":
+        return snapshot.cardsCreatedInWeek;
+      case "card_review_iterations":
+        return snapshot.maxReviewsOfSingleCard;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Maior sequência de dias consecutivos com pelo menos `minimumCards` cards
+   */
+  private getLongestDayRun(
+    cardsPerDay: Record<string, number>,
+    minimumCards: number
+  ): number {
+    if (minimumCards <= 0) {
+      return 0;
+    }
+
+    const dates = Object.keys(cardsPerDay)
+      .filter((date) => (cardsPerDay[date] ?? 0) >= minimumCards)
+      .sort();
+
+    let longest = 0;
+    let current = 0;
+    let previous: number | null = null;
+
+    for (const date of dates) {
+      const time = Date.parse(`${date}T00:00:00Z`);
+      current =
+        previous !== null && time - previous === DAY_MS ? current + 1 : 1;
+      longest = Math.max(longest, current);
+      previous = time;
+    }
+
+    return longest;
+  }
+
+  /**
+   * Lê uma vez tudo o que o catálogo precisa.
+   * Consultas de transações só são feitas se alguma conquista ativa depender delas.
+   */
+  private async loadSnapshot(
+    userId: string,
+    achievements: Achievement[]
+  ): Promise<ProgressSnapshot> {
+    const types = new Set(achievements.map(({ condition }) => condition.type));
+    const customMetrics = new Set(
+      achievements.map(({ condition }) => condition.params?.metric)
+    );
+    const sources = [
+      ...new Set(
+        [...types].flatMap((type) => {
+          const source = SOURCE_BY_TYPE[type];
+          return source ? [source] : [];
+        })
+      ),
+    ];
+
+    const weekAgo = new Date(Date.now() - 7 * DAY_MS);
+
+    const [
+      userProgress,
+      metrics,
+      currentStreak,
+      counts,
+      cardsCreatedInWeek,
+      maxReviewsOfSingleCard,
+    ] = await Promise.all([
+      this.firestore.getUserProgress(userId).catch(() => null),
+      this.firestore.getUserMetrics(userId),
+      types.has(AchievementType.STREAK)
+        ? this.firestore
+            .getStreakData(userId)
+            .then((streak) => streak.current)
+            .catch(() => 0)
+        : Promise.resolve(0),
+      Promise.all(
+        sources.map((source) =>
+          this.firestore.countXPTransactionsBySource(userId, source)
+        )
+      ),
+      customMetrics.has("cards_created_in_week")
+        ? this.firestore
+            .getUserXPTransactionsByPeriod(userId, weekAgo, new Date())
+            .then((transactions) =>
+              countNetTransactions(transactions, XPSource.CARD_CREATION)
+            )
+        : Promise.resolve(0),
+      customMetrics.has("card_review_iterations")
+        ? this.firestore
+            .getUserXPTransactions(userId, 200)
+            .then((transactions) => {
+              const reviewsPerCard = new Map<string, number>();
+              for (const { source, sourceId } of transactions) {
+                if (source === XPSource.REVIEW) {
+                  reviewsPerCard.set(
+                    sourceId,
+                    (reviewsPerCard.get(sourceId) ?? 0) + 1
+                  );
+                }
+              }
+              return Math.max(0, ...reviewsPerCard.values());
+            })
+        : Promise.resolve(0),
+    ]);
+
+    return {
+      userProgress,
+      metrics,
+      currentStreak,
+      countsBySource: Object.fromEntries(
+        sources.map((source, index) => [source, counts[index] ?? 0])
+      ),
+      cardsCreatedInWeek,
+      maxReviewsOfSingleCard,
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { AchievementService } from "./achievement.service";
 import { FirestoreService } from "./firestore.service";
+import { InMemoryRepository } from "../repositories";
 import { XPService } from "./xp.service";
 import {
   AchievementTier,
@@ -44,17 +45,27 @@ describe("AchievementService", () => {
       getAchievement: vi.fn(),
       getUserAchievementProgress: vi.fn(),
       unlockAchievement: vi.fn(),
+      claimAchievementReward: vi.fn(async () => ({
+        progress: {} as UserAchievementProgress,
+        isNewClaim: true,
+      })),
       updateAchievementProgress: vi.fn(),
       countXPTransactionsBySource: vi.fn(),
       getUserProgress: vi.fn(),
       getStreakData: vi.fn(),
+      createAuditRecord: vi.fn(),
     } as unknown as FirestoreService;
 
     mockXPService = {
       addXP: vi.fn(),
     } as unknown as XPService;
 
-    service = new AchievementService(mockFirestore, mockXPService);
+    service = new AchievementService(
+      mockFirestore,
+      mockXPService,
+      undefined,
+      true
+    );
   });
 
   describe("checkAchievements", () => {
@@ -96,6 +107,7 @@ describe("AchievementService", () => {
           newLevel: 1,
           levelsGained: 0,
         },
+        xpGained: 100,
       });
 
       const result = await service.checkAchievements(mockUserId);
@@ -147,6 +159,7 @@ describe("AchievementService", () => {
           newLevel: 1,
           levelsGained: 0,
         },
+        xpGained: 100,
       });
 
       const result = await service.checkAchievements(mockUserId, [
@@ -157,6 +170,26 @@ describe("AchievementService", () => {
       expect(result[0]?.id).toBe("streak_7");
     });
 
+    it("não deve conceder conquistas desativadas", async () => {
+      const achievement = {
+        ...createMockAchievement("cards_5", AchievementType.CARDS_CREATED, 5),
+        isActive: false,
+      };
+
+      vi.spyOn(mockFirestore, "getAllAchievements").mockResolvedValue([
+        achievement,
+      ]);
+      vi.spyOn(mockFirestore, "getUserAchievements").mockResolvedValue([]);
+      vi.spyOn(mockFirestore, "countXPTransactionsBySource").mockResolvedValue(
+        10
+      );
+
+      const result = await service.checkAchievements(mockUserId);
+
+      expect(result).toHaveLength(0);
+      expect(mockFirestore.unlockAchievement).not.toHaveBeenCalled();
+    });
+
     it("não deve desbloquear conquistas já desbloqueadas", async () => {
       const achievement = createMockAchievement(
         "cards_5",
@@ -362,6 +395,7 @@ describe("AchievementService", () => {
           newLevel: 1,
           levelsGained: 0,
         },
+        xpGained: 150,
       });
 
       await service.unlockAchievement(mockUserId, "cards_10");
@@ -402,6 +436,31 @@ describe("AchievementService", () => {
       expect(mockXPService.addXP).not.toHaveBeenCalled();
     });
 
+    it("sem auto-claim deve desbloquear sem conceder XP", async () => {
+      const achievement = createMockAchievement(
+        "cards_10",
+        AchievementType.CARDS_CREATED,
+        10
+      );
+      service = new AchievementService(
+        mockFirestore,
+        mockXPService,
+        undefined,
+        false
+      );
+
+      vi.spyOn(mockFirestore, "getAchievement").mockResolvedValue(achievement);
+      vi.spyOn(mockFirestore, "unlockAchievement").mockResolvedValue({
+        progress: {} as UserAchievementProgress,
+        isNewUnlock: true,
+      });
+
+      await service.unlockAchievement(mockUserId, "cards_10");
+
+      expect(mockFirestore.claimAchievementReward).not.toHaveBeenCalled();
+      expect(mockXPService.addXP).not.toHaveBeenCalled();
+    });
+
     it("deve lançar erro se conquista não existe", async () => {
       vi.spyOn(mockFirestore, "getAchievement").mockRejectedValue(
         new Error('Conquista "invalid" não encontrada.')
@@ -592,4 +651,137 @@ describe("AchievementService", () => {
       );
     });
   });
+
+  describe("claimAchievementReward", () => {
+    let repository: InMemoryRepository;
+    let addXP: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+      const achievement = createMockAchievement(
+        "cards_10",
+        AchievementType.CARDS_CREATED,
+        10
+      );
+      repository = new InMemoryRepository({ achievements: [achievement] });
+      addXP = vi.fn(async () => ({
+        userProgress: { totalXP: 100, level: 2, currentXP: 0 } as UserProgress,
+        levelUpInfo: {
+          leveledUp: false,
+          oldLevel: 2,
+          newLevel: 2,
+          levelsGained: 0,
+        },
+        xpGained: 100,
+      }));
+      service = new AchievementService(
+        repository,
+        { addXP } as unknown as XPService,
+        undefined,
+        false
+      );
+
+      await service.unlockAchievement(mockUserId, "cards_10");
+    });
+
+    it("deve manter a recompensa pendente após o desbloqueio", async () => {
+      const progress = await repository.getUserAchievementProgress(
+        mockUserId,
+        "cards_10"
+      );
+
+      expect(addXP).not.toHaveBeenCalled();
+      expect(progress).toMatchObject({ claimed: false, rewardPending: true });
+    });
+
+    it("deve conceder o XP uma única vez", async () => {
+      const result = await service.claimAchievementReward(
+        mockUserId,
+        "cards_10"
+      );
+
+      expect(result.xpGained).toBe(100);
+      expect(addXP).toHaveBeenCalledWith(
+        mockUserId,
+        100,
+        XPSource.ACHIEVEMENT,
+        "cards_10"
+      );
+      expect(result.progress).toMatchObject({
+        claimed: true,
+        rewardPending: false,
+      });
+
+      await expect(
+        service.claimAchievementReward(mockUserId, "cards_10")
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(addXP).toHaveBeenCalledTimes(1);
+    });
+
+    it("deve retornar o XP com o boost ativo aplicado", async () => {
+      addXP.mockResolvedValueOnce({
+        userProgress: {
+          totalXP: 200,
+          level: 2,
+          currentXP: 100,
+        } as UserProgress,
+        levelUpInfo: {
+          leveledUp: false,
+          oldLevel: 2,
+          newLevel: 2,
+          levelsGained: 0,
+        },
+        xpGained: 200,
+        boost: {
+          boostId: "weekend",
+          name: "XP em dobro",
+          multiplier: 2,
+          baseXP: 100,
+        },
+      });
+
+      const result = await service.claimAchievementReward(
+        mockUserId,
+        "cards_10"
+      );
+
+      expect(result.xpGained).toBe(200);
+    });
+
+    it("deve desfazer o resgate quando o XP falha", async () => {
+      addXP.mockRejectedValueOnce(new Error("Firestore indisponível"));
+
+      await expect(
+        service.claimAchievementReward(mockUserId, "cards_10")
+      ).rejects.toThrow("Firestore indisponível");
+      expect(
+        await repository.getUserAchievementProgress(mockUserId, "cards_10")
+      ).toMatchObject({ claimed: false, rewardPending: true });
+
+      const result = await service.claimAchievementReward(
+        mockUserId,
+        "cards_10"
+      );
+
+      expect(result.xpGained).toBe(100);
+      expect(addXP).toHaveBeenCalledTimes(2);
+    });
+
+    it("deve retornar 404 para conquista não desbloqueada", async () => {
+      await expect(
+        service.claimAchievementReward("other-user", "cards_10")
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it("não deve considerar pendentes desbloqueios anteriores ao resgate", async () => {
+      await repository.updateAchievementProgress("legacy-user", "cards_10", {
+        unlockedAt: new Date(),
+        progress: 100,
+      });
+
+      await expect(
+        service.claimAchievementReward("legacy-user", "cards_10")
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(addXP).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,17 +1,60 @@
 import { randomUUID } from "crypto";
+import { achievementConfig } from "../config/achievement.config";
 import { XP_VALUES } from "../config/constants";
-import { AchievementType, type Achievement } from "../models/Achievement";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  AchievementType,
+  isActiveAchievement,
+  type Achievement,
+} from "../models/Achievement";
+import {
+  hasPendingReward,
+  type UserAchievementProgress,
+} from "../models/UserAchievement";
+import { InboxNotificationType } from "../models/InboxNotification";
 import type { UserProgress } from "../models/UserProgress";
-import { XPSource } from "../models/XPTransaction";
-import { FirestoreService, type UserMetrics } from "./firestore.service";
-import { XPService } from "./xp.service";
-import { NotificationService, PushType } from "./notification.service";
+import type { XPBoost } from "../models/XPBoost";
+import { AuditAction } from "../models/AuditRecord";
+import { countNetTransactions, XPSource } from "../models/XPTransaction";
+import {
+  getRepository,
+  type GamificationRepository,
+  type UserMetrics,
+} from "../repositories";
+import { AuditService } from "./audit.service";
+import { XPBoostService } from "./xp-boost.service";
+import { XPService, type XPResult } from "./xp.service";
+import { NotificationInboxService } from "./notification-inbox.service";
+import {
+  NotificationService,
+  PushType,
+  type NotificationPayload,
+} from "./notification.service";
+
+export interface AchievementClaimResult {
+  achievement: Achievement;
+  progress: UserAchievementProgress;
+  xpGained: number;
+  // null quando a conquista não concede XP
+  xpResult: XPResult | null;
+  // Boost pessoal da conquista (boostReward), iniciado no resgate
+  boost: XPBoost | null;
+}
 
 export class AchievementService {
   constructor(
-    private readonly firestore: FirestoreService = new FirestoreService(),
+    private readonly firestore: GamificationRepository = getRepository(),
     private readonly xpService: XPService = new XPService(),
-    private readonly notificationService: NotificationService = new NotificationService()
+    private readonly notificationService: NotificationService = new NotificationService(),
+    // false: o XP fica pendente até o resgate (claimAchievementReward)
+    private readonly autoClaim: boolean = achievementConfig.autoClaim,
+    private readonly auditService: AuditService = new AuditService(firestore),
+    private readonly xpBoostService: XPBoostService = new XPBoostService(
+      firestore
+    ),
+    private readonly inboxService: NotificationInboxService = new NotificationInboxService(
+      firestore
+    )
   ) {}
 
   /**
@@ -24,8 +67,10 @@ export class AchievementService {
     userId: string,
     types?: AchievementType[]
   ): Promise<Achievement[]> {
-    // Buscar todas as conquistas disponíveis
-    const allAchievements = await this.firestore.getAllAchievements();
+    // Buscar todas as conquistas disponíveis (desativadas não são concedidas)
+    const allAchievements = (await this.firestore.getAllAchievements()).filter(
+      isActiveAchievement
+    );
 
     // Filtrar por tipos se especificado
     const achievementsToCheck = types
@@ -97,6 +142,9 @@ export class AchievementService {
         case AchievementType.LEVEL_REACHED:
           return await this.checkLevelReached(userId, target);
 
+        case AchievementType.GROUP_GOAL:
+          return await this.checkGroupGoalsCompleted(userId, target);
+
         case AchievementType.CUSTOM:
           return await this.checkCustomAchievement(userId, achievement);
 
@@ -116,7 +164,8 @@ export class AchievementService {
   }
 
   /**
-   * Desbloqueia uma conquista para o usuário e concede XP
+   * Desbloqueia uma conquista para o usuário.
+   * Com auto-claim o XP é concedido na hora; caso contrário fica pendente de resgate.
    * @param userId - ID do usuário
    * @param achievementId - ID da conquista
    */
@@ -146,13 +195,22 @@ export class AchievementService {
       return;
     }
 
-    // Conceder XP da conquista
-    await this.xpService.addXP(
-      userId,
-      achievement.xpReward,
-      XPSource.ACHIEVEMENT,
-      achievementId
-    );
+    await this.auditService.record({
+      action: AuditAction.ACHIEVEMENT_UNLOCK,
+      targetUserId: userId,
+      before: { unlocked: false },
+      after: { unlocked: true },
+      details: {
+        achievementId,
+        xpReward: achievement.xpReward,
+        autoClaim: this.autoClaim,
+      },
+    });
+
+    // Conceder XP da conquista (sem auto-claim, o usuário resgata depois)
+    if (this.autoClaim) {
+      await this.grantReward(userId, achievement);
+    }
 
     // Atualizar o progresso do usuário adicionando o id da conquista
     try {
@@ -175,7 +233,9 @@ export class AchievementService {
     }
 
     console.log(
-      `✅ Conquista "${achievement.name}" desbloqueada para usuário ${userId}! (+${achievement.xpReward} XP)`
+      this.autoClaim
+        ? `✅ Conquista "${achievement.name}" desbloqueada para usuário ${userId}! (+${achievement.xpReward} XP)`
+        : `✅ Conquista "${achievement.name}" desbloqueada para usuário ${userId}! (${achievement.xpReward} XP aguardando resgate)`
     );
 
     // Enviar notificação push em background (não bloqueia o retorno)
@@ -188,24 +248,133 @@ export class AchievementService {
   }
 
   /**
-   * Envia notificação push de conquista desbloqueada
+   * Resgata o XP de uma conquista desbloqueada (uma única vez)
+   * @param userId - ID do usuário
+   * @param achievementId - ID da conquista
+   */
+  async claimAchievementReward(
+    userId: string,
+    achievementId: string
+  ): Promise<AchievementClaimResult> {
+    const progress = await this.firestore.getUserAchievementProgress(
+      userId,
+      achievementId
+    );
+
+    if (!progress || progress.unlockedAt === null) {
+      throw new AppError(
+        `Conquista "${achievementId}" ainda não foi desbloqueada.`,
+        404
+      );
+    }
+
+    if (!hasPendingReward(progress)) {
+      throw new AppError(
+        `A recompensa da conquista "${achievementId}" já foi resgatada.`,
+        409
+      );
+    }
+
+    let achievement: Achievement;
+    try {
+      achievement = await this.firestore.getAchievement(achievementId);
+    } catch {
+      throw new AppError(`Conquista "${achievementId}" não encontrada.`, 404);
+    }
+
+    const result = await this.grantReward(userId, achievement);
+
+    // Outra requisição resgatou a recompensa entre a leitura e a transação
+    if (!result) {
+      throw new AppError(
+        `A recompensa da conquista "${achievementId}" já foi resgatada.`,
+        409
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Marca a recompensa como resgatada e só então concede o XP,
+   * para que requisições concorrentes não concedam o XP duas vezes.
+   * Se o XP falhar, o resgate é desfeito e a recompensa volta a ficar pendente.
+   */
+  private async grantReward(
+    userId: string,
+    achievement: Achievement
+  ): Promise<AchievementClaimResult | null> {
+    const { progress, isNewClaim } =
+      await this.firestore.claimAchievementReward(userId, achievement.id);
+
+    if (!isNewClaim) {
+      return null;
+    }
+
+    const xpResult =
+      achievement.xpReward > 0
+        ? await this.xpService
+            .addXP(
+              userId,
+              achievement.xpReward,
+              XPSource.ACHIEVEMENT,
+              achievement.id
+            )
+            .catch(async (error: unknown) => {
+              await this.firestore.releaseAchievementRewardClaim(
+                userId,
+                achievement.id
+              );
+              throw error;
+            })
+        : null;
+
+    // Concedido depois do XP, para não multiplicar a própria recompensa
+    const boost = await this.xpBoostService.grantAchievementBoost(
+      userId,
+      achievement
+    );
+
+    return {
+      achievement,
+      progress,
+      xpGained: xpResult?.xpGained ?? 0,
+      xpResult,
+      boost,
+    };
+  }
+
+  /**
+   * Guarda a conquista desbloqueada na caixa de entrada e envia o push
    */
   private async sendAchievementNotification(
     userId: string,
     achievement: Achievement
   ): Promise<void> {
+    const payload: NotificationPayload = {
+      title: "Conquista Desbloqueada!",
+      body: this.autoClaim
+        ? `Você desbloqueou: ${achievement.name}`
+        : `Você desbloqueou: ${achievement.name}. Resgate seus ${achievement.xpReward} XP!`,
+      pushType: PushType.ACHIEVEMENT,
+      additionalData: {
+        achievementId: achievement.id,
+        xpReward: String(achievement.xpReward),
+        rewardPending: String(!this.autoClaim),
+      },
+    };
+
+    await this.inboxService.record(userId, {
+      type: InboxNotificationType.ACHIEVEMENT,
+      title: payload.title,
+      body: payload.body,
+      data: payload.additionalData,
+    });
+
     const fcmToken = await this.firestore.getUserFcmToken(userId);
 
     if (fcmToken) {
-      await this.notificationService.sendPushNotification(fcmToken, {
-        title: "Conquista Desbloqueada!",
-        body: `Você desbloqueou: ${achievement.name}`,
-        pushType: PushType.ACHIEVEMENT,
-        additionalData: {
-          achievementId: achievement.id,
-          xpReward: String(achievement.xpReward),
-        },
-      });
+      await this.notificationService.sendPushNotification(fcmToken, payload);
     }
   }
 
@@ -324,6 +493,21 @@ export class AchievementService {
     return count >= target;
   }
 
+  /**
+   * Verifica se o usuário ajudou grupos de estudo a bater a meta semanal
+   * o número especificado de vezes
+   */
+  async checkGroupGoalsCompleted(
+    userId: string,
+    target: number
+  ): Promise<boolean> {
+    const count = await this.firestore.countXPTransactionsBySource(
+      userId,
+      XPSource.GROUP_GOAL
+    );
+    return count >= target;
+  }
+
   /**
    * Verifica se o usuário alcançou o XP total especificado
    */
@@ -393,6 +577,12 @@ export class AchievementService {
           XPSource.DAILY_GOAL
         );
 
+      case AchievementType.GROUP_GOAL:
+        return await this.firestore.countXPTransactionsBySource(
+          userId,
+          XPSource.GROUP_GOAL
+        );
+
       case AchievementType.XP_TOTAL: {
         try {
           const userProgress = await this.firestore.getUserProgress(userId);
@@ -616,14 +806,13 @@ export class AchievementService {
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
-    const transactions = await this.firestore.getXPTransactionsByPeriod(
+    const transactions = await this.firestore.getUserXPTransactionsByPeriod(
+      userId,
       sevenDaysAgo,
-      new Date(),
-      XPSource.CARD_CREATION
+      new Date()
     );
 
-    const userTransactions = transactions.filter((t) => t.userId === userId);
-    return userTransactions.length >= target;
+    return countNetTransactions(transactions, XPSource.CARD_CREATION) >= target;
   }
 
   /**
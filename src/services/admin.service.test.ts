@@ -0,0 +1,223 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AchievementTier, AchievementType } from "../models/Achievement";
+import { AuditAction } from "../models/AuditRecord";
+import { XPSource } from "../models/XPTransaction";
+import { InMemoryRepository } from "../repositories";
+import { AchievementService } from "./achievement.service";
+import { AdminService } from "./admin.service";
+import type { NotificationService } from "./notification.service";
+import { StreakService } from "./streak.service";
+import { XPService } from "./xp.service";
+
+const userId = "user-1";
+const actor = "admin-uid";
+
+describe("AdminService", () => {
+  let repository: InMemoryRepository;
+  let notificationService: NotificationService;
+  let service: AdminService;
+
+  beforeEach(async () => {
+    repository = new InMemoryRepository({
+      achievements: [
+        {
+          id: "first_review",
+          name: "Primeira revisão",
+          description: "Revise um card",
+          tier: AchievementTier.BRONZE,
+          xpReward: 40,
+          icon: "review",
+          condition: { type: AchievementType.REVIEWS_COMPLETED, target: 1 },
+          createdAt: new Date("2025-01-01T00:00:00Z"),
+        },
+      ],
+    });
+    notificationService = {
+      sendPushNotification: vi.fn().mockResolvedValue(undefined),
+      sendBroadcastNotification: vi
+        .fn()
+        .mockResolvedValue({
+          successCount: 2,
+          failureCount: 0,
+          skippedCount: 0,
+        }),
+    } as unknown as NotificationService;
+
+    const xpService = new XPService(repository);
+    service = new AdminService(
+      repository,
+      xpService,
+      new AchievementService(repository, xpService, notificationService, true),
+      new StreakService(repository, xpService),
+      notificationService
+    );
+
+    await repository.createUserProgress(userId);
+    await repository.updateUserProgress(userId, { totalXP: 100 });
+  });
+
+  it("concede e debita XP com transação de ajuste manual auditada", async () => {
+    const auditSpy = vi.spyOn(repository, "createAuditRecord");
+
+    const granted = await service.adjustXP(
+      actor,
+      userId,
+      50,
+      "Bônus de evento"
+    );
+    const deducted = await service.adjustXP(actor, userId, -30, "Fraude");
+
+    expect(granted.userProgress.totalXP).toBe(150);
+    expect(deducted.userProgress.totalXP).toBe(120);
+
+    const transactions = await repository.getUserXPTransactions(userId, 10);
+    expect(transactions).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          amount: 50,
+          source: XPSource.MANUAL_ADJUSTMENT,
+          sourceId: granted.auditId,
+          description: "Bônus de evento",
+        }),
+        expect.objectContaining({
+          amount: -30,
+          source: XPSource.MANUAL_ADJUSTMENT,
+          sourceId: deducted.auditId,
+        }),
+      ])
+    );
+    expect(auditSpy).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        id: deducted.auditId,
+        action: AuditAction.XP_ADJUSTMENT,
+        actor,
+        targetUserId: userId,
+        reason: "Fraude",
+        before: expect.objectContaining({ totalXP: 150 }),
+        after: expect.objectContaining({ totalXP: 120 }),
+        details: { amount: -30, appliedAmount: -30 },
+      })
+    );
+  });
+
+  it("limita a zero o débito maior que o XP disponível", async () => {
+    const result = await service.adjustXP(actor, userId, -500, "Correção");
+
+    expect(result).toMatchObject({ amount: -500, appliedAmount: -100 });
+    expect(result.userProgress.totalXP).toBe(0);
+    expect(await repository.getUserXPTransactions(userId, 10)).toEqual([
+      expect.objectContaining({
+        amount: -100,
+        source: XPSource.MANUAL_ADJUSTMENT,
+        sourceId: result.auditId,
+      }),
+    ]);
+
+    const empty = await service.adjustXP(actor, userId, -50, "Correção");
+
+    expect(empty).toMatchObject({ amount: -50, appliedAmount: 0 });
+    expect(empty.userProgress.totalXP).toBe(0);
+    expect(await repository.getUserXPTransactions(userId, 10)).toHaveLength(1);
+  });
+
+  it("concede e revoga conquistas debitando a recompensa", async () => {
+    const auditSpy = vi.spyOn(repository, "createAuditRecord");
+
+    await service.grantAchievement(actor, userId, "first_review", "Suporte");
+    await expect(
+      service.grantAchievement(actor, userId, "first_review", "Suporte")
+    ).rejects.toMatchObject({ statusCode: 409 });
+
+    expect((await repository.getUserProgress(userId)).totalXP).toBe(140);
+
+    const result = await service.revokeAchievement(
+      actor,
+      userId,
+      "first_review",
+      { reason: "Concedida por engano", deductXP: true }
+    );
+
+    expect(result.xpDeducted).toBe(40);
+    expect(
+      await repository.getUserAchievementProgress(userId, "first_review")
+    ).toBeNull();
+    expect(await repository.getUserProgress(userId)).toMatchObject({
+      totalXP: 100,
+      achievements: [],
+    });
+    // Além da operação administrativa, os services auditam cada mutação
+    expect(auditSpy.mock.calls.map(([record]) => record.action)).toEqual([
+      AuditAction.ACHIEVEMENT_UNLOCK,
+      AuditAction.XP_CHANGE,
+      AuditAction.ACHIEVEMENT_GRANT,
+      AuditAction.XP_CHANGE,
+      AuditAction.ACHIEVEMENT_REVOKE,
+    ]);
+  });
+
+  it("retorna 404 ao revogar conquista não desbloqueada", async () => {
+    await expect(
+      service.revokeAchievement(actor, userId, "first_review", {
+        reason: "Teste",
+        deductXP: false,
+      })
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it("corrige o streak e registra antes/depois", async () => {
+    await repository.updateStreak(userId, {
+      current: 2,
+      longest: 4,
+      history: [{ date: "2025-03-09", count: 2 }],
+      lastUpdate: new Date(),
+    });
+
+    const result = await service.repairStreak(
+      actor,
+      userId,
+      6,
+      "Streak perdido por falha no job",
+      "2025-03-10"
+    );
+
+    expect(result.streakData).toMatchObject({ current: 6, longest: 6 });
+    expect(result.streakData.history).toContainEqual({
+      date: "2025-03-10",
+      count: 6,
+    });
+    expect(await repository.getUserProgress(userId)).toMatchObject({
+      currentStreak: 6,
+      longestStreak: 6,
+    });
+  });
+
+  it("envia broadcast para todos os tokens e audita a operação", async () => {
+    repository.setUserFcmToken("user-1", "token-1");
+    repository.setUserFcmToken("user-2", "token-2");
+    const auditSpy = vi.spyOn(repository, "createAuditRecord");
+
+    const result = await service.broadcast(actor, {
+      title: "Novidade",
+      body: "Novo modo de estudo",
+      pushType: 5,
+      additionalData: {},
+    });
+
+    expect(result).toMatchObject({
+      success: 2,
+      failure: 0,
+      skipped: 0,
+      totalTokens: 2,
+    });
+    expect(notificationService.sendBroadcastNotification).toHaveBeenCalledWith(
+      ["token-1", "token-2"],
+      expect.objectContaining({ title: "Novidade", pushType: 5 })
+    );
+    expect(auditSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AuditAction.BROADCAST,
+        targetUserId: null,
+      })
+    );
+  });
+});
@@ -0,0 +1,363 @@
+import { randomUUID } from "crypto";
+import { AppError } from "../middlewares/error.middleware";
+import type { Achievement } from "../models/Achievement";
+import { AuditAction } from "../models/AuditRecord";
+import { InboxNotificationType } from "../models/InboxNotification";
+import type { StreakData } from "../models/StreakData";
+import type { UserAchievementProgress } from "../models/UserAchievement";
+import { XPSource } from "../models/XPTransaction";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { logger } from "../utils/logger";
+import type {
+  AdminAchievementRevokeInput,
+  AdminBroadcastInput,
+} from "../utils/validators";
+import { AchievementService } from "./achievement.service";
+import { AuditService } from "./audit.service";
+import { NotificationInboxService } from "./notification-inbox.service";
+import { NotificationService } from "./notification.service";
+import { StreakService } from "./streak.service";
+import { XPService, type XPResult } from "./xp.service";
+
+export interface AdminBroadcastResult {
+  auditId: string;
+  success: number;
+  failure: number;
+  // Tokens ignorados pelas preferências de notificação dos usuários
+  skipped: number;
+  totalTokens: number;
+}
+
+export interface AdminXPAdjustmentResult extends XPResult {
+  auditId: string;
+  previousTotalXP: number;
+  amount: number;
+  // XP efetivamente aplicado: débitos são limitados ao saldo do usuário
+  appliedAmount: number;
+}
+
+export interface AdminAchievementGrantResult {
+  auditId: string;
+  progress: UserAchievementProgress | null;
+}
+
+export interface AdminAchievementRevokeResult {
+  auditId: string;
+  revoked: UserAchievementProgress;
+  xpDeducted: number;
+}
+
+export interface AdminStreakRepairResult {
+  auditId: string;
+  previous: StreakData;
+  streakData: StreakData;
+}
+
+/**
+ * Operações administrativas sobre usuários (/api/admin).
+ *
+ * Cada operação grava um AuditRecord com quem executou (actor) e o motivo,
+ * além dos registros das mutações feitas pelos services envolvidos.
+ */
+export class AdminService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository(),
+    private readonly xpService: XPService = new XPService(),
+    private readonly achievementService: AchievementService = new AchievementService(),
+    private readonly streakService: StreakService = new StreakService(),
+    private readonly notificationService: NotificationService = new NotificationService(),
+    private readonly auditService: AuditService = new AuditService(firestore),
+    private readonly inboxService: NotificationInboxService = new NotificationInboxService(
+      firestore
+    )
+  ) {}
+
+  /**
+   * Envia uma notificação para todos os usuários com token FCM
+   */
+  async broadcast(
+    actor: string,
+    input: AdminBroadcastInput
+  ): Promise<AdminBroadcastResult> {
+    const auditId = randomUUID();
+    const tokens = await this.firestore.getAllFcmTokens();
+
+    // Todos os usuários recebem na caixa de entrada, com ou sem token FCM
+    const inboxRecipients = await this.inboxService.recordForAllUsers({
+      type: InboxNotificationType.BROADCAST,
+      title: input.title,
+      body: input.body,
+      data: input.additionalData,
+    });
+
+    const { successCount, failureCount, skippedCount } =
+      await this.notificationService.sendBroadcastNotification(tokens, {
+        title: input.title,
+        body: input.body,
+        pushType: input.pushType,
+        additionalData: input.additionalData,
+      });
+
+    await this.auditService.record({
+      id: auditId,
+      action: AuditAction.BROADCAST,
+      actor,
+      targetUserId: null,
+      reason: input.reason ?? null,
+      details: {
+        title: input.title,
+        body: input.body,
+        pushType: input.pushType,
+        totalTokens: tokens.length,
+        success: successCount,
+        failure: failureCount,
+        skipped: skippedCount,
+        inboxRecipients,
+      },
+    });
+
+    return {
+      auditId,
+      success: successCount,
+      failure: failureCount,
+      skipped: skippedCount,
+      totalTokens: tokens.length,
+    };
+  }
+
+  /**
+   * Concede (amount > 0) ou debita (amount < 0) XP manualmente.
+   * A transação usa XPSource.MANUAL_ADJUSTMENT com o ID da auditoria como origem.
+   * Débitos maiores que o saldo zeram o XP em vez de serem rejeitados.
+   */
+  async adjustXP(
+    actor: string,
+    userId: string,
+    amount: number,
+    reason: string
+  ): Promise<AdminXPAdjustmentResult> {
+    const auditId = randomUUID();
+    const previousTotalXP = await this.getTotalXP(userId);
+
+    let result: XPResult;
+    let appliedAmount = amount;
+
+    if (amount > 0) {
+      result = await this.xpService.addXP(
+        userId,
+        amount,
+        XPSource.MANUAL_ADJUSTMENT,
+        auditId,
+        { description: reason }
+      );
+    } else {
+      const { deducted, ...deduction } = await this.xpService.deductXP(
+        userId,
+        Math.abs(amount),
+        auditId,
+        reason
+      );
+      result = deduction;
+      appliedAmount = deducted > 0 ? -deducted : 0;
+    }
+
+    await this.auditService.record({
+      id: auditId,
+      action: AuditAction.XP_ADJUSTMENT,
+      actor,
+      targetUserId: userId,
+      reason,
+      before: { totalXP: previousTotalXP, level: result.levelUpInfo.oldLevel },
+      after: {
+        totalXP: result.userProgress.totalXP,
+        level: result.levelUpInfo.newLevel,
+      },
+      details: { amount, appliedAmount },
+    });
+
+    return { ...result, auditId, previousTotalXP, amount, appliedAmount };
+  }
+
+  /**
+   * Desbloqueia uma conquista para o usuário (mesmo fluxo do desbloqueio automático)
+   */
+  async grantAchievement(
+    actor: string,
+    userId: string,
+    achievementId: string,
+    reason: string
+  ): Promise<AdminAchievementGrantResult> {
+    const achievement = await this.findAchievement(achievementId);
+
+    if (!achievement) {
+      throw new AppError(`Conquista "${achievementId}" não encontrada.`, 404);
+    }
+
+    const current = await this.firestore.getUserAchievementProgress(
+      userId,
+      achievementId
+    );
+
+    if (current && current.unlockedAt !== null) {
+      throw new AppError(
+        `O usuário já possui a conquista "${achievementId}".`,
+        409
+      );
+    }
+
+    await this.achievementService.unlockAchievement(userId, achievementId);
+
+    const progress = await this.firestore.getUserAchievementProgress(
+      userId,
+      achievementId
+    );
+    const auditId = randomUUID();
+
+    await this.auditService.record({
+      id: auditId,
+      action: AuditAction.ACHIEVEMENT_GRANT,
+      actor,
+      targetUserId: userId,
+      reason,
+      details: {
+        achievementId,
+        xpReward: achievement.xpReward,
+        claimed: progress?.claimed ?? false,
+      },
+    });
+
+    return { auditId, progress };
+  }
+
+  /**
+   * Remove uma conquista desbloqueada. Com deductXP, debita a recompensa já
+   * resgatada (limitada ao XP atual do usuário).
+   */
+  async revokeAchievement(
+    actor: string,
+    userId: string,
+    achievementId: string,
+    { reason, deductXP }: AdminAchievementRevokeInput
+  ): Promise<AdminAchievementRevokeResult> {
+    const auditId = randomUUID();
+    const revoked = await this.firestore.revokeAchievement(
+      userId,
+      achievementId
+    );
+
+    if (!revoked) {
+      throw new AppError(
+        `O usuário não possui a conquista "${achievementId}".`,
+        404
+      );
+    }
+
+    await this.removeFromUserProgress(userId, achievementId);
+
+    let xpDeducted = 0;
+    const achievement = await this.findAchievement(achievementId);
+
+    if (deductXP && revoked.claimed && achievement?.xpReward) {
+      const totalXP = await this.getTotalXP(userId);
+      xpDeducted = Math.min(achievement.xpReward, totalXP);
+
+      if (xpDeducted > 0) {
+        await this.xpService.spendXP(
+          userId,
+          xpDeducted,
+          XPSource.MANUAL_ADJUSTMENT,
+          auditId,
+          `Conquista "${achievementId}" revogada: ${reason}`
+        );
+      }
+    }
+
+    await this.auditService.record({
+      id: auditId,
+      action: AuditAction.ACHIEVEMENT_REVOKE,
+      actor,
+      targetUserId: userId,
+      reason,
+      details: {
+        achievementId,
+        claimed: revoked.claimed,
+        rewardPending: revoked.rewardPending ?? false,
+        xpDeducted,
+      },
+    });
+
+    return { auditId, revoked, xpDeducted };
+  }
+
+  /**
+   * Corrige o streak do usuário (substitui scripts/fix-user-streak.ts)
+   */
+  async repairStreak(
+    actor: string,
+    userId: string,
+    current: number,
+    reason: string,
+    date?: string
+  ): Promise<AdminStreakRepairResult> {
+    const auditId = randomUUID();
+    const { previous, streakData } = await this.streakService.repairStreak(
+      userId,
+      current,
+      date
+    );
+
+    await this.auditService.record({
+      id: auditId,
+      action: AuditAction.STREAK_REPAIR,
+      actor,
+      targetUserId: userId,
+      reason,
+      before: { current: previous.current, longest: previous.longest },
+      after: { current: streakData.current, longest: streakData.longest },
+      details: date ? { date } : {},
+    });
+
+    return { auditId, previous, streakData };
+  }
+
+  private async findAchievement(
+    achievementId: string
+  ): Promise<Achievement | null> {
+    try {
+      return await this.firestore.getAchievement(achievementId);
+    } catch {
+      return null;
+    }
+  }
+
+  private async getTotalXP(userId: string): Promise<number> {
+    try {
+      return (await this.firestore.getUserProgress(userId)).totalXP;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async removeFromUserProgress(
+    userId: string,
+    achievementId: string
+  ): Promise<void> {
+    try {
+      const progress = await this.firestore.getUserProgress(userId);
+
+      if (progress.achievements?.includes(achievementId)) {
+        await this.firestore.updateUserProgress(userId, {
+          achievements: progress.achievements.filter(
+            (id) => id !== achievementId
+          ),
+        });
+      }
+    } catch (error) {
+      logger.warn("Falha ao remover conquista do UserProgress", {
+        userId,
+        achievementId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AntiAbuseConfig } from "../config/anti-abuse.config";
+import { AntiAbuseReason } from "../models/AntiAbuse";
+import { XPSource } from "../models/XPTransaction";
+import { InMemoryRepository } from "../repositories";
+import { AntiAbuseService, type AntiAbuseEvent } from "./anti-abuse.service";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const userId = "user-1";
+
+const config: AntiAbuseConfig = {
+  enabled: true,
+  minReviewIntervalSeconds: 60,
+  fullXPReviewsPerCard: 2,
+  diminishingReturnsFactor: 0.5,
+  dailyXPCaps: { [XPSource.REVIEW]: 100 },
+  flagThreshold: 2,
+};
+
+const review = (
+  cardId: string,
+  occurredAt: string,
+  amount = 20
+): AntiAbuseEvent => ({
+  source: XPSource.REVIEW,
+  sourceId: cardId,
+  amount,
+  occurredAt: new Date(occurredAt),
+});
+
+describe("AntiAbuseService", () => {
+  let repository: InMemoryRepository;
+  let service: AntiAbuseService;
+
+  beforeEach(() => {
+    repository = new InMemoryRepository();
+    service = new AntiAbuseService(repository, config);
+  });
+
+  describe("evaluateMany", () => {
+    it("ignora revisões do mesmo card antes do intervalo mínimo", async () => {
+      const decisions = await service.evaluateMany(userId, [
+        review("card-1", "2025-03-01T10:00:00Z"),
+        review("card-1", "2025-03-01T10:00:30Z"),
+        review("card-2", "2025-03-01T10:00:30Z"),
+      ]);
+
+      expect(decisions).toEqual([
+        { allowed: true, requestedXP: 20, awardedXP: 20, reasons: [] },
+        {
+          allowed: false,
+          requestedXP: 20,
+          awardedXP: 0,
+          reasons: [AntiAbuseReason.REVIEW_TOO_SOON],
+        },
+        { allowed: true, requestedXP: 20, awardedXP: 20, reasons: [] },
+      ]);
+    });
+
+    it("reduz o XP das revisões repetidas do card nas últimas 24h", async () => {
+      const decisions = await service.evaluateMany(userId, [
+        review("card-1", "2025-03-01T10:00:00Z"),
+        review("card-1", "2025-03-01T11:00:00Z"),
+        review("card-1", "2025-03-01T12:00:00Z"),
+        review("card-1", "2025-03-01T13:00:00Z"),
+        // Apenas as duas últimas revisões ainda estão na janela
+        review("card-1", "2025-03-02T11:30:00Z"),
+      ]);
+
+      expect(decisions.map((decision) => decision.awardedXP)).toEqual([
+        20, 20, 10, 5, 10,
+      ]);
+      expect(decisions[2]?.reasons).toEqual([
+        AntiAbuseReason.DIMINISHING_RETURNS,
+      ]);
+    });
+
+    it("considera as transações já gravadas e limita o XP diário da fonte", async () => {
+      await repository.createXPTransaction({
+        id: "tx-1",
+        userId,
+        amount: 90,
+        source: XPSource.REVIEW,
+        sourceId: "card-9",
+        description: "Revisão",
+        timestamp: new Date("2025-03-01T09:00:00Z"),
+      });
+
+      const decisions = await service.evaluateMany(userId, [
+        review("card-1", "2025-03-01T10:00:00Z"),
+        review("card-2", "2025-03-01T10:05:00Z"),
+      ]);
+
+      expect(decisions).toEqual([
+        {
+          allowed: true,
+          requestedXP: 20,
+          awardedXP: 10,
+          reasons: [AntiAbuseReason.DAILY_CAP_REACHED],
+        },
+        {
+          allowed: true,
+          requestedXP: 20,
+          awardedXP: 0,
+          reasons: [AntiAbuseReason.DAILY_CAP_REACHED],
+        },
+      ]);
+    });
+
+    it("não consulta o histórico para fontes sem limite", async () => {
+      const spy = vi.spyOn(repository, "getUserXPTransactionsByPeriod");
+
+      const decision = await service.evaluate(userId, {
+        source: XPSource.ACHIEVEMENT,
+        sourceId: "first_steps",
+        amount: 5000,
+        occurredAt: new Date(),
+      });
+
+      expect(decision).toMatchObject({ allowed: true, awardedXP: 5000 });
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it("libera tudo quando desativado", async () => {
+      const disabled = new AntiAbuseService(repository, {
+        ...config,
+        enabled: false,
+      });
+
+      const decisions = await disabled.evaluateMany(userId, [
+        review("card-1", "2025-03-01T10:00:00Z"),
+        review("card-1", "2025-03-01T10:00:01Z"),
+      ]);
+
+      expect(decisions.every((decision) => decision.awardedXP === 20)).toBe(
+        true
+      );
+    });
+  });
+
+  describe("getFlaggedUsers", () => {
+    it("agrega as violações por usuário e aplica o mínimo", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-03-01T12:00:00Z"));
+
+      try {
+        await service.evaluateMany(userId, [
+          review("card-1", "2025-03-01T10:00:00Z"),
+          review("card-1", "2025-03-01T10:00:10Z"),
+          review("card-1", "2025-03-01T10:00:20Z"),
+        ]);
+        await service.evaluateMany("user-2", [
+          review("card-1", "2025-03-01T10:00:00Z"),
+          review("card-1", "2025-03-01T10:00:10Z"),
+        ]);
+      } finally {
+        vi.useRealTimers();
+      }
+
+      const flagged = await service.getFlaggedUsers({
+        from: "2025-03-01",
+        to: "2025-03-01",
+      });
+
+      expect(flagged).toEqual([
+        {
+          userId,
+          violations: 2,
+          reasons: { [AntiAbuseReason.REVIEW_TOO_SOON]: 2 },
+          reviewsBlocked: 2,
+          xpWithheld: 40,
+          days: 1,
+          lastViolationAt: new Date("2025-03-01T12:00:00Z"),
+        },
+      ]);
+      expect(
+        await service.getFlaggedUsers({
+          from: "2025-03-01",
+          to: "2025-03-01",
+          minViolations: 1,
+        })
+      ).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import {
+  antiAbuseConfig,
+  type AntiAbuseConfig,
+} from "../config/anti-abuse.config";
+import { ANTI_ABUSE_REPORT_CONFIG } from "../config/constants";
+import {
+  AntiAbuseReason,
+  type AntiAbuseDecision,
+  type AntiAbuseViolation,
+  type FlaggedUser,
+} from "../models/AntiAbuse";
+import { XPSource, type XPTransaction } from "../models/XPTransaction";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { toDate } from "../utils/date";
+import { logger } from "../utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AntiAbuseEvent {
+  source: XPSource;
+  // Card nas revisões
+  sourceId: string;
+  amount: number;
+  occurredAt: Date;
+}
+
+export interface FlaggedUsersQuery {
+  // YYYY-MM-DD (UTC), inclusive
+  from: string;
+  to: string;
+  minViolations?: number | undefined;
+  limit?: number | undefined;
+}
+
+// XP já registrado na janela de 24h (transações e eventos aceitos na avaliação atual)
+type XPEntry = {
+  source: XPSource;
+  sourceId: string;
+  amount: number;
+  at: number;
+};
+
+/**
+ * Heurísticas contra farm de XP:
+ * - revisões do mesmo card antes do intervalo mínimo são ignoradas;
+ * - revisões repetidas do card nas últimas 24h rendem XP decrescente;
+ * - cada fonte de XP tem um limite nas últimas 24h.
+ *
+ * Eventos bloqueados ou reduzidos contam como violações no relatório de
+ * usuários sinalizados (GET /api/admin/anti-abuse/flagged).
+ */
+export class AntiAbuseService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository(),
+    private readonly config: AntiAbuseConfig = antiAbuseConfig
+  ) {}
+
+  async evaluate(
+    userId: string,
+    event: AntiAbuseEvent
+  ): Promise<AntiAbuseDecision> {
+    const [decision] = await this.evaluateMany(userId, [event]);
+    return decision ?? this.allow(event);
+  }
+
+  /**
+   * Avalia os eventos na ordem informada (ex: lote offline em ordem cronológica):
+   * o XP de cada evento aceito conta para os seguintes
+   */
+  async evaluateMany(
+    userId: string,
+    events: AntiAbuseEvent[]
+  ): Promise<AntiAbuseDecision[]> {
+    if (!this.config.enabled || !events.some((e) => this.isChecked(e))) {
+      return events.map((event) => this.allow(event));
+    }
+
+    const times = events.map((event) => event.occurredAt.getTime());
+    const history = await this.firestore.getUserXPTransactionsByPeriod(
+      userId,
+      new Date(Math.min(...times) - DAY_MS),
+      new Date(Math.max(...times))
+    );
+    const entries = history.flatMap((transaction) => this.toEntry(transaction));
+
+    const decisions = events.map((event) => {
+      if (!this.isChecked(event)) {
+        return this.allow(event);
+      }
+
+      const decision = this.decide(event, entries);
+
+      if (decision.awardedXP > 0) {
+        entries.push({
+          source: event.source,
+          sourceId: event.sourceId,
+          amount: decision.awardedXP,
+          at: event.occurredAt.getTime(),
+        });
+      }
+
+      return decision;
+    });
+
+    await this.recordViolations(userId, decisions);
+
+    return decisions;
+  }
+
+  /**
+   * Usuários com pelo menos minViolations violações no período,
+   * do mais para o menos sinalizado
+   */
+  async getFlaggedUsers({
+    from,
+    to,
+    minViolations = this.config.flagThreshold,
+    limit = ANTI_ABUSE_REPORT_CONFIG.DEFAULT_LIMIT,
+  }: FlaggedUsersQuery): Promise<FlaggedUser[]> {
+    const flags = await this.firestore.getAntiAbuseFlags(from, to);
+    const byUser = new Map<string, FlaggedUser>();
+
+    for (const flag of flags) {
+      const lastViolationAt = toDate(flag.lastViolationAt);
+      const current = byUser.get(flag.userId) ?? {
+        userId: flag.userId,
+        violations: 0,
+        reasons: {},
+        reviewsBlocked: 0,
+        xpWithheld: 0,
+        days: 0,
+        lastViolationAt,
+      };
+
+      for (const [reason, count] of Object.entries(flag.reasons)) {
+        const key = reason as AntiAbuseReason;
+        current.reasons[key] = (current.reasons[key] ?? 0) + (count ?? 0);
+      }
+
+      byUser.set(flag.userId, {
+        ...current,
+        violations: current.violations + flag.violations,
+        reviewsBlocked: current.reviewsBlocked + flag.reviewsBlocked,
+        xpWithheld: current.xpWithheld + flag.xpWithheld,
+        days: current.days + 1,
+        lastViolationAt:
+          lastViolationAt > current.lastViolationAt
+            ? lastViolationAt
+            : current.lastViolationAt,
+      });
+    }
+
+    return [...byUser.values()]
+      .filter((user) => user.violations >= minViolations)
+      .sort(
+        (a, b) =>
+          b.violations - a.violations ||
+          b.lastViolationAt.getTime() - a.lastViolationAt.getTime()
+      )
+      .slice(0, Math.min(limit, ANTI_ABUSE_REPORT_CONFIG.MAX_LIMIT));
+  }
+
+  // ========== HELPER METHODS ==========
+
+  private decide(event: AntiAbuseEvent, entries: XPEntry[]): AntiAbuseDecision {
+    const at = event.occurredAt.getTime();
+    const window = entries.filter(
+      (entry) => entry.at > at - DAY_MS && entry.at <= at
+    );
+    const reasons: AntiAbuseReason[] = [];
+    let awardedXP = event.amount;
+
+    if (event.source === XPSource.REVIEW) {
+      const cardReviews = window.filter(
+        (entry) =>
+          entry.source === XPSource.REVIEW &&
+          entry.sourceId === event.sourceId &&
+          entry.amount > 0
+      );
+      const lastReviewAt = Math.max(
+        ...cardReviews.map((entry) => entry.at),
+        -Infinity
+      );
+
+      if (at - lastReviewAt < this.config.minReviewIntervalSeconds * 1000) {
+        return {
+          allowed: false,
+          requestedXP: event.amount,
+          awardedXP: 0,
+          reasons: [AntiAbuseReason.REVIEW_TOO_SOON],
+        };
+      }
+
+      const extraReviews =
+        cardReviews.length + 1 - this.config.fullXPReviewsPerCard;
+
+      if (extraReviews > 0) {
+        const reduced = Math.floor(
+          awardedXP * this.config.diminishingReturnsFactor ** extraReviews
+        );
+
+        if (reduced < awardedXP) {
+          awardedXP = reduced;
+          reasons.push(AntiAbuseReason.DIMINISHING_RETURNS);
+        }
+      }
+    }
+
+    const cap = this.config.dailyXPCaps[event.source];
+
+    if (cap !== undefined) {
+      // Estornos da fonte liberam o XP correspondente
+      const earned = window
+        .filter((entry) => entry.source === event.source)
+        .reduce((total, entry) => total + entry.amount, 0);
+      const remaining = Math.max(0, cap - earned);
+
+      if (awardedXP > remaining) {
+        awardedXP = remaining;
+        reasons.push(AntiAbuseReason.DAILY_CAP_REACHED);
+      }
+    }
+
+    return { allowed: true, requestedXP: event.amount, awardedXP, reasons };
+  }
+
+  private async recordViolations(
+    userId: string,
+    decisions: AntiAbuseDecision[]
+  ): Promise<void> {
+    const flagged = decisions.filter((decision) => decision.reasons.length);
+
+    if (!flagged.length) {
+      return;
+    }
+
+    const violation: AntiAbuseViolation = {
+      violations: flagged.length,
+      reasons: {},
+      reviewsBlocked: flagged.filter((decision) => !decision.allowed).length,
+      xpWithheld: flagged.reduce(
+        (total, decision) => total + decision.requestedXP - decision.awardedXP,
+        0
+      ),
+    };
+
+    for (const reason of flagged.flatMap((decision) => decision.reasons)) {
+      violation.reasons[reason] = (violation.reasons[reason] ?? 0) + 1;
+    }
+
+    const now = new Date();
+
+    logger.warn("[AntiAbuseService] XP bloqueado ou reduzido", {
+      userId,
+      ...violation,
+    });
+
+    // A decisão já foi tomada: falhar aqui não deve impedir a revisão
+    try {
+      await this.firestore.recordAntiAbuseViolation(
+        userId,
+        now.toISOString().slice(0, 10),
+        violation,
+        now
+      );
+    } catch (error) {
+      logger.error("Falha ao registrar violação anti-abuso", {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private isChecked(event: AntiAbuseEvent): boolean {
+    return (
+      event.source === XPSource.REVIEW ||
+      this.config.dailyXPCaps[event.source] !== undefined
+    );
+  }
+
+  private allow(event: AntiAbuseEvent): AntiAbuseDecision {
+    return {
+      allowed: true,
+      requestedXP: event.amount,
+      awardedXP: event.amount,
+      reasons: [],
+    };
+  }
+
+  private toEntry(transaction: XPTransaction): XPEntry[] {
+    // Estornos contam (negativos) para a fonte original
+    const source =
+      transaction.source === XPSource.REVERSAL
+        ? transaction.reversedSource
+        : transaction.source;
+
+    return source
+      ? [
+          {
+            source,
+            sourceId: transaction.sourceId,
+            amount: transaction.amount,
+            at: toDate(transaction.timestamp).getTime(),
+          },
+        ]
+      : [];
+  }
+}
@@ -0,0 +1,195 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AuditAction, type AuditRecord } from "../models/AuditRecord";
+import { InMemoryRepository } from "../repositories";
+import { runWithRequestContext } from "../utils/request-context";
+import { AuditService } from "./audit.service";
+
+const userId = "user-1";
+
+const createRecord = (
+  id: string,
+  action: AuditAction,
+  createdAt: string,
+  targetUserId: string = userId
+): AuditRecord => ({
+  id,
+  action,
+  actor: "system",
+  targetUserId,
+  reason: null,
+  endpoint: null,
+  requestId: null,
+  before: null,
+  after: null,
+  details: {},
+  createdAt: new Date(createdAt),
+});
+
+describe("AuditService", () => {
+  let repository: InMemoryRepository;
+  let service: AuditService;
+
+  beforeEach(() => {
+    repository = new InMemoryRepository();
+    service = new AuditService(repository);
+  });
+
+  describe("record", () => {
+    it("preenche actor, endpoint e requestId a partir do contexto da requisição", async () => {
+      const spy = vi.spyOn(repository, "createAuditRecord");
+
+      await runWithRequestContext(
+        {
+          requestId: "req-1",
+          endpoint: "POST /api/gamification/process-review",
+          actor: "uid-1",
+        },
+        () =>
+          service.record({
+            action: AuditAction.XP_CHANGE,
+            targetUserId: userId,
+            before: { totalXP: 0 },
+            after: { totalXP: 10 },
+          })
+      );
+
+      expect(spy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.XP_CHANGE,
+          actor: "uid-1",
+          targetUserId: userId,
+          endpoint: "POST /api/gamification/process-review",
+          requestId: "req-1",
+          before: { totalXP: 0 },
+          after: { totalXP: 10 },
+          details: {},
+        })
+      );
+    });
+
+    it("usa o actor system fora de uma requisição", async () => {
+      const spy = vi.spyOn(repository, "createAuditRecord");
+
+      await service.record({
+        action: AuditAction.STREAK_RESET,
+        targetUserId: userId,
+      });
+
+      expect(spy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actor: "system",
+          endpoint: null,
+          requestId: null,
+        })
+      );
+    });
+
+    it("não propaga falhas de gravação", async () => {
+      vi.spyOn(repository, "createAuditRecord").mockRejectedValue(
+        new Error("indisponível")
+      );
+
+      await expect(
+        service.record({
+          id: "audit-1",
+          action: AuditAction.XP_CHANGE,
+          targetUserId: userId,
+        })
+      ).resolves.toBe("audit-1");
+    });
+  });
+
+  describe("trackMetrics", () => {
+    it("registra apenas os campos de métricas alterados", async () => {
+      const spy = vi.spyOn(repository, "createAuditRecord");
+      await repository.addSharedDeck(userId, "deck-1");
+
+      await service.trackMetrics(userId, "deck_shared", async () => {
+        await repository.addSharedDeck(userId, "deck-2");
+        await repository.incrementDeckReviews(userId);
+      });
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.METRICS_UPDATE,
+          targetUserId: userId,
+          before: { decksShared: ["deck-1"], deckReviewsSubmitted: 0 },
+          after: {
+            decksShared: ["deck-1", "deck-2"],
+            deckReviewsSubmitted: 1,
+          },
+          details: { operation: "deck_shared" },
+        })
+      );
+    });
+
+    it("não registra nada quando as métricas não mudam", async () => {
+      const spy = vi.spyOn(repository, "createAuditRecord");
+      await repository.addSharedDeck(userId, "deck-1");
+
+      const result = await service.trackMetrics(userId, "deck_shared", () =>
+        repository.addSharedDeck(userId, "deck-1").then(() => "ok")
+      );
+
+      expect(result).toBe("ok");
+      expect(spy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getUserTimeline", () => {
+    beforeEach(async () => {
+      for (const record of [
+        createRecord("a", AuditAction.XP_CHANGE, "2025-03-01T10:00:00Z"),
+        createRecord("b", AuditAction.STREAK_RESET, "2025-03-02T10:00:00Z"),
+        createRecord("c", AuditAction.XP_CHANGE, "2025-03-03T10:00:00Z"),
+        createRecord("d", AuditAction.XP_CHANGE, "2025-03-10T10:00:00Z"),
+        createRecord(
+          "e",
+          AuditAction.XP_CHANGE,
+          "2025-03-02T12:00:00Z",
+          "user-2"
+        ),
+      ]) {
+        await repository.createAuditRecord(record);
+      }
+    });
+
+    it("retorna os registros do usuário no período, do mais recente ao mais antigo", async () => {
+      const records = await service.getUserTimeline(userId, {
+        from: new Date("2025-03-01T00:00:00Z"),
+        to: new Date("2025-03-05T00:00:00Z"),
+      });
+
+      expect(records.map((record) => record.id)).toEqual(["c", "b", "a"]);
+    });
+
+    it("filtra por ação e respeita o limite", async () => {
+      const records = await service.getUserTimeline(userId, {
+        from: new Date("2025-03-01T00:00:00Z"),
+        to: new Date("2025-03-31T00:00:00Z"),
+        actions: [AuditAction.XP_CHANGE],
+        limit: 2,
+      });
+
+      expect(records.map((record) => record.id)).toEqual(["d", "c"]);
+    });
+
+    it("aplica o filtro por ação na consulta em vez de buscar o limite máximo", async () => {
+      const spy = vi.spyOn(repository, "getUserAuditRecords");
+      const from = new Date("2025-03-01T00:00:00Z");
+      const to = new Date("2025-03-31T00:00:00Z");
+
+      await service.getUserTimeline(userId, {
+        from,
+        to,
+        actions: [AuditAction.STREAK_RESET],
+        limit: 1,
+      });
+
+      expect(spy).toHaveBeenCalledWith(userId, from, to, 1, [
+        AuditAction.STREAK_RESET,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { randomUUID } from "crypto";
+import { AUDIT_CONFIG } from "../config/constants";
+import {
+  AuditAction,
+  type AuditRecord,
+  type AuditValues,
+} from "../models/AuditRecord";
+import {
+  getRepository,
+  type GamificationRepository,
+  type UserMetrics,
+} from "../repositories";
+import { logger } from "../utils/logger";
+import { getRequestContext, SYSTEM_ACTOR } from "../utils/request-context";
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetUserId: string | null;
+  // Padrão: actor da requisição atual (ou "system" fora de requisições)
+  actor?: string;
+  // Permite referenciar o registro antes de gravá-lo (ex: sourceId de transações)
+  id?: string;
+  reason?: string | null;
+  before?: AuditValues | null;
+  after?: AuditValues | null;
+  details?: AuditValues;
+}
+
+export interface AuditTimelineQuery {
+  from: Date;
+  to: Date;
+  limit?: number | undefined;
+  actions?: AuditAction[] | undefined;
+}
+
+/**
+ * Trilha de auditoria (append-only) das mutações de estado.
+ *
+ * actor, endpoint e requestId vêm do contexto da requisição
+ * (requestContextMiddleware), então os services só informam o que mudou.
+ */
+export class AuditService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository()
+  ) {}
+
+  /**
+   * Grava um registro. A mutação auditada já foi aplicada, então uma falha
+   * aqui é apenas registrada no log (não desfaz nem repete a operação).
+   */
+  async record(entry: AuditEntry): Promise<string> {
+    const context = getRequestContext();
+    const record: AuditRecord = {
+      id: entry.id ?? randomUUID(),
+      action: entry.action,
+      actor: entry.actor ?? context?.actor ?? SYSTEM_ACTOR,
+      targetUserId: entry.targetUserId,
+      reason: entry.reason ?? null,
+      endpoint: context?.endpoint ?? null,
+      requestId: context?.requestId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      details: entry.details ?? {},
+      createdAt: new Date(),
+    };
+
+    try {
+      await this.firestore.createAuditRecord(record);
+    } catch (error) {
+      logger.error("Falha ao gravar registro de auditoria", {
+        record,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return record.id;
+  }
+
+  /**
+   * Executa atualizações de métricas customizadas e audita apenas os campos alterados
+   * @param operation - Evento que originou a atualização (ex: "deck_shared")
+   */
+  async trackMetrics<T>(
+    userId: string,
+    operation: string,
+    mutate: () => Promise<T>
+  ): Promise<T> {
+    const before = await this.firestore.getUserMetrics(userId);
+    const result = await mutate();
+    const after = await this.firestore.getUserMetrics(userId);
+    const changes = diffMetrics(before, after);
+
+    if (changes) {
+      await this.record({
+        action: AuditAction.METRICS_UPDATE,
+        targetUserId: userId,
+        before: changes.before,
+        after: changes.after,
+        details: { operation },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Linha do tempo de auditoria do usuário, do mais recente para o mais antigo
+   */
+  async getUserTimeline(
+    userId: string,
+    {
+      from,
+      to,
+      limit = AUDIT_CONFIG.DEFAULT_LIMIT,
+      actions,
+    }: AuditTimelineQuery
+  ): Promise<AuditRecord[]> {
+    const cappedLimit = Math.max(1, Math.min(AUDIT_CONFIG.MAX_LIMIT, limit));
+
+    return this.firestore.getUserAuditRecords(
+      userId,
+      from,
+      to,
+      cappedLimit,
+      actions
+    );
+  }
+}
+
+// Campos de controle que mudam a cada escrita e não interessam na auditoria
+const IGNORED_METRIC_FIELDS = new Set<keyof UserMetrics>(["updatedAt"]);
+
+function diffMetrics(
+  before: UserMetrics,
+  after: UserMetrics
+): { before: AuditValues; after: AuditValues } | null {
+  const changedBefore: AuditValues = {};
+  const changedAfter: AuditValues = {};
+
+  for (const key of Object.keys(after) as Array<keyof UserMetrics>) {
+    if (IGNORED_METRIC_FIELDS.has(key)) {
+      continue;
+    }
+
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+
+  return Object.keys(changedAfter).length
+    ? { before: changedBefore, after: changedAfter }
+    : null;
+}
@@ -1,6 +1,8 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { DAILY_GOAL_TARGET, XP_VALUES } from "../config/constants";
+import type { DailyGoalSettings } from "../models/DailyGoal";
 import type { DailyProgress } from "../models/DailyProgress";
+import type { StudySession } from "../models/StudySession";
 import type { UserProgress } from "../models/UserProgress";
 import { XPSource } from "../models/XPTransaction";
 import type { DailyProgressUpdate } from "./firestore.service";
@@ -228,7 +230,10 @@ describe("DailyGoalService", () => {
 
       expect(result).toEqual({
         goalMet: true,
+        goal: { type: "cards", target: DAILY_GOAL_TARGET },
         cardsReviewed: 25,
+        minutesStudied: 0,
+        remaining: 0,
         cardsRemaining: 0,
         xpEarned: 100,
         date,
@@ -254,7 +259,10 @@ describe("DailyGoalService", () => {
 
       expect(result).toEqual({
         goalMet: false,
+        goal: { type: "cards", target: DAILY_GOAL_TARGET },
         cardsReviewed: 15,
+        minutesStudied: 0,
+        remaining: 5,
         cardsRemaining: 5,
         xpEarned: 0,
         date,
@@ -273,7 +281,10 @@ describe("DailyGoalService", () => {
 
       expect(result).toEqual({
         goalMet: false,
+        goal: { type: "cards", target: DAILY_GOAL_TARGET },
         cardsReviewed: 0,
+        minutesStudied: 0,
+        remaining: DAILY_GOAL_TARGET,
         cardsRemaining: DAILY_GOAL_TARGET,
         xpEarned: 0,
         date,
@@ -343,6 +354,7 @@ describe("DailyGoalService", () => {
           newLevel: 5,
           levelsGained: 0,
         },
+        xpGained: XP_VALUES.DAILY_GOAL,
       });
       vi.spyOn(mockFirestore, "updateDailyProgress").mockResolvedValue({
         ...progress,
@@ -455,6 +467,7 @@ describe("DailyGoalService", () => {
           newLevel: 1,
           levelsGained: 0,
         },
+        xpGained: XP_VALUES.DAILY_GOAL,
       });
       vi.spyOn(mockFirestore, "updateDailyProgress").mockResolvedValue({
         ...progress,
@@ -483,4 +496,146 @@ describe("DailyGoalService", () => {
       ).rejects.toThrow("Formato de data inválido");
     });
   });
+
+  describe("meta diária configurável", () => {
+    const userId = "user123";
+    const settings: DailyGoalSettings = {
+      userId,
+      history: [
+        { type: "cards", target: 10, effectiveFrom: "2025-11-01" },
+        { type: "minutes", target: 30, effectiveFrom: "2025-11-10" },
+      ],
+      updatedAt: new Date(),
+    };
+
+    it("deve usar a meta em vigor na data verificada", async () => {
+      vi.spyOn(mockFirestore, "getDailyGoalSettings").mockResolvedValue(
+        settings
+      );
+      vi.spyOn(mockFirestore, "getDailyProgress").mockResolvedValue({
+        userId,
+        date: "2025-11-05",
+        cardsReviewed: 12,
+        goalMet: true,
+        xpEarned: 0,
+        timestamp: new Date(),
+      });
+
+      const before = await service.checkDailyGoal(userId, "2025-10-31");
+      const during = await service.checkDailyGoal(userId, "2025-11-05");
+      const after = await service.checkDailyGoal(userId, "2025-11-10");
+
+      expect(before.goal).toEqual({ type: "cards", target: DAILY_GOAL_TARGET });
+      expect(before.goalMet).toBe(false);
+      expect(during.goal).toEqual({ type: "cards", target: 10 });
+      expect(during.goalMet).toBe(true);
+      expect(after.goal).toEqual({ type: "minutes", target: 30 });
+      expect(after.goalMet).toBe(false);
+      expect(after.remaining).toBe(30);
+      expect(after.cardsRemaining).toBe(0);
+    });
+
+    it("deve registrar revisões usando a meta do usuário", async () => {
+      vi.spyOn(mockFirestore, "getDailyGoalSettings").mockResolvedValue(
+        settings
+      );
+      vi.spyOn(mockFirestore, "getDailyProgress").mockResolvedValue({
+        userId,
+        date: "2025-11-05",
+        cardsReviewed: 9,
+        goalMet: false,
+        xpEarned: 0,
+        timestamp: new Date(),
+      });
+
+      await service.recordCardReview(userId, "2025-11-05");
+
+      expect(mockFirestore.updateDailyProgress).toHaveBeenCalledWith(
+        userId,
+        "2025-11-05",
+        { cardsReviewed: 10, goalMet: true }
+      );
+    });
+
+    it("deve substituir a alteração do mesmo dia e preservar o histórico", async () => {
+      vi.spyOn(mockFirestore, "getDailyGoalSettings").mockResolvedValue(
+        settings
+      );
+      vi.spyOn(mockFirestore, "getDailyProgress").mockResolvedValue({
+        userId,
+        date: "2025-11-10",
+        cardsReviewed: 50,
+        goalMet: false,
+        xpEarned: 0,
+        timestamp: new Date(),
+      });
+
+      const result = await service.updateGoalSettings(
+        userId,
+        { type: "cards", target: 50 },
+        "2025-11-10"
+      );
+
+      expect(result.goal).toEqual({ type: "cards", target: 50 });
+      expect(mockFirestore.saveDailyGoalSettings).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId,
+          history: [
+            { type: "cards", target: 10, effectiveFrom: "2025-11-01" },
+            { type: "cards", target: 50, effectiveFrom: "2025-11-10" },
+          ],
+        })
+      );
+      // O dia em que a meta começa a valer é reavaliado
+      expect(mockFirestore.updateDailyProgress).toHaveBeenCalledWith(
+        userId,
+        "2025-11-10",
+        { goalMet: true }
+      );
+    });
+
+    it("deve rejeitar meta inválida", async () => {
+      await expect(
+        service.updateGoalSettings(userId, { type: "cards", target: 0 })
+      ).rejects.toThrow("Meta diária inválida.");
+      expect(mockFirestore.saveDailyGoalSettings).not.toHaveBeenCalled();
+    });
+
+    it("deve somar os minutos das sessões do dia para metas em minutos", async () => {
+      vi.spyOn(mockFirestore, "getDailyGoalSettings").mockResolvedValue(
+        settings
+      );
+      vi.spyOn(mockFirestore, "getStudySessionsByPeriod").mockResolvedValue([
+        {
+          sessionDurationMinutes: 20,
+          timestamp: new Date(2025, 10, 12, 9),
+        },
+        {
+          sessionDurationMinutes: 15,
+          timestamp: new Date(2025, 10, 12, 21),
+        },
+        // Sessão do dia seguinte retornada pela janela ampla da consulta
+        {
+          sessionDurationMinutes: 30,
+          timestamp: new Date(2025, 10, 13, 1),
+        },
+      ] as StudySession[]);
+      vi.spyOn(mockFirestore, "getDailyProgress").mockResolvedValue({
+        userId,
+        date: "2025-11-12",
+        cardsReviewed: 3,
+        goalMet: false,
+        xpEarned: 0,
+        timestamp: new Date(),
+      });
+
+      await service.syncStudyMinutes(userId, "2025-11-12");
+
+      expect(mockFirestore.updateDailyProgress).toHaveBeenCalledWith(
+        userId,
+        "2025-11-12",
+        { minutesStudied: 35, goalMet: true }
+      );
+    });
+  });
 });
@@ -1,18 +1,44 @@
-import { DAILY_GOAL_TARGET, XP_VALUES } from "../config/constants";
-import type { DailyProgress } from "../models/DailyProgress";
+import { XP_VALUES } from "../config/constants";
+import {
+  isValidDailyGoal,
+  resolveDailyGoal,
+  type DailyGoal,
+  type DailyGoalHistoryEntry,
+} from "../models/DailyGoal";
+import {
+  getDailyGoalProgress,
+  hasMetDailyGoal,
+  type DailyProgress,
+} from "../models/DailyProgress";
 import type { UserProgress } from "../models/UserProgress";
 import { XPSource } from "../models/XPTransaction";
-import { FirestoreService } from "./firestore.service";
+import { getDateStringInTimeZone } from "../utils/timezone";
+import { getRepository, type GamificationRepository } from "../repositories";
 import { XPService } from "./xp.service";
 
+const HOUR_MS = 60 * 60 * 1000;
+
 export interface DailyGoalCheckResult {
   goalMet: boolean;
+  // Meta em vigor na data verificada
+  goal: DailyGoal;
   cardsReviewed: number;
+  minutesStudied: number;
+  // Quanto falta na unidade da meta (cards ou minutos)
+  remaining: number;
+  // Mantido por compatibilidade: 0 quando a meta é em minutos
   cardsRemaining: number;
   xpEarned: number;
   date: string;
 }
 
+export interface DailyGoalSettingsResult {
+  userId: string;
+  // Meta em vigor hoje
+  goal: DailyGoal;
+  history: DailyGoalHistoryEntry[];
+}
+
 export interface DailyGoalXPResult {
   xpAwarded: number;
   totalXP: number;
@@ -23,25 +49,31 @@ export interface DailyGoalXPResult {
 
 export class DailyGoalService {
   constructor(
-    private readonly firestore: FirestoreService = new FirestoreService(),
+    private readonly firestore: GamificationRepository = getRepository(),
     private readonly xpService: XPService = new XPService()
   ) {}
 
   /**
-   * Registra uma revisão de card no progresso diário do usuário
+   * Registra revisões de card no progresso diário do usuário
    * @param userId ID do usuário
    * @param date Data no formato YYYY-MM-DD (opcional, padrão: hoje)
+   * @param count Quantidade de revisões a registrar (padrão: 1)
    * @returns Progresso diário atualizado
    */
   async recordCardReview(
     userId: string,
-    date?: string
+    date?: string,
+    count = 1
   ): Promise<DailyProgress> {
     if (!userId?.trim()) {
       throw new Error("ID do usuário é obrigatório.");
     }
 
-    const reviewDate = date ?? this.getTodayDate();
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error("Quantidade de revisões inválida.");
+    }
+
+    const reviewDate = date ?? (await this.getTodayDate(userId));
 
     if (!this.isValidDateFormat(reviewDate)) {
       throw new Error(
@@ -49,48 +81,61 @@ export class DailyGoalService {
       );
     }
 
+    const goal = await this.getGoalForDate(userId, reviewDate);
+
     try {
       const existing = await this.firestore.getDailyProgress(
         userId,
         reviewDate
       );
 
-      const newCardsReviewed = existing.cardsReviewed + 1;
-      const goalMet = newCardsReviewed >= DAILY_GOAL_TARGET;
+      const newCardsReviewed = existing.cardsReviewed + count;
+      const goalMet = hasMetDailyGoal(
+        { ...existing, cardsReviewed: newCardsReviewed },
+        goal
+      );
 
       // Atualizar progresso diário
-      const dailyProgress = await this.firestore.updateDailyProgress(userId, reviewDate, {
-        cardsReviewed: newCardsReviewed,
-        goalMet,
-      });
+      const dailyProgress = await this.firestore.updateDailyProgress(
+        userId,
+        reviewDate,
+        {
+          cardsReviewed: newCardsReviewed,
+          goalMet,
+        }
+      );
 
       // Incrementar totalCardsReviewed no perfil do usuário
       const userProgress = await this.firestore.getUserProgress(userId);
       await this.firestore.updateUserProgress(userId, {
-        totalCardsReviewed: (userProgress.totalCardsReviewed || 0) + 1,
+        totalCardsReviewed: (userProgress.totalCardsReviewed || 0) + count,
       });
 
       return dailyProgress;
     } catch (error) {
       if (error instanceof Error && error.message.includes("não encontrado")) {
         // Criar progresso diário
-        const dailyProgress = await this.firestore.updateDailyProgress(userId, reviewDate, {
-          cardsReviewed: 1,
-          goalMet: 1 >= DAILY_GOAL_TARGET,
-          xpEarned: 0,
-        });
+        const dailyProgress = await this.firestore.updateDailyProgress(
+          userId,
+          reviewDate,
+          {
+            cardsReviewed: count,
+            goalMet: hasMetDailyGoal({ cardsReviewed: count }, goal),
+            xpEarned: 0,
+          }
+        );
 
         // Incrementar totalCardsReviewed no perfil do usuário
         try {
           const userProgress = await this.firestore.getUserProgress(userId);
           await this.firestore.updateUserProgress(userId, {
-            totalCardsReviewed: (userProgress.totalCardsReviewed || 0) + 1,
+            totalCardsReviewed: (userProgress.totalCardsReviewed || 0) + count,
           });
         } catch (userError) {
           // Se o usuário não existir, criar
           await this.firestore.createUserProgress(userId);
           await this.firestore.updateUserProgress(userId, {
-            totalCardsReviewed: 1,
+            totalCardsReviewed: count,
           });
         }
 
@@ -114,7 +159,7 @@ export class DailyGoalService {
       throw new Error("ID do usuário é obrigatório.");
     }
 
-    const checkDate = date ?? this.getTodayDate();
+    const checkDate = date ?? (await this.getTodayDate(userId));
 
     if (!this.isValidDateFormat(checkDate)) {
       throw new Error(
@@ -122,31 +167,186 @@ export class DailyGoalService {
       );
     }
 
+    const goal = await this.getGoalForDate(userId, checkDate);
+
     try {
       const progress = await this.firestore.getDailyProgress(userId, checkDate);
 
-      const goalMet = progress.cardsReviewed >= DAILY_GOAL_TARGET;
-      const cardsRemaining = Math.max(
-        0,
-        DAILY_GOAL_TARGET - progress.cardsReviewed
+      return this.buildGoalCheck(goal, progress, checkDate);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("não encontrado")) {
+        return this.buildGoalCheck(
+          goal,
+          { cardsReviewed: 0, minutesStudied: 0, xpEarned: 0 },
+          checkDate
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Retorna a meta diária configurada pelo usuário
+   * @param userId ID do usuário
+   * @param date Data de referência no formato YYYY-MM-DD (opcional, padrão: hoje)
+   */
+  async getGoalSettings(
+    userId: string,
+    date?: string
+  ): Promise<DailyGoalSettingsResult> {
+    if (!userId?.trim()) {
+      throw new Error("ID do usuário é obrigatório.");
+    }
+
+    const referenceDate = date ?? (await this.getTodayDate(userId));
+    const settings = await this.firestore.getDailyGoalSettings(userId);
+
+    return {
+      userId,
+      goal: resolveDailyGoal(settings, referenceDate),
+      history: settings?.history ?? [],
+    };
+  }
+
+  /**
+   * Altera a meta diária do usuário a partir da data informada.
+   * Dias anteriores continuam avaliados com a meta que valia na época.
+   * @param userId ID do usuário
+   * @param goal Nova meta (cards ou minutos)
+   * @param date Data de início no formato YYYY-MM-DD (opcional, padrão: hoje)
+   */
+  async updateGoalSettings(
+    userId: string,
+    goal: DailyGoal,
+    date?: string
+  ): Promise<DailyGoalSettingsResult> {
+    if (!userId?.trim()) {
+      throw new Error("ID do usuário é obrigatório.");
+    }
+
+    if (!isValidDailyGoal(goal)) {
+      throw new Error("Meta diária inválida.");
+    }
+
+    const effectiveFrom = date ?? (await this.getTodayDate(userId));
+
+    if (!this.isValidDateFormat(effectiveFrom)) {
+      throw new Error(
+        "Formato de data inválido. Use o formato YYYY-MM-DD (ex: 2025-11-11)."
+      );
+    }
+
+    const settings = await this.firestore.getDailyGoalSettings(userId);
+
+    // Uma alteração no mesmo dia substitui a anterior
+    const history: DailyGoalHistoryEntry[] = [
+      ...(settings?.history ?? []).filter(
+        (entry) => entry.effectiveFrom < effectiveFrom
+      ),
+      { type: goal.type, target: goal.target, effectiveFrom },
+    ];
+
+    await this.firestore.saveDailyGoalSettings({
+      userId,
+      history,
+      updatedAt: new Date(),
+    });
+
+    // Reavaliar o dia em que a nova meta começa a valer
+    try {
+      const progress = await this.firestore.getDailyProgress(
+        userId,
+        effectiveFrom
       );
+      const goalMet = hasMetDailyGoal(progress, goal);
 
-      return {
-        goalMet,
-        cardsReviewed: progress.cardsReviewed,
-        cardsRemaining,
-        xpEarned: progress.xpEarned,
-        date: checkDate,
-      };
+      if (goalMet !== progress.goalMet) {
+        await this.firestore.updateDailyProgress(userId, effectiveFrom, {
+          goalMet,
+        });
+      }
+    } catch (error) {
+      if (
+        !(error instanceof Error && error.message.includes("não encontrado"))
+      ) {
+        throw error;
+      }
+    }
+
+    return {
+      userId,
+      goal: { type: goal.type, target: goal.target },
+      history,
+    };
+  }
+
+  /**
+   * Retorna a meta em vigor em uma data
+   * @param userId ID do usuário
+   * @param date Data no formato YYYY-MM-DD
+   */
+  async getGoalForDate(userId: string, date: string): Promise<DailyGoal> {
+    const settings = await this.firestore.getDailyGoalSettings(userId);
+    return resolveDailyGoal(settings, date);
+  }
+
+  /**
+   * Recalcula os minutos estudados no dia a partir das sessões registradas
+   * e atualiza o status da meta (idempotente: sessões reenviadas não somam em dobro)
+   * @param userId ID do usuário
+   * @param date Data no formato YYYY-MM-DD
+   * @returns Progresso diário atualizado
+   */
+  async syncStudyMinutes(userId: string, date: string): Promise<DailyProgress> {
+    if (!userId?.trim()) {
+      throw new Error("ID do usuário é obrigatório.");
+    }
+
+    if (!this.isValidDateFormat(date)) {
+      throw new Error(
+        "Formato de data inválido. Use o formato YYYY-MM-DD (ex: 2025-11-11)."
+      );
+    }
+
+    // Janela ampla (±14h cobre qualquer fuso) filtrada pelo dia local do usuário
+    const [year = 1970, month = 1, day = 1] = date.split("-").map(Number);
+    const dayStartUTC = Date.UTC(year, month - 1, day);
+    const start = new Date(dayStartUTC - 14 * HOUR_MS);
+    const end = new Date(dayStartUTC + 38 * HOUR_MS - 1);
+
+    const timezone = await this.firestore.getUserTimezone(userId);
+    const sessions = await this.firestore.getStudySessionsByPeriod(
+      userId,
+      start,
+      end
+    );
+    const minutesStudied = sessions
+      .filter((session) => {
+        const timestamp =
+          session.timestamp instanceof Date
+            ? session.timestamp
+            : session.timestamp.toDate();
+        return getDateStringInTimeZone(timestamp, timezone) === date;
+      })
+      .reduce((total, session) => total + session.sessionDurationMinutes, 0);
+
+    const goal = await this.getGoalForDate(userId, date);
+
+    try {
+      const existing = await this.firestore.getDailyProgress(userId, date);
+
+      return await this.firestore.updateDailyProgress(userId, date, {
+        minutesStudied,
+        goalMet: hasMetDailyGoal({ ...existing, minutesStudied }, goal),
+      });
     } catch (error) {
       if (error instanceof Error && error.message.includes("não encontrado")) {
-        return {
-          goalMet: false,
+        return this.firestore.updateDailyProgress(userId, date, {
           cardsReviewed: 0,
-          cardsRemaining: DAILY_GOAL_TARGET,
+          minutesStudied,
+          goalMet: hasMetDailyGoal({ cardsReviewed: 0, minutesStudied }, goal),
           xpEarned: 0,
-          date: checkDate,
-        };
+        });
       }
       throw error;
     }
@@ -166,7 +366,7 @@ export class DailyGoalService {
       throw new Error("ID do usuário é obrigatório.");
     }
 
-    const awardDate = date ?? this.getTodayDate();
+    const awardDate = date ?? (await this.getTodayDate(userId));
 
     if (!this.isValidDateFormat(awardDate)) {
       throw new Error(
@@ -179,7 +379,9 @@ export class DailyGoalService {
 
     if (!goalCheck.goalMet) {
       throw new Error(
-        `Meta diária não atingida. Cards revisados: ${goalCheck.cardsReviewed}/${DAILY_GOAL_TARGET}`
+        goalCheck.goal.type === "minutes"
+          ? `Meta diária não atingida. Minutos estudados: ${goalCheck.minutesStudied}/${goalCheck.goal.target}`
+          : `Meta diária não atingida. Cards revisados: ${goalCheck.cardsReviewed}/${goalCheck.goal.target}`
       );
     }
 
@@ -215,16 +417,39 @@ export class DailyGoalService {
     };
   }
 
+  private buildGoalCheck(
+    goal: DailyGoal,
+    progress: Pick<
+      DailyProgress,
+      "cardsReviewed" | "minutesStudied" | "xpEarned"
+    >,
+    date: string
+  ): DailyGoalCheckResult {
+    const remaining = Math.max(
+      0,
+      goal.target - getDailyGoalProgress(progress, goal)
+    );
+
+    return {
+      goalMet: remaining === 0,
+      goal,
+      cardsReviewed: progress.cardsReviewed,
+      minutesStudied: progress.minutesStudied ?? 0,
+      remaining,
+      cardsRemaining: goal.type === "cards" ? remaining : 0,
+      xpEarned: progress.xpEarned,
+      date,
+    };
+  }
+
   /**
-   * Retorna a data de hoje no formato YYYY-MM-DD
-   * @returns Data atual no formato YYYY-MM-DD
+   * Retorna a data de hoje no fuso do usuário (YYYY-MM-DD)
+   * @param userId ID do usuário
+   * @returns Data atual do usuário no formato YYYY-MM-DD
    */
-  private getTodayDate(): string {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, "0");
-    const day = String(now.getDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
+  private async getTodayDate(userId: string): Promise<string> {
+    const timezone = await this.firestore.getUserTimezone(userId);
+    return getDateStringInTimeZone(new Date(), timezone);
   }
 
   /**
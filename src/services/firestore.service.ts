@@ -1,16 +1,59 @@
+import { randomUUID } from "crypto";
 import admin from "firebase-admin";
 import type { DocumentData } from "firebase-admin/firestore";
-import { firestoreCollections } from "../config/firebase.config";
+import { RANKING_CONFIG } from "../config/constants";
+import { firestoreCollections, getFirestore } from "../config/firebase.config";
 import type { Achievement } from "../models/Achievement";
+import {
+  getAntiAbuseFlagId,
+  type AntiAbuseDailyFlag,
+  type AntiAbuseViolation,
+} from "../models/AntiAbuse";
+import type {
+  AuditAction,
+  AuditRecord,
+  AuditValues,
+} from "../models/AuditRecord";
 import {
   isValidAchievement,
   normalizeAchievement,
 } from "../models/Achievement";
+import {
+  DAILY_GOAL_TYPES,
+  type DailyGoalHistoryEntry,
+  type DailyGoalSettings,
+} from "../models/DailyGoal";
 import type { DailyProgress } from "../models/DailyProgress";
 import { isValidDailyProgress } from "../models/DailyProgress";
-import type { StreakData } from "../models/StreakData";
+import { getFriendshipId, type Friendship } from "../models/Friendship";
+import type {
+  InboxNotification,
+  InboxPageOptions,
+} from "../models/InboxNotification";
+import {
+  createDefaultNotificationPreferences,
+  NotificationCategory,
+  type NotificationPreferences,
+} from "../models/NotificationPreferences";
+import type { ProcessedEvent } from "../models/ProcessedEvent";
+import { advanceQuest, type UserQuest } from "../models/Quest";
+import type { Ranking, RankingEntry } from "../models/Ranking";
+import {
+  appendReminderSent,
+  type ReminderLog,
+  type ReminderType,
+} from "../models/Reminder";
+import type { StudyGroup } from "../models/StudyGroup";
+import type { StreakData, StreakHistoryItem } from "../models/StreakData";
+import {
+  createEmptyDifficultyBreakdown,
+  isValidStudySession,
+  isValidStudyTimeOfDay,
+  type StudySession,
+} from "../models/StudySession";
 import { isValidStreakData, sortStreakHistory } from "../models/StreakData";
 import type { UserProgress } from "../models/UserProgress";
+import type { XPBoost } from "../models/XPBoost";
 import {
   UserProgressHelpers,
   isValidUserProgress,
@@ -22,58 +65,46 @@ import {
 } from "../models/UserAchievement";
 import type { XPTransaction } from "../models/XPTransaction";
 import { isValidXPTransaction, XPSource } from "../models/XPTransaction";
+import {
+  createDefaultUserMetrics,
+  DEFAULT_USER_PROGRESS,
+  type ClaimProcessedEventResult,
+  type DailyProgressUpdate,
+  type GamificationRepository,
+  type StreakFreezeEquip,
+  type StreakFreezeEquipOutcome,
+  type StreakFreezePurchase,
+  type StreakFreezePurchaseOutcome,
+  type XPReversalBatch,
+  type XPReversalOutcome,
+  type StreakUpdate,
+  type UserAchievementProgressUpdate,
+  type UserMetrics,
+  type UserProgressUpdate,
+} from "../repositories/gamification.repository";
 import { getLocalDateString } from "../utils/validators";
 
+// Tipos do contrato de persistência reexportados para os consumidores existentes
+export type {
+  DailyProgressUpdate,
+  StreakUpdate,
+  UserAchievementProgressUpdate,
+  UserMetrics,
+  UserProgressUpdate,
+} from "../repositories/gamification.repository";
+
 type FirestoreCollections = typeof firestoreCollections;
+
+// Documento de auditLogs que agrupa operações sem usuário alvo (ex: broadcast)
+const GLOBAL_AUDIT_SCOPE = "_global";
+// Valor de xpBoosts.audience para boosts sem usuário (valem para todos)
+const GLOBAL_XP_BOOST_AUDIENCE = "_global";
 type FieldValueNamespace = typeof admin.firestore.FieldValue;
 
-export type UserProgressUpdate = Partial<
-  Omit<
-    UserProgress,
-    | "userId"
-    | "createdAt"
-    | "achievements"
-    | "lastActivityDate"
-    | "currentStreak"
-    | "longestStreak"
-  > & {
-    achievements?: string[];
-    lastActivityDate?: Date | FirebaseFirestore.Timestamp | null;
-    currentStreak?: number;
-    longestStreak?: number;
-  }
->;
-
-export type DailyProgressUpdate = Partial<
-  Omit<DailyProgress, "userId" | "date"> & {
-    timestamp?: Date | FirebaseFirestore.Timestamp;
-  }
->;
-
-export type UserAchievementProgressUpdate = Partial<
-  Pick<
-    UserAchievementProgress,
-    "progress" | "claimed" | "unlockedAt" | "notificationSeen"
-  >
->;
-
-export type StreakUpdate = Partial<
-  Pick<StreakData, "current" | "longest" | "history" | "lastUpdate">
->;
-
-const DEFAULT_USER_PROGRESS: Omit<UserProgress, "userId"> = {
-  level: 1,
-  currentXP: 0,
-  totalXP: 0,
-  currentStreak: 0,
-  longestStreak: 0,
-  totalCardsReviewed: 0,
-  lastActivityDate: null,
-  achievements: [],
-  createdAt: new Date(0),
-};
-
-export class FirestoreService {
+/**
+ * Implementação do GamificationRepository sobre o Firestore
+ */
+export class FirestoreService implements GamificationRepository {
   constructor(
     private readonly collections: FirestoreCollections = firestoreCollections,
     private readonly fieldValue: FieldValueNamespace = admin.firestore
@@ -146,6 +177,53 @@ export class FirestoreService {
     return this.getUserProgress(userId);
   }
 
+  /**
+   * Retorna o fuso IANA configurado pelo usuário (null se não configurado)
+   */
+  async getUserTimezone(userId: string): Promise<string | null> {
+    const snapshot = await this.collections.userProfileDoc(userId).get();
+    const timezone = snapshot.exists ? snapshot.data()?.timezone : null;
+
+    return typeof timezone === "string" && timezone ? timezone : null;
+  }
+
+  async setUserTimezone(
+    userId: string,
+    timezone: string | null
+  ): Promise<void> {
+    await this.collections.userProfileDoc(userId).set(
+      {
+        userId,
+        timezone,
+      },
+      { merge: true }
+    );
+  }
+
+  /**
+   * Fusos configurados de todos os usuários (usuários sem fuso não são retornados)
+   * @returns Map de userId para fuso IANA
+   */
+  async getUserTimezones(): Promise<Map<string, string>> {
+    const snapshot = await getFirestore()
+      .collectionGroup("profile")
+      .where("timezone", "!=", null)
+      .select("timezone")
+      .get();
+
+    const timezones = new Map<string, string>();
+    for (const doc of snapshot.docs) {
+      const userId = doc.ref.parent.parent?.id;
+      const timezone = doc.get("timezone");
+
+      if (userId && typeof timezone === "string" && timezone) {
+        timezones.set(userId, timezone);
+      }
+    }
+
+    return timezones;
+  }
+
   async getDailyProgress(userId: string, date: string): Promise<DailyProgress> {
     const snapshot = await this.collections
       .dailyProgressEntry(userId, date)
@@ -188,6 +266,33 @@ export class FirestoreService {
     return this.getDailyProgress(userId, date);
   }
 
+  /**
+   * Busca a configuração de meta diária do usuário
+   * @returns Configuração salva ou null se o usuário usa a meta padrão
+   */
+  async getDailyGoalSettings(
+    userId: string
+  ): Promise<DailyGoalSettings | null> {
+    const snapshot = await this.collections.dailyGoalSettingsDoc(userId).get();
+
+    if (!snapshot.exists) {
+      return null;
+    }
+
+    return this.mapDailyGoalSettings(userId, snapshot.data() ?? {});
+  }
+
+  async saveDailyGoalSettings(settings: DailyGoalSettings): Promise<void> {
+    await this.collections.dailyGoalSettingsDoc(settings.userId).set(
+      {
+        userId: settings.userId,
+        history: settings.history.map((entry) => ({ ...entry })),
+        updatedAt: settings.updatedAt,
+      },
+      { merge: false }
+    );
+  }
+
   async createXPTransaction(transaction: XPTransaction): Promise<void> {
     if (!isValidXPTransaction(transaction)) {
       throw new Error("Transação de XP inválida.");
@@ -203,6 +308,34 @@ export class FirestoreService {
       .set(payload, { merge: false });
   }
 
+  /**
+   * Grava várias transações de XP em lotes (batch de até 500 escritas)
+   */
+  async createXPTransactions(transactions: XPTransaction[]): Promise<void> {
+    if (
+      transactions.some((transaction) => !isValidXPTransaction(transaction))
+    ) {
+      throw new Error("Transação de XP inválida.");
+    }
+
+    for (let index = 0; index < transactions.length; index += 500) {
+      const batch = getFirestore().batch();
+
+      for (const transaction of transactions.slice(index, index + 500)) {
+        batch.set(
+          this.collections.xpTransactionEntry(
+            transaction.userId,
+            transaction.id
+          ),
+          { ...transaction },
+          { merge: false }
+        );
+      }
+
+      await batch.commit();
+    }
+  }
+
   async getUserXPTransactions(
     userId: string,
     limit = 25
@@ -217,6 +350,70 @@ export class FirestoreService {
     return querySnapshot.docs.map((doc) => this.mapXPTransaction(doc, userId));
   }
 
+  /**
+   * Busca uma transação de XP específica
+   * @returns Transação ou null se não existir
+   */
+  async getXPTransaction(
+    userId: string,
+    transactionId: string
+  ): Promise<XPTransaction | null> {
+    const snapshot = await this.collections
+      .xpTransactionEntry(userId, transactionId)
+      .get();
+
+    if (!snapshot.exists) {
+      return null;
+    }
+
+    return this.mapXPTransaction(
+      snapshot as FirebaseFirestore.QueryDocumentSnapshot<DocumentData>,
+      userId
+    );
+  }
+
+  async getXPTransactionsByIds(
+    userId: string,
+    transactionIds: string[]
+  ): Promise<XPTransaction[]> {
+    if (!transactionIds.length) {
+      return [];
+    }
+
+    const snapshots = await getFirestore().getAll(
+      ...transactionIds.map((transactionId) =>
+        this.collections.xpTransactionEntry(userId, transactionId)
+      )
+    );
+
+    return snapshots
+      .filter((snapshot) => snapshot.exists)
+      .map((snapshot) =>
+        this.mapXPTransaction(
+          snapshot as FirebaseFirestore.QueryDocumentSnapshot<DocumentData>,
+          userId
+        )
+      );
+  }
+
+  async completeXPTransactionEvents(
+    userId: string,
+    transactionIds: string[]
+  ): Promise<void> {
+    for (let index = 0; index < transactionIds.length; index += 500) {
+      const batch = getFirestore().batch();
+
+      for (const transactionId of transactionIds.slice(index, index + 500)) {
+        batch.update(
+          this.collections.xpTransactionEntry(userId, transactionId),
+          { eventPending: this.fieldValue.delete() }
+        );
+      }
+
+      await batch.commit();
+    }
+  }
+
   async getAchievement(achievementId: string): Promise<Achievement> {
     const snapshot = await this.collections.achievementDoc(achievementId).get();
 
@@ -244,6 +441,28 @@ export class FirestoreService {
     return achievements;
   }
 
+  /**
+   * Cria ou substitui uma conquista do catálogo
+   */
+  async saveAchievement(achievement: Achievement): Promise<void> {
+    const { id, ...data } = achievement;
+
+    await this.collections.achievementDoc(id).set(
+      this.removeUndefined({
+        ...data,
+        updatedAt: achievement.updatedAt ?? this.fieldValue.serverTimestamp(),
+      })
+    );
+  }
+
+  /**
+   * Remove uma conquista do catálogo.
+   * O progresso já registrado pelos usuários é mantido.
+   */
+  async deleteAchievement(achievementId: string): Promise<void> {
+    await this.collections.achievementDoc(achievementId).delete();
+  }
+
   async getUserAchievements(
     userId: string
   ): Promise<UserAchievementProgress[]> {
@@ -269,8 +488,7 @@ export class FirestoreService {
       achievementId
     );
 
-    const result = await admin
-      .firestore()
+    const result = await getFirestore()
       .runTransaction(async (transaction) => {
         const snapshot = await transaction.get(entryRef);
         const data = snapshot.data() ?? {};
@@ -293,6 +511,7 @@ export class FirestoreService {
           achievementId,
           progress: 100,
           claimed: false,
+          rewardPending: true,
           unlockedAt: this.fieldValue.serverTimestamp(),
           notificationSeen: false,
           updatedAt: this.fieldValue.serverTimestamp(),
@@ -312,6 +531,98 @@ export class FirestoreService {
     return result;
   }
 
+  /**
+   * Marca a recompensa de uma conquista desbloqueada como resgatada (transação atômica).
+   * isNewClaim é false quando a recompensa já foi resgatada ou não está pendente,
+   * garantindo que o XP seja concedido uma única vez.
+   */
+  async claimAchievementReward(
+    userId: string,
+    achievementId: string
+  ): Promise<{ progress: UserAchievementProgress; isNewClaim: boolean }> {
+    const entryRef = this.collections.userAchievementEntry(
+      userId,
+      achievementId
+    );
+
+    return getFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(entryRef);
+      const data = snapshot.data() ?? {};
+
+      if (!snapshot.exists || data.unlockedAt == null) {
+        throw new Error(
+          `Conquista "${achievementId}" ainda não foi desbloqueada por "${userId}".`
+        );
+      }
+
+      if (data.claimed === true || data.rewardPending !== true) {
+        return {
+          progress: this.mapUserAchievement(userId, achievementId, data),
+          isNewClaim: false,
+        };
+      }
+
+      const payload = {
+        claimed: true,
+        rewardPending: false,
+        claimedAt: this.fieldValue.serverTimestamp(),
+        updatedAt: this.fieldValue.serverTimestamp(),
+      };
+
+      transaction.set(entryRef, payload, { merge: true });
+
+      return {
+        progress: this.mapUserAchievement(userId, achievementId, {
+          ...data,
+          ...payload,
+        }),
+        isNewClaim: true,
+      };
+    });
+  }
+
+  async releaseAchievementRewardClaim(
+    userId: string,
+    achievementId: string
+  ): Promise<void> {
+    await this.collections.userAchievementEntry(userId, achievementId).set(
+      {
+        claimed: false,
+        rewardPending: true,
+        claimedAt: null,
+        updatedAt: this.fieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+  }
+
+  /**
+   * Remove o desbloqueio de uma conquista (transação atômica).
+   * Retorna o registro removido, ou null se a conquista não estava desbloqueada.
+   */
+  async revokeAchievement(
+    userId: string,
+    achievementId: string
+  ): Promise<UserAchievementProgress | null> {
+    const entryRef = this.collections.userAchievementEntry(
+      userId,
+      achievementId
+    );
+
+    return getFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(entryRef);
+      const data = snapshot.data() ?? {};
+
+      if (!snapshot.exists || data.unlockedAt == null) {
+        return null;
+      }
+
+      transaction.delete(entryRef);
+
+      return this.mapUserAchievement(userId, achievementId, data);
+    });
+  }
+
   async markAllAchievementsAsSeen(userId: string): Promise<void> {
     const userAchievementsRef = this.collections.userAchievementEntries(userId);
     const snapshot = await userAchievementsRef
@@ -323,7 +634,7 @@ export class FirestoreService {
       return;
     }
 
-    const batch = admin.firestore().batch();
+    const batch = getFirestore().batch();
     snapshot.docs.forEach((doc) => {
       batch.update(doc.ref, {
         notificationSeen: true,
@@ -359,175 +670,1166 @@ export class FirestoreService {
     return this.mapUserAchievement(userId, achievementId, data);
   }
 
-  async getStreakData(userId: string): Promise<StreakData> {
-    const snapshot = await this.collections.streaksDoc(userId).get();
+  async getStreakData(userId: string): Promise<StreakData> {
+    const snapshot = await this.collections.streaksDoc(userId).get();
+
+    if (!snapshot.exists) {
+      throw new Error(`Dados de streak para "${userId}" não encontrados.`);
+    }
+
+    const data = snapshot.data() ?? {};
+    const mapped = this.mapStreakData(userId, data);
+
+    if (!isValidStreakData(mapped)) {
+      throw new Error(`Documento de streak do usuário "${userId}" inválido.`);
+    }
+
+    return mapped;
+  }
+
+  async updateStreak(
+    userId: string,
+    update: StreakUpdate
+  ): Promise<StreakData> {
+    const payload = this.removeUndefined({
+      userId,
+      ...update,
+      history: update.history ? sortStreakHistory(update.history) : undefined,
+      lastUpdate: update.lastUpdate ?? this.fieldValue.serverTimestamp(),
+    });
+
+    await this.collections.streaksDoc(userId).set(payload, { merge: true });
+
+    return this.getStreakData(userId);
+  }
+
+  async purchaseStreakFreezes(
+    userId: string,
+    { quantity, maxInventory, transaction, levelFor }: StreakFreezePurchase
+  ): Promise<StreakFreezePurchaseOutcome> {
+    if (!isValidXPTransaction(transaction)) {
+      throw new Error("Transação de XP inválida.");
+    }
+
+    const progressRef = this.collections.userProfileDoc(userId);
+    const streakRef = this.collections.streaksDoc(userId);
+    const transactionRef = this.collections.xpTransactionEntry(
+      userId,
+      transaction.id
+    );
+
+    return getFirestore().runTransaction(async (firestoreTransaction) => {
+      const [progressSnapshot, streakSnapshot] = await Promise.all([
+        firestoreTransaction.get(progressRef),
+        firestoreTransaction.get(streakRef),
+      ]);
+      const streak = this.mapStreakData(userId, streakSnapshot.data() ?? {});
+      const freezesAvailable = streak.freezesAvailable ?? 0;
+
+      if (
+        freezesAvailable + (streak.freezesEquipped ?? 0) + quantity >
+        maxInventory
+      ) {
+        return { status: "inventory_full" };
+      }
+
+      const before = this.mapUserProgress(
+        userId,
+        progressSnapshot.data() ?? {}
+      );
+      const cost = -transaction.amount;
+
+      if (!progressSnapshot.exists || before.totalXP < cost) {
+        return { status: "insufficient_xp", totalXP: before.totalXP };
+      }
+
+      const totalXP = before.totalXP - cost;
+      const after: UserProgress = { ...before, ...levelFor(totalXP), totalXP };
+      const lastUpdate = new Date();
+
+      firestoreTransaction.set(
+        progressRef,
+        {
+          level: after.level,
+          currentXP: after.currentXP,
+          totalXP,
+          updatedAt: this.fieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+      firestoreTransaction.set(
+        streakRef,
+        { userId, freezesAvailable: freezesAvailable + quantity, lastUpdate },
+        { merge: true }
+      );
+      firestoreTransaction.set(
+        transactionRef,
+        { ...transaction },
+        { merge: false }
+      );
+
+      return {
+        status: "purchased",
+        before,
+        after,
+        streak: {
+          ...streak,
+          freezesAvailable: freezesAvailable + quantity,
+          lastUpdate,
+        },
+      };
+    });
+  }
+
+  async equipStreakFreezes(
+    userId: string,
+    { quantity, maxEquipped }: StreakFreezeEquip
+  ): Promise<StreakFreezeEquipOutcome> {
+    const streakRef = this.collections.streaksDoc(userId);
+
+    return getFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(streakRef);
+      const streak = this.mapStreakData(userId, snapshot.data() ?? {});
+      const freezesAvailable = streak.freezesAvailable ?? 0;
+      const freezesEquipped = streak.freezesEquipped ?? 0;
+
+      if (freezesAvailable < quantity) {
+        return { status: "insufficient_stock" };
+      }
+
+      if (freezesEquipped + quantity > maxEquipped) {
+        return { status: "equipped_full" };
+      }
+
+      const update = {
+        freezesAvailable: freezesAvailable - quantity,
+        freezesEquipped: freezesEquipped + quantity,
+        lastUpdate: new Date(),
+      };
+
+      transaction.set(streakRef, { userId, ...update }, { merge: true });
+
+      return { status: "equipped", streak: { ...streak, ...update } };
+    });
+  }
+
+  async getStreakProcessedDates(): Promise<Map<string, string>> {
+    const snapshot = await this.collections
+      .streaks()
+      .where("lastProcessedDate", "!=", null)
+      .select("lastProcessedDate")
+      .get();
+
+    const dates = new Map<string, string>();
+    for (const doc of snapshot.docs) {
+      const date = doc.get("lastProcessedDate");
+
+      if (typeof date === "string" && date) {
+        dates.set(doc.id, date);
+      }
+    }
+
+    return dates;
+  }
+
+  async markStreakProcessed(userId: string, date: string): Promise<void> {
+    // Campo fora de StreakData: não altera lastUpdate nem o histórico
+    await this.collections
+      .streaksDoc(userId)
+      .set({ userId, lastProcessedDate: date }, { merge: true });
+  }
+
+  /**
+   * Obtém o progresso específico de uma conquista de um usuário
+   */
+  async getUserAchievementProgress(
+    userId: string,
+    achievementId: string
+  ): Promise<UserAchievementProgress | null> {
+    const snapshot = await this.collections
+      .userAchievementEntry(userId, achievementId)
+      .get();
+
+    if (!snapshot.exists) {
+      return null;
+    }
+
+    return this.mapUserAchievement(
+      userId,
+      achievementId,
+      snapshot.data() ?? {}
+    );
+  }
+
+  /**
+   * Conta quantas transações de XP existem de uma fonte específica
+   */
+  async countXPTransactionsBySource(
+    userId: string,
+    source: XPSource
+  ): Promise<number> {
+    const [created, reversed] = await Promise.all([
+      this.collections
+        .xpTransactionEntries(userId)
+        .where("source", "==", source)
+        .count()
+        .get(),
+      this.collections
+        .xpTransactionEntries(userId)
+        .where("source", "==", XPSource.REVERSAL)
+        .where("reversedSource", "==", source)
+        .count()
+        .get(),
+    ]);
+
+    return created.data().count - reversed.data().count;
+  }
+
+  async getUserXPTransactionsBySource(
+    userId: string,
+    source: XPSource,
+    sourceId: string
+  ): Promise<XPTransaction[]> {
+    const snapshot = await this.collections
+      .xpTransactionEntries(userId)
+      .where("source", "==", source)
+      .where("sourceId", "==", sourceId)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapXPTransaction(doc, userId));
+  }
+
+  async getUserXPTransactionsByDeck(
+    userId: string,
+    deckId: string,
+    source: XPSource
+  ): Promise<XPTransaction[]> {
+    const snapshot = await this.collections
+      .xpTransactionEntries(userId)
+      .where("source", "==", source)
+      .where("deckId", "==", deckId)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapXPTransaction(doc, userId));
+  }
+
+  /**
+   * O ID do estorno é derivado da transação original: a transação do
+   * Firestore garante que dois pedidos simultâneos não revertam duas vezes
+   * e que o débito parte do progresso lido no mesmo commit
+   */
+  async applyXPReversals(
+    userId: string,
+    { reversals, levelFor }: XPReversalBatch
+  ): Promise<XPReversalOutcome> {
+    if (!reversals.every(isValidXPTransaction)) {
+      throw new Error("Transação de XP inválida.");
+    }
+
+    const progressRef = this.collections.userProfileDoc(userId);
+    const reversalRefs = reversals.map((reversal) =>
+      this.collections.xpTransactionEntry(userId, reversal.id)
+    );
+
+    return getFirestore().runTransaction(async (transaction) => {
+      const [progressSnapshot, ...reversalSnapshots] = await transaction.getAll(
+        progressRef,
+        ...reversalRefs
+      );
+      const before = this.mapUserProgress(
+        userId,
+        progressSnapshot?.data() ?? {}
+      );
+      const created = reversals.filter(
+        (_, index) => !reversalSnapshots[index]?.exists
+      );
+      const alreadyReversed = reversals
+        .filter((_, index) => reversalSnapshots[index]?.exists)
+        .map((reversal) => reversal.reversalOf ?? reversal.id);
+
+      if (!created.length) {
+        return { before, after: before, reversals: [], alreadyReversed };
+      }
+
+      const totalXP = Math.max(
+        0,
+        created.reduce(
+          (total, reversal) => total + reversal.amount,
+          before.totalXP
+        )
+      );
+      const after: UserProgress = { ...before, ...levelFor(totalXP), totalXP };
+
+      transaction.set(
+        progressRef,
+        {
+          level: after.level,
+          currentXP: after.currentXP,
+          totalXP,
+          updatedAt: this.fieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+
+      for (const reversal of created) {
+        transaction.set(
+          this.collections.xpTransactionEntry(userId, reversal.id),
+          { ...reversal },
+          { merge: false }
+        );
+      }
+
+      return { before, after, reversals: created, alreadyReversed };
+    });
+  }
+
+  // =============================================================================
+  // STATISTICS & RANKINGS SUPPORT METHODS
+  // =============================================================================
+
+  /**
+   * Busca todos os IDs de usuários que possuem progresso
+   * @returns Array com IDs de usuários
+   */
+  async getAllUserIds(): Promise<string[]> {
+    try {
+      const snapshot = await this.collections.users().listDocuments();
+      return snapshot.map((doc) => doc.id);
+    } catch (error) {
+      throw new Error(
+        `Erro ao buscar usuários: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Busca transações de XP por período e fonte
+   */
+  async getXPTransactionsByPeriod(
+    startDate: Date,
+    endDate: Date,
+    source?: XPSource
+  ): Promise<XPTransaction[]> {
+    // Usar collection group para buscar em todas as subcollections de transactions.
+    // Falhas não viram lista vazia: o ranking não pode ser salvo sem os dados
+    let query = getFirestore()
+      .collectionGroup("transactions")
+      .where("timestamp", ">=", startDate)
+      .where("timestamp", "<=", endDate);
+
+    if (source) {
+      query = query.where("source", "==", source);
+    }
+
+    const snapshot = await query.get();
+
+    // userId vem do path do documento: xpTransactions/{userId}/transactions/{docId}
+    return snapshot.docs.map((doc) =>
+      this.mapXPTransaction(doc, doc.ref.parent.parent?.id ?? "")
+    );
+  }
+
+  /**
+   * Busca transações de XP de um usuário dentro de um período
+   */
+  async getUserXPTransactionsByPeriod(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<XPTransaction[]> {
+    const querySnapshot = await this.collections
+      .xpTransactionEntries(userId)
+      .where("timestamp", ">=", startDate)
+      .where("timestamp", "<=", endDate)
+      .get();
+
+    return querySnapshot.docs.map((doc) => this.mapXPTransaction(doc, userId));
+  }
+
+  /**
+   * Busca dados de sessões de estudo por período
+   */
+  async getStudySessionsByPeriod(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<StudySession[]> {
+    try {
+      const snapshot = await this.collections
+        .studySessions()
+        .where("userId", "==", userId)
+        .where("timestamp", ">=", startDate)
+        .where("timestamp", "<=", endDate)
+        .get();
+
+      return snapshot.docs.map((doc) =>
+        this.mapStudySession(doc.id, doc.data())
+      );
+    } catch (error) {
+      console.error("Erro ao buscar sessões de estudo:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Grava a sessão de estudo. A verificação do dono e a escrita ficam na
+   * mesma transação: um usuário não sobrescreve a sessão de outro
+   */
+  async saveStudySession(session: StudySession): Promise<StudySession | null> {
+    if (!isValidStudySession(session)) {
+      throw new Error("Sessão de estudo inválida.");
+    }
+
+    const sessionRef = this.collections.studySessionDoc(session.id);
+
+    return getFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(sessionRef);
+
+      if (snapshot.exists && snapshot.data()?.userId !== session.userId) {
+        return null;
+      }
+
+      transaction.set(
+        sessionRef,
+        {
+          ...session,
+          updatedAt: this.fieldValue.serverTimestamp(),
+        },
+        { merge: false }
+      );
+
+      return session;
+    });
+  }
+
+  /**
+   * Busca o snapshot pré-calculado de um ranking
+   * @returns Ranking salvo ou null se ainda não foi calculado
+   */
+  async getRankingSnapshot(rankingId: string): Promise<Ranking | null> {
+    const snapshot = await this.collections.rankingDoc(rankingId).get();
+
+    if (!snapshot.exists) {
+      return null;
+    }
+
+    const data = snapshot.data() ?? {};
+    const pageVersion = data.pageVersion;
+
+    // Snapshots antigos guardavam as entradas no próprio documento
+    if (typeof pageVersion !== "string") {
+      return this.mapRanking(rankingId, data);
+    }
+
+    const pages = await this.collections
+      .rankingPages(rankingId)
+      .where("version", "==", pageVersion)
+      .get();
+    const entries = pages.docs
+      .sort((a, b) => Number(a.get("index")) - Number(b.get("index")))
+      .flatMap((doc) => {
+        const pageEntries = doc.get("entries");
+        return Array.isArray(pageEntries) ? pageEntries : [];
+      });
+
+    return this.mapRanking(rankingId, { ...data, entries });
+  }
+
+  /**
+   * Salva (substitui) o snapshot de um ranking.
+   *
+   * As entradas ficam em `rankings/{id}/pages`, com até SNAPSHOT_PAGE_SIZE
+   * entradas por documento. As páginas novas são gravadas com uma versão
+   * nova antes de o documento principal apontar para ela; só então as
+   * páginas da versão anterior são removidas, para que leituras concorrentes
+   * nunca misturem as duas versões.
+   */
+  async saveRankingSnapshot(ranking: Ranking): Promise<void> {
+    const rankingRef = this.collections.rankingDoc(ranking.id);
+    const pagesRef = this.collections.rankingPages(ranking.id);
+    const previousVersion = (await rankingRef.get()).get("pageVersion");
+    const pageVersion = randomUUID();
+    const pageSize = RANKING_CONFIG.SNAPSHOT_PAGE_SIZE;
+    const pageCount = Math.ceil(ranking.entries.length / pageSize);
+
+    for (let start = 0; start < pageCount; start += 500) {
+      const batch = getFirestore().batch();
+
+      for (
+        let index = start;
+        index < Math.min(pageCount, start + 500);
+        index++
+      ) {
+        batch.set(pagesRef.doc(`${pageVersion}_${index}`), {
+          version: pageVersion,
+          index,
+          entries: ranking.entries
+            .slice(index * pageSize, (index + 1) * pageSize)
+            .map((entry) => ({ ...entry })),
+        });
+      }
+
+      await batch.commit();
+    }
+
+    const { entries: _entries, ...metadata } = ranking;
+    await rankingRef.set(
+      { ...metadata, pageVersion, pageCount },
+      { merge: false }
+    );
+
+    if (typeof previousVersion === "string") {
+      const stale = await pagesRef
+        .where("version", "==", previousVersion)
+        .get();
+
+      for (let start = 0; start < stale.docs.length; start += 500) {
+        const batch = getFirestore().batch();
+        stale.docs
+          .slice(start, start + 500)
+          .forEach((doc) => batch.delete(doc.ref));
+        await batch.commit();
+      }
+    }
+  }
+
+  // =============================================================================
+  // IDEMPOTENCY METHODS
+  // =============================================================================
+
+  /**
+   * Tenta registrar um evento como "processing" de forma atômica.
+   * Se já existe um registro que não pode ser substituído (ver `canReplace`),
+   * retorna o registro existente sem alterá-lo.
+   */
+  async claimProcessedEvent(
+    event: ProcessedEvent,
+    canReplace: (existing: ProcessedEvent) => boolean
+  ): Promise<ClaimProcessedEventResult> {
+    const eventRef = this.collections.processedEventDoc(event.id);
+
+    return getFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(eventRef);
+
+      if (snapshot.exists) {
+        const existing = this.mapProcessedEvent(
+          event.id,
+          snapshot.data() ?? {}
+        );
+
+        if (!canReplace(existing)) {
+          return { claimed: false as const, existing };
+        }
+      }
+
+      transaction.set(eventRef, { ...event }, { merge: false });
+      return { claimed: true as const };
+    });
+  }
+
+  /**
+   * Marca o evento como concluído e guarda a resposta original
+   */
+  async completeProcessedEvent(
+    recordId: string,
+    statusCode: number,
+    response: Record<string, unknown>
+  ): Promise<void> {
+    await this.collections.processedEventDoc(recordId).set(
+      {
+        status: "completed",
+        statusCode,
+        response: JSON.parse(JSON.stringify(response)),
+        completedAt: this.fieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+  }
+
+  /**
+   * Remove o registro de um evento (ex: processamento falhou e pode ser reenviado)
+   */
+  async deleteProcessedEvent(recordId: string): Promise<void> {
+    await this.collections.processedEventDoc(recordId).delete();
+  }
+
+  // =============================================================================
+  // AUDIT METHODS
+  // =============================================================================
+
+  /**
+   * Grava em auditLogs/{userId}/entries (operações globais em "_global"),
+   * o que permite consultar a linha do tempo de um usuário sem índice composto
+   * (o filtro por ação usa o índice action + createdAt)
+   */
+  async createAuditRecord(record: AuditRecord): Promise<void> {
+    const { id, ...data } = record;
+
+    // before/after/details são livres: serializar remove undefined e tipos não suportados
+    await this.collections
+      .auditLogEntry(record.targetUserId ?? GLOBAL_AUDIT_SCOPE, id)
+      .set({
+        ...data,
+        before: JSON.parse(JSON.stringify(data.before)),
+        after: JSON.parse(JSON.stringify(data.after)),
+        details: JSON.parse(JSON.stringify(data.details)),
+      });
+  }
+
+  async getUserAuditRecords(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    limit: number,
+    actions?: AuditAction[]
+  ): Promise<AuditRecord[]> {
+    let query = this.collections
+      .auditLogEntries(userId)
+      .where("createdAt", ">=", startDate)
+      .where("createdAt", "<=", endDate);
+
+    if (actions?.length) {
+      query = query.where("action", "in", actions);
+    }
+
+    const snapshot = await query
+      .orderBy("createdAt", "desc")
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapAuditRecord(doc.id, doc.data()));
+  }
+
+  // =============================================================================
+  // ANTI-ABUSE METHODS
+  // =============================================================================
+
+  /**
+   * Um documento por usuário e dia em antiAbuseFlags: contadores incrementados
+   * atomicamente, sem leitura prévia
+   */
+  async recordAntiAbuseViolation(
+    userId: string,
+    date: string,
+    violation: AntiAbuseViolation,
+    occurredAt: Date
+  ): Promise<void> {
+    const reasons = Object.fromEntries(
+      Object.entries(violation.reasons).map(([reason, count]) => [
+        reason,
+        this.fieldValue.increment(count ?? 0),
+      ])
+    );
+
+    await this.collections
+      .antiAbuseFlagDoc(getAntiAbuseFlagId(userId, date))
+      .set(
+        {
+          userId,
+          date,
+          violations: this.fieldValue.increment(violation.violations),
+          reasons,
+          reviewsBlocked: this.fieldValue.increment(violation.reviewsBlocked),
+          xpWithheld: this.fieldValue.increment(violation.xpWithheld),
+          lastViolationAt: occurredAt,
+        },
+        { merge: true }
+      );
+  }
+
+  async getAntiAbuseFlags(
+    startDate: string,
+    endDate: string
+  ): Promise<AntiAbuseDailyFlag[]> {
+    const snapshot = await this.collections
+      .antiAbuseFlags()
+      .where("date", ">=", startDate)
+      .where("date", "<=", endDate)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapAntiAbuseFlag(doc.data()));
+  }
+
+  // =============================================================================
+  // XP BOOST METHODS
+  // =============================================================================
+
+  /**
+   * Grava o boost com o campo audience (userId ou "_global"): o Firestore não
+   * consulta campo ausente, e audience permite buscar globais + pessoais juntos
+   */
+  async saveXPBoost(boost: XPBoost): Promise<void> {
+    await this.collections
+      .xpBoostDoc(boost.id)
+      .set({ ...boost, audience: boost.userId ?? GLOBAL_XP_BOOST_AUDIENCE });
+  }
+
+  async getXPBoost(boostId: string): Promise<XPBoost | null> {
+    const doc = await this.collections.xpBoostDoc(boostId).get();
+    const data = doc.data();
+
+    return doc.exists && data ? this.mapXPBoost(doc.id, data) : null;
+  }
+
+  /**
+   * Boosts ainda não encerrados; o restante do escopo (fonte, deck) é
+   * filtrado pelo XPBoostService. Com userId usa o índice (audience, endsAt)
+   */
+  async getXPBoostsEndingAfter(
+    date: Date,
+    userId?: string
+  ): Promise<XPBoost[]> {
+    let query = this.collections.xpBoosts().where("endsAt", ">", date);
+
+    if (userId !== undefined) {
+      query = query.where("audience", "in", [GLOBAL_XP_BOOST_AUDIENCE, userId]);
+    }
+
+    const snapshot = await query.get();
+
+    return snapshot.docs.map((doc) => this.mapXPBoost(doc.id, doc.data()));
+  }
+
+  // =============================================================================
+  // QUEST METHODS
+  // =============================================================================
+
+  async getUserQuests(
+    userId: string,
+    periodKeys: string[]
+  ): Promise<UserQuest[]> {
+    if (!periodKeys.length) {
+      return [];
+    }
+
+    const snapshot = await this.collections
+      .userQuestEntries(userId)
+      .where("periodKey", "in", periodKeys)
+      .get();
+
+    return snapshot.docs.map((doc) =>
+      this.mapUserQuest(userId, doc.id, doc.data())
+    );
+  }
+
+  async getUserQuest(
+    userId: string,
+    questId: string
+  ): Promise<UserQuest | null> {
+    const doc = await this.collections.userQuestEntry(userId, questId).get();
+    const data = doc.data();
+
+    return doc.exists && data ? this.mapUserQuest(userId, doc.id, data) : null;
+  }
+
+  /**
+   * Cria as missões sorteadas (transação atômica): missões já existentes
+   * mantêm o progresso, mesmo com requisições concorrentes
+   */
+  async createUserQuests(
+    userId: string,
+    quests: UserQuest[]
+  ): Promise<UserQuest[]> {
+    const refs = quests.map((quest) =>
+      this.collections.userQuestEntry(userId, quest.id)
+    );
+
+    return getFirestore().runTransaction(async (transaction) => {
+      const snapshots = refs.length ? await transaction.getAll(...refs) : [];
+
+      return quests.map((quest, index) => {
+        const snapshot = snapshots[index];
+        const data = snapshot?.data();
+
+        if (snapshot?.exists && data) {
+          return this.mapUserQuest(userId, quest.id, data);
+        }
+
+        transaction.create(this.collections.userQuestEntry(userId, quest.id), {
+          ...quest,
+        });
+        return quest;
+      });
+    });
+  }
+
+  async updateQuestProgress(
+    userId: string,
+    questId: string,
+    amount: number,
+    deckIds: string[] = []
+  ): Promise<{ quest: UserQuest; isNewCompletion: boolean } | null> {
+    const entryRef = this.collections.userQuestEntry(userId, questId);
+
+    return getFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(entryRef);
+      const data = snapshot.data();
+
+      if (!snapshot.exists || !data) {
+        return null;
+      }
+
+      const current = this.mapUserQuest(userId, questId, data);
+      const result = advanceQuest(current, amount, deckIds);
+
+      if (result.quest !== current) {
+        transaction.set(
+          entryRef,
+          {
+            progress: result.quest.progress,
+            deckIds: result.quest.deckIds,
+            completedAt: result.quest.completedAt,
+          },
+          { merge: true }
+        );
+      }
+
+      return result;
+    });
+  }
+
+  async claimQuestReward(
+    userId: string,
+    questId: string
+  ): Promise<{ quest: UserQuest; isNewClaim: boolean } | null> {
+    const entryRef = this.collections.userQuestEntry(userId, questId);
+
+    return getFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(entryRef);
+      const data = snapshot.data();
+
+      if (!snapshot.exists || !data) {
+        return null;
+      }
+
+      const quest = this.mapUserQuest(userId, questId, data);
+
+      if (quest.completedAt === null || quest.claimedAt !== null) {
+        return { quest, isNewClaim: false };
+      }
+
+      const claimedAt = new Date();
+      transaction.set(entryRef, { claimedAt }, { merge: true });
+
+      return { quest: { ...quest, claimedAt }, isNewClaim: true };
+    });
+  }
+
+  async releaseQuestRewardClaim(
+    userId: string,
+    questId: string
+  ): Promise<void> {
+    await this.collections
+      .userQuestEntry(userId, questId)
+      .set({ claimedAt: null }, { merge: true });
+  }
+
+  // =============================================================================
+  // FRIENDSHIP METHODS
+  // =============================================================================
+
+  async getFriendship(
+    userId: string,
+    otherUserId: string
+  ): Promise<Friendship | null> {
+    const doc = await this.collections
+      .friendshipDoc(getFriendshipId(userId, otherUserId))
+      .get();
+    const data = doc.data();
+
+    return doc.exists && data ? this.mapFriendship(doc.id, data) : null;
+  }
+
+  async saveFriendship(friendship: Friendship): Promise<void> {
+    await this.collections.friendshipDoc(friendship.id).set(friendship);
+  }
+
+  async deleteFriendship(userId: string, otherUserId: string): Promise<void> {
+    await this.collections
+      .friendshipDoc(getFriendshipId(userId, otherUserId))
+      .delete();
+  }
+
+  async getUserFriendships(userId: string): Promise<Friendship[]> {
+    const snapshot = await this.collections
+      .friendships()
+      .where("userIds", "array-contains", userId)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapFriendship(doc.id, doc.data()));
+  }
+
+  // =============================================================================
+  // STUDY GROUP METHODS
+  // =============================================================================
+
+  async getStudyGroup(groupId: string): Promise<StudyGroup | null> {
+    const doc = await this.collections.studyGroupDoc(groupId).get();
+    const data = doc.data();
+
+    return doc.exists && data ? this.mapStudyGroup(doc.id, data) : null;
+  }
+
+  async saveStudyGroup(group: StudyGroup): Promise<void> {
+    await this.collections.studyGroupDoc(group.id).set(group);
+  }
+
+  async deleteStudyGroup(groupId: string): Promise<void> {
+    await this.collections.studyGroupDoc(groupId).delete();
+  }
+
+  async getUserStudyGroups(userId: string): Promise<StudyGroup[]> {
+    const snapshot = await this.collections
+      .studyGroups()
+      .where("memberIds", "array-contains", userId)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapStudyGroup(doc.id, doc.data()));
+  }
+
+  async getStudyGroupInvites(userId: string): Promise<StudyGroup[]> {
+    const snapshot = await this.collections
+      .studyGroups()
+      .where("invitedIds", "array-contains", userId)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapStudyGroup(doc.id, doc.data()));
+  }
+
+  async getAllStudyGroups(): Promise<StudyGroup[]> {
+    const snapshot = await this.collections.studyGroups().get();
+
+    return snapshot.docs.map((doc) => this.mapStudyGroup(doc.id, doc.data()));
+  }
+
+  async completeStudyGroupGoal(
+    groupId: string,
+    weekStart: string
+  ): Promise<boolean> {
+    const groupRef = this.collections.studyGroupDoc(groupId);
+
+    return getFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(groupRef);
+      const data = snapshot.data();
+
+      if (!snapshot.exists || !data) {
+        return false;
+      }
+
+      const completedGoalWeeks: string[] = Array.isArray(
+        data.completedGoalWeeks
+      )
+        ? data.completedGoalWeeks
+        : [];
+
+      if (completedGoalWeeks.includes(weekStart)) {
+        return false;
+      }
+
+      transaction.update(groupRef, {
+        completedGoalWeeks: this.fieldValue.arrayUnion(weekStart),
+      });
+      return true;
+    });
+  }
+
+  // =============================================================================
+  // REMINDER METHODS
+  // =============================================================================
+
+  async getReminderLog(userId: string): Promise<ReminderLog | null> {
+    const doc = await this.collections.reminderLogDoc(userId).get();
+    const data = doc.data();
+
+    return doc.exists && data ? this.mapReminderLog(userId, data) : null;
+  }
+
+  async recordReminderSent(
+    userId: string,
+    type: ReminderType,
+    date: string,
+    sentAt: Date
+  ): Promise<ReminderLog> {
+    const log = appendReminderSent(
+      await this.getReminderLog(userId),
+      userId,
+      type,
+      date,
+      sentAt
+    );
+
+    await this.collections.reminderLogDoc(userId).set(log);
+    return log;
+  }
+
+  // =============================================================================
+  // NOTIFICATION PREFERENCES METHODS
+  // =============================================================================
+
+  async getNotificationPreferences(
+    userId: string
+  ): Promise<NotificationPreferences | null> {
+    const doc = await this.collections.notificationPreferencesDoc(userId).get();
+    const data = doc.data();
 
-    if (!snapshot.exists) {
-      throw new Error(`Dados de streak para "${userId}" não encontrados.`);
-    }
+    return doc.exists && data
+      ? this.mapNotificationPreferences(userId, data)
+      : null;
+  }
 
-    const data = snapshot.data() ?? {};
-    const mapped = this.mapStreakData(userId, data);
+  async saveNotificationPreferences(
+    preferences: NotificationPreferences
+  ): Promise<void> {
+    await this.collections
+      .notificationPreferencesDoc(preferences.userId)
+      .set(preferences);
+  }
 
-    if (!isValidStreakData(mapped)) {
-      throw new Error(`Documento de streak do usuário "${userId}" inválido.`);
-    }
+  async getAllNotificationPreferences(): Promise<NotificationPreferences[]> {
+    const snapshot = await this.collections.notificationPreferences().get();
 
-    return mapped;
+    return snapshot.docs.map((doc) =>
+      this.mapNotificationPreferences(doc.id, doc.data())
+    );
   }
 
-  async updateStreak(
-    userId: string,
-    update: StreakUpdate
-  ): Promise<StreakData> {
-    const payload = this.removeUndefined({
-      userId,
-      ...update,
-      history: update.history ? sortStreakHistory(update.history) : undefined,
-      lastUpdate: update.lastUpdate ?? this.fieldValue.serverTimestamp(),
-    });
+  // =============================================================================
+  // NOTIFICATION INBOX METHODS
+  // =============================================================================
 
-    await this.collections.streaksDoc(userId).set(payload, { merge: true });
+  async addInboxNotifications(
+    notifications: InboxNotification[]
+  ): Promise<void> {
+    for (let index = 0; index < notifications.length; index += 500) {
+      const batch = getFirestore().batch();
+
+      for (const notification of notifications.slice(index, index + 500)) {
+        batch.set(
+          this.collections.inboxNotificationEntry(
+            notification.userId,
+            notification.id
+          ),
+          { ...notification }
+        );
+      }
 
-    return this.getStreakData(userId);
+      await batch.commit();
+    }
   }
 
-  /**
-   * Obtém o progresso específico de uma conquista de um usuário
-   */
-  async getUserAchievementProgress(
+  async getInboxNotifications(
     userId: string,
-    achievementId: string
-  ): Promise<UserAchievementProgress | null> {
-    const snapshot = await this.collections
-      .userAchievementEntry(userId, achievementId)
-      .get();
+    options: InboxPageOptions
+  ): Promise<InboxNotification[]> {
+    let query = this.collections
+      .inboxNotificationEntries(userId)
+      .orderBy("createdAt", "desc");
+
+    if (options.unreadOnly) {
+      query = query.where("read", "==", false);
+    }
 
-    if (!snapshot.exists) {
-      return null;
+    if (options.cursor) {
+      const cursor = await this.collections
+        .inboxNotificationEntry(userId, options.cursor)
+        .get();
+
+      if (!cursor.exists) {
+        return [];
+      }
+
+      query = query.startAfter(cursor);
     }
 
-    return this.mapUserAchievement(
-      userId,
-      achievementId,
-      snapshot.data() ?? {}
+    const snapshot = await query.limit(options.limit).get();
+
+    return snapshot.docs.map((doc) =>
+      this.mapInboxNotification(userId, doc.id, doc.data())
     );
   }
 
-  /**
-   * Conta quantas transações de XP existem de uma fonte específica
-   */
-  async countXPTransactionsBySource(
-    userId: string,
-    source: XPSource
-  ): Promise<number> {
+  async countUnreadInboxNotifications(userId: string): Promise<number> {
     const snapshot = await this.collections
-      .xpTransactionEntries(userId)
-      .where("source", "==", source)
+      .inboxNotificationEntries(userId)
+      .where("read", "==", false)
       .count()
       .get();
 
     return snapshot.data().count;
   }
 
-  // =============================================================================
-  // STATISTICS & RANKINGS SUPPORT METHODS
-  // =============================================================================
+  async markInboxNotificationRead(
+    userId: string,
+    notificationId: string,
+    readAt: Date
+  ): Promise<boolean> {
+    const entryRef = this.collections.inboxNotificationEntry(
+      userId,
+      notificationId
+    );
 
-  /**
-   * Busca todos os IDs de usuários que possuem progresso
-   * @returns Array com IDs de usuários
-   */
-  async getAllUserIds(): Promise<string[]> {
-    try {
-      const snapshot = await this.collections.users().listDocuments();
-      return snapshot.map((doc) => doc.id);
-    } catch (error) {
-      throw new Error(
-        `Erro ao buscar usuários: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
-    }
-  }
+    return getFirestore().runTransaction(async (transaction) => {
+      const doc = await transaction.get(entryRef);
 
-  /**
-   * Busca transações de XP por período e fonte
-   */
-  async getXPTransactionsByPeriod(
-    startDate: Date,
-    endDate: Date,
-    source?: XPSource
-  ): Promise<XPTransaction[]> {
-    try {
-      // Usar collection group para buscar em todas as subcollections de transactions
-      let query = admin
-        .firestore()
-        .collectionGroup("transactions")
-        .where("timestamp", ">=", startDate)
-        .where("timestamp", "<=", endDate);
+      if (!doc.exists) {
+        return false;
+      }
 
-      if (source) {
-        query = query.where("source", "==", source);
+      if (doc.data()?.read !== true) {
+        transaction.update(entryRef, { read: true, readAt });
       }
 
-      const snapshot = await query.get();
+      return true;
+    });
+  }
 
-      return snapshot.docs.map((doc) => {
-        const data = doc.data();
-        // Extrair userId do path do documento: xpTransactions/{userId}/transactions/{docId}
-        const pathParts = doc.ref.path.split("/");
-        const userId = pathParts[1] || "";
+  async markAllInboxNotificationsRead(
+    userId: string,
+    readAt: Date
+  ): Promise<number> {
+    const snapshot = await this.collections
+      .inboxNotificationEntries(userId)
+      .where("read", "==", false)
+      .get();
 
-        return this.mapXPTransaction(doc as any, userId);
-      });
-    } catch (error) {
-      console.error("Erro ao buscar transações por período:", error);
-      return [];
+    for (let index = 0; index < snapshot.docs.length; index += 500) {
+      const batch = getFirestore().batch();
+
+      for (const doc of snapshot.docs.slice(index, index + 500)) {
+        batch.update(doc.ref, { read: true, readAt });
+      }
+
+      await batch.commit();
     }
+
+    return snapshot.size;
   }
 
-  /**
-   * Busca dados de sessões de estudo por período
-   */
-  async getStudySessionsByPeriod(
-    userId: string,
-    startDate: Date,
-    endDate: Date
-  ): Promise<
-    Array<{
-      sessionDurationMinutes: number;
-      cardsReviewed: number;
-      accuracyCount: number;
-      totalAnswers: number;
-      studyTime: string;
-      timestamp: Date;
-    }>
-  > {
-    try {
-      const snapshot = await admin
-        .firestore()
-        .collection("studySessions")
-        .where("userId", "==", userId)
-        .where("timestamp", ">=", startDate)
-        .where("timestamp", "<=", endDate)
+  async deleteExpiredInboxNotifications(now: Date): Promise<number> {
+    let deleted = 0;
+    let batchSize = 0;
+
+    // Lotes de 500 (limite do batch) até não sobrar notificação expirada
+    do {
+      const snapshot = await getFirestore()
+        .collectionGroup("notifications")
+        .where("expiresAt", "<=", now)
+        .limit(500)
         .get();
 
-      return snapshot.docs.map((doc) => {
-        const data = doc.data();
-        return {
-          sessionDurationMinutes: data.sessionDurationMinutes || 0,
-          cardsReviewed: data.cardsReviewed || 0,
-          accuracyCount: data.accuracyCount || 0,
-          totalAnswers: data.totalAnswers || 0,
-          studyTime: data.studyTime || "afternoon",
-          timestamp: data.timestamp?.toDate?.() || data.timestamp || new Date(),
-        };
-      });
-    } catch (error) {
-      console.error("Erro ao buscar sessões de estudo:", error);
-      return [];
-    }
+      if (!snapshot.empty) {
+        const batch = getFirestore().batch();
+        snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+        await batch.commit();
+      }
+
+      batchSize = snapshot.size;
+      deleted += batchSize;
+    } while (batchSize === 500);
+
+    return deleted;
   }
 
   async getUserFcmToken(userId: string): Promise<string | null> {
@@ -566,6 +1868,16 @@ export class FirestoreService {
     }
   }
 
+  async getUserIdByFcmToken(fcmToken: string): Promise<string | null> {
+    const snapshot = await this.collections
+      .users()
+      .where("fcmToken", "==", fcmToken)
+      .limit(1)
+      .get();
+
+    return snapshot.docs[0]?.id ?? null;
+  }
+
   // =============================================================================
   // USER METRICS METHODS (para conquistas customizadas)
   // =============================================================================
@@ -578,7 +1890,7 @@ export class FirestoreService {
 
     if (!snapshot.exists) {
       // Retorna métricas padrão se não existir
-      return this.getDefaultUserMetrics(userId);
+      return createDefaultUserMetrics(userId);
     }
 
     const data = snapshot.data() ?? {};
@@ -619,8 +1931,12 @@ export class FirestoreService {
   /**
    * Registra um deck estudado em um dia específico (para conquista Multi-tarefa)
    */
-  async addDeckStudiedToday(userId: string, deckId: string): Promise<void> {
-    const today: string = getLocalDateString();
+  async addDeckStudiedToday(
+    userId: string,
+    deckId: string,
+    date: string = getLocalDateString()
+  ): Promise<void> {
+    const today: string = date;
     const metrics = await this.getUserMetrics(userId);
 
     // Atualiza o registro de decks estudados por dia
@@ -818,6 +2134,22 @@ export class FirestoreService {
     );
   }
 
+  /**
+   * Remove um deck excluído das métricas de decks ativos, estudados e completados
+   */
+  async removeDeckFromMetrics(userId: string, deckId: string): Promise<void> {
+    await this.collections.userMetricsDoc(userId).set(
+      {
+        userId,
+        activeDecks: this.fieldValue.arrayRemove(deckId),
+        uniqueDecksStudied: this.fieldValue.arrayRemove(deckId),
+        decksCompleted: this.fieldValue.arrayRemove(deckId),
+        updatedAt: this.fieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+  }
+
   /**
    * Atualiza o streak de cards "fácil" consecutivos
    */
@@ -845,11 +2177,11 @@ export class FirestoreService {
   /**
    * Incrementa o contador de cards "difícil" completados
    */
-  async incrementHardCardsCompleted(userId: string): Promise<void> {
+  async incrementHardCardsCompleted(userId: string, amount = 1): Promise<void> {
     await this.collections.userMetricsDoc(userId).set(
       {
         userId,
-        hardCardsCompleted: this.fieldValue.increment(1),
+        hardCardsCompleted: this.fieldValue.increment(amount),
         updatedAt: this.fieldValue.serverTimestamp(),
       },
       { merge: true }
@@ -884,33 +2216,6 @@ export class FirestoreService {
     );
   }
 
-  /**
-   * Retorna métricas padrão para um novo usuário
-   */
-  private getDefaultUserMetrics(userId: string): UserMetrics {
-    return {
-      userId,
-      uniqueDecksStudied: [],
-      difficultyLevelsUsed: [],
-      marketplaceDecksAdded: [],
-      profileCompleted: false,
-      maxCardsInSingleDay: 0,
-      studySessionsBeforeHour: [],
-      studySessionsAfterHour: [],
-      decksShared: [],
-      deckReviewsSubmitted: 0,
-      activeDecks: [],
-      easyCardsStreak: 0,
-      maxEasyCardsStreak: 0,
-      hardCardsCompleted: 0,
-      expertCardsCompleted: 0,
-      decksCompleted: [],
-      cardsPerDay: {},
-      decksStudiedPerDay: {},
-      maxDecksStudiedSameDay: 0,
-    };
-  }
-
   /**
    * Mapeia os dados do Firestore para UserMetrics
    */
@@ -980,6 +2285,7 @@ export class FirestoreService {
           )
         : [],
       createdAt: data.createdAt ?? DEFAULT_USER_PROGRESS.createdAt,
+      timezone: typeof data.timezone === "string" ? data.timezone : null,
     };
 
     return UserProgressHelpers.sanitize(progress);
@@ -994,12 +2300,40 @@ export class FirestoreService {
       userId,
       date,
       cardsReviewed: Number(data.cardsReviewed ?? 0),
+      minutesStudied: Number(data.minutesStudied ?? 0),
       goalMet: Boolean(data.goalMet ?? false),
       xpEarned: Number(data.xpEarned ?? 0),
       timestamp: data.timestamp ?? new Date(0),
     };
   }
 
+  private mapDailyGoalSettings(
+    userId: string,
+    data: DocumentData
+  ): DailyGoalSettings {
+    const history: DailyGoalHistoryEntry[] = Array.isArray(data.history)
+      ? data.history
+          .filter(
+            (entry: DocumentData) =>
+              DAILY_GOAL_TYPES.includes(entry?.type) &&
+              typeof entry?.effectiveFrom === "string"
+          )
+          .map((entry: DocumentData) => ({
+            type: entry.type,
+            target: Number(entry.target ?? 0),
+            effectiveFrom: entry.effectiveFrom,
+          }))
+      : [];
+
+    return {
+      userId,
+      history: history.sort((a, b) =>
+        a.effectiveFrom.localeCompare(b.effectiveFrom)
+      ),
+      updatedAt: data.updatedAt ?? new Date(0),
+    };
+  }
+
   private mapXPTransaction(
     doc: FirebaseFirestore.QueryDocumentSnapshot<DocumentData>,
     userId: string
@@ -1014,9 +2348,271 @@ export class FirestoreService {
       sourceId: data.sourceId ?? "",
       description: data.description ?? "",
       timestamp: data.timestamp ?? new Date(0),
+      ...(data.deckId ? { deckId: String(data.deckId) } : {}),
+      ...(data.reversalOf ? { reversalOf: String(data.reversalOf) } : {}),
+      ...(data.reversedSource ? { reversedSource: data.reversedSource } : {}),
+      ...(data.boostId
+        ? {
+            baseAmount: Number(data.baseAmount ?? 0),
+            multiplier: Number(data.multiplier ?? 1),
+            boostId: String(data.boostId),
+          }
+        : {}),
+      ...(data.eventPending ? { eventPending: true } : {}),
     } as XPTransaction;
   }
 
+  private mapAuditRecord(recordId: string, data: DocumentData): AuditRecord {
+    const asValues = (value: unknown) =>
+      value && typeof value === "object" ? (value as AuditValues) : null;
+
+    return {
+      id: recordId,
+      action: data.action,
+      actor: String(data.actor ?? ""),
+      targetUserId: data.targetUserId ?? null,
+      reason: data.reason ?? null,
+      endpoint: data.endpoint ?? null,
+      requestId: data.requestId ?? null,
+      before: asValues(data.before),
+      after: asValues(data.after),
+      details: asValues(data.details) ?? {},
+      createdAt: data.createdAt ?? new Date(0),
+    };
+  }
+
+  private mapAntiAbuseFlag(data: DocumentData): AntiAbuseDailyFlag {
+    return {
+      userId: String(data.userId ?? ""),
+      date: String(data.date ?? ""),
+      violations: Number(data.violations ?? 0),
+      reasons:
+        data.reasons && typeof data.reasons === "object" ? data.reasons : {},
+      reviewsBlocked: Number(data.reviewsBlocked ?? 0),
+      xpWithheld: Number(data.xpWithheld ?? 0),
+      lastViolationAt: data.lastViolationAt ?? new Date(0),
+    };
+  }
+
+  private mapXPBoost(boostId: string, data: DocumentData): XPBoost {
+    return {
+      id: boostId,
+      name: String(data.name ?? ""),
+      ...(data.description ? { description: String(data.description) } : {}),
+      multiplier: Number(data.multiplier ?? 1),
+      startsAt: data.startsAt ?? new Date(0),
+      endsAt: data.endsAt ?? new Date(0),
+      origin: data.origin,
+      ...(Array.isArray(data.sources) ? { sources: data.sources } : {}),
+      ...(data.userId ? { userId: String(data.userId) } : {}),
+      ...(data.deckId ? { deckId: String(data.deckId) } : {}),
+      ...(Array.isArray(data.difficulties)
+        ? { difficulties: data.difficulties }
+        : {}),
+      ...(data.achievementId
+        ? { achievementId: String(data.achievementId) }
+        : {}),
+      createdBy: String(data.createdBy ?? ""),
+      createdAt: data.createdAt ?? new Date(0),
+    };
+  }
+
+  private mapFriendship(friendshipId: string, data: DocumentData): Friendship {
+    const requesterId = String(data.requesterId ?? "");
+    const addresseeId = String(data.addresseeId ?? "");
+
+    return {
+      id: friendshipId,
+      userIds: [requesterId, addresseeId].sort() as [string, string],
+      requesterId,
+      addresseeId,
+      status: data.status,
+      createdAt: data.createdAt ?? new Date(0),
+      acceptedAt: data.acceptedAt ?? null,
+    };
+  }
+
+  private mapInboxNotification(
+    userId: string,
+    notificationId: string,
+    data: DocumentData
+  ): InboxNotification {
+    return {
+      id: notificationId,
+      userId,
+      type: data.type,
+      title: String(data.title ?? ""),
+      body: String(data.body ?? ""),
+      data:
+        typeof data.data === "object" && data.data !== null ? data.data : {},
+      read: data.read === true,
+      readAt: data.readAt ?? null,
+      createdAt: data.createdAt ?? new Date(0),
+      expiresAt: data.expiresAt ?? new Date(0),
+    };
+  }
+
+  private mapNotificationPreferences(
+    userId: string,
+    data: DocumentData
+  ): NotificationPreferences {
+    const defaults = createDefaultNotificationPreferences(userId);
+    const categories =
+      typeof data.categories === "object" && data.categories !== null
+        ? data.categories
+        : {};
+
+    return {
+      userId,
+      muted: data.muted === true,
+      categories: Object.fromEntries(
+        Object.values(NotificationCategory).map((category) => [
+          category,
+          typeof categories[category] === "boolean"
+            ? categories[category]
+            : defaults.categories[category],
+        ])
+      ) as Record<NotificationCategory, boolean>,
+      quietHours:
+        typeof data.quietHours?.startHour === "number" &&
+        typeof data.quietHours?.endHour === "number"
+          ? {
+              startHour: data.quietHours.startHour,
+              endHour: data.quietHours.endHour,
+            }
+          : null,
+      updatedAt: data.updatedAt ?? new Date(0),
+    };
+  }
+
+  private mapReminderLog(userId: string, data: DocumentData): ReminderLog {
+    return {
+      userId,
+      lastSentDates:
+        typeof data.lastSentDates === "object" && data.lastSentDates !== null
+          ? data.lastSentDates
+          : {},
+      recentSentAt: Array.isArray(data.recentSentAt) ? data.recentSentAt : [],
+    };
+  }
+
+  private mapStudyGroup(groupId: string, data: DocumentData): StudyGroup {
+    const toStringArray = (value: unknown): string[] =>
+      Array.isArray(value) ? value.map(String) : [];
+
+    return {
+      id: groupId,
+      name: String(data.name ?? ""),
+      description: data.description ?? null,
+      ownerId: String(data.ownerId ?? ""),
+      memberIds: toStringArray(data.memberIds),
+      invitedIds: toStringArray(data.invitedIds),
+      weeklyXPGoal: Number(data.weeklyXPGoal ?? 0),
+      completedGoalWeeks: toStringArray(data.completedGoalWeeks),
+      createdAt: data.createdAt ?? new Date(0),
+      updatedAt: data.updatedAt ?? new Date(0),
+    };
+  }
+
+  private mapUserQuest(
+    userId: string,
+    questId: string,
+    data: DocumentData
+  ): UserQuest {
+    return {
+      id: questId,
+      userId,
+      templateId: String(data.templateId ?? ""),
+      period: data.period,
+      periodKey: String(data.periodKey ?? ""),
+      metric: data.metric,
+      title: String(data.title ?? ""),
+      description: String(data.description ?? ""),
+      target: Number(data.target ?? 0),
+      progress: Number(data.progress ?? 0),
+      xpReward: Number(data.xpReward ?? 0),
+      deckIds: Array.isArray(data.deckIds) ? data.deckIds.map(String) : [],
+      completedAt: data.completedAt ?? null,
+      claimedAt: data.claimedAt ?? null,
+      createdAt: data.createdAt ?? new Date(0),
+    };
+  }
+
+  private mapProcessedEvent(
+    recordId: string,
+    data: DocumentData
+  ): ProcessedEvent {
+    return {
+      id: recordId,
+      scope: data.scope,
+      userId: String(data.userId ?? ""),
+      eventId: String(data.eventId ?? ""),
+      status: data.status === "completed" ? "completed" : "processing",
+      statusCode:
+        typeof data.statusCode === "number" ? Number(data.statusCode) : null,
+      response:
+        data.response && typeof data.response === "object"
+          ? (data.response as Record<string, unknown>)
+          : null,
+      createdAt: data.createdAt ?? new Date(0),
+      expiresAt: data.expiresAt ?? new Date(0),
+    };
+  }
+
+  private mapStudySession(sessionId: string, data: DocumentData): StudySession {
+    const breakdown = createEmptyDifficultyBreakdown();
+    const rawBreakdown =
+      data.difficultyBreakdown && typeof data.difficultyBreakdown === "object"
+        ? data.difficultyBreakdown
+        : {};
+
+    for (const key of Object.keys(breakdown) as Array<keyof typeof breakdown>) {
+      breakdown[key] = Number(rawBreakdown[key] ?? 0);
+    }
+
+    return {
+      id: sessionId,
+      userId: String(data.userId ?? ""),
+      deckId: data.deckId ? String(data.deckId) : null,
+      sessionDurationMinutes: Number(data.sessionDurationMinutes ?? 0),
+      cardsReviewed: Number(data.cardsReviewed ?? 0),
+      accuracyCount: Number(data.accuracyCount ?? 0),
+      totalAnswers: Number(data.totalAnswers ?? 0),
+      studyTime: isValidStudyTimeOfDay(data.studyTime)
+        ? data.studyTime
+        : "afternoon",
+      difficultyBreakdown: breakdown,
+      timestamp: data.timestamp?.toDate?.() ?? data.timestamp ?? new Date(0),
+    };
+  }
+
+  private mapRanking(rankingId: string, data: DocumentData): Ranking {
+    const entries: RankingEntry[] = Array.isArray(data.entries)
+      ? data.entries
+          .filter(
+            (item: unknown): item is Record<string, unknown> =>
+              !!item && typeof item === "object"
+          )
+          .map((item: Record<string, unknown>) => ({
+            userId: String(item.userId ?? ""),
+            rank: Number(item.rank ?? 0),
+            xpEarned: Number(item.xpEarned ?? 0),
+            cardsReviewed: Number(item.cardsReviewed ?? 0),
+            transactions: Number(item.transactions ?? 0),
+          }))
+          .filter((entry: RankingEntry) => Boolean(entry.userId))
+      : [];
+
+    return {
+      id: rankingId,
+      period: data.period === "yearly" ? "yearly" : "monthly",
+      periodKey: String(data.periodKey ?? ""),
+      entries,
+      totalParticipants: Number(data.totalParticipants ?? entries.length),
+      lastUpdated: data.lastUpdated ?? new Date(0),
+    };
+  }
+
   private mapAchievement(
     doc:
       | FirebaseFirestore.QueryDocumentSnapshot<DocumentData>
@@ -1054,6 +2650,10 @@ export class FirestoreService {
       createdAt: data.createdAt ?? new Date(0),
       updatedAt: data.updatedAt ?? undefined,
       isActive: data.isActive ?? true,
+      hidden: data.hidden === true,
+      ...(data.boostReward && typeof data.boostReward === "object"
+        ? { boostReward: data.boostReward }
+        : {}),
     } as Achievement;
 
     return normalizeAchievement(achievement);
@@ -1070,6 +2670,8 @@ export class FirestoreService {
       unlockedAt: data.unlockedAt ?? null,
       progress: Number(data.progress ?? 0),
       claimed: Boolean(data.claimed ?? false),
+      rewardPending: data.rewardPending === true,
+      claimedAt: data.claimedAt ?? null,
       notificationSeen: Boolean(data.notificationSeen ?? false),
       updatedAt: data.updatedAt ?? null,
     };
@@ -1112,13 +2714,14 @@ export class FirestoreService {
                 return null;
               }
 
-              return { date, count };
+              return record.frozen === true
+                ? { date, count, frozen: true }
+                : { date, count };
             })
-            .filter(
-              (entry): entry is { date: string; count: number } =>
-                entry !== null
-            )
+            .filter((entry): entry is StreakHistoryItem => entry !== null)
         : [],
+      freezesAvailable: Number(data.freezesAvailable ?? 0),
+      freezesEquipped: Number(data.freezesEquipped ?? 0),
     };
 
     return {
@@ -1137,49 +2740,3 @@ export class FirestoreService {
 }
 
 export const firestoreService = new FirestoreService();
-
-/**
- * Interface para as métricas customizadas de um usuário
- * Usada para rastrear conquistas do tipo CUSTOM
- */
-export interface UserMetrics {
-  userId: string;
-  // Decks únicos estudados (IDs dos decks)
-  uniqueDecksStudied: string[];
-  // Níveis de dificuldade usados (again, hard, good, easy)
-  difficultyLevelsUsed: string[];
-  // Decks adicionados do marketplace (IDs dos decks)
-  marketplaceDecksAdded: string[];
-  // Perfil completado (true/false)
-  profileCompleted: boolean;
-  // Máximo de cards revisados em um único dia
-  maxCardsInSingleDay: number;
-  // Sessões de estudo antes das 8h (datas YYYY-MM-DD)
-  studySessionsBeforeHour: string[];
-  // Sessões de estudo depois das 22h (datas YYYY-MM-DD)
-  studySessionsAfterHour: string[];
-  // Decks compartilhados (IDs dos decks)
-  decksShared: string[];
-  // Avaliações de decks submetidas
-  deckReviewsSubmitted: number;
-  // Decks ativos na biblioteca (IDs dos decks)
-  activeDecks: string[];
-  // Cards "fácil" consecutivos (streak atual)
-  easyCardsStreak: number;
-  // Máximo de cards "fácil" consecutivos
-  maxEasyCardsStreak: number;
-  // Cards "difícil" completados
-  hardCardsCompleted: number;
-  // Cards "expert" completados
-  expertCardsCompleted: number;
-  // Decks completados 100% (IDs dos decks)
-  decksCompleted: string[];
-  // Histórico de cards por dia { "YYYY-MM-DD": count }
-  cardsPerDay: Record<string, number>;
-  // Histórico de decks estudados por dia { "YYYY-MM-DD": ["deckId1", "deckId2"] }
-  decksStudiedPerDay: Record<string, string[]>;
-  // Máximo de decks estudados no mesmo dia
-  maxDecksStudiedSameDay: number;
-  // Última atualização
-  updatedAt?: Date | FirebaseFirestore.Timestamp;
-}
@@ -0,0 +1,224 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { FriendshipStatus } from "../models/Friendship";
+import { XPSource, type XPTransaction } from "../models/XPTransaction";
+import { InMemoryRepository } from "../repositories";
+import { FriendService } from "./friend.service";
+import { PushType, type NotificationService } from "./notification.service";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// Quarta-feira; a semana começa na segunda-feira 03/03
+const now = new Date(2025, 2, 5, 12);
+
+const transaction = (
+  id: string,
+  userId: string,
+  amount: number,
+  source: XPSource,
+  timestamp: Date
+): XPTransaction => ({
+  id,
+  userId,
+  amount,
+  source,
+  sourceId: id,
+  description: "teste",
+  timestamp,
+});
+
+describe("FriendService", () => {
+  let repository: InMemoryRepository;
+  let notificationService: NotificationService;
+  let service: FriendService;
+
+  beforeEach(async () => {
+    repository = new InMemoryRepository();
+    notificationService = {
+      sendPushNotification: vi.fn().mockResolvedValue(undefined),
+    } as unknown as NotificationService;
+    service = new FriendService(repository, notificationService, 2);
+
+    for (const userId of ["ana", "bia", "caio", "duda"]) {
+      await repository.createUserProgress(userId);
+    }
+    repository.setUserFcmToken("ana", "token-ana");
+    repository.setUserFcmToken("bia", "token-bia");
+  });
+
+  describe("pedidos de amizade", () => {
+    it("envia, notifica e aceita o pedido", async () => {
+      const sent = await service.sendRequest("ana", "bia");
+
+      expect(sent.autoAccepted).toBe(false);
+      expect(sent.friendship).toMatchObject({
+        requesterId: "ana",
+        addresseeId: "bia",
+        status: FriendshipStatus.PENDING,
+      });
+      expect(notificationService.sendPushNotification).toHaveBeenCalledWith(
+        "token-bia",
+        expect.objectContaining({ pushType: PushType.FRIEND_REQUEST })
+      );
+      expect(await service.getFriends("bia")).toMatchObject({
+        friends: [],
+        incoming: [{ userId: "ana" }],
+        outgoing: [],
+      });
+
+      const accepted = await service.acceptRequest("bia", "ana");
+
+      expect(accepted.status).toBe(FriendshipStatus.ACCEPTED);
+      expect(notificationService.sendPushNotification).toHaveBeenCalledWith(
+        "token-ana",
+        expect.objectContaining({ pushType: PushType.FRIEND_ACCEPTED })
+      );
+      expect(await service.getFriends("ana")).toMatchObject({
+        friends: [{ userId: "bia", level: 1 }],
+        incoming: [],
+        outgoing: [],
+      });
+    });
+
+    it("aceita automaticamente quando o outro usuário já enviou um pedido", async () => {
+      await service.sendRequest("ana", "bia");
+
+      const result = await service.sendRequest("bia", "ana");
+
+      expect(result.autoAccepted).toBe(true);
+      expect(result.friendship.status).toBe(FriendshipStatus.ACCEPTED);
+      expect(result.friendship.requesterId).toBe("ana");
+    });
+
+    it("rejeita pedidos inválidos", async () => {
+      await expect(service.sendRequest("ana", "ana")).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      await expect(service.sendRequest("ana", "missing")).rejects.toMatchObject(
+        { statusCode: 404 }
+      );
+
+      await service.sendRequest("ana", "bia");
+      await expect(service.sendRequest("ana", "bia")).rejects.toMatchObject({
+        statusCode: 409,
+      });
+
+      await service.acceptRequest("bia", "ana");
+      await expect(service.sendRequest("bia", "ana")).rejects.toMatchObject({
+        statusCode: 409,
+      });
+    });
+
+    it("respeita o limite de amigos", async () => {
+      await service.sendRequest("ana", "bia");
+      await service.acceptRequest("bia", "ana");
+      await service.sendRequest("ana", "caio");
+      await service.acceptRequest("caio", "ana");
+
+      await expect(service.sendRequest("ana", "duda")).rejects.toMatchObject({
+        statusCode: 409,
+      });
+    });
+
+    it("recusa pedidos recebidos e remove amizades", async () => {
+      await service.sendRequest("ana", "bia");
+
+      // Apenas o destinatário recusa; o remetente cancela
+      await expect(service.declineRequest("ana", "bia")).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      await expect(service.removeFriend("bia", "ana")).rejects.toMatchObject({
+        statusCode: 404,
+      });
+
+      await service.declineRequest("bia", "ana");
+      expect(await repository.getFriendship("ana", "bia")).toBeNull();
+
+      await service.sendRequest("ana", "bia");
+      await service.acceptRequest("bia", "ana");
+      await service.removeFriend("bia", "ana");
+
+      expect(await service.getFriends("ana")).toEqual({
+        friends: [],
+        incoming: [],
+        outgoing: [],
+      });
+    });
+
+    it("não falha quando a notificação falha", async () => {
+      vi.mocked(notificationService.sendPushNotification).mockRejectedValue(
+        new Error("FCM indisponível")
+      );
+
+      await expect(service.sendRequest("ana", "bia")).resolves.toMatchObject({
+        autoAccepted: false,
+      });
+    });
+  });
+
+  describe("getLeaderboard", () => {
+    beforeEach(async () => {
+      await service.sendRequest("ana", "bia");
+      await service.acceptRequest("bia", "ana");
+      await service.sendRequest("ana", "caio");
+      await service.acceptRequest("caio", "ana");
+      // Pedido pendente não entra no leaderboard
+      await service.sendRequest("duda", "ana");
+    });
+
+    it("ordena o XP ganho na semana, ignorando débitos", async () => {
+      await repository.createXPTransactions([
+        transaction("t1", "ana", 50, XPSource.REVIEW, new Date(2025, 2, 4)),
+        transaction(
+          "t2",
+          "ana",
+          -40,
+          XPSource.STREAK_FREEZE_PURCHASE,
+          new Date(2025, 2, 4)
+        ),
+        transaction("t3", "bia", 80, XPSource.REVIEW, new Date(2025, 2, 5)),
+        // Semana anterior
+        transaction("t4", "caio", 500, XPSource.REVIEW, new Date(2025, 2, 2)),
+        transaction("t5", "caio", 50, XPSource.REVIEW, new Date(2025, 2, 3)),
+      ]);
+
+      const leaderboard = await service.getLeaderboard("ana", "weekly_xp", now);
+
+      expect(leaderboard.since).toEqual(new Date(2025, 2, 3));
+      expect(
+        leaderboard.entries.map(({ userId, rank, score, isCurrentUser }) => ({
+          userId,
+          rank,
+          score,
+          isCurrentUser,
+        }))
+      ).toEqual([
+        { userId: "bia", rank: 1, score: 80, isCurrentUser: false },
+        { userId: "ana", rank: 2, score: 50, isCurrentUser: true },
+        { userId: "caio", rank: 2, score: 50, isCurrentUser: false },
+      ]);
+    });
+
+    it("usa o streak atual", async () => {
+      await repository.updateUserProgress("caio", { currentStreak: 7 });
+      await repository.updateUserProgress("ana", { currentStreak: 3 });
+
+      const leaderboard = await service.getLeaderboard("ana", "streak", now);
+
+      expect(leaderboard.since).toBeNull();
+      expect(
+        leaderboard.entries.map(({ userId, score }) => [userId, score])
+      ).toEqual([
+        ["caio", 7],
+        ["ana", 3],
+        ["bia", 0],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,423 @@
+import { FRIENDS_CONFIG } from "../config/constants";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  FriendshipStatus,
+  getFriendId,
+  getFriendshipId,
+  type FriendLeaderboardEntry,
+  type FriendLeaderboardMetric,
+  type Friendship,
+} from "../models/Friendship";
+import { InboxNotificationType } from "../models/InboxNotification";
+import type { UserProgress } from "../models/UserProgress";
+import { countsAsEarnedXP } from "../models/XPTransaction";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { logger } from "../utils/logger";
+import { getLocalWeekStart } from "../utils/timezone";
+import { NotificationInboxService } from "./notification-inbox.service";
+import {
+  NotificationService,
+  PushType,
+  type NotificationPayload,
+} from "./notification.service";
+
+export interface FriendSummary {
+  userId: string;
+  since: Date | FirebaseFirestore.Timestamp | null;
+  level: number;
+  totalXP: number;
+  currentStreak: number;
+}
+
+export interface FriendRequestSummary {
+  userId: string;
+  sentAt: Date | FirebaseFirestore.Timestamp;
+}
+
+export interface UserFriends {
+  friends: FriendSummary[];
+  // Pedidos recebidos, aguardando resposta do usuário
+  incoming: FriendRequestSummary[];
+  // Pedidos enviados pelo usuário
+  outgoing: FriendRequestSummary[];
+}
+
+export interface FriendRequestResult {
+  friendship: Friendship;
+  // true quando o outro usuário já tinha enviado um pedido (aceito automaticamente)
+  autoAccepted: boolean;
+}
+
+export interface FriendLeaderboard {
+  metric: FriendLeaderboardMetric;
+  // Início do período de XP (ausente para streak)
+  since: Date | null;
+  entries: FriendLeaderboardEntry[];
+}
+
+/**
+ * Amizades entre usuários: pedidos (enviar, aceitar, recusar), lista de
+ * amigos e leaderboard restrito aos amigos.
+ */
+export class FriendService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository(),
+    private readonly notificationService: NotificationService = new NotificationService(),
+    private readonly maxFriends: number = FRIENDS_CONFIG.MAX_FRIENDS,
+    private readonly inboxService: NotificationInboxService = new NotificationInboxService(
+      firestore
+    )
+  ) {}
+
+  /**
+   * Amigos (com nível e streak) e pedidos pendentes do usuário
+   */
+  async getFriends(userId: string): Promise<UserFriends> {
+    const friendships = await this.firestore.getUserFriendships(userId);
+    const accepted = friendships.filter(
+      (friendship) => friendship.status === FriendshipStatus.ACCEPTED
+    );
+    const progressById = await this.getProgressById(
+      accepted.map((friendship) => getFriendId(friendship, userId))
+    );
+
+    const pending = friendships.filter(
+      (friendship) => friendship.status === FriendshipStatus.PENDING
+    );
+
+    return {
+      friends: accepted.flatMap((friendship) => {
+        const friendId = getFriendId(friendship, userId);
+        const progress = progressById.get(friendId);
+
+        return progress
+          ? [
+              {
+                userId: friendId,
+                since: friendship.acceptedAt,
+                level: progress.level,
+                totalXP: progress.totalXP,
+                currentStreak: progress.currentStreak,
+              },
+            ]
+          : [];
+      }),
+      incoming: pending
+        .filter((friendship) => friendship.addresseeId === userId)
+        .map((friendship) => ({
+          userId: friendship.requesterId,
+          sentAt: friendship.createdAt,
+        })),
+      outgoing: pending
+        .filter((friendship) => friendship.requesterId === userId)
+        .map((friendship) => ({
+          userId: friendship.addresseeId,
+          sentAt: friendship.createdAt,
+        })),
+    };
+  }
+
+  /**
+   * Envia um pedido de amizade. Se o outro usuário já havia enviado um pedido,
+   * a amizade é aceita.
+   */
+  async sendRequest(
+    userId: string,
+    friendId: string
+  ): Promise<FriendRequestResult> {
+    if (userId === friendId) {
+      throw new AppError(
+        "Não é possível adicionar a si mesmo como amigo.",
+        400
+      );
+    }
+
+    await this.assertUserExists(friendId);
+
+    const existing = await this.firestore.getFriendship(userId, friendId);
+
+    if (existing?.status === FriendshipStatus.ACCEPTED) {
+      throw new AppError(`Você já é amigo de "${friendId}".`, 409);
+    }
+
+    if (existing?.requesterId === userId) {
+      throw new AppError(
+        `Pedido de amizade para "${friendId}" já enviado.`,
+        409
+      );
+    }
+
+    if (existing) {
+      return {
+        friendship: await this.accept(existing, userId),
+        autoAccepted: true,
+      };
+    }
+
+    await this.assertFriendLimit(userId);
+
+    const friendship: Friendship = {
+      id: getFriendshipId(userId, friendId),
+      userIds: [userId, friendId].sort() as [string, string],
+      requesterId: userId,
+      addresseeId: friendId,
+      status: FriendshipStatus.PENDING,
+      createdAt: new Date(),
+      acceptedAt: null,
+    };
+
+    await this.firestore.saveFriendship(friendship);
+    await this.notify(friendId, {
+      title: "Novo pedido de amizade",
+      body: "Alguém quer estudar com você! Responda o pedido de amizade.",
+      pushType: PushType.FRIEND_REQUEST,
+      additionalData: { requesterId: userId },
+    });
+
+    return { friendship, autoAccepted: false };
+  }
+
+  /**
+   * Aceita o pedido de amizade recebido de requesterId
+   */
+  async acceptRequest(
+    userId: string,
+    requesterId: string
+  ): Promise<Friendship> {
+    const friendship = await this.getIncomingRequest(userId, requesterId);
+    return this.accept(friendship, userId);
+  }
+
+  /**
+   * Recusa o pedido de amizade recebido de requesterId
+   */
+  async declineRequest(userId: string, requesterId: string): Promise<void> {
+    await this.getIncomingRequest(userId, requesterId);
+    await this.firestore.deleteFriendship(userId, requesterId);
+  }
+
+  /**
+   * Desfaz a amizade ou cancela o pedido enviado
+   */
+  async removeFriend(userId: string, friendId: string): Promise<void> {
+    const friendship = await this.firestore.getFriendship(userId, friendId);
+
+    // Pedido recebido se recusa em declineRequest
+    if (
+      !friendship ||
+      (friendship.status === FriendshipStatus.PENDING &&
+        friendship.requesterId !== userId)
+    ) {
+      throw new AppError(`Amizade com "${friendId}" não encontrada.`, 404);
+    }
+
+    await this.firestore.deleteFriendship(userId, friendId);
+  }
+
+  /**
+   * Leaderboard do usuário e seus amigos: XP ganho na semana (a partir de
+   * segunda-feira) ou no mês, ou streak atual
+   */
+  async getLeaderboard(
+    userId: string,
+    metric: FriendLeaderboardMetric,
+    now: Date = new Date()
+  ): Promise<FriendLeaderboard> {
+    const friendIds = (await this.firestore.getUserFriendships(userId))
+      .filter((friendship) => friendship.status === FriendshipStatus.ACCEPTED)
+      .map((friendship) => getFriendId(friendship, userId));
+    const progressById = await this.getProgressById([userId, ...friendIds]);
+    const since = this.getPeriodStart(metric, now);
+
+    const scored = await Promise.all(
+      [...progressById.values()].map(async (progress) => ({
+        progress,
+        score: since
+          ? await this.getEarnedXP(progress.userId, since, now)
+          : progress.currentStreak,
+      }))
+    );
+
+    return {
+      metric,
+      since,
+      entries: this.assignRanks(scored, userId),
+    };
+  }
+
+  // ========== HELPER METHODS ==========
+
+  private async accept(
+    friendship: Friendship,
+    userId: string
+  ): Promise<Friendship> {
+    await this.assertFriendLimit(userId);
+    await this.assertFriendLimit(friendship.requesterId);
+
+    const accepted: Friendship = {
+      ...friendship,
+      status: FriendshipStatus.ACCEPTED,
+      acceptedAt: new Date(),
+    };
+
+    await this.firestore.saveFriendship(accepted);
+    await this.notify(friendship.requesterId, {
+      title: "Pedido de amizade aceito",
+      body: "Seu pedido de amizade foi aceito. Compare seu progresso no ranking de amigos!",
+      pushType: PushType.FRIEND_ACCEPTED,
+      additionalData: { friendId: userId },
+    });
+
+    return accepted;
+  }
+
+  private async getIncomingRequest(
+    userId: string,
+    requesterId: string
+  ): Promise<Friendship> {
+    const friendship = await this.firestore.getFriendship(userId, requesterId);
+
+    if (
+      !friendship ||
+      friendship.status !== FriendshipStatus.PENDING ||
+      friendship.addresseeId !== userId
+    ) {
+      throw new AppError(
+        `Pedido de amizade de "${requesterId}" não encontrado.`,
+        404
+      );
+    }
+
+    return friendship;
+  }
+
+  private async assertUserExists(userId: string): Promise<void> {
+    try {
+      await this.firestore.getUserProgress(userId);
+    } catch {
+      throw new AppError(`Usuário "${userId}" não encontrado.`, 404);
+    }
+  }
+
+  private async assertFriendLimit(userId: string): Promise<void> {
+    const friends = (await this.firestore.getUserFriendships(userId)).filter(
+      (friendship) => friendship.status === FriendshipStatus.ACCEPTED
+    );
+
+    if (friends.length >= this.maxFriends) {
+      throw new AppError(
+        `Limite de ${this.maxFriends} amigos atingido por "${userId}".`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Progresso dos usuários; usuários sem progresso são ignorados
+   */
+  private async getProgressById(
+    userIds: string[]
+  ): Promise<Map<string, UserProgress>> {
+    const progress = await Promise.all(
+      userIds.map((userId) =>
+        this.firestore.getUserProgress(userId).catch(() => null)
+      )
+    );
+
+    return new Map(
+      progress.flatMap((entry) => (entry ? [[entry.userId, entry]] : []))
+    );
+  }
+
+  private async getEarnedXP(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<number> {
+    const transactions = await this.firestore.getUserXPTransactionsByPeriod(
+      userId,
+      startDate,
+      endDate
+    );
+
+    return Math.max(
+      0,
+      transactions
+        .filter(countsAsEarnedXP)
+        .reduce((total, transaction) => total + transaction.amount, 0)
+    );
+  }
+
+  /**
+   * Início do período (horário do servidor, como os rankings globais)
+   */
+  private getPeriodStart(
+    metric: FriendLeaderboardMetric,
+    now: Date
+  ): Date | null {
+    switch (metric) {
+      case "weekly_xp":
+        return getLocalWeekStart(now);
+      case "monthly_xp":
+        return new Date(now.getFullYear(), now.getMonth(), 1);
+      case "streak":
+        return null;
+    }
+  }
+
+  /**
+   * Posições no formato "competition ranking" (1, 2, 2, 4), como assignRanks
+   */
+  private assignRanks(
+    scored: Array<{ progress: UserProgress; score: number }>,
+    userId: string
+  ): FriendLeaderboardEntry[] {
+    const sorted = [...scored].sort(
+      (a, b) =>
+        b.score - a.score || a.progress.userId.localeCompare(b.progress.userId)
+    );
+
+    let previousScore: number | null = null;
+    let previousRank = 0;
+
+    return sorted.map(({ progress, score }, index) => {
+      const rank = score === previousScore ? previousRank : index + 1;
+      previousScore = score;
+      previousRank = rank;
+
+      return {
+        userId: progress.userId,
+        rank,
+        score,
+        level: progress.level,
+        currentStreak: progress.currentStreak,
+        isCurrentUser: progress.userId === userId,
+      };
+    });
+  }
+
+  private async notify(
+    userId: string,
+    payload: NotificationPayload
+  ): Promise<void> {
+    await this.inboxService.record(userId, {
+      type: InboxNotificationType.SOCIAL,
+      title: payload.title,
+      body: payload.body,
+      data: payload.additionalData,
+    });
+
+    try {
+      const fcmToken = await this.firestore.getUserFcmToken(userId);
+
+      if (fcmToken) {
+        await this.notificationService.sendPushNotification(fcmToken, payload);
+      }
+    } catch (error) {
+      logger.warn("[FriendService] Falha ao enviar notificação de amizade", {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import admin from "firebase-admin";
+import { createPublicKey, verify, type KeyObject } from "node:crypto";
+import { getFirebaseApp } from "../config/firebase.config";
+
+/**
+ * Identidade extraída de um ID token válido
+ */
+export interface VerifiedIdToken {
+  uid: string;
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Verificador de ID tokens usado pelo authMiddleware (AUTH_MODE=firebase).
+ * Deve rejeitar (throw) tokens inválidos, expirados ou de outro projeto.
+ */
+export interface IdTokenVerifier {
+  verifyIdToken(token: string): Promise<VerifiedIdToken>;
+}
+
+/**
+ * Verificação oficial via Firebase Admin SDK (assinatura, expiração e projeto)
+ */
+export class FirebaseIdTokenVerifier implements IdTokenVerifier {
+  async verifyIdToken(token: string): Promise<VerifiedIdToken> {
+    const decoded = await admin.auth(getFirebaseApp()).verifyIdToken(token);
+
+    return { uid: decoded.uid, claims: { ...decoded } };
+  }
+}
+
+export interface KeyPairIdTokenVerifierOptions {
+  publicKey: string | KeyObject;
+  issuer?: string;
+  audience?: string;
+}
+
+const decodeSegment = (segment: string): Record<string, unknown> =>
+  JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as Record<
+    string,
+    unknown
+  >;
+
+/**
+ * Verifica JWTs RS256 assinados por um par de chaves local.
+ * Útil em testes e no emulador, onde não há chaves do Google.
+ */
+export class KeyPairIdTokenVerifier implements IdTokenVerifier {
+  private readonly publicKey: KeyObject;
+
+  constructor(private readonly options: KeyPairIdTokenVerifierOptions) {
+    this.publicKey =
+      typeof options.publicKey === "string"
+        ? createPublicKey(options.publicKey)
+        : options.publicKey;
+  }
+
+  async verifyIdToken(token: string): Promise<VerifiedIdToken> {
+    const [header, payload, signature] = token.split(".");
+
+    if (!header || !payload || !signature) {
+      throw new Error("ID token malformado");
+    }
+
+    if (decodeSegment(header).alg !== "RS256") {
+      throw new Error("Algoritmo de assinatura não suportado");
+    }
+
+    const validSignature = verify(
+      "RSA-SHA256",
+      Buffer.from(`${header}.${payload}`),
+      this.publicKey,
+      Buffer.from(signature, "base64url")
+    );
+
+    if (!validSignature) {
+      throw new Error("Assinatura do ID token inválida");
+    }
+
+    const claims = decodeSegment(payload);
+    const nowSeconds = Math.floor(Date.now() / 1000);
+
+    if (typeof claims.exp !== "number" || claims.exp <= nowSeconds) {
+      throw new Error("ID token expirado");
+    }
+
+    if (this.options.issuer && claims.iss !== this.options.issuer) {
+      throw new Error("Emissor do ID token inválido");
+    }
+
+    if (this.options.audience && claims.aud !== this.options.audience) {
+      throw new Error("Audiência do ID token inválida");
+    }
+
+    if (typeof claims.sub !== "string" || !claims.sub) {
+      throw new Error("ID token sem usuário (sub)");
+    }
+
+    return { uid: claims.sub, claims };
+  }
+}
+
+let idTokenVerifier: IdTokenVerifier | null = null;
+
+/**
+ * Verificador compartilhado (padrão: Firebase Admin SDK)
+ */
+export function getIdTokenVerifier(): IdTokenVerifier {
+  idTokenVerifier ??= new FirebaseIdTokenVerifier();
+  return idTokenVerifier;
+}
+
+/**
+ * Substitui o verificador compartilhado (null volta ao Firebase Admin SDK)
+ */
+export function setIdTokenVerifier(next: IdTokenVerifier | null): void {
+  idTokenVerifier = next;
+}
@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { IDEMPOTENCY_CONFIG } from "../config/constants";
+import type { ProcessedEvent } from "../models/ProcessedEvent";
+import type { FirestoreService } from "./firestore.service";
+import { IdempotencyService } from "./idempotency.service";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const now = new Date(2025, 10, 15, 12, 0, 0);
+
+const createEvent = (
+  overrides: Partial<ProcessedEvent> = {}
+): ProcessedEvent => ({
+  id: "record-1",
+  scope: "process-review",
+  userId: "user-1",
+  eventId: "event-1",
+  status: "completed",
+  statusCode: 200,
+  response: { success: true, xpGained: 15 },
+  createdAt: new Date(now.getTime() - 1000),
+  expiresAt: new Date(now.getTime() + IDEMPOTENCY_CONFIG.RETENTION_MS),
+  ...overrides,
+});
+
+describe("IdempotencyService", () => {
+  let service: IdempotencyService;
+  let mockFirestore: FirestoreService;
+
+  beforeEach(() => {
+    mockFirestore = {
+      claimProcessedEvent: vi.fn(),
+      completeProcessedEvent: vi.fn(),
+      deleteProcessedEvent: vi.fn(),
+    } as unknown as FirestoreService;
+
+    service = new IdempotencyService(mockFirestore);
+  });
+
+  it("deve reservar um evento novo com expiração na janela de retenção", async () => {
+    vi.mocked(mockFirestore.claimProcessedEvent).mockResolvedValue({
+      claimed: true,
+    });
+
+    const result = await service.begin(
+      "process-review",
+      "user-1",
+      "event-1",
+      now
+    );
+
+    expect(result).toEqual({
+      status: "started",
+      recordId: service.buildRecordId("process-review", "user-1", "event-1"),
+    });
+    expect(mockFirestore.claimProcessedEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: "processing",
+        expiresAt: new Date(now.getTime() + IDEMPOTENCY_CONFIG.RETENTION_MS),
+      }),
+      expect.any(Function)
+    );
+  });
+
+  it("deve devolver a resposta original para um evento concluído", async () => {
+    const existing = createEvent();
+    vi.mocked(mockFirestore.claimProcessedEvent).mockResolvedValue({
+      claimed: false,
+      existing,
+    });
+
+    const result = await service.begin(
+      "process-review",
+      "user-1",
+      "event-1",
+      now
+    );
+
+    expect(result).toEqual({
+      status: "replay",
+      statusCode: 200,
+      response: existing.response,
+    });
+  });
+
+  it("deve sinalizar evento ainda em processamento", async () => {
+    vi.mocked(mockFirestore.claimProcessedEvent).mockResolvedValue({
+      claimed: false,
+      existing: createEvent({
+        status: "processing",
+        statusCode: null,
+        response: null,
+      }),
+    });
+
+    const result = await service.begin(
+      "process-review",
+      "user-1",
+      "event-1",
+      now
+    );
+
+    expect(result).toEqual({ status: "in_progress" });
+  });
+
+  it("deve permitir substituir registros expirados ou presos em processamento", async () => {
+    vi.mocked(mockFirestore.claimProcessedEvent).mockResolvedValue({
+      claimed: true,
+    });
+
+    await service.begin("card-created", "user-1", "event-1", now);
+
+    const canReplace = vi.mocked(mockFirestore.claimProcessedEvent).mock
+      .calls[0]?.[1] as (existing: ProcessedEvent) => boolean;
+
+    expect(canReplace(createEvent())).toBe(false);
+    expect(
+      canReplace(createEvent({ expiresAt: new Date(now.getTime() - 1) }))
+    ).toBe(true);
+    expect(
+      canReplace(
+        createEvent({
+          status: "processing",
+          createdAt: new Date(
+            now.getTime() - IDEMPOTENCY_CONFIG.PROCESSING_TIMEOUT_MS - 1
+          ),
+        })
+      )
+    ).toBe(true);
+  });
+
+  it("deve isolar o mesmo eventId entre endpoints e usuários", () => {
+    const reviewId = service.buildRecordId("process-review", "user-1", "e-1");
+
+    expect(service.buildRecordId("card-created", "user-1", "e-1")).not.toBe(
+      reviewId
+    );
+    expect(service.buildRecordId("process-review", "user-2", "e-1")).not.toBe(
+      reviewId
+    );
+  });
+
+  it("deve ignorar falhas ao liberar um evento", async () => {
+    vi.mocked(mockFirestore.deleteProcessedEvent).mockRejectedValue(
+      new Error("boom")
+    );
+
+    await expect(service.release("record-1")).resolves.toBeUndefined();
+  });
+});
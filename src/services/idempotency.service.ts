@@ -0,0 +1,140 @@
+import { createHash } from "crypto";
+import { IDEMPOTENCY_CONFIG } from "../config/constants";
+import type {
+  ProcessedEvent,
+  ProcessedEventScope,
+} from "../models/ProcessedEvent";
+import { toDate } from "../utils/date";
+import { logger } from "../utils/logger";
+import { getRepository, type GamificationRepository } from "../repositories";
+
+export type IdempotencyBeginResult =
+  | { status: "started"; recordId: string }
+  | {
+      status: "replay";
+      statusCode: number;
+      response: Record<string, unknown>;
+    }
+  | { status: "in_progress" };
+
+/**
+ * Controla a ingestão idempotente de eventos.
+ *
+ * Fluxo: `begin` reserva o eventId, o chamador processa o evento e chama
+ * `complete` com a resposta (ou `release` se falhou). Reenvios do mesmo
+ * eventId dentro da janela de retenção recebem a resposta original.
+ */
+export class IdempotencyService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository()
+  ) {}
+
+  async begin(
+    scope: ProcessedEventScope,
+    userId: string,
+    eventId: string,
+    now: Date = new Date()
+  ): Promise<IdempotencyBeginResult> {
+    const recordId = this.buildRecordId(scope, userId, eventId);
+
+    const result = await this.firestore.claimProcessedEvent(
+      {
+        id: recordId,
+        scope,
+        userId,
+        eventId,
+        status: "processing",
+        statusCode: null,
+        response: null,
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + IDEMPOTENCY_CONFIG.RETENTION_MS),
+      },
+      (existing) => this.canReplace(existing, now)
+    );
+
+    if (result.claimed) {
+      return { status: "started", recordId };
+    }
+
+    const { existing } = result;
+
+    if (
+      existing.status === "completed" &&
+      existing.statusCode !== null &&
+      existing.response
+    ) {
+      logger.info("[IdempotencyService] Evento repetido, devolvendo resposta", {
+        scope,
+        userId,
+        eventId,
+      });
+
+      return {
+        status: "replay",
+        statusCode: existing.statusCode,
+        response: existing.response,
+      };
+    }
+
+    logger.warn("[IdempotencyService] Evento ainda em processamento", {
+      scope,
+      userId,
+      eventId,
+    });
+
+    return { status: "in_progress" };
+  }
+
+  async complete(
+    recordId: string,
+    statusCode: number,
+    response: Record<string, unknown>
+  ): Promise<void> {
+    await this.firestore.completeProcessedEvent(recordId, statusCode, response);
+  }
+
+  /**
+   * Libera o eventId para que o cliente possa reenviar após uma falha
+   */
+  async release(recordId: string): Promise<void> {
+    try {
+      await this.firestore.deleteProcessedEvent(recordId);
+    } catch (error) {
+      logger.error("[IdempotencyService] Erro ao liberar evento", {
+        recordId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * ID determinístico do registro (hash evita caracteres inválidos no doc ID)
+   */
+  buildRecordId(
+    scope: ProcessedEventScope,
+    userId: string,
+    eventId: string
+  ): string {
+    return createHash("sha256")
+      .update(`${scope}:${userId}:${eventId}`)
+      .digest("hex");
+  }
+
+  // ========== HELPER METHODS ==========
+
+  /**
+   * Registros expirados ou presos em "processing" além do timeout
+   * podem ser substituídos por um novo processamento
+   */
+  private canReplace(existing: ProcessedEvent, now: Date): boolean {
+    if (toDate(existing.expiresAt).getTime() <= now.getTime()) {
+      return true;
+    }
+
+    return (
+      existing.status === "processing" &&
+      now.getTime() - toDate(existing.createdAt).getTime() >
+        IDEMPOTENCY_CONFIG.PROCESSING_TIMEOUT_MS
+    );
+  }
+}
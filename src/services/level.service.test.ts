@@ -1,6 +1,13 @@
 import { describe, it, expect } from "vitest";
+import type { LevelConfig } from "../config/level.config";
+import { createLevelCurve, PiecewiseLevelCurve } from "../utils/level-curve";
 import { LevelService } from "./level.service";
 
+const titles: LevelConfig["titles"] = [
+  { minLevel: 0, title: "Iniciante", badge: "seed" },
+  { minLevel: 3, title: "Aprendiz", badge: "sprout" },
+];
+
 describe("LevelService", () => {
   const levelService = new LevelService();
 
@@ -276,6 +283,44 @@ describe("LevelService", () => {
     });
   });
 
+  describe("checkLevelDown", () => {
+    it("deve detectar perda de nível", () => {
+      const result = levelService.checkLevelDown(450, 350);
+      expect(result).toEqual({
+        leveledDown: true,
+        oldLevel: 2,
+        newLevel: 1,
+        levelsLost: 1,
+      });
+    });
+
+    it("deve detectar perda de múltiplos níveis até o nível 0", () => {
+      const result = levelService.checkLevelDown(1000, 50);
+      expect(result).toEqual({
+        leveledDown: true,
+        oldLevel: 3,
+        newLevel: 0,
+        levelsLost: 3,
+      });
+    });
+
+    it("não deve detectar perda de nível dentro do mesmo nível", () => {
+      const result = levelService.checkLevelDown(250, 200);
+      expect(result).toEqual({
+        leveledDown: false,
+        oldLevel: 1,
+        newLevel: 1,
+        levelsLost: 0,
+      });
+    });
+
+    it("deve lançar erro quando novo XP é maior que o antigo", () => {
+      expect(() => levelService.checkLevelDown(300, 500)).toThrow(
+        "O novo XP total não pode ser maior que o XP total antigo."
+      );
+    });
+  });
+
   describe("xpForNextLevel", () => {
     it("deve calcular corretamente o XP para o próximo nível a partir do nível 0", () => {
       expect(levelService.xpForNextLevel(0)).toBe(100);
@@ -353,4 +398,104 @@ describe("LevelService", () => {
       );
     });
   });
+
+  describe("calculateLevel (busca binária)", () => {
+    it("deve coincidir com a fórmula original da curva padrão", () => {
+      for (let totalXP = 0; totalXP <= 50000; totalXP += 37) {
+        expect(levelService.calculateLevel(totalXP)).toBe(
+          Math.floor(Math.sqrt(totalXP / 100))
+        );
+      }
+    });
+  });
+
+  describe("curva por trechos", () => {
+    const service = new LevelService(
+      new PiecewiseLevelCurve([
+        { fromLevel: 4, xpPerLevel: 500 },
+        { fromLevel: 1, xpPerLevel: 100 },
+      ]),
+      { cap: null, prestigeXP: null, titles }
+    );
+
+    it("deve acumular o XP de cada trecho", () => {
+      expect(service.xpForLevel(1)).toBe(100);
+      expect(service.xpForLevel(3)).toBe(300);
+      expect(service.xpForLevel(4)).toBe(800);
+      expect(service.xpForLevel(6)).toBe(1800);
+    });
+
+    it("deve calcular nível e XP atual pela curva", () => {
+      expect(service.calculateLevel(299)).toBe(2);
+      expect(service.calculateLevel(800)).toBe(4);
+      expect(service.calculateLevel(1799)).toBe(5);
+      expect(service.getCurrentXP(1000, 4)).toBe(200);
+      expect(service.xpToNextLevel(1000, 4)).toBe(300);
+    });
+
+    it("deve exigir que o primeiro trecho comece no nível 1", () => {
+      expect(() =>
+        createLevelCurve({
+          type: "piecewise",
+          segments: [{ fromLevel: 2, xpPerLevel: 100 }],
+        })
+      ).toThrow("O primeiro trecho da curva deve começar no nível 1.");
+    });
+  });
+
+  describe("nível máximo e prestígio", () => {
+    // Nível 5 = 2500 XP; cada 1000 XP além disso soma um prestígio
+    const service = new LevelService(
+      createLevelCurve({ type: "polynomial", base: 100, exponent: 2 }),
+      { cap: 5, prestigeXP: 1000, titles }
+    );
+
+    it("deve limitar o nível ao máximo", () => {
+      expect(service.calculateLevel(2499)).toBe(4);
+      expect(service.calculateLevel(1_000_000)).toBe(5);
+    });
+
+    it("deve contar prestígio e progresso após o nível máximo", () => {
+      expect(service.getLevelInfo(4800)).toEqual({
+        level: 5,
+        currentXP: 300,
+        xpForNextLevel: 2500,
+        xpToNextLevel: 700,
+        title: "Aprendiz",
+        badge: "sprout",
+        prestige: 2,
+        maxLevelReached: true,
+      });
+    });
+
+    it("não deve ter próximo nível sem prestígio", () => {
+      const withoutPrestige = new LevelService(
+        createLevelCurve({ type: "polynomial", base: 100, exponent: 2 }),
+        { cap: 5, prestigeXP: null, titles }
+      );
+
+      expect(withoutPrestige.getPrestige(10000)).toBe(0);
+      expect(withoutPrestige.xpToNextLevel(10000, 5)).toBe(0);
+    });
+
+    it("deve montar a tabela até o nível máximo", () => {
+      const table = service.getLevelTable(50);
+
+      expect(table).toHaveLength(5);
+      expect(table[0]).toEqual({
+        level: 1,
+        totalXP: 100,
+        xpFromPreviousLevel: 100,
+        title: "Iniciante",
+        badge: "seed",
+      });
+      expect(table[4]).toEqual({
+        level: 5,
+        totalXP: 2500,
+        xpFromPreviousLevel: 900,
+        title: "Aprendiz",
+        badge: "sprout",
+      });
+    });
+  });
 });
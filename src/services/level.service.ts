@@ -1,15 +1,25 @@
+import {
+  levelConfig,
+  type LevelConfig,
+  type LevelTitle,
+} from "../config/level.config";
+import { createLevelCurve, type LevelCurve } from "../utils/level-curve";
+
 /**
  * Level Service
  *
  * Responsável por calcular níveis, XP necessário para cada nível,
  * e detectar quando um usuário sobe de nível (level up).
  *
- * Fórmula de XP: 100 * level²
- * Exemplo:
+ * A curva de XP vem de LEVEL_CURVE (padrão: 100 * level²)
+ * Exemplo com a curva padrão:
  * - Nível 1: 100 XP
  * - Nível 2: 400 XP
  * - Nível 3: 900 XP
  * - Nível 10: 10.000 XP
+ *
+ * Com LEVEL_CAP, o nível para no máximo; com LEVEL_PRESTIGE_XP, o XP além
+ * do nível máximo conta níveis de prestígio.
  */
 
 export interface LevelUpResult {
@@ -19,11 +29,56 @@ export interface LevelUpResult {
   levelsGained: number;
 }
 
+export interface LevelDownResult {
+  leveledDown: boolean;
+  oldLevel: number;
+  newLevel: number;
+  levelsLost: number;
+}
+
+export interface LevelInfo {
+  level: number;
+  currentXP: number;
+  xpForNextLevel: number;
+  xpToNextLevel: number;
+  title: string;
+  badge: string;
+  prestige: number;
+  maxLevelReached: boolean;
+}
+
+export interface LevelTableEntry {
+  level: number;
+  // XP total para atingir o nível
+  totalXP: number;
+  // XP a partir do nível anterior
+  xpFromPreviousLevel: number;
+  title: string;
+  badge: string;
+}
+
 export class LevelService {
+  constructor(
+    private readonly curve: LevelCurve = createLevelCurve(levelConfig.curve),
+    private readonly config: Omit<LevelConfig, "curve"> = levelConfig
+  ) {}
+
+  get maxLevel(): number | null {
+    return this.config.cap;
+  }
+
+  get prestigeXP(): number | null {
+    return this.config.prestigeXP;
+  }
+
+  get curveType(): LevelCurve["type"] {
+    return this.curve.type;
+  }
+
   /**
    * Calcula a quantidade de XP necessária para atingir um determinado nível.
    *
-   * Fórmula: 100 * level²
+   * Fórmula da curva padrão: 100 * level²
    *
    * @param level - O nível para o qual calcular o XP necessário
    * @returns A quantidade total de XP necessária para atingir o nível
@@ -38,13 +93,14 @@ export class LevelService {
       throw new Error("Nível inválido. Deve ser um número maior ou igual a 1.");
     }
 
-    return 100 * level * level;
+    return this.curve.xpForLevel(level);
   }
 
   /**
    * Calcula o nível atual de um usuário com base no XP total acumulado.
    *
-   * Itera pelos níveis até encontrar o nível máximo que o XP total permite atingir.
+   * Busca binária sobre a curva (crescente): entre 1 e o nível máximo ou,
+   * sem limite, até um limite superior encontrado dobrando o nível.
    *
    * @param totalXP - XP total acumulado pelo usuário
    * @returns O nível atual do usuário
@@ -68,14 +124,31 @@ export class LevelService {
       return 0;
     }
 
-    let level = 1;
+    const cap = this.config.cap;
+    if (cap !== null && totalXP >= this.xpForLevel(cap)) {
+      return cap;
+    }
 
-    // Incrementa o nível enquanto o usuário tiver XP suficiente para o próximo
-    while (totalXP >= this.xpForLevel(level + 1)) {
-      level++;
+    // Invariante: xpForLevel(low) <= totalXP < xpForLevel(high)
+    let low = 1;
+    let high = cap ?? 2;
+
+    while (cap === null && totalXP >= this.xpForLevel(high)) {
+      low = high;
+      high *= 2;
     }
 
-    return level;
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+
+      if (totalXP >= this.xpForLevel(middle)) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    return low;
   }
 
   /**
@@ -111,10 +184,15 @@ export class LevelService {
 
     // XP atual = XP total - XP necessário para o nível atual
     const xpForCurrentLevel = this.xpForLevel(level);
-    const currentXP = totalXP - xpForCurrentLevel;
+    const currentXP = Math.max(0, totalXP - xpForCurrentLevel);
+
+    // No nível máximo com prestígio, o progresso é até o próximo prestígio
+    if (this.isMaxLevel(level) && this.config.prestigeXP !== null) {
+      return currentXP % this.config.prestigeXP;
+    }
 
     // Garante que nunca retorne um valor negativo
-    return Math.max(0, currentXP);
+    return currentXP;
   }
 
   /**
@@ -167,8 +245,54 @@ export class LevelService {
     };
   }
 
+  /**
+   * Verifica se o usuário perdeu nível após uma redução de XP (ex: estorno).
+   *
+   * @param oldTotalXP - XP total antes da ação
+   * @param newTotalXP - XP total depois da ação
+   * @returns Objeto contendo informações sobre os níveis perdidos
+   *
+   * @example
+   * checkLevelDown(450, 350)
+   * // { leveledDown: true, oldLevel: 2, newLevel: 1, levelsLost: 1 }
+   *
+   * checkLevelDown(250, 200)
+   * // { leveledDown: false, oldLevel: 1, newLevel: 1, levelsLost: 0 }
+   */
+  checkLevelDown(oldTotalXP: number, newTotalXP: number): LevelDownResult {
+    if (!Number.isFinite(oldTotalXP) || oldTotalXP < 0) {
+      throw new Error(
+        "XP total antigo inválido. Deve ser um número maior ou igual a 0."
+      );
+    }
+
+    if (!Number.isFinite(newTotalXP) || newTotalXP < 0) {
+      throw new Error(
+        "XP total novo inválido. Deve ser um número maior ou igual a 0."
+      );
+    }
+
+    if (newTotalXP > oldTotalXP) {
+      throw new Error(
+        "O novo XP total não pode ser maior que o XP total antigo."
+      );
+    }
+
+    const oldLevel = this.calculateLevel(oldTotalXP);
+    const newLevel = this.calculateLevel(newTotalXP);
+    const levelsLost = oldLevel - newLevel;
+
+    return {
+      leveledDown: levelsLost > 0,
+      oldLevel,
+      newLevel,
+      levelsLost,
+    };
+  }
+
   /**
    * Calcula o XP necessário para atingir o próximo nível a partir do nível atual.
+   * No nível máximo não há próximo nível: retorna o XP do próprio nível.
    *
    * @param currentLevel - Nível atual do usuário
    * @returns XP necessário para o próximo nível
@@ -184,11 +308,16 @@ export class LevelService {
       );
     }
 
+    if (this.isMaxLevel(currentLevel)) {
+      return this.xpForLevel(currentLevel);
+    }
+
     return this.xpForLevel(currentLevel + 1);
   }
 
   /**
    * Calcula quanto XP falta para o usuário atingir o próximo nível.
+   * No nível máximo, quanto falta para o próximo prestígio (ou 0 sem prestígio).
    *
    * @param totalXP - XP total acumulado pelo usuário
    * @param currentLevel - Nível atual do usuário
@@ -211,9 +340,94 @@ export class LevelService {
       );
     }
 
+    if (this.isMaxLevel(currentLevel)) {
+      return this.config.prestigeXP === null
+        ? 0
+        : this.config.prestigeXP - this.getCurrentXP(totalXP, currentLevel);
+    }
+
     const xpForNext = this.xpForNextLevel(currentLevel);
     const remaining = xpForNext - totalXP;
 
     return Math.max(0, remaining);
   }
+
+  /**
+   * Níveis de prestígio: cada LEVEL_PRESTIGE_XP de XP além do nível máximo
+   *
+   * @example
+   * // LEVEL_CAP=10 (10.000 XP), LEVEL_PRESTIGE_XP=5000
+   * getPrestige(21000) // 2
+   */
+  getPrestige(totalXP: number): number {
+    const { cap, prestigeXP } = this.config;
+
+    if (cap === null || prestigeXP === null) {
+      return 0;
+    }
+
+    return Math.max(
+      0,
+      Math.floor((totalXP - this.xpForLevel(cap)) / prestigeXP)
+    );
+  }
+
+  /**
+   * Título e badge do nível (maior minLevel que não ultrapassa o nível)
+   */
+  getLevelTitle(level: number): LevelTitle {
+    const titles = this.config.titles;
+    return (
+      [...titles].reverse().find((title) => title.minLevel <= level) ??
+      titles[0] ?? { minLevel: 0, title: "", badge: "" }
+    );
+  }
+
+  /**
+   * Resumo do nível para exibição (progresso, título e prestígio)
+   */
+  getLevelInfo(totalXP: number): LevelInfo {
+    const level = this.calculateLevel(totalXP);
+    const { title, badge } = this.getLevelTitle(level);
+
+    return {
+      level,
+      currentXP: this.getCurrentXP(totalXP, level),
+      xpForNextLevel: this.xpForNextLevel(level),
+      xpToNextLevel: this.xpToNextLevel(totalXP, level),
+      title,
+      badge,
+      prestige: this.getPrestige(totalXP),
+      maxLevelReached: this.isMaxLevel(level),
+    };
+  }
+
+  /**
+   * Tabela de níveis de 1 até maxLevel (limitado ao nível máximo)
+   */
+  getLevelTable(maxLevel: number): LevelTableEntry[] {
+    const lastLevel = Math.min(maxLevel, this.config.cap ?? maxLevel);
+    const table: LevelTableEntry[] = [];
+    let previousXP = 0;
+
+    for (let level = 1; level <= lastLevel; level++) {
+      const totalXP = this.xpForLevel(level);
+      const { title, badge } = this.getLevelTitle(level);
+
+      table.push({
+        level,
+        totalXP,
+        xpFromPreviousLevel: totalXP - previousXP,
+        title,
+        badge,
+      });
+      previousXP = totalXP;
+    }
+
+    return table;
+  }
+
+  private isMaxLevel(level: number): boolean {
+    return this.config.cap !== null && level >= this.config.cap;
+  }
 }
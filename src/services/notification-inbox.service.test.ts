@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { InboxNotificationType } from "../models/InboxNotification";
+import { XPSource } from "../models/XPTransaction";
+import { InMemoryRepository } from "../repositories";
+import { NotificationInboxService } from "./notification-inbox.service";
+import { XPService } from "./xp.service";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = new Date("2025-03-01T12:00:00Z");
+
+const social = (title: string) => ({
+  type: InboxNotificationType.SOCIAL,
+  title,
+  body: `${title} - corpo`,
+});
+
+describe("NotificationInboxService", () => {
+  let repository: InMemoryRepository;
+  let service: NotificationInboxService;
+
+  beforeEach(async () => {
+    repository = new InMemoryRepository();
+    service = new NotificationInboxService(repository, 30);
+
+    for (const [index, title] of ["a", "b", "c", "d", "e"].entries()) {
+      await service.record(
+        "ana",
+        social(title),
+        new Date(start.getTime() + index * 60_000)
+      );
+    }
+  });
+
+  it("pagina as notificações das mais recentes para as mais antigas", async () => {
+    const first = await service.getInbox("ana", { limit: 2 });
+    const second = await service.getInbox("ana", {
+      limit: 2,
+      cursor: first.nextCursor ?? undefined,
+    });
+    const last = await service.getInbox("ana", {
+      limit: 2,
+      cursor: second.nextCursor ?? undefined,
+    });
+
+    expect(first.notifications.map(({ title }) => title)).toEqual(["e", "d"]);
+    expect(second.notifications.map(({ title }) => title)).toEqual(["c", "b"]);
+    expect(last.notifications.map(({ title }) => title)).toEqual(["a"]);
+    expect(last.nextCursor).toBeNull();
+    expect(first.unreadCount).toBe(5);
+  });
+
+  it("marca uma ou todas as notificações como lidas", async () => {
+    const [latest] = (await service.getInbox("ana")).notifications;
+
+    await service.markAsRead("ana", latest!.id);
+
+    expect(await service.getUnreadCount("ana")).toBe(4);
+    expect(
+      (await service.getInbox("ana", { unreadOnly: true })).notifications
+    ).toHaveLength(4);
+    await expect(service.markAsRead("bia", latest!.id)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+
+    expect(await service.markAllAsRead("ana")).toBe(4);
+    expect(await service.getUnreadCount("ana")).toBe(0);
+  });
+
+  it("apaga apenas as notificações expiradas", async () => {
+    await service.record(
+      "ana",
+      social("recente"),
+      new Date(start.getTime() + 20 * DAY_MS)
+    );
+
+    expect(
+      await service.cleanupExpired(new Date(start.getTime() + 31 * DAY_MS))
+    ).toBe(5);
+    expect(
+      (await service.getInbox("ana")).notifications.map(({ title }) => title)
+    ).toEqual(["recente"]);
+  });
+
+  it("guarda o broadcast para todos os usuários", async () => {
+    await repository.createUserProgress("ana");
+    await repository.createUserProgress("bia");
+
+    const recipients = await service.recordForAllUsers({
+      type: InboxNotificationType.BROADCAST,
+      title: "Novidade",
+      body: "Novo modo de estudo",
+    });
+
+    expect(recipients).toBe(2);
+    expect((await service.getInbox("bia")).notifications).toMatchObject([
+      { type: InboxNotificationType.BROADCAST, title: "Novidade", read: false },
+    ]);
+  });
+
+  it("recebe o level-up do XPService", async () => {
+    await repository.createUserProgress("caio");
+
+    await new XPService(repository).addXP(
+      "caio",
+      1000,
+      XPSource.MANUAL_ADJUSTMENT,
+      "ajuste-1"
+    );
+
+    const [levelUp] = (await service.getInbox("caio")).notifications;
+
+    expect(levelUp).toMatchObject({
+      type: InboxNotificationType.LEVEL_UP,
+      data: { oldLevel: "0" },
+    });
+  });
+});
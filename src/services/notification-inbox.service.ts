@@ -0,0 +1,168 @@
+import { randomUUID } from "crypto";
+import { INBOX_CONFIG } from "../config/constants";
+import { AppError } from "../middlewares/error.middleware";
+import type {
+  InboxNotification,
+  InboxNotificationInput,
+} from "../models/InboxNotification";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { logger } from "../utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface InboxPage {
+  notifications: InboxNotification[];
+  unreadCount: number;
+  // Passe como cursor para buscar a próxima página (null = última página)
+  nextCursor: string | null;
+}
+
+/**
+ * Caixa de entrada de notificações do app. Guarda conquistas, level-ups,
+ * marcos de streak, broadcasts e notificações sociais com estado de leitura,
+ * para o app mostrar o histórico mesmo quando o push não chega.
+ */
+export class NotificationInboxService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository(),
+    private readonly ttlDays: number = INBOX_CONFIG.TTL_DAYS
+  ) {}
+
+  /**
+   * Guarda uma notificação para o usuário. Falhas são apenas registradas no
+   * log para não interromper o fluxo que gerou a notificação.
+   */
+  async record(
+    userId: string,
+    input: InboxNotificationInput,
+    now: Date = new Date()
+  ): Promise<InboxNotification | null> {
+    const notification = this.buildNotification(userId, input, now);
+
+    try {
+      await this.firestore.addInboxNotifications([notification]);
+      return notification;
+    } catch (error) {
+      logger.warn("[NotificationInboxService] Falha ao guardar notificação", {
+        userId,
+        type: input.type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Guarda a mesma notificação para todos os usuários (broadcast)
+   * @returns Quantidade de notificações criadas
+   */
+  async recordForAllUsers(
+    input: InboxNotificationInput,
+    now: Date = new Date()
+  ): Promise<number> {
+    const userIds = await this.firestore.getAllUserIds();
+
+    await this.firestore.addInboxNotifications(
+      userIds.map((userId) => this.buildNotification(userId, input, now))
+    );
+
+    return userIds.length;
+  }
+
+  /**
+   * Página de notificações (mais recentes primeiro) e total de não lidas
+   */
+  async getInbox(
+    userId: string,
+    options: {
+      limit?: number | undefined;
+      cursor?: string | undefined;
+      unreadOnly?: boolean | undefined;
+    } = {}
+  ): Promise<InboxPage> {
+    const limit = Math.min(
+      options.limit ?? INBOX_CONFIG.DEFAULT_PAGE_SIZE,
+      INBOX_CONFIG.MAX_PAGE_SIZE
+    );
+
+    // Um item a mais indica se existe próxima página
+    const [notifications, unreadCount] = await Promise.all([
+      this.firestore.getInboxNotifications(userId, {
+        limit: limit + 1,
+        cursor: options.cursor,
+        unreadOnly: options.unreadOnly,
+      }),
+      this.firestore.countUnreadInboxNotifications(userId),
+    ]);
+
+    const page = notifications.slice(0, limit);
+
+    return {
+      notifications: page,
+      unreadCount,
+      nextCursor:
+        notifications.length > limit
+          ? (page[page.length - 1]?.id ?? null)
+          : null,
+    };
+  }
+
+  /**
+   * Total de notificações não lidas (badge do app)
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    return this.firestore.countUnreadInboxNotifications(userId);
+  }
+
+  async markAsRead(
+    userId: string,
+    notificationId: string,
+    now: Date = new Date()
+  ): Promise<void> {
+    const found = await this.firestore.markInboxNotificationRead(
+      userId,
+      notificationId,
+      now
+    );
+
+    if (!found) {
+      throw new AppError(
+        `Notificação "${notificationId}" não encontrada.`,
+        404
+      );
+    }
+  }
+
+  /**
+   * @returns Quantidade de notificações marcadas como lidas
+   */
+  async markAllAsRead(userId: string, now: Date = new Date()): Promise<number> {
+    return this.firestore.markAllInboxNotificationsRead(userId, now);
+  }
+
+  /**
+   * Apaga as notificações expiradas (job diário)
+   */
+  async cleanupExpired(now: Date = new Date()): Promise<number> {
+    return this.firestore.deleteExpiredInboxNotifications(now);
+  }
+
+  private buildNotification(
+    userId: string,
+    input: InboxNotificationInput,
+    now: Date
+  ): InboxNotification {
+    return {
+      id: randomUUID(),
+      userId,
+      type: input.type,
+      title: input.title,
+      body: input.body,
+      data: input.data ?? {},
+      read: false,
+      readAt: null,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.ttlDays * DAY_MS),
+    };
+  }
+}
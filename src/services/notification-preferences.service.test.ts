@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  isWithinQuietHours,
+  NotificationCategory,
+} from "../models/NotificationPreferences";
+import { InMemoryRepository } from "../repositories";
+import { NotificationPreferencesService } from "./notification-preferences.service";
+
+describe("isWithinQuietHours", () => {
+  it("trata intervalos no mesmo dia e atravessando a meia-noite", () => {
+    const daytime = { startHour: 13, endHour: 15 };
+    const overnight = { startHour: 22, endHour: 7 };
+
+    expect([12, 13, 14, 15].map((h) => isWithinQuietHours(daytime, h))).toEqual(
+      [false, true, true, false]
+    );
+    expect(
+      [21, 22, 0, 6, 7].map((h) => isWithinQuietHours(overnight, h))
+    ).toEqual([false, true, true, true, false]);
+    expect(isWithinQuietHours(null, 3)).toBe(false);
+  });
+});
+
+describe("NotificationPreferencesService", () => {
+  let repository: InMemoryRepository;
+  let service: NotificationPreferencesService;
+
+  // 23h em UTC, 20h em São Paulo
+  const now = new Date("2025-03-05T23:00:00Z");
+
+  beforeEach(async () => {
+    repository = new InMemoryRepository();
+    service = new NotificationPreferencesService(repository);
+
+    for (const [userId, token] of [
+      ["ana", "token-ana"],
+      ["bia", "token-bia"],
+      ["caio", "token-caio"],
+    ] as const) {
+      await repository.createUserProgress(userId);
+      repository.setUserFcmToken(userId, token);
+    }
+  });
+
+  it("retorna as preferências padrão e atualiza parcialmente", async () => {
+    expect(await service.getPreferences("ana")).toMatchObject({
+      muted: false,
+      quietHours: null,
+      categories: { news: true, social: true },
+    });
+
+    await service.updatePreferences("ana", {
+      categories: { [NotificationCategory.NEWS]: false },
+      quietHours: { startHour: 22, endHour: 7 },
+    });
+    const updated = await service.updatePreferences("ana", {
+      categories: { [NotificationCategory.SOCIAL]: false },
+    });
+
+    expect(updated).toMatchObject({
+      categories: {
+        achievements: true,
+        reminders: true,
+        news: false,
+        social: false,
+      },
+      quietHours: { startHour: 22, endHour: 7 },
+    });
+    expect(
+      (await service.updatePreferences("ana", { quietHours: null })).quietHours
+    ).toBeNull();
+  });
+
+  it("bloqueia por mute, categoria e horário de silêncio no fuso do usuário", async () => {
+    await service.updatePreferences("ana", { muted: true });
+    await service.updatePreferences("bia", {
+      categories: { [NotificationCategory.NEWS]: false },
+    });
+    await service.updatePreferences("caio", {
+      quietHours: { startHour: 22, endHour: 7 },
+    });
+    await repository.setUserTimezone("caio", "America/Sao_Paulo");
+
+    const reason = (token: string, category: NotificationCategory | null) =>
+      service.getTokenBlockReason(token, category, now);
+
+    expect(await reason("token-ana", NotificationCategory.REMINDERS)).toBe(
+      "muted"
+    );
+    expect(await reason("token-bia", NotificationCategory.NEWS)).toBe(
+      "category_disabled"
+    );
+    expect(await reason("token-bia", null)).toBeNull();
+    // 20h em São Paulo: fora do silêncio
+    expect(await reason("token-caio", NotificationCategory.NEWS)).toBeNull();
+    expect(
+      await service.getTokenBlockReason(
+        "token-caio",
+        NotificationCategory.NEWS,
+        new Date("2025-03-06T02:00:00Z")
+      )
+    ).toBe("quiet_hours");
+    expect(await reason("token-desconhecido", null)).toBeNull();
+  });
+
+  it("lista os tokens bloqueados para broadcast", async () => {
+    await service.updatePreferences("ana", { muted: true });
+    await service.updatePreferences("bia", {
+      categories: { [NotificationCategory.NEWS]: false },
+    });
+    await service.updatePreferences("caio", {
+      categories: { [NotificationCategory.SOCIAL]: false },
+    });
+
+    expect(
+      [
+        ...(await service.getBlockedTokens(NotificationCategory.NEWS, now)),
+      ].sort()
+    ).toEqual(["token-ana", "token-bia"]);
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  createDefaultNotificationPreferences,
+  getNotificationBlockReason,
+  type NotificationBlockReason,
+  type NotificationCategory,
+  type NotificationPreferences,
+  type QuietHours,
+} from "../models/NotificationPreferences";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { getHourInTimeZone } from "../utils/timezone";
+
+export interface NotificationPreferencesUpdate {
+  muted?: boolean | undefined;
+  categories?: Partial<Record<NotificationCategory, boolean>> | undefined;
+  quietHours?: QuietHours | null | undefined;
+}
+
+/**
+ * Preferências de notificação do usuário (categorias, horário de silêncio e
+ * mute global). Consultadas pelo NotificationService antes de qualquer envio.
+ */
+export class NotificationPreferencesService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository()
+  ) {}
+
+  /**
+   * Preferências salvas do usuário ou as padrão (tudo ativado)
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    return (
+      (await this.firestore.getNotificationPreferences(userId)) ??
+      createDefaultNotificationPreferences(userId)
+    );
+  }
+
+  /**
+   * Atualiza parcialmente as preferências; categorias omitidas são mantidas
+   */
+  async updatePreferences(
+    userId: string,
+    update: NotificationPreferencesUpdate
+  ): Promise<NotificationPreferences> {
+    const current = await this.getPreferences(userId);
+
+    const preferences: NotificationPreferences = {
+      ...current,
+      muted: update.muted ?? current.muted,
+      categories: { ...current.categories, ...update.categories },
+      quietHours:
+        update.quietHours === undefined
+          ? current.quietHours
+          : update.quietHours,
+      updatedAt: new Date(),
+    };
+
+    await this.firestore.saveNotificationPreferences(preferences);
+    return preferences;
+  }
+
+  /**
+   * Motivo do bloqueio do envio para o dono do token (null = pode enviar).
+   * Tokens sem dono ou usuários sem preferências salvas não são bloqueados.
+   */
+  async getTokenBlockReason(
+    fcmToken: string,
+    category: NotificationCategory | null,
+    now: Date = new Date()
+  ): Promise<NotificationBlockReason | null> {
+    const userId = await this.firestore.getUserIdByFcmToken(fcmToken);
+    if (!userId) {
+      return null;
+    }
+
+    const preferences = await this.firestore.getNotificationPreferences(userId);
+    if (!preferences) {
+      return null;
+    }
+
+    const timezone = await this.firestore.getUserTimezone(userId);
+
+    return getNotificationBlockReason(
+      preferences,
+      category,
+      getHourInTimeZone(now, timezone)
+    );
+  }
+
+  /**
+   * Tokens de usuários que não aceitam a notificação agora (para broadcast)
+   */
+  async getBlockedTokens(
+    category: NotificationCategory | null,
+    now: Date = new Date()
+  ): Promise<Set<string>> {
+    const [allPreferences, timezones] = await Promise.all([
+      this.firestore.getAllNotificationPreferences(),
+      this.firestore.getUserTimezones(),
+    ]);
+
+    const blockedUserIds = allPreferences
+      .filter((preferences) =>
+        getNotificationBlockReason(
+          preferences,
+          category,
+          getHourInTimeZone(now, timezones.get(preferences.userId))
+        )
+      )
+      .map((preferences) => preferences.userId);
+
+    const tokens = await Promise.all(
+      blockedUserIds.map((userId) => this.firestore.getUserFcmToken(userId))
+    );
+
+    return new Set(tokens.filter((token): token is string => !!token));
+  }
+}
@@ -0,0 +1,83 @@
+import admin from "firebase-admin";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NotificationCategory } from "../models/NotificationPreferences";
+import { InMemoryRepository } from "../repositories";
+import { NotificationPreferencesService } from "./notification-preferences.service";
+import { NotificationService, PushType } from "./notification.service";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe("NotificationService", () => {
+  const send = vi.fn();
+  const sendEachForMulticast = vi.fn();
+  let repository: InMemoryRepository;
+  let preferencesService: NotificationPreferencesService;
+  let service: NotificationService;
+
+  beforeEach(async () => {
+    vi.spyOn(admin, "messaging").mockReturnValue({
+      send,
+      sendEachForMulticast,
+    } as unknown as ReturnType<typeof admin.messaging>);
+    send.mockReset().mockResolvedValue("message-id");
+    sendEachForMulticast.mockReset().mockImplementation(async ({ tokens }) => ({
+      successCount: tokens.length,
+      failureCount: 0,
+    }));
+
+    repository = new InMemoryRepository();
+    preferencesService = new NotificationPreferencesService(repository);
+    service = new NotificationService(preferencesService);
+
+    for (const userId of ["ana", "bia"]) {
+      await repository.createUserProgress(userId);
+      repository.setUserFcmToken(userId, `token-${userId}`);
+    }
+  });
+
+  it("não envia para quem desativou a categoria do push", async () => {
+    await preferencesService.updatePreferences("ana", {
+      categories: { [NotificationCategory.ACHIEVEMENTS]: false },
+    });
+
+    const blocked = await service.sendPushNotification("token-ana", {
+      title: "Conquista",
+      body: "Nova conquista",
+      pushType: PushType.ACHIEVEMENT,
+    });
+    const allowed = await service.sendPushNotification("token-ana", {
+      title: "Hora de estudar",
+      body: "Revise seus cards",
+      pushType: PushType.STUDY_REMINDER,
+    });
+
+    expect(blocked).toBeNull();
+    expect(allowed).toBe("message-id");
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignora no broadcast os tokens de usuários silenciados", async () => {
+    await preferencesService.updatePreferences("bia", { muted: true });
+
+    const result = await service.sendBroadcastNotification(
+      ["token-ana", "token-bia"],
+      { title: "Novidade", body: "Novo modo", pushType: PushType.NEWS_GENERAL }
+    );
+
+    expect(result).toEqual({
+      successCount: 1,
+      failureCount: 0,
+      skippedCount: 1,
+    });
+    expect(sendEachForMulticast).toHaveBeenCalledWith(
+      expect.objectContaining({ tokens: ["token-ana"] })
+    );
+  });
+});
@@ -1,8 +1,12 @@
 import admin from "firebase-admin";
+import { NotificationCategory } from "../models/NotificationPreferences";
 import { logger } from "../utils/logger";
+import { NotificationPreferencesService } from "./notification-preferences.service";
 
 export enum PushType {
   GROUP_INVITE = 1,
+  FRIEND_REQUEST = 2,
+  FRIEND_ACCEPTED = 3,
   GROUP_REMOVE = 4,
   NEWS_GENERAL = 5,
   NEWS_UPDATE = 20,
@@ -10,6 +14,27 @@ export enum PushType {
   STUDY_REMINDER = 30,
 }
 
+/**
+ * Categoria de preferência de cada tipo de push
+ */
+export const PUSH_TYPE_CATEGORIES: Record<PushType, NotificationCategory> = {
+  [PushType.GROUP_INVITE]: NotificationCategory.SOCIAL,
+  [PushType.FRIEND_REQUEST]: NotificationCategory.SOCIAL,
+  [PushType.FRIEND_ACCEPTED]: NotificationCategory.SOCIAL,
+  [PushType.GROUP_REMOVE]: NotificationCategory.SOCIAL,
+  [PushType.NEWS_GENERAL]: NotificationCategory.NEWS,
+  [PushType.NEWS_UPDATE]: NotificationCategory.NEWS,
+  [PushType.ACHIEVEMENT]: NotificationCategory.ACHIEVEMENTS,
+  [PushType.STUDY_REMINDER]: NotificationCategory.REMINDERS,
+};
+
+/**
+ * Categoria do push type (null para códigos desconhecidos, ex: broadcast livre)
+ */
+export const getPushTypeCategory = (
+  pushType: PushType
+): NotificationCategory | null => PUSH_TYPE_CATEGORIES[pushType] ?? null;
+
 export interface NotificationPayload {
   title: string;
   body: string;
@@ -18,8 +43,14 @@ export interface NotificationPayload {
 }
 
 export class NotificationService {
+  constructor(
+    private readonly preferencesService: NotificationPreferencesService = new NotificationPreferencesService()
+  ) {}
+
   /**
    * Envia uma notificação push para um dispositivo específico via FCM.
+   * Respeita as preferências do dono do token (mute, categoria e horário de
+   * silêncio); retorna null quando o envio é bloqueado.
    *
    * @param fcmToken Token FCM do dispositivo do usuário
    * @param payload Dados da notificação (título, corpo, tipo, dados extras)
@@ -35,6 +66,27 @@ export class NotificationService {
 
     const { title, body, pushType, additionalData = {} } = payload;
 
+    try {
+      const blockReason = await this.preferencesService.getTokenBlockReason(
+        fcmToken,
+        getPushTypeCategory(pushType)
+      );
+
+      if (blockReason) {
+        logger.info("Notificação bloqueada pelas preferências do usuário", {
+          pushType,
+          reason: blockReason,
+        });
+        return null;
+      }
+    } catch (error) {
+      // Na dúvida, não envia
+      logger.error("Erro ao verificar preferências de notificação:", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+
     const message: admin.messaging.Message = {
       token: fcmToken,
       // 'notification' garante que apareça na bandeja do sistema quando o app está em background/terminado
@@ -88,14 +140,19 @@ export class NotificationService {
 
   /**
    * Envia uma notificação push para múltiplos dispositivos (Broadcast).
-   * Processa em lotes de 500 tokens (limite do FCM).
+   * Tokens de usuários que não aceitam a notificação agora são ignorados
+   * (skippedCount). Processa em lotes de 500 tokens (limite do FCM).
    */
   async sendBroadcastNotification(
     tokens: string[],
     payload: NotificationPayload
-  ): Promise<{ successCount: number; failureCount: number }> {
+  ): Promise<{
+    successCount: number;
+    failureCount: number;
+    skippedCount: number;
+  }> {
     if (!tokens.length) {
-      return { successCount: 0, failureCount: 0 };
+      return { successCount: 0, failureCount: 0, skippedCount: 0 };
     }
 
     const { title, body, pushType, additionalData = {} } = payload;
@@ -103,8 +160,21 @@ export class NotificationService {
     let successCount = 0;
     let failureCount = 0;
 
-    for (let i = 0; i < tokens.length; i += BATCH_SIZE) {
-      const batchTokens = tokens.slice(i, i + BATCH_SIZE);
+    const blockedTokens = await this.preferencesService.getBlockedTokens(
+      getPushTypeCategory(pushType)
+    );
+    const allowedTokens = tokens.filter((token) => !blockedTokens.has(token));
+    const skippedCount = tokens.length - allowedTokens.length;
+
+    if (skippedCount > 0) {
+      logger.info(
+        `${skippedCount} tokens ignorados no broadcast pelas preferências de notificação.`,
+        { pushType }
+      );
+    }
+
+    for (let i = 0; i < allowedTokens.length; i += BATCH_SIZE) {
+      const batchTokens = allowedTokens.slice(i, i + BATCH_SIZE);
 
       const message: admin.messaging.MulticastMessage = {
         tokens: batchTokens,
@@ -155,6 +225,6 @@ export class NotificationService {
       }
     }
 
-    return { successCount, failureCount };
+    return { successCount, failureCount, skippedCount };
   }
 }
@@ -0,0 +1,310 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { QUEST_TEMPLATES } from "../config/constants";
+import { QuestMetric, QuestPeriod, type QuestTemplate } from "../models/Quest";
+import { XPBoostOrigin } from "../models/XPBoost";
+import { XPSource } from "../models/XPTransaction";
+import { InMemoryRepository } from "../repositories";
+import { QuestService } from "./quest.service";
+import { XPService } from "./xp.service";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const userId = "user-1";
+// Quarta-feira, 12h UTC
+const now = new Date("2025-03-05T12:00:00Z");
+
+const templates: QuestTemplate[] = [
+  {
+    id: "review_3",
+    period: QuestPeriod.DAILY,
+    metric: QuestMetric.CARDS_REVIEWED,
+    target: 3,
+    xpReward: 30,
+    title: "Aquecimento",
+    description: "Revise 3 cards hoje",
+  },
+  {
+    id: "decks_2",
+    period: QuestPeriod.DAILY,
+    metric: QuestMetric.DECKS_STUDIED,
+    target: 2,
+    xpReward: 40,
+    title: "Variando os estudos",
+    description: "Estude 2 decks diferentes hoje",
+  },
+  {
+    id: "hard_2",
+    period: QuestPeriod.WEEKLY,
+    metric: QuestMetric.HARD_CARDS_REVIEWED,
+    target: 2,
+    xpReward: 50,
+    title: "Sem medo do difícil",
+    description: "Revise 2 cards difíceis nesta semana",
+  },
+];
+
+describe("QuestService", () => {
+  let repository: InMemoryRepository;
+  let service: QuestService;
+
+  beforeEach(async () => {
+    repository = new InMemoryRepository();
+    service = new QuestService(
+      repository,
+      new XPService(repository),
+      templates,
+      {
+        [QuestPeriod.DAILY]: 2,
+        [QuestPeriod.WEEKLY]: 1,
+      }
+    );
+
+    await repository.createUserProgress(userId);
+    await repository.setUserTimezone(userId, "UTC");
+  });
+
+  describe("getQuests", () => {
+    it("gera as missões do dia e da semana uma única vez", async () => {
+      const first = await service.getQuests(userId, now);
+      const second = await service.getQuests(userId, now);
+
+      expect(first).toMatchObject({
+        date: "2025-03-05",
+        weekStart: "2025-03-03",
+        dailyResetsOn: "2025-03-06",
+        weeklyResetsOn: "2025-03-10",
+      });
+      expect(first.daily.map((quest) => quest.id).sort()).toEqual([
+        "daily_2025-03-05_decks_2",
+        "daily_2025-03-05_review_3",
+      ]);
+      expect(first.weekly.map((quest) => quest.id)).toEqual([
+        "weekly_2025-03-03_hard_2",
+      ]);
+      expect(second.daily.map((quest) => quest.id).sort()).toEqual(
+        first.daily.map((quest) => quest.id).sort()
+      );
+    });
+
+    it("usa o fuso do usuário para o dia e a semana", async () => {
+      await repository.setUserTimezone(userId, "America/Sao_Paulo");
+
+      // Segunda-feira 01h UTC = domingo 22h em São Paulo
+      const quests = await service.getQuests(
+        userId,
+        new Date("2025-03-10T01:00:00Z")
+      );
+
+      expect(quests.date).toBe("2025-03-09");
+      expect(quests.weekStart).toBe("2025-03-03");
+    });
+
+    it("sorteia missões de métricas diferentes do pool padrão", async () => {
+      const defaultService = new QuestService(repository);
+
+      const quests = await defaultService.getQuests(userId, now);
+
+      for (const period of [quests.daily, quests.weekly]) {
+        expect(period).toHaveLength(3);
+        expect(new Set(period.map((quest) => quest.metric)).size).toBe(3);
+        expect(
+          period.every((quest) =>
+            QUEST_TEMPLATES.some((template) => template.id === quest.templateId)
+          )
+        ).toBe(true);
+      }
+    });
+  });
+
+  describe("trackProgress", () => {
+    it("soma o progresso e retorna as missões concluídas pelo evento", async () => {
+      const first = await service.trackProgress(
+        userId,
+        {
+          increments: {
+            [QuestMetric.CARDS_REVIEWED]: 2,
+            [QuestMetric.HARD_CARDS_REVIEWED]: 1,
+          },
+          deckIds: ["deck-1"],
+        },
+        now
+      );
+      const second = await service.trackProgress(
+        userId,
+        {
+          increments: {
+            [QuestMetric.CARDS_REVIEWED]: 5,
+            [QuestMetric.HARD_CARDS_REVIEWED]: 0,
+          },
+          deckIds: ["deck-1"],
+        },
+        now
+      );
+      const third = await service.trackProgress(
+        userId,
+        {
+          increments: { [QuestMetric.CARDS_REVIEWED]: 1 },
+          deckIds: ["deck-2"],
+        },
+        now
+      );
+
+      expect(first).toEqual([]);
+      expect(second.map((quest) => quest.templateId)).toEqual(["review_3"]);
+      expect(third.map((quest) => quest.templateId)).toEqual(["decks_2"]);
+
+      const quests = await service.getQuests(userId, now);
+      const progress = Object.fromEntries(
+        [...quests.daily, ...quests.weekly].map((quest) => [
+          quest.templateId,
+          quest.progress,
+        ])
+      );
+      expect(progress).toEqual({ review_3: 3, decks_2: 2, hard_2: 1 });
+    });
+
+    it("ignora eventos de outros períodos", async () => {
+      await service.trackProgress(
+        userId,
+        {
+          date: "2025-03-04",
+          increments: {
+            [QuestMetric.CARDS_REVIEWED]: 3,
+            [QuestMetric.HARD_CARDS_REVIEWED]: 1,
+          },
+        },
+        now
+      );
+      await service.trackProgress(
+        userId,
+        {
+          date: "2025-03-02",
+          increments: { [QuestMetric.HARD_CARDS_REVIEWED]: 1 },
+        },
+        now
+      );
+
+      const quests = await service.getQuests(userId, now);
+
+      expect(quests.daily.every((quest) => quest.progress === 0)).toBe(true);
+      // 2025-03-04 está na semana atual; 2025-03-02 (domingo) não
+      expect(quests.weekly[0]?.progress).toBe(1);
+    });
+  });
+
+  describe("claimQuest", () => {
+    it("concede o XP da missão concluída uma única vez", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+
+      try {
+        await service.trackProgress(userId, {
+          increments: { [QuestMetric.CARDS_REVIEWED]: 3 },
+        });
+
+        const result = await service.claimQuest(
+          userId,
+          "daily_2025-03-05_review_3"
+        );
+
+        expect(result.xpGained).toBe(30);
+        expect(result.quest.claimedAt).not.toBeNull();
+        expect((await repository.getUserProgress(userId)).totalXP).toBe(30);
+        expect(await repository.getUserXPTransactions(userId, 10)).toEqual([
+          expect.objectContaining({
+            amount: 30,
+            source: XPSource.QUEST,
+            sourceId: "daily_2025-03-05_review_3",
+          }),
+        ]);
+
+        await expect(
+          service.claimQuest(userId, "daily_2025-03-05_review_3")
+        ).rejects.toMatchObject({ statusCode: 409 });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("retorna o XP com o boost ativo aplicado", async () => {
+      await repository.saveXPBoost({
+        id: "weekend",
+        name: "XP em dobro",
+        multiplier: 2,
+        startsAt: new Date("2025-03-05T00:00:00Z"),
+        endsAt: new Date("2025-03-06T00:00:00Z"),
+        origin: XPBoostOrigin.EVENT,
+        createdBy: "admin-token",
+        createdAt: new Date("2025-03-01T00:00:00Z"),
+      });
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+
+      try {
+        await service.trackProgress(userId, {
+          increments: { [QuestMetric.CARDS_REVIEWED]: 3 },
+        });
+
+        const result = await service.claimQuest(
+          userId,
+          "daily_2025-03-05_review_3"
+        );
+
+        expect(result.xpGained).toBe(60);
+        expect((await repository.getUserProgress(userId)).totalXP).toBe(60);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("desfaz o resgate quando o XP falha", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+
+      try {
+        await service.trackProgress(userId, {
+          increments: { [QuestMetric.CARDS_REVIEWED]: 3 },
+        });
+        vi.spyOn(XPService.prototype, "addXP").mockRejectedValueOnce(
+          new Error("Firestore indisponível")
+        );
+
+        await expect(
+          service.claimQuest(userId, "daily_2025-03-05_review_3")
+        ).rejects.toThrow("Firestore indisponível");
+        expect(
+          (await repository.getUserQuest(userId, "daily_2025-03-05_review_3"))
+            ?.claimedAt
+        ).toBeNull();
+
+        const result = await service.claimQuest(
+          userId,
+          "daily_2025-03-05_review_3"
+        );
+
+        expect(result.xpGained).toBe(30);
+        expect((await repository.getUserProgress(userId)).totalXP).toBe(30);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("rejeita missões não concluídas ou inexistentes", async () => {
+      await service.getQuests(userId, now);
+
+      await expect(
+        service.claimQuest(userId, "daily_2025-03-05_decks_2")
+      ).rejects.toMatchObject({ statusCode: 409 });
+      await expect(service.claimQuest(userId, "missing")).rejects.toMatchObject(
+        { statusCode: 404 }
+      );
+    });
+  });
+});
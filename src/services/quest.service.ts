@@ -0,0 +1,280 @@
+import { createHash } from "crypto";
+import { QUEST_CONFIG, QUEST_TEMPLATES } from "../config/constants";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  getUserQuestId,
+  QuestMetric,
+  QuestPeriod,
+  type QuestProgressEvent,
+  type QuestTemplate,
+  type UserQuest,
+} from "../models/Quest";
+import { XPSource } from "../models/XPTransaction";
+import { getRepository, type GamificationRepository } from "../repositories";
+import {
+  addDaysToDateString,
+  getDateStringInTimeZone,
+  getWeekStartDateString,
+} from "../utils/timezone";
+import { XPService, type XPResult } from "./xp.service";
+
+export interface UserQuests {
+  // Períodos atuais no fuso do usuário
+  date: string;
+  weekStart: string;
+  // Primeiro dia após o período (quando as missões são trocadas)
+  dailyResetsOn: string;
+  weeklyResetsOn: string;
+  daily: UserQuest[];
+  weekly: UserQuest[];
+}
+
+export interface QuestClaimResult {
+  quest: UserQuest;
+  xpGained: number;
+  // null quando a missão não concede XP
+  xpResult: XPResult | null;
+}
+
+/**
+ * Missões diárias e semanais ("revise 50 cards difíceis", "estude 3 decks
+ * hoje"), sorteadas por usuário a partir de QUEST_TEMPLATES.
+ *
+ * As missões de um período são geradas na primeira consulta ou evento do
+ * período, no fuso do usuário. Eventos de outros períodos não contam.
+ * A recompensa é concedida no resgate (claimQuest).
+ */
+export class QuestService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository(),
+    private readonly xpService: XPService = new XPService(),
+    private readonly templates: readonly QuestTemplate[] = QUEST_TEMPLATES,
+    private readonly questsPerPeriod: Record<QuestPeriod, number> = {
+      [QuestPeriod.DAILY]: QUEST_CONFIG.DAILY_QUESTS,
+      [QuestPeriod.WEEKLY]: QUEST_CONFIG.WEEKLY_QUESTS,
+    }
+  ) {}
+
+  /**
+   * Missões atuais do usuário (gera as do período, se ainda não existirem)
+   */
+  async getQuests(userId: string, now: Date = new Date()): Promise<UserQuests> {
+    const { date, weekStart } = await this.getCurrentPeriods(userId, now);
+    const quests = await this.ensureQuests(userId, date, weekStart);
+
+    return {
+      date,
+      weekStart,
+      dailyResetsOn: addDaysToDateString(date, 1),
+      weeklyResetsOn: addDaysToDateString(weekStart, 7),
+      daily: quests.filter((quest) => quest.period === QuestPeriod.DAILY),
+      weekly: quests.filter((quest) => quest.period === QuestPeriod.WEEKLY),
+    };
+  }
+
+  /**
+   * Soma o evento às missões em andamento do período do evento
+   * @returns Missões concluídas por este evento
+   */
+  async trackProgress(
+    userId: string,
+    event: QuestProgressEvent,
+    now: Date = new Date()
+  ): Promise<UserQuest[]> {
+    const { date, weekStart } = await this.getCurrentPeriods(userId, now);
+    const quests = (await this.ensureQuests(userId, date, weekStart)).filter(
+      (quest) =>
+        quest.completedAt === null && this.covers(quest, event.date ?? date)
+    );
+    const deckIds = event.deckIds ?? [];
+    const completed: UserQuest[] = [];
+
+    for (const quest of quests) {
+      const amount =
+        quest.metric === QuestMetric.DECKS_STUDIED
+          ? deckIds.length
+          : (event.increments[quest.metric] ?? 0);
+
+      if (amount <= 0) {
+        continue;
+      }
+
+      const result = await this.firestore.updateQuestProgress(
+        userId,
+        quest.id,
+        amount,
+        deckIds
+      );
+
+      if (result?.isNewCompletion) {
+        completed.push(result.quest);
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Resgata a recompensa de uma missão concluída
+   */
+  async claimQuest(userId: string, questId: string): Promise<QuestClaimResult> {
+    const quest = await this.firestore.getUserQuest(userId, questId);
+
+    if (!quest) {
+      throw new AppError(`Missão "${questId}" não encontrada.`, 404);
+    }
+
+    if (quest.completedAt === null) {
+      throw new AppError(`A missão "${questId}" ainda não foi concluída.`, 409);
+    }
+
+    const result = await this.firestore.claimQuestReward(userId, questId);
+
+    // Já resgatada (inclusive por outra requisição entre a leitura e a transação)
+    if (!result?.isNewClaim) {
+      throw new AppError(
+        `A recompensa da missão "${questId}" já foi resgatada.`,
+        409
+      );
+    }
+
+    const xpResult =
+      quest.xpReward > 0
+        ? await this.xpService
+            .addXP(userId, quest.xpReward, XPSource.QUEST, questId, {
+              description: `XP por missão: ${quest.title}`,
+            })
+            .catch(async (error: unknown) => {
+              // XP não concedido: a missão pode ser resgatada novamente
+              await this.firestore.releaseQuestRewardClaim(userId, questId);
+              throw error;
+            })
+        : null;
+
+    return {
+      quest: result.quest,
+      xpGained: xpResult?.xpGained ?? 0,
+      xpResult,
+    };
+  }
+
+  // ========== HELPER METHODS ==========
+
+  private async getCurrentPeriods(
+    userId: string,
+    now: Date
+  ): Promise<{ date: string; weekStart: string }> {
+    const timezone = await this.firestore.getUserTimezone(userId);
+    const date = getDateStringInTimeZone(now, timezone);
+
+    return { date, weekStart: getWeekStartDateString(date) };
+  }
+
+  /**
+   * Missões dos períodos atuais. Períodos sem missões recebem um novo sorteio.
+   */
+  private async ensureQuests(
+    userId: string,
+    date: string,
+    weekStart: string
+  ): Promise<UserQuest[]> {
+    const periodKeys = {
+      [QuestPeriod.DAILY]: date,
+      [QuestPeriod.WEEKLY]: weekStart,
+    };
+    // Na segunda-feira os dois períodos têm a mesma chave
+    const existing = (
+      await this.firestore.getUserQuests(userId, [
+        ...new Set(Object.values(periodKeys)),
+      ])
+    ).filter((quest) => quest.periodKey === periodKeys[quest.period]);
+
+    const missing = Object.values(QuestPeriod)
+      .filter((period) => !existing.some((quest) => quest.period === period))
+      .flatMap((period) =>
+        this.pickTemplates(userId, period, periodKeys[period]).map((template) =>
+          this.createQuest(userId, template, periodKeys[period])
+        )
+      );
+
+    if (!missing.length) {
+      return existing;
+    }
+
+    return [
+      ...existing,
+      ...(await this.firestore.createUserQuests(userId, missing)),
+    ];
+  }
+
+  /**
+   * Sorteio determinístico por usuário e período: uma métrica por missão
+   * enquanto houver modelos de métricas diferentes
+   */
+  private pickTemplates(
+    userId: string,
+    period: QuestPeriod,
+    periodKey: string
+  ): QuestTemplate[] {
+    const count = this.questsPerPeriod[period];
+    const ranked = this.templates
+      .filter((template) => template.period === period)
+      .map((template) => ({
+        template,
+        rank: createHash("sha256")
+          .update(`${userId}:${periodKey}:${template.id}`)
+          .digest("hex"),
+      }))
+      .sort((a, b) => a.rank.localeCompare(b.rank))
+      .map(({ template }) => template);
+
+    const picked: QuestTemplate[] = [];
+
+    for (const template of ranked) {
+      if (
+        picked.length < count &&
+        !picked.some((quest) => quest.metric === template.metric)
+      ) {
+        picked.push(template);
+      }
+    }
+
+    for (const template of ranked) {
+      if (picked.length < count && !picked.includes(template)) {
+        picked.push(template);
+      }
+    }
+
+    return picked;
+  }
+
+  private createQuest(
+    userId: string,
+    template: QuestTemplate,
+    periodKey: string
+  ): UserQuest {
+    return {
+      id: getUserQuestId(template.period, periodKey, template.id),
+      userId,
+      templateId: template.id,
+      period: template.period,
+      periodKey,
+      metric: template.metric,
+      title: template.title,
+      description: template.description,
+      target: template.target,
+      progress: 0,
+      xpReward: template.xpReward,
+      deckIds: [],
+      completedAt: null,
+      claimedAt: null,
+      createdAt: new Date(),
+    };
+  }
+
+  private covers(quest: UserQuest, date: string): boolean {
+    return quest.period === QuestPeriod.DAILY
+      ? quest.periodKey === date
+      : quest.periodKey === getWeekStartDateString(date);
+  }
+}
@@ -0,0 +1,270 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Ranking } from "../models/Ranking";
+import { XPSource, type XPTransaction } from "../models/XPTransaction";
+import type { FirestoreService } from "./firestore.service";
+import { RankingService } from "./ranking.service";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const createTransaction = (
+  userId: string,
+  amount: number,
+  source: XPSource = XPSource.REVIEW
+): XPTransaction => ({
+  id: `${userId}-${amount}-${Math.random()}`,
+  userId,
+  amount,
+  source,
+  sourceId: "source-1",
+  description: "",
+  timestamp: new Date(2025, 10, 10),
+});
+
+describe("RankingService", () => {
+  let service: RankingService;
+  let mockFirestore: FirestoreService;
+
+  beforeEach(() => {
+    mockFirestore = {
+      getXPTransactionsByPeriod: vi.fn(),
+      getRankingSnapshot: vi.fn(),
+      saveRankingSnapshot: vi.fn(),
+    } as unknown as FirestoreService;
+
+    service = new RankingService(mockFirestore);
+  });
+
+  describe("updateRanking", () => {
+    it("deve agregar XP por usuário e ordenar de forma decrescente", async () => {
+      vi.mocked(mockFirestore.getXPTransactionsByPeriod).mockResolvedValue([
+        createTransaction("user-a", 15),
+        createTransaction("user-b", 20),
+        createTransaction("user-a", 25, XPSource.CARD_CREATION),
+        createTransaction("user-c", 5),
+      ]);
+
+      const ranking = await service.updateRanking("monthly", "2025-11");
+
+      expect(ranking.id).toBe("monthly_2025-11");
+      expect(ranking.totalParticipants).toBe(3);
+      expect(
+        ranking.entries.map((e) => [e.userId, e.rank, e.xpEarned])
+      ).toEqual([
+        ["user-a", 1, 40],
+        ["user-b", 2, 20],
+        ["user-c", 3, 5],
+      ]);
+      expect(ranking.entries[0]?.cardsReviewed).toBe(1);
+      expect(mockFirestore.saveRankingSnapshot).toHaveBeenCalledWith(ranking);
+    });
+
+    it("deve atribuir a mesma posição para empates", async () => {
+      vi.mocked(mockFirestore.getXPTransactionsByPeriod).mockResolvedValue([
+        createTransaction("user-a", 50),
+        createTransaction("user-b", 30),
+        createTransaction("user-c", 30),
+        createTransaction("user-d", 10),
+      ]);
+
+      const ranking = await service.updateRanking("yearly", "2025");
+
+      expect(ranking.entries.map((e) => e.rank)).toEqual([1, 2, 2, 4]);
+    });
+
+    it("deve consultar as transações dentro dos limites do mês", async () => {
+      vi.mocked(mockFirestore.getXPTransactionsByPeriod).mockResolvedValue([]);
+
+      await service.updateRanking("monthly", "2025-02");
+
+      expect(mockFirestore.getXPTransactionsByPeriod).toHaveBeenCalledWith(
+        new Date(2025, 1, 1, 0, 0, 0, 0),
+        new Date(2025, 1, 28, 23, 59, 59, 999)
+      );
+    });
+
+    it("não deve salvar o snapshot quando a consulta das transações falha", async () => {
+      vi.mocked(mockFirestore.getXPTransactionsByPeriod).mockRejectedValue(
+        new Error("índice ausente")
+      );
+
+      await expect(service.updateRanking("monthly", "2025-11")).rejects.toThrow(
+        "índice ausente"
+      );
+      expect(mockFirestore.saveRankingSnapshot).not.toHaveBeenCalled();
+    });
+
+    it("deve rejeitar período em formato inválido", async () => {
+      await expect(service.updateRanking("monthly", "2025-13")).rejects.toThrow(
+        /Período mensal inválido/
+      );
+    });
+  });
+
+  describe("getRanking", () => {
+    it("deve usar o snapshot quando ainda está válido", async () => {
+      const snapshot: Ranking = {
+        id: "monthly_2025-11",
+        period: "monthly",
+        periodKey: "2025-11",
+        entries: [],
+        totalParticipants: 0,
+        // Calculado após o fim do período: nunca expira
+        lastUpdated: new Date(2025, 11, 1, 0, 5),
+      };
+      vi.mocked(mockFirestore.getRankingSnapshot).mockResolvedValue(snapshot);
+
+      const result = await service.getRanking("monthly", "2025-11");
+
+      expect(result).toBe(snapshot);
+      expect(mockFirestore.getXPTransactionsByPeriod).not.toHaveBeenCalled();
+    });
+
+    it("não recalcula na leitura quando o snapshot do período atual está antigo", async () => {
+      const periodKey = service.getCurrentPeriodKey("monthly");
+      const snapshot: Ranking = {
+        id: `monthly_${periodKey}`,
+        period: "monthly",
+        periodKey,
+        entries: [],
+        totalParticipants: 0,
+        lastUpdated: new Date(Date.now() - 60 * 60 * 1000),
+      };
+      vi.mocked(mockFirestore.getRankingSnapshot).mockResolvedValue(snapshot);
+
+      const result = await service.getRanking("monthly");
+
+      expect(result).toBe(snapshot);
+      expect(mockFirestore.getXPTransactionsByPeriod).not.toHaveBeenCalled();
+    });
+
+    it("deve retornar ranking vazio sem recalcular quando não existe snapshot", async () => {
+      vi.mocked(mockFirestore.getRankingSnapshot).mockResolvedValue(null);
+
+      const result = await service.getRanking("yearly", "2024");
+
+      expect(result).toMatchObject({
+        id: "yearly_2024",
+        entries: [],
+        totalParticipants: 0,
+      });
+      expect(mockFirestore.getXPTransactionsByPeriod).not.toHaveBeenCalled();
+      expect(mockFirestore.saveRankingSnapshot).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("finalizePreviousRanking", () => {
+    const now = new Date(2025, 11, 1, 0, 10);
+
+    it("deve recalcular o mês anterior quando o snapshot é de antes da virada", async () => {
+      vi.mocked(mockFirestore.getRankingSnapshot).mockResolvedValue({
+        id: "monthly_2025-11",
+        period: "monthly",
+        periodKey: "2025-11",
+        entries: [],
+        totalParticipants: 0,
+        lastUpdated: new Date(2025, 10, 30, 23, 50),
+      });
+      vi.mocked(mockFirestore.getXPTransactionsByPeriod).mockResolvedValue([
+        createTransaction("user-a", 10),
+      ]);
+
+      const result = await service.finalizePreviousRanking("monthly", now);
+
+      expect(result?.id).toBe("monthly_2025-11");
+      expect(result?.totalParticipants).toBe(1);
+      expect(mockFirestore.saveRankingSnapshot).toHaveBeenCalledTimes(1);
+    });
+
+    it("não recalcula quando o snapshot já é definitivo", async () => {
+      vi.mocked(mockFirestore.getRankingSnapshot).mockResolvedValue({
+        id: "yearly_2024",
+        period: "yearly",
+        periodKey: "2024",
+        entries: [],
+        totalParticipants: 0,
+        lastUpdated: new Date(2025, 0, 1, 0, 15),
+      });
+
+      const result = await service.finalizePreviousRanking("yearly", now);
+
+      expect(result).toBeNull();
+      expect(mockFirestore.getRankingSnapshot).toHaveBeenCalledWith(
+        "yearly_2024"
+      );
+      expect(mockFirestore.getXPTransactionsByPeriod).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getUserRankPosition", () => {
+    beforeEach(async () => {
+      vi.mocked(mockFirestore.getXPTransactionsByPeriod).mockResolvedValue([
+        createTransaction("user-a", 100),
+        createTransaction("user-b", 80),
+        createTransaction("user-c", 60),
+        createTransaction("user-d", 40),
+        createTransaction("user-e", 20),
+        createTransaction("user-f", 10),
+      ]);
+      vi.mocked(mockFirestore.getRankingSnapshot).mockResolvedValue(
+        await service.updateRanking("monthly", "2025-11")
+      );
+    });
+
+    it("deve retornar a posição e os vizinhos do usuário", async () => {
+      const result = await service.getUserRankPosition(
+        "user-c",
+        "monthly",
+        "2025-11"
+      );
+
+      expect(result.position).toBe(3);
+      expect(result.entry?.xpEarned).toBe(60);
+      expect(result.neighbors.above.map((e) => e.userId)).toEqual([
+        "user-a",
+        "user-b",
+      ]);
+      expect(result.neighbors.below.map((e) => e.userId)).toEqual([
+        "user-d",
+        "user-e",
+      ]);
+      expect(result.totalParticipants).toBe(6);
+    });
+
+    it("deve retornar posição nula para usuário fora do ranking", async () => {
+      const result = await service.getUserRankPosition(
+        "user-z",
+        "monthly",
+        "2025-11"
+      );
+
+      expect(result.position).toBeNull();
+      expect(result.entry).toBeNull();
+      expect(result.neighbors.above).toEqual([]);
+    });
+  });
+
+  describe("getRankingPage", () => {
+    it("deve paginar as entradas e indicar se há mais", async () => {
+      vi.mocked(mockFirestore.getXPTransactionsByPeriod).mockResolvedValue([
+        createTransaction("user-a", 30),
+        createTransaction("user-b", 20),
+        createTransaction("user-c", 10),
+      ]);
+      vi.mocked(mockFirestore.getRankingSnapshot).mockResolvedValue(
+        await service.updateRanking("monthly", "2025-11")
+      );
+
+      const page = await service.getRankingPage("monthly", "2025-11", 2, 0);
+
+      expect(page.entries).toHaveLength(2);
+      expect(page.hasMore).toBe(true);
+    });
+  });
+});
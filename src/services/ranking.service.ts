@@ -0,0 +1,298 @@
+import { RANKING_CONFIG } from "../config/constants";
+import {
+  assignRanks,
+  buildRankingId,
+  isValidRankingPeriodKey,
+  type Ranking,
+  type RankingEntry,
+  type RankingPeriod,
+  type UserRankPosition,
+} from "../models/Ranking";
+import { countsAsEarnedXP, XPSource } from "../models/XPTransaction";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { toDate } from "../utils/date";
+import { logger } from "../utils/logger";
+
+export interface RankingPage {
+  ranking: Ranking;
+  entries: RankingEntry[];
+  hasMore: boolean;
+}
+
+export class RankingService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository()
+  ) {}
+
+  /**
+   * Retorna o snapshot salvo do ranking de um período. Leituras nunca
+   * recalculam o ranking: os snapshots são mantidos pelo job
+   * update-rankings, e um período ainda não calculado volta vazio.
+   * @param period "monthly" ou "yearly"
+   * @param periodKey YYYY-MM (mensal) ou YYYY (anual). Padrão: período atual
+   */
+  async getRanking(
+    period: RankingPeriod,
+    periodKey?: string
+  ): Promise<Ranking> {
+    const key = periodKey ?? this.getCurrentPeriodKey(period);
+    this.assertValidPeriodKey(period, key);
+
+    const id = buildRankingId(period, key);
+    const snapshot = await this.firestore.getRankingSnapshot(id);
+
+    return (
+      snapshot ?? {
+        id,
+        period,
+        periodKey: key,
+        entries: [],
+        totalParticipants: 0,
+        lastUpdated: new Date(0),
+      }
+    );
+  }
+
+  /**
+   * Retorna uma página do ranking
+   * @param limit Quantidade de entradas (1-100)
+   * @param offset Quantidade de entradas a pular
+   */
+  async getRankingPage(
+    period: RankingPeriod,
+    periodKey?: string,
+    limit: number = RANKING_CONFIG.DEFAULT_LIMIT,
+    offset = 0
+  ): Promise<RankingPage> {
+    const ranking = await this.getRanking(period, periodKey);
+    const safeLimit = Math.max(
+      1,
+      Math.min(RANKING_CONFIG.MAX_LIMIT, Math.floor(limit))
+    );
+    const safeOffset = Math.max(0, Math.floor(offset));
+    const entries = ranking.entries.slice(safeOffset, safeOffset + safeLimit);
+
+    return {
+      ranking,
+      entries,
+      hasMore: safeOffset + entries.length < ranking.entries.length,
+    };
+  }
+
+  /**
+   * Recalcula o ranking de um período agregando as transações de XP
+   * e salva o snapshot resultante
+   */
+  async updateRanking(
+    period: RankingPeriod,
+    periodKey?: string
+  ): Promise<Ranking> {
+    const key = periodKey ?? this.getCurrentPeriodKey(period);
+    this.assertValidPeriodKey(period, key);
+
+    const { start, end } = this.getPeriodBounds(period, key);
+    const transactions = await this.firestore.getXPTransactionsByPeriod(
+      start,
+      end
+    );
+
+    const totals = new Map<string, Omit<RankingEntry, "rank">>();
+
+    for (const transaction of transactions) {
+      if (!transaction.userId || !countsAsEarnedXP(transaction)) {
+        continue;
+      }
+
+      const current = totals.get(transaction.userId) ?? {
+        userId: transaction.userId,
+        xpEarned: 0,
+        cardsReviewed: 0,
+        transactions: 0,
+      };
+
+      current.xpEarned += transaction.amount;
+      current.transactions += 1;
+
+      if (transaction.source === XPSource.REVIEW) {
+        current.cardsReviewed += 1;
+      }
+
+      totals.set(transaction.userId, current);
+    }
+
+    // Usuários com saldo zero ou negativo no período não participam
+    const entries = assignRanks(
+      [...totals.values()].filter((entry) => entry.xpEarned > 0)
+    );
+
+    const ranking: Ranking = {
+      id: buildRankingId(period, key),
+      period,
+      periodKey: key,
+      entries,
+      totalParticipants: entries.length,
+      lastUpdated: new Date(),
+    };
+
+    await this.firestore.saveRankingSnapshot(ranking);
+
+    logger.info("[RankingService] Ranking atualizado", {
+      rankingId: ranking.id,
+      totalParticipants: ranking.totalParticipants,
+      transactionsScanned: transactions.length,
+    });
+
+    return ranking;
+  }
+
+  /**
+   * Recalcula o ranking mensal
+   * @param date Mês no formato YYYY-MM (padrão: mês atual)
+   */
+  async updateMonthlyRanking(date?: string): Promise<Ranking> {
+    return this.updateRanking("monthly", date);
+  }
+
+  /**
+   * Recalcula o ranking anual
+   * @param year Ano no formato YYYY (padrão: ano atual)
+   */
+  async updateYearlyRanking(year?: string): Promise<Ranking> {
+    return this.updateRanking("yearly", year);
+  }
+
+  /**
+   * Recalcula o ranking do período anterior ao atual enquanto o snapshot
+   * dele não tiver sido calculado depois do fim do período (ex: a última
+   * execução do job no mês ocorreu antes da virada)
+   * @returns Ranking recalculado ou null se o snapshot já era definitivo
+   */
+  async finalizePreviousRanking(
+    period: RankingPeriod,
+    now: Date = new Date()
+  ): Promise<Ranking | null> {
+    const key = this.getPreviousPeriodKey(period, now);
+    const snapshot = await this.firestore.getRankingSnapshot(
+      buildRankingId(period, key)
+    );
+
+    if (snapshot && this.isSnapshotFinal(snapshot)) {
+      return null;
+    }
+
+    return this.updateRanking(period, key);
+  }
+
+  /**
+   * Retorna a posição do usuário no ranking e os vizinhos imediatos
+   */
+  async getUserRankPosition(
+    userId: string,
+    period: RankingPeriod,
+    periodKey?: string
+  ): Promise<UserRankPosition> {
+    if (!userId?.trim()) {
+      throw new Error("ID do usuário é obrigatório.");
+    }
+
+    const ranking = await this.getRanking(period, periodKey);
+    const index = ranking.entries.findIndex((entry) => entry.userId === userId);
+    const entry = index >= 0 ? (ranking.entries[index] ?? null) : null;
+
+    return {
+      userId,
+      period: ranking.period,
+      periodKey: ranking.periodKey,
+      position: entry?.rank ?? null,
+      entry,
+      neighbors: {
+        above:
+          index >= 0
+            ? ranking.entries.slice(
+                Math.max(0, index - RANKING_CONFIG.NEIGHBORS),
+                index
+              )
+            : [],
+        below:
+          index >= 0
+            ? ranking.entries.slice(
+                index + 1,
+                index + 1 + RANKING_CONFIG.NEIGHBORS
+              )
+            : [],
+      },
+      totalParticipants: ranking.totalParticipants,
+      lastUpdated: ranking.lastUpdated,
+    };
+  }
+
+  /**
+   * Retorna a chave do período atual (YYYY-MM ou YYYY)
+   */
+  getCurrentPeriodKey(period: RankingPeriod, now: Date = new Date()): string {
+    const year = String(now.getFullYear());
+
+    if (period === "yearly") {
+      return year;
+    }
+
+    const month = String(now.getMonth() + 1).padStart(2, "0");
+    return `${year}-${month}`;
+  }
+
+  /**
+   * Retorna a chave do período anterior ao atual (mês ou ano anterior)
+   */
+  getPreviousPeriodKey(period: RankingPeriod, now: Date = new Date()): string {
+    return period === "yearly"
+      ? this.getCurrentPeriodKey(period, new Date(now.getFullYear() - 1, 0, 1))
+      : this.getCurrentPeriodKey(
+          period,
+          new Date(now.getFullYear(), now.getMonth() - 1, 1)
+        );
+  }
+
+  /**
+   * Retorna o intervalo [início, fim] de um período
+   */
+  getPeriodBounds(
+    period: RankingPeriod,
+    periodKey: string
+  ): { start: Date; end: Date } {
+    const [yearPart = "1970", monthPart] = periodKey.split("-");
+    const year = Number(yearPart);
+
+    if (period === "yearly") {
+      return {
+        start: new Date(year, 0, 1, 0, 0, 0, 0),
+        end: new Date(year, 11, 31, 23, 59, 59, 999),
+      };
+    }
+
+    const month = Number(monthPart ?? 1);
+    return {
+      start: new Date(year, month - 1, 1, 0, 0, 0, 0),
+      end: new Date(year, month, 0, 23, 59, 59, 999),
+    };
+  }
+
+  // ========== HELPER METHODS ==========
+
+  /**
+   * Um snapshot é definitivo se foi calculado depois do fim do período
+   */
+  private isSnapshotFinal(ranking: Ranking): boolean {
+    const { end } = this.getPeriodBounds(ranking.period, ranking.periodKey);
+    return toDate(ranking.lastUpdated).getTime() > end.getTime();
+  }
+
+  private assertValidPeriodKey(period: RankingPeriod, periodKey: string): void {
+    if (!isValidRankingPeriodKey(period, periodKey)) {
+      throw new Error(
+        period === "monthly"
+          ? `Período mensal inválido: "${periodKey}". Use o formato YYYY-MM.`
+          : `Ano inválido: "${periodKey}". Use o formato YYYY.`
+      );
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ReminderType } from "../models/Reminder";
+import {
+  createEmptyDifficultyBreakdown,
+  type StudySession,
+} from "../models/StudySession";
+import { InMemoryRepository } from "../repositories";
+import { PushType, type NotificationService } from "./notification.service";
+import { ReminderService } from "./reminder.service";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const userId = "user-1";
+const at = (iso: string) => new Date(iso);
+
+const session = (id: string, timestamp: string): StudySession => ({
+  id,
+  userId,
+  deckId: null,
+  sessionDurationMinutes: 10,
+  cardsReviewed: 10,
+  accuracyCount: 8,
+  totalAnswers: 10,
+  studyTime: "morning",
+  difficultyBreakdown: createEmptyDifficultyBreakdown(),
+  timestamp: at(timestamp),
+});
+
+describe("ReminderService", () => {
+  let repository: InMemoryRepository;
+  let notificationService: NotificationService;
+  let service: ReminderService;
+
+  beforeEach(async () => {
+    repository = new InMemoryRepository();
+    notificationService = {
+      sendPushNotification: vi.fn().mockResolvedValue("message-id"),
+    } as unknown as NotificationService;
+    service = new ReminderService(repository, notificationService, {
+      historyDays: 14,
+      defaultStudyHour: 19,
+      streakAtRiskHour: 20,
+      maxPerWeek: 3,
+      minHoursBetween: 3,
+    });
+
+    await repository.createUserProgress(userId);
+    await repository.setUserTimezone(userId, "UTC");
+    repository.setUserFcmToken(userId, "token-1");
+
+    // Estuda quase sempre às 8h
+    for (const [id, timestamp] of [
+      ["s1", "2025-03-01T08:10:00Z"],
+      ["s2", "2025-03-02T08:40:00Z"],
+      ["s3", "2025-03-03T21:00:00Z"],
+    ] as const) {
+      await repository.saveStudySession(session(id, timestamp));
+    }
+  });
+
+  it("descobre a hora habitual de estudo pelas sessões recentes", async () => {
+    expect(
+      await service.getHabitualStudyHour(
+        userId,
+        "UTC",
+        at("2025-03-05T12:00:00Z")
+      )
+    ).toBe(8);
+    expect(
+      await service.getHabitualStudyHour(
+        userId,
+        "America/Sao_Paulo",
+        at("2025-03-05T12:00:00Z")
+      )
+    ).toBe(5);
+    // Sessões fora da janela de 14 dias são ignoradas
+    expect(
+      await service.getHabitualStudyHour(
+        userId,
+        "UTC",
+        at("2025-04-01T12:00:00Z")
+      )
+    ).toBe(19);
+  });
+
+  it("lembra na hora habitual quando a meta do dia não foi batida", async () => {
+    const decision = await service.processUserReminder(
+      userId,
+      "UTC",
+      at("2025-03-05T08:30:00Z")
+    );
+
+    expect(decision).toEqual({ sent: true, type: ReminderType.STUDY });
+    expect(notificationService.sendPushNotification).toHaveBeenCalledWith(
+      "token-1",
+      expect.objectContaining({
+        pushType: PushType.STUDY_REMINDER,
+        additionalData: { type: ReminderType.STUDY },
+      })
+    );
+    expect(
+      await service.processUserReminder(
+        userId,
+        "UTC",
+        at("2025-03-05T09:30:00Z")
+      )
+    ).toEqual({ sent: false, reason: "not_due" });
+  });
+
+  it("não lembra quem já bateu a meta do dia", async () => {
+    await repository.updateDailyProgress(userId, "2025-03-05", {
+      cardsReviewed: 25,
+      goalMet: true,
+    });
+
+    expect(
+      await service.processUserReminder(
+        userId,
+        "UTC",
+        at("2025-03-05T08:30:00Z")
+      )
+    ).toEqual({ sent: false, reason: "goal_met" });
+    expect(notificationService.sendPushNotification).not.toHaveBeenCalled();
+  });
+
+  it("avisa à noite quando o streak está em risco", async () => {
+    await repository.updateStreak(userId, { current: 12 });
+
+    const decision = await service.processUserReminder(
+      userId,
+      "UTC",
+      at("2025-03-05T20:30:00Z")
+    );
+
+    expect(decision).toEqual({ sent: true, type: ReminderType.STREAK_AT_RISK });
+    expect(notificationService.sendPushNotification).toHaveBeenCalledWith(
+      "token-1",
+      expect.objectContaining({
+        body: expect.stringContaining("12 dias"),
+        additionalData: { type: ReminderType.STREAK_AT_RISK, streak: "12" },
+      })
+    );
+  });
+
+  it("aplica os limites de frequência", async () => {
+    await repository.updateStreak(userId, { current: 3 });
+
+    const study = (iso: string) =>
+      service.processUserReminder(userId, "UTC", at(iso));
+
+    // Um envio por tipo por dia
+    expect(await study("2025-03-03T08:30:00Z")).toMatchObject({ sent: true });
+    await repository.recordReminderSent(
+      userId,
+      ReminderType.STUDY,
+      "2025-03-03",
+      at("2025-03-03T08:45:00Z")
+    );
+    expect(await study("2025-03-03T08:50:00Z")).toEqual({
+      sent: false,
+      reason: "capped",
+    });
+
+    // Intervalo mínimo entre lembretes de tipos diferentes
+    await repository.recordReminderSent(
+      userId,
+      ReminderType.STUDY,
+      "2025-03-04",
+      at("2025-03-04T18:00:00Z")
+    );
+    expect(await study("2025-03-04T20:30:00Z")).toEqual({
+      sent: false,
+      reason: "capped",
+    });
+
+    // Limite semanal (3 envios nos últimos 7 dias)
+    expect(await study("2025-03-05T08:30:00Z")).toEqual({
+      sent: false,
+      reason: "capped",
+    });
+    expect(await study("2025-03-11T08:30:00Z")).toMatchObject({ sent: true });
+  });
+
+  it("não registra o envio quando o push falha", async () => {
+    vi.mocked(notificationService.sendPushNotification).mockResolvedValue(null);
+
+    expect(
+      await service.processUserReminder(
+        userId,
+        "UTC",
+        at("2025-03-05T08:30:00Z")
+      )
+    ).toEqual({ sent: false, reason: "send_failed" });
+    expect(await repository.getReminderLog(userId)).toBeNull();
+  });
+
+  it("processa todos os usuários na hora local de cada um", async () => {
+    await repository.createUserProgress("user-2");
+    await repository.setUserTimezone("user-2", "America/Sao_Paulo");
+    repository.setUserFcmToken("user-2", "token-2");
+    await repository.updateStreak("user-2", { current: 4 });
+
+    // 08h UTC: hora habitual do user-1; 05h em São Paulo para o user-2
+    const morning = await service.processReminders({
+      now: at("2025-03-05T08:30:00Z"),
+    });
+    // 23h UTC = 20h em São Paulo: streak em risco do user-2
+    const evening = await service.processReminders({
+      now: at("2025-03-05T23:30:00Z"),
+    });
+
+    expect(morning).toMatchObject({
+      totalProcessed: 2,
+      studyReminders: 1,
+      streakReminders: 0,
+    });
+    expect(evening).toMatchObject({
+      totalProcessed: 2,
+      studyReminders: 0,
+      streakReminders: 1,
+    });
+  });
+});
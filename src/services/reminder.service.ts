@@ -0,0 +1,314 @@
+import { REMINDER_CONFIG } from "../config/constants";
+import { resolveDailyGoal } from "../models/DailyGoal";
+import { hasMetDailyGoal } from "../models/DailyProgress";
+import {
+  REMINDER_LOG_RETENTION_MS,
+  ReminderType,
+  type ReminderLog,
+} from "../models/Reminder";
+import { getRepository, type GamificationRepository } from "../repositories";
+import {
+  DEFAULT_TIMEZONE,
+  getDateStringInTimeZone,
+  getHourInTimeZone,
+} from "../utils/timezone";
+import {
+  NotificationService,
+  PushType,
+  type NotificationPayload,
+} from "./notification.service";
+
+export interface ReminderSettings {
+  historyDays: number;
+  defaultStudyHour: number;
+  streakAtRiskHour: number;
+  maxPerWeek: number;
+  minHoursBetween: number;
+}
+
+export interface ReminderRunResult {
+  totalProcessed: number;
+  studyReminders: number;
+  streakReminders: number;
+  // Lembretes devidos mas bloqueados pelos limites de frequência
+  capped: number;
+  errors: string[];
+}
+
+export type ReminderDecision =
+  | { sent: true; type: ReminderType }
+  | { sent: false; reason: ReminderSkipReason };
+
+export type ReminderSkipReason =
+  | "not_due"
+  | "goal_met"
+  | "no_fcm_token"
+  | "capped"
+  | "send_failed";
+
+const DEFAULT_SETTINGS: ReminderSettings = {
+  historyDays: REMINDER_CONFIG.HISTORY_DAYS,
+  defaultStudyHour: REMINDER_CONFIG.DEFAULT_STUDY_HOUR,
+  streakAtRiskHour: REMINDER_CONFIG.STREAK_AT_RISK_HOUR,
+  maxPerWeek: REMINDER_CONFIG.MAX_PER_WEEK,
+  minHoursBetween: REMINDER_CONFIG.MIN_HOURS_BETWEEN,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const toMillis = (value: Date | FirebaseFirestore.Timestamp): number =>
+  value instanceof Date ? value.getTime() : value.toMillis();
+
+/**
+ * Lembretes de estudo enviados pelo job de hora em hora:
+ * - Na hora habitual de estudo (hora local mais frequente das sessões
+ *   recentes), se a meta diária de hoje não foi batida
+ * - À noite, se o usuário tem streak ativo e a meta de hoje não foi batida
+ *
+ * Cada tipo é enviado no máximo uma vez por dia local, respeitando o limite
+ * semanal e o intervalo mínimo entre lembretes.
+ */
+export class ReminderService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository(),
+    private readonly notificationService: NotificationService = new NotificationService(),
+    private readonly settings: ReminderSettings = DEFAULT_SETTINGS
+  ) {}
+
+  /**
+   * Processa os lembretes de todos os usuários para a hora atual
+   */
+  async processReminders(
+    options: { now?: Date; batchSize?: number; batchDelayMs?: number } = {}
+  ): Promise<ReminderRunResult> {
+    const now = options.now ?? new Date();
+    const batchSize = options.batchSize ?? 50;
+    const batchDelayMs = options.batchDelayMs ?? 0;
+
+    const result: ReminderRunResult = {
+      totalProcessed: 0,
+      studyReminders: 0,
+      streakReminders: 0,
+      capped: 0,
+      errors: [],
+    };
+
+    const [userIds, timezones] = await Promise.all([
+      this.firestore.getAllUserIds(),
+      this.firestore.getUserTimezones(),
+    ]);
+
+    for (let i = 0; i < userIds.length; i += batchSize) {
+      for (const userId of userIds.slice(i, i + batchSize)) {
+        try {
+          result.totalProcessed++;
+
+          const decision = await this.processUserReminder(
+            userId,
+            timezones.get(userId) ?? DEFAULT_TIMEZONE,
+            now
+          );
+
+          if (decision.sent) {
+            if (decision.type === ReminderType.STUDY) {
+              result.studyReminders++;
+            } else {
+              result.streakReminders++;
+            }
+          } else if (decision.reason === "capped") {
+            result.capped++;
+          }
+        } catch (error) {
+          result.errors.push(
+            `Erro ao processar lembrete do usuário ${userId}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+      }
+
+      if (batchDelayMs > 0 && i + batchSize < userIds.length) {
+        await new Promise((resolve) => setTimeout(resolve, batchDelayMs));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Decide e envia o lembrete do usuário para a hora atual.
+   * O aviso de streak em risco tem prioridade sobre o lembrete de estudo.
+   */
+  async processUserReminder(
+    userId: string,
+    timezone: string,
+    now: Date = new Date()
+  ): Promise<ReminderDecision> {
+    const hour = getHourInTimeZone(now, timezone);
+    const today = getDateStringInTimeZone(now, timezone);
+
+    const streak =
+      hour === this.settings.streakAtRiskHour
+        ? await this.getCurrentStreak(userId)
+        : 0;
+
+    let type: ReminderType | null = null;
+
+    if (streak > 0) {
+      type = ReminderType.STREAK_AT_RISK;
+    } else if (
+      hour === (await this.getHabitualStudyHour(userId, timezone, now))
+    ) {
+      type = ReminderType.STUDY;
+    }
+
+    if (!type) {
+      return { sent: false, reason: "not_due" };
+    }
+
+    if (await this.isDailyGoalMet(userId, today)) {
+      return { sent: false, reason: "goal_met" };
+    }
+
+    const fcmToken = await this.firestore.getUserFcmToken(userId);
+    if (!fcmToken) {
+      return { sent: false, reason: "no_fcm_token" };
+    }
+
+    const log = await this.firestore.getReminderLog(userId);
+    if (this.isCapped(log, type, today, now)) {
+      return { sent: false, reason: "capped" };
+    }
+
+    const messageId = await this.notificationService.sendPushNotification(
+      fcmToken,
+      this.buildPayload(type, streak)
+    );
+
+    if (!messageId) {
+      return { sent: false, reason: "send_failed" };
+    }
+
+    await this.firestore.recordReminderSent(userId, type, today, now);
+    return { sent: true, type };
+  }
+
+  /**
+   * Hora local (0-23) mais frequente das sessões de estudo recentes; em caso
+   * de empate, a mais cedo. Sem sessões, usa a hora padrão.
+   */
+  async getHabitualStudyHour(
+    userId: string,
+    timezone: string,
+    now: Date = new Date()
+  ): Promise<number> {
+    const sessions = await this.firestore.getStudySessionsByPeriod(
+      userId,
+      new Date(now.getTime() - this.settings.historyDays * DAY_MS),
+      now
+    );
+
+    const countByHour = new Map<number, number>();
+    for (const session of sessions) {
+      const hour = getHourInTimeZone(
+        new Date(toMillis(session.timestamp)),
+        timezone
+      );
+      countByHour.set(hour, (countByHour.get(hour) ?? 0) + 1);
+    }
+
+    let habitualHour = this.settings.defaultStudyHour;
+    let maxCount = 0;
+
+    for (const [hour, count] of countByHour) {
+      if (count > maxCount || (count === maxCount && hour < habitualHour)) {
+        habitualHour = hour;
+        maxCount = count;
+      }
+    }
+
+    return habitualHour;
+  }
+
+  // ========== HELPER METHODS ==========
+
+  private isCapped(
+    log: ReminderLog | null,
+    type: ReminderType,
+    today: string,
+    now: Date
+  ): boolean {
+    if (!log) {
+      return false;
+    }
+
+    if (log.lastSentDates[type] === today) {
+      return true;
+    }
+
+    const recent = log.recentSentAt
+      .map(toMillis)
+      .filter((sentAt) => now.getTime() - sentAt < REMINDER_LOG_RETENTION_MS);
+
+    if (recent.length >= this.settings.maxPerWeek) {
+      return true;
+    }
+
+    return recent.some(
+      (sentAt) =>
+        now.getTime() - sentAt < this.settings.minHoursBetween * HOUR_MS
+    );
+  }
+
+  private async isDailyGoalMet(
+    userId: string,
+    today: string
+  ): Promise<boolean> {
+    try {
+      const [progress, goalSettings] = await Promise.all([
+        this.firestore.getDailyProgress(userId, today),
+        this.firestore.getDailyGoalSettings(userId),
+      ]);
+
+      return (
+        progress.goalMet &&
+        hasMetDailyGoal(progress, resolveDailyGoal(goalSettings, today))
+      );
+    } catch {
+      // Sem progresso hoje
+      return false;
+    }
+  }
+
+  private async getCurrentStreak(userId: string): Promise<number> {
+    try {
+      return (await this.firestore.getStreakData(userId)).current;
+    } catch {
+      return 0;
+    }
+  }
+
+  private buildPayload(
+    type: ReminderType,
+    streak: number
+  ): NotificationPayload {
+    if (type === ReminderType.STREAK_AT_RISK) {
+      return {
+        title: "Seu streak está em risco! 🔥",
+        body: `Seu streak de ${streak} ${
+          streak === 1 ? "dia" : "dias"
+        } termina hoje. Bata a meta diária para mantê-lo!`,
+        pushType: PushType.STUDY_REMINDER,
+        additionalData: { type, streak: String(streak) },
+      };
+    }
+
+    return {
+      title: "Hora de Estudar! 📚",
+      body: "Está no seu horário de estudo. Revise seus cards e bata a meta de hoje!",
+      pushType: PushType.STUDY_REMINDER,
+      additionalData: { type },
+    };
+  }
+}
@@ -0,0 +1,441 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AchievementType } from "../models/Achievement";
+import { AntiAbuseReason } from "../models/AntiAbuse";
+import { XP_VALUES } from "../config/constants";
+import { QuestMetric } from "../models/Quest";
+import type { UserProgress } from "../models/UserProgress";
+import { InMemoryRepository } from "../repositories";
+import type { AchievementService } from "./achievement.service";
+import { AuditService } from "./audit.service";
+import type { DailyGoalService } from "./daily-goal.service";
+import type { FirestoreService } from "./firestore.service";
+import { LevelService } from "./level.service";
+import type { QuestService } from "./quest.service";
+import { ReviewBatchService } from "./review-batch.service";
+import type { StreakService } from "./streak.service";
+import { XPService } from "./xp.service";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const createUserProgress = (
+  overrides: Partial<UserProgress> = {}
+): UserProgress => ({
+  userId: "user-1",
+  level: 1,
+  currentXP: 0,
+  totalXP: 0,
+  currentStreak: 0,
+  longestStreak: 0,
+  totalCardsReviewed: 0,
+  lastActivityDate: null,
+  achievements: [],
+  createdAt: new Date(0),
+  ...overrides,
+});
+
+describe("ReviewBatchService", () => {
+  let service: ReviewBatchService;
+  let mockFirestore: FirestoreService;
+  let mockXPService: XPService;
+  let mockDailyGoalService: DailyGoalService;
+  let mockStreakService: StreakService;
+  let mockAchievementService: AchievementService;
+  let mockQuestService: QuestService;
+
+  beforeEach(() => {
+    mockFirestore = {
+      updateCardsPerDay: vi.fn(),
+      recordStudySessionTime: vi.fn(),
+      addDeckStudiedToday: vi.fn(),
+      addDifficultyLevelUsed: vi.fn(),
+      addStudiedDeck: vi.fn(),
+      getUserMetrics: vi.fn().mockResolvedValue({ easyCardsStreak: 2 }),
+      updateEasyCardsStreak: vi.fn(),
+      incrementHardCardsCompleted: vi.fn(),
+      getUserTimezone: vi.fn().mockResolvedValue(null),
+      getUserProgress: vi
+        .fn()
+        .mockResolvedValue(
+          createUserProgress({ totalXP: 450, level: 2, currentStreak: 3 })
+        ),
+    } as unknown as FirestoreService;
+
+    mockXPService = {
+      processCardReviews: vi.fn().mockResolvedValue({
+        userProgress: createUserProgress({ totalXP: 440 }),
+        levelUpInfo: {
+          leveledUp: true,
+          oldLevel: 1,
+          newLevel: 2,
+          levelsGained: 1,
+        },
+        xpGained: 50,
+        transactions: [],
+        reviewDecisions: [],
+      }),
+      completeEvent: vi.fn(),
+    } as unknown as XPService;
+
+    mockDailyGoalService = {
+      recordCardReview: vi.fn(
+        async (_userId: string, date: string, count: number) => ({
+          userId: "user-1",
+          date,
+          cardsReviewed: count + 18,
+          goalMet: count + 18 >= 20,
+          xpEarned: 0,
+          timestamp: new Date(),
+        })
+      ),
+    } as unknown as DailyGoalService;
+
+    mockStreakService = {
+      checkAndUpdateDailyStreak: vi.fn().mockResolvedValue(null),
+    } as unknown as StreakService;
+
+    mockAchievementService = {
+      checkAchievements: vi.fn().mockResolvedValue([]),
+    } as unknown as AchievementService;
+
+    mockQuestService = {
+      trackProgress: vi.fn().mockResolvedValue([]),
+    } as unknown as QuestService;
+
+    service = new ReviewBatchService(
+      mockFirestore,
+      mockXPService,
+      mockDailyGoalService,
+      mockStreakService,
+      mockAchievementService,
+      new LevelService(),
+      new AuditService(mockFirestore),
+      mockQuestService
+    );
+  });
+
+  it("deve registrar o progresso diário e o streak por dia em ordem cronológica", async () => {
+    const result = await service.processReviews("user-1", [
+      {
+        cardId: "card-3",
+        difficulty: "good",
+        reviewedAt: new Date(2025, 10, 11, 9),
+      },
+      {
+        cardId: "card-1",
+        difficulty: "easy",
+        reviewedAt: new Date(2025, 10, 10, 23),
+      },
+      {
+        cardId: "card-2",
+        difficulty: "easy",
+        reviewedAt: new Date(2025, 10, 10, 23, 5),
+      },
+    ]);
+
+    expect(mockDailyGoalService.recordCardReview).toHaveBeenNthCalledWith(
+      1,
+      "user-1",
+      "2025-11-10",
+      2
+    );
+    expect(mockDailyGoalService.recordCardReview).toHaveBeenNthCalledWith(
+      2,
+      "user-1",
+      "2025-11-11",
+      1
+    );
+    expect(mockStreakService.checkAndUpdateDailyStreak).toHaveBeenNthCalledWith(
+      1,
+      "user-1",
+      "2025-11-10"
+    );
+    expect(result.days).toEqual([
+      {
+        date: "2025-11-10",
+        cardsReviewed: 2,
+        totalCardsReviewed: 20,
+        goalMet: true,
+        streak: null,
+      },
+      {
+        date: "2025-11-11",
+        cardsReviewed: 1,
+        totalCardsReviewed: 19,
+        goalMet: false,
+        streak: null,
+      },
+    ]);
+
+    const [, orderedReviews] = vi.mocked(mockXPService.processCardReviews).mock
+      .calls[0]!;
+    expect(orderedReviews.map((review) => review.cardId)).toEqual([
+      "card-1",
+      "card-2",
+      "card-3",
+    ]);
+  });
+
+  it("deve agrupar as revisões pelo dia e hora no fuso do usuário", async () => {
+    vi.mocked(mockFirestore.getUserTimezone).mockResolvedValue(
+      "America/New_York"
+    );
+
+    await service.processReviews("user-1", [
+      {
+        cardId: "card-1",
+        difficulty: "good",
+        // 02:30 UTC = 21:30 do dia anterior em Nova York
+        reviewedAt: new Date("2025-11-11T02:30:00Z"),
+      },
+    ]);
+
+    expect(mockDailyGoalService.recordCardReview).toHaveBeenCalledWith(
+      "user-1",
+      "2025-11-10",
+      1
+    );
+    expect(mockFirestore.recordStudySessionTime).toHaveBeenCalledWith(
+      "user-1",
+      "2025-11-10",
+      21
+    );
+  });
+
+  it("deve verificar conquistas uma única vez e agregar o resultado", async () => {
+    vi.mocked(mockStreakService.checkAndUpdateDailyStreak).mockResolvedValue({
+      streakData: {
+        userId: "user-1",
+        current: 7,
+        longest: 7,
+        lastUpdate: new Date(),
+        history: [],
+      },
+      bonusAwarded: 200,
+      milestone: 7,
+    });
+
+    const result = await service.processReviews("user-1", [
+      {
+        cardId: "card-1",
+        difficulty: "hard",
+        reviewedAt: new Date(2025, 10, 10, 10),
+      },
+      {
+        cardId: "card-2",
+        difficulty: "hard",
+        reviewedAt: new Date(2025, 10, 10, 11),
+      },
+    ]);
+
+    expect(mockAchievementService.checkAchievements).toHaveBeenCalledTimes(1);
+    expect(mockAchievementService.checkAchievements).toHaveBeenCalledWith(
+      "user-1",
+      [AchievementType.REVIEWS_COMPLETED, AchievementType.CUSTOM]
+    );
+    expect(mockFirestore.incrementHardCardsCompleted).toHaveBeenCalledWith(
+      "user-1",
+      2
+    );
+    expect(mockFirestore.addDifficultyLevelUsed).toHaveBeenCalledTimes(1);
+    expect(result.xpGained).toBe(50);
+    expect(result.streak.bonusAwarded).toBe(200);
+    expect(result.streak.milestones).toEqual([7]);
+    // Level-up calculado do XP antes do lote (390) até o total final (450)
+    expect(result.levelUpInfo.oldLevel).toBe(1);
+    expect(result.levelUpInfo.newLevel).toBe(2);
+  });
+
+  it("deve manter a sequência de cards fáceis na ordem das revisões", async () => {
+    await service.processReviews("user-1", [
+      {
+        cardId: "card-1",
+        difficulty: "easy",
+        reviewedAt: new Date(2025, 10, 10, 10),
+      },
+      {
+        cardId: "card-2",
+        difficulty: "again",
+        reviewedAt: new Date(2025, 10, 10, 11),
+      },
+    ]);
+
+    // Pico de 3 (2 anteriores + 1) registrado antes do reset
+    expect(mockFirestore.updateEasyCardsStreak).toHaveBeenNthCalledWith(
+      1,
+      "user-1",
+      3
+    );
+    expect(mockFirestore.updateEasyCardsStreak).toHaveBeenLastCalledWith(
+      "user-1",
+      0
+    );
+  });
+
+  it("deve ignorar as revisões bloqueadas pelo anti-abuso", async () => {
+    const blocked = {
+      allowed: false,
+      requestedXP: 20,
+      awardedXP: 0,
+      reasons: [AntiAbuseReason.REVIEW_TOO_SOON],
+    };
+    vi.mocked(mockXPService.processCardReviews).mockResolvedValueOnce({
+      userProgress: createUserProgress({ totalXP: 20 }),
+      levelUpInfo: {
+        leveledUp: false,
+        oldLevel: 1,
+        newLevel: 1,
+        levelsGained: 0,
+      },
+      xpGained: 20,
+      transactions: [],
+      reviewDecisions: [
+        { allowed: true, requestedXP: 20, awardedXP: 20, reasons: [] },
+        blocked,
+      ],
+    });
+
+    const result = await service.processReviews("user-1", [
+      {
+        cardId: "card-1",
+        difficulty: "easy",
+        reviewedAt: new Date(2025, 10, 10, 10),
+      },
+      {
+        cardId: "card-1",
+        difficulty: "easy",
+        reviewedAt: new Date(2025, 10, 10, 10, 0, 5),
+      },
+    ]);
+
+    expect(result.processed).toBe(1);
+    expect(result.ignored).toBe(1);
+    expect(result.antiAbuse).toEqual([
+      {
+        ...blocked,
+        cardId: "card-1",
+        reviewedAt: new Date(2025, 10, 10, 10, 0, 5),
+      },
+    ]);
+    expect(mockDailyGoalService.recordCardReview).toHaveBeenCalledWith(
+      "user-1",
+      "2025-11-10",
+      1
+    );
+  });
+
+  it("deve atualizar as missões com as revisões de cada dia", async () => {
+    await service.processReviews("user-1", [
+      {
+        cardId: "card-1",
+        difficulty: "hard",
+        deckId: "deck-1",
+        reviewedAt: new Date(2025, 10, 10, 10),
+      },
+      {
+        cardId: "card-2",
+        difficulty: "good",
+        deckId: "deck-2",
+        reviewedAt: new Date(2025, 10, 10, 11),
+      },
+      {
+        cardId: "card-3",
+        difficulty: "hard",
+        deckId: "deck-1",
+        reviewedAt: new Date(2025, 10, 11, 9),
+      },
+    ]);
+
+    expect(mockQuestService.trackProgress).toHaveBeenNthCalledWith(
+      1,
+      "user-1",
+      {
+        date: "2025-11-10",
+        increments: {
+          [QuestMetric.CARDS_REVIEWED]: 2,
+          [QuestMetric.HARD_CARDS_REVIEWED]: 1,
+        },
+        deckIds: ["deck-1", "deck-2"],
+      }
+    );
+    expect(mockQuestService.trackProgress).toHaveBeenNthCalledWith(
+      2,
+      "user-1",
+      {
+        date: "2025-11-11",
+        increments: {
+          [QuestMetric.CARDS_REVIEWED]: 1,
+          [QuestMetric.HARD_CARDS_REVIEWED]: 1,
+        },
+        deckIds: ["deck-1"],
+      }
+    );
+  });
+
+  it("não deve aplicar o XP de novo ao reenviar um lote que falhou depois do XP", async () => {
+    const repository = new InMemoryRepository();
+    const xpService = new XPService(repository);
+    service = new ReviewBatchService(
+      mockFirestore,
+      xpService,
+      mockDailyGoalService,
+      mockStreakService,
+      mockAchievementService,
+      new LevelService(),
+      new AuditService(mockFirestore),
+      mockQuestService
+    );
+    const reviews = [
+      {
+        cardId: "card-1",
+        difficulty: "good" as const,
+        reviewedAt: new Date(2025, 10, 10, 10),
+      },
+      {
+        cardId: "card-2",
+        difficulty: "easy" as const,
+        reviewedAt: new Date(2025, 10, 10, 11),
+      },
+    ];
+    const onXPApplied = vi.fn();
+    const submit = () =>
+      service.processReviews("user-1", reviews, new Date(), {
+        eventId: "batch-1",
+        onXPApplied,
+      });
+    const totalXP = XP_VALUES.REVIEW_GOOD + XP_VALUES.REVIEW_EASY;
+
+    vi.mocked(mockDailyGoalService.recordCardReview).mockRejectedValueOnce(
+      new Error("falha na meta diária")
+    );
+
+    await expect(submit()).rejects.toThrow("falha na meta diária");
+    expect(onXPApplied).toHaveBeenCalledTimes(1);
+    expect((await repository.getUserProgress("user-1"))?.totalXP).toBe(totalXP);
+
+    // Reenvio retoma o lote: as etapas rodam, mas o XP não é somado de novo
+    const retry = await submit();
+
+    expect(retry.duplicate).toBeUndefined();
+    expect(retry.processed).toBe(2);
+    expect((await repository.getUserProgress("user-1"))?.totalXP).toBe(totalXP);
+
+    // Etapas concluídas: novo reenvio é apenas duplicado
+    const duplicate = await submit();
+
+    expect(duplicate).toMatchObject({ duplicate: true, processed: 0 });
+    expect((await repository.getUserProgress("user-1"))?.totalXP).toBe(totalXP);
+  });
+
+  it("deve rejeitar lote vazio", async () => {
+    await expect(service.processReviews("user-1", [])).rejects.toThrow(
+      "Nenhuma revisão informada."
+    );
+  });
+});
@@ -0,0 +1,323 @@
+import { AchievementType, type Achievement } from "../models/Achievement";
+import type { AntiAbuseDecision } from "../models/AntiAbuse";
+import { QuestMetric, type UserQuest } from "../models/Quest";
+import type { UserProgress } from "../models/UserProgress";
+import { logger } from "../utils/logger";
+import { getDateStringInTimeZone, getHourInTimeZone } from "../utils/timezone";
+import { AchievementService } from "./achievement.service";
+import { AuditService } from "./audit.service";
+import { DailyGoalService } from "./daily-goal.service";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { LevelService, type LevelUpResult } from "./level.service";
+import { QuestService } from "./quest.service";
+import { StreakService } from "./streak.service";
+import {
+  XPService,
+  type CardReviewInput,
+  type ReviewDifficulty,
+} from "./xp.service";
+
+export interface BatchReviewInput extends CardReviewInput {
+  difficulty: ReviewDifficulty;
+}
+
+export interface BatchDayResult {
+  date: string;
+  // Revisões deste lote no dia
+  cardsReviewed: number;
+  // Total do dia após o lote
+  totalCardsReviewed: number;
+  goalMet: boolean;
+  streak: number | null;
+}
+
+export interface BatchReviewDecision extends AntiAbuseDecision {
+  cardId: string;
+  reviewedAt: Date;
+}
+
+export interface ReviewBatchOptions {
+  // Identificador do lote no cliente; reenvios não aplicam XP novamente
+  eventId?: string | undefined;
+  // Chamado assim que o XP do lote é gravado (ou já estava gravado)
+  onXPApplied?: () => void;
+}
+
+export interface ReviewBatchResult {
+  // true quando o eventId já havia sido concluído e nada foi processado
+  duplicate?: boolean;
+  processed: number;
+  // Revisões ignoradas pelo anti-abuso (não contam para meta, streak e métricas)
+  ignored: number;
+  xpGained: number;
+  userProgress: UserProgress;
+  levelUpInfo: LevelUpResult;
+  days: BatchDayResult[];
+  streak: {
+    current: number;
+    longest: number;
+    bonusAwarded: number;
+    milestones: Array<7 | 30>;
+  };
+  newAchievements: Achievement[];
+  // Missões concluídas pelas revisões do lote
+  completedQuests: UserQuest[];
+  // Apenas as revisões bloqueadas ou com XP reduzido
+  antiAbuse: BatchReviewDecision[];
+}
+
+/**
+ * Processa um lote de revisões feitas offline.
+ *
+ * O XP é aplicado em uma única atualização, o progresso diário e o streak
+ * são atualizados por dia real da revisão (em ordem cronológica) e as
+ * métricas customizadas e conquistas são verificadas uma vez por lote.
+ */
+export class ReviewBatchService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository(),
+    private readonly xpService: XPService = new XPService(),
+    private readonly dailyGoalService: DailyGoalService = new DailyGoalService(),
+    private readonly streakService: StreakService = new StreakService(),
+    private readonly achievementService: AchievementService = new AchievementService(),
+    private readonly levelService: LevelService = new LevelService(),
+    private readonly auditService: AuditService = new AuditService(firestore),
+    private readonly questService: QuestService = new QuestService(
+      firestore,
+      xpService
+    )
+  ) {}
+
+  async processReviews(
+    userId: string,
+    reviews: BatchReviewInput[],
+    receivedAt: Date = new Date(),
+    { eventId, onXPApplied }: ReviewBatchOptions = {}
+  ): Promise<ReviewBatchResult> {
+    if (!userId?.trim()) {
+      throw new Error("ID do usuário é obrigatório.");
+    }
+
+    if (!reviews.length) {
+      throw new Error("Nenhuma revisão informada.");
+    }
+
+    const ordered = [...reviews].sort(
+      (a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime()
+    );
+
+    const xpResult = await this.xpService.processCardReviews(
+      userId,
+      ordered,
+      receivedAt,
+      eventId
+    );
+
+    if (xpResult.duplicate) {
+      const { userProgress } = xpResult;
+
+      return {
+        duplicate: true,
+        processed: 0,
+        ignored: 0,
+        xpGained: 0,
+        userProgress,
+        levelUpInfo: xpResult.levelUpInfo,
+        days: [],
+        streak: {
+          current: userProgress.currentStreak,
+          longest: userProgress.longestStreak,
+          bonusAwarded: 0,
+          milestones: [],
+        },
+        newAchievements: [],
+        completedQuests: [],
+        antiAbuse: [],
+      };
+    }
+
+    if (xpResult.transactions.length) {
+      onXPApplied?.();
+    }
+
+    const oldTotalXP = xpResult.userProgress.totalXP - xpResult.xpGained;
+
+    const antiAbuse: BatchReviewDecision[] = [];
+    const accepted = ordered.filter((review, index) => {
+      const decision = xpResult.reviewDecisions[index];
+      if (decision?.reasons.length) {
+        antiAbuse.push({
+          ...decision,
+          cardId: review.cardId,
+          reviewedAt: review.reviewedAt,
+        });
+      }
+      return decision?.allowed !== false;
+    });
+
+    // ===== PROGRESSO DIÁRIO E STREAK POR DIA (no fuso do usuário) =====
+    const timezone = await this.firestore.getUserTimezone(userId);
+    const reviewsByDay = new Map<string, BatchReviewInput[]>();
+    for (const review of accepted) {
+      const date = getDateStringInTimeZone(review.reviewedAt, timezone);
+      reviewsByDay.set(date, [...(reviewsByDay.get(date) ?? []), review]);
+    }
+
+    const days: BatchDayResult[] = [];
+    let bonusAwarded = 0;
+    const milestones: Array<7 | 30> = [];
+    const completedQuests: UserQuest[] = [];
+
+    for (const [date, dayReviews] of reviewsByDay) {
+      const dailyProgress = await this.dailyGoalService.recordCardReview(
+        userId,
+        date,
+        dayReviews.length
+      );
+
+      const streakResult = await this.streakService.checkAndUpdateDailyStreak(
+        userId,
+        date
+      );
+
+      if (streakResult) {
+        bonusAwarded += streakResult.bonusAwarded;
+        if (streakResult.milestone) {
+          milestones.push(streakResult.milestone);
+        }
+      }
+
+      await this.firestore.updateCardsPerDay(
+        userId,
+        date,
+        dailyProgress.cardsReviewed
+      );
+
+      // Só os extremos do dia importam para as métricas de horário (<8h e >=22h)
+      const hours = dayReviews.map((review) =>
+        getHourInTimeZone(review.reviewedAt, timezone)
+      );
+      for (const hour of new Set([Math.min(...hours), Math.max(...hours)])) {
+        await this.firestore.recordStudySessionTime(userId, date, hour);
+      }
+
+      const dayDeckIds = [
+        ...new Set(
+          dayReviews.flatMap((review) => (review.deckId ? [review.deckId] : []))
+        ),
+      ];
+      for (const deckId of dayDeckIds) {
+        await this.firestore.addDeckStudiedToday(userId, deckId, date);
+      }
+
+      // Revisões de dias anteriores só contam se ainda estiverem no período da missão
+      completedQuests.push(
+        ...(await this.questService.trackProgress(userId, {
+          date,
+          increments: {
+            [QuestMetric.CARDS_REVIEWED]: dayReviews.length,
+            [QuestMetric.HARD_CARDS_REVIEWED]: dayReviews.filter(
+              (review) => review.difficulty === "hard"
+            ).length,
+          },
+          deckIds: dayDeckIds,
+        }))
+      );
+
+      days.push({
+        date,
+        cardsReviewed: dayReviews.length,
+        totalCardsReviewed: dailyProgress.cardsReviewed,
+        goalMet: dailyProgress.goalMet,
+        streak: streakResult?.streakData.current ?? null,
+      });
+    }
+
+    // ===== MÉTRICAS CUSTOMIZADAS (uma vez por lote) =====
+    if (accepted.length) {
+      await this.auditService.trackMetrics(userId, "process_reviews", () =>
+        this.updateCustomMetrics(userId, accepted)
+      );
+    }
+
+    const newAchievements = await this.achievementService.checkAchievements(
+      userId,
+      [AchievementType.REVIEWS_COMPLETED, AchievementType.CUSTOM]
+    );
+
+    // Progresso final inclui bônus de streak e recompensas de conquistas
+    const userProgress = await this.firestore.getUserProgress(userId);
+
+    // Etapas concluídas: reenvios do eventId passam a ser duplicados
+    await this.xpService.completeEvent(userId, xpResult);
+
+    logger.info("[ReviewBatchService] Lote de revisões processado", {
+      userId,
+      processed: accepted.length,
+      ignored: ordered.length - accepted.length,
+      days: days.length,
+      xpGained: xpResult.xpGained,
+      achievementsUnlocked: newAchievements.length,
+      questsCompleted: completedQuests.length,
+      ...(xpResult.resumed ? { resumed: true } : {}),
+    });
+
+    return {
+      processed: accepted.length,
+      ignored: ordered.length - accepted.length,
+      xpGained: xpResult.xpGained,
+      userProgress,
+      levelUpInfo: this.levelService.checkLevelUp(
+        oldTotalXP,
+        userProgress.totalXP
+      ),
+      days,
+      streak: {
+        current: userProgress.currentStreak,
+        longest: userProgress.longestStreak,
+        bonusAwarded,
+        milestones,
+      },
+      newAchievements,
+      completedQuests,
+      antiAbuse,
+    };
+  }
+
+  // ========== HELPER METHODS ==========
+
+  private async updateCustomMetrics(
+    userId: string,
+    reviews: BatchReviewInput[]
+  ): Promise<void> {
+    for (const difficulty of new Set(reviews.map((r) => r.difficulty))) {
+      await this.firestore.addDifficultyLevelUsed(userId, difficulty);
+    }
+
+    for (const deckId of new Set(
+      reviews.flatMap((review) => (review.deckId ? [review.deckId] : []))
+    )) {
+      await this.firestore.addStudiedDeck(userId, deckId);
+    }
+
+    // Sequência de "fácil" segue a ordem cronológica das revisões
+    const metrics = await this.firestore.getUserMetrics(userId);
+    let easyStreak = metrics.easyCardsStreak;
+    let maxEasyStreak = easyStreak;
+    for (const review of reviews) {
+      easyStreak = review.difficulty === "easy" ? easyStreak + 1 : 0;
+      maxEasyStreak = Math.max(maxEasyStreak, easyStreak);
+    }
+
+    // Registrar o pico do lote antes do valor final para preservar o máximo
+    if (maxEasyStreak > easyStreak) {
+      await this.firestore.updateEasyCardsStreak(userId, maxEasyStreak);
+    }
+    await this.firestore.updateEasyCardsStreak(userId, easyStreak);
+
+    const hardCount = reviews.filter((r) => r.difficulty === "hard").length;
+    if (hardCount > 0) {
+      await this.firestore.incrementHardCardsCompleted(userId, hardCount);
+    }
+  }
+}
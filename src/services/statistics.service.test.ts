@@ -0,0 +1,233 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { StudySession } from "../models/StudySession";
+import { XPSource, type XPTransaction } from "../models/XPTransaction";
+import type { FirestoreService } from "./firestore.service";
+import { StatisticsService } from "./statistics.service";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const createSession = (
+  overrides: Partial<StudySession> = {}
+): StudySession => ({
+  id: `session-${Math.random()}`,
+  userId: "user-1",
+  deckId: "deck-1",
+  sessionDurationMinutes: 10,
+  cardsReviewed: 20,
+  accuracyCount: 15,
+  totalAnswers: 20,
+  studyTime: "morning",
+  difficultyBreakdown: { again: 2, hard: 3, good: 10, easy: 5 },
+  timestamp: new Date(2025, 10, 10, 9),
+  ...overrides,
+});
+
+const createTransaction = (
+  amount: number,
+  source: XPSource,
+  deckId?: string
+): XPTransaction => ({
+  id: `tx-${Math.random()}`,
+  userId: "user-1",
+  amount,
+  source,
+  sourceId: "source-1",
+  description: "",
+  timestamp: new Date(2025, 10, 10),
+  ...(deckId ? { deckId } : {}),
+});
+
+describe("StatisticsService", () => {
+  let service: StatisticsService;
+  let mockFirestore: FirestoreService;
+  const now = new Date(2025, 10, 15, 14, 30);
+
+  beforeEach(() => {
+    mockFirestore = {
+      getStudySessionsByPeriod: vi.fn().mockResolvedValue([]),
+      getUserXPTransactionsByPeriod: vi.fn().mockResolvedValue([]),
+      saveStudySession: vi.fn(async (session: StudySession) => session),
+      getUserTimezone: vi.fn().mockResolvedValue(null),
+    } as unknown as FirestoreService;
+
+    service = new StatisticsService(mockFirestore);
+  });
+
+  describe("getUserStatistics", () => {
+    it("deve agregar sessões e XP por fonte do período", async () => {
+      vi.mocked(mockFirestore.getStudySessionsByPeriod).mockResolvedValue([
+        createSession(),
+        createSession({
+          deckId: "deck-2",
+          sessionDurationMinutes: 30,
+          cardsReviewed: 40,
+          accuracyCount: 25,
+          totalAnswers: 40,
+          studyTime: "night",
+          difficultyBreakdown: { again: 10, hard: 10, good: 10, easy: 10 },
+        }),
+      ]);
+      vi.mocked(mockFirestore.getUserXPTransactionsByPeriod).mockResolvedValue([
+        createTransaction(15, XPSource.REVIEW, "deck-1"),
+        createTransaction(20, XPSource.REVIEW, "deck-2"),
+        createTransaction(100, XPSource.DAILY_GOAL),
+      ]);
+
+      const stats = await service.getUserStatistics("user-1", "month", now);
+
+      expect(stats.totalSessions).toBe(2);
+      expect(stats.cardsReviewed).toBe(60);
+      expect(stats.minutesStudied).toBe(40);
+      expect(stats.averageSessionMinutes).toBe(20);
+      expect(stats.accuracy).toBe(66.7);
+      expect(stats.timeOfDayDistribution).toEqual({
+        morning: 1,
+        afternoon: 0,
+        evening: 0,
+        night: 1,
+      });
+      expect(stats.difficultyBreakdown).toEqual({
+        again: 12,
+        hard: 13,
+        good: 20,
+        easy: 15,
+      });
+      expect(stats.xpBySource[XPSource.REVIEW]).toBe(35);
+      expect(stats.xpBySource[XPSource.DAILY_GOAL]).toBe(100);
+      expect(stats.xpBySource[XPSource.ACHIEVEMENT]).toBe(0);
+      expect(stats.totalXP).toBe(135);
+    });
+
+    it("deve retornar precisão nula quando não há respostas", async () => {
+      const stats = await service.getUserStatistics("user-1", "week", now);
+
+      expect(stats.accuracy).toBeNull();
+      expect(stats.totalSessions).toBe(0);
+      expect(stats.averageSessionMinutes).toBe(0);
+    });
+
+    it("deve consultar a janela do período terminando no fim do dia atual", async () => {
+      const stats = await service.getUserStatistics("user-1", "week", now);
+
+      expect(mockFirestore.getStudySessionsByPeriod).toHaveBeenCalledWith(
+        "user-1",
+        new Date(2025, 10, 9, 0, 0, 0, 0),
+        new Date(2025, 10, 15, 23, 59, 59, 999)
+      );
+      expect(stats.startDate).toBe("2025-11-09");
+      expect(stats.endDate).toBe("2025-11-15");
+    });
+  });
+
+  describe("getDeckStatistics", () => {
+    it("deve considerar apenas sessões e transações do deck", async () => {
+      vi.mocked(mockFirestore.getStudySessionsByPeriod).mockResolvedValue([
+        createSession(),
+        createSession({ deckId: "deck-2", cardsReviewed: 99 }),
+      ]);
+      vi.mocked(mockFirestore.getUserXPTransactionsByPeriod).mockResolvedValue([
+        createTransaction(15, XPSource.REVIEW, "deck-1"),
+        createTransaction(25, XPSource.CARD_CREATION, "deck-1"),
+        createTransaction(20, XPSource.REVIEW, "deck-2"),
+      ]);
+
+      const stats = await service.getDeckStatistics(
+        "user-1",
+        "deck-1",
+        "month",
+        now
+      );
+
+      expect(stats.deckId).toBe("deck-1");
+      expect(stats.cardsReviewed).toBe(20);
+      expect(stats.xpBySource[XPSource.CARD_CREATION]).toBe(25);
+      expect(stats.totalXP).toBe(40);
+    });
+  });
+
+  describe("getAllDecksStatistics", () => {
+    it("deve agrupar por deck ordenando por cards revisados", async () => {
+      vi.mocked(mockFirestore.getStudySessionsByPeriod).mockResolvedValue([
+        createSession({ deckId: "deck-1", cardsReviewed: 5 }),
+        createSession({ deckId: "deck-2", cardsReviewed: 50 }),
+        createSession({ deckId: null, cardsReviewed: 10 }),
+      ]);
+
+      const stats = await service.getAllDecksStatistics("user-1", "all", now);
+
+      expect(stats.map((s) => s.deckId)).toEqual(["deck-2", "deck-1"]);
+    });
+  });
+
+  describe("recordSession", () => {
+    it("deve derivar o período do dia a partir do início da sessão", async () => {
+      const session = await service.recordSession("user-1", {
+        sessionDurationMinutes: 12,
+        cardsReviewed: 30,
+        accuracyCount: 20,
+        totalAnswers: 30,
+        difficultyBreakdown: { good: 30 },
+        startedAt: new Date(2025, 10, 15, 20, 0),
+      });
+
+      expect(session.studyTime).toBe("evening");
+      expect(session.deckId).toBeNull();
+      expect(session.difficultyBreakdown).toEqual({
+        again: 0,
+        hard: 0,
+        good: 30,
+        easy: 0,
+      });
+      expect(mockFirestore.saveStudySession).toHaveBeenCalledWith(session);
+    });
+
+    it("deve derivar o período do dia no fuso do usuário", async () => {
+      vi.mocked(mockFirestore.getUserTimezone).mockResolvedValue("Asia/Tokyo");
+
+      const session = await service.recordSession("user-1", {
+        sessionDurationMinutes: 12,
+        cardsReviewed: 30,
+        accuracyCount: 20,
+        totalAnswers: 30,
+        // 23h UTC = 8h em Tóquio
+        startedAt: new Date("2025-11-15T23:00:00Z"),
+      });
+
+      expect(session.studyTime).toBe("morning");
+    });
+
+    it("deve rejeitar acertos maiores que o total de respostas", async () => {
+      await expect(
+        service.recordSession("user-1", {
+          sessionDurationMinutes: 5,
+          cardsReviewed: 10,
+          accuracyCount: 11,
+          totalAnswers: 10,
+        })
+      ).rejects.toThrow(/accuracyCount/);
+
+      expect(mockFirestore.saveStudySession).not.toHaveBeenCalled();
+    });
+
+    it("deve rejeitar sessionId de uma sessão de outro usuário", async () => {
+      vi.mocked(mockFirestore.saveStudySession).mockResolvedValueOnce(null);
+
+      await expect(
+        service.recordSession("user-2", {
+          sessionId: "session-1",
+          sessionDurationMinutes: 5,
+          cardsReviewed: 10,
+          accuracyCount: 8,
+          totalAnswers: 10,
+        })
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { randomUUID } from "crypto";
+import { AppError } from "../middlewares/error.middleware";
+import {
+  STATISTICS_PERIOD_DAYS,
+  type DeckStatistics,
+  type StatisticsPeriod,
+  type StudyStatistics,
+} from "../models/Statistics";
+import {
+  createEmptyDifficultyBreakdown,
+  getStudyTimeOfDay,
+  STUDY_TIMES_OF_DAY,
+  type DifficultyBreakdown,
+  type StudySession,
+  type StudyTimeOfDay,
+} from "../models/StudySession";
+import { XPSource, type XPTransaction } from "../models/XPTransaction";
+import { logger } from "../utils/logger";
+import { getHourInTimeZone } from "../utils/timezone";
+import { getLocalDateString } from "../utils/validators";
+import { getRepository, type GamificationRepository } from "../repositories";
+
+export interface RecordStudySessionInput {
+  sessionId?: string | undefined;
+  deckId?: string | undefined;
+  sessionDurationMinutes: number;
+  cardsReviewed: number;
+  accuracyCount: number;
+  totalAnswers: number;
+  studyTime?: StudyTimeOfDay | undefined;
+  difficultyBreakdown?:
+    | { [K in keyof DifficultyBreakdown]?: number | undefined }
+    | undefined;
+  startedAt?: Date | undefined;
+}
+
+type StatisticsWindow = {
+  period: StatisticsPeriod;
+  start: Date;
+  end: Date;
+};
+
+export class StatisticsService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository()
+  ) {}
+
+  /**
+   * Estatísticas gerais do usuário no período
+   * Sessões alimentam cards, minutos, precisão, horários e dificuldades;
+   * as transações de XP alimentam o XP por fonte
+   */
+  async getUserStatistics(
+    userId: string,
+    period: StatisticsPeriod = "month",
+    now: Date = new Date()
+  ): Promise<StudyStatistics> {
+    this.assertUserId(userId);
+
+    const window = this.getPeriodWindow(period, now);
+    const [sessions, transactions] = await this.loadPeriodData(userId, window);
+
+    return this.aggregate(userId, window, sessions, transactions);
+  }
+
+  /**
+   * Estatísticas de um deck específico no período
+   */
+  async getDeckStatistics(
+    userId: string,
+    deckId: string,
+    period: StatisticsPeriod = "month",
+    now: Date = new Date()
+  ): Promise<DeckStatistics> {
+    this.assertUserId(userId);
+
+    if (!deckId?.trim()) {
+      throw new Error("ID do deck é obrigatório.");
+    }
+
+    const window = this.getPeriodWindow(period, now);
+    const [sessions, transactions] = await this.loadPeriodData(userId, window);
+
+    return {
+      deckId,
+      ...this.aggregate(
+        userId,
+        window,
+        sessions.filter((session) => session.deckId === deckId),
+        transactions.filter((transaction) => transaction.deckId === deckId)
+      ),
+    };
+  }
+
+  /**
+   * Estatísticas de todos os decks estudados no período,
+   * ordenadas por cards revisados (decrescente)
+   */
+  async getAllDecksStatistics(
+    userId: string,
+    period: StatisticsPeriod = "month",
+    now: Date = new Date()
+  ): Promise<DeckStatistics[]> {
+    this.assertUserId(userId);
+
+    const window = this.getPeriodWindow(period, now);
+    const [sessions, transactions] = await this.loadPeriodData(userId, window);
+
+    const deckIds = new Set<string>();
+    for (const item of [...sessions, ...transactions]) {
+      if (item.deckId) {
+        deckIds.add(item.deckId);
+      }
+    }
+
+    return [...deckIds]
+      .map((deckId) => ({
+        deckId,
+        ...this.aggregate(
+          userId,
+          window,
+          sessions.filter((session) => session.deckId === deckId),
+          transactions.filter((transaction) => transaction.deckId === deckId)
+        ),
+      }))
+      .sort(
+        (a, b) =>
+          b.cardsReviewed - a.cardsReviewed || a.deckId.localeCompare(b.deckId)
+      );
+  }
+
+  /**
+   * Registra uma sessão de estudo
+   * Se `sessionId` for informado a sessão é sobrescrita, permitindo reenvio seguro
+   * (apenas sessões do próprio usuário)
+   */
+  async recordSession(
+    userId: string,
+    input: RecordStudySessionInput
+  ): Promise<StudySession> {
+    this.assertUserId(userId);
+
+    if (input.accuracyCount > input.totalAnswers) {
+      throw new Error(
+        "accuracyCount não pode ser maior que totalAnswers na sessão de estudo."
+      );
+    }
+
+    const timestamp = input.startedAt ?? new Date();
+    const difficultyBreakdown = createEmptyDifficultyBreakdown();
+
+    for (const key of Object.keys(difficultyBreakdown) as Array<
+      keyof DifficultyBreakdown
+    >) {
+      difficultyBreakdown[key] = input.difficultyBreakdown?.[key] ?? 0;
+    }
+
+    // Período do dia calculado no fuso do usuário
+    const studyTime =
+      input.studyTime ??
+      getStudyTimeOfDay(
+        getHourInTimeZone(
+          timestamp,
+          await this.firestore.getUserTimezone(userId)
+        )
+      );
+
+    const session: StudySession = {
+      id: input.sessionId ?? randomUUID(),
+      userId,
+      deckId: input.deckId ?? null,
+      sessionDurationMinutes: input.sessionDurationMinutes,
+      cardsReviewed: input.cardsReviewed,
+      accuracyCount: input.accuracyCount,
+      totalAnswers: input.totalAnswers,
+      studyTime,
+      difficultyBreakdown,
+      timestamp,
+    };
+
+    const saved = await this.firestore.saveStudySession(session);
+
+    if (!saved) {
+      throw new AppError(
+        `Sessão "${session.id}" pertence a outro usuário.`,
+        409
+      );
+    }
+
+    logger.info("[StatisticsService] Sessão de estudo registrada", {
+      userId,
+      sessionId: saved.id,
+      deckId: saved.deckId,
+      cardsReviewed: saved.cardsReviewed,
+      minutes: saved.sessionDurationMinutes,
+    });
+
+    return saved;
+  }
+
+  /**
+   * Retorna o intervalo [início, fim] do período, terminando no fim do dia atual
+   */
+  getPeriodWindow(
+    period: StatisticsPeriod,
+    now: Date = new Date()
+  ): StatisticsWindow {
+    const end = new Date(now);
+    end.setHours(23, 59, 59, 999);
+
+    if (period === "all") {
+      return { period, start: new Date(0), end };
+    }
+
+    const start = new Date(now);
+    start.setDate(start.getDate() - (STATISTICS_PERIOD_DAYS[period] - 1));
+    start.setHours(0, 0, 0, 0);
+
+    return { period, start, end };
+  }
+
+  // ========== HELPER METHODS ==========
+
+  private async loadPeriodData(
+    userId: string,
+    window: StatisticsWindow
+  ): Promise<[StudySession[], XPTransaction[]]> {
+    return Promise.all([
+      this.firestore.getStudySessionsByPeriod(userId, window.start, window.end),
+      this.firestore.getUserXPTransactionsByPeriod(
+        userId,
+        window.start,
+        window.end
+      ),
+    ]);
+  }
+
+  private aggregate(
+    userId: string,
+    window: StatisticsWindow,
+    sessions: StudySession[],
+    transactions: XPTransaction[]
+  ): StudyStatistics {
+    const timeOfDayDistribution = Object.fromEntries(
+      STUDY_TIMES_OF_DAY.map((time) => [time, 0])
+    ) as Record<StudyTimeOfDay, number>;
+    const difficultyBreakdown = createEmptyDifficultyBreakdown();
+    const xpBySource = Object.fromEntries(
+      Object.values(XPSource).map((source) => [source, 0])
+    ) as Record<XPSource, number>;
+
+    let cardsReviewed = 0;
+    let minutesStudied = 0;
+    let accuracyCount = 0;
+    let totalAnswers = 0;
+
+    for (const session of sessions) {
+      cardsReviewed += session.cardsReviewed;
+      minutesStudied += session.sessionDurationMinutes;
+      accuracyCount += session.accuracyCount;
+      totalAnswers += session.totalAnswers;
+      timeOfDayDistribution[session.studyTime] += 1;
+
+      for (const key of Object.keys(difficultyBreakdown) as Array<
+        keyof DifficultyBreakdown
+      >) {
+        difficultyBreakdown[key] += session.difficultyBreakdown[key];
+      }
+    }
+
+    let totalXP = 0;
+    for (const transaction of transactions) {
+      if (transaction.source in xpBySource) {
+        xpBySource[transaction.source] += transaction.amount;
+      }
+      totalXP += transaction.amount;
+    }
+
+    return {
+      userId,
+      period: window.period,
+      startDate: getLocalDateString(window.start),
+      endDate: getLocalDateString(window.end),
+      totalSessions: sessions.length,
+      cardsReviewed,
+      minutesStudied,
+      averageSessionMinutes: sessions.length
+        ? this.round(minutesStudied / sessions.length)
+        : 0,
+      accuracy: totalAnswers
+        ? this.round((accuracyCount / totalAnswers) * 100)
+        : null,
+      timeOfDayDistribution,
+      difficultyBreakdown,
+      xpBySource,
+      totalXP,
+    };
+  }
+
+  private assertUserId(userId: string): void {
+    if (!userId?.trim()) {
+      throw new Error("ID do usuário é obrigatório.");
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
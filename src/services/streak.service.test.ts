@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { XP_VALUES } from "../config/constants";
+import { STREAK_FREEZE_CONFIG, XP_VALUES } from "../config/constants";
 import type { StreakData } from "../models/StreakData";
 import type { UserProgress } from "../models/UserProgress";
 import { XPSource } from "../models/XPTransaction";
@@ -17,14 +17,23 @@ describe("StreakService", () => {
     mockFirestore = {
       getStreakData: vi.fn(),
       updateStreak: vi.fn(),
+      purchaseStreakFreezes: vi.fn(),
+      equipStreakFreezes: vi.fn(),
       getUserProgress: vi.fn(),
       updateUserProgress: vi.fn(),
       getDailyProgress: vi.fn(),
+      getDailyGoalSettings: vi.fn().mockResolvedValue(null),
+      getUserTimezone: vi.fn().mockResolvedValue(null),
+      getUserTimezones: vi.fn().mockResolvedValue(new Map()),
+      getStreakProcessedDates: vi.fn().mockResolvedValue(new Map()),
+      markStreakProcessed: vi.fn(),
+      createAuditRecord: vi.fn(),
     } as unknown as FirestoreService;
 
     // Mock XPService
     mockXpService = {
       addXP: vi.fn(),
+      spendXP: vi.fn(),
     } as unknown as XPService;
 
     service = new StreakService(mockFirestore, mockXpService);
@@ -308,6 +317,7 @@ describe("StreakService", () => {
           newLevel: 1,
           levelsGained: 0,
         },
+        xpGained: XP_VALUES.STREAK_7_DAYS,
       });
 
       const result = await service.checkStreakBonus(userId, 7);
@@ -357,6 +367,7 @@ describe("StreakService", () => {
           newLevel: 2,
           levelsGained: 1,
         },
+        xpGained: XP_VALUES.STREAK_30_DAYS,
       });
 
       const result = await service.checkStreakBonus(userId, 30);
@@ -455,6 +466,7 @@ describe("StreakService", () => {
           newLevel: 2,
           levelsGained: 1,
         },
+        xpGained: XP_VALUES.STREAK_7_DAYS,
       });
 
       const result = await service.checkStreakBonus(userId, 14);
@@ -533,29 +545,33 @@ describe("StreakService", () => {
           timestamp: new Date(),
         });
 
-      // Mock getStreakData para user1 (incremento) e user3 (novo streak)
-      vi.mocked(mockFirestore.getStreakData)
-        .mockResolvedValueOnce({
+      // Mock getStreakData por usuário (o job também consulta os freezes)
+      const streaksByUser: Record<string, StreakData> = {
+        user1: {
           userId: "user1",
           current: 6,
           longest: 10,
           lastUpdate: new Date(),
           history: [],
-        })
-        .mockResolvedValueOnce({
+        },
+        user2: {
           userId: "user2",
           current: 5,
           longest: 10,
           lastUpdate: new Date(),
           history: [],
-        })
-        .mockResolvedValueOnce({
+        },
+        user3: {
           userId: "user3",
           current: 0,
           longest: 3,
           lastUpdate: new Date(),
           history: [],
-        });
+        },
+      };
+      vi.mocked(mockFirestore.getStreakData).mockImplementation(
+        async (userId: string) => streaksByUser[userId]!
+      );
 
       // Mock updateStreak
       vi.mocked(mockFirestore.updateStreak)
@@ -603,5 +619,332 @@ describe("StreakService", () => {
       expect(result.started).toBe(1); // user3: ontem atingiu mas anteontem não -> novo streak
       expect(result.errors).toHaveLength(0);
     });
+
+    it("deve processar apenas usuários cujo dia local mudou desde o último processamento", async () => {
+      (mockFirestore as any).getAllUserIds = vi
+        .fn()
+        .mockResolvedValue(["user-tokyo", "user-sp"]);
+      vi.mocked(mockFirestore.getUserTimezones).mockResolvedValue(
+        new Map([
+          ["user-tokyo", "Asia/Tokyo"],
+          ["user-sp", "America/Sao_Paulo"],
+        ])
+      );
+      vi.mocked(mockFirestore.getStreakProcessedDates).mockResolvedValue(
+        new Map([
+          ["user-tokyo", "2025-11-11"],
+          ["user-sp", "2025-11-11"],
+        ])
+      );
+      vi.mocked(mockFirestore.getDailyProgress).mockRejectedValue(
+        new Error("Progresso diário não encontrado.")
+      );
+      vi.mocked(mockFirestore.getStreakData).mockResolvedValue({
+        userId: "user-tokyo",
+        current: 4,
+        longest: 4,
+        lastUpdate: new Date(),
+        history: [],
+      });
+      vi.mocked(mockFirestore.updateStreak).mockResolvedValue({
+        userId: "user-tokyo",
+        current: 0,
+        longest: 4,
+        lastUpdate: new Date(),
+        history: [],
+      });
+
+      // 15h UTC = meia-noite em Tóquio (12/11) e meio-dia em São Paulo
+      const result = await service.updateAllStreaks({
+        now: new Date("2025-11-11T15:00:00Z"),
+        onlyDayChanged: true,
+      });
+
+      expect(result.totalProcessed).toBe(1);
+      expect(result.reset).toBe(1);
+      expect(mockFirestore.getDailyProgress).toHaveBeenCalledWith(
+        "user-tokyo",
+        "2025-11-11"
+      );
+      expect(mockFirestore.getDailyProgress).not.toHaveBeenCalledWith(
+        "user-sp",
+        expect.any(String)
+      );
+      expect(mockFirestore.updateStreak).toHaveBeenCalledWith(
+        "user-tokyo",
+        expect.objectContaining({
+          current: 0,
+          history: [{ date: "2025-11-12", count: 0 }],
+        })
+      );
+      expect(mockFirestore.markStreakProcessed).toHaveBeenCalledTimes(1);
+      expect(mockFirestore.markStreakProcessed).toHaveBeenCalledWith(
+        "user-tokyo",
+        "2025-11-12"
+      );
+    });
+
+    it("deve processar fusos cujo horário de verão pula a meia-noite", async () => {
+      (mockFirestore as any).getAllUserIds = vi
+        .fn()
+        .mockResolvedValue(["user-santiago"]);
+      vi.mocked(mockFirestore.getUserTimezones).mockResolvedValue(
+        new Map([["user-santiago", "America/Santiago"]])
+      );
+      vi.mocked(mockFirestore.getStreakProcessedDates).mockResolvedValue(
+        new Map([["user-santiago", "2025-09-06"]])
+      );
+      vi.mocked(mockFirestore.getDailyProgress).mockRejectedValue(
+        new Error("Progresso diário não encontrado.")
+      );
+      vi.mocked(mockFirestore.getStreakData).mockResolvedValue({
+        userId: "user-santiago",
+        current: 2,
+        longest: 2,
+        lastUpdate: new Date(),
+        history: [],
+      });
+      vi.mocked(mockFirestore.updateStreak).mockResolvedValue({
+        userId: "user-santiago",
+        current: 0,
+        longest: 2,
+        lastUpdate: new Date(),
+        history: [],
+      });
+
+      // Em 07/09/2025 Santiago passa de 23:59 direto para 01:00
+      const result = await service.updateAllStreaks({
+        now: new Date("2025-09-07T04:00:00Z"),
+        onlyDayChanged: true,
+      });
+
+      expect(result.totalProcessed).toBe(1);
+      expect(mockFirestore.getDailyProgress).toHaveBeenCalledWith(
+        "user-santiago",
+        "2025-09-06"
+      );
+      expect(mockFirestore.markStreakProcessed).toHaveBeenCalledWith(
+        "user-santiago",
+        "2025-09-07"
+      );
+    });
+
+    it("não marca como processado o usuário com erro", async () => {
+      (mockFirestore as any).getAllUserIds = vi
+        .fn()
+        .mockResolvedValue(["user-123"]);
+      vi.mocked(mockFirestore.getDailyGoalSettings).mockRejectedValue(
+        new Error("Firestore indisponível")
+      );
+
+      const result = await service.updateAllStreaks({ onlyDayChanged: true });
+
+      expect(result.errors).toHaveLength(1);
+      expect(mockFirestore.markStreakProcessed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("streak freezes", () => {
+    const createStreak = (overrides: Partial<StreakData> = {}): StreakData => ({
+      userId: "user-123",
+      current: 5,
+      longest: 10,
+      lastUpdate: new Date(),
+      history: [],
+      freezesAvailable: 0,
+      freezesEquipped: 0,
+      ...overrides,
+    });
+
+    it("deve consumir um freeze equipado em vez de resetar o streak", async () => {
+      (mockFirestore as any).getAllUserIds = vi
+        .fn()
+        .mockResolvedValue(["user-123"]);
+      vi.mocked(mockFirestore.getDailyProgress).mockRejectedValue(
+        new Error("Progresso diário não encontrado.")
+      );
+      vi.mocked(mockFirestore.getStreakData).mockResolvedValue(
+        createStreak({ freezesEquipped: 1 })
+      );
+
+      const result = await service.updateAllStreaks();
+
+      expect(result.frozen).toBe(1);
+      expect(result.reset).toBe(0);
+      expect(mockFirestore.updateStreak).toHaveBeenCalledWith(
+        "user-123",
+        expect.objectContaining({
+          freezesEquipped: 0,
+          history: [expect.objectContaining({ count: 5, frozen: true })],
+        })
+      );
+      expect(mockFirestore.updateUserProgress).not.toHaveBeenCalled();
+    });
+
+    it("deve resetar o streak quando não há freeze equipado", async () => {
+      (mockFirestore as any).getAllUserIds = vi
+        .fn()
+        .mockResolvedValue(["user-123"]);
+      vi.mocked(mockFirestore.getDailyProgress).mockRejectedValue(
+        new Error("Progresso diário não encontrado.")
+      );
+      vi.mocked(mockFirestore.getStreakData).mockResolvedValue(
+        createStreak({ freezesAvailable: 2 })
+      );
+      vi.mocked(mockFirestore.updateStreak).mockResolvedValue(
+        createStreak({ current: 0 })
+      );
+
+      const result = await service.updateAllStreaks();
+
+      expect(result.frozen).toBe(0);
+      expect(result.reset).toBe(1);
+    });
+
+    it("deve manter o streak consecutivo quando ontem foi coberto por freeze", async () => {
+      vi.mocked(mockFirestore.getDailyProgress).mockImplementation(
+        async (userId: string, date: string) => {
+          if (date === "2025-11-11") {
+            return {
+              userId,
+              date,
+              cardsReviewed: 20,
+              goalMet: true,
+              xpEarned: 0,
+              timestamp: new Date(),
+            };
+          }
+          throw new Error("Progresso diário não encontrado.");
+        }
+      );
+      vi.mocked(mockFirestore.getStreakData).mockResolvedValue(
+        createStreak({
+          history: [{ date: "2025-11-10", count: 5, frozen: true }],
+        })
+      );
+      vi.mocked(mockFirestore.updateStreak).mockResolvedValue(
+        createStreak({ current: 6 })
+      );
+      vi.mocked(mockFirestore.getUserProgress).mockResolvedValue({
+        lastActivityDate: null,
+      } as UserProgress);
+
+      const result = await service.checkAndUpdateDailyStreak(
+        "user-123",
+        "2025-11-11"
+      );
+
+      expect(result?.streakData.current).toBe(6);
+      expect(mockFirestore.updateStreak).toHaveBeenCalledWith(
+        "user-123",
+        expect.objectContaining({ current: 6 })
+      );
+    });
+
+    it("deve ganhar um freeze ao completar 7 dias de streak", async () => {
+      vi.mocked(mockFirestore.getStreakData).mockResolvedValue(
+        createStreak({ current: 6, freezesAvailable: 1 })
+      );
+      vi.mocked(mockFirestore.updateStreak).mockResolvedValue(
+        createStreak({ current: 7, freezesAvailable: 2 })
+      );
+      vi.mocked(mockFirestore.getUserProgress).mockResolvedValue({
+        lastActivityDate: new Date(),
+      } as UserProgress);
+
+      const result = await service.incrementStreak("user-123", "2025-11-11");
+
+      expect(result.freezeEarned).toBe(true);
+      expect(mockFirestore.updateStreak).toHaveBeenCalledWith(
+        "user-123",
+        expect.objectContaining({ current: 7, freezesAvailable: 2 })
+      );
+    });
+
+    it("deve comprar freezes gastando XP", async () => {
+      vi.mocked(mockFirestore.purchaseStreakFreezes).mockResolvedValue({
+        status: "purchased",
+        before: { totalXP: 2500, level: 4 } as UserProgress,
+        after: { totalXP: 1500, level: 3 } as UserProgress,
+        streak: createStreak({ freezesAvailable: 2 }),
+      });
+
+      const result = await service.purchaseStreakFreezes("user-123", 2);
+
+      expect(mockFirestore.purchaseStreakFreezes).toHaveBeenCalledWith(
+        "user-123",
+        expect.objectContaining({
+          quantity: 2,
+          maxInventory: STREAK_FREEZE_CONFIG.MAX_INVENTORY,
+          transaction: expect.objectContaining({
+            amount: -STREAK_FREEZE_CONFIG.XP_COST * 2,
+            source: XPSource.STREAK_FREEZE_PURCHASE,
+          }),
+        })
+      );
+      expect(mockXpService.spendXP).not.toHaveBeenCalled();
+      expect(result.available).toBe(2);
+      expect(result.xpSpent).toBe(STREAK_FREEZE_CONFIG.XP_COST * 2);
+      expect(result.totalXP).toBe(1500);
+    });
+
+    it("deve rejeitar compra acima do limite do inventário", async () => {
+      vi.mocked(mockFirestore.purchaseStreakFreezes).mockResolvedValue({
+        status: "inventory_full",
+      });
+
+      await expect(
+        service.purchaseStreakFreezes("user-123", 1)
+      ).rejects.toThrow("Limite de");
+      expect(mockFirestore.createAuditRecord).not.toHaveBeenCalled();
+    });
+
+    it("deve rejeitar compra sem XP suficiente", async () => {
+      vi.mocked(mockFirestore.purchaseStreakFreezes).mockResolvedValue({
+        status: "insufficient_xp",
+        totalXP: 100,
+      });
+
+      await expect(
+        service.purchaseStreakFreezes("user-123", 1)
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it("deve equipar freezes do estoque respeitando o limite", async () => {
+      vi.mocked(mockFirestore.equipStreakFreezes).mockResolvedValueOnce({
+        status: "equipped",
+        streak: createStreak({ freezesAvailable: 2, freezesEquipped: 2 }),
+      });
+
+      const result = await service.equipStreakFreezes("user-123");
+
+      expect(mockFirestore.equipStreakFreezes).toHaveBeenCalledWith(
+        "user-123",
+        { quantity: 1, maxEquipped: STREAK_FREEZE_CONFIG.MAX_EQUIPPED }
+      );
+      expect(mockFirestore.updateStreak).not.toHaveBeenCalled();
+      expect(result.equipped).toBe(2);
+
+      vi.mocked(mockFirestore.equipStreakFreezes).mockResolvedValueOnce({
+        status: "equipped_full",
+      });
+
+      await expect(
+        service.equipStreakFreezes(
+          "user-123",
+          STREAK_FREEZE_CONFIG.MAX_EQUIPPED
+        )
+      ).rejects.toThrow("podem estar equipados");
+    });
+
+    it("deve rejeitar equipar sem freezes no estoque", async () => {
+      vi.mocked(mockFirestore.equipStreakFreezes).mockResolvedValue({
+        status: "insufficient_stock",
+      });
+
+      await expect(
+        service.equipStreakFreezes("user-123")
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
   });
 });
@@ -1,34 +1,83 @@
-import { DAILY_GOAL_TARGET, XP_VALUES } from "../config/constants";
-import type { StreakData, StreakHistoryItem } from "../models/StreakData";
+import { randomUUID } from "crypto";
+import { STREAK_FREEZE_CONFIG, XP_VALUES } from "../config/constants";
+import { AppError } from "../middlewares/error.middleware";
+import { resolveDailyGoal } from "../models/DailyGoal";
+import { hasMetDailyGoal } from "../models/DailyProgress";
+import {
+  isFrozenDay,
+  type StreakData,
+  type StreakHistoryItem,
+} from "../models/StreakData";
+import { InboxNotificationType } from "../models/InboxNotification";
 import type { UserProgress } from "../models/UserProgress";
+import { AuditAction } from "../models/AuditRecord";
 import { XPSource } from "../models/XPTransaction";
-import { FirestoreService } from "./firestore.service";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { AuditService } from "./audit.service";
+import { LevelService } from "./level.service";
+import { NotificationInboxService } from "./notification-inbox.service";
 import { XPService } from "./xp.service";
+import { toDate } from "../utils/date";
 import { logger } from "../utils/logger";
+import {
+  addDaysToDateString,
+  DEFAULT_TIMEZONE,
+  getDateStringInTimeZone,
+} from "../utils/timezone";
 
 export interface StreakIncrementResult {
   streakData: StreakData;
   bonusAwarded: number; // XP bônus (0, 200 ou 300)
   milestone?: 7 | 30 | undefined; // Qual milestone foi atingido
+  freezeEarned?: boolean | undefined; // Ganhou um streak freeze neste incremento
 }
 
+export interface StreakFreezeStatus {
+  userId: string;
+  available: number;
+  equipped: number;
+  maxInventory: number;
+  maxEquipped: number;
+  xpCost: number;
+  // Dias cobertos por freeze no histórico
+  frozenDays: string[];
+}
+
+export interface StreakFreezePurchaseResult extends StreakFreezeStatus {
+  xpSpent: number;
+  totalXP: number;
+  level: number;
+}
+
+// Resultado da avaliação diária do streak feita pelo job
+type StreakDayOutcome = "incremented" | "reset" | "started" | "frozen";
+
 export class StreakService {
   constructor(
-    private readonly firestore: FirestoreService = new FirestoreService(),
-    private readonly xpService: XPService = new XPService()
+    private readonly firestore: GamificationRepository = getRepository(),
+    private readonly xpService: XPService = new XPService(),
+    private readonly auditService: AuditService = new AuditService(firestore),
+    private readonly inboxService: NotificationInboxService = new NotificationInboxService(
+      firestore
+    ),
+    private readonly levelService: LevelService = new LevelService()
   ) {}
 
   /**
    * Incrementa o streak do usuário e verifica bônus
    * @param userId ID do usuário
+   * @param date Dia (YYYY-MM-DD) registrado no histórico (padrão: hoje)
    * @returns Resultado com streak atualizado e bônus premiado
    */
-  async incrementStreak(userId: string): Promise<StreakIncrementResult> {
+  async incrementStreak(
+    userId: string,
+    date?: string
+  ): Promise<StreakIncrementResult> {
     if (!userId?.trim()) {
       throw new Error("ID do usuário é obrigatório.");
     }
 
-    const today = this.getTodayDate();
+    const today = date ?? (await this.getTodayDate(userId));
 
     // Obter dados de streak atuais (ou criar se não existir)
     let currentStreakData: StreakData;
@@ -72,6 +121,11 @@ export class StreakService {
     const newCurrent = currentStreakData.current + 1;
     const newLongest = Math.max(newCurrent, currentStreakData.longest);
 
+    // A cada N dias consecutivos o usuário ganha um freeze (respeitando o limite)
+    const freezeEarned =
+      newCurrent % STREAK_FREEZE_CONFIG.EARN_EVERY_DAYS === 0 &&
+      this.countFreezes(currentStreakData) < STREAK_FREEZE_CONFIG.MAX_INVENTORY;
+
     // Adicionar à história (já verificamos que não existe entrada para hoje)
     const updatedHistory = [
       ...currentStreakData.history,
@@ -84,6 +138,9 @@ export class StreakService {
       longest: newLongest,
       history: updatedHistory,
       lastUpdate: new Date(),
+      ...(freezeEarned
+        ? { freezesAvailable: (currentStreakData.freezesAvailable ?? 0) + 1 }
+        : {}),
     });
 
     // Também atualizar no UserProgress para manter sincronizado
@@ -93,6 +150,14 @@ export class StreakService {
       lastActivityDate: new Date(),
     });
 
+    await this.auditStreakChange(
+      userId,
+      AuditAction.STREAK_INCREMENT,
+      currentStreakData,
+      updatedStreakData,
+      { date: today, freezeEarned }
+    );
+
     // Verificar e premiar bônus de streak
     const bonusResult = await this.checkStreakBonus(userId, newCurrent);
 
@@ -100,21 +165,158 @@ export class StreakService {
       userId,
       newCurrent,
       newLongest,
+      freezeEarned,
     });
 
     return {
       streakData: updatedStreakData,
       bonusAwarded: bonusResult.bonusAwarded,
       milestone: bonusResult.milestone,
+      freezeEarned,
+    };
+  }
+
+  /**
+   * Retorna o inventário de streak freezes do usuário
+   * @param userId ID do usuário
+   */
+  async getStreakFreezes(userId: string): Promise<StreakFreezeStatus> {
+    if (!userId?.trim()) {
+      throw new Error("ID do usuário é obrigatório.");
+    }
+
+    return this.buildFreezeStatus(await this.getOrCreateStreakData(userId));
+  }
+
+  /**
+   * Compra streak freezes com XP
+   * @param userId ID do usuário
+   * @param quantity Quantidade de freezes (padrão: 1)
+   */
+  async purchaseStreakFreezes(
+    userId: string,
+    quantity = 1
+  ): Promise<StreakFreezePurchaseResult> {
+    if (!userId?.trim()) {
+      throw new Error("ID do usuário é obrigatório.");
+    }
+
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new AppError("Quantidade de freezes inválida.", 400);
+    }
+
+    const xpCost = STREAK_FREEZE_CONFIG.XP_COST * quantity;
+    const sourceId = `streak-freeze-${quantity}`;
+
+    // Estoque, saldo, débito e freezes na mesma transação: compras
+    // simultâneas não passam do limite nem cobram duas vezes
+    const outcome = await this.firestore.purchaseStreakFreezes(userId, {
+      quantity,
+      maxInventory: STREAK_FREEZE_CONFIG.MAX_INVENTORY,
+      transaction: {
+        id: randomUUID(),
+        userId,
+        amount: -xpCost,
+        source: XPSource.STREAK_FREEZE_PURCHASE,
+        sourceId,
+        description: `Compra de ${quantity} streak freeze(s)`,
+        timestamp: new Date(),
+      },
+      levelFor: (totalXP) => {
+        const level = this.levelService.calculateLevel(totalXP);
+        return {
+          level,
+          currentXP: this.levelService.getCurrentXP(totalXP, level),
+        };
+      },
+    });
+
+    if (outcome.status === "inventory_full") {
+      throw new AppError(
+        `Limite de ${STREAK_FREEZE_CONFIG.MAX_INVENTORY} streak freezes atingido.`,
+        409
+      );
+    }
+
+    if (outcome.status === "insufficient_xp") {
+      throw new AppError(
+        `XP insuficiente. Necessário: ${xpCost}, disponível: ${outcome.totalXP}.`,
+        400
+      );
+    }
+
+    await this.auditService.record({
+      action: AuditAction.XP_CHANGE,
+      targetUserId: userId,
+      before: { totalXP: outcome.before.totalXP, level: outcome.before.level },
+      after: { totalXP: outcome.after.totalXP, level: outcome.after.level },
+      details: {
+        amount: -xpCost,
+        source: XPSource.STREAK_FREEZE_PURCHASE,
+        sourceId,
+      },
+    });
+
+    logger.info("[StreakService] Streak freezes comprados", {
+      userId,
+      quantity,
+      xpCost,
+    });
+
+    return {
+      ...this.buildFreezeStatus(outcome.streak),
+      xpSpent: xpCost,
+      totalXP: outcome.after.totalXP,
+      level: outcome.after.level,
     };
   }
 
+  /**
+   * Equipa freezes do estoque. Apenas freezes equipados são consumidos
+   * automaticamente quando um dia é perdido.
+   * @param userId ID do usuário
+   * @param quantity Quantidade de freezes a equipar (padrão: 1)
+   */
+  async equipStreakFreezes(
+    userId: string,
+    quantity = 1
+  ): Promise<StreakFreezeStatus> {
+    if (!userId?.trim()) {
+      throw new Error("ID do usuário é obrigatório.");
+    }
+
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new AppError("Quantidade de freezes inválida.", 400);
+    }
+
+    // Leitura e escrita na mesma transação: pedidos simultâneos não
+    // equipam o mesmo freeze duas vezes nem passam do limite
+    const outcome = await this.firestore.equipStreakFreezes(userId, {
+      quantity,
+      maxEquipped: STREAK_FREEZE_CONFIG.MAX_EQUIPPED,
+    });
+
+    if (outcome.status === "insufficient_stock") {
+      throw new AppError("Streak freezes insuficientes no estoque.", 409);
+    }
+
+    if (outcome.status === "equipped_full") {
+      throw new AppError(
+        `No máximo ${STREAK_FREEZE_CONFIG.MAX_EQUIPPED} streak freezes podem estar equipados.`,
+        409
+      );
+    }
+
+    return this.buildFreezeStatus(outcome.streak);
+  }
+
   /**
    * Reseta o streak do usuário para 0
    * @param userId ID do usuário
+   * @param date Dia (YYYY-MM-DD) em que a quebra é registrada (padrão: hoje no fuso do usuário)
    * @returns Streak data resetado
    */
-  async resetStreak(userId: string): Promise<StreakData> {
+  async resetStreak(userId: string, date?: string): Promise<StreakData> {
     if (!userId?.trim()) {
       throw new Error("ID do usuário é obrigatório.");
     }
@@ -134,7 +336,7 @@ export class StreakService {
       };
     }
 
-    const today = this.getTodayDate();
+    const today = date ?? (await this.getTodayDate(userId));
 
     // Resetar streak mas preservar longest
     const updatedStreakData = await this.firestore.updateStreak(userId, {
@@ -153,9 +355,66 @@ export class StreakService {
       longestStreak: currentStreakData.longest,
     });
 
+    await this.auditStreakChange(
+      userId,
+      AuditAction.STREAK_RESET,
+      currentStreakData,
+      updatedStreakData,
+      { date: today }
+    );
+
     return updatedStreakData;
   }
 
+  /**
+   * Corrige o streak manualmente (antes feito por scripts/fix-user-streak.ts).
+   * Define o valor atual, registra o dia no histórico e sincroniza o UserProgress.
+   * @param userId ID do usuário
+   * @param current Novo valor do streak atual
+   * @param date Dia (YYYY-MM-DD) registrado no histórico (padrão: hoje)
+   * @returns Streak antes e depois da correção
+   */
+  async repairStreak(
+    userId: string,
+    current: number,
+    date?: string
+  ): Promise<{ previous: StreakData; streakData: StreakData }> {
+    if (!userId?.trim()) {
+      throw new Error("ID do usuário é obrigatório.");
+    }
+
+    if (!Number.isInteger(current) || current < 0) {
+      throw new AppError(
+        "O streak deve ser um inteiro maior ou igual a 0.",
+        400
+      );
+    }
+
+    const previous = await this.getOrCreateStreakData(userId);
+    const day = date ?? (await this.getTodayDate(userId));
+    const longest = Math.max(current, previous.longest);
+
+    const history = previous.history.some((item) => item.date === day)
+      ? previous.history.map((item) =>
+          item.date === day ? { ...item, count: current } : item
+        )
+      : [...previous.history, { date: day, count: current }];
+
+    const streakData = await this.firestore.updateStreak(userId, {
+      current,
+      longest,
+      history,
+      lastUpdate: new Date(),
+    });
+
+    await this.firestore.updateUserProgress(userId, {
+      currentStreak: current,
+      longestStreak: longest,
+    });
+
+    return { previous, streakData };
+  }
+
   /**
    * Verifica e atualiza o streak baseado na meta diária atual
    * Deve ser chamado quando o usuário completa a meta diária pela primeira vez no dia
@@ -177,7 +436,7 @@ export class StreakService {
       throw new Error("ID do usuário é obrigatório.");
     }
 
-    const checkDate = date ?? this.getTodayDate();
+    const checkDate = date ?? (await this.getTodayDate(userId));
 
     logger.debug("[StreakService] checkAndUpdateDailyStreak iniciado", {
       userId,
@@ -191,19 +450,21 @@ export class StreakService {
         checkDate
       );
 
+      // Meta em vigor em cada dia (o usuário pode ter alterado a meta)
+      const goalSettings = await this.firestore.getDailyGoalSettings(userId);
+      const goal = resolveDailyGoal(goalSettings, checkDate);
+
       logger.debug("[StreakService] Progresso diário obtido", {
         userId,
         checkDate,
         cardsReviewed: dailyProgress.cardsReviewed,
+        minutesStudied: dailyProgress.minutesStudied,
         goalMet: dailyProgress.goalMet,
-        target: DAILY_GOAL_TARGET,
+        goal,
       });
 
       // Verificar se a meta foi atingida hoje
-      if (
-        !dailyProgress.goalMet ||
-        dailyProgress.cardsReviewed < DAILY_GOAL_TARGET
-      ) {
+      if (!dailyProgress.goalMet || !hasMetDailyGoal(dailyProgress, goal)) {
         logger.debug("[StreakService] Meta não atingida, ignorando streak", {
           userId,
           checkDate,
@@ -265,7 +526,10 @@ export class StreakService {
         );
         yesterdayGoalMet =
           yesterdayProgress.goalMet &&
-          yesterdayProgress.cardsReviewed >= DAILY_GOAL_TARGET;
+          hasMetDailyGoal(
+            yesterdayProgress,
+            resolveDailyGoal(goalSettings, yesterday)
+          );
 
         logger.debug("[StreakService] Verificando meta de ontem", {
           userId,
@@ -282,6 +546,11 @@ export class StreakService {
         yesterdayGoalMet = false;
       }
 
+      // Dia coberto por streak freeze mantém o streak consecutivo
+      if (!yesterdayGoalMet && isFrozenDay(streakData?.history, yesterday)) {
+        yesterdayGoalMet = true;
+      }
+
       // Se ontem NÃO atingiu a meta, precisamos resetar o streak para 1
       if (!yesterdayGoalMet) {
         // Resetar streak e começar novo com 1
@@ -301,7 +570,7 @@ export class StreakService {
         checkDate,
         currentStreak: streakData?.current ?? 0,
       });
-      return await this.incrementStreak(userId);
+      return await this.incrementStreak(userId, checkDate);
     } catch (error) {
       // Se não existe progresso diário, não fazer nada
       logger.error("[StreakService] Erro ao processar streak", {
@@ -324,11 +593,13 @@ export class StreakService {
     date: string
   ): Promise<StreakIncrementResult> {
     // Obter dados atuais para preservar longest
+    let currentValue = 0;
     let currentLongest = 0;
     let currentHistory: StreakHistoryItem[] = [];
 
     try {
       const currentData = await this.firestore.getStreakData(userId);
+      currentValue = currentData.current;
       currentLongest = currentData.longest;
       currentHistory = currentData.history || [];
     } catch {
@@ -357,6 +628,14 @@ export class StreakService {
         lastActivityDate: new Date(),
       });
 
+      await this.auditStreakChange(
+        userId,
+        AuditAction.STREAK_START,
+        { current: currentValue, longest: currentLongest },
+        updatedStreakData,
+        { date }
+      );
+
       logger.info(
         "[StreakService] startNewStreak - Streak criado com sucesso",
         {
@@ -380,6 +659,25 @@ export class StreakService {
     }
   }
 
+  /**
+   * Registra a mudança de streak na trilha de auditoria
+   */
+  private async auditStreakChange(
+    userId: string,
+    action: AuditAction,
+    before: Pick<StreakData, "current" | "longest">,
+    after: Pick<StreakData, "current" | "longest">,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await this.auditService.record({
+      action,
+      targetUserId: userId,
+      before: { current: before.current, longest: before.longest },
+      after: { current: after.current, longest: after.longest },
+      details,
+    });
+  }
+
   /**
    * Retorna uma data X dias atrás no formato YYYY-MM-DD
    * @param dateStr Data base no formato YYYY-MM-DD
@@ -400,6 +698,22 @@ export class StreakService {
     return `${y}-${m}-${d}`;
   }
 
+  /**
+   * Guarda o marco de streak na caixa de entrada do usuário
+   */
+  private async recordMilestone(
+    userId: string,
+    streak: number,
+    bonusXP: number
+  ): Promise<void> {
+    await this.inboxService.record(userId, {
+      type: InboxNotificationType.STREAK_MILESTONE,
+      title: `${streak} dias de streak! 🔥`,
+      body: `Você estudou ${streak} dias seguidos e ganhou ${bonusXP} XP de bônus.`,
+      data: { streak: String(streak), bonusXP: String(bonusXP) },
+    });
+  }
+
   /**
    * Verifica se o usuário atingiu milestone de streak e premia bônus
    * @param userId ID do usuário
@@ -420,9 +734,10 @@ export class StreakService {
 
     // Obter progresso do usuário para verificar se já foi premiado hoje
     const userProgress = await this.firestore.getUserProgress(userId);
-    const today = this.getTodayDate();
+    const timezone = await this.firestore.getUserTimezone(userId);
+    const today = getDateStringInTimeZone(new Date(), timezone);
     const lastActivityDate = userProgress.lastActivityDate
-      ? this.toDateString(userProgress.lastActivityDate)
+      ? this.toDateString(userProgress.lastActivityDate, timezone)
       : null;
 
     // Verificar se já teve atividade hoje (evitar dupla premiação)
@@ -439,6 +754,11 @@ export class StreakService {
         XPSource.STREAK_BONUS,
         `streak-30-${today}`
       );
+      await this.recordMilestone(
+        userId,
+        currentStreak,
+        XP_VALUES.STREAK_30_DAYS
+      );
 
       return {
         bonusAwarded: XP_VALUES.STREAK_30_DAYS,
@@ -454,6 +774,11 @@ export class StreakService {
         XPSource.STREAK_BONUS,
         `streak-7-${today}`
       );
+      await this.recordMilestone(
+        userId,
+        currentStreak,
+        XP_VALUES.STREAK_7_DAYS
+      );
 
       return {
         bonusAwarded: XP_VALUES.STREAK_7_DAYS,
@@ -465,11 +790,16 @@ export class StreakService {
   }
 
   /**
-   * Atualiza todos os streaks dos usuários (executado por cron job à meia-noite)
+   * Atualiza todos os streaks dos usuários (executado por cron job)
    * Verifica a meta diária de ontem e incrementa/reseta streaks conforme necessário
    *
    * LÓGICA:
-   * - Roda à meia-noite verificando o dia anterior (ontem)
+   * - "Ontem" é calculado no fuso de cada usuário (sem fuso: DEFAULT_TIMEZONE)
+   * - Cada usuário avaliado fica marcado com o dia local processado; com
+   *   onlyDayChanged, processa apenas usuários cujo dia local mudou desde a
+   *   última marcação. Não depende da hora local 0 (que não existe em fusos
+   *   cuja mudança de horário de verão pula a meia-noite) e usuários que
+   *   ficaram para trás são retomados na execução seguinte
    * - Se ontem atingiu meta E anteontem também → incrementa streak
    * - Se ontem atingiu meta MAS anteontem não → inicia novo streak em 1
    * - Se ontem NÃO atingiu meta → reseta streak para 0
@@ -480,30 +810,48 @@ export class StreakService {
     batchSize?: number;
     batchDelayMs?: number;
     maxUsers?: number;
+    // Momento de referência (padrão: agora)
+    now?: Date;
+    // Processar apenas usuários cujo dia local mudou desde o último processamento
+    onlyDayChanged?: boolean;
   }): Promise<{
     totalProcessed: number;
     incremented: number;
     reset: number;
     started: number;
+    frozen: number;
     skipped: number;
     errors: string[];
   }> {
     const batchSize = options?.batchSize ?? 50;
     const batchDelayMs = options?.batchDelayMs ?? 0;
     const maxUsers = options?.maxUsers ?? Infinity;
+    const now = options?.now ?? new Date();
 
-    const yesterday = this.getYesterdayDate();
-    const dayBeforeYesterday = this.getDateMinusDays(yesterday, 1);
     const errors: string[] = [];
+    const counts: Record<StreakDayOutcome, number> = {
+      incremented: 0,
+      reset: 0,
+      started: 0,
+      frozen: 0,
+    };
     let totalProcessed = 0;
-    let incremented = 0;
-    let reset = 0;
-    let started = 0;
     let skipped = 0;
 
     try {
       // Buscar todos os usuários com progresso
       let allUserIds = await this.getAllUserIds();
+      const timezones = await this.firestore.getUserTimezones();
+      const getToday = (userId: string) =>
+        getDateStringInTimeZone(now, timezones.get(userId) ?? DEFAULT_TIMEZONE);
+
+      // Apenas usuários cujo dia local ainda não foi processado
+      if (options?.onlyDayChanged) {
+        const processedDates = await this.firestore.getStreakProcessedDates();
+        allUserIds = allUserIds.filter(
+          (userId) => processedDates.get(userId) !== getToday(userId)
+        );
+      }
 
       // Limitar número de usuários se configurado
       if (allUserIds.length > maxUsers) {
@@ -532,50 +880,9 @@ export class StreakService {
           try {
             totalProcessed++;
 
-            // Verificar se a meta diária de ontem foi atingida
-            let yesterdayGoalMet = false;
-            try {
-              const yesterdayProgress = await this.firestore.getDailyProgress(
-                userId,
-                yesterday
-              );
-              yesterdayGoalMet =
-                yesterdayProgress.goalMet &&
-                yesterdayProgress.cardsReviewed >= DAILY_GOAL_TARGET;
-            } catch {
-              yesterdayGoalMet = false;
-            }
-
-            if (!yesterdayGoalMet) {
-              // Ontem NÃO atingiu meta: resetar streak
-              await this.resetStreak(userId);
-              reset++;
-              continue;
-            }
-
-            // Ontem atingiu meta, verificar anteontem para saber se incrementa ou inicia novo
-            let dayBeforeYesterdayGoalMet = false;
-            try {
-              const dayBeforeProgress = await this.firestore.getDailyProgress(
-                userId,
-                dayBeforeYesterday
-              );
-              dayBeforeYesterdayGoalMet =
-                dayBeforeProgress.goalMet &&
-                dayBeforeProgress.cardsReviewed >= DAILY_GOAL_TARGET;
-            } catch {
-              dayBeforeYesterdayGoalMet = false;
-            }
-
-            if (dayBeforeYesterdayGoalMet) {
-              // Anteontem também atingiu: incrementar streak
-              await this.incrementStreak(userId);
-              incremented++;
-            } else {
-              // Anteontem NÃO atingiu: iniciar novo streak em 1
-              await this.startNewStreak(userId, yesterday);
-              started++;
-            }
+            const today = getToday(userId);
+            counts[await this.evaluateStreakDay(userId, today)]++;
+            await this.firestore.markStreakProcessed(userId, today);
           } catch (err) {
             const errorMsg = `Erro ao atualizar streak do usuário ${userId}: ${
               err instanceof Error ? err.message : String(err)
@@ -593,9 +900,7 @@ export class StreakService {
               );
               return {
                 totalProcessed,
-                incremented,
-                reset,
-                started,
+                ...counts,
                 skipped: skipped + (allUserIds.length - totalProcessed),
                 errors: [
                   ...errors,
@@ -617,9 +922,7 @@ export class StreakService {
 
       return {
         totalProcessed,
-        incremented,
-        reset,
-        started,
+        ...counts,
         skipped,
         errors,
       };
@@ -632,6 +935,87 @@ export class StreakService {
     }
   }
 
+  /**
+   * Avalia o dia local anterior a `today` para um usuário e aplica o
+   * resultado ao streak (freeze, reset, incremento ou novo streak)
+   */
+  private async evaluateStreakDay(
+    userId: string,
+    today: string
+  ): Promise<StreakDayOutcome> {
+    const yesterday = addDaysToDateString(today, -1);
+    const dayBeforeYesterday = addDaysToDateString(today, -2);
+
+    const goalSettings = await this.firestore.getDailyGoalSettings(userId);
+
+    // Verificar se a meta diária de ontem foi atingida
+    let yesterdayGoalMet = false;
+    try {
+      const yesterdayProgress = await this.firestore.getDailyProgress(
+        userId,
+        yesterday
+      );
+      yesterdayGoalMet =
+        yesterdayProgress.goalMet &&
+        hasMetDailyGoal(
+          yesterdayProgress,
+          resolveDailyGoal(goalSettings, yesterday)
+        );
+    } catch {
+      yesterdayGoalMet = false;
+    }
+
+    if (!yesterdayGoalMet) {
+      // Ontem NÃO atingiu meta: consumir um freeze equipado, se houver
+      if (await this.consumeStreakFreeze(userId, yesterday)) {
+        return "frozen";
+      }
+
+      // Sem freeze: resetar streak
+      await this.resetStreak(userId, today);
+      return "reset";
+    }
+
+    // Ontem atingiu meta, verificar anteontem para saber se incrementa ou inicia novo
+    let dayBeforeYesterdayGoalMet = false;
+    try {
+      const dayBeforeProgress = await this.firestore.getDailyProgress(
+        userId,
+        dayBeforeYesterday
+      );
+      dayBeforeYesterdayGoalMet =
+        dayBeforeProgress.goalMet &&
+        hasMetDailyGoal(
+          dayBeforeProgress,
+          resolveDailyGoal(goalSettings, dayBeforeYesterday)
+        );
+    } catch {
+      dayBeforeYesterdayGoalMet = false;
+    }
+
+    // Anteontem coberto por freeze conta como consecutivo
+    if (!dayBeforeYesterdayGoalMet) {
+      const streakData = await this.firestore
+        .getStreakData(userId)
+        .catch(() => null);
+      dayBeforeYesterdayGoalMet = isFrozenDay(
+        streakData?.history,
+        dayBeforeYesterday
+      );
+    }
+
+    if (dayBeforeYesterdayGoalMet) {
+      // Anteontem também atingiu: incrementar streak
+      // Registrado no dia da meta; ignora se o tempo real já contou ontem
+      await this.incrementStreak(userId, yesterday);
+      return "incremented";
+    }
+
+    // Anteontem NÃO atingiu: iniciar novo streak em 1
+    await this.startNewStreak(userId, yesterday);
+    return "started";
+  }
+
   /**
    * Função auxiliar para aguardar um tempo
    */
@@ -649,37 +1033,100 @@ export class StreakService {
 
   // ========== HELPER METHODS ==========
 
-  private getTodayDate(): string {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, "0");
-    const day = String(now.getDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
+  /**
+   * Consome um freeze equipado para cobrir um dia sem meta atingida.
+   * O dia fica marcado como "frozen" no histórico e o streak é mantido.
+   * @returns true se o dia está coberto por freeze
+   */
+  private async consumeStreakFreeze(
+    userId: string,
+    date: string
+  ): Promise<boolean> {
+    let streakData: StreakData;
+    try {
+      streakData = await this.firestore.getStreakData(userId);
+    } catch {
+      return false;
+    }
+
+    // Job executado novamente para o mesmo dia
+    if (isFrozenDay(streakData.history, date)) {
+      return true;
+    }
+
+    const equipped = streakData.freezesEquipped ?? 0;
+    if (streakData.current <= 0 || equipped <= 0) {
+      return false;
+    }
+
+    await this.firestore.updateStreak(userId, {
+      freezesEquipped: equipped - 1,
+      history: [
+        ...streakData.history.filter((item) => item.date !== date),
+        { date, count: streakData.current, frozen: true },
+      ],
+      lastUpdate: new Date(),
+    });
+
+    logger.info("[StreakService] Streak freeze consumido", {
+      userId,
+      date,
+      current: streakData.current,
+      freezesEquipped: equipped - 1,
+    });
+
+    return true;
   }
 
-  private getYesterdayDate(): string {
-    const now = new Date();
-    now.setDate(now.getDate() - 1);
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, "0");
-    const day = String(now.getDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
+  private async getOrCreateStreakData(userId: string): Promise<StreakData> {
+    try {
+      return await this.firestore.getStreakData(userId);
+    } catch {
+      return this.firestore.updateStreak(userId, {
+        current: 0,
+        longest: 0,
+        history: [],
+        lastUpdate: new Date(),
+      });
+    }
+  }
+
+  private countFreezes(streakData: StreakData): number {
+    return (
+      (streakData.freezesAvailable ?? 0) + (streakData.freezesEquipped ?? 0)
+    );
+  }
+
+  private buildFreezeStatus(streakData: StreakData): StreakFreezeStatus {
+    return {
+      userId: streakData.userId,
+      available: streakData.freezesAvailable ?? 0,
+      equipped: streakData.freezesEquipped ?? 0,
+      maxInventory: STREAK_FREEZE_CONFIG.MAX_INVENTORY,
+      maxEquipped: STREAK_FREEZE_CONFIG.MAX_EQUIPPED,
+      xpCost: STREAK_FREEZE_CONFIG.XP_COST,
+      frozenDays: streakData.history
+        .filter((item) => item.frozen === true)
+        .map((item) => item.date),
+    };
+  }
+
+  /**
+   * Retorna a data de hoje no fuso do usuário (YYYY-MM-DD)
+   */
+  private async getTodayDate(userId: string): Promise<string> {
+    const timezone = await this.firestore.getUserTimezone(userId);
+    return getDateStringInTimeZone(new Date(), timezone);
   }
 
   private toDateString(
-    value: Date | FirebaseFirestore.Timestamp | string
+    value: Date | FirebaseFirestore.Timestamp | string,
+    timezone?: string | null
   ): string {
     if (typeof value === "string") {
       return value;
     }
 
-    const date =
-      value instanceof Date ? value : ((value as any).toDate?.() ?? value);
-
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, "0");
-    const day = String(date.getDate()).padStart(2, "0");
-
-    return `${year}-${month}-${day}`;
+    return getDateStringInTimeZone(toDate(value), timezone);
   }
 }
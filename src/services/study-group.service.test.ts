@@ -0,0 +1,313 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AchievementTier,
+  AchievementType,
+  type Achievement,
+} from "../models/Achievement";
+import { XPSource, type XPTransaction } from "../models/XPTransaction";
+import { InMemoryRepository } from "../repositories";
+import { AchievementService } from "./achievement.service";
+import { PushType, type NotificationService } from "./notification.service";
+import { StudyGroupService } from "./study-group.service";
+import { XPService } from "./xp.service";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+// Quarta-feira; a semana começa na segunda-feira 03/03
+const now = new Date(2025, 2, 5, 12);
+
+const groupGoalAchievement: Achievement = {
+  id: "group_goal_first",
+  name: "Trabalho em Equipe",
+  description: "Bata a meta semanal de um grupo de estudo.",
+  tier: AchievementTier.BRONZE,
+  xpReward: 75,
+  icon: "bronze_group_goal",
+  condition: { type: AchievementType.GROUP_GOAL, target: 1 },
+  createdAt: new Date(),
+};
+
+const transaction = (
+  id: string,
+  userId: string,
+  amount: number,
+  source: XPSource,
+  timestamp: Date
+): XPTransaction => ({
+  id,
+  userId,
+  amount,
+  source,
+  sourceId: id,
+  description: "teste",
+  timestamp,
+});
+
+describe("StudyGroupService", () => {
+  let repository: InMemoryRepository;
+  let notificationService: NotificationService;
+  let service: StudyGroupService;
+
+  beforeEach(async () => {
+    repository = new InMemoryRepository({
+      achievements: [groupGoalAchievement],
+    });
+    notificationService = {
+      sendPushNotification: vi.fn().mockResolvedValue(undefined),
+    } as unknown as NotificationService;
+    const xpService = new XPService(repository);
+    service = new StudyGroupService(
+      repository,
+      xpService,
+      new AchievementService(repository, xpService, notificationService, true),
+      notificationService,
+      { maxMembers: 3, maxGroupsPerUser: 2, goalBonusXP: 100 }
+    );
+
+    for (const userId of ["ana", "bia", "caio", "duda"]) {
+      await repository.createUserProgress(userId);
+    }
+    repository.setUserFcmToken("bia", "token-bia");
+  });
+
+  const createGroupWith = async (...memberIds: string[]) => {
+    const group = await service.createGroup("ana", {
+      name: "Turma de anatomia",
+      weeklyXPGoal: 200,
+    });
+
+    for (const memberId of memberIds) {
+      await service.inviteMember("ana", group.id, memberId);
+      await service.joinGroup(memberId, group.id);
+    }
+
+    return group;
+  };
+
+  describe("membros", () => {
+    it("convida com push e adiciona o membro ao aceitar", async () => {
+      const group = await service.createGroup("ana", { name: "Turma" });
+
+      await service.inviteMember("ana", group.id, "bia");
+
+      expect(notificationService.sendPushNotification).toHaveBeenCalledWith(
+        "token-bia",
+        expect.objectContaining({
+          pushType: PushType.GROUP_INVITE,
+          additionalData: { groupId: group.id, invitedBy: "ana" },
+        })
+      );
+      expect((await service.getUserGroups("bia")).invites).toHaveLength(1);
+
+      const joined = await service.joinGroup("bia", group.id);
+
+      expect(joined.memberIds).toEqual(["ana", "bia"]);
+      expect(joined.invitedIds).toEqual([]);
+      expect(await service.getUserGroups("bia")).toMatchObject({
+        groups: [{ id: group.id }],
+        invites: [],
+      });
+    });
+
+    it("rejeita convites e entradas inválidos", async () => {
+      const group = await createGroupWith("bia");
+
+      await expect(
+        service.inviteMember("ana", group.id, "bia")
+      ).rejects.toMatchObject({ statusCode: 409 });
+      await expect(
+        service.inviteMember("ana", group.id, "missing")
+      ).rejects.toMatchObject({ statusCode: 404 });
+      await expect(
+        service.inviteMember("caio", group.id, "duda")
+      ).rejects.toMatchObject({ statusCode: 404 });
+      await expect(service.joinGroup("caio", group.id)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+
+      // Convites pendentes ocupam vaga
+      await service.inviteMember("bia", group.id, "caio");
+      await expect(
+        service.inviteMember("ana", group.id, "duda")
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it("apenas o dono remove membros, com push de remoção", async () => {
+      const group = await createGroupWith("bia", "caio");
+
+      await expect(
+        service.removeMember("bia", group.id, "caio")
+      ).rejects.toMatchObject({ statusCode: 403 });
+
+      const updated = await service.removeMember("ana", group.id, "bia");
+
+      expect(updated.memberIds).toEqual(["ana", "caio"]);
+      expect(notificationService.sendPushNotification).toHaveBeenCalledWith(
+        "token-bia",
+        expect.objectContaining({ pushType: PushType.GROUP_REMOVE })
+      );
+      await expect(
+        service.getGroupProgress("bia", group.id, now)
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it("passa o grupo ao membro mais antigo e apaga o grupo vazio", async () => {
+      const group = await createGroupWith("bia", "caio");
+
+      const afterOwnerLeft = await service.leaveGroup("ana", group.id);
+
+      expect(afterOwnerLeft).toMatchObject({
+        ownerId: "bia",
+        memberIds: ["bia", "caio"],
+      });
+
+      await service.leaveGroup("bia", group.id);
+      expect(await service.leaveGroup("caio", group.id)).toBeNull();
+      expect(await repository.getStudyGroup(group.id)).toBeNull();
+    });
+  });
+
+  describe("getGroupProgress", () => {
+    it("soma o XP da semana dos membros e monta o leaderboard", async () => {
+      const group = await createGroupWith("bia", "caio");
+      await repository.createXPTransactions([
+        transaction("t1", "ana", 60, XPSource.REVIEW, new Date(2025, 2, 4)),
+        transaction(
+          "t2",
+          "ana",
+          -50,
+          XPSource.STREAK_FREEZE_PURCHASE,
+          new Date(2025, 2, 4)
+        ),
+        transaction("t3", "bia", 90, XPSource.REVIEW, new Date(2025, 2, 5)),
+        // Semana anterior
+        transaction("t4", "caio", 500, XPSource.REVIEW, new Date(2025, 2, 2)),
+      ]);
+
+      const progress = await service.getGroupProgress("bia", group.id, now);
+
+      expect(progress).toMatchObject({
+        weekStart: "2025-03-03",
+        weeklyXP: 150,
+        weeklyXPGoal: 200,
+        goalCompleted: false,
+      });
+      expect(
+        progress.leaderboard.map(({ userId, rank, weeklyXP }) => [
+          userId,
+          rank,
+          weeklyXP,
+        ])
+      ).toEqual([
+        ["bia", 1, 90],
+        ["ana", 2, 60],
+        ["caio", 3, 0],
+      ]);
+      expect(
+        progress.leaderboard.find((entry) => entry.isCurrentUser)?.userId
+      ).toBe("bia");
+    });
+
+    it("não concede o bônus ao consultar o progresso", async () => {
+      const group = await createGroupWith("bia");
+      await repository.createXPTransactions([
+        transaction("t1", "ana", 120, XPSource.REVIEW, new Date(2025, 2, 4)),
+        transaction("t2", "bia", 80, XPSource.REVIEW, new Date(2025, 2, 4)),
+      ]);
+
+      const progress = await service.getGroupProgress("ana", group.id, now);
+
+      expect(progress).toMatchObject({ weeklyXP: 200, goalCompleted: false });
+      await expect(
+        repository.countXPTransactionsBySource("ana", XPSource.GROUP_GOAL)
+      ).resolves.toBe(0);
+    });
+  });
+
+  describe("checkWeeklyGoals", () => {
+    it("concede o bônus e a conquista de grupo uma única vez ao bater a meta", async () => {
+      const group = await createGroupWith("bia");
+      await repository.createXPTransactions([
+        transaction("t1", "ana", 120, XPSource.REVIEW, new Date(2025, 2, 4)),
+        transaction("t2", "bia", 80, XPSource.REVIEW, new Date(2025, 2, 4)),
+      ]);
+
+      const first = await service.checkWeeklyGoals(now);
+      const second = await service.checkWeeklyGoals(now);
+      const progress = await service.getGroupProgress("bia", group.id, now);
+
+      expect(first.completed).toEqual([`${group.id}:2025-03-03`]);
+      expect(second.completed).toEqual([]);
+      expect(progress.goalCompleted).toBe(true);
+      expect(progress.group.completedGoalWeeks).toEqual(["2025-03-03"]);
+      // O bônus do grupo não conta para a meta
+      expect(progress.weeklyXP).toBe(200);
+
+      for (const userId of ["ana", "bia"]) {
+        const bonuses = await repository.countXPTransactionsBySource(
+          userId,
+          XPSource.GROUP_GOAL
+        );
+        const achievements = await repository.getUserAchievements(userId);
+
+        expect(bonuses).toBe(1);
+        expect(achievements.map((entry) => entry.achievementId)).toEqual([
+          "group_goal_first",
+        ]);
+      }
+    });
+
+    it("mantém a meta pendente quando um bônus falha e não repete os concedidos", async () => {
+      const group = await createGroupWith("bia");
+      await repository.createXPTransactions([
+        transaction("t1", "ana", 200, XPSource.REVIEW, new Date(2025, 2, 4)),
+      ]);
+      // Falha no bônus do primeiro membro; o segundo recebe o XP
+      vi.spyOn(XPService.prototype, "addXP").mockRejectedValueOnce(
+        new Error("Firestore indisponível")
+      );
+
+      const first = await service.checkWeeklyGoals(now);
+
+      expect(first.pending).toEqual([`${group.id}:2025-03-03`]);
+      expect(
+        (await repository.getStudyGroup(group.id))?.completedGoalWeeks
+      ).toEqual([]);
+
+      const retry = await service.checkWeeklyGoals(now);
+
+      expect(retry.completed).toEqual([`${group.id}:2025-03-03`]);
+      for (const userId of ["ana", "bia"]) {
+        await expect(
+          repository.countXPTransactionsBySource(userId, XPSource.GROUP_GOAL)
+        ).resolves.toBe(1);
+      }
+    });
+
+    it("fecha a semana anterior no primeiro dia da semana", async () => {
+      const group = await createGroupWith("bia");
+      await repository.createXPTransactions([
+        transaction(
+          "t1",
+          "ana",
+          200,
+          XPSource.REVIEW,
+          new Date(2025, 2, 9, 23)
+        ),
+      ]);
+
+      const result = await service.checkWeeklyGoals(
+        new Date(2025, 2, 10, 0, 10)
+      );
+
+      expect(result.completed).toEqual([`${group.id}:2025-03-03`]);
+    });
+  });
+});
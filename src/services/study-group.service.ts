@@ -0,0 +1,620 @@
+import { randomUUID } from "crypto";
+import { STUDY_GROUP_CONFIG } from "../config/constants";
+import { AppError } from "../middlewares/error.middleware";
+import { AchievementType } from "../models/Achievement";
+import {
+  isStudyGroupInvitee,
+  isStudyGroupMember,
+  type StudyGroup,
+  type StudyGroupLeaderboardEntry,
+} from "../models/StudyGroup";
+import { InboxNotificationType } from "../models/InboxNotification";
+import type { UserProgress } from "../models/UserProgress";
+import { countsAsEarnedXP, XPSource } from "../models/XPTransaction";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { logger } from "../utils/logger";
+import { getLocalWeekStart } from "../utils/timezone";
+import { getLocalDateString } from "../utils/validators";
+import { AchievementService } from "./achievement.service";
+import { NotificationInboxService } from "./notification-inbox.service";
+import {
+  NotificationService,
+  PushType,
+  type NotificationPayload,
+} from "./notification.service";
+import { XPService } from "./xp.service";
+
+export interface StudyGroupInput {
+  name: string;
+  description?: string | null | undefined;
+  weeklyXPGoal?: number | undefined;
+}
+
+export type StudyGroupUpdate = {
+  [K in keyof StudyGroupInput]?: StudyGroupInput[K] | undefined;
+};
+
+export interface UserStudyGroups {
+  groups: StudyGroup[];
+  // Grupos com convite pendente para o usuário
+  invites: StudyGroup[];
+}
+
+export interface StudyGroupProgress {
+  group: StudyGroup;
+  // Segunda-feira (YYYY-MM-DD, horário do servidor) da semana atual
+  weekStart: string;
+  weeklyXP: number;
+  weeklyXPGoal: number;
+  goalCompleted: boolean;
+  // XP de bônus concedido a cada membro quando a meta é batida
+  goalBonusXP: number;
+  leaderboard: StudyGroupLeaderboardEntry[];
+}
+
+export interface StudyGroupGoalCheckResult {
+  groupsChecked: number;
+  // Metas registradas nesta execução ("groupId:weekStart")
+  completed: string[];
+  // Metas atingidas com bônus pendente; tentadas de novo na próxima execução
+  pending: string[];
+}
+
+export interface StudyGroupLimits {
+  maxMembers: number;
+  maxGroupsPerUser: number;
+  goalBonusXP: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_LIMITS: StudyGroupLimits = {
+  maxMembers: STUDY_GROUP_CONFIG.MAX_MEMBERS,
+  maxGroupsPerUser: STUDY_GROUP_CONFIG.MAX_GROUPS_PER_USER,
+  goalBonusXP: STUDY_GROUP_CONFIG.GOAL_BONUS_XP,
+};
+
+/**
+ * Grupos de estudo: convites, membros, meta semanal de XP somada a partir
+ * das transações dos membros e leaderboard do grupo.
+ *
+ * A meta é verificada pelo job check-group-goals (checkWeeklyGoals): ao
+ * atingir a meta, cada membro recebe o bônus (XPSource.GROUP_GOAL) e as
+ * conquistas de grupo são verificadas. Consultar o progresso não concede nada.
+ */
+export class StudyGroupService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository(),
+    private readonly xpService: XPService = new XPService(firestore),
+    private readonly achievementService: AchievementService = new AchievementService(
+      firestore,
+      xpService
+    ),
+    private readonly notificationService: NotificationService = new NotificationService(),
+    private readonly limits: StudyGroupLimits = DEFAULT_LIMITS,
+    private readonly inboxService: NotificationInboxService = new NotificationInboxService(
+      firestore
+    )
+  ) {}
+
+  async getUserGroups(userId: string): Promise<UserStudyGroups> {
+    const [groups, invites] = await Promise.all([
+      this.firestore.getUserStudyGroups(userId),
+      this.firestore.getStudyGroupInvites(userId),
+    ]);
+
+    return { groups, invites };
+  }
+
+  async createGroup(
+    ownerId: string,
+    input: StudyGroupInput
+  ): Promise<StudyGroup> {
+    await this.assertUserExists(ownerId);
+    await this.assertGroupLimit(ownerId);
+
+    const now = new Date();
+    const group: StudyGroup = {
+      id: randomUUID(),
+      name: input.name,
+      description: input.description ?? null,
+      ownerId,
+      memberIds: [ownerId],
+      invitedIds: [],
+      weeklyXPGoal:
+        input.weeklyXPGoal ?? STUDY_GROUP_CONFIG.DEFAULT_WEEKLY_XP_GOAL,
+      completedGoalWeeks: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.firestore.saveStudyGroup(group);
+    return group;
+  }
+
+  /**
+   * Atualiza nome, descrição ou meta semanal (apenas o dono)
+   */
+  async updateGroup(
+    userId: string,
+    groupId: string,
+    input: StudyGroupUpdate
+  ): Promise<StudyGroup> {
+    const group = await this.getOwnedGroup(userId, groupId);
+
+    const updated: StudyGroup = {
+      ...group,
+      name: input.name ?? group.name,
+      description:
+        input.description === undefined ? group.description : input.description,
+      weeklyXPGoal: input.weeklyXPGoal ?? group.weeklyXPGoal,
+      updatedAt: new Date(),
+    };
+
+    await this.firestore.saveStudyGroup(updated);
+    return updated;
+  }
+
+  /**
+   * Progresso da meta semanal e leaderboard do grupo (apenas membros)
+   */
+  async getGroupProgress(
+    userId: string,
+    groupId: string,
+    now: Date = new Date()
+  ): Promise<StudyGroupProgress> {
+    const group = await this.getMemberGroup(userId, groupId);
+    const since = getLocalWeekStart(now);
+    const weekStart = getLocalDateString(since);
+
+    const contributions = await this.getWeeklyContributions(group, since, now);
+    const weeklyXP = contributions.reduce(
+      (total, { weeklyXP: memberXP }) => total + memberXP,
+      0
+    );
+
+    return {
+      group,
+      weekStart,
+      weeklyXP,
+      weeklyXPGoal: group.weeklyXPGoal,
+      goalCompleted: group.completedGoalWeeks.includes(weekStart),
+      goalBonusXP: this.limits.goalBonusXP,
+      leaderboard: this.assignRanks(contributions, group, userId),
+    };
+  }
+
+  /**
+   * Verifica a meta semanal de todos os grupos e concede o bônus dos que a
+   * atingiram. No primeiro dia da semana a semana anterior também é
+   * verificada, para contar o XP ganho depois da última execução.
+   */
+  async checkWeeklyGoals(
+    now: Date = new Date()
+  ): Promise<StudyGroupGoalCheckResult> {
+    const groups = await this.firestore.getAllStudyGroups();
+    const since = getLocalWeekStart(now);
+    const weeks = [{ since, until: now }];
+
+    if (now.getTime() - since.getTime() < DAY_MS) {
+      weeks.push({
+        since: getLocalWeekStart(new Date(since.getTime() - 1)),
+        until: new Date(since.getTime() - 1),
+      });
+    }
+
+    const result: StudyGroupGoalCheckResult = {
+      groupsChecked: groups.length,
+      completed: [],
+      pending: [],
+    };
+
+    for (const group of groups) {
+      for (const week of weeks) {
+        const weekStart = getLocalDateString(week.since);
+
+        if (group.completedGoalWeeks.includes(weekStart)) {
+          continue;
+        }
+
+        const contributions = await this.getWeeklyContributions(
+          group,
+          week.since,
+          week.until
+        );
+        const weeklyXP = contributions.reduce(
+          (total, { weeklyXP: memberXP }) => total + memberXP,
+          0
+        );
+
+        if (weeklyXP < group.weeklyXPGoal) {
+          continue;
+        }
+
+        const key = `${group.id}:${weekStart}`;
+        const completed = await this.completeWeeklyGoal(group, weekStart);
+        (completed ? result.completed : result.pending).push(key);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Convida um usuário para o grupo (qualquer membro pode convidar)
+   */
+  async inviteMember(
+    userId: string,
+    groupId: string,
+    inviteeId: string
+  ): Promise<StudyGroup> {
+    const group = await this.getMemberGroup(userId, groupId);
+
+    if (isStudyGroupMember(group, inviteeId)) {
+      throw new AppError(`"${inviteeId}" já é membro do grupo.`, 409);
+    }
+
+    if (isStudyGroupInvitee(group, inviteeId)) {
+      throw new AppError(`"${inviteeId}" já foi convidado para o grupo.`, 409);
+    }
+
+    await this.assertUserExists(inviteeId);
+    this.assertMemberLimit(group.memberIds.length + group.invitedIds.length);
+
+    const updated: StudyGroup = {
+      ...group,
+      invitedIds: [...group.invitedIds, inviteeId],
+      updatedAt: new Date(),
+    };
+
+    await this.firestore.saveStudyGroup(updated);
+    await this.notify(inviteeId, {
+      title: "Convite para grupo de estudo",
+      body: `Você foi convidado para o grupo "${group.name}". Estudem juntos e batam a meta da semana!`,
+      pushType: PushType.GROUP_INVITE,
+      additionalData: { groupId, invitedBy: userId },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Entra no grupo a partir de um convite pendente
+   */
+  async joinGroup(userId: string, groupId: string): Promise<StudyGroup> {
+    const group = await this.getInvitedGroup(userId, groupId);
+
+    this.assertMemberLimit(group.memberIds.length);
+    await this.assertGroupLimit(userId);
+
+    const updated: StudyGroup = {
+      ...group,
+      memberIds: [...group.memberIds, userId],
+      invitedIds: group.invitedIds.filter((id) => id !== userId),
+      updatedAt: new Date(),
+    };
+
+    await this.firestore.saveStudyGroup(updated);
+    return updated;
+  }
+
+  async declineInvite(userId: string, groupId: string): Promise<void> {
+    const group = await this.getInvitedGroup(userId, groupId);
+
+    await this.firestore.saveStudyGroup({
+      ...group,
+      invitedIds: group.invitedIds.filter((id) => id !== userId),
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Sai do grupo. Se o dono sair, o membro mais antigo assume o grupo;
+   * o último membro a sair apaga o grupo.
+   * @returns Grupo atualizado ou null se foi apagado
+   */
+  async leaveGroup(
+    userId: string,
+    groupId: string
+  ): Promise<StudyGroup | null> {
+    const group = await this.getMemberGroup(userId, groupId);
+    const memberIds = group.memberIds.filter((id) => id !== userId);
+    const [nextOwnerId] = memberIds;
+
+    if (!nextOwnerId) {
+      await this.firestore.deleteStudyGroup(groupId);
+      return null;
+    }
+
+    const updated: StudyGroup = {
+      ...group,
+      ownerId: group.ownerId === userId ? nextOwnerId : group.ownerId,
+      memberIds,
+      updatedAt: new Date(),
+    };
+
+    await this.firestore.saveStudyGroup(updated);
+    return updated;
+  }
+
+  /**
+   * Remove um membro ou cancela um convite (apenas o dono)
+   */
+  async removeMember(
+    userId: string,
+    groupId: string,
+    memberId: string
+  ): Promise<StudyGroup> {
+    const group = await this.getOwnedGroup(userId, groupId);
+
+    if (memberId === userId) {
+      throw new AppError(
+        "O dono não pode remover a si mesmo; use a saída do grupo.",
+        400
+      );
+    }
+
+    const wasMember = isStudyGroupMember(group, memberId);
+
+    if (!wasMember && !isStudyGroupInvitee(group, memberId)) {
+      throw new AppError(`"${memberId}" não faz parte do grupo.`, 404);
+    }
+
+    const updated: StudyGroup = {
+      ...group,
+      memberIds: group.memberIds.filter((id) => id !== memberId),
+      invitedIds: group.invitedIds.filter((id) => id !== memberId),
+      updatedAt: new Date(),
+    };
+
+    await this.firestore.saveStudyGroup(updated);
+
+    if (wasMember) {
+      await this.notify(memberId, {
+        title: "Você saiu de um grupo de estudo",
+        body: `Você foi removido do grupo "${group.name}".`,
+        pushType: PushType.GROUP_REMOVE,
+        additionalData: { groupId },
+      });
+    }
+
+    return updated;
+  }
+
+  // ========== HELPER METHODS ==========
+
+  private async getGroup(groupId: string): Promise<StudyGroup> {
+    const group = await this.firestore.getStudyGroup(groupId);
+
+    if (!group) {
+      throw new AppError(`Grupo "${groupId}" não encontrado.`, 404);
+    }
+
+    return group;
+  }
+
+  /**
+   * Grupos de que o usuário não participa respondem 404, sem revelar que existem
+   */
+  private async getMemberGroup(
+    userId: string,
+    groupId: string
+  ): Promise<StudyGroup> {
+    const group = await this.getGroup(groupId);
+
+    if (!isStudyGroupMember(group, userId)) {
+      throw new AppError(`Grupo "${groupId}" não encontrado.`, 404);
+    }
+
+    return group;
+  }
+
+  private async getOwnedGroup(
+    userId: string,
+    groupId: string
+  ): Promise<StudyGroup> {
+    const group = await this.getMemberGroup(userId, groupId);
+
+    if (group.ownerId !== userId) {
+      throw new AppError("Apenas o dono do grupo pode fazer isso.", 403);
+    }
+
+    return group;
+  }
+
+  private async getInvitedGroup(
+    userId: string,
+    groupId: string
+  ): Promise<StudyGroup> {
+    const group = await this.getGroup(groupId);
+
+    if (!isStudyGroupInvitee(group, userId)) {
+      throw new AppError(
+        `Convite para o grupo "${groupId}" não encontrado.`,
+        404
+      );
+    }
+
+    return group;
+  }
+
+  private async assertUserExists(userId: string): Promise<void> {
+    try {
+      await this.firestore.getUserProgress(userId);
+    } catch {
+      throw new AppError(`Usuário "${userId}" não encontrado.`, 404);
+    }
+  }
+
+  private async assertGroupLimit(userId: string): Promise<void> {
+    const groups = await this.firestore.getUserStudyGroups(userId);
+
+    if (groups.length >= this.limits.maxGroupsPerUser) {
+      throw new AppError(
+        `Limite de ${this.limits.maxGroupsPerUser} grupos atingido por "${userId}".`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Convites pendentes ocupam vaga ao convidar, para que todos possam entrar
+   */
+  private assertMemberLimit(occupiedSeats: number): void {
+    if (occupiedSeats >= this.limits.maxMembers) {
+      throw new AppError(
+        `Limite de ${this.limits.maxMembers} membros do grupo atingido.`,
+        409
+      );
+    }
+  }
+
+  /**
+   * XP ganho por membro desde o início da semana. O bônus de meta do próprio
+   * grupo não conta, e membros sem progresso são ignorados.
+   */
+  private async getWeeklyContributions(
+    group: StudyGroup,
+    since: Date,
+    now: Date
+  ): Promise<Array<{ progress: UserProgress; weeklyXP: number }>> {
+    const contributions = await Promise.all(
+      group.memberIds.map(async (memberId) => {
+        const [progress, transactions] = await Promise.all([
+          this.firestore.getUserProgress(memberId).catch(() => null),
+          this.firestore.getUserXPTransactionsByPeriod(memberId, since, now),
+        ]);
+
+        const weeklyXP = transactions
+          .filter(
+            (transaction) =>
+              countsAsEarnedXP(transaction) &&
+              transaction.source !== XPSource.GROUP_GOAL
+          )
+          .reduce((total, transaction) => total + transaction.amount, 0);
+
+        return progress ? [{ progress, weeklyXP: Math.max(0, weeklyXP) }] : [];
+      })
+    );
+
+    return contributions.flat();
+  }
+
+  /**
+   * Concede o bônus aos membros atuais e só então registra a meta da semana.
+   * O eventId de cada membro é determinístico: se algum bônus falhar, a meta
+   * fica sem registro e a próxima execução não concede o XP duas vezes.
+   * @returns false se algum membro ficou sem o bônus
+   */
+  private async completeWeeklyGoal(
+    group: StudyGroup,
+    weekStart: string
+  ): Promise<boolean> {
+    let allGranted = true;
+
+    for (const memberId of group.memberIds) {
+      try {
+        const xpResult = await this.xpService.addXP(
+          memberId,
+          this.limits.goalBonusXP,
+          XPSource.GROUP_GOAL,
+          `${group.id}_${weekStart}`,
+          { eventId: `group_${group.id}_${weekStart}_${memberId}` }
+        );
+
+        if (!xpResult.duplicate) {
+          await this.achievementService.checkAchievements(memberId, [
+            AchievementType.GROUP_GOAL,
+          ]);
+          await this.xpService.completeEvent(memberId, xpResult);
+        }
+      } catch (error) {
+        allGranted = false;
+        logger.warn("[StudyGroupService] Falha ao conceder bônus do grupo", {
+          groupId: group.id,
+          userId: memberId,
+          weekStart,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (!allGranted) {
+      return false;
+    }
+
+    const isNewCompletion = await this.firestore.completeStudyGroupGoal(
+      group.id,
+      weekStart
+    );
+
+    if (isNewCompletion) {
+      logger.info("Meta semanal do grupo de estudo atingida", {
+        groupId: group.id,
+        weekStart,
+        members: group.memberIds.length,
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Posições no formato "competition ranking" (1, 2, 2, 4)
+   */
+  private assignRanks(
+    contributions: Array<{ progress: UserProgress; weeklyXP: number }>,
+    group: StudyGroup,
+    userId: string
+  ): StudyGroupLeaderboardEntry[] {
+    const sorted = [...contributions].sort(
+      (a, b) =>
+        b.weeklyXP - a.weeklyXP ||
+        a.progress.userId.localeCompare(b.progress.userId)
+    );
+
+    let previousXP: number | null = null;
+    let previousRank = 0;
+
+    return sorted.map(({ progress, weeklyXP }, index) => {
+      const rank = weeklyXP === previousXP ? previousRank : index + 1;
+      previousXP = weeklyXP;
+      previousRank = rank;
+
+      return {
+        userId: progress.userId,
+        rank,
+        weeklyXP,
+        level: progress.level,
+        currentStreak: progress.currentStreak,
+        isOwner: progress.userId === group.ownerId,
+        isCurrentUser: progress.userId === userId,
+      };
+    });
+  }
+
+  private async notify(
+    userId: string,
+    payload: NotificationPayload
+  ): Promise<void> {
+    await this.inboxService.record(userId, {
+      type: InboxNotificationType.SOCIAL,
+      title: payload.title,
+      body: payload.body,
+      data: payload.additionalData,
+    });
+
+    try {
+      const fcmToken = await this.firestore.getUserFcmToken(userId);
+
+      if (fcmToken) {
+        await this.notificationService.sendPushNotification(fcmToken, payload);
+      }
+    } catch (error) {
+      logger.warn("[StudyGroupService] Falha ao enviar notificação do grupo", {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
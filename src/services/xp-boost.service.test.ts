@@ -0,0 +1,271 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AchievementTier,
+  AchievementType,
+  type Achievement,
+} from "../models/Achievement";
+import { AuditAction } from "../models/AuditRecord";
+import { XPBoostOrigin, type XPBoost } from "../models/XPBoost";
+import { XPSource } from "../models/XPTransaction";
+import { InMemoryRepository } from "../repositories";
+import { XPBoostService } from "./xp-boost.service";
+
+vi.mock("../utils/logger", () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const userId = "user-1";
+
+const createBoost = (overrides: Partial<XPBoost> = {}): XPBoost => ({
+  id: "weekend",
+  name: "XP em dobro no fim de semana",
+  multiplier: 2,
+  startsAt: new Date("2025-03-08T00:00:00Z"),
+  endsAt: new Date("2025-03-10T00:00:00Z"),
+  origin: XPBoostOrigin.EVENT,
+  createdBy: "admin-token",
+  createdAt: new Date("2025-03-01T00:00:00Z"),
+  ...overrides,
+});
+
+const review = (occurredAt: string, overrides = {}) => ({
+  userId,
+  source: XPSource.REVIEW,
+  occurredAt: new Date(occurredAt),
+  ...overrides,
+});
+
+describe("XPBoostService", () => {
+  let repository: InMemoryRepository;
+  let service: XPBoostService;
+
+  beforeEach(() => {
+    repository = new InMemoryRepository();
+    service = new XPBoostService(repository);
+  });
+
+  describe("resolveMany", () => {
+    it("aplica o boost apenas dentro do período", async () => {
+      await repository.saveXPBoost(createBoost());
+
+      const boosts = await service.resolveMany([
+        review("2025-03-07T23:59:59Z"),
+        review("2025-03-08T00:00:00Z"),
+        review("2025-03-10T00:00:00Z"),
+      ]);
+
+      expect(boosts.map((boost) => boost?.id ?? null)).toEqual([
+        null,
+        "weekend",
+        null,
+      ]);
+    });
+
+    it("respeita o escopo de fonte, usuário, deck e dificuldade", async () => {
+      await repository.saveXPBoost(
+        createBoost({
+          id: "hard-cards",
+          sources: [XPSource.REVIEW],
+          userId,
+          deckId: "deck-1",
+          difficulties: ["hard"],
+        })
+      );
+
+      const boosts = await service.resolveMany([
+        review("2025-03-08T10:00:00Z", {
+          deckId: "deck-1",
+          difficulty: "hard",
+        }),
+        review("2025-03-08T10:00:00Z", {
+          deckId: "deck-1",
+          difficulty: "easy",
+        }),
+        review("2025-03-08T10:00:00Z", {
+          deckId: "deck-2",
+          difficulty: "hard",
+        }),
+        review("2025-03-08T10:00:00Z", {
+          userId: "user-2",
+          deckId: "deck-1",
+          difficulty: "hard",
+        }),
+        review("2025-03-08T10:00:00Z", {
+          source: XPSource.CARD_CREATION,
+          deckId: "deck-1",
+        }),
+      ]);
+
+      expect(boosts.map((boost) => boost?.id ?? null)).toEqual([
+        "hard-cards",
+        null,
+        null,
+        null,
+        null,
+      ]);
+    });
+
+    it("usa o maior multiplicador quando há mais de um boost", async () => {
+      await repository.saveXPBoost(createBoost());
+      await repository.saveXPBoost(
+        createBoost({ id: "personal", multiplier: 3, userId })
+      );
+
+      const boost = await service.resolve(review("2025-03-08T10:00:00Z"));
+
+      expect(boost?.id).toBe("personal");
+    });
+
+    it("consulta apenas os boosts globais e os pessoais do usuário", async () => {
+      await repository.saveXPBoost(
+        createBoost({ id: "other-user", multiplier: 3, userId: "user-2" })
+      );
+      const spy = vi.spyOn(repository, "getXPBoostsEndingAfter");
+
+      const boost = await service.resolve(review("2025-03-08T10:00:00Z"));
+
+      expect(boost).toBeNull();
+      expect(spy).toHaveBeenCalledWith(
+        new Date("2025-03-08T10:00:00Z"),
+        userId
+      );
+      await expect(spy.mock.results[0]?.value).resolves.toEqual([]);
+    });
+
+    it("não multiplica ajustes manuais nem consulta boosts para eles", async () => {
+      await repository.saveXPBoost(createBoost());
+      const spy = vi.spyOn(repository, "getXPBoostsEndingAfter");
+
+      const boost = await service.resolve(
+        review("2025-03-08T10:00:00Z", { source: XPSource.MANUAL_ADJUSTMENT })
+      );
+
+      expect(boost).toBeNull();
+      expect(spy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getUserBoosts", () => {
+    it("separa boosts ativos e próximos do usuário", async () => {
+      await repository.saveXPBoost(createBoost());
+      await repository.saveXPBoost(
+        createBoost({
+          id: "next-weekend",
+          startsAt: new Date("2025-03-15T00:00:00Z"),
+          endsAt: new Date("2025-03-17T00:00:00Z"),
+        })
+      );
+      await repository.saveXPBoost(
+        createBoost({
+          id: "far-away",
+          startsAt: new Date("2025-04-15T00:00:00Z"),
+          endsAt: new Date("2025-04-17T00:00:00Z"),
+        })
+      );
+      await repository.saveXPBoost(
+        createBoost({ id: "other-user", userId: "user-2" })
+      );
+
+      const boosts = await service.getUserBoosts(
+        userId,
+        new Date("2025-03-09T12:00:00Z")
+      );
+
+      expect(boosts.active.map((boost) => boost.id)).toEqual(["weekend"]);
+      expect(boosts.upcoming.map((boost) => boost.id)).toEqual([
+        "next-weekend",
+      ]);
+    });
+  });
+
+  describe("admin", () => {
+    it("cria e encerra um evento com auditoria", async () => {
+      const auditSpy = vi.spyOn(repository, "createAuditRecord");
+
+      const boost = await service.createBoost({
+        name: "XP em dobro",
+        multiplier: 2,
+        startsAt: new Date(Date.now() - 60_000),
+        endsAt: new Date(Date.now() + 60 * 60_000),
+        sources: [XPSource.REVIEW],
+        reason: "Campanha de março",
+      });
+
+      expect(boost).toMatchObject({
+        origin: XPBoostOrigin.EVENT,
+        sources: [XPSource.REVIEW],
+      });
+      expect(await service.listBoosts()).toHaveLength(1);
+
+      await service.endBoost(boost.id, "Campanha cancelada");
+
+      expect(await service.listBoosts()).toHaveLength(0);
+      await expect(
+        service.endBoost(boost.id, "Campanha cancelada")
+      ).rejects.toMatchObject({ statusCode: 409 });
+
+      expect(
+        auditSpy.mock.calls.map(([record]) => [
+          record.action,
+          record.targetUserId,
+        ])
+      ).toEqual([
+        [AuditAction.XP_BOOST_CREATE, null],
+        [AuditAction.XP_BOOST_END, null],
+      ]);
+    });
+
+    it("retorna 404 ao encerrar boost inexistente", async () => {
+      await expect(
+        service.endBoost("missing", "Campanha cancelada")
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe("grantAchievementBoost", () => {
+    const achievement: Achievement = {
+      id: "streak_7",
+      name: "Semana de Fogo",
+      description: "7 dias seguidos",
+      tier: AchievementTier.SILVER,
+      xpReward: 100,
+      icon: "fire",
+      condition: { type: AchievementType.STREAK, target: 7 },
+      createdAt: new Date(0),
+      boostReward: { multiplier: 2, durationMinutes: 60 },
+    };
+
+    it("concede um boost pessoal a partir de agora", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-03-01T12:00:00Z"));
+
+      try {
+        const boost = await service.grantAchievementBoost(userId, achievement);
+
+        expect(boost).toMatchObject({
+          origin: XPBoostOrigin.ACHIEVEMENT,
+          userId,
+          achievementId: "streak_7",
+          multiplier: 2,
+          startsAt: new Date("2025-03-01T12:00:00Z"),
+          endsAt: new Date("2025-03-01T13:00:00Z"),
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("não concede nada sem boostReward", async () => {
+      const { boostReward: _, ...withoutBoost } = achievement;
+
+      expect(
+        await service.grantAchievementBoost(userId, withoutBoost)
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { randomUUID } from "crypto";
+import { XP_BOOST_CONFIG } from "../config/constants";
+import { AppError } from "../middlewares/error.middleware";
+import type { Achievement } from "../models/Achievement";
+import { AuditAction } from "../models/AuditRecord";
+import {
+  isXPBoostActive,
+  isXPBoostApplicable,
+  XP_BOOSTABLE_SOURCES,
+  XPBoostOrigin,
+  type XPBoost,
+  type XPBoostTarget,
+} from "../models/XPBoost";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { toDate } from "../utils/date";
+import { getRequestContext, SYSTEM_ACTOR } from "../utils/request-context";
+import type { XPBoostCreateInput } from "../utils/validators";
+import { AuditService } from "./audit.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UserXPBoosts {
+  active: XPBoost[];
+  // Começam nos próximos XP_BOOST_CONFIG.UPCOMING_DAYS dias
+  upcoming: XPBoost[];
+}
+
+/**
+ * Boosts de XP por tempo limitado: eventos criados pelo admin
+ * ("XP em dobro no fim de semana", "2x em cards difíceis") e boosts
+ * pessoais concedidos por conquistas.
+ *
+ * Boosts não se acumulam: cada ganho de XP usa o maior multiplicador aplicável.
+ */
+export class XPBoostService {
+  constructor(
+    private readonly firestore: GamificationRepository = getRepository(),
+    private readonly auditService: AuditService = new AuditService(firestore)
+  ) {}
+
+  /**
+   * Boost aplicado a um ganho de XP (null: sem boost)
+   */
+  async resolve(target: XPBoostTarget): Promise<XPBoost | null> {
+    const [boost] = await this.resolveMany([target]);
+    return boost ?? null;
+  }
+
+  /**
+   * Boost de cada ganho de XP, na ordem recebida, com uma consulta por usuário
+   */
+  async resolveMany(targets: XPBoostTarget[]): Promise<Array<XPBoost | null>> {
+    const boostable = targets.filter((target) =>
+      XP_BOOSTABLE_SOURCES.includes(target.source)
+    );
+
+    if (!boostable.length) {
+      return targets.map(() => null);
+    }
+
+    const endingAfter = new Date(
+      Math.min(...boostable.map((target) => target.occurredAt.getTime()))
+    );
+    // Globais + pessoais de cada usuário, nunca os boosts de todos
+    // (um boost global repetido entre usuários não muda o maior multiplicador)
+    const boosts = (
+      await Promise.all(
+        [...new Set(boostable.map((target) => target.userId))].map((userId) =>
+          this.firestore.getXPBoostsEndingAfter(endingAfter, userId)
+        )
+      )
+    ).flat();
+
+    return targets.map((target) =>
+      boosts
+        .filter((boost) => isXPBoostApplicable(boost, target))
+        .reduce<XPBoost | null>(
+          (best, boost) =>
+            !best || boost.multiplier > best.multiplier ? boost : best,
+          null
+        )
+    );
+  }
+
+  /**
+   * Boosts que alcançam o usuário: em vigor e próximos
+   */
+  async getUserBoosts(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<UserXPBoosts> {
+    const boosts = (
+      await this.firestore.getXPBoostsEndingAfter(now, userId)
+    ).sort(
+      (a, b) => toDate(a.startsAt).getTime() - toDate(b.startsAt).getTime()
+    );
+    const upcomingLimit =
+      now.getTime() + XP_BOOST_CONFIG.UPCOMING_DAYS * DAY_MS;
+
+    return {
+      active: boosts.filter((boost) => isXPBoostActive(boost, now)),
+      upcoming: boosts.filter((boost) => {
+        const startsAt = toDate(boost.startsAt).getTime();
+        return startsAt > now.getTime() && startsAt <= upcomingLimit;
+      }),
+    };
+  }
+
+  /**
+   * Boosts em vigor ou agendados (de todos os usuários)
+   */
+  async listBoosts(now: Date = new Date()): Promise<XPBoost[]> {
+    const boosts = await this.firestore.getXPBoostsEndingAfter(now);
+
+    return boosts.sort(
+      (a, b) => toDate(a.startsAt).getTime() - toDate(b.startsAt).getTime()
+    );
+  }
+
+  /**
+   * Cria um evento de boost (admin)
+   */
+  async createBoost(input: XPBoostCreateInput): Promise<XPBoost> {
+    const { reason, ...fields } = input;
+    const boost: XPBoost = {
+      id: randomUUID(),
+      name: fields.name,
+      ...(fields.description ? { description: fields.description } : {}),
+      multiplier: fields.multiplier,
+      startsAt: fields.startsAt,
+      endsAt: fields.endsAt,
+      origin: XPBoostOrigin.EVENT,
+      ...(fields.sources ? { sources: fields.sources } : {}),
+      ...(fields.userId ? { userId: fields.userId } : {}),
+      ...(fields.deckId ? { deckId: fields.deckId } : {}),
+      ...(fields.difficulties ? { difficulties: fields.difficulties } : {}),
+      createdBy: this.getActor(),
+      createdAt: new Date(),
+    };
+
+    await this.firestore.saveXPBoost(boost);
+    await this.auditService.record({
+      action: AuditAction.XP_BOOST_CREATE,
+      targetUserId: boost.userId ?? null,
+      reason,
+      after: { ...boost },
+    });
+
+    return boost;
+  }
+
+  /**
+   * Encerra um boost antes do fim (admin). Boosts agendados deixam de valer.
+   */
+  async endBoost(boostId: string, reason: string): Promise<XPBoost> {
+    const boost = await this.firestore.getXPBoost(boostId);
+
+    if (!boost) {
+      throw new AppError(`Boost "${boostId}" não encontrado.`, 404);
+    }
+
+    const now = new Date();
+
+    if (toDate(boost.endsAt) <= now) {
+      throw new AppError(`O boost "${boostId}" já foi encerrado.`, 409);
+    }
+
+    const ended: XPBoost = {
+      ...boost,
+      endsAt: now,
+      ...(toDate(boost.startsAt) > now ? { startsAt: now } : {}),
+    };
+
+    await this.firestore.saveXPBoost(ended);
+    await this.auditService.record({
+      action: AuditAction.XP_BOOST_END,
+      targetUserId: boost.userId ?? null,
+      reason,
+      before: { endsAt: toDate(boost.endsAt).toISOString() },
+      after: { endsAt: now.toISOString() },
+      details: { boostId },
+    });
+
+    return ended;
+  }
+
+  /**
+   * Concede o boost pessoal da conquista, a partir de agora
+   * (null quando a conquista não tem boostReward)
+   */
+  async grantAchievementBoost(
+    userId: string,
+    achievement: Achievement
+  ): Promise<XPBoost | null> {
+    const reward = achievement.boostReward;
+
+    if (!reward) {
+      return null;
+    }
+
+    const now = new Date();
+    const boost: XPBoost = {
+      id: randomUUID(),
+      name: achievement.name,
+      multiplier: reward.multiplier,
+      startsAt: now,
+      endsAt: new Date(now.getTime() + reward.durationMinutes * 60 * 1000),
+      origin: XPBoostOrigin.ACHIEVEMENT,
+      ...(reward.sources ? { sources: reward.sources } : {}),
+      userId,
+      achievementId: achievement.id,
+      createdBy: SYSTEM_ACTOR,
+      createdAt: now,
+    };
+
+    await this.firestore.saveXPBoost(boost);
+    await this.auditService.record({
+      action: AuditAction.XP_BOOST_GRANT,
+      targetUserId: userId,
+      after: { ...boost },
+      details: { achievementId: achievement.id },
+    });
+
+    return boost;
+  }
+
+  // ========== HELPER METHODS ==========
+
+  private getActor(): string {
+    return getRequestContext()?.actor ?? SYSTEM_ACTOR;
+  }
+}
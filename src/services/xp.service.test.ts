@@ -1,9 +1,13 @@
 import { describe, expect, it, vi } from "vitest";
 import { XP_VALUES } from "../config/constants";
+import { AuditAction } from "../models/AuditRecord";
+import { XPBoostOrigin } from "../models/XPBoost";
 import type { UserProgress } from "../models/UserProgress";
 import { XPSource } from "../models/XPTransaction";
+import { InMemoryRepository } from "../repositories";
+import { createLevelCurve } from "../utils/level-curve";
 import { XPService, type ReviewDifficulty } from "./xp.service";
-import type { LevelUpResult } from "./level.service";
+import { LevelService, type LevelUpResult } from "./level.service";
 
 const createUserProgress = (
   overrides: Partial<UserProgress> = {}
@@ -26,10 +30,21 @@ const createFirestoreMock = () => ({
   createUserProgress: vi.fn(),
   updateUserProgress: vi.fn(),
   createXPTransaction: vi.fn(),
+  getXPTransaction: vi.fn(),
+  createAuditRecord: vi.fn(),
+  getUserXPTransactionsByPeriod: vi.fn().mockResolvedValue([]),
+  getXPBoostsEndingAfter: vi.fn().mockResolvedValue([]),
+  addInboxNotifications: vi.fn(),
 });
 
 const createLevelServiceMock = () => ({
-  checkLevelUp: vi.fn(),
+  checkLevelUp: vi.fn().mockReturnValue({
+    leveledUp: false,
+    oldLevel: 1,
+    newLevel: 1,
+    levelsGained: 0,
+  }),
+  getLevelTitle: vi.fn().mockReturnValue({ minLevel: 1, title: "", badge: "" }),
   xpForLevel: vi.fn(),
   calculateLevel: vi.fn(),
   getCurrentXP: vi.fn(),
@@ -355,5 +370,451 @@ describe("XPService", () => {
       expect(levelService.getCurrentXP).toHaveBeenCalledWith(415, 2);
       expect(levelService.checkLevelUp).toHaveBeenCalledWith(395, 415); // 395 + 20 = 415
     });
+
+    it("does not apply XP again for a repeated eventId", async () => {
+      const firestore = createFirestoreMock();
+      const levelService = createLevelServiceMock();
+      const current = createUserProgress({ currentXP: 15, totalXP: 15 });
+
+      firestore.getXPTransaction.mockResolvedValue({ id: "evt_existing" });
+      firestore.getUserProgress.mockResolvedValue(current);
+      levelService.checkLevelUp.mockReturnValue({
+        leveledUp: false,
+        oldLevel: 1,
+        newLevel: 1,
+        levelsGained: 0,
+      });
+
+      const service = new XPService(firestore as any, levelService as any);
+      const result = await service.processCardReview(
+        "user-1",
+        "card-abc",
+        "good",
+        { eventId: "event-1" }
+      );
+
+      expect(result.duplicate).toBe(true);
+      expect(result.userProgress).toBe(current);
+      expect(firestore.updateUserProgress).not.toHaveBeenCalled();
+      expect(firestore.createXPTransaction).not.toHaveBeenCalled();
+    });
+
+    it("uses a deterministic transaction id when eventId is provided", async () => {
+      const firestore = createFirestoreMock();
+      const levelService = createLevelServiceMock();
+
+      firestore.getXPTransaction.mockResolvedValue(null);
+      firestore.getUserProgress.mockResolvedValue(createUserProgress());
+      firestore.updateUserProgress.mockResolvedValue(createUserProgress());
+      levelService.calculateLevel.mockReturnValue(1);
+      levelService.getCurrentXP.mockReturnValue(15);
+
+      const service = new XPService(firestore as any, levelService as any);
+      await service.processCardReview("user-1", "card-abc", "good", {
+        eventId: "event-1",
+        deckId: "deck-1",
+      });
+      await service.processCardReview("user-1", "card-abc", "good", {
+        eventId: "event-1",
+        deckId: "deck-1",
+      });
+
+      const [first, second] = firestore.createXPTransaction.mock.calls.map(
+        ([transaction]) => transaction
+      );
+      expect(first.id).toMatch(/^evt_/);
+      expect(first.id).toBe(second.id);
+      expect(first.deckId).toBe("deck-1");
+    });
+
+    it("resumes an eventId whose follow-up steps were not completed", async () => {
+      const repository = new InMemoryRepository();
+      const service = new XPService(repository);
+      const review = () =>
+        service.processCardReview("user-1", "card-abc", "good", {
+          eventId: "event-1",
+        });
+
+      const first = await review();
+      // Falha nas etapas seguintes: completeEvent não foi chamado
+      const retry = await review();
+
+      expect(retry).toMatchObject({
+        resumed: true,
+        eventTransactionId: first.eventTransactionId,
+        antiAbuse: { awardedXP: XP_VALUES.REVIEW_GOOD },
+      });
+      expect(retry.duplicate).toBeUndefined();
+      expect(retry.userProgress.totalXP).toBe(XP_VALUES.REVIEW_GOOD);
+
+      await service.completeEvent("user-1", retry);
+
+      expect((await review()).duplicate).toBe(true);
+    });
+  });
+
+  describe("spendXP", () => {
+    it("records a negative transaction and recalculates the level", async () => {
+      const firestore = createFirestoreMock();
+      const levelService = createLevelServiceMock();
+
+      firestore.getUserProgress.mockResolvedValue(
+        createUserProgress({ totalXP: 1200, level: 3 })
+      );
+      firestore.updateUserProgress.mockResolvedValue(
+        createUserProgress({ totalXP: 700, level: 2 })
+      );
+      levelService.calculateLevel.mockReturnValue(2);
+      levelService.getCurrentXP.mockReturnValue(100);
+
+      const service = new XPService(firestore as any, levelService as any);
+      const result = await service.spendXP(
+        "user-1",
+        500,
+        XPSource.STREAK_FREEZE_PURCHASE,
+        "streak-freeze-1"
+      );
+
+      expect(firestore.updateUserProgress).toHaveBeenCalledWith("user-1", {
+        level: 2,
+        currentXP: 100,
+        totalXP: 700,
+      });
+      expect(firestore.createXPTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: -500,
+          source: XPSource.STREAK_FREEZE_PURCHASE,
+        })
+      );
+      expect(result.levelUpInfo).toEqual({
+        leveledUp: false,
+        oldLevel: 3,
+        newLevel: 2,
+        levelsGained: 0,
+      });
+    });
+
+    it("throws when the user does not have enough XP", async () => {
+      const firestore = createFirestoreMock();
+      firestore.getUserProgress.mockResolvedValue(
+        createUserProgress({ totalXP: 100 })
+      );
+
+      const service = new XPService(firestore as any);
+
+      await expect(
+        service.spendXP(
+          "user-1",
+          500,
+          XPSource.STREAK_FREEZE_PURCHASE,
+          "streak-freeze-1"
+        )
+      ).rejects.toThrow("XP insuficiente");
+      expect(firestore.createXPTransaction).not.toHaveBeenCalled();
+    });
+
+    it("rejects sources that only grant XP", async () => {
+      const service = new XPService(createFirestoreMock() as any);
+
+      await expect(
+        service.spendXP("user-1", 10, XPSource.REVIEW, "card-1")
+      ).rejects.toThrow("não permite gasto");
+    });
+  });
+
+  describe("reversals", () => {
+    const setup = async () => {
+      const repository = new InMemoryRepository();
+      const service = new XPService(repository);
+
+      await service.addXP("user-1", 300, XPSource.REVIEW, "card-1");
+      const { userProgress } = await service.addXP(
+        "user-1",
+        200,
+        XPSource.CARD_CREATION,
+        "card-2",
+        { deckId: "deck-1" }
+      );
+      const [creation] = await repository.getUserXPTransactionsBySource(
+        "user-1",
+        XPSource.CARD_CREATION,
+        "card-2"
+      );
+
+      return { repository, service, userProgress, creation: creation! };
+    };
+
+    it("records a reversal referencing the original and levels the user down", async () => {
+      const { repository, service, userProgress, creation } = await setup();
+      expect(userProgress).toMatchObject({ totalXP: 500, level: 2 });
+
+      const result = await service.reverseTransaction(
+        "user-1",
+        creation.id,
+        "Card excluído"
+      );
+
+      expect(result.xpReversed).toBe(200);
+      expect(result.userProgress).toMatchObject({
+        totalXP: 300,
+        level: 1,
+        currentXP: 200,
+      });
+      expect(result.levelDownInfo).toEqual({
+        leveledDown: true,
+        oldLevel: 2,
+        newLevel: 1,
+        levelsLost: 1,
+      });
+      expect(
+        await repository.getXPTransaction("user-1", result.reversals[0]!.id)
+      ).toMatchObject({
+        amount: -200,
+        source: XPSource.REVERSAL,
+        sourceId: "card-2",
+        deckId: "deck-1",
+        reversalOf: creation.id,
+      });
+    });
+
+    it("prevents reversing the same transaction twice", async () => {
+      const { repository, service, creation } = await setup();
+
+      await service.reverseTransaction("user-1", creation.id);
+
+      await expect(
+        service.reverseTransaction("user-1", creation.id)
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(await repository.getUserProgress("user-1")).toMatchObject({
+        totalXP: 300,
+      });
+    });
+
+    it("rejects reversing a reversal or an unknown transaction", async () => {
+      const { service, creation } = await setup();
+      const { reversals } = await service.reverseTransaction(
+        "user-1",
+        creation.id
+      );
+
+      await expect(
+        service.reverseTransaction("user-1", reversals[0]!.id)
+      ).rejects.toMatchObject({ statusCode: 400 });
+      await expect(
+        service.reverseTransaction("user-1", "missing")
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it("reverses by source skipping already reversed transactions", async () => {
+      const { service } = await setup();
+
+      const first = await service.reverseTransactionsBySource(
+        "user-1",
+        XPSource.CARD_CREATION,
+        "card-2"
+      );
+      const second = await service.reverseTransactionsBySource(
+        "user-1",
+        XPSource.CARD_CREATION,
+        "card-2"
+      );
+
+      expect(first.xpReversed).toBe(200);
+      expect(second.reversals).toEqual([]);
+      expect(second.alreadyReversed).toHaveLength(1);
+      expect(second.userProgress.totalXP).toBe(300);
+    });
+
+    it("reverses the creation XP of a deleted deck and of its cards", async () => {
+      const { repository, service } = await setup();
+      await service.addXP("user-1", 50, XPSource.DECK_CREATION, "deck-1");
+
+      const result = await service.reverseDeckCreation("user-1", "deck-1");
+
+      expect(result.xpReversed).toBe(250);
+      expect(result.reversals.map((reversal) => reversal.sourceId)).toEqual([
+        "deck-1",
+        "card-2",
+      ]);
+      await expect(
+        repository.countXPTransactionsBySource("user-1", XPSource.CARD_CREATION)
+      ).resolves.toBe(0);
+      await expect(
+        repository.countXPTransactionsBySource("user-1", XPSource.DECK_CREATION)
+      ).resolves.toBe(0);
+    });
+
+    it("never leaves the total XP negative when the XP was already spent", async () => {
+      const { service, creation } = await setup();
+      await service.spendXP(
+        "user-1",
+        400,
+        XPSource.STREAK_FREEZE_PURCHASE,
+        "freeze-1"
+      );
+
+      const result = await service.reverseTransaction("user-1", creation.id);
+
+      expect(result.userProgress).toMatchObject({ totalXP: 0, level: 0 });
+    });
+  });
+
+  describe("recalculateLevel", () => {
+    const setup = async () => {
+      const repository = new InMemoryRepository();
+      await new XPService(repository).addXP(
+        "user-1",
+        1000,
+        XPSource.REVIEW,
+        "card-1"
+      );
+
+      // Nova curva: 100 XP por nível
+      const levelService = new LevelService(
+        createLevelCurve({ type: "polynomial", base: 100, exponent: 1 }),
+        { cap: null, prestigeXP: null, titles: [] }
+      );
+
+      return { repository, service: new XPService(repository, levelService) };
+    };
+
+    it("updates level and currentXP with the configured curve and audits it", async () => {
+      const { repository, service } = await setup();
+
+      const result = await service.recalculateLevel("user-1");
+
+      expect(result).toEqual({
+        userId: "user-1",
+        changed: true,
+        before: { level: 3, currentXP: 100 },
+        after: { level: 10, currentXP: 0 },
+      });
+      expect(await repository.getUserProgress("user-1")).toMatchObject({
+        totalXP: 1000,
+        level: 10,
+        currentXP: 0,
+      });
+      const audit = await repository.getUserAuditRecords(
+        "user-1",
+        new Date(0),
+        new Date(Date.now() + 1000),
+        10
+      );
+      expect(audit.map((record) => record.action)).toContain(
+        AuditAction.LEVEL_RECALCULATION
+      );
+    });
+
+    it("does not write anything on dry run", async () => {
+      const { repository, service } = await setup();
+
+      const result = await service.recalculateLevel("user-1", {
+        dryRun: true,
+      });
+
+      expect(result.changed).toBe(true);
+      expect(await repository.getUserProgress("user-1")).toMatchObject({
+        level: 3,
+        currentXP: 100,
+      });
+    });
+  });
+
+  describe("boosts", () => {
+    const setup = async () => {
+      const repository = new InMemoryRepository();
+      await repository.saveXPBoost({
+        id: "hard-cards",
+        name: "2x em cards difíceis",
+        multiplier: 2,
+        startsAt: new Date("2025-03-08T00:00:00Z"),
+        endsAt: new Date("2025-03-10T00:00:00Z"),
+        origin: XPBoostOrigin.EVENT,
+        sources: [XPSource.REVIEW],
+        difficulties: ["hard"],
+        createdBy: "admin-token",
+        createdAt: new Date("2025-03-01T00:00:00Z"),
+      });
+
+      return { repository, service: new XPService(repository) };
+    };
+
+    it("multiplies the XP and records the boost on the transaction", async () => {
+      const { repository, service } = await setup();
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-03-08T10:00:00Z"));
+
+      const result = await service
+        .processCardReview("user-1", "card-1", "hard")
+        .finally(() => vi.useRealTimers());
+
+      expect(result.boost).toEqual({
+        boostId: "hard-cards",
+        name: "2x em cards difíceis",
+        multiplier: 2,
+        baseXP: XP_VALUES.REVIEW_HARD,
+      });
+      expect(result.userProgress.totalXP).toBe(XP_VALUES.REVIEW_HARD * 2);
+
+      const [transaction] = await repository.getUserXPTransactionsBySource(
+        "user-1",
+        XPSource.REVIEW,
+        "card-1"
+      );
+      expect(transaction).toMatchObject({
+        amount: XP_VALUES.REVIEW_HARD * 2,
+        baseAmount: XP_VALUES.REVIEW_HARD,
+        multiplier: 2,
+        boostId: "hard-cards",
+      });
+    });
+
+    it("resolves offline batch boosts when the batch is received", async () => {
+      const { repository, service } = await setup();
+      const reviews = [
+        {
+          cardId: "card-1",
+          difficulty: "hard",
+          reviewedAt: new Date("2025-03-08T10:00:00Z"),
+        },
+        {
+          cardId: "card-2",
+          difficulty: "good",
+          reviewedAt: new Date("2025-03-08T10:05:00Z"),
+        },
+      ];
+
+      const during = await service.processCardReviews(
+        "user-1",
+        reviews,
+        new Date("2025-03-08T12:00:00Z")
+      );
+      // Revisões feitas durante o boost, mas enviadas depois do fim
+      const after = await service.processCardReviews(
+        "user-2",
+        reviews,
+        new Date("2025-03-10T01:00:00Z")
+      );
+
+      expect(
+        during.transactions.map(({ amount, boostId }) => ({ amount, boostId }))
+      ).toEqual([
+        { amount: XP_VALUES.REVIEW_HARD * 2, boostId: "hard-cards" },
+        { amount: XP_VALUES.REVIEW_GOOD, boostId: undefined },
+      ]);
+      expect(
+        after.transactions.map(({ amount, boostId }) => ({ amount, boostId }))
+      ).toEqual([
+        { amount: XP_VALUES.REVIEW_HARD, boostId: undefined },
+        { amount: XP_VALUES.REVIEW_GOOD, boostId: undefined },
+      ]);
+      expect(
+        await repository.getUserXPTransactionsByPeriod(
+          "user-2",
+          new Date("2025-03-10T00:00:00Z"),
+          new Date("2025-03-10T02:00:00Z")
+        )
+      ).toHaveLength(2);
+    });
   });
 });
@@ -1,25 +1,105 @@
-import { randomUUID } from "crypto";
+import { createHash, randomUUID } from "crypto";
 import { XP_VALUES } from "../config/constants";
+import type { AntiAbuseDecision } from "../models/AntiAbuse";
+import { InboxNotificationType } from "../models/InboxNotification";
 import type { UserProgress } from "../models/UserProgress";
-import { XPSource, type XPTransaction } from "../models/XPTransaction";
-import { FirestoreService } from "./firestore.service";
-import { LevelService, type LevelUpResult } from "./level.service";
+import type { XPBoost } from "../models/XPBoost";
+import {
+  getReversalTransactionId,
+  XP_SPENDING_SOURCES,
+  XPSource,
+  type XPTransaction,
+} from "../models/XPTransaction";
+import { AppError } from "../middlewares/error.middleware";
+import { AuditAction } from "../models/AuditRecord";
+import { getRepository, type GamificationRepository } from "../repositories";
+import { AntiAbuseService } from "./anti-abuse.service";
+import { AuditService } from "./audit.service";
+import {
+  LevelService,
+  type LevelDownResult,
+  type LevelUpResult,
+} from "./level.service";
+import { NotificationInboxService } from "./notification-inbox.service";
+import { XPBoostService } from "./xp-boost.service";
 
 export type ReviewDifficulty = "again" | "hard" | "good" | "easy";
 
 export interface XPResult {
   userProgress: UserProgress;
   levelUpInfo: LevelUpResult;
+  // XP somado ao total nesta chamada, já com boost e anti-abuso
+  // (negativo em débitos e estornos; 0 em eventos duplicados)
+  xpGained: number;
+  // true quando o eventId já havia sido aplicado e nenhum XP foi adicionado
+  duplicate?: boolean;
+  // true quando o XP do eventId já foi aplicado, mas as etapas seguintes
+  // falharam: o chamador deve refazê-las e chamar completeEvent
+  resumed?: boolean;
+  // Transação do eventId, concluída com completeEvent após as etapas seguintes
+  eventTransactionId?: string;
+  // Avaliação anti-abuso do XP solicitado (ausente em eventos duplicados)
+  antiAbuse?: AntiAbuseDecision;
+  // Boost aplicado ao XP (ausente quando nenhum boost estava ativo)
+  boost?: AppliedXPBoost;
 }
 
+export interface AppliedXPBoost {
+  boostId: string;
+  name: string;
+  multiplier: number;
+  // XP antes do multiplicador
+  baseXP: number;
+}
+
+export interface CardReviewInput {
+  cardId: string;
+  difficulty: ReviewDifficulty | string;
+  deckId?: string | undefined;
+  reviewedAt: Date;
+}
+
+export interface BatchXPResult extends XPResult {
+  transactions: XPTransaction[];
+  // Uma decisão por revisão, na ordem recebida
+  reviewDecisions: AntiAbuseDecision[];
+  // Transações do eventId do lote, concluídas com completeEvent
+  eventTransactionIds?: string[];
+}
+
+export interface XPReversalResult extends XPResult {
+  // Estornos gravados nesta chamada
+  reversals: XPTransaction[];
+  // Transações ignoradas por já terem sido revertidas antes
+  alreadyReversed: string[];
+  xpReversed: number;
+  levelDownInfo: LevelDownResult;
+}
+
+export interface LevelRecalculationResult {
+  userId: string;
+  changed: boolean;
+  before: { level: number; currentXP: number };
+  after: { level: number; currentXP: number };
+}
+
+export type XPOptions = {
+  deckId?: string | undefined;
+  // Identificador do evento no cliente; repetições não aplicam XP novamente
+  eventId?: string | undefined;
+  // Substitui a descrição padrão da transação (ex: motivo de um ajuste manual)
+  description?: string | undefined;
+};
+
 type ApplyXPParams = {
   userId: string;
   amount: number;
   source: XPSource;
   sourceId: string;
-  description?: string;
   issuedAt?: Date;
-};
+  // Revisões: usada pelos boosts restritos a dificuldades
+  difficulty?: ReviewDifficulty;
+} & XPOptions;
 
 const REVIEW_DIFFICULTY_TO_XP: Record<ReviewDifficulty, number> = {
   again: XP_VALUES.REVIEW_AGAIN,
@@ -37,8 +117,18 @@ const REVIEW_DIFFICULTY_LABEL: Record<ReviewDifficulty, string> = {
 
 export class XPService {
   constructor(
-    private readonly firestore: FirestoreService = new FirestoreService(),
-    private readonly levelService: LevelService = new LevelService()
+    private readonly firestore: GamificationRepository = getRepository(),
+    private readonly levelService: LevelService = new LevelService(),
+    private readonly auditService: AuditService = new AuditService(firestore),
+    private readonly antiAbuseService: AntiAbuseService = new AntiAbuseService(
+      firestore
+    ),
+    private readonly xpBoostService: XPBoostService = new XPBoostService(
+      firestore
+    ),
+    private readonly inboxService: NotificationInboxService = new NotificationInboxService(
+      firestore
+    )
   ) {}
 
   calculateXPForReview(difficulty: ReviewDifficulty | string): number {
@@ -50,15 +140,319 @@ export class XPService {
     userId: string,
     amount: number,
     source: XPSource,
-    sourceId: string
+    sourceId: string,
+    options: XPOptions = {}
   ): Promise<XPResult> {
-    return this.applyXP({ userId, amount, source, sourceId });
+    return this.applyXP({ userId, amount, source, sourceId, ...options });
+  }
+
+  /**
+   * Conclui o evento idempotente depois das etapas seguintes ao XP
+   * (progresso diário, métricas, conquistas). Até lá, reenvios do eventId
+   * retomam essas etapas em vez de serem tratados como duplicados.
+   */
+  async completeEvent(
+    userId: string,
+    result: XPResult | BatchXPResult
+  ): Promise<void> {
+    const transactionIds =
+      "eventTransactionIds" in result && result.eventTransactionIds
+        ? result.eventTransactionIds
+        : result.eventTransactionId
+          ? [result.eventTransactionId]
+          : [];
+
+    if (transactionIds.length) {
+      await this.firestore.completeXPTransactionEvents(userId, transactionIds);
+    }
+  }
+
+  /**
+   * Debita XP do usuário (ex: compra de streak freeze).
+   * Registra uma transação negativa e recalcula o nível pelo novo total.
+   */
+  async spendXP(
+    userId: string,
+    amount: number,
+    source: XPSource,
+    sourceId: string,
+    description?: string
+  ): Promise<XPResult> {
+    if (!userId?.trim()) {
+      throw new Error("Identificador do usuário inválido.");
+    }
+
+    if (!sourceId?.trim()) {
+      throw new Error("Identificador da origem inválido.");
+    }
+
+    if (!XP_SPENDING_SOURCES.includes(source)) {
+      throw new Error(`Fonte de XP não permite gasto: ${source}`);
+    }
+
+    const numericAmount = Number(amount);
+    if (!Number.isFinite(numericAmount) || numericAmount <= 0) {
+      throw new Error("Quantidade de XP inválida.");
+    }
+
+    const oldProgress = await this.ensureUserProgress(userId);
+
+    if (oldProgress.totalXP < numericAmount) {
+      throw new AppError(
+        `XP insuficiente. Necessário: ${numericAmount}, disponível: ${oldProgress.totalXP}.`,
+        400
+      );
+    }
+
+    return this.debitXP(
+      oldProgress,
+      numericAmount,
+      source,
+      sourceId,
+      description
+    );
+  }
+
+  /**
+   * Debita até `amount` de XP por ajuste administrativo. Diferente de spendXP,
+   * não rejeita saldo insuficiente: o total é limitado a zero e o valor
+   * efetivamente debitado volta em `deducted`.
+   */
+  async deductXP(
+    userId: string,
+    amount: number,
+    sourceId: string,
+    description?: string
+  ): Promise<XPResult & { deducted: number }> {
+    if (!userId?.trim()) {
+      throw new Error("Identificador do usuário inválido.");
+    }
+
+    if (!sourceId?.trim()) {
+      throw new Error("Identificador da origem inválido.");
+    }
+
+    const numericAmount = Number(amount);
+    if (!Number.isFinite(numericAmount) || numericAmount <= 0) {
+      throw new Error("Quantidade de XP inválida.");
+    }
+
+    const oldProgress = await this.ensureUserProgress(userId);
+    const deducted = Math.min(numericAmount, oldProgress.totalXP);
+
+    if (deducted === 0) {
+      return {
+        userProgress: oldProgress,
+        levelUpInfo: {
+          leveledUp: false,
+          oldLevel: oldProgress.level,
+          newLevel: oldProgress.level,
+          levelsGained: 0,
+        },
+        xpGained: 0,
+        deducted,
+      };
+    }
+
+    const result = await this.debitXP(
+      oldProgress,
+      deducted,
+      XPSource.MANUAL_ADJUSTMENT,
+      sourceId,
+      description
+    );
+
+    return { ...result, deducted };
+  }
+
+  private async debitXP(
+    oldProgress: UserProgress,
+    numericAmount: number,
+    source: XPSource,
+    sourceId: string,
+    description?: string
+  ): Promise<XPResult> {
+    const { userId } = oldProgress;
+    const updatedTotalXP = oldProgress.totalXP - numericAmount;
+    const newLevel = this.levelService.calculateLevel(updatedTotalXP);
+
+    const [updatedProgress] = await Promise.all([
+      this.firestore.updateUserProgress(userId, {
+        level: newLevel,
+        currentXP: this.levelService.getCurrentXP(updatedTotalXP, newLevel),
+        totalXP: updatedTotalXP,
+      }),
+      this.firestore.createXPTransaction({
+        id: randomUUID(),
+        userId,
+        amount: -numericAmount,
+        source,
+        sourceId,
+        description:
+          description ?? this.defaultTransactionDescription(source, sourceId),
+        timestamp: new Date(),
+      }),
+    ]);
+
+    await this.auditXPChange(oldProgress, updatedProgress, {
+      amount: -numericAmount,
+      source,
+      sourceId,
+    });
+
+    // Gasto nunca sobe de nível (checkLevelUp não aceita XP decrescente)
+    return {
+      userProgress: updatedProgress,
+      levelUpInfo: {
+        leveledUp: false,
+        oldLevel: oldProgress.level,
+        newLevel,
+        levelsGained: 0,
+      },
+      xpGained: -numericAmount,
+    };
+  }
+
+  /**
+   * Estorna uma transação de XP (ex: revisões fraudulentas, conquista concedida
+   * por engano). Grava uma transação REVERSAL que referencia a original e
+   * recalcula totalXP/nível, inclusive com perda de nível.
+   */
+  async reverseTransaction(
+    userId: string,
+    transactionId: string,
+    reason?: string
+  ): Promise<XPReversalResult> {
+    if (!userId?.trim()) {
+      throw new Error("Identificador do usuário inválido.");
+    }
+
+    const original = await this.firestore.getXPTransaction(
+      userId,
+      transactionId
+    );
+
+    if (!original) {
+      throw new AppError(
+        `Transação de XP "${transactionId}" não encontrada.`,
+        404
+      );
+    }
+
+    if (original.source === XPSource.REVERSAL) {
+      throw new AppError("Um estorno não pode ser revertido.", 400);
+    }
+
+    if (original.amount <= 0) {
+      throw new AppError(
+        "Apenas transações de ganho de XP podem ser revertidas.",
+        400
+      );
+    }
+
+    const result = await this.applyReversals(userId, [original], reason);
+
+    if (!result.reversals.length) {
+      throw new AppError(
+        `A transação de XP "${transactionId}" já foi revertida.`,
+        409
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Estorna todo o XP ganho por uma origem (ex: criação de um card excluído).
+   * Transações já revertidas são ignoradas, então a chamada pode ser repetida.
+   */
+  async reverseTransactionsBySource(
+    userId: string,
+    source: XPSource,
+    sourceId: string,
+    reason?: string
+  ): Promise<XPReversalResult> {
+    if (!userId?.trim()) {
+      throw new Error("Identificador do usuário inválido.");
+    }
+
+    if (!sourceId?.trim()) {
+      throw new Error("Identificador da origem inválido.");
+    }
+
+    if (source === XPSource.REVERSAL) {
+      throw new AppError("Um estorno não pode ser revertido.", 400);
+    }
+
+    const originals = await this.firestore.getUserXPTransactionsBySource(
+      userId,
+      source,
+      sourceId
+    );
+
+    return this.reverseTransactions(userId, originals, reason);
+  }
+
+  /**
+   * Estorna o XP de criação de um deck excluído e dos cards criados nele
+   */
+  async reverseDeckCreation(
+    userId: string,
+    deckId: string,
+    reason?: string
+  ): Promise<XPReversalResult> {
+    if (!userId?.trim()) {
+      throw new Error("Identificador do usuário inválido.");
+    }
+
+    if (!deckId?.trim()) {
+      throw new Error("Identificador do deck inválido.");
+    }
+
+    const [deckCreations, cardCreations] = await Promise.all([
+      this.firestore.getUserXPTransactionsBySource(
+        userId,
+        XPSource.DECK_CREATION,
+        deckId
+      ),
+      this.firestore.getUserXPTransactionsByDeck(
+        userId,
+        deckId,
+        XPSource.CARD_CREATION
+      ),
+    ]);
+
+    return this.reverseTransactions(
+      userId,
+      [...deckCreations, ...cardCreations],
+      reason
+    );
+  }
+
+  /**
+   * Estorna as transações informadas em uma única atualização do progresso.
+   * Estornos e débitos são ignorados; transações já revertidas vão para alreadyReversed.
+   */
+  async reverseTransactions(
+    userId: string,
+    transactions: XPTransaction[],
+    reason?: string
+  ): Promise<XPReversalResult> {
+    return this.applyReversals(
+      userId,
+      transactions.filter(
+        (transaction) =>
+          transaction.amount > 0 && transaction.source !== XPSource.REVERSAL
+      ),
+      reason
+    );
   }
 
   async processCardReview(
     userId: string,
     cardId: string,
-    difficulty: ReviewDifficulty | string
+    difficulty: ReviewDifficulty | string,
+    options: XPOptions = {}
   ): Promise<XPResult> {
     if (!cardId?.trim()) {
       throw new Error("Identificador do card inválido.");
@@ -73,7 +467,266 @@ export class XPService {
       source: XPSource.REVIEW,
       sourceId: cardId,
       description: `Revisão do card ${cardId} (${REVIEW_DIFFICULTY_LABEL[normalizedDifficulty]})`,
+      difficulty: normalizedDifficulty,
+      ...options,
+    });
+  }
+
+  /**
+   * Recalcula level/currentXP a partir do totalXP com a curva atual
+   * (ex: depois de alterar LEVEL_CURVE). O totalXP não muda.
+   * Com dryRun, apenas informa a mudança.
+   */
+  async recalculateLevel(
+    userId: string,
+    { dryRun = false }: { dryRun?: boolean } = {}
+  ): Promise<LevelRecalculationResult> {
+    const progress = await this.firestore.getUserProgress(userId);
+    const level = this.levelService.calculateLevel(progress.totalXP);
+    const before = { level: progress.level, currentXP: progress.currentXP };
+    const after = {
+      level,
+      currentXP: this.levelService.getCurrentXP(progress.totalXP, level),
+    };
+
+    const changed =
+      before.level !== after.level || before.currentXP !== after.currentXP;
+
+    if (changed && !dryRun) {
+      await this.firestore.updateUserProgress(userId, after);
+      await this.auditService.record({
+        action: AuditAction.LEVEL_RECALCULATION,
+        targetUserId: userId,
+        before,
+        after,
+        details: { totalXP: progress.totalXP },
+      });
+    }
+
+    return { userId, changed, before, after };
+  }
+
+  /**
+   * Aplica o XP de várias revisões de uma vez: uma única atualização do
+   * progresso e as transações gravadas em batch (uma por revisão).
+   *
+   * Boosts e anti-abuso usam o horário de recebimento do lote, e não o
+   * reviewedAt informado pelo cliente: um lote com datas retroativas não
+   * escapa dos limites diários nem usa boosts já encerrados.
+   *
+   * Com eventId, o ID de cada transação vem do eventId e da posição da
+   * revisão no lote (como em applyXP). Um reenvio do lote não soma XP de
+   * novo: é duplicado se o evento foi concluído, ou retomado (resumed)
+   * se as etapas seguintes ao XP falharam.
+   */
+  async processCardReviews(
+    userId: string,
+    reviews: CardReviewInput[],
+    receivedAt: Date = new Date(),
+    eventId?: string
+  ): Promise<BatchXPResult> {
+    if (!userId?.trim()) {
+      throw new Error("Identificador do usuário inválido.");
+    }
+
+    if (!reviews.length) {
+      throw new Error("Nenhuma revisão informada.");
+    }
+
+    const normalizedReviews = reviews.map((review) => {
+      if (!review.cardId?.trim()) {
+        throw new Error("Identificador do card inválido.");
+      }
+
+      return {
+        ...review,
+        difficulty: this.normalizeDifficulty(review.difficulty),
+      };
+    });
+
+    const transactionIds = normalizedReviews.map((review, index) =>
+      eventId
+        ? this.buildEventTransactionId(
+            XPSource.REVIEW,
+            `${index}:${review.cardId}`,
+            eventId
+          )
+        : randomUUID()
+    );
+
+    if (eventId) {
+      const existing = await this.firestore.getXPTransactionsByIds(
+        userId,
+        transactionIds
+      );
+
+      if (existing.length) {
+        return this.resumeCardReviews(userId, transactionIds, existing);
+      }
+    }
+
+    const boosts = await this.xpBoostService.resolveMany(
+      normalizedReviews.map((review) => ({
+        userId,
+        source: XPSource.REVIEW,
+        deckId: review.deckId,
+        difficulty: review.difficulty,
+        occurredAt: receivedAt,
+      }))
+    );
+
+    const candidates: XPTransaction[] = normalizedReviews.map(
+      (review, index) => ({
+        id: transactionIds[index] ?? randomUUID(),
+        userId,
+        ...this.boostAmount(
+          REVIEW_DIFFICULTY_TO_XP[review.difficulty],
+          boosts[index] ?? null
+        ),
+        source: XPSource.REVIEW,
+        sourceId: review.cardId,
+        description: `Revisão do card ${review.cardId} (${REVIEW_DIFFICULTY_LABEL[review.difficulty]})`,
+        // Gravada no recebimento para contar nas janelas anti-abuso seguintes
+        timestamp: receivedAt,
+        ...(review.deckId ? { deckId: review.deckId } : {}),
+        ...(eventId ? { eventPending: true } : {}),
+      })
+    );
+
+    const reviewDecisions = await this.antiAbuseService.evaluateMany(
+      userId,
+      reviews.map((review, index) => ({
+        source: XPSource.REVIEW,
+        sourceId: review.cardId,
+        amount: candidates[index]?.amount ?? 0,
+        occurredAt: receivedAt,
+      }))
+    );
+
+    // Revisões sem XP após o anti-abuso não geram transação
+    const transactions = candidates.flatMap((transaction, index) => {
+      const awardedXP = reviewDecisions[index]?.awardedXP ?? 0;
+      return awardedXP > 0 ? [{ ...transaction, amount: awardedXP }] : [];
     });
+
+    const xpGained = transactions.reduce(
+      (total, transaction) => total + transaction.amount,
+      0
+    );
+
+    const oldProgress = await this.ensureUserProgress(userId);
+
+    if (!transactions.length) {
+      return {
+        userProgress: oldProgress,
+        levelUpInfo: this.levelService.checkLevelUp(
+          oldProgress.totalXP,
+          oldProgress.totalXP
+        ),
+        xpGained,
+        transactions,
+        reviewDecisions,
+      };
+    }
+
+    const lastReviewedAt = new Date(
+      Math.max(...reviews.map((review) => review.reviewedAt.getTime()))
+    );
+    const updatedTotalXP = oldProgress.totalXP + xpGained;
+    const newLevel = this.levelService.calculateLevel(updatedTotalXP);
+
+    const [updatedProgress] = await Promise.all([
+      this.firestore.updateUserProgress(userId, {
+        level: newLevel,
+        currentXP: this.levelService.getCurrentXP(updatedTotalXP, newLevel),
+        totalXP: updatedTotalXP,
+        lastActivityDate: lastReviewedAt,
+      }),
+      this.firestore.createXPTransactions(transactions),
+    ]);
+
+    await this.auditXPChange(oldProgress, updatedProgress, {
+      amount: xpGained,
+      source: XPSource.REVIEW,
+      transactions: transactions.length,
+    });
+
+    const levelUpInfo = this.levelService.checkLevelUp(
+      oldProgress.totalXP,
+      updatedTotalXP
+    );
+    await this.recordLevelUp(userId, levelUpInfo);
+
+    return {
+      userProgress: updatedProgress,
+      levelUpInfo,
+      xpGained,
+      transactions,
+      reviewDecisions,
+      ...(eventId
+        ? {
+            eventTransactionIds: transactions.map(
+              (transaction) => transaction.id
+            ),
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Reenvio de um lote cujo XP já foi gravado. As decisões do anti-abuso
+   * são reconstruídas pelas transações existentes: revisões sem transação
+   * não receberam XP e não são processadas de novo.
+   */
+  private async resumeCardReviews(
+    userId: string,
+    transactionIds: string[],
+    existing: XPTransaction[]
+  ): Promise<BatchXPResult> {
+    const userProgress = await this.ensureUserProgress(userId);
+    const byId = new Map(
+      existing.map((transaction) => [transaction.id, transaction])
+    );
+    const xpGained = existing.reduce(
+      (total, transaction) => total + transaction.amount,
+      0
+    );
+    const pending = existing.some((transaction) => transaction.eventPending);
+
+    if (!pending) {
+      return {
+        userProgress,
+        levelUpInfo: this.levelService.checkLevelUp(
+          userProgress.totalXP,
+          userProgress.totalXP
+        ),
+        duplicate: true,
+        xpGained: 0,
+        transactions: [],
+        reviewDecisions: [],
+      };
+    }
+
+    return {
+      userProgress,
+      levelUpInfo: this.levelService.checkLevelUp(
+        userProgress.totalXP - xpGained,
+        userProgress.totalXP
+      ),
+      resumed: true,
+      xpGained,
+      transactions: existing,
+      reviewDecisions: transactionIds.map((transactionId) => {
+        const awardedXP = byId.get(transactionId)?.amount ?? 0;
+        return {
+          allowed: awardedXP > 0,
+          requestedXP: awardedXP,
+          awardedXP,
+          reasons: [],
+        };
+      }),
+      eventTransactionIds: existing.map((transaction) => transaction.id),
+    };
   }
 
   private async applyXP({
@@ -83,6 +736,9 @@ export class XPService {
     sourceId,
     description,
     issuedAt,
+    deckId,
+    eventId,
+    difficulty,
   }: ApplyXPParams): Promise<XPResult> {
     if (!userId?.trim()) {
       throw new Error("Identificador do usuário inválido.");
@@ -99,11 +755,89 @@ export class XPService {
 
     const timestamp = issuedAt ?? new Date();
 
+    // Com eventId o ID da transação é determinístico: se já existe, o evento
+    // foi aplicado antes e o XP não deve ser somado novamente
+    const transactionId = eventId
+      ? this.buildEventTransactionId(source, sourceId, eventId)
+      : randomUUID();
+
+    if (eventId) {
+      const existing = await this.firestore.getXPTransaction(
+        userId,
+        transactionId
+      );
+
+      if (existing) {
+        const userProgress = await this.ensureUserProgress(userId);
+        const levelUpInfo = this.levelService.checkLevelUp(
+          userProgress.totalXP,
+          userProgress.totalXP
+        );
+
+        // XP aplicado em uma tentativa que falhou depois: retomar as etapas seguintes
+        if (existing.eventPending) {
+          return {
+            userProgress,
+            levelUpInfo,
+            xpGained: existing.amount,
+            resumed: true,
+            eventTransactionId: transactionId,
+            antiAbuse: {
+              allowed: true,
+              requestedXP: existing.amount,
+              awardedXP: existing.amount,
+              reasons: [],
+            },
+          };
+        }
+
+        return { userProgress, levelUpInfo, xpGained: 0, duplicate: true };
+      }
+    }
+
+    // O boost é aplicado antes do anti-abuso: os limites valem para o XP final
+    const boost = await this.xpBoostService.resolve({
+      userId,
+      source,
+      deckId,
+      difficulty,
+      occurredAt: timestamp,
+    });
+    const boosted = this.boostAmount(numericAmount, boost);
+    const appliedBoost: Pick<XPResult, "boost"> = boost
+      ? {
+          boost: {
+            boostId: boost.id,
+            name: boost.name,
+            multiplier: boost.multiplier,
+            baseXP: numericAmount,
+          },
+        }
+      : {};
+
+    const antiAbuse = await this.antiAbuseService.evaluate(userId, {
+      source,
+      sourceId,
+      amount: boosted.amount,
+      occurredAt: timestamp,
+    });
+
     // Buscar progresso ANTES de adicionar XP para detectar level-up
     const oldProgress = await this.ensureUserProgress(userId);
     const oldTotalXP = oldProgress.totalXP;
 
-    const updatedTotalXP = oldProgress.totalXP + numericAmount;
+    // Bloqueado ou limitado a zero: nenhuma transação é gravada
+    if (antiAbuse.awardedXP <= 0) {
+      return {
+        userProgress: oldProgress,
+        levelUpInfo: this.levelService.checkLevelUp(oldTotalXP, oldTotalXP),
+        xpGained: 0,
+        antiAbuse,
+        ...appliedBoost,
+      };
+    }
+
+    const updatedTotalXP = oldProgress.totalXP + antiAbuse.awardedXP;
 
     // Calcular o novo nível baseado no totalXP atualizado
     const newLevel = this.levelService.calculateLevel(updatedTotalXP);
@@ -115,14 +849,17 @@ export class XPService {
     );
 
     const transaction: XPTransaction = {
-      id: randomUUID(),
+      id: transactionId,
       userId,
-      amount: numericAmount,
+      ...boosted,
+      amount: antiAbuse.awardedXP,
       source,
       sourceId,
       description:
         description ?? this.defaultTransactionDescription(source, sourceId),
       timestamp,
+      ...(deckId ? { deckId } : {}),
+      ...(eventId ? { eventPending: true } : {}),
     };
 
     const [updatedProgress] = await Promise.all([
@@ -135,18 +872,151 @@ export class XPService {
       this.firestore.createXPTransaction(transaction),
     ]);
 
+    await this.auditXPChange(oldProgress, updatedProgress, {
+      amount: antiAbuse.awardedXP,
+      source,
+      sourceId,
+      transactionId,
+      ...(antiAbuse.reasons.length ? { antiAbuse: antiAbuse.reasons } : {}),
+      ...(boost ? { boostId: boost.id, multiplier: boost.multiplier } : {}),
+    });
+
     // Calcular informações de level-up
     const levelUpInfo = this.levelService.checkLevelUp(
       oldTotalXP,
       updatedTotalXP
     );
+    await this.recordLevelUp(userId, levelUpInfo);
 
     return {
       userProgress: updatedProgress,
       levelUpInfo,
+      xpGained: antiAbuse.awardedXP,
+      antiAbuse,
+      ...appliedBoost,
+      ...(eventId ? { eventTransactionId: transactionId } : {}),
+    };
+  }
+
+  private async applyReversals(
+    userId: string,
+    originals: XPTransaction[],
+    reason?: string
+  ): Promise<XPReversalResult> {
+    // Garante o documento; o débito relê o progresso dentro da transação
+    await this.ensureUserProgress(userId);
+
+    const candidates = originals.map(
+      (original): XPTransaction => ({
+        id: getReversalTransactionId(original.id),
+        userId,
+        amount: -original.amount,
+        source: XPSource.REVERSAL,
+        sourceId: original.sourceId,
+        description: reason
+          ? `Estorno de XP: ${reason}`
+          : `Estorno de XP (${original.description})`,
+        timestamp: new Date(),
+        reversalOf: original.id,
+        reversedSource: original.source,
+        ...(original.deckId ? { deckId: original.deckId } : {}),
+      })
+    );
+
+    // Estornos e débito no mesmo commit: uma falha não deixa estorno sem débito
+    const {
+      before: oldProgress,
+      after: updatedProgress,
+      reversals,
+      alreadyReversed,
+    } = await this.firestore.applyXPReversals(userId, {
+      reversals: candidates,
+      levelFor: (totalXP) => {
+        const level = this.levelService.calculateLevel(totalXP);
+        return {
+          level,
+          currentXP: this.levelService.getCurrentXP(totalXP, level),
+        };
+      },
+    });
+
+    const xpReversed = reversals.reduce(
+      (total, reversal) => total - reversal.amount,
+      0
+    );
+    const levelDownInfo = this.levelService.checkLevelDown(
+      oldProgress.totalXP,
+      updatedProgress.totalXP
+    );
+
+    if (reversals.length) {
+      await this.auditXPChange(oldProgress, updatedProgress, {
+        amount: updatedProgress.totalXP - oldProgress.totalXP,
+        source: XPSource.REVERSAL,
+        reversed: reversals.map((reversal) => reversal.reversalOf),
+        ...(reason ? { reason } : {}),
+      });
+    }
+
+    return {
+      userProgress: updatedProgress,
+      levelUpInfo: {
+        leveledUp: false,
+        oldLevel: levelDownInfo.oldLevel,
+        newLevel: levelDownInfo.newLevel,
+        levelsGained: 0,
+      },
+      xpGained: updatedProgress.totalXP - oldProgress.totalXP,
+      reversals,
+      alreadyReversed,
+      xpReversed,
+      levelDownInfo,
     };
   }
 
+  /**
+   * Registra na auditoria o XP e o nível antes/depois de uma mutação
+   */
+  private async auditXPChange(
+    before: UserProgress,
+    after: UserProgress,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await this.auditService.record({
+      action: AuditAction.XP_CHANGE,
+      targetUserId: before.userId,
+      before: { totalXP: before.totalXP, level: before.level },
+      after: { totalXP: after.totalXP, level: after.level },
+      details,
+    });
+  }
+
+  /**
+   * Guarda o level-up na caixa de entrada do usuário
+   */
+  private async recordLevelUp(
+    userId: string,
+    levelUpInfo: LevelUpResult
+  ): Promise<void> {
+    if (!levelUpInfo.leveledUp) {
+      return;
+    }
+
+    const { title } = this.levelService.getLevelTitle(levelUpInfo.newLevel);
+
+    await this.inboxService.record(userId, {
+      type: InboxNotificationType.LEVEL_UP,
+      title: "Subiu de nível! 🎉",
+      body: title
+        ? `Você chegou ao nível ${levelUpInfo.newLevel}: ${title}.`
+        : `Você chegou ao nível ${levelUpInfo.newLevel}.`,
+      data: {
+        oldLevel: String(levelUpInfo.oldLevel),
+        newLevel: String(levelUpInfo.newLevel),
+      },
+    });
+  }
+
   private async ensureUserProgress(userId: string): Promise<UserProgress> {
     try {
       return await this.firestore.getUserProgress(userId);
@@ -162,6 +1032,37 @@ export class XPService {
     }
   }
 
+  /**
+   * XP com o multiplicador do boost e os campos gravados na transação
+   */
+  private boostAmount(
+    baseAmount: number,
+    boost: XPBoost | null
+  ): Pick<XPTransaction, "amount" | "baseAmount" | "multiplier" | "boostId"> {
+    if (!boost) {
+      return { amount: baseAmount };
+    }
+
+    return {
+      amount: Math.round(baseAmount * boost.multiplier),
+      baseAmount,
+      multiplier: boost.multiplier,
+      boostId: boost.id,
+    };
+  }
+
+  private buildEventTransactionId(
+    source: XPSource,
+    sourceId: string,
+    eventId: string
+  ): string {
+    const hash = createHash("sha256")
+      .update(`${source}:${sourceId}:${eventId}`)
+      .digest("hex");
+
+    return `evt_${hash.slice(0, 40)}`;
+  }
+
   private defaultTransactionDescription(
     source: XPSource,
     sourceId: string
@@ -179,7 +1080,16 @@ export class XPService {
         return `XP por streak (${sourceId})`;
       case XPSource.ACHIEVEMENT:
         return `XP por conquista (${sourceId})`;
+      case XPSource.QUEST:
+        return `XP por missão (${sourceId})`;
+      case XPSource.GROUP_GOAL:
+        return `XP por meta semanal do grupo (${sourceId})`;
+      case XPSource.STREAK_FREEZE_PURCHASE:
+        return `Compra de streak freeze (${sourceId})`;
       case XPSource.MANUAL_ADJUSTMENT:
+        return `Ajuste manual de XP (${sourceId})`;
+      case XPSource.REVERSAL:
+        return `Estorno de XP (${sourceId})`;
       default:
         return `XP adquirido (${sourceId})`;
     }
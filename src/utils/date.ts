@@ -0,0 +1,17 @@
+import type { Timestamp } from "firebase-admin/firestore";
+
+/**
+ * Converte uma data lida do Firestore (Date ou Timestamp) em Date.
+ * Valores ausentes ou inválidos viram a época (1970-01-01).
+ */
+export function toDate(value: Date | Timestamp | null | undefined): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+
+  if (value && typeof value.toDate === "function") {
+    return value.toDate();
+  }
+
+  return new Date(0);
+}
@@ -0,0 +1,76 @@
+/**
+ * Curvas de progressão de nível (XP total necessário para atingir cada nível).
+ * A curva ativa vem de LEVEL_CURVE (config/level.config.ts).
+ */
+
+export type PolynomialCurveConfig = {
+  type: "polynomial";
+  // XP = base * nível ^ exponent (padrão: 100 * nível²)
+  base: number;
+  exponent: number;
+};
+
+export type PiecewiseCurveConfig = {
+  type: "piecewise";
+  // A partir de fromLevel, cada nível custa xpPerLevel (o primeiro trecho começa no nível 1)
+  segments: Array<{ fromLevel: number; xpPerLevel: number }>;
+};
+
+export type LevelCurveConfig = PolynomialCurveConfig | PiecewiseCurveConfig;
+
+export interface LevelCurve {
+  readonly type: LevelCurveConfig["type"];
+  // XP total para atingir o nível (>= 1). Deve ser estritamente crescente
+  xpForLevel(level: number): number;
+}
+
+export class PolynomialLevelCurve implements LevelCurve {
+  readonly type = "polynomial";
+
+  constructor(
+    private readonly base: number,
+    private readonly exponent: number
+  ) {}
+
+  xpForLevel(level: number): number {
+    return Math.round(this.base * level ** this.exponent);
+  }
+}
+
+export class PiecewiseLevelCurve implements LevelCurve {
+  readonly type = "piecewise";
+  private readonly segments: PiecewiseCurveConfig["segments"];
+
+  constructor(segments: PiecewiseCurveConfig["segments"]) {
+    this.segments = [...segments].sort((a, b) => a.fromLevel - b.fromLevel);
+
+    if (this.segments[0]?.fromLevel !== 1) {
+      throw new Error("O primeiro trecho da curva deve começar no nível 1.");
+    }
+  }
+
+  xpForLevel(level: number): number {
+    let totalXP = 0;
+
+    for (const [index, segment] of this.segments.entries()) {
+      const next = this.segments[index + 1];
+
+      if (!next || level < next.fromLevel) {
+        return totalXP + (level - segment.fromLevel + 1) * segment.xpPerLevel;
+      }
+
+      totalXP += (next.fromLevel - segment.fromLevel) * segment.xpPerLevel;
+    }
+
+    return totalXP;
+  }
+}
+
+export function createLevelCurve(config: LevelCurveConfig): LevelCurve {
+  switch (config.type) {
+    case "polynomial":
+      return new PolynomialLevelCurve(config.base, config.exponent);
+    case "piecewise":
+      return new PiecewiseLevelCurve(config.segments);
+  }
+}
@@ -0,0 +1,47 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+/**
+ * Dados da requisição (ou execução de job) em andamento, usados pela auditoria
+ * sem precisar repassar parâmetros por todas as camadas de services.
+ */
+export interface RequestContext {
+  requestId: string;
+  // Ex: "POST /api/gamification/process-review" ou "job:update-streaks"
+  endpoint: string | null;
+  // uid do Firebase Auth, "service", "admin-token" ou "system" (jobs)
+  actor: string | null;
+}
+
+export const SYSTEM_ACTOR = "system";
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(
+  context: Partial<RequestContext>,
+  callback: () => T
+): T {
+  return storage.run(
+    {
+      requestId: context.requestId ?? randomUUID(),
+      endpoint: context.endpoint ?? null,
+      actor: context.actor ?? null,
+    },
+    callback
+  );
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Define quem está executando a requisição atual (após a autenticação)
+ */
+export function setRequestActor(actor: string): void {
+  const context = storage.getStore();
+
+  if (context) {
+    context.actor = actor;
+  }
+}
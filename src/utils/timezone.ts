@@ -0,0 +1,108 @@
+/**
+ * Fuso usado para usuários sem fuso configurado (padrão: fuso do servidor)
+ */
+export const DEFAULT_TIMEZONE =
+  process.env.DEFAULT_TIMEZONE ||
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+};
+
+const getParts = (date: Date, timeZone: string): Record<string, string> =>
+  Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+
+/**
+ * Verifica se o fuso é um identificador IANA válido (ex: America/Sao_Paulo)
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone?.trim()) {
+    return false;
+  }
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Retorna a data (YYYY-MM-DD) no fuso do usuário.
+ * Sem fuso configurado, usa DEFAULT_TIMEZONE.
+ */
+export function getDateStringInTimeZone(
+  date: Date = new Date(),
+  timeZone?: string | null
+): string {
+  const parts = getParts(date, timeZone || DEFAULT_TIMEZONE);
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * Retorna a hora (0-23) no fuso do usuário.
+ * Sem fuso configurado, usa DEFAULT_TIMEZONE.
+ */
+export function getHourInTimeZone(
+  date: Date = new Date(),
+  timeZone?: string | null
+): number {
+  return Number(getParts(date, timeZone || DEFAULT_TIMEZONE).hour);
+}
+
+/**
+ * Soma (ou subtrai) dias de uma data no formato YYYY-MM-DD
+ */
+export function addDaysToDateString(dateStr: string, days: number): string {
+  const [year = 1970, month = 1, day = 1] = dateStr.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+
+  const y = date.getUTCFullYear();
+  const m = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const d = String(date.getUTCDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Retorna a segunda-feira (YYYY-MM-DD) da semana de uma data no formato YYYY-MM-DD
+ */
+export function getWeekStartDateString(dateStr: string): string {
+  const [year = 1970, month = 1, day = 1] = dateStr.split("-").map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+  // getUTCDay: 0 = domingo
+  return addDaysToDateString(dateStr, -((weekday + 6) % 7));
+}
+
+/**
+ * Início (00:00, horário do servidor) da segunda-feira da semana de uma data
+ */
+export function getLocalWeekStart(date: Date): Date {
+  // getDay: 0 = domingo
+  return new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() - ((date.getDay() + 6) % 7)
+  );
+}
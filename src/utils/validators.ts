@@ -1,5 +1,24 @@
 import { z } from "zod";
-import { AchievementType } from "../models/Achievement";
+import {
+  ANTI_ABUSE_REPORT_CONFIG,
+  AUDIT_CONFIG,
+  DAILY_GOAL_CONFIG,
+  INBOX_CONFIG,
+  LEVEL_TABLE_CONFIG,
+  REVIEW_BATCH_CONFIG,
+  STREAK_FREEZE_CONFIG,
+  XP_BOOST_CONFIG,
+} from "../config/constants";
+import {
+  AchievementTier,
+  AchievementType,
+  CUSTOM_ACHIEVEMENT_METRICS,
+} from "../models/Achievement";
+import { AuditAction } from "../models/AuditRecord";
+import { NotificationCategory } from "../models/NotificationPreferences";
+import { XP_BOOSTABLE_SOURCES } from "../models/XPBoost";
+import { XPSource } from "../models/XPTransaction";
+import { addDaysToDateString, isValidTimeZone } from "./timezone";
 
 /**
  * Schemas de validação Zod para endpoints de gamificação
@@ -28,6 +47,16 @@ export const ReviewDifficultySchema = z.enum(
   }
 );
 
+/**
+ * Identificador de evento para ingestão idempotente
+ * Aceito no corpo (eventId) ou no header Idempotency-Key
+ */
+export const EventIdSchema = z
+  .string()
+  .trim()
+  .min(1, "eventId não pode ser vazio")
+  .max(128, "eventId muito longo");
+
 /**
  * Schema para processo de revisão de card
  * POST /process-review
@@ -54,6 +83,56 @@ export const ProcessReviewSchema = z.object({
     .min(1, "ID do deck é obrigatório")
     .max(128, "ID do deck muito longo")
     .optional(),
+  eventId: EventIdSchema.optional(),
+});
+
+/**
+ * Schema para envio em lote de revisões (estudo offline)
+ * POST /process-reviews
+ */
+export const ProcessReviewsSchema = z.object({
+  userId: z
+    .string()
+    .trim()
+    .min(1, "ID do usuário é obrigatório")
+    .max(128, "ID do usuário muito longo"),
+  reviews: z
+    .array(
+      z.object({
+        cardId: z
+          .string()
+          .trim()
+          .min(1, "ID do card é obrigatório")
+          .max(128, "ID do card muito longo"),
+        deckId: z
+          .string()
+          .trim()
+          .min(1, "ID do deck é obrigatório")
+          .max(128, "ID do deck muito longo")
+          .optional(),
+        difficulty: ReviewDifficultySchema,
+        reviewedAt: z.coerce
+          .date({ message: "reviewedAt deve ser uma data válida" })
+          .refine(
+            (date) =>
+              date.getTime() <=
+              Date.now() + REVIEW_BATCH_CONFIG.MAX_FUTURE_SKEW_MS,
+            "reviewedAt não pode estar no futuro"
+          )
+          .refine(
+            (date) =>
+              date.getTime() >=
+              Date.now() - REVIEW_BATCH_CONFIG.MAX_PAST_AGE_MS,
+            `reviewedAt não pode ter mais de ${REVIEW_BATCH_CONFIG.MAX_PAST_AGE_MS / (60 * 60 * 1000)}h`
+          ),
+      })
+    )
+    .min(1, "Informe ao menos uma revisão")
+    .max(
+      REVIEW_BATCH_CONFIG.MAX_REVIEWS,
+      `Máximo de ${REVIEW_BATCH_CONFIG.MAX_REVIEWS} revisões por lote`
+    ),
+  eventId: EventIdSchema.optional(),
 });
 
 /**
@@ -77,6 +156,7 @@ export const CardCreatedSchema = z.object({
     .min(1, "ID do deck é obrigatório")
     .max(128, "ID do deck muito longo")
     .optional(),
+  eventId: EventIdSchema.optional(),
 });
 
 /**
@@ -100,8 +180,88 @@ export const DeckCreatedSchema = z.object({
     .min(1, "Nome do deck é obrigatório")
     .max(256, "Nome do deck muito longo")
     .optional(),
+  eventId: EventIdSchema.optional(),
 });
 
+/**
+ * Schema para exclusão de card
+ * POST /card-deleted
+ */
+export const CardDeletedSchema = z.object({
+  userId: z
+    .string()
+    .trim()
+    .min(1, "ID do usuário é obrigatório")
+    .max(128, "ID do usuário muito longo"),
+  cardId: z
+    .string()
+    .trim()
+    .min(1, "ID do card é obrigatório")
+    .max(128, "ID do card muito longo"),
+  eventId: EventIdSchema.optional(),
+});
+
+/**
+ * Schema para exclusão de deck
+ * POST /deck-deleted
+ */
+export const DeckDeletedSchema = z.object({
+  userId: z
+    .string()
+    .trim()
+    .min(1, "ID do usuário é obrigatório")
+    .max(128, "ID do usuário muito longo"),
+  deckId: z
+    .string()
+    .trim()
+    .min(1, "ID do deck é obrigatório")
+    .max(128, "ID do deck muito longo"),
+  eventId: EventIdSchema.optional(),
+});
+
+/**
+ * Schema para estorno de XP
+ * POST /xp/reverse
+ *
+ * Informe transactionId (uma transação) ou source + sourceId
+ * (todo o XP ganho pela origem, ex: card_creation + cardId)
+ */
+export const XPReversalSchema = z
+  .object({
+    userId: z
+      .string()
+      .trim()
+      .min(1, "ID do usuário é obrigatório")
+      .max(128, "ID do usuário muito longo"),
+    transactionId: z
+      .string()
+      .trim()
+      .min(1, "ID da transação é obrigatório")
+      .max(128, "ID da transação muito longo")
+      .optional(),
+    source: z
+      .nativeEnum(XPSource, { message: "Origem de XP inválida" })
+      .refine(
+        (source) => source !== XPSource.REVERSAL,
+        "Um estorno não pode ser revertido"
+      )
+      .optional(),
+    sourceId: z
+      .string()
+      .trim()
+      .min(1, "ID da origem é obrigatório")
+      .max(128, "ID da origem muito longo")
+      .optional(),
+    reason: z.string().trim().min(1).max(500, "Motivo muito longo").optional(),
+  })
+  .refine(
+    (data) =>
+      data.transactionId
+        ? !data.source && !data.sourceId
+        : Boolean(data.source && data.sourceId),
+    "Informe transactionId ou source e sourceId"
+  );
+
 /**
  * Schema para parâmetro userId em rotas
  * GET /progress/:userId
@@ -139,11 +299,876 @@ export const CheckAchievementsSchema = z.object({
     .describe("Tipos específicos de conquistas a verificar (opcional)"),
 });
 
+/**
+ * Schema para o mês do ranking mensal
+ * GET /rankings/monthly/:date?
+ */
+export const MonthlyRankingParamsSchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Mês deve estar no formato YYYY-MM")
+    .optional(),
+});
+
+/**
+ * Schema para o ano do ranking anual
+ * GET /rankings/yearly/:year?
+ */
+export const YearlyRankingParamsSchema = z.object({
+  year: z
+    .string()
+    .regex(/^\d{4}$/, "Ano deve estar no formato YYYY")
+    .refine(
+      (year) =>
+        Number(year) >= 2020 && Number(year) <= new Date().getFullYear() + 1,
+      "Ano fora do intervalo permitido"
+    )
+    .optional(),
+});
+
+/**
+ * Schema para paginação de rankings
+ * GET /rankings/monthly/:date?limit=50&offset=0
+ */
+export const RankingQuerySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int("limit deve ser um número inteiro")
+    .min(1, "limit deve ser no mínimo 1")
+    .max(100, "limit deve ser no máximo 100")
+    .optional(),
+  offset: z.coerce
+    .number()
+    .int("offset deve ser um número inteiro")
+    .min(0, "offset não pode ser negativo")
+    .optional(),
+});
+
+/**
+ * Schema para posição do usuário no ranking
+ * GET /rankings/user/:userId/position/:period
+ */
+export const UserRankPositionParamsSchema = z.object({
+  userId: z
+    .string()
+    .trim()
+    .min(1, "ID do usuário é obrigatório")
+    .max(128, "ID do usuário muito longo"),
+  period: z.enum(["monthly", "yearly"], {
+    message: "Período inválido. Valores permitidos: 'monthly', 'yearly'",
+  }),
+});
+
+/**
+ * Schema para query da posição do usuário (período específico opcional)
+ * GET /rankings/user/:userId/position/:period?periodKey=2025-11
+ */
+export const UserRankPositionQuerySchema = z.object({
+  periodKey: z
+    .string()
+    .regex(/^\d{4}(-(0[1-9]|1[0-2]))?$/, "Período deve ser YYYY-MM ou YYYY")
+    .optional(),
+});
+
+/**
+ * Schema para parâmetros das estatísticas por deck
+ * GET /statistics/deck/:userId/:deckId?
+ */
+export const DeckStatisticsParamsSchema = z.object({
+  userId: z
+    .string()
+    .trim()
+    .min(1, "ID do usuário é obrigatório")
+    .max(128, "ID do usuário muito longo"),
+  deckId: z
+    .string()
+    .trim()
+    .min(1, "ID do deck é obrigatório")
+    .max(128, "ID do deck muito longo")
+    .optional(),
+});
+
+/**
+ * Schema para o período das estatísticas
+ * GET /statistics/user/:userId?period=month
+ */
+export const StatisticsQuerySchema = z.object({
+  period: z
+    .enum(["week", "month", "year", "all"], {
+      message:
+        "Período inválido. Valores permitidos: 'week', 'month', 'year', 'all'",
+    })
+    .optional(),
+});
+
+/**
+ * Schema para registro de sessão de estudo
+ * PUT /statistics/session/:userId
+ */
+export const StudySessionBodySchema = z
+  .object({
+    sessionId: z
+      .string()
+      .trim()
+      .min(1, "ID da sessão é obrigatório")
+      .max(128, "ID da sessão muito longo")
+      .optional(),
+    deckId: z
+      .string()
+      .trim()
+      .min(1, "ID do deck é obrigatório")
+      .max(128, "ID do deck muito longo")
+      .optional(),
+    sessionDurationMinutes: z
+      .number()
+      .min(0, "Duração não pode ser negativa")
+      .max(24 * 60, "Duração máxima de 24 horas"),
+    cardsReviewed: z
+      .number()
+      .int("cardsReviewed deve ser inteiro")
+      .min(0, "cardsReviewed não pode ser negativo"),
+    accuracyCount: z
+      .number()
+      .int("accuracyCount deve ser inteiro")
+      .min(0, "accuracyCount não pode ser negativo"),
+    totalAnswers: z
+      .number()
+      .int("totalAnswers deve ser inteiro")
+      .min(0, "totalAnswers não pode ser negativo"),
+    studyTime: z
+      .enum(["morning", "afternoon", "evening", "night"], {
+        message:
+          "Período do dia inválido. Valores permitidos: 'morning', 'afternoon', 'evening', 'night'",
+      })
+      .optional(),
+    difficultyBreakdown: z
+      .object({
+        again: z.number().int().min(0).optional(),
+        hard: z.number().int().min(0).optional(),
+        good: z.number().int().min(0).optional(),
+        easy: z.number().int().min(0).optional(),
+      })
+      .optional(),
+    startedAt: z.coerce
+      .date({ message: "startedAt deve ser uma data válida" })
+      .optional(),
+  })
+  .refine((data) => data.accuracyCount <= data.totalAnswers, {
+    message: "accuracyCount não pode ser maior que totalAnswers",
+  });
+
+/**
+ * Schema para atualização da meta diária do usuário
+ */
+export const DailyGoalSettingsSchema = z
+  .object({
+    type: z.enum(["cards", "minutes"], {
+      message: "Tipo de meta inválido. Valores permitidos: 'cards', 'minutes'",
+    }),
+    target: z
+      .number()
+      .int("A meta deve ser um número inteiro")
+      .min(1, "A meta deve ser de pelo menos 1"),
+  })
+  .refine(
+    (data) =>
+      data.target <=
+      (data.type === "cards"
+        ? DAILY_GOAL_CONFIG.MAX_CARDS
+        : DAILY_GOAL_CONFIG.MAX_MINUTES),
+    {
+      message: `A meta máxima é de ${DAILY_GOAL_CONFIG.MAX_CARDS} cards ou ${DAILY_GOAL_CONFIG.MAX_MINUTES} minutos`,
+      path: ["target"],
+    }
+  );
+
+/**
+ * Schema para compra/equipamento de streak freezes
+ */
+export const StreakFreezeQuantitySchema = z.object({
+  quantity: z
+    .number()
+    .int("A quantidade deve ser um número inteiro")
+    .min(1, "A quantidade deve ser de pelo menos 1")
+    .max(
+      STREAK_FREEZE_CONFIG.MAX_INVENTORY,
+      `A quantidade máxima é ${STREAK_FREEZE_CONFIG.MAX_INVENTORY}`
+    )
+    .default(1),
+});
+
+/**
+ * Valida fuso horário do usuário (identificador IANA, ex: America/Sao_Paulo).
+ * null remove o fuso configurado (volta ao fuso padrão)
+ */
+export const TimezoneBodySchema = z.object({
+  timezone: z
+    .string()
+    .trim()
+    .min(1, "Fuso horário é obrigatório")
+    .max(64)
+    .refine(isValidTimeZone, {
+      message:
+        "Fuso horário inválido. Use um identificador IANA (ex: America/Sao_Paulo)",
+    })
+    .nullable(),
+});
+
+/**
+ * Condição de desbloqueio de uma conquista.
+ * Conquistas CUSTOM exigem `params.metric` com uma métrica conhecida;
+ * "minimum_cards_consecutive_days" exige também consecutiveDays e minimumCardsPerDay.
+ */
+export const AchievementConditionSchema = z
+  .object({
+    type: z.nativeEnum(AchievementType, {
+      message: `Tipo de conquista inválido. Valores permitidos: ${Object.values(
+        AchievementType
+      ).join(", ")}`,
+    }),
+    target: z
+      .number()
+      .int("O alvo deve ser um número inteiro")
+      .min(1, "O alvo deve ser de pelo menos 1"),
+    params: z
+      .object({
+        metric: z
+          .enum(CUSTOM_ACHIEVEMENT_METRICS, {
+            message: "Métrica customizada desconhecida",
+          })
+          .optional(),
+        consecutiveDays: z
+          .number()
+          .int("consecutiveDays deve ser inteiro")
+          .min(1, "consecutiveDays deve ser de pelo menos 1")
+          .optional(),
+        minimumCardsPerDay: z
+          .number()
+          .int("minimumCardsPerDay deve ser inteiro")
+          .min(1, "minimumCardsPerDay deve ser de pelo menos 1")
+          .optional(),
+      })
+      .catchall(z.unknown())
+      .optional(),
+  })
+  .superRefine((condition, ctx) => {
+    if (condition.type !== AchievementType.CUSTOM) {
+      return;
+    }
+
+    const params = condition.params;
+
+    if (!params?.metric) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Conquistas CUSTOM exigem params.metric",
+        path: ["params", "metric"],
+      });
+      return;
+    }
+
+    if (params.metric === "minimum_cards_consecutive_days") {
+      for (const key of ["consecutiveDays", "minimumCardsPerDay"] as const) {
+        if (params[key] === undefined) {
+          ctx.addIssue({
+            code: "custom",
+            message: `A métrica "${params.metric}" exige params.${key}`,
+            path: ["params", key],
+          });
+        }
+      }
+    }
+  });
+
+const XPBoostMultiplierSchema = z
+  .number()
+  .gt(1, "O multiplicador deve ser maior que 1")
+  .max(
+    XP_BOOST_CONFIG.MAX_MULTIPLIER,
+    `O multiplicador deve ser no máximo ${XP_BOOST_CONFIG.MAX_MULTIPLIER}`
+  );
+
+const XPBoostSourcesSchema = z
+  .array(
+    z
+      .nativeEnum(XPSource)
+      .refine(
+        (source) => XP_BOOSTABLE_SOURCES.includes(source),
+        `Fonte de XP não aceita boost. Valores permitidos: ${XP_BOOSTABLE_SOURCES.join(", ")}`
+      )
+  )
+  .min(1, "Informe ao menos uma fonte de XP");
+
+/**
+ * Boost pessoal concedido junto com a recompensa da conquista
+ */
+const AchievementBoostRewardSchema = z.object({
+  multiplier: XPBoostMultiplierSchema,
+  durationMinutes: z
+    .number()
+    .int("durationMinutes deve ser inteiro")
+    .min(1, "durationMinutes deve ser no mínimo 1")
+    .max(
+      XP_BOOST_CONFIG.MAX_ACHIEVEMENT_BOOST_MINUTES,
+      `durationMinutes deve ser no máximo ${XP_BOOST_CONFIG.MAX_ACHIEVEMENT_BOOST_MINUTES}`
+    ),
+  sources: XPBoostSourcesSchema.optional(),
+});
+
+const achievementFields = {
+  name: z
+    .string()
+    .trim()
+    .min(1, "Nome é obrigatório")
+    .max(100, "Nome muito longo"),
+  description: z.string().trim().max(500, "Descrição muito longa"),
+  tier: z.nativeEnum(AchievementTier, {
+    message: `Tier inválido. Valores permitidos: ${Object.values(
+      AchievementTier
+    ).join(", ")}`,
+  }),
+  xpReward: z
+    .number()
+    .int("xpReward deve ser inteiro")
+    .min(0, "xpReward não pode ser negativo"),
+  icon: z.string().trim().max(200, "Ícone muito longo"),
+  condition: AchievementConditionSchema,
+  isActive: z.boolean(),
+  hidden: z.boolean(),
+  // null remove o boost na atualização
+  boostReward: AchievementBoostRewardSchema.nullable(),
+};
+
+/**
+ * Schema para criação de conquista no catálogo
+ * POST /admin/achievements
+ */
+export const AchievementCreateSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .min(1, "ID da conquista é obrigatório")
+    .max(128, "ID da conquista muito longo")
+    .regex(
+      /^[a-z0-9_-]+$/i,
+      "ID da conquista deve conter apenas letras, números, '_' e '-'"
+    ),
+  ...achievementFields,
+  description: achievementFields.description.default(""),
+  icon: achievementFields.icon.default(""),
+  isActive: achievementFields.isActive.default(true),
+  hidden: achievementFields.hidden.default(false),
+  boostReward: achievementFields.boostReward.optional(),
+});
+
+/**
+ * Schema para atualização parcial de conquista
+ * PATCH /admin/achievements/:achievementId
+ */
+export const AchievementUpdateSchema = z
+  .object(achievementFields)
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "Informe ao menos um campo para atualizar",
+  });
+
+/**
+ * Schema para o parâmetro achievementId
+ */
+export const AchievementIdParamSchema = z.object({
+  achievementId: z
+    .string()
+    .trim()
+    .min(1, "ID da conquista é obrigatório")
+    .max(128, "ID da conquista muito longo"),
+});
+
+/**
+ * Schema para rotas de uma conquista do usuário
+ * POST /achievements/:userId/:achievementId/claim
+ */
+export const UserAchievementParamsSchema = UserIdParamSchema.extend(
+  AchievementIdParamSchema.shape
+);
+
+/**
+ * Schema para rotas de missão do usuário
+ * POST /quests/:userId/:questId/claim
+ */
+export const UserQuestParamsSchema = UserIdParamSchema.extend({
+  questId: z
+    .string()
+    .trim()
+    .min(1, "ID da missão é obrigatório")
+    .max(128, "ID da missão muito longo"),
+});
+
+/**
+ * Schema para rotas entre o usuário e outro usuário (amigo ou solicitante)
+ * POST /friends/:userId/requests/:friendId/accept
+ * DELETE /friends/:userId/:friendId
+ */
+export const FriendParamsSchema = UserIdParamSchema.extend({
+  friendId: z
+    .string()
+    .trim()
+    .min(1, "ID do amigo é obrigatório")
+    .max(128, "ID do amigo muito longo"),
+});
+
+/**
+ * Schema do pedido de amizade
+ * POST /friends/:userId/requests
+ */
+export const FriendRequestSchema = FriendParamsSchema.pick({ friendId: true });
+
+/**
+ * Schema do leaderboard de amigos
+ * GET /friends/:userId/leaderboard?metric=weekly_xp
+ */
+export const FriendLeaderboardQuerySchema = z.object({
+  metric: z
+    .enum(["weekly_xp", "monthly_xp", "streak"], {
+      message: "metric deve ser weekly_xp, monthly_xp ou streak",
+    })
+    .default("weekly_xp"),
+});
+
+/**
+ * Schema de parâmetros de grupo de estudo
+ * GET /groups/:userId/:groupId
+ */
+export const StudyGroupParamsSchema = UserIdParamSchema.extend({
+  groupId: z
+    .string()
+    .trim()
+    .min(1, "ID do grupo é obrigatório")
+    .max(128, "ID do grupo muito longo"),
+});
+
+/**
+ * Schema de parâmetros de membro do grupo
+ * DELETE /groups/:userId/:groupId/members/:memberId
+ */
+export const StudyGroupMemberParamsSchema = StudyGroupParamsSchema.extend({
+  memberId: z
+    .string()
+    .trim()
+    .min(1, "ID do membro é obrigatório")
+    .max(128, "ID do membro muito longo"),
+});
+
+/**
+ * Schema de criação de grupo de estudo
+ * POST /groups/:userId
+ */
+export const CreateStudyGroupSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Nome do grupo é obrigatório")
+    .max(60, "Nome do grupo muito longo"),
+  description: z
+    .string()
+    .trim()
+    .max(280, "Descrição muito longa")
+    .nullable()
+    .optional(),
+  weeklyXPGoal: z
+    .number()
+    .int("weeklyXPGoal deve ser inteiro")
+    .min(100, "weeklyXPGoal deve ser no mínimo 100")
+    .max(100000, "weeklyXPGoal deve ser no máximo 100000")
+    .optional(),
+});
+
+/**
+ * Schema de atualização de grupo de estudo (ao menos um campo)
+ * PATCH /groups/:userId/:groupId
+ */
+export const UpdateStudyGroupSchema = CreateStudyGroupSchema.partial().refine(
+  (data) => Object.values(data).some((value) => value !== undefined),
+  { message: "Informe ao menos um campo para atualizar" }
+);
+
+/**
+ * Schema de convite para grupo de estudo
+ * POST /groups/:userId/:groupId/invites
+ */
+export const StudyGroupInviteSchema = z.object({
+  inviteeId: z
+    .string()
+    .trim()
+    .min(1, "ID do convidado é obrigatório")
+    .max(128, "ID do convidado muito longo"),
+});
+
+/**
+ * Usuário alvo das rotas /api/user (corpo ou query). Opcional: sem ele, vale
+ * o usuário autenticado
+ */
+export const UserIdBodySchema = z.object({
+  user_id: z
+    .string()
+    .trim()
+    .min(1, "ID do usuário é obrigatório")
+    .max(128, "ID do usuário muito longo")
+    .optional(),
+});
+
+const QuietHourSchema = z
+  .number()
+  .int("A hora deve ser um número inteiro")
+  .min(0, "A hora deve estar entre 0 e 23")
+  .max(23, "A hora deve estar entre 0 e 23");
+
+/**
+ * Schema de atualização das preferências de notificação (ao menos um campo).
+ * quietHours: null remove o horário de silêncio
+ * PUT /api/user/notification-preferences
+ */
+export const NotificationPreferencesUpdateSchema = UserIdBodySchema.extend({
+  muted: z.boolean().optional(),
+  categories: z
+    .partialRecord(
+      z.nativeEnum(NotificationCategory, {
+        message: `Categoria inválida. Valores permitidos: ${Object.values(
+          NotificationCategory
+        ).join(", ")}`,
+      }),
+      z.boolean()
+    )
+    .optional(),
+  quietHours: z
+    .object({ startHour: QuietHourSchema, endHour: QuietHourSchema })
+    .nullable()
+    .optional(),
+}).refine(
+  (data) =>
+    data.muted !== undefined ||
+    data.categories !== undefined ||
+    data.quietHours !== undefined,
+  { message: "Informe ao menos um campo para atualizar" }
+);
+
+/**
+ * Schema de paginação da caixa de entrada
+ * GET /notifications/:userId?limit=20&cursor=<id>&unreadOnly=true
+ */
+export const InboxQuerySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int("limit deve ser um número inteiro")
+    .min(1, "limit deve ser no mínimo 1")
+    .max(
+      INBOX_CONFIG.MAX_PAGE_SIZE,
+      `limit deve ser no máximo ${INBOX_CONFIG.MAX_PAGE_SIZE}`
+    )
+    .optional(),
+  cursor: z.string().trim().min(1).max(128).optional(),
+  unreadOnly: z
+    .enum(["true", "false"], {
+      message: "unreadOnly deve ser 'true' ou 'false'",
+    })
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+/**
+ * Schema de parâmetros de uma notificação da caixa de entrada
+ * POST /notifications/:userId/:notificationId/read
+ */
+export const InboxNotificationParamsSchema = UserIdParamSchema.extend({
+  notificationId: z
+    .string()
+    .trim()
+    .min(1, "ID da notificação é obrigatório")
+    .max(128, "ID da notificação muito longo"),
+});
+
+/**
+ * Query ?dryRun=true: valida e simula a alteração sem gravar
+ */
+export const DryRunQuerySchema = z.object({
+  dryRun: z
+    .enum(["true", "false"], {
+      message: "dryRun deve ser 'true' ou 'false'",
+    })
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+/**
+ * Motivo obrigatório das operações administrativas (gravado na auditoria)
+ */
+const AdminReasonSchema = z
+  .string()
+  .trim()
+  .min(3, "Informe o motivo da operação")
+  .max(500, "Motivo muito longo");
+
+/**
+ * Schema para broadcast administrativo
+ * POST /admin/broadcast
+ */
+export const AdminBroadcastSchema = z.object({
+  title: z.string().trim().min(1, "Título é obrigatório").max(120),
+  body: z.string().trim().min(1, "Mensagem é obrigatória").max(1000),
+  pushType: z.coerce
+    .number()
+    .int("pushType deve ser um código numérico")
+    .positive("pushType deve ser um código numérico"),
+  additionalData: z.record(z.string(), z.string()).default({}),
+  reason: AdminReasonSchema.optional(),
+});
+
+/**
+ * Schema para ajuste manual de XP (positivo concede, negativo debita)
+ * POST /admin/users/:userId/xp
+ */
+export const AdminXPAdjustmentSchema = z.object({
+  amount: z
+    .number()
+    .int("A quantidade de XP deve ser um número inteiro")
+    .refine((value) => value !== 0, "A quantidade de XP não pode ser 0"),
+  reason: AdminReasonSchema,
+});
+
+/**
+ * Schema para conceder uma conquista manualmente
+ * POST /admin/users/:userId/achievements/:achievementId/grant
+ */
+export const AdminAchievementGrantSchema = z.object({
+  reason: AdminReasonSchema,
+});
+
+/**
+ * Schema para revogar uma conquista
+ * POST /admin/users/:userId/achievements/:achievementId/revoke
+ */
+export const AdminAchievementRevokeSchema = z.object({
+  reason: AdminReasonSchema,
+  // Debita o XP da recompensa, se já tiver sido resgatada
+  deductXP: z.boolean().default(false),
+});
+
+/**
+ * Schema para correção manual de streak
+ * PUT /admin/users/:userId/streak
+ */
+export const AdminStreakRepairSchema = z.object({
+  current: z
+    .number()
+    .int("O streak deve ser um número inteiro")
+    .min(0, "O streak não pode ser negativo"),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Data deve estar no formato YYYY-MM-DD")
+    .optional(),
+  reason: AdminReasonSchema,
+});
+
+/**
+ * Schema para criar um evento de boost de XP
+ * POST /admin/xp-boosts
+ *
+ * Campos de escopo ausentes valem para todos (ex: sem userId, todos os usuários)
+ */
+export const XPBoostCreateSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Nome é obrigatório")
+      .max(100, "Nome muito longo"),
+    description: z.string().trim().max(500, "Descrição muito longa").optional(),
+    multiplier: XPBoostMultiplierSchema,
+    startsAt: z.coerce.date({ message: "startsAt deve ser uma data válida" }),
+    endsAt: z.coerce.date({ message: "endsAt deve ser uma data válida" }),
+    sources: XPBoostSourcesSchema.optional(),
+    userId: z.string().trim().min(1).max(128).optional(),
+    deckId: z.string().trim().min(1).max(128).optional(),
+    difficulties: z
+      .array(ReviewDifficultySchema)
+      .min(1, "Informe ao menos uma dificuldade")
+      .optional(),
+    reason: AdminReasonSchema,
+  })
+  .refine((boost) => boost.endsAt > boost.startsAt, {
+    message: "endsAt deve ser posterior a startsAt",
+    path: ["endsAt"],
+  })
+  .refine(
+    (boost) =>
+      boost.endsAt.getTime() - boost.startsAt.getTime() <=
+      XP_BOOST_CONFIG.MAX_EVENT_DURATION_DAYS * 24 * 60 * 60 * 1000,
+    {
+      message: `O boost pode durar no máximo ${XP_BOOST_CONFIG.MAX_EVENT_DURATION_DAYS} dias`,
+      path: ["endsAt"],
+    }
+  )
+  .refine((boost) => boost.endsAt.getTime() > Date.now(), {
+    message: "endsAt não pode estar no passado",
+    path: ["endsAt"],
+  });
+
+/**
+ * Schema para encerrar um boost antes do fim
+ * POST /admin/xp-boosts/:boostId/end
+ */
+export const XPBoostEndSchema = z.object({
+  reason: AdminReasonSchema,
+});
+
+/**
+ * Schema para o parâmetro boostId
+ */
+export const XPBoostIdParamSchema = z.object({
+  boostId: z
+    .string()
+    .trim()
+    .min(1, "ID do boost é obrigatório")
+    .max(128, "ID do boost muito longo"),
+});
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// Data (YYYY-MM-DD) ou data/hora ISO 8601
+const AuditDateSchema = z
+  .string()
+  .trim()
+  .refine(
+    (value) => !Number.isNaN(Date.parse(value)),
+    "Data deve estar no formato YYYY-MM-DD ou ISO 8601"
+  );
+
+/**
+ * Schema para a linha do tempo de auditoria de um usuário
+ * GET /admin/users/:userId/audit?from=2025-01-01&to=2025-01-31&limit=100&action=xp_change,streak_reset
+ *
+ * Sem from/to, retorna os últimos AUDIT_CONFIG.DEFAULT_PERIOD_DAYS dias.
+ * "to" apenas com a data inclui o dia inteiro (UTC).
+ */
+export const AuditTimelineQuerySchema = z
+  .object({
+    from: AuditDateSchema.optional(),
+    to: AuditDateSchema.optional(),
+    limit: z.coerce
+      .number()
+      .int("limit deve ser um número inteiro")
+      .min(1, "limit deve ser no mínimo 1")
+      .max(
+        AUDIT_CONFIG.MAX_LIMIT,
+        `limit deve ser no máximo ${AUDIT_CONFIG.MAX_LIMIT}`
+      )
+      .optional(),
+    action: z
+      .string()
+      .transform((value) =>
+        value
+          .split(",")
+          .map((action) => action.trim())
+          .filter(Boolean)
+      )
+      .pipe(
+        z.array(
+          z.nativeEnum(AuditAction, {
+            message: `Ação inválida. Valores permitidos: ${Object.values(AuditAction).join(", ")}`,
+          })
+        )
+      )
+      .optional(),
+  })
+  .transform(({ from, to, limit, action }) => {
+    const end = to
+      ? new Date(DATE_ONLY_REGEX.test(to) ? `${to}T23:59:59.999Z` : to)
+      : new Date();
+    const start = from
+      ? new Date(from)
+      : new Date(
+          end.getTime() - AUDIT_CONFIG.DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000
+        );
+
+    return { from: start, to: end, limit, actions: action };
+  })
+  .refine((query) => query.from <= query.to, {
+    message: "from deve ser anterior ou igual a to",
+    path: ["from"],
+  });
+
+/**
+ * Schema da tabela de níveis
+ * GET /levels?to=50
+ */
+export const LevelTableQuerySchema = z.object({
+  to: z.coerce
+    .number()
+    .int("to deve ser um número inteiro")
+    .min(1, "to deve ser no mínimo 1")
+    .max(
+      LEVEL_TABLE_CONFIG.MAX_LEVELS,
+      `to deve ser no máximo ${LEVEL_TABLE_CONFIG.MAX_LEVELS}`
+    )
+    .default(LEVEL_TABLE_CONFIG.DEFAULT_LEVELS),
+});
+
+const ReportDateSchema = z
+  .string()
+  .regex(DATE_ONLY_REGEX, "Data deve estar no formato YYYY-MM-DD");
+
+/**
+ * Schema do relatório de usuários sinalizados pelo anti-abuso
+ * GET /admin/anti-abuse/flagged?from=2025-01-01&to=2025-01-07&minViolations=10&limit=50
+ *
+ * Datas em UTC. Sem from, considera os últimos
+ * ANTI_ABUSE_REPORT_CONFIG.DEFAULT_PERIOD_DAYS dias até "to" (padrão: hoje).
+ */
+export const FlaggedUsersQuerySchema = z
+  .object({
+    from: ReportDateSchema.optional(),
+    to: ReportDateSchema.optional(),
+    // Padrão: ANTI_ABUSE_FLAG_THRESHOLD
+    minViolations: z.coerce
+      .number()
+      .int("minViolations deve ser um número inteiro")
+      .min(1, "minViolations deve ser no mínimo 1")
+      .optional(),
+    limit: z.coerce
+      .number()
+      .int("limit deve ser um número inteiro")
+      .min(1, "limit deve ser no mínimo 1")
+      .max(
+        ANTI_ABUSE_REPORT_CONFIG.MAX_LIMIT,
+        `limit deve ser no máximo ${ANTI_ABUSE_REPORT_CONFIG.MAX_LIMIT}`
+      )
+      .optional(),
+  })
+  .transform(({ from, to, minViolations, limit }) => {
+    const end = to ?? new Date().toISOString().slice(0, 10);
+    const start =
+      from ??
+      addDaysToDateString(
+        end,
+        1 - ANTI_ABUSE_REPORT_CONFIG.DEFAULT_PERIOD_DAYS
+      );
+
+    return { from: start, to: end, minViolations, limit };
+  })
+  .refine((query) => query.from <= query.to, {
+    message: "from deve ser anterior ou igual a to",
+    path: ["from"],
+  });
+
 /**
  * Tipo inferido para processo de revisão
  */
 export type ProcessReviewInput = z.infer<typeof ProcessReviewSchema>;
 
+/**
+ * Tipo inferido para envio em lote de revisões
+ */
+export type ProcessReviewsInput = z.infer<typeof ProcessReviewsSchema>;
+
 /**
  * Tipo inferido para criação de card
  */
@@ -169,6 +1194,65 @@ export type DailyProgressQuery = z.infer<typeof DailyProgressQuerySchema>;
  */
 export type CheckAchievementsInput = z.infer<typeof CheckAchievementsSchema>;
 
+/**
+ * Tipo inferido para registro de sessão de estudo
+ */
+export type StudySessionBody = z.infer<typeof StudySessionBodySchema>;
+
+/**
+ * Tipo inferido para meta diária
+ */
+export type DailyGoalSettingsInput = z.infer<typeof DailyGoalSettingsSchema>;
+
+/**
+ * Tipo inferido para quantidade de streak freezes
+ */
+export type StreakFreezeQuantityInput = z.infer<
+  typeof StreakFreezeQuantitySchema
+>;
+
+/**
+ * Tipo inferido para criação de conquista
+ */
+export type AchievementCreateInput = z.infer<typeof AchievementCreateSchema>;
+
+/**
+ * Tipo inferido para atualização de conquista
+ */
+export type AchievementUpdateInput = z.infer<typeof AchievementUpdateSchema>;
+
+/**
+ * Tipo inferido para broadcast administrativo
+ */
+export type AdminBroadcastInput = z.infer<typeof AdminBroadcastSchema>;
+
+/**
+ * Tipo inferido para revogação de conquista
+ */
+export type AdminAchievementRevokeInput = z.infer<
+  typeof AdminAchievementRevokeSchema
+>;
+
+/**
+ * Tipo inferido para criação de boost de XP
+ */
+export type XPBoostCreateInput = z.infer<typeof XPBoostCreateSchema>;
+
+/**
+ * Tipo inferido para a linha do tempo de auditoria
+ */
+export type AuditTimelineQueryInput = z.infer<typeof AuditTimelineQuerySchema>;
+
+/**
+ * Tipo inferido para a tabela de níveis
+ */
+export type LevelTableQuery = z.infer<typeof LevelTableQuerySchema>;
+
+/**
+ * Tipo inferido para o relatório de usuários sinalizados
+ */
+export type FlaggedUsersQueryInput = z.infer<typeof FlaggedUsersQuerySchema>;
+
 /**
  * Helper para validar dados com Zod e retornar erro formatado
  */